@@ -1,26 +1,775 @@
 'use client';
 
-import React from 'react';
-import { Edit } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Plus, Search, ClipboardList, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { ScanInput, ScanResult } from '@/components/ui/scan-input';
+
+interface CountLine {
+  _id: string;
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  binCode?: string;
+  snapshotQuantity?: number;
+  unitCost?: number;
+  countedQuantity?: number;
+  recountQuantity?: number;
+  varianceQuantity?: number;
+  varianceValue?: number;
+  variancePercent?: number;
+  status: 'PENDING' | 'COUNTED' | 'RECOUNT_REQUIRED' | 'RECOUNTED';
+}
+
+interface StockCount {
+  _id: string;
+  countNumber: string;
+  warehouseId: string;
+  warehouseName: string;
+  scope: {
+    type: 'WAREHOUSE' | 'ZONE' | 'ABC_CLASS';
+    zone?: string;
+    abcClass?: string;
+  };
+  status: 'OPEN' | 'APPROVED' | 'CANCELLED';
+  lines?: CountLine[];
+  varianceThresholdPercent: number;
+  varianceThresholdValue?: number;
+  totalVarianceValue?: number;
+  snapshotAt: string;
+  approvedAt?: string;
+  createdAt: string;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+const statusColors = {
+  OPEN: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800'
+};
+
+const statusLabels = {
+  OPEN: '실사중',
+  APPROVED: '조정완료',
+  CANCELLED: '취소'
+};
+
+const lineStatusColors = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  COUNTED: 'bg-blue-100 text-blue-800',
+  RECOUNT_REQUIRED: 'bg-red-100 text-red-800',
+  RECOUNTED: 'bg-green-100 text-green-800'
+};
+
+const lineStatusLabels = {
+  PENDING: '미실사',
+  COUNTED: '실사완료',
+  RECOUNT_REQUIRED: '재실사 필요',
+  RECOUNTED: '재실사완료'
+};
+
+const scopeLabels = {
+  WAREHOUSE: '창고 전체',
+  ZONE: '구역',
+  ABC_CLASS: 'ABC 등급'
+};
+
+interface CycleCountDue {
+  warehouseId: string;
+  warehouseName: string;
+  abcClass: 'A' | 'B' | 'C';
+  itemCount: number;
+  intervalDays: number;
+  lastCountedAt?: string;
+  nextDueDate: string;
+  isDue: boolean;
+}
 
 export default function AdjustmentsPage() {
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [schedule, setSchedule] = useState<CycleCountDue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('ALL');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [selectedCountId, setSelectedCountId] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  useEffect(() => {
+    fetchCounts();
+  }, [currentPage, statusFilter, searchTerm]);
+
+  useEffect(() => {
+    fetchWarehouses();
+    fetchSchedule();
+  }, []);
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+  });
+
+  const fetchCounts = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: '20'
+      });
+
+      if (statusFilter !== 'ALL') {
+        params.append('status', statusFilter);
+      }
+      if (searchTerm) {
+        params.append('search', searchTerm);
+      }
+
+      const response = await fetch(`/api/inventory/counts?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '재고실사 목록을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setCounts(data.data.counts || []);
+      setTotalPages(data.data.pagination.totalPages || 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const fetchSchedule = async () => {
+    try {
+      const response = await fetch('/api/inventory/counts/schedule', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setSchedule(data.data?.schedule || []);
+      }
+    } catch (error) {
+      console.error('Error fetching cycle count schedule:', error);
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+  };
+
+  const formatScope = (count: StockCount) => {
+    const label = scopeLabels[count.scope.type];
+    if (count.scope.type === 'ZONE') return `${label} ${count.scope.zone}`;
+    if (count.scope.type === 'ABC_CLASS') return `${label} ${count.scope.abcClass}`;
+    return label;
+  };
+
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
+      <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-semibold text-gray-900">재고조정 관리</h1>
-          <p className="mt-1 text-sm text-gray-500">재고조정 내역을 관리합니다</p>
+          <p className="text-gray-600">재고실사 표를 생성하고 실사 차이를 승인하여 재고를 조정합니다.</p>
         </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          실사표 생성
+        </button>
       </div>
 
-      <div className="bg-white shadow rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <div className="text-center py-12">
-            <Edit className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">준비 중입니다</h3>
-            <p className="mt-1 text-sm text-gray-500">이 기능은 현재 개발 중입니다.</p>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      {schedule.some(entry => entry.isDue) && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+          <div className="flex items-center text-yellow-800 font-medium mb-2">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            실사 주기 도래
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {schedule.filter(entry => entry.isDue).map(entry => (
+              <span key={`${entry.warehouseId}-${entry.abcClass}`} className="inline-flex px-2 py-1 text-xs rounded-full bg-white border border-yellow-300 text-yellow-900">
+                {entry.warehouseName} · {entry.abcClass} 등급 {entry.itemCount}품목 · 주기 {entry.intervalDays}일 · 최종 실사 {formatDate(entry.lastCountedAt)}
+              </span>
+            ))}
           </div>
         </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <input
+                type="text"
+                placeholder="실사번호 또는 품목명으로 검색"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="ALL">전체 상태</option>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              <span className="ml-2 text-gray-600">로딩 중...</span>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">실사번호</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">실사 범위</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">기준 시점</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">차이 허용률</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">차이 금액</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">상태</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">관리</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {counts.map((count) => (
+                  <tr key={count._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{count.countNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{count.warehouseName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatScope(count)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(count.snapshotAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{count.varianceThresholdPercent}%</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {count.totalVarianceValue !== undefined ? `₩${Math.round(count.totalVarianceValue).toLocaleString()}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[count.status]}`}>
+                        {statusLabels[count.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button onClick={() => setSelectedCountId(count._id)} className="text-primary-600 hover:text-primary-900" title="실사표">
+                        <ClipboardList className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {counts.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                      재고실사 내역이 없습니다.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+            <button
+              onClick={() => setCurrentPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              이전
+            </button>
+            <span className="px-3 py-1 text-sm text-gray-700">{currentPage} / {totalPages}</span>
+            <button
+              onClick={() => setCurrentPage(currentPage + 1)}
+              disabled={currentPage === totalPages}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              다음
+            </button>
+          </div>
+        )}
+      </div>
+
+      {selectedCountId && (
+        <CountSheetModal
+          countId={selectedCountId}
+          authHeaders={authHeaders}
+          onClose={() => setSelectedCountId(null)}
+          onChanged={fetchCounts}
+        />
+      )}
+
+      {showCreateModal && (
+        <CreateCountModal
+          warehouses={warehouses}
+          authHeaders={authHeaders}
+          onClose={() => setShowCreateModal(false)}
+          onCreated={() => {
+            setShowCreateModal(false);
+            fetchCounts();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function CountSheetModal({
+  countId,
+  authHeaders,
+  onClose,
+  onChanged
+}: {
+  countId: string;
+  authHeaders: () => Record<string, string>;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [count, setCount] = useState<StockCount | null>(null);
+  const [blind, setBlind] = useState(true);
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [scannedBinCode, setScannedBinCode] = useState('');
+  const [scanNotice, setScanNotice] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchCount();
+  }, [countId]);
+
+  // Counters scan the bin they stand at, then every unit they pick up; each item scan adds one
+  // to the sheet line for that item in the current bin.
+  const handleScan = (result: ScanResult) => {
+    if (!count) return;
+
+    if (result.type === 'BIN' && result.bin) {
+      if (result.warehouse?._id !== count.warehouseId) {
+        setScanNotice(`${result.bin.code}은(는) 이 실사의 창고에 속한 로케이션이 아닙니다.`);
+        return;
+      }
+      setScannedBinCode(result.bin.code);
+      setScanNotice('');
+      return;
+    }
+
+    if ((result.type === 'ITEM' || result.type === 'LOT') && result.item) {
+      const candidates = (count.lines || []).filter(line => line.itemId === result.item!._id);
+      const line = candidates.find(candidate => (candidate.binCode || '') === scannedBinCode)
+        || (candidates.length === 1 && !scannedBinCode ? candidates[0] : undefined);
+      if (!line) {
+        setScanNotice(`${result.item.name}은(는) ${scannedBinCode ? `로케이션 ${scannedBinCode}의 ` : ''}실사 대상이 아닙니다.`);
+        return;
+      }
+      setEntries(prev => ({ ...prev, [line._id]: String(Number(prev[line._id] || 0) + 1) }));
+      setScanNotice('');
+    }
+  };
+
+  const fetchCount = async () => {
+    try {
+      const response = await fetch(`/api/inventory/counts/${countId}`, {
+        headers: authHeaders()
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '재고실사 표를 불러오는데 실패했습니다.');
+      }
+      setCount(result.data.count);
+      setBlind(result.data.blind);
+      setEntries({});
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+      onClose();
+    }
+  };
+
+  const handleSaveCounts = async () => {
+    const lines = Object.entries(entries)
+      .filter(([, value]) => value !== '')
+      .map(([lineId, value]) => ({ lineId, countedQuantity: Number(value) }));
+    if (lines.length === 0) {
+      alert('입력된 실사 수량이 없습니다.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/inventory/counts/${countId}/count`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({ lines })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '실사 수량 저장에 실패했습니다.');
+      }
+      alert(result.message);
+      await fetchCount();
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAction = async (action: 'approve' | 'cancel') => {
+    const confirmMessage = action === 'approve'
+      ? '실사 차이를 승인하고 재고를 조정하시겠습니까?'
+      : '재고실사를 취소하시겠습니까?';
+    if (!confirm(confirmMessage)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/inventory/counts/${countId}/${action}`, {
+        method: 'PATCH',
+        headers: authHeaders()
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '처리에 실패했습니다.');
+      }
+      alert(result.message);
+      await fetchCount();
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    }
+  };
+
+  if (!count) {
+    return null;
+  }
+
+  const isOpen = count.status === 'OPEN';
+  const lines = count.lines || [];
+  const recountRequired = lines.filter(line => line.status === 'RECOUNT_REQUIRED').length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-screen overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            {count.countNumber} ({count.warehouseName}) - {statusLabels[count.status]}
+          </h3>
+          {blind && (
+            <p className="mt-1 text-sm text-gray-500">전산 재고는 표시되지 않습니다. 실물 수량을 그대로 입력해주세요.</p>
+          )}
+        </div>
+        <div className="p-6 space-y-4">
+          {isOpen && (
+            <div>
+              <ScanInput onScan={handleScan} placeholder="로케이션 라벨을 스캔한 후 품목/로트 라벨을 스캔하세요" />
+              {scannedBinCode && (
+                <p className="mt-1 text-xs text-gray-500">현재 로케이션: {scannedBinCode}</p>
+              )}
+              {scanNotice && (
+                <p className="mt-1 text-xs text-red-600">{scanNotice}</p>
+              )}
+            </div>
+          )}
+          {recountRequired > 0 && (
+            <div className="flex items-center bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              허용 범위({count.varianceThresholdPercent}%)를 초과한 {recountRequired}개 항목은 재실사 후 승인할 수 있습니다.
+            </div>
+          )}
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-gray-500">품목</th>
+                <th className="px-4 py-2 text-left text-gray-500">로케이션</th>
+                {!blind && <th className="px-4 py-2 text-right text-gray-500">전산 수량</th>}
+                <th className="px-4 py-2 text-right text-gray-500">실사 수량</th>
+                <th className="px-4 py-2 text-right text-gray-500">재실사 수량</th>
+                {!blind && <th className="px-4 py-2 text-right text-gray-500">차이</th>}
+                {!blind && <th className="px-4 py-2 text-right text-gray-500">차이 금액</th>}
+                <th className="px-4 py-2 text-left text-gray-500">상태</th>
+                {isOpen && <th className="px-4 py-2 text-right text-gray-500">입력</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {lines.map((line) => (
+                <tr key={line._id}>
+                  <td className="px-4 py-2">{line.itemName} {line.itemCode && <span className="text-gray-500">({line.itemCode})</span>}</td>
+                  <td className="px-4 py-2">{line.binCode || '-'}</td>
+                  {!blind && <td className="px-4 py-2 text-right">{line.snapshotQuantity?.toLocaleString()}</td>}
+                  <td className="px-4 py-2 text-right">{line.countedQuantity?.toLocaleString() ?? '-'}</td>
+                  <td className="px-4 py-2 text-right">{line.recountQuantity?.toLocaleString() ?? '-'}</td>
+                  {!blind && (
+                    <td className={`px-4 py-2 text-right ${(line.varianceQuantity || 0) < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {line.status === 'PENDING' ? '-' : `${line.varianceQuantity?.toLocaleString()} (${line.variancePercent?.toFixed(1)}%)`}
+                    </td>
+                  )}
+                  {!blind && (
+                    <td className="px-4 py-2 text-right">
+                      {line.status === 'PENDING' ? '-' : `₩${Math.round(line.varianceValue || 0).toLocaleString()}`}
+                    </td>
+                  )}
+                  <td className="px-4 py-2">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${lineStatusColors[line.status]}`}>
+                      {lineStatusLabels[line.status]}
+                    </span>
+                  </td>
+                  {isOpen && (
+                    <td className="px-4 py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        value={entries[line._id] ?? ''}
+                        onChange={(e) => setEntries({ ...entries, [line._id]: e.target.value })}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-primary-500 focus:border-primary-500"
+                      />
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!blind && count.totalVarianceValue !== undefined && (
+            <div className="text-right text-sm text-gray-700">
+              총 차이 금액: <span className="font-medium">₩{Math.round(count.totalVarianceValue).toLocaleString()}</span>
+            </div>
+          )}
+        </div>
+        <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
+          {isOpen && (
+            <button
+              onClick={handleSaveCounts}
+              disabled={submitting}
+              className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+            >
+              {submitting ? '저장 중...' : '실사 수량 저장'}
+            </button>
+          )}
+          {isOpen && !blind && (
+            <>
+              <button
+                onClick={() => handleAction('approve')}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                차이 승인
+              </button>
+              <button
+                onClick={() => handleAction('cancel')}
+                className="flex items-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                실사 취소
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CreateCountModal({
+  warehouses,
+  authHeaders,
+  onClose,
+  onCreated
+}: {
+  warehouses: Warehouse[];
+  authHeaders: () => Record<string, string>;
+  onClose: () => void;
+  onCreated: () => void;
+}) {
+  const [warehouseId, setWarehouseId] = useState('');
+  const [scopeType, setScopeType] = useState<'WAREHOUSE' | 'ZONE' | 'ABC_CLASS'>('WAREHOUSE');
+  const [zone, setZone] = useState('');
+  const [abcClass, setAbcClass] = useState('A');
+  const [varianceThresholdPercent, setVarianceThresholdPercent] = useState(5);
+  const [varianceThresholdValue, setVarianceThresholdValue] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!warehouseId) {
+      alert('창고를 선택해주세요.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await fetch('/api/inventory/counts', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          warehouseId,
+          scopeType,
+          zone: scopeType === 'ZONE' ? zone : undefined,
+          abcClass: scopeType === 'ABC_CLASS' ? abcClass : undefined,
+          varianceThresholdPercent,
+          varianceThresholdValue: varianceThresholdValue === '' ? undefined : Number(varianceThresholdValue)
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '재고실사 표 생성에 실패했습니다.');
+      }
+
+      alert(`${result.data.count.countNumber} 실사표가 생성되었습니다. (${result.data.count.lines.length}개 항목)`);
+      onCreated();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full">
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">재고실사 표 생성</h3>
+            <p className="mt-1 text-sm text-gray-500">생성 시점의 전산 재고가 실사 기준 수량으로 고정됩니다.</p>
+          </div>
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">창고</label>
+              <select
+                value={warehouseId}
+                onChange={(e) => setWarehouseId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">창고 선택</option>
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse._id} value={warehouse._id}>{warehouse.name} ({warehouse.code})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">실사 범위</label>
+              <select
+                value={scopeType}
+                onChange={(e) => setScopeType(e.target.value as 'WAREHOUSE' | 'ZONE' | 'ABC_CLASS')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                {Object.entries(scopeLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {scopeType === 'ZONE' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">구역</label>
+                <input
+                  type="text"
+                  value={zone}
+                  onChange={(e) => setZone(e.target.value.toUpperCase())}
+                  placeholder="예: A"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+            )}
+            {scopeType === 'ABC_CLASS' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">ABC 등급</label>
+                <select
+                  value={abcClass}
+                  onChange={(e) => setAbcClass(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="A">A</option>
+                  <option value="B">B</option>
+                  <option value="C">C</option>
+                </select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">차이 허용률 (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={varianceThresholdPercent}
+                  onChange={(e) => setVarianceThresholdPercent(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">차이 허용 금액 (선택)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={varianceThresholdValue}
+                  onChange={(e) => setVarianceThresholdValue(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+            </div>
+          </div>
+          <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+            >
+              {submitting ? '생성 중...' : '생성'}
+            </button>
+          </div>
+        </form>
       </div>
     </div>
   );
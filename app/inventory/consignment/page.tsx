@@ -0,0 +1,727 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Download, PackagePlus, Plus, Trash2 } from 'lucide-react';
+import { downloadExcel, ExcelColumn } from '@/lib/excel';
+
+type OwnerType = 'SUPPLIER' | 'CUSTOMER';
+
+interface OwnedStock {
+  _id: string;
+  itemId: {
+    _id: string;
+    code: string;
+    name: string;
+    unit: string;
+  };
+  itemName: string;
+  itemCode?: string;
+  warehouseId: string;
+  warehouseName: string;
+  ownerType: OwnerType;
+  ownerId: string;
+  ownerName?: string;
+  currentQuantity: number;
+  availableQuantity: number;
+  averageUnitCost: number;
+  lastTransactionDate?: string;
+}
+
+interface OwnerSummary {
+  ownerId: string;
+  ownerType: OwnerType;
+  ownerName?: string;
+  itemCount: number;
+  quantity: number;
+  value: number;
+}
+
+interface Settlement {
+  _id: string;
+  orderNumber: string;
+  orderDate: string;
+  supplierId: {
+    _id: string;
+    name: string;
+  };
+  items: Array<{
+    itemId: { _id: string; code: string; name: string; unit: string };
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+  }>;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  notes?: string;
+}
+
+interface Company {
+  _id: string;
+  name: string;
+  type: 'SUPPLIER' | 'CUSTOMER' | 'BOTH';
+}
+
+interface ItemOption {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+interface ReceiveLine {
+  itemId: string;
+  quantity: number;
+  unitPrice: string;
+  batchNumber: string;
+}
+
+const ownerLabels: Record<OwnerType, string> = {
+  SUPPLIER: '공급사 위탁',
+  CUSTOMER: '고객 사급'
+};
+
+const ownerColors: Record<OwnerType, string> = {
+  SUPPLIER: 'bg-purple-100 text-purple-800',
+  CUSTOMER: 'bg-green-100 text-green-800'
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+const formatDate = (dateString?: string) => {
+  return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+};
+
+const formatAmount = (value: number) => {
+  return Math.round(value).toLocaleString();
+};
+
+const emptyLine = (): ReceiveLine => ({ itemId: '', quantity: 1, unitPrice: '', batchNumber: '' });
+
+export default function ConsignmentPage() {
+  const [activeTab, setActiveTab] = useState<'stock' | 'receive' | 'settlements'>('stock');
+  const [stocks, setStocks] = useState<OwnedStock[]>([]);
+  const [owners, setOwners] = useState<OwnerSummary[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [ownerTypeFilter, setOwnerTypeFilter] = useState('');
+  const [warehouseFilter, setWarehouseFilter] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [receiveForm, setReceiveForm] = useState({
+    ownerType: 'SUPPLIER' as OwnerType,
+    ownerId: '',
+    warehouseId: '',
+    referenceNumber: '',
+    notes: ''
+  });
+  const [receiveLines, setReceiveLines] = useState<ReceiveLine[]>([emptyLine()]);
+
+  useEffect(() => {
+    fetchCompanies();
+    fetchItems();
+    fetchWarehouses();
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'stock') fetchStocks();
+    if (activeTab === 'settlements') fetchSettlements();
+  }, [activeTab, ownerTypeFilter, warehouseFilter]);
+
+  const fetchCompanies = async () => {
+    try {
+      const response = await fetch('/api/companies?isActive=true&limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setCompanies(data.data?.companies || []);
+      }
+    } catch (error) {
+      console.error('Error fetching companies:', error);
+    }
+  };
+
+  const fetchItems = async () => {
+    try {
+      const response = await fetch('/api/items/dropdown/list', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.data?.items || []);
+      }
+    } catch (error) {
+      console.error('Error fetching items:', error);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const fetchStocks = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams();
+      if (ownerTypeFilter) params.append('ownerType', ownerTypeFilter);
+      if (warehouseFilter) params.append('warehouseId', warehouseFilter);
+
+      const response = await fetch(`/api/inventory/consignment?${params.toString()}`, {
+        headers: authHeaders()
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '위탁/사급 재고를 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setStocks(data.data.stocks || []);
+      setOwners(data.data.owners || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSettlements = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await fetch('/api/inventory/consignment/settlements', {
+        headers: authHeaders()
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '정산 내역을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setSettlements(data.data.settlements || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Consuming goes through the regular issue so supplier-owned stock is settled on the spot
+  const handleConsume = async (stock: OwnedStock) => {
+    const quantity = quantities[stock._id] || 0;
+    if (quantity <= 0) {
+      alert('사용할 수량을 입력해주세요.');
+      return;
+    }
+    const message = stock.ownerType === 'SUPPLIER'
+      ? `${stock.itemName} ${quantity}개를 사용 처리하면 ${stock.ownerName} 정산 발주가 생성됩니다. 계속하시겠습니까?`
+      : `${stock.itemName} ${quantity}개를 사용 처리하시겠습니까?`;
+    if (!confirm(message)) return;
+
+    try {
+      const response = await fetch('/api/inventory/issue', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          warehouseId: stock.warehouseId,
+          reason: `${ownerLabels[stock.ownerType]} 재고 사용`,
+          items: [{ itemId: stock.itemId._id, quantity, ownerId: stock.ownerId }]
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '사용 처리에 실패했습니다.');
+      }
+
+      alert(data.message);
+      setQuantities(prev => ({ ...prev, [stock._id]: 0 }));
+      fetchStocks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '사용 처리에 실패했습니다.');
+    }
+  };
+
+  const handleReturn = async (stock: OwnedStock) => {
+    const quantity = quantities[stock._id] || 0;
+    if (quantity <= 0) {
+      alert('반환할 수량을 입력해주세요.');
+      return;
+    }
+    if (!confirm(`${stock.itemName} ${quantity}개를 ${stock.ownerName}에 반환하시겠습니까?`)) return;
+
+    try {
+      const response = await fetch('/api/inventory/consignment/return', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          ownerId: stock.ownerId,
+          warehouseId: stock.warehouseId,
+          reason: '미사용분 소유자 반환',
+          items: [{ itemId: stock.itemId._id, quantity }]
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '반환 처리에 실패했습니다.');
+      }
+
+      alert(data.message);
+      setQuantities(prev => ({ ...prev, [stock._id]: 0 }));
+      fetchStocks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '반환 처리에 실패했습니다.');
+    }
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const lines = receiveLines.filter(line => line.itemId && line.quantity > 0);
+    if (!receiveForm.ownerId || !receiveForm.warehouseId || lines.length === 0) {
+      alert('소유자, 창고와 품목을 입력해주세요.');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/inventory/consignment/receive', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          ...receiveForm,
+          items: lines.map(line => ({
+            itemId: line.itemId,
+            quantity: line.quantity,
+            unitPrice: receiveForm.ownerType === 'SUPPLIER' && line.unitPrice !== '' ? Number(line.unitPrice) : undefined,
+            batchNumber: line.batchNumber || undefined
+          }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '입고 처리에 실패했습니다.');
+      }
+
+      alert(data.message);
+      setReceiveForm(prev => ({ ...prev, referenceNumber: '', notes: '' }));
+      setReceiveLines([emptyLine()]);
+      setActiveTab('stock');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '입고 처리에 실패했습니다.');
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<ReceiveLine>) => {
+    setReceiveLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleExcelDownload = () => {
+    const columns: ExcelColumn[] = [
+      { key: 'ownerType', label: '구분', width: 12 },
+      { key: 'ownerName', label: '소유자', width: 20 },
+      { key: 'itemCode', label: '품목코드', width: 15 },
+      { key: 'itemName', label: '품목명', width: 25 },
+      { key: 'warehouseName', label: '창고', width: 15 },
+      { key: 'currentQuantity', label: '수량', width: 10 },
+      { key: 'averageUnitCost', label: '위탁단가', width: 12 },
+      { key: 'lastTransactionDate', label: '최종 거래일', width: 12 }
+    ];
+
+    const rows = stocks.map(stock => ({
+      ...stock,
+      ownerType: ownerLabels[stock.ownerType],
+      averageUnitCost: stock.ownerType === 'SUPPLIER' ? Math.round(stock.averageUnitCost) : '',
+      lastTransactionDate: formatDate(stock.lastTransactionDate)
+    }));
+
+    const success = downloadExcel(rows, columns, '위탁_사급재고');
+    if (!success) {
+      alert('엑셀 다운로드에 실패했습니다.');
+    }
+  };
+
+  const ownerOptions = companies.filter(company =>
+    company.type === 'BOTH' || company.type === receiveForm.ownerType);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">위탁/사급 재고</h1>
+          <p className="text-gray-600">공급사 위탁재고와 고객 사급자재는 자사 재고 평가에서 제외되며, 위탁재고를 사용하면 정산 발주가 자동 생성됩니다.</p>
+        </div>
+        {activeTab === 'stock' && (
+          <button
+            onClick={handleExcelDownload}
+            disabled={stocks.length === 0}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            엑셀 다운로드
+          </button>
+        )}
+      </div>
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([
+            ['stock', '보유 현황'],
+            ['receive', '입고 등록'],
+            ['settlements', '정산 내역']
+          ] as const).map(([tab, label]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab
+                  ? 'border-primary-500 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      {activeTab === 'stock' && (
+        <>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex flex-wrap items-center gap-4">
+              <select
+                value={ownerTypeFilter}
+                onChange={(e) => setOwnerTypeFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">전체 구분</option>
+                <option value="SUPPLIER">공급사 위탁</option>
+                <option value="CUSTOMER">고객 사급</option>
+              </select>
+              <select
+                value={warehouseFilter}
+                onChange={(e) => setWarehouseFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">전체 창고</option>
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {owners.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {owners.map((owner) => (
+                <div key={owner.ownerId} className="bg-white rounded-lg shadow p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-medium text-gray-900">{owner.ownerName}</div>
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ownerColors[owner.ownerType]}`}>
+                      {ownerLabels[owner.ownerType]}
+                    </span>
+                  </div>
+                  <div className="mt-2 text-sm text-gray-500">{owner.itemCount}개 품목 · {owner.quantity.toLocaleString()}개</div>
+                  {owner.ownerType === 'SUPPLIER' && (
+                    <div className="text-sm text-gray-500">미정산 금액 {formatAmount(owner.value)}원</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            {loading ? (
+              <div className="flex justify-center items-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                <span className="ml-2 text-gray-600">로딩 중...</span>
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">구분</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">소유자</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">수량</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">위탁단가</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">최종 거래일</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">처리</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {stocks.map((stock) => (
+                    <tr key={stock._id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${ownerColors[stock.ownerType]}`}>
+                          {ownerLabels[stock.ownerType]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{stock.ownerName}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {stock.itemName}
+                        <span className="ml-1 text-xs text-gray-500">({stock.itemCode})</span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{stock.warehouseName}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {stock.currentQuantity.toLocaleString()} {stock.itemId?.unit}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {stock.ownerType === 'SUPPLIER' ? formatAmount(stock.averageUnitCost) : '-'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{formatDate(stock.lastTransactionDate)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min={0}
+                            max={stock.availableQuantity}
+                            value={quantities[stock._id] || ''}
+                            onChange={(e) => setQuantities(prev => ({ ...prev, [stock._id]: Number(e.target.value) }))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right"
+                          />
+                          <button
+                            onClick={() => handleConsume(stock)}
+                            className="px-3 py-1 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+                          >
+                            사용
+                          </button>
+                          <button
+                            onClick={() => handleReturn(stock)}
+                            className="px-3 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                          >
+                            반환
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {stocks.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-4 text-center text-gray-500">
+                        보관 중인 위탁/사급 재고가 없습니다.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      {activeTab === 'receive' && (
+        <form onSubmit={handleReceive} className="bg-white rounded-lg shadow p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">구분</label>
+              <select
+                value={receiveForm.ownerType}
+                onChange={(e) => setReceiveForm(prev => ({ ...prev, ownerType: e.target.value as OwnerType, ownerId: '' }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="SUPPLIER">공급사 위탁재고</option>
+                <option value="CUSTOMER">고객 사급자재</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {receiveForm.ownerType === 'SUPPLIER' ? '공급업체' : '고객사'}
+              </label>
+              <select
+                value={receiveForm.ownerId}
+                onChange={(e) => setReceiveForm(prev => ({ ...prev, ownerId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">선택</option>
+                {ownerOptions.map((company) => (
+                  <option key={company._id} value={company._id}>{company.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">입고 창고</label>
+              <select
+                value={receiveForm.warehouseId}
+                onChange={(e) => setReceiveForm(prev => ({ ...prev, warehouseId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">선택</option>
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">참조번호</label>
+              <input
+                type="text"
+                value={receiveForm.referenceNumber}
+                onChange={(e) => setReceiveForm(prev => ({ ...prev, referenceNumber: e.target.value }))}
+                placeholder="납품서 번호 등"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">비고</label>
+              <input
+                type="text"
+                value={receiveForm.notes}
+                onChange={(e) => setReceiveForm(prev => ({ ...prev, notes: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-medium text-gray-900">입고 품목</h2>
+              <button
+                type="button"
+                onClick={() => setReceiveLines(prev => [...prev, emptyLine()])}
+                className="flex items-center px-3 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                품목 추가
+              </button>
+            </div>
+            {receiveLines.map((line, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-3">
+                <select
+                  value={line.itemId}
+                  onChange={(e) => updateLine(index, { itemId: e.target.value })}
+                  className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">품목 선택</option>
+                  {items.map((item) => (
+                    <option key={item._id} value={item._id}>{item.name} ({item.code})</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                  placeholder="수량"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md text-right"
+                />
+                {receiveForm.ownerType === 'SUPPLIER' && (
+                  <input
+                    type="number"
+                    min={0}
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                    placeholder="위탁단가 (기본: 품목 원가)"
+                    className="w-52 px-3 py-2 border border-gray-300 rounded-md text-right"
+                  />
+                )}
+                <input
+                  type="text"
+                  value={line.batchNumber}
+                  onChange={(e) => updateLine(index, { batchNumber: e.target.value })}
+                  placeholder="로트번호"
+                  className="w-36 px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <button
+                  type="button"
+                  onClick={() => setReceiveLines(prev => prev.length > 1 ? prev.filter((_, i) => i !== index) : prev)}
+                  className="p-2 text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+            >
+              <PackagePlus className="h-4 w-4 mr-2" />
+              입고 등록
+            </button>
+          </div>
+        </form>
+      )}
+
+      {activeTab === 'settlements' && (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              <span className="ml-2 text-gray-600">로딩 중...</span>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">정산일</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">발주번호</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">공급업체</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">사용 품목</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">공급가액</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">합계</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">비고</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {settlements.map((settlement) => (
+                  <tr key={settlement._id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{formatDate(settlement.orderDate)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{settlement.orderNumber}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{settlement.supplierId?.name}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {settlement.items.map((line) => (
+                        <div key={line.itemId?._id}>
+                          {line.itemId?.name} × {line.quantity.toLocaleString()} @ {formatAmount(line.unitPrice)}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatAmount(settlement.subtotal)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatAmount(settlement.totalAmount)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{settlement.notes}</td>
+                  </tr>
+                ))}
+                {settlements.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-4 text-center text-gray-500">
+                      위탁재고 정산 내역이 없습니다.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Clock, Download } from 'lucide-react';
+import { downloadExcel, ExcelColumn } from '@/lib/excel';
+
+interface ExpiringBatch {
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  warehouseId: string;
+  warehouseName: string;
+  batchNumber: string;
+  quantity: number;
+  value: number;
+  receivedDate: string;
+  expirationDate: string;
+  daysRemaining: number;
+  status: 'EXPIRED' | 'EXPIRING';
+  pickingPolicy: 'FIFO' | 'FEFO' | 'MANUAL';
+}
+
+interface ExpirySummary {
+  expiredCount: number;
+  expiringCount: number;
+  expiredValue: number;
+  expiringValue: number;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+const policyLabels = {
+  FIFO: '선입선출',
+  FEFO: '유효기간 우선',
+  MANUAL: '직접 지정'
+};
+
+export default function ExpiringStockPage() {
+  const [batches, setBatches] = useState<ExpiringBatch[]>([]);
+  const [summary, setSummary] = useState<ExpirySummary | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [days, setDays] = useState(30);
+  const [warehouseFilter, setWarehouseFilter] = useState('');
+  const [includeExpired, setIncludeExpired] = useState(true);
+
+  useEffect(() => {
+    fetchExpiring();
+  }, [days, warehouseFilter, includeExpired]);
+
+  useEffect(() => {
+    fetchWarehouses();
+  }, []);
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+  });
+
+  const fetchExpiring = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        days: days.toString(),
+        includeExpired: includeExpired.toString()
+      });
+      if (warehouseFilter) {
+        params.append('warehouseId', warehouseFilter);
+      }
+
+      const response = await fetch(`/api/inventory/expiring?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '유효기간 현황을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setBatches(data.data.batches || []);
+      setSummary(data.data.summary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const handleExcelDownload = () => {
+    const columns: ExcelColumn[] = [
+      { key: 'itemCode', label: '품목코드', width: 15 },
+      { key: 'itemName', label: '품목명', width: 25 },
+      { key: 'warehouseName', label: '창고', width: 15 },
+      { key: 'batchNumber', label: '배치번호', width: 15 },
+      { key: 'quantity', label: '수량', width: 10 },
+      { key: 'value', label: '재고금액', width: 15 },
+      { key: 'expirationDate', label: '유효기간', width: 15 },
+      { key: 'daysRemaining', label: '잔여일수', width: 10 }
+    ];
+
+    const success = downloadExcel(batches, columns, '유효기간_임박재고');
+    if (!success) {
+      alert('엑셀 다운로드에 실패했습니다.');
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">유효기간 관리</h1>
+          <p className="text-gray-600">유효기간이 지났거나 임박한 배치 재고를 조회합니다.</p>
+        </div>
+        <button
+          onClick={handleExcelDownload}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          엑셀 다운로드
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-white rounded-lg shadow p-6 flex items-center">
+            <AlertTriangle className="h-8 w-8 text-red-500 mr-4" />
+            <div>
+              <p className="text-sm text-gray-500">유효기간 경과</p>
+              <p className="text-xl font-semibold text-gray-900">
+                {summary.expiredCount}건 / ₩{Math.round(summary.expiredValue).toLocaleString()}
+              </p>
+            </div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6 flex items-center">
+            <Clock className="h-8 w-8 text-yellow-500 mr-4" />
+            <div>
+              <p className="text-sm text-gray-500">{days}일 이내 만료 예정</p>
+              <p className="text-xl font-semibold text-gray-900">
+                {summary.expiringCount}건 / ₩{Math.round(summary.expiringValue).toLocaleString()}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-4">
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value={7}>7일 이내</option>
+              <option value={30}>30일 이내</option>
+              <option value={60}>60일 이내</option>
+              <option value={90}>90일 이내</option>
+            </select>
+            <select
+              value={warehouseFilter}
+              onChange={(e) => setWarehouseFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">전체 창고</option>
+              {warehouses.map((warehouse) => (
+                <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeExpired}
+                onChange={(e) => setIncludeExpired(e.target.checked)}
+                className="mr-2"
+              />
+              경과 배치 포함
+            </label>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              <span className="ml-2 text-gray-600">로딩 중...</span>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">배치번호</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">수량</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">재고금액</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">입고일</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">유효기간</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">잔여일수</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">출고 정책</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {batches.map((batch) => (
+                  <tr key={`${batch.warehouseId}-${batch.itemId}-${batch.batchNumber}`} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {batch.itemName} {batch.itemCode && <span className="text-gray-500">({batch.itemCode})</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{batch.warehouseName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{batch.batchNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{batch.quantity.toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">₩{Math.round(batch.value).toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(batch.receivedDate)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(batch.expirationDate)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        batch.status === 'EXPIRED' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {batch.status === 'EXPIRED' ? `${Math.abs(batch.daysRemaining)}일 경과` : `${batch.daysRemaining}일 남음`}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{policyLabels[batch.pickingPolicy]}</td>
+                  </tr>
+                ))}
+                {batches.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="px-6 py-4 text-center text-gray-500">
+                      유효기간이 임박한 배치가 없습니다.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
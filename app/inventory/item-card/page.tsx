@@ -0,0 +1,367 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Download, Search } from 'lucide-react';
+import { downloadExcel, ExcelColumn } from '@/lib/excel';
+
+interface LedgerBalance {
+  quantity: number;
+  value: number;
+}
+
+interface LedgerEntry {
+  transactionId: string;
+  transactionNumber: string;
+  transactionDate: string;
+  transactionType: 'IN' | 'OUT' | 'ADJUSTMENT' | 'TRANSFER';
+  referenceType?: string;
+  referenceNumber?: string;
+  warehouseName: string;
+  batchNumber?: string;
+  reason?: string;
+  inQuantity: number;
+  outQuantity: number;
+  unitCost: number;
+  amount: number;
+  balanceQuantity: number;
+  balanceValue: number;
+}
+
+interface ItemCard {
+  item: {
+    _id: string;
+    code: string;
+    name: string;
+    unit: string;
+  };
+  from: string;
+  to: string;
+  opening: LedgerBalance;
+  entries: LedgerEntry[];
+  closing: LedgerBalance;
+}
+
+interface ItemOption {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+const typeLabels = {
+  IN: '입고',
+  OUT: '출고',
+  ADJUSTMENT: '조정',
+  TRANSFER: '이동'
+};
+
+const typeColors = {
+  IN: 'bg-blue-100 text-blue-800',
+  OUT: 'bg-red-100 text-red-800',
+  ADJUSTMENT: 'bg-yellow-100 text-yellow-800',
+  TRANSFER: 'bg-purple-100 text-purple-800'
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().split('T')[0];
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('ko-KR');
+};
+
+const formatAmount = (value: number) => {
+  return Math.round(value).toLocaleString();
+};
+
+export default function ItemCardPage() {
+  const today = new Date();
+  const [itemId, setItemId] = useState('');
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+  const [warehouseFilter, setWarehouseFilter] = useState('');
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [card, setCard] = useState<ItemCard | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchItems();
+    fetchWarehouses();
+  }, []);
+
+  const fetchItems = async () => {
+    try {
+      const response = await fetch('/api/items/dropdown/list', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.data?.items || []);
+      }
+    } catch (error) {
+      console.error('Error fetching items:', error);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const fetchCard = async () => {
+    if (!itemId) {
+      setError('품목을 선택해주세요.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams({ from, to });
+      if (warehouseFilter) {
+        params.append('warehouseId', warehouseFilter);
+      }
+
+      const response = await fetch(`/api/inventory/items/${itemId}/card?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '재고 수불부를 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setCard(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExcelDownload = () => {
+    if (!card) return;
+
+    const columns: ExcelColumn[] = [
+      { key: 'transactionDate', label: '일자', width: 12 },
+      { key: 'transactionNumber', label: '거래번호', width: 18 },
+      { key: 'transactionType', label: '구분', width: 8 },
+      { key: 'reference', label: '참조', width: 20 },
+      { key: 'warehouseName', label: '창고', width: 15 },
+      { key: 'batchNumber', label: '로트', width: 15 },
+      { key: 'inQuantity', label: '입고수량', width: 10 },
+      { key: 'outQuantity', label: '출고수량', width: 10 },
+      { key: 'unitCost', label: '단가', width: 12 },
+      { key: 'amount', label: '금액', width: 15 },
+      { key: 'balanceQuantity', label: '잔량', width: 10 },
+      { key: 'balanceValue', label: '잔액', width: 15 }
+    ];
+
+    const rows = [
+      { transactionNumber: '전기이월', balanceQuantity: card.opening.quantity, balanceValue: Math.round(card.opening.value) },
+      ...card.entries.map(entry => ({
+        ...entry,
+        transactionType: typeLabels[entry.transactionType],
+        reference: entry.referenceNumber || entry.reason || '',
+        unitCost: Math.round(entry.unitCost),
+        amount: Math.round(entry.amount),
+        balanceValue: Math.round(entry.balanceValue)
+      })),
+      { transactionNumber: '기말잔고', balanceQuantity: card.closing.quantity, balanceValue: Math.round(card.closing.value) }
+    ];
+
+    const success = downloadExcel(rows, columns, `재고수불부_${card.item.code}_${from}_${to}`);
+    if (!success) {
+      alert('엑셀 다운로드에 실패했습니다.');
+    }
+  };
+
+  const totalIn = card ? card.entries.reduce((sum, entry) => sum + entry.inQuantity, 0) : 0;
+  const totalOut = card ? card.entries.reduce((sum, entry) => sum + entry.outQuantity, 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">재고 수불부</h1>
+          <p className="text-gray-600">기간 내 품목의 입출고 이력을 기초재고부터 누적 잔량과 금액으로 조회합니다.</p>
+        </div>
+        <button
+          onClick={handleExcelDownload}
+          disabled={!card}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          엑셀 다운로드
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={itemId}
+            onChange={(e) => setItemId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">품목 선택</option>
+            {items.map((item) => (
+              <option key={item._id} value={item._id}>{item.name} ({item.code})</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+          <span className="text-gray-500">~</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+          <select
+            value={warehouseFilter}
+            onChange={(e) => setWarehouseFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">전체 창고</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={fetchCard}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            조회
+          </button>
+        </div>
+      </div>
+
+      {card && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">기초재고</div>
+            <div className="text-xl font-semibold text-gray-900">{card.opening.quantity.toLocaleString()} {card.item.unit}</div>
+            <div className="text-sm text-gray-500">{formatAmount(card.opening.value)}원</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">입고 합계</div>
+            <div className="text-xl font-semibold text-blue-600">{totalIn.toLocaleString()} {card.item.unit}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">출고 합계</div>
+            <div className="text-xl font-semibold text-red-600">{totalOut.toLocaleString()} {card.item.unit}</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500">기말재고</div>
+            <div className="text-xl font-semibold text-gray-900">{card.closing.quantity.toLocaleString()} {card.item.unit}</div>
+            <div className="text-sm text-gray-500">{formatAmount(card.closing.value)}원</div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center items-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-2 text-gray-600">로딩 중...</span>
+          </div>
+        ) : card ? (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">일자</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">거래번호</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">구분</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">참조</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">입고</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">출고</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">단가</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">잔량</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">잔액</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              <tr className="bg-gray-50 font-medium">
+                <td className="px-4 py-3 text-sm text-gray-900">{formatDate(card.from)}</td>
+                <td className="px-4 py-3 text-sm text-gray-900" colSpan={7}>전기이월</td>
+                <td className="px-4 py-3 text-sm text-right text-gray-900">{card.opening.quantity.toLocaleString()}</td>
+                <td className="px-4 py-3 text-sm text-right text-gray-900">{formatAmount(card.opening.value)}</td>
+              </tr>
+              {card.entries.map((entry) => (
+                <tr key={entry.transactionId} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{formatDate(entry.transactionDate)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{entry.transactionNumber}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${typeColors[entry.transactionType]}`}>
+                      {typeLabels[entry.transactionType]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {entry.referenceNumber || entry.reason || '-'}
+                    {entry.batchNumber && <span className="ml-1 text-xs">[{entry.batchNumber}]</span>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{entry.warehouseName}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-blue-600">{entry.inQuantity ? entry.inQuantity.toLocaleString() : ''}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-red-600">{entry.outQuantity ? entry.outQuantity.toLocaleString() : ''}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatAmount(entry.unitCost)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{entry.balanceQuantity.toLocaleString()}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatAmount(entry.balanceValue)}</td>
+                </tr>
+              ))}
+              {card.entries.length === 0 && (
+                <tr>
+                  <td colSpan={10} className="px-4 py-4 text-center text-gray-500">
+                    기간 내 입출고 이력이 없습니다.
+                  </td>
+                </tr>
+              )}
+              <tr className="bg-gray-50 font-medium">
+                <td className="px-4 py-3 text-sm text-gray-900">{formatDate(card.to)}</td>
+                <td className="px-4 py-3 text-sm text-gray-900" colSpan={7}>기말잔고</td>
+                <td className="px-4 py-3 text-sm text-right text-gray-900">{card.closing.quantity.toLocaleString()}</td>
+                <td className="px-4 py-3 text-sm text-right text-gray-900">{formatAmount(card.closing.value)}</td>
+              </tr>
+            </tbody>
+          </table>
+        ) : (
+          <div className="p-8 text-center text-gray-500">품목과 기간을 선택한 후 조회하세요.</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Printer, Search } from 'lucide-react';
+import { downloadLabels, LabelData, LabelFormat } from '@/lib/labels';
+
+type LabelType = 'ITEM' | 'LOT' | 'BIN' | 'WORK_ORDER';
+
+interface Label extends LabelData {
+  type: LabelType;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+const typeLabels: Record<LabelType, string> = {
+  ITEM: '품목',
+  LOT: '로트',
+  BIN: '로케이션',
+  WORK_ORDER: '작업지시'
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+export default function LabelsPage() {
+  const [labelType, setLabelType] = useState<LabelType>('ITEM');
+  const [format, setFormat] = useState<LabelFormat>('CODE128');
+  const [warehouseFilter, setWarehouseFilter] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [copies, setCopies] = useState(1);
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchWarehouses();
+  }, []);
+
+  useEffect(() => {
+    fetchLabels();
+  }, [labelType, warehouseFilter]);
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const fetchLabels = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams({ type: labelType });
+      if (warehouseFilter && (labelType === 'LOT' || labelType === 'BIN')) {
+        params.append('warehouseId', warehouseFilter);
+      }
+      if (searchTerm) {
+        params.append('search', searchTerm);
+      }
+
+      const response = await fetch(`/api/inventory/labels?${params.toString()}`, {
+        headers: authHeaders()
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '라벨 대상을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setLabels(data.data.labels || []);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(prev => prev.size === labels.length ? new Set() : new Set(labels.map(label => label.key)));
+  };
+
+  const handlePrint = async () => {
+    const chosen = labels.filter(label => selected.has(label.key));
+    if (chosen.length === 0) {
+      alert('출력할 라벨을 선택해주세요.');
+      return;
+    }
+
+    setPrinting(true);
+    const sheet = chosen.flatMap(label => new Array(Math.max(1, copies)).fill(label));
+    const success = await downloadLabels(sheet, format, `라벨_${typeLabels[labelType]}_${new Date().toISOString().split('T')[0]}`);
+    setPrinting(false);
+    if (!success) {
+      alert('라벨 생성에 실패했습니다. Code 128은 영문/숫자/기호만 담을 수 있습니다.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">바코드 라벨 출력</h1>
+          <p className="text-gray-600">품목, 로트, 로케이션, 작업지시 라벨을 Code 128 또는 QR 코드로 출력합니다. (A4 24칸, 70 × 37mm)</p>
+        </div>
+        <button
+          onClick={handlePrint}
+          disabled={printing || selected.size === 0}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          {printing ? '생성 중...' : `PDF 출력 (${selected.size * Math.max(1, copies)}장)`}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={labelType}
+            onChange={(e) => setLabelType(e.target.value as LabelType)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            {(Object.keys(typeLabels) as LabelType[]).map((type) => (
+              <option key={type} value={type}>{typeLabels[type]} 라벨</option>
+            ))}
+          </select>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as LabelFormat)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="CODE128">Code 128</option>
+            <option value="QR">QR 코드</option>
+          </select>
+          {(labelType === 'LOT' || labelType === 'BIN') && (
+            <select
+              value={warehouseFilter}
+              onChange={(e) => setWarehouseFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">전체 창고</option>
+              {warehouses.map((warehouse) => (
+                <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+              ))}
+            </select>
+          )}
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && fetchLabels()}
+              placeholder="코드 또는 이름으로 검색"
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            매수
+            <input
+              type="number"
+              min={1}
+              max={24}
+              value={copies}
+              onChange={(e) => setCopies(Number(e.target.value))}
+              className="ml-2 w-16 px-2 py-2 border border-gray-300 rounded-md text-right"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center items-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-2 text-gray-600">로딩 중...</span>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={labels.length > 0 && selected.size === labels.length}
+                    onChange={toggleAll}
+                  />
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">이름</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">코드</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">상세</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">라벨 내용</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {labels.map((label) => (
+                <tr key={label.key} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(label.key)}
+                      onChange={() => toggleSelected(label.key)}
+                    />
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{label.title}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{label.code}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{label.details.join(' · ')}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-500">{label.payload}</td>
+                </tr>
+              ))}
+              {labels.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-4 text-center text-gray-500">
+                    라벨을 출력할 대상이 없습니다.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { Package, Plus, Search, Eye, Calendar, Filter, Download, ArrowUpDown } from 'lucide-react';
+import { ScanInput, ScanResult } from '@/components/ui/scan-input';
 
 interface InventoryTransaction {
   _id: string;
@@ -36,8 +37,11 @@ interface IssueItem {
   itemId: string;
   itemName: string;
   quantity: number;
+  unit?: string;
   unitPrice?: number;
   batchNumber?: string;
+  binId?: string;
+  serialText?: string;
   notes?: string;
 }
 
@@ -47,6 +51,20 @@ interface IssueFormData {
   reason: string;
   notes?: string;
   referenceNumber?: string;
+  transactionDate?: string;
+  workOrderId?: string;
+  salesOrderId?: string;
+}
+
+interface WarehouseOption {
+  _id: string;
+  name: string;
+}
+
+interface OrderOption {
+  _id: string;
+  orderNumber: string;
+  status: string;
 }
 
 export default function InventoryOutgoingPage() {
@@ -69,11 +87,36 @@ export default function InventoryOutgoingPage() {
     reason: ''
   });
   const [processing, setProcessing] = useState(false);
+  const [issuePurpose, setIssuePurpose] = useState<'GENERAL' | 'WORK_ORDER' | 'SALES_ORDER'>('GENERAL');
+  const [orderOptions, setOrderOptions] = useState<OrderOption[]>([]);
+  const [warehouses, setWarehouses] = useState<WarehouseOption[]>([]);
+  const [scannedBin, setScannedBin] = useState<{ _id: string; code: string } | null>(null);
 
   useEffect(() => {
     fetchTransactions();
   }, [currentPage, warehouseFilter, startDate, endDate, searchTerm]);
 
+  useEffect(() => {
+    fetchWarehouses();
+  }, []);
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
   const fetchTransactions = async () => {
     try {
       setLoading(true);
@@ -127,6 +170,33 @@ export default function InventoryOutgoingPage() {
     }
   };
 
+  // Issues tied to a work order or sales order are recorded in the lot genealogy
+  const handlePurposeChange = async (purpose: 'GENERAL' | 'WORK_ORDER' | 'SALES_ORDER') => {
+    setIssuePurpose(purpose);
+    setIssueForm(prev => ({ ...prev, workOrderId: undefined, salesOrderId: undefined }));
+    setOrderOptions([]);
+    if (purpose === 'GENERAL') {
+      return;
+    }
+
+    try {
+      const url = purpose === 'WORK_ORDER' ? '/api/production/work-orders?limit=100' : '/api/sales/orders?limit=100';
+      const response = await fetch(url, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        const orders: OrderOption[] = purpose === 'WORK_ORDER' ? data.data?.workOrders || [] : data.data?.orders || [];
+        setOrderOptions(orders.filter(order => !['COMPLETED', 'CLOSED', 'CANCELLED', 'DELIVERED'].includes(order.status)));
+      }
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+    }
+  };
+
   const handleIssue = async () => {
     try {
       setProcessing(true);
@@ -138,12 +208,19 @@ export default function InventoryOutgoingPage() {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(issueForm)
+        body: JSON.stringify({
+          ...issueForm,
+          // Serial-controlled products are shipped by the serials typed or scanned for the line
+          items: issueForm.items.map(({ serialText, ...item }) => ({
+            ...item,
+            serialNumbers: serialText ? serialText.split(/[\s,]+/).filter(Boolean) : undefined
+          }))
+        })
       });
 
+      const result = await response.json();
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '출고 처리에 실패했습니다.');
+        throw new Error(result.message || '출고 처리에 실패했습니다.');
       }
 
       await fetchTransactions();
@@ -153,7 +230,12 @@ export default function InventoryOutgoingPage() {
         warehouseId: '',
         reason: ''
       });
-      alert('출고 처리가 완료되었습니다.');
+      setIssuePurpose('GENERAL');
+      setScannedBin(null);
+      const recalculated = result.data?.recalculations?.length || 0;
+      alert(recalculated > 0
+        ? `${result.message} 이후 거래 ${recalculated}개 품목의 재고 수량과 단가가 재계산되었습니다.`
+        : result.message);
     } catch (err) {
       alert(err instanceof Error ? err.message : '출고 처리 중 오류가 발생했습니다.');
     } finally {
@@ -161,6 +243,50 @@ export default function InventoryOutgoingPage() {
     }
   };
 
+  // A scanned location sets the warehouse and the bin the following items are picked from;
+  // each item or lot label scanned adds one unit to its line
+  const handleScan = async (result: ScanResult) => {
+    if (result.type === 'BIN' && result.warehouse && result.bin) {
+      setIssueForm(prev => ({ ...prev, warehouseId: result.warehouse!._id }));
+      setScannedBin(result.bin);
+      return;
+    }
+
+    if (result.type === 'WORK_ORDER' && result.workOrder) {
+      if (issuePurpose !== 'WORK_ORDER') {
+        await handlePurposeChange('WORK_ORDER');
+      }
+      setIssueForm(prev => ({ ...prev, workOrderId: result.workOrder!._id }));
+      return;
+    }
+
+    if (!result.item) return;
+    const scanned = result.item;
+    setIssueForm(prev => {
+      const existing = prev.items.findIndex(item =>
+        item.itemId === scanned._id && (item.batchNumber || '') === (result.lotNumber || '') && (item.binId || '') === (scannedBin?._id || ''));
+      if (existing !== -1) {
+        return {
+          ...prev,
+          items: prev.items.map((item, i) => i === existing ? { ...item, quantity: item.quantity + 1 } : item)
+        };
+      }
+
+      const line: IssueItem = {
+        itemId: scanned._id,
+        itemName: scanned.name,
+        quantity: 1,
+        batchNumber: result.lotNumber,
+        binId: scannedBin?._id
+      };
+      const blank = prev.items.findIndex(item => !item.itemId && !item.itemName);
+      return {
+        ...prev,
+        items: blank !== -1 ? prev.items.map((item, i) => i === blank ? line : item) : [...prev.items, line]
+      };
+    });
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('ko-KR');
   };
@@ -462,8 +588,9 @@ export default function InventoryOutgoingPage() {
                       required
                     >
                       <option value="">창고를 선택하세요</option>
-                      {/* TODO: Load warehouses dynamically */}
-                      <option value="warehouse1">본사창고</option>
+                      {warehouses.map((warehouse) => (
+                        <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+                      ))}
                     </select>
                   </div>
                   <div>
@@ -479,6 +606,40 @@ export default function InventoryOutgoingPage() {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">출고 구분</label>
+                    <select
+                      value={issuePurpose}
+                      onChange={(e) => handlePurposeChange(e.target.value as 'GENERAL' | 'WORK_ORDER' | 'SALES_ORDER')}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    >
+                      <option value="GENERAL">일반 출고</option>
+                      <option value="WORK_ORDER">작업지시 자재 투입</option>
+                      <option value="SALES_ORDER">수주 출하</option>
+                    </select>
+                  </div>
+                  {issuePurpose !== 'GENERAL' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        {issuePurpose === 'WORK_ORDER' ? '작업지시' : '수주'}
+                      </label>
+                      <select
+                        value={(issuePurpose === 'WORK_ORDER' ? issueForm.workOrderId : issueForm.salesOrderId) || ''}
+                        onChange={(e) => setIssueForm(prev => issuePurpose === 'WORK_ORDER'
+                          ? { ...prev, workOrderId: e.target.value || undefined }
+                          : { ...prev, salesOrderId: e.target.value || undefined })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="">선택하세요</option>
+                        {orderOptions.map((order) => (
+                          <option key={order._id} value={order._id}>{order.orderNumber}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700">참조번호</label>
                   <input
@@ -490,6 +651,25 @@ export default function InventoryOutgoingPage() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">출고일자</label>
+                  <input
+                    type="date"
+                    value={issueForm.transactionDate || ''}
+                    max={new Date().toISOString().split('T')[0]}
+                    onChange={(e) => setIssueForm(prev => ({ ...prev, transactionDate: e.target.value || undefined }))}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">비워두면 현재 시각으로 처리되며, 지난 일자는 마감되지 않은 기간에만 소급 등록할 수 있습니다.</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    라벨 스캔{scannedBin && <span className="ml-2 text-xs text-gray-500">현재 로케이션: {scannedBin.code}</span>}
+                  </label>
+                  <ScanInput onScan={handleScan} placeholder="로케이션, 품목, 로트 또는 작업지시 라벨을 스캔하세요" />
+                </div>
+
                 {/* Items */}
                 <div>
                   <div className="flex justify-between items-center mb-3">
@@ -518,17 +698,28 @@ export default function InventoryOutgoingPage() {
                             required
                           />
                         </div>
-                        <div className="col-span-2">
+                        <div className="col-span-1">
                           <label className="block text-xs font-medium text-gray-700">수량</label>
                           <input
                             type="number"
                             value={item.quantity}
                             onChange={(e) => updateIssueItem(index, 'quantity', Number(e.target.value))}
                             className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
-                            min="1"
+                            min="0"
+                            step="any"
                             required
                           />
                         </div>
+                        <div className="col-span-1">
+                          <label className="block text-xs font-medium text-gray-700">단위</label>
+                          <input
+                            type="text"
+                            value={item.unit || ''}
+                            onChange={(e) => updateIssueItem(index, 'unit', e.target.value.toUpperCase() || undefined)}
+                            className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                            placeholder="기준"
+                          />
+                        </div>
                         <div className="col-span-2">
                           <label className="block text-xs font-medium text-gray-700">단가</label>
                           <input
@@ -546,7 +737,7 @@ export default function InventoryOutgoingPage() {
                             value={item.batchNumber || ''}
                             onChange={(e) => updateIssueItem(index, 'batchNumber', e.target.value)}
                             className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
-                            placeholder="배치번호"
+                            placeholder="미입력 시 출고 정책에 따라 자동 배정"
                           />
                         </div>
                         <div className="col-span-2">
@@ -569,6 +760,18 @@ export default function InventoryOutgoingPage() {
                             삭제
                           </button>
                         </div>
+                        {issuePurpose === 'SALES_ORDER' && (
+                          <div className="col-span-12">
+                            <label className="block text-xs font-medium text-gray-700">일련번호</label>
+                            <input
+                              type="text"
+                              value={item.serialText || ''}
+                              onChange={(e) => updateIssueItem(index, 'serialText', e.target.value)}
+                              className="mt-1 w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                              placeholder="일련번호 관리 품목은 출하할 일련번호를 수량만큼 입력 (쉼표 또는 공백 구분)"
+                            />
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
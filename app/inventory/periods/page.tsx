@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock, History } from 'lucide-react';
+
+interface Period {
+  _id?: string;
+  period: string;
+  status: 'OPEN' | 'CLOSED';
+  closedAt?: string;
+  closedBy?: { name: string };
+  reopenedAt?: string;
+  reopenedBy?: { name: string };
+}
+
+interface RecalculatedField {
+  before?: number;
+  after?: number;
+}
+
+interface Recalculation {
+  _id: string;
+  triggerTransactionNumber: string;
+  postedDate: string;
+  itemName: string;
+  itemCode?: string;
+  warehouseName: string;
+  changes: Array<{
+    transactionNumber: string;
+    transactionDate: string;
+    transactionType: string;
+    previousQuantity: RecalculatedField;
+    currentQuantity: RecalculatedField;
+    unitPrice: RecalculatedField;
+  }>;
+  userName: string;
+  createdAt: string;
+}
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+const formatField = (field: RecalculatedField, money = false) => {
+  const format = (value?: number) => value === undefined
+    ? '-'
+    : money ? `₩${Math.round(value).toLocaleString()}` : value.toLocaleString();
+  return field.before === field.after ? format(field.after) : `${format(field.before)} → ${format(field.after)}`;
+};
+
+export default function InventoryPeriodsPage() {
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [recalculations, setRecalculations] = useState<Recalculation[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const [periodResponse, recalculationResponse] = await Promise.all([
+        fetch('/api/inventory/periods?months=12', { headers: authHeaders() }),
+        fetch('/api/inventory/periods/recalculations?limit=50', { headers: authHeaders() })
+      ]);
+      if (!periodResponse.ok || !recalculationResponse.ok) {
+        throw new Error('재고 마감 정보를 불러오는데 실패했습니다.');
+      }
+
+      const periodData = await periodResponse.json();
+      const recalculationData = await recalculationResponse.json();
+      setPeriods(periodData.data.periods || []);
+      setRecalculations(recalculationData.data.recalculations || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (period: Period) => {
+    const action = period.status === 'CLOSED' ? 'reopen' : 'close';
+    const confirmMessage = action === 'close'
+      ? `${period.period} 기간을 마감하시겠습니까? 마감 후에는 해당 기간으로 소급 입출고를 등록할 수 없습니다.`
+      : `${period.period} 기간의 마감을 해제하시겠습니까?`;
+    if (!confirm(confirmMessage)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/inventory/periods/${period.period}/${action}`, {
+        method: 'PATCH',
+        headers: authHeaders()
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '처리에 실패했습니다.');
+      }
+      alert(result.message);
+      fetchData();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        <span className="ml-2 text-gray-600">로딩 중...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">재고 마감 관리</h1>
+        <p className="text-gray-600">월별 재고 기간을 마감하고, 소급 입출고로 재계산된 거래 내역을 확인합니다.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">기간</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">상태</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">마감/해제 이력</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">관리</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {periods.map((period) => (
+              <tr key={period.period} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{period.period}</td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                    period.status === 'CLOSED' ? 'bg-gray-200 text-gray-800' : 'bg-green-100 text-green-800'
+                  }`}>
+                    {period.status === 'CLOSED' ? '마감' : '진행중'}
+                  </span>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {period.closedAt && (
+                    <div>마감 {new Date(period.closedAt).toLocaleString('ko-KR')} ({period.closedBy?.name || '-'})</div>
+                  )}
+                  {period.reopenedAt && (
+                    <div>해제 {new Date(period.reopenedAt).toLocaleString('ko-KR')} ({period.reopenedBy?.name || '-'})</div>
+                  )}
+                  {!period.closedAt && !period.reopenedAt && '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right">
+                  <button
+                    onClick={() => handleToggle(period)}
+                    className="inline-flex items-center text-sm text-primary-600 hover:text-primary-900"
+                  >
+                    {period.status === 'CLOSED'
+                      ? <><Unlock className="h-4 w-4 mr-1" />마감 해제</>
+                      : <><Lock className="h-4 w-4 mr-1" />마감</>}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+          <History className="h-5 w-5 text-gray-500 mr-2" />
+          <h2 className="text-lg font-medium text-gray-900">소급 재계산 이력</h2>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">처리일시</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">소급 거래</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">재계산 거래</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">처리자</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {recalculations.map((recalculation) => (
+              <React.Fragment key={recalculation._id}>
+                <tr
+                  className="hover:bg-gray-50 cursor-pointer"
+                  onClick={() => setExpanded(expanded === recalculation._id ? null : recalculation._id)}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{new Date(recalculation.createdAt).toLocaleString('ko-KR')}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {recalculation.triggerTransactionNumber}
+                    <span className="ml-2 text-gray-500">({new Date(recalculation.postedDate).toLocaleDateString('ko-KR')})</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {recalculation.itemName} {recalculation.itemCode && <span className="text-gray-500">({recalculation.itemCode})</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{recalculation.warehouseName}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{recalculation.changes.length}건</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{recalculation.userName}</td>
+                </tr>
+                {expanded === recalculation._id && (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-gray-500">
+                            <th className="px-3 py-2 text-left">거래번호</th>
+                            <th className="px-3 py-2 text-left">거래일자</th>
+                            <th className="px-3 py-2 text-left">유형</th>
+                            <th className="px-3 py-2 text-right">이전 수량</th>
+                            <th className="px-3 py-2 text-right">현재 수량</th>
+                            <th className="px-3 py-2 text-right">단가</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {recalculation.changes.map((change) => (
+                            <tr key={change.transactionNumber}>
+                              <td className="px-3 py-2">{change.transactionNumber}</td>
+                              <td className="px-3 py-2">{new Date(change.transactionDate).toLocaleDateString('ko-KR')}</td>
+                              <td className="px-3 py-2">{change.transactionType}</td>
+                              <td className="px-3 py-2 text-right">{formatField(change.previousQuantity)}</td>
+                              <td className="px-3 py-2 text-right">{formatField(change.currentQuantity)}</td>
+                              <td className="px-3 py-2 text-right">{formatField(change.unitPrice, true)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+            {recalculations.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                  소급 입출고로 재계산된 거래가 없습니다.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, ShoppingCart, Factory, Truck } from 'lucide-react';
+
+interface ReservationHolder {
+  reservationId: string;
+  sourceType: 'SALES_ORDER' | 'WORK_ORDER' | 'TRANSFER';
+  sourceNumber: string;
+  holderName?: string;
+  requiredDate?: string;
+  openQuantity: number;
+  reservedAt: string;
+}
+
+interface ReservedItem {
+  itemId: string;
+  warehouseId: string;
+  itemName: string;
+  itemCode?: string;
+  warehouseName: string;
+  currentQuantity: number;
+  availableQuantity: number;
+  reservedQuantity: number;
+  holders: ReservationHolder[];
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+const sourceLabels = {
+  SALES_ORDER: '수주',
+  WORK_ORDER: '작업지시',
+  TRANSFER: '창고 이동'
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+const formatDate = (dateString?: string) => {
+  return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+};
+
+export default function StockReservationsPage() {
+  const [items, setItems] = useState<ReservedItem[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseFilter, setWarehouseFilter] = useState('');
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchReservations();
+  }, [warehouseFilter]);
+
+  useEffect(() => {
+    fetchWarehouses();
+  }, []);
+
+  const fetchReservations = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (warehouseFilter) {
+        params.append('warehouseId', warehouseFilter);
+      }
+
+      const response = await fetch(`/api/inventory/reservations/by-item?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '재고 예약 현황을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setItems(data.data.items || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const handleRelease = async (holder: ReservationHolder) => {
+    if (!confirm(`${sourceLabels[holder.sourceType]} ${holder.sourceNumber}의 예약 ${holder.openQuantity.toLocaleString()}개를 해제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/inventory/reservations/${holder.reservationId}/release`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '예약 해제에 실패했습니다.');
+      }
+
+      await fetchReservations();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '예약 해제 중 오류가 발생했습니다.');
+    }
+  };
+
+  const toggle = (key: string) => {
+    setExpanded(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">재고 예약 현황</h1>
+          <p className="text-gray-600">확정된 수주와 출고 지시된 작업지시가 점유하고 있는 재고를 조회합니다.</p>
+        </div>
+        <select
+          value={warehouseFilter}
+          onChange={(e) => setWarehouseFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+        >
+          <option value="">전체 창고</option>
+          {warehouses.map((warehouse) => (
+            <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center items-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-2 text-gray-600">로딩 중...</span>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">현재고</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">예약</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">가용</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">예약 건수</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map((item) => {
+                const key = `${item.itemId}-${item.warehouseId}`;
+                return (
+                  <React.Fragment key={key}>
+                    <tr onClick={() => toggle(key)} className="hover:bg-gray-50 cursor-pointer">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div className="flex items-center">
+                          {expanded[key] ? <ChevronDown className="h-4 w-4 mr-2 text-gray-500" /> : <ChevronRight className="h-4 w-4 mr-2 text-gray-500" />}
+                          {item.itemName} {item.itemCode && <span className="ml-1 text-gray-500">({item.itemCode})</span>}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.warehouseName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{item.currentQuantity.toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-orange-600">{item.reservedQuantity.toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{item.availableQuantity.toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.holders.length}건</td>
+                    </tr>
+                    {expanded[key] && item.holders.map((holder) => (
+                      <tr key={holder.reservationId} className="bg-gray-50">
+                        <td className="pl-14 pr-6 py-2 whitespace-nowrap text-sm text-gray-700" colSpan={2}>
+                          <div className="flex items-center">
+                            {holder.sourceType === 'SALES_ORDER' && <ShoppingCart className="h-4 w-4 mr-2 text-blue-500" />}
+                            {holder.sourceType === 'WORK_ORDER' && <Factory className="h-4 w-4 mr-2 text-purple-500" />}
+                            {holder.sourceType === 'TRANSFER' && <Truck className="h-4 w-4 mr-2 text-green-500" />}
+                            {sourceLabels[holder.sourceType]} {holder.sourceNumber}
+                            <span className="ml-2 text-gray-500">{holder.holderName}</span>
+                          </div>
+                        </td>
+                        <td className="px-6 py-2 whitespace-nowrap text-xs text-right text-gray-500">
+                          필요일 {formatDate(holder.requiredDate)}
+                        </td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-900">{holder.openQuantity.toLocaleString()}</td>
+                        <td className="px-6 py-2 whitespace-nowrap text-xs text-right text-gray-500">
+                          예약일 {formatDate(holder.reservedAt)}
+                        </td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm">
+                          {holder.sourceType !== 'TRANSFER' && (
+                            <button
+                              onClick={() => handleRelease(holder)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              해제
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+              {items.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                    예약된 재고가 없습니다.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
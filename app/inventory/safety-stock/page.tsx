@@ -1,26 +1,617 @@
 'use client';
 
-import React from 'react';
-import { Shield } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Shield, RefreshCw, Send, Trash2, Calculator, CheckCircle } from 'lucide-react';
+
+interface ReorderSuggestion {
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  abcClass?: 'A' | 'B' | 'C';
+  xyzClass?: 'X' | 'Y' | 'Z';
+  supplierName?: string;
+  onHandQuantity: number;
+  reservedQuantity: number;
+  onOrderQuantity: number;
+  requestedQuantity: number;
+  netQuantity: number;
+  reorderPoint: number;
+  maxStock: number;
+  suggestedQuantity: number;
+  requiredDate: string;
+  priority: 'MEDIUM' | 'HIGH' | 'URGENT';
+}
+
+interface SafetyStockProposal {
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  abcClass?: 'A' | 'B' | 'C';
+  serviceLevel: number;
+  averageDailyDemand: number;
+  demandStdDev: number;
+  leadTimeDays: number;
+  leadTimeStdDev: number;
+  leadTimeSamples: number;
+  leadTimeSource: 'RECEIPTS' | 'ITEM';
+  currentSafetyStock: number;
+  proposedSafetyStock: number;
+  currentReorderPoint: number;
+  proposedReorderPoint: number;
+}
+
+interface DraftLine {
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  quantity: number;
+  unit: string;
+  estimatedPrice: number;
+  notes?: string;
+}
+
+interface DraftRequest {
+  _id: string;
+  requestNumber: string;
+  department: string;
+  requestDate: string;
+  requiredDate?: string;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  supplierId?: { _id: string; name: string };
+  items: DraftLine[];
+  totalAmount: number;
+}
+
+const priorityLabels = {
+  LOW: '낮음',
+  MEDIUM: '보통',
+  HIGH: '높음',
+  URGENT: '긴급'
+};
+
+const priorityColors = {
+  LOW: 'bg-gray-100 text-gray-800',
+  MEDIUM: 'bg-blue-100 text-blue-800',
+  HIGH: 'bg-orange-100 text-orange-800',
+  URGENT: 'bg-red-100 text-red-800'
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+const formatDate = (dateString?: string) => {
+  return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+};
 
 export default function SafetyStockPage() {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [drafts, setDrafts] = useState<DraftRequest[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, Record<string, number>>>({});
+  const [classFilter, setClassFilter] = useState('');
+  const [tab, setTab] = useState<'REORDER' | 'CALCULATOR'>('REORDER');
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchAll();
+  }, [classFilter]);
+
+  const fetchAll = async () => {
+    try {
+      setLoading(true);
+      const [suggestionResponse, draftResponse] = await Promise.all([
+        fetch(`/api/inventory/reorder/suggestions${classFilter ? `?abcClass=${classFilter}` : ''}`, { headers: authHeaders() }),
+        fetch('/api/inventory/reorder/drafts', { headers: authHeaders() })
+      ]);
+
+      if (!suggestionResponse.ok || !draftResponse.ok) {
+        throw new Error('재주문 현황을 불러오는데 실패했습니다.');
+      }
+
+      const suggestionData = await suggestionResponse.json();
+      const draftData = await draftResponse.json();
+      const requests: DraftRequest[] = draftData.data.requests || [];
+
+      setSuggestions(suggestionData.data.suggestions || []);
+      setDrafts(requests);
+      setQuantities(Object.fromEntries(requests.map(request => [
+        request._id,
+        Object.fromEntries(request.items.map(line => [line.itemId, line.quantity]))
+      ])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      const response = await fetch('/api/inventory/reorder/run', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '재주문 실행에 실패했습니다.');
+      }
+
+      alert(data.message);
+      await fetchAll();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '재주문 실행 중 오류가 발생했습니다.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSubmit = async (request: DraftRequest) => {
+    if (!confirm(`${request.requestNumber} 구매요청을 제출하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const items = Object.entries(quantities[request._id] || {}).map(([itemId, quantity]) => ({ itemId, quantity }));
+      const response = await fetch(`/api/inventory/reorder/drafts/${request._id}/submit`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify({ items })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '구매요청 제출에 실패했습니다.');
+      }
+
+      await fetchAll();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '구매요청 제출 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleDiscard = async (request: DraftRequest) => {
+    if (!confirm(`${request.requestNumber} 구매요청 초안을 삭제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/inventory/reorder/drafts/${request._id}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '구매요청 삭제에 실패했습니다.');
+      }
+
+      await fetchAll();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '구매요청 삭제 중 오류가 발생했습니다.');
+    }
+  };
+
+  const setQuantity = (requestId: string, itemId: string, quantity: number) => {
+    setQuantities(prev => ({ ...prev, [requestId]: { ...prev[requestId], [itemId]: quantity } }));
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-semibold text-gray-900">안전재고 관리</h1>
-          <p className="mt-1 text-sm text-gray-500">안전재고를 관리합니다</p>
+          <p className="mt-1 text-sm text-gray-500">재주문점 이하로 떨어진 품목을 확인하고 자동 작성된 구매요청을 검토하여 제출합니다</p>
         </div>
+        {tab === 'REORDER' && (
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+            재주문 실행
+          </button>
+        )}
+      </div>
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([['REORDER', '재주문 검토'], ['CALCULATOR', '안전재고 산출']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                tab === value
+                  ? 'border-primary-500 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
       </div>
 
-      <div className="bg-white shadow rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <div className="text-center py-12">
-            <Shield className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">준비 중입니다</h3>
-            <p className="mt-1 text-sm text-gray-500">이 기능은 현재 개발 중입니다.</p>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      {tab === 'CALCULATOR' ? (
+        <SafetyStockCalculator />
+      ) : loading ? (
+        <div className="flex justify-center items-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          <span className="ml-2 text-gray-600">로딩 중...</span>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white shadow rounded-lg overflow-x-auto">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">재주문 대상 품목</h2>
+                <p className="text-sm text-gray-500">순재고 = 현재고 - 예약 + 발주잔량(발주서 및 진행 중인 구매요청)</p>
+              </div>
+              <select
+                value={classFilter}
+                onChange={(e) => setClassFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">전체 ABC 등급</option>
+                <option value="A">A 등급</option>
+                <option value="B">B 등급</option>
+                <option value="C">C 등급</option>
+              </select>
+            </div>
+            {suggestions.length === 0 ? (
+              <div className="text-center py-12">
+                <Shield className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">재주문이 필요한 품목이 없습니다</h3>
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">등급</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">공급업체</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">현재고</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">예약</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">발주잔량</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">순재고</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">재주문점</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">최대재고</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">제안수량</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">필요일</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">우선순위</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {suggestions.map((suggestion) => (
+                    <tr key={suggestion.itemId} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {suggestion.itemName} <span className="text-gray-500">({suggestion.itemCode})</span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {suggestion.abcClass ? `${suggestion.abcClass}${suggestion.xyzClass || ''}` : '-'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{suggestion.supplierName || '-'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{suggestion.onHandQuantity.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{suggestion.reservedQuantity.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {(suggestion.onOrderQuantity + suggestion.requestedQuantity).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium text-red-600">{suggestion.netQuantity.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{suggestion.reorderPoint.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{suggestion.maxStock ? suggestion.maxStock.toLocaleString() : '-'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {suggestion.suggestedQuantity.toLocaleString()} {suggestion.unit}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{formatDate(suggestion.requiredDate)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${priorityColors[suggestion.priority]}`}>
+                          {priorityLabels[suggestion.priority]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-lg font-medium text-gray-900">자동 작성된 구매요청 ({drafts.length}건)</h2>
+            {drafts.length === 0 && (
+              <div className="bg-white shadow rounded-lg p-6 text-center text-sm text-gray-500">
+                검토 대기 중인 구매요청이 없습니다.
+              </div>
+            )}
+            {drafts.map((request) => (
+              <div key={request._id} className="bg-white shadow rounded-lg">
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{request.requestNumber}</span>
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${priorityColors[request.priority]}`}>
+                        {priorityLabels[request.priority]}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {request.supplierId?.name || '공급업체 미지정'} · {request.department} · 필요일 {formatDate(request.requiredDate)}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleDiscard(request)}
+                      className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      삭제
+                    </button>
+                    <button
+                      onClick={() => handleSubmit(request)}
+                      className="flex items-center px-3 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      제출
+                    </button>
+                  </div>
+                </div>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">근거</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">예상단가</th>
+                      <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">요청수량</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {request.items.map((line) => (
+                      <tr key={line.itemId}>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">
+                          {line.itemName} {line.itemCode && <span className="text-gray-500">({line.itemCode})</span>}
+                        </td>
+                        <td className="px-6 py-2 text-xs text-gray-500">{line.notes}</td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-right text-gray-900">{line.estimatedPrice.toLocaleString()}원</td>
+                        <td className="px-6 py-2 whitespace-nowrap text-sm text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            value={quantities[request._id]?.[line.itemId] ?? line.quantity}
+                            onChange={(e) => setQuantity(request._id, line.itemId, Number(e.target.value))}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-primary-500 focus:border-primary-500"
+                          />
+                          <span className="ml-1 text-gray-500">{line.unit}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
           </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SafetyStockCalculator() {
+  const [proposals, setProposals] = useState<SafetyStockProposal[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [serviceLevel, setServiceLevel] = useState('');
+  const [lookbackDays, setLookbackDays] = useState('180');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const calculate = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams({ lookbackDays });
+      if (serviceLevel) {
+        params.append('serviceLevel', serviceLevel);
+      }
+
+      const response = await fetch(`/api/inventory/safety-stock/proposals?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '안전재고 산출에 실패했습니다.');
+      }
+
+      const data = await response.json();
+      const results: SafetyStockProposal[] = data.data.proposals || [];
+      setProposals(results);
+      // Preselect only the rows that would change
+      setSelected(Object.fromEntries(results.map(proposal => [
+        proposal.itemId,
+        proposal.proposedSafetyStock !== proposal.currentSafetyStock || proposal.proposedReorderPoint !== proposal.currentReorderPoint
+      ])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    const accepted = proposals.filter(proposal => selected[proposal.itemId]);
+    if (accepted.length === 0) {
+      alert('적용할 품목을 선택해주세요.');
+      return;
+    }
+    if (!confirm(`${accepted.length}개 품목의 안전재고와 재주문점을 제안값으로 변경하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/inventory/safety-stock/accept', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          proposals: accepted.map(proposal => ({
+            itemId: proposal.itemId,
+            safetyStock: proposal.proposedSafetyStock,
+            reorderPoint: proposal.proposedReorderPoint
+          }))
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '제안값 적용에 실패했습니다.');
+      }
+
+      alert(data.message);
+      await calculate();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '제안값 적용 중 오류가 발생했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const allSelected = proposals.length > 0 && proposals.every(proposal => selected[proposal.itemId]);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={serviceLevel}
+            onChange={(e) => setServiceLevel(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">등급별 서비스 수준 (A 98%, B 95%, C 90%)</option>
+            <option value="0.9">90%</option>
+            <option value="0.95">95%</option>
+            <option value="0.975">97.5%</option>
+            <option value="0.99">99%</option>
+          </select>
+          <select
+            value={lookbackDays}
+            onChange={(e) => setLookbackDays(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="90">최근 90일 소비</option>
+            <option value="180">최근 180일 소비</option>
+            <option value="365">최근 365일 소비</option>
+          </select>
+          <button
+            onClick={calculate}
+            disabled={loading}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+          >
+            <Calculator className="h-4 w-4 mr-2" />
+            산출
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={saving || proposals.length === 0}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            선택 항목 일괄 적용
+          </button>
         </div>
+        <p className="mt-3 text-xs text-gray-500">
+          안전재고 = z × √(리드타임 × 일소비 표준편차² + 일평균소비² × 리드타임 표준편차²), 재주문점 = 일평균소비 × 리드타임 + 안전재고.
+          리드타임은 발주일부터 입고일까지의 실적을 사용하며, 실적이 없으면 품목의 리드타임을 사용합니다.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center items-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-2 text-gray-600">산출 중...</span>
+          </div>
+        ) : proposals.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">서비스 수준과 기간을 선택한 후 산출하세요.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={(e) => setSelected(Object.fromEntries(proposals.map(proposal => [proposal.itemId, e.target.checked])))}
+                  />
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">서비스 수준</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">일평균 소비 (σ)</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">리드타임 (σ)</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">현재 안전재고</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">제안 안전재고</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">현재 재주문점</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">제안 재주문점</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {proposals.map((proposal) => (
+                <tr key={proposal.itemId} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!selected[proposal.itemId]}
+                      onChange={(e) => setSelected(prev => ({ ...prev, [proposal.itemId]: e.target.checked }))}
+                    />
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                    {proposal.itemName} <span className="text-gray-500">({proposal.itemCode})</span>
+                    {proposal.abcClass && <span className="ml-2 text-xs text-gray-500">{proposal.abcClass} 등급</span>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{(proposal.serviceLevel * 100).toFixed(1)}%</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {proposal.averageDailyDemand.toFixed(2)} <span className="text-gray-500">({proposal.demandStdDev.toFixed(2)})</span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {proposal.leadTimeDays.toFixed(1)}일 <span className="text-gray-500">({proposal.leadTimeStdDev.toFixed(1)})</span>
+                    <div className="text-xs text-gray-400">
+                      {proposal.leadTimeSource === 'RECEIPTS' ? `입고 실적 ${proposal.leadTimeSamples}건` : '품목 리드타임'}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">{proposal.currentSafetyStock.toLocaleString()}</td>
+                  <td className={`px-4 py-3 whitespace-nowrap text-sm text-right font-medium ${
+                    proposal.proposedSafetyStock !== proposal.currentSafetyStock ? 'text-primary-600' : 'text-gray-900'
+                  }`}>
+                    {proposal.proposedSafetyStock.toLocaleString()} {proposal.unit}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">{proposal.currentReorderPoint.toLocaleString()}</td>
+                  <td className={`px-4 py-3 whitespace-nowrap text-sm text-right font-medium ${
+                    proposal.proposedReorderPoint !== proposal.currentReorderPoint ? 'text-primary-600' : 'text-gray-900'
+                  }`}>
+                    {proposal.proposedReorderPoint.toLocaleString()} {proposal.unit}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,536 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Search, X, Factory, Package, Truck, RotateCcw, Trash2 } from 'lucide-react';
+
+type SerialStatus = 'IN_STOCK' | 'SHIPPED' | 'RETURNED' | 'SCRAPPED';
+
+interface SerialEvent {
+  status: SerialStatus;
+  referenceType?: string;
+  referenceNumber?: string;
+  warehouseName?: string;
+  notes?: string;
+  userName: string;
+  eventDate: string;
+}
+
+interface Serial {
+  _id: string;
+  serialNumber: string;
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  status: SerialStatus;
+  warehouseName?: string;
+  lotNumber?: string;
+  workOrderNumber?: string;
+  salesOrderNumber?: string;
+  customerName?: string;
+  producedAt: string;
+  shippedAt?: string;
+  history?: SerialEvent[];
+}
+
+interface SerialDetail {
+  serial: Serial;
+  workOrder?: {
+    orderNumber: string;
+    status: string;
+    workCenter?: string;
+    completedQuantity?: number;
+    actualStartDate?: string;
+    actualEndDate?: string;
+  } | null;
+  components: Array<{
+    _id: string;
+    lotNumber: string;
+    itemName: string;
+    itemCode?: string;
+    quantity: number;
+    warehouseName?: string;
+    eventDate: string;
+  }>;
+  salesOrder?: {
+    orderNumber: string;
+    orderDate: string;
+    status: string;
+    customerId?: { name: string };
+  } | null;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+const statusLabels: Record<SerialStatus, string> = {
+  IN_STOCK: '재고',
+  SHIPPED: '출하',
+  RETURNED: '반품',
+  SCRAPPED: '폐기'
+};
+
+const statusColors: Record<SerialStatus, string> = {
+  IN_STOCK: 'bg-green-100 text-green-800',
+  SHIPPED: 'bg-blue-100 text-blue-800',
+  RETURNED: 'bg-yellow-100 text-yellow-800',
+  SCRAPPED: 'bg-gray-100 text-gray-800'
+};
+
+const formatDate = (dateString?: string) => {
+  return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+export default function SerialNumbersPage() {
+  const [serials, setSerials] = useState<Serial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('ALL');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [selectedSerial, setSelectedSerial] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSerials();
+  }, [currentPage, statusFilter]);
+
+  const fetchSerials = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: '20',
+        status: statusFilter
+      });
+      if (searchTerm) {
+        params.append('search', searchTerm);
+      }
+
+      const response = await fetch(`/api/inventory/serials?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '일련번호 목록을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setSerials(data.data.serials || []);
+      setTotalPages(data.data.pagination.totalPages);
+      setTotalCount(data.data.pagination.totalCount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCurrentPage(1);
+    fetchSerials();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">일련번호 관리</h1>
+        <p className="text-gray-600">완제품 일련번호별 생산 작업지시, 투입 자재, 출하 수주 이력을 조회합니다.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        <form onSubmit={handleSearch} className="p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <input
+                type="text"
+                placeholder="일련번호, 품목명, 작업지시, 수주번호, 고객명 검색"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="ALL">전체 상태</option>
+              {(Object.keys(statusLabels) as SerialStatus[]).map((status) => (
+                <option key={status} value={status}>{statusLabels[status]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+            >
+              조회
+            </button>
+          </div>
+        </form>
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              <span className="ml-2 text-gray-600">로딩 중...</span>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">일련번호</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">상태</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">작업지시</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">수주 / 고객</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">생산일</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {serials.map((serial) => (
+                  <tr
+                    key={serial._id}
+                    onClick={() => setSelectedSerial(serial.serialNumber)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-primary-600">{serial.serialNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {serial.itemName} {serial.itemCode && <span className="text-gray-500">({serial.itemCode})</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[serial.status]}`}>
+                        {statusLabels[serial.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{serial.warehouseName || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{serial.workOrderNumber || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {serial.salesOrderNumber ? `${serial.salesOrderNumber} / ${serial.customerName || '-'}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(serial.producedAt)}</td>
+                  </tr>
+                ))}
+                {serials.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                      일련번호가 없습니다.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="px-6 py-3 flex items-center justify-between border-t border-gray-200">
+            <p className="text-sm text-gray-700">총 {totalCount}건</p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage === 1}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+              >
+                이전
+              </button>
+              <span className="px-3 py-1 text-sm text-gray-700">{currentPage} / {totalPages}</span>
+              <button
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage === totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+              >
+                다음
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selectedSerial && (
+        <SerialDetailModal
+          serialNumber={selectedSerial}
+          onClose={() => setSelectedSerial(null)}
+          onChanged={fetchSerials}
+        />
+      )}
+    </div>
+  );
+}
+
+function SerialDetailModal({
+  serialNumber,
+  onClose,
+  onChanged
+}: {
+  serialNumber: string;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [detail, setDetail] = useState<SerialDetail | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [action, setAction] = useState<'RETURN' | 'SCRAP' | null>(null);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [reason, setReason] = useState('');
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchDetail();
+  }, [serialNumber]);
+
+  const fetchDetail = async () => {
+    try {
+      const response = await fetch(`/api/inventory/serials/${encodeURIComponent(serialNumber)}`, {
+        headers: authHeaders()
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '일련번호 이력을 불러오는데 실패했습니다.');
+      }
+      setDetail(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    }
+  };
+
+  const startReturn = async () => {
+    setAction('RETURN');
+    if (warehouses.length === 0) {
+      const response = await fetch('/api/inventory/warehouses?limit=100', { headers: authHeaders() });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    }
+  };
+
+  const handleAction = async () => {
+    try {
+      setProcessing(true);
+      setError('');
+      const path = action === 'RETURN' ? 'return' : 'scrap';
+      const response = await fetch(`/api/inventory/serials/${encodeURIComponent(serialNumber)}/${path}`, {
+        method: 'PATCH',
+        headers: authHeaders(),
+        body: JSON.stringify(action === 'RETURN' ? { warehouseId, reason } : { reason })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '처리에 실패했습니다.');
+      }
+
+      setAction(null);
+      setReason('');
+      await fetchDetail();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const serial = detail?.serial;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-6 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-gray-900">일련번호 이력 - {serialNumber}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        {detail && serial && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="text-gray-500">품목</span>
+                <div className="text-gray-900">{serial.itemName} {serial.itemCode && `(${serial.itemCode})`}</div>
+              </div>
+              <div>
+                <span className="text-gray-500">상태</span>
+                <div>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[serial.status]}`}>
+                    {statusLabels[serial.status]}
+                  </span>
+                  {serial.warehouseName && <span className="ml-2 text-gray-700">{serial.warehouseName}</span>}
+                </div>
+              </div>
+              <div>
+                <span className="text-gray-500">로트번호</span>
+                <div className="text-gray-900">{serial.lotNumber || '-'}</div>
+              </div>
+              <div>
+                <span className="text-gray-500">생산일</span>
+                <div className="text-gray-900">{formatDate(serial.producedAt)}</div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+                <Factory className="h-4 w-4 mr-2 text-purple-500" />
+                생산 작업지시
+              </h4>
+              {detail.workOrder ? (
+                <div className="text-sm text-gray-700">
+                  {detail.workOrder.orderNumber} · {detail.workOrder.workCenter || '-'} · 완료 {formatDate(detail.workOrder.actualEndDate)}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-500">작업지시 정보가 없습니다.</div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+                <Package className="h-4 w-4 mr-2 text-primary-600" />
+                투입 자재 로트
+              </h4>
+              {detail.components.length > 0 ? (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-1">품목</th>
+                      <th className="py-1">로트</th>
+                      <th className="py-1 text-right">수량</th>
+                      <th className="py-1">투입일</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detail.components.map((component) => (
+                      <tr key={component._id} className="text-gray-700">
+                        <td className="py-1">{component.itemName} {component.itemCode && `(${component.itemCode})`}</td>
+                        <td className="py-1">{component.lotNumber}</td>
+                        <td className="py-1 text-right">{component.quantity.toLocaleString()}</td>
+                        <td className="py-1">{formatDate(component.eventDate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="text-sm text-gray-500">기록된 투입 자재가 없습니다.</div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+                <Truck className="h-4 w-4 mr-2 text-green-500" />
+                출하 수주
+              </h4>
+              {detail.salesOrder ? (
+                <div className="text-sm text-gray-700">
+                  {detail.salesOrder.orderNumber} · {detail.salesOrder.customerId?.name || serial.customerName} · 출하 {formatDate(serial.shippedAt)}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-500">출하 이력이 없습니다.</div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">상태 이력</h4>
+              <div className="border-l border-gray-200 pl-4 space-y-2">
+                {(serial.history || []).map((event, index) => (
+                  <div key={index} className="text-sm text-gray-700">
+                    <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full mr-2 ${statusColors[event.status]}`}>
+                      {statusLabels[event.status]}
+                    </span>
+                    {event.referenceNumber} {event.warehouseName && `· ${event.warehouseName}`}
+                    {event.notes && <span className="text-gray-500"> · {event.notes}</span>}
+                    <span className="ml-2 text-gray-400">{formatDate(event.eventDate)} {event.userName}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {action ? (
+              <div className="border-t border-gray-200 pt-4 space-y-3">
+                {action === 'RETURN' && (
+                  <select
+                    value={warehouseId}
+                    onChange={(e) => setWarehouseId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="">반품 입고 창고 선택</option>
+                    {warehouses.map((warehouse) => (
+                      <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={action === 'RETURN' ? '반품 사유' : '폐기 사유'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => setAction(null)}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    취소
+                  </button>
+                  <button
+                    onClick={handleAction}
+                    disabled={processing || !reason || (action === 'RETURN' && !warehouseId)}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    {processing ? '처리 중...' : action === 'RETURN' ? '반품 처리' : '폐기 처리'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-end space-x-3 border-t border-gray-200 pt-4">
+                {serial.status === 'SHIPPED' && (
+                  <button
+                    onClick={startReturn}
+                    className="flex items-center px-4 py-2 border border-yellow-300 text-yellow-700 rounded-md text-sm hover:bg-yellow-50"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    반품
+                  </button>
+                )}
+                {(serial.status === 'IN_STOCK' || serial.status === 'RETURNED') && (
+                  <button
+                    onClick={() => setAction('SCRAP')}
+                    className="flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-md text-sm hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    폐기
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,653 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Search, Eye, Truck, CheckCircle, PackageCheck, XCircle, Trash2 } from 'lucide-react';
+import { ScanInput, ScanResult } from '@/components/ui/scan-input';
+
+interface TransferItem {
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  quantity: number;
+  unitCost?: number;
+  batchNumber?: string;
+  fromBinCode?: string;
+  toBinCode?: string;
+}
+
+interface StockTransfer {
+  _id: string;
+  transferNumber: string;
+  fromWarehouseId: string;
+  fromWarehouseName: string;
+  toWarehouseId: string;
+  toWarehouseName: string;
+  status: 'DRAFT' | 'APPROVED' | 'IN_TRANSIT' | 'RECEIVED' | 'CANCELLED';
+  items: TransferItem[];
+  totalQuantity: number;
+  requestedDate: string;
+  expectedArrivalDate?: string;
+  shippedAt?: string;
+  receivedAt?: string;
+  reason?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+interface StockOption {
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  availableQuantity: number;
+}
+
+const statusColors = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  IN_TRANSIT: 'bg-yellow-100 text-yellow-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800'
+};
+
+const statusLabels = {
+  DRAFT: '작성중',
+  APPROVED: '승인완료',
+  IN_TRANSIT: '이동중',
+  RECEIVED: '입고완료',
+  CANCELLED: '취소'
+};
+
+export default function InventoryTransfersPage() {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('ALL');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [selectedTransfer, setSelectedTransfer] = useState<StockTransfer | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [currentPage, statusFilter, searchTerm]);
+
+  useEffect(() => {
+    fetchWarehouses();
+  }, []);
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('token')}`,
+    'Content-Type': 'application/json',
+  });
+
+  const fetchTransfers = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: '20'
+      });
+
+      if (statusFilter !== 'ALL') {
+        params.append('status', statusFilter);
+      }
+      if (searchTerm) {
+        params.append('search', searchTerm);
+      }
+
+      const response = await fetch(`/api/inventory/transfers?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '창고 이동 목록을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setTransfers(data.data.transfers || []);
+      setTotalPages(data.data.pagination.totalPages || 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const handleAction = async (transfer: StockTransfer, action: 'approve' | 'ship' | 'receive' | 'cancel') => {
+    const confirmMessages = {
+      approve: '창고 이동을 승인하시겠습니까?',
+      ship: '출하 처리하시겠습니까? 출발 창고 재고가 이동중으로 예약됩니다.',
+      receive: '도착 창고 입고 처리하시겠습니까?',
+      cancel: '창고 이동을 취소하시겠습니까?'
+    };
+    if (!confirm(`${transfer.transferNumber}: ${confirmMessages[action]}`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/inventory/transfers/${transfer._id}/${action}`, {
+        method: 'PATCH',
+        headers: authHeaders()
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '처리에 실패했습니다.');
+      }
+
+      await fetchTransfers();
+      alert(result.message);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">창고 이동 관리</h1>
+          <p className="text-gray-600">창고 간 재고 이동을 요청, 승인, 출하, 입고 처리합니다.</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          이동 요청
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <input
+                type="text"
+                placeholder="이동번호 또는 품목명으로 검색"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="ALL">전체 상태</option>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              <span className="ml-2 text-gray-600">로딩 중...</span>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">이동번호</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">출발 창고</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">도착 창고</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목 수</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">총 수량</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">요청일</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">상태</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">관리</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transfers.map((transfer) => (
+                  <tr key={transfer._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{transfer.transferNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.fromWarehouseName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.toWarehouseName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.items.length}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{transfer.totalQuantity.toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(transfer.requestedDate)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[transfer.status]}`}>
+                        {statusLabels[transfer.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                      <button onClick={() => setSelectedTransfer(transfer)} className="text-gray-600 hover:text-gray-900" title="상세">
+                        <Eye className="h-4 w-4" />
+                      </button>
+                      {transfer.status === 'DRAFT' && (
+                        <button onClick={() => handleAction(transfer, 'approve')} className="text-blue-600 hover:text-blue-900" title="승인">
+                          <CheckCircle className="h-4 w-4" />
+                        </button>
+                      )}
+                      {transfer.status === 'APPROVED' && (
+                        <button onClick={() => handleAction(transfer, 'ship')} className="text-yellow-600 hover:text-yellow-900" title="출하">
+                          <Truck className="h-4 w-4" />
+                        </button>
+                      )}
+                      {transfer.status === 'IN_TRANSIT' && (
+                        <button onClick={() => handleAction(transfer, 'receive')} className="text-green-600 hover:text-green-900" title="입고">
+                          <PackageCheck className="h-4 w-4" />
+                        </button>
+                      )}
+                      {['DRAFT', 'APPROVED', 'IN_TRANSIT'].includes(transfer.status) && (
+                        <button onClick={() => handleAction(transfer, 'cancel')} className="text-red-600 hover:text-red-900" title="취소">
+                          <XCircle className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {transfers.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                      창고 이동 내역이 없습니다.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-2">
+            <button
+              onClick={() => setCurrentPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              이전
+            </button>
+            <span className="px-3 py-1 text-sm text-gray-700">{currentPage} / {totalPages}</span>
+            <button
+              onClick={() => setCurrentPage(currentPage + 1)}
+              disabled={currentPage === totalPages}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              다음
+            </button>
+          </div>
+        )}
+      </div>
+
+      {selectedTransfer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-3xl w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {selectedTransfer.transferNumber} ({selectedTransfer.fromWarehouseName} → {selectedTransfer.toWarehouseName})
+              </h3>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div><span className="text-gray-500">상태:</span> {statusLabels[selectedTransfer.status]}</div>
+                <div><span className="text-gray-500">출하일:</span> {formatDate(selectedTransfer.shippedAt)}</div>
+                <div><span className="text-gray-500">입고일:</span> {formatDate(selectedTransfer.receivedAt)}</div>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-gray-500">품목</th>
+                    <th className="px-4 py-2 text-right text-gray-500">수량</th>
+                    <th className="px-4 py-2 text-left text-gray-500">배치</th>
+                    <th className="px-4 py-2 text-right text-gray-500">이동 단가</th>
+                    <th className="px-4 py-2 text-left text-gray-500">로케이션</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {selectedTransfer.items.map((item, index) => (
+                    <tr key={index}>
+                      <td className="px-4 py-2">{item.itemName} {item.itemCode && <span className="text-gray-500">({item.itemCode})</span>}</td>
+                      <td className="px-4 py-2 text-right">{item.quantity.toLocaleString()}</td>
+                      <td className="px-4 py-2">{item.batchNumber || '-'}</td>
+                      <td className="px-4 py-2 text-right">{item.unitCost !== undefined ? `₩${item.unitCost.toLocaleString()}` : '-'}</td>
+                      <td className="px-4 py-2">{item.fromBinCode || '-'} → {item.toBinCode || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {selectedTransfer.notes && (
+                <p className="text-sm text-gray-700 whitespace-pre-line">{selectedTransfer.notes}</p>
+              )}
+            </div>
+            <div className="p-6 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={() => setSelectedTransfer(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                닫기
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showCreateModal && (
+        <CreateTransferModal
+          warehouses={warehouses}
+          authHeaders={authHeaders}
+          onClose={() => setShowCreateModal(false)}
+          onCreated={() => {
+            setShowCreateModal(false);
+            fetchTransfers();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function CreateTransferModal({
+  warehouses,
+  authHeaders,
+  onClose,
+  onCreated
+}: {
+  warehouses: Warehouse[];
+  authHeaders: () => Record<string, string>;
+  onClose: () => void;
+  onCreated: () => void;
+}) {
+  const [fromWarehouseId, setFromWarehouseId] = useState('');
+  const [toWarehouseId, setToWarehouseId] = useState('');
+  const [stockOptions, setStockOptions] = useState<StockOption[]>([]);
+  const [items, setItems] = useState<Array<{ itemId: string; quantity: number; batchNumber: string; fromBinId?: string }>>([
+    { itemId: '', quantity: 0, batchNumber: '' }
+  ]);
+  const [scannedBin, setScannedBin] = useState<{ _id: string; code: string } | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!fromWarehouseId) {
+      setStockOptions([]);
+      return;
+    }
+
+    const fetchStock = async () => {
+      try {
+        const response = await fetch(`/api/inventory/stock?warehouseId=${fromWarehouseId}&limit=100`, {
+          headers: authHeaders()
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setStockOptions((data.data?.stocks || []).map((stock: any) => ({
+            itemId: stock.itemId?._id || stock.itemId,
+            itemName: stock.itemName,
+            itemCode: stock.itemCode,
+            availableQuantity: stock.availableQuantity
+          })));
+        }
+      } catch (error) {
+        console.error('Error fetching stock:', error);
+      }
+    };
+
+    fetchStock();
+  }, [fromWarehouseId]);
+
+  const updateItem = (index: number, field: string, value: string | number) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  // A bin label picks the source warehouse (or the destination once the source is set);
+  // item and lot labels add a line, or count up the line already holding that item and lot.
+  const handleScan = (result: ScanResult) => {
+    if (result.type === 'BIN' && result.warehouse) {
+      if (!fromWarehouseId || fromWarehouseId === result.warehouse._id) {
+        setFromWarehouseId(result.warehouse._id);
+        setScannedBin(result.bin || null);
+      } else {
+        setToWarehouseId(result.warehouse._id);
+      }
+      return;
+    }
+
+    if ((result.type === 'ITEM' || result.type === 'LOT') && result.item) {
+      if (!fromWarehouseId && result.warehouses?.length === 1) {
+        setFromWarehouseId(result.warehouses[0]._id);
+      }
+      const itemId = result.item._id;
+      const batchNumber = result.lotNumber || '';
+      const fromBinId = scannedBin?._id;
+      setItems(prev => {
+        const existing = prev.findIndex(item =>
+          item.itemId === itemId && item.batchNumber === batchNumber && item.fromBinId === fromBinId
+        );
+        if (existing >= 0) {
+          return prev.map((item, i) => (i === existing ? { ...item, quantity: item.quantity + 1 } : item));
+        }
+        const line = { itemId, quantity: 1, batchNumber, fromBinId };
+        const blank = prev.findIndex(item => !item.itemId);
+        return blank >= 0 ? prev.map((item, i) => (i === blank ? line : item)) : [...prev, line];
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validItems = items.filter(item => item.itemId && item.quantity > 0);
+    if (validItems.length === 0) {
+      alert('이동할 품목을 입력해주세요.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await fetch('/api/inventory/transfers', {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          fromWarehouseId,
+          toWarehouseId,
+          reason,
+          items: validItems.map(item => ({
+            itemId: item.itemId,
+            quantity: item.quantity,
+            batchNumber: item.batchNumber || undefined,
+            fromBinId: item.fromBinId
+          }))
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '창고 이동 등록에 실패했습니다.');
+      }
+
+      alert(result.message);
+      onCreated();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '등록 중 오류가 발생했습니다.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-screen overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">창고 이동 요청</h3>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <ScanInput onScan={handleScan} placeholder="로케이션, 품목 또는 로트 라벨을 스캔하세요" />
+            {scannedBin && (
+              <p className="mt-1 text-xs text-gray-500">출발 로케이션: {scannedBin.code}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                출발 창고 <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={fromWarehouseId}
+                onChange={(e) => {
+                  setFromWarehouseId(e.target.value);
+                  setScannedBin(null);
+                }}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">창고를 선택하세요</option>
+                {warehouses.map(warehouse => (
+                  <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                도착 창고 <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={toWarehouseId}
+                onChange={(e) => setToWarehouseId(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">창고를 선택하세요</option>
+                {warehouses.filter(warehouse => warehouse._id !== fromWarehouseId).map(warehouse => (
+                  <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-gray-700">이동 품목</label>
+              <button
+                type="button"
+                onClick={() => setItems([...items, { itemId: '', quantity: 0, batchNumber: '' }])}
+                className="text-sm text-primary-600 hover:text-primary-800"
+              >
+                + 품목 추가
+              </button>
+            </div>
+            <div className="space-y-2">
+              {items.map((item, index) => {
+                const stock = stockOptions.find(option => option.itemId === item.itemId);
+                return (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={item.itemId}
+                      onChange={(e) => updateItem(index, 'itemId', e.target.value)}
+                      className="col-span-5 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">품목 선택</option>
+                      {stockOptions.map(option => (
+                        <option key={option.itemId} value={option.itemId}>
+                          {option.itemName} (가용 {option.availableQuantity})
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      max={stock?.availableQuantity}
+                      value={item.quantity || ''}
+                      onChange={(e) => updateItem(index, 'quantity', parseFloat(e.target.value) || 0)}
+                      placeholder="수량"
+                      className="col-span-3 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={item.batchNumber}
+                      onChange={(e) => updateItem(index, 'batchNumber', e.target.value)}
+                      placeholder="배치번호 (선택)"
+                      className="col-span-3 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      disabled={items.length === 1}
+                      className="col-span-1 text-red-600 hover:text-red-900 disabled:opacity-30"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">이동 사유</label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? '등록 중...' : '등록'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Download, Settings, Calculator } from 'lucide-react';
+import { downloadExcel, ExcelColumn } from '@/lib/excel';
+
+type ValuationMethod = 'MOVING_AVERAGE' | 'FIFO' | 'STANDARD';
+type ItemCategory = 'RAW_MATERIAL' | 'COMPONENT' | 'FINISHED_PRODUCT' | 'CONSUMABLE';
+
+interface ValuationLine {
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  warehouseId: string;
+  warehouseName: string;
+  category?: ItemCategory;
+  unit?: string;
+  method: ValuationMethod;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  lastTransactionDate: string;
+}
+
+interface ValuationReport {
+  asOf: string;
+  methods: Record<ItemCategory, ValuationMethod>;
+  lines: ValuationLine[];
+  byWarehouse: Array<{ warehouseId: string; warehouseName: string; quantity: number; value: number }>;
+  byCategory: Array<{ category: ItemCategory | 'UNKNOWN'; method: ValuationMethod; quantity: number; value: number }>;
+  totalValue: number;
+}
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+const categoryLabels: Record<string, string> = {
+  RAW_MATERIAL: '원자재',
+  COMPONENT: '부품',
+  FINISHED_PRODUCT: '완제품',
+  CONSUMABLE: '소모품',
+  UNKNOWN: '미분류'
+};
+
+const methodLabels: Record<ValuationMethod, string> = {
+  MOVING_AVERAGE: '이동평균법',
+  FIFO: '선입선출법',
+  STANDARD: '표준원가법'
+};
+
+const authHeaders = () => ({
+  'Authorization': `Bearer ${localStorage.getItem('token')}`,
+  'Content-Type': 'application/json',
+});
+
+const formatCurrency = (amount: number) => `₩${Math.round(amount).toLocaleString()}`;
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+export default function InventoryValuationPage() {
+  const [report, setReport] = useState<ValuationReport | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [asOf, setAsOf] = useState(toDateInput(new Date()));
+  const [warehouseFilter, setWarehouseFilter] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => {
+    fetchValuation();
+  }, [asOf, warehouseFilter, categoryFilter]);
+
+  useEffect(() => {
+    fetchWarehouses();
+  }, []);
+
+  const fetchValuation = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const params = new URLSearchParams({ asOf });
+      if (warehouseFilter) {
+        params.append('warehouseId', warehouseFilter);
+      }
+      if (categoryFilter) {
+        params.append('category', categoryFilter);
+      }
+
+      const response = await fetch(`/api/inventory/valuation?${params.toString()}`, {
+        headers: authHeaders()
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '재고 평가 내역을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await fetch('/api/inventory/warehouses?limit=100', {
+        headers: authHeaders()
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouses(data.data?.warehouses || []);
+      }
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+    }
+  };
+
+  const handleExcelDownload = () => {
+    if (!report) return;
+
+    const columns: ExcelColumn[] = [
+      { key: 'warehouseName', label: '창고', width: 15 },
+      { key: 'itemCode', label: '품목코드', width: 15 },
+      { key: 'itemName', label: '품목명', width: 25 },
+      { key: 'category', label: '카테고리', width: 12 },
+      { key: 'method', label: '평가방법', width: 12 },
+      { key: 'quantity', label: '수량', width: 10 },
+      { key: 'unitCost', label: '평가단가', width: 12 },
+      { key: 'value', label: '평가금액', width: 15 }
+    ];
+
+    const rows = report.lines.map(line => ({
+      ...line,
+      category: categoryLabels[line.category || 'UNKNOWN'],
+      method: methodLabels[line.method],
+      unitCost: Math.round(line.unitCost),
+      value: Math.round(line.value)
+    }));
+
+    const success = downloadExcel(rows, columns, `재고평가_${asOf}`);
+    if (!success) {
+      alert('엑셀 다운로드에 실패했습니다.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">재고 평가</h1>
+          <p className="text-gray-600">기준일 시점의 재고를 입출고 이력으로 재계산하여 카테고리별 평가 방법으로 평가합니다.</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setShowSettings(true)}
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            <Settings className="h-4 w-4 mr-2" />
+            평가 방법 설정
+          </button>
+          <button
+            onClick={handleExcelDownload}
+            disabled={!report}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            엑셀 다운로드
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center space-x-4">
+          <label className="text-sm text-gray-700">기준일</label>
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+          <select
+            value={warehouseFilter}
+            onChange={(e) => setWarehouseFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">전체 창고</option>
+            {warehouses.map((warehouse) => (
+              <option key={warehouse._id} value={warehouse._id}>{warehouse.name}</option>
+            ))}
+          </select>
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="">전체 카테고리</option>
+            {(['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE'] as ItemCategory[]).map((category) => (
+              <option key={category} value={category}>{categoryLabels[category]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {report && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white rounded-lg shadow p-6 flex items-center">
+            <Calculator className="h-8 w-8 text-primary-600 mr-4" />
+            <div>
+              <p className="text-sm text-gray-500">총 평가금액</p>
+              <p className="text-xl font-semibold text-gray-900">{formatCurrency(report.totalValue)}</p>
+            </div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-gray-500 mb-2">창고별</p>
+            {report.byWarehouse.map((warehouse) => (
+              <div key={warehouse.warehouseId} className="flex justify-between text-sm text-gray-700">
+                <span>{warehouse.warehouseName}</span>
+                <span>{formatCurrency(warehouse.value)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-gray-500 mb-2">카테고리별</p>
+            {report.byCategory.map((category) => (
+              <div key={category.category} className="flex justify-between text-sm text-gray-700">
+                <span>{categoryLabels[category.category]} <span className="text-gray-400">({methodLabels[category.method]})</span></span>
+                <span>{formatCurrency(category.value)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center items-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-2 text-gray-600">로딩 중...</span>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">창고</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">카테고리</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">평가방법</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">수량</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">평가단가</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">평가금액</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {report?.lines.map((line) => (
+                <tr key={`${line.warehouseId}-${line.itemId}`} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.warehouseName}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {line.itemName} {line.itemCode && <span className="text-gray-500">({line.itemCode})</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{categoryLabels[line.category || 'UNKNOWN']}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{methodLabels[line.method]}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {line.quantity.toLocaleString()} {line.unit}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatCurrency(line.unitCost)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">{formatCurrency(line.value)}</td>
+                </tr>
+              ))}
+              {report && report.lines.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                    기준일 시점의 재고가 없습니다.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showSettings && report && (
+        <ValuationSettingsModal
+          methods={report.methods}
+          onClose={() => setShowSettings(false)}
+          onSaved={() => {
+            setShowSettings(false);
+            fetchValuation();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ValuationSettingsModal({
+  methods,
+  onClose,
+  onSaved
+}: {
+  methods: Record<ItemCategory, ValuationMethod>;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [form, setForm] = useState(methods);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch('/api/inventory/valuation/methods', {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ methods: form })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '평가 방법 저장에 실패했습니다.');
+      }
+
+      onSaved();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '평가 방법 저장 중 오류가 발생했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-6 border w-full max-w-md shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">카테고리별 평가 방법</h3>
+        <div className="space-y-3">
+          {(Object.keys(form) as ItemCategory[]).map((category) => (
+            <div key={category} className="flex items-center justify-between">
+              <span className="text-sm text-gray-700">{categoryLabels[category]}</span>
+              <select
+                value={form[category]}
+                onChange={(e) => setForm(prev => ({ ...prev, [category]: e.target.value as ValuationMethod }))}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                {(Object.keys(methodLabels) as ValuationMethod[]).map((method) => (
+                  <option key={method} value={method}>{methodLabels[method]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">표준원가법은 품목 마스터의 원가를 평가단가로 사용합니다.</p>
+        </div>
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700 disabled:opacity-50"
+          >
+            {saving ? '저장 중...' : '저장'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,663 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Layers, ListTree } from 'lucide-react';
+import { useAuth } from '@/lib/auth-service';
+
+type AttributeType = 'TEXT' | 'NUMBER' | 'BOOLEAN' | 'LIST';
+
+interface AttributeDefinition {
+  key: string;
+  name: string;
+  type: AttributeType;
+  options?: Array<{ value: string; code: string }>;
+  required: boolean;
+}
+
+interface ItemTemplate {
+  _id: string;
+  code: string;
+  name: string;
+  category: string;
+  unit: string;
+  price: number;
+  cost: number;
+  description?: string;
+  attributes: AttributeDefinition[];
+  isActive: boolean;
+  variantCount?: number;
+}
+
+interface Variant {
+  _id: string;
+  code: string;
+  name: string;
+  attributes?: Record<string, string | number | boolean>;
+  isActive: boolean;
+}
+
+interface ItemOption {
+  _id: string;
+  code: string;
+  name: string;
+  unit: string;
+}
+
+interface BOMLine {
+  itemId: string;
+  quantity: number;
+  unit: string;
+}
+
+interface Substitution {
+  itemId: string;
+  substituteItemId: string;
+  variantId?: string;
+  attributeText?: string; // key=value, key=value
+  quantity?: number;
+}
+
+// Edited as plain text rows; options are written as "value:code" separated by commas
+interface AttributeRow {
+  key: string;
+  name: string;
+  type: AttributeType;
+  optionText: string;
+  required: boolean;
+}
+
+const attributeTypeLabels: Record<AttributeType, string> = {
+  TEXT: '문자',
+  NUMBER: '숫자',
+  BOOLEAN: '예/아니오',
+  LIST: '목록'
+};
+
+const categoryLabels: Record<string, string> = {
+  RAW_MATERIAL: '원자재',
+  COMPONENT: '부품',
+  FINISHED_PRODUCT: '완제품',
+  CONSUMABLE: '소모품'
+};
+
+const toAttributeRow = (attribute: AttributeDefinition): AttributeRow => ({
+  key: attribute.key,
+  name: attribute.name,
+  type: attribute.type,
+  optionText: (attribute.options || []).map(option => `${option.value}:${option.code}`).join(', '),
+  required: attribute.required
+});
+
+const toAttributeDefinition = (row: AttributeRow): AttributeDefinition => ({
+  key: row.key.trim(),
+  name: row.name.trim(),
+  type: row.type,
+  options: row.type === 'LIST'
+    ? row.optionText.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+        const [value, code] = entry.split(':').map(part => part.trim());
+        return { value, code: (code || value).toUpperCase() };
+      })
+    : [],
+  required: row.required
+});
+
+const parseAttributeText = (text?: string) => Object.fromEntries(
+  (text || '').split(',').map(pair => pair.split('=').map(part => part.trim())).filter(pair => pair[0] && pair[1])
+);
+
+export default function ItemTemplatesPage() {
+  const [templates, setTemplates] = useState<ItemTemplate[]>([]);
+  const [units, setUnits] = useState<Array<{ code: string; name: string }>>([]);
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ItemTemplate | null>(null);
+  const [attributeRows, setAttributeRows] = useState<AttributeRow[]>([]);
+  const [selected, setSelected] = useState<ItemTemplate | null>(null);
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [bomLines, setBomLines] = useState<BOMLine[]>([]);
+  const [substitutions, setSubstitutions] = useState<Substitution[]>([]);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const response = await makeAuthenticatedRequest('/api/item-templates');
+      if (!response.ok) {
+        throw new Error('품목 템플릿을 불러오는데 실패했습니다.');
+      }
+      const data = await response.json();
+      setTemplates(data.data.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const fetchOptions = async () => {
+      const [unitResponse, itemResponse] = await Promise.all([
+        makeAuthenticatedRequest('/api/units'),
+        makeAuthenticatedRequest('/api/items/dropdown/list')
+      ]);
+      if (unitResponse.ok) {
+        setUnits((await unitResponse.json()).data.units);
+      }
+      if (itemResponse.ok) {
+        setItems((await itemResponse.json()).data.items);
+      }
+    };
+
+    fetchTemplates();
+    fetchOptions();
+  }, [isAuthenticated]);
+
+  const openTemplate = async (template: ItemTemplate) => {
+    setSelected(template);
+    const [detailResponse, bomResponse] = await Promise.all([
+      makeAuthenticatedRequest(`/api/item-templates/${template._id}`),
+      makeAuthenticatedRequest(`/api/item-templates/${template._id}/bom`)
+    ]);
+    if (detailResponse.ok) {
+      setVariants((await detailResponse.json()).data.variants);
+    }
+    if (bomResponse.ok) {
+      const { bom } = (await bomResponse.json()).data;
+      setBomLines((bom?.items || []).map((line: any) => ({
+        itemId: line.itemId?._id || line.itemId,
+        quantity: line.quantity,
+        unit: line.unit
+      })));
+      setSubstitutions((bom?.substitutions || []).map((rule: any) => ({
+        itemId: rule.itemId?._id || rule.itemId,
+        substituteItemId: rule.substituteItemId?._id || rule.substituteItemId,
+        variantId: rule.variantId?._id || rule.variantId,
+        attributeText: Object.entries(rule.attributes || {}).map(([key, value]) => `${key}=${value}`).join(', '),
+        quantity: rule.quantity
+      })));
+    }
+  };
+
+  const openModal = (template: ItemTemplate | null) => {
+    setEditingTemplate(template);
+    setAttributeRows(template
+      ? template.attributes.map(toAttributeRow)
+      : [{ key: '', name: '', type: 'LIST', optionText: '', required: true }]);
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    const templateData: Record<string, unknown> = {
+      name: formData.get('name') as string,
+      price: parseFloat(formData.get('price') as string) || 0,
+      cost: parseFloat(formData.get('cost') as string) || 0,
+      description: formData.get('description') as string,
+      attributes: attributeRows.map(toAttributeDefinition)
+    };
+    if (!editingTemplate) {
+      templateData.code = formData.get('code') as string;
+      templateData.category = formData.get('category') as string;
+      templateData.unit = formData.get('unit') as string;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(
+        editingTemplate ? `/api/item-templates/${editingTemplate._id}` : '/api/item-templates',
+        {
+          method: editingTemplate ? 'PATCH' : 'POST',
+          body: JSON.stringify(templateData)
+        }
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '저장에 실패했습니다.');
+      }
+
+      setShowModal(false);
+      setEditingTemplate(null);
+      alert(editingTemplate ? '템플릿이 수정되었습니다.' : '템플릿이 등록되었습니다.');
+      fetchTemplates();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!selected || !confirm('목록 속성의 모든 조합으로 변형 품목을 생성하시겠습니까? 이미 있는 코드는 건너뜁니다.')) {
+      return;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/item-templates/${selected._id}/variants`, {
+        method: 'POST',
+        body: JSON.stringify({})
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '변형 품목 생성에 실패했습니다.');
+      }
+      alert(`변형 품목 ${result.data.variants.length}개 생성, ${result.data.skipped.length}개 건너뜀`);
+      openTemplate(selected);
+      fetchTemplates();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '변형 품목 생성 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleSaveBOM = async () => {
+    if (!selected) return;
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/item-templates/${selected._id}/bom`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          items: bomLines,
+          substitutions: substitutions.map(rule => ({
+            itemId: rule.itemId,
+            substituteItemId: rule.substituteItemId,
+            variantId: rule.variantId || undefined,
+            attributes: rule.variantId ? undefined : parseAttributeText(rule.attributeText),
+            quantity: rule.quantity || undefined
+          }))
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'BOM 저장에 실패했습니다.');
+      }
+      alert(`템플릿 BOM ${result.data.bom.bomNumber}이(가) 저장되었습니다.`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'BOM 저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const itemLabel = (id: string) => {
+    const item = items.find(candidate => candidate._id === id);
+    return item ? `${item.code} ${item.name}` : '-';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">품목 템플릿/변형 관리</h1>
+          <p className="text-gray-600">사이즈·색상 등 속성으로 변형 품목을 생성하고, 템플릿 단위로 BOM을 관리합니다.</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          신규 템플릿
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center items-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-2 text-gray-600">로딩 중...</span>
+          </div>
+        ) : error ? (
+          <div className="text-center p-8">
+            <p className="text-red-600">{error}</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">템플릿코드</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">템플릿명</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">카테고리</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">속성</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">변형 품목</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">관리</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.map(template => (
+                <tr key={template._id} className={`hover:bg-gray-50 ${selected?._id === template._id ? 'bg-primary-50' : ''}`}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{template.code}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{template.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{categoryLabels[template.category] || template.category}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {template.attributes.map(attribute => `${attribute.name}(${attributeTypeLabels[attribute.type]})`).join(', ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{template.variantCount || 0}개</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button onClick={() => openTemplate(template)} className="text-gray-600 hover:text-gray-900 mr-3" title="변형 품목/BOM">
+                      <Layers className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => openModal(template)} className="text-primary-600 hover:text-primary-900">
+                      수정
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {templates.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-gray-500">등록된 품목 템플릿이 없습니다.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selected && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+              <h2 className="text-lg font-medium text-gray-900">{selected.name} 변형 품목</h2>
+              <button
+                onClick={handleGenerate}
+                className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-md text-primary-700 bg-primary-100 hover:bg-primary-200"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                전체 조합 생성
+              </button>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <tbody className="divide-y divide-gray-200">
+                {variants.map(variant => (
+                  <tr key={variant._id}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{variant.code}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500">
+                      {Object.entries(variant.attributes || {}).map(([key, value]) => `${key}: ${value}`).join(', ')}
+                    </td>
+                  </tr>
+                ))}
+                {variants.length === 0 && (
+                  <tr>
+                    <td className="px-6 py-4 text-center text-gray-500">생성된 변형 품목이 없습니다.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div className="flex items-center">
+              <ListTree className="h-5 w-5 text-gray-500 mr-2" />
+              <h2 className="text-lg font-medium text-gray-900">템플릿 BOM</h2>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-sm font-medium text-gray-700">구성품</label>
+                <button
+                  type="button"
+                  onClick={() => setBomLines([...bomLines, { itemId: '', quantity: 1, unit: '' }])}
+                  className="text-sm text-primary-600 hover:text-primary-900"
+                >
+                  + 구성품 추가
+                </button>
+              </div>
+              {bomLines.map((line, index) => (
+                <div key={index} className="flex items-center space-x-2 mb-2">
+                  <select
+                    value={line.itemId}
+                    onChange={(e) => {
+                      const item = items.find(candidate => candidate._id === e.target.value);
+                      setBomLines(bomLines.map((row, i) => i === index ? { ...row, itemId: e.target.value, unit: row.unit || item?.unit || '' } : row));
+                    }}
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">품목 선택</option>
+                    {items.map(item => <option key={item._id} value={item._id}>{item.code} {item.name}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={line.quantity}
+                    onChange={(e) => setBomLines(bomLines.map((row, i) => i === index ? { ...row, quantity: parseFloat(e.target.value) || 0 } : row))}
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  />
+                  <select
+                    value={line.unit}
+                    onChange={(e) => setBomLines(bomLines.map((row, i) => i === index ? { ...row, unit: e.target.value } : row))}
+                    className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">단위</option>
+                    {units.map(unit => <option key={unit.code} value={unit.code}>{unit.code}</option>)}
+                  </select>
+                  <button type="button" onClick={() => setBomLines(bomLines.filter((_, i) => i !== index))} className="text-red-600 hover:text-red-900">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-sm font-medium text-gray-700">변형별 대체 구성품</label>
+                <button
+                  type="button"
+                  onClick={() => setSubstitutions([...substitutions, { itemId: '', substituteItemId: '' }])}
+                  className="text-sm text-primary-600 hover:text-primary-900"
+                >
+                  + 대체 규칙 추가
+                </button>
+              </div>
+              {substitutions.map((rule, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 mb-2 items-center">
+                  <select
+                    value={rule.itemId}
+                    onChange={(e) => setSubstitutions(substitutions.map((row, i) => i === index ? { ...row, itemId: e.target.value } : row))}
+                    className="col-span-3 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">대상 구성품</option>
+                    {bomLines.filter(line => line.itemId).map(line => (
+                      <option key={line.itemId} value={line.itemId}>{itemLabel(line.itemId)}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.substituteItemId}
+                    onChange={(e) => setSubstitutions(substitutions.map((row, i) => i === index ? { ...row, substituteItemId: e.target.value } : row))}
+                    className="col-span-3 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">대체 품목</option>
+                    {items.map(item => <option key={item._id} value={item._id}>{item.code} {item.name}</option>)}
+                  </select>
+                  <select
+                    value={rule.variantId || ''}
+                    onChange={(e) => setSubstitutions(substitutions.map((row, i) => i === index ? { ...row, variantId: e.target.value || undefined } : row))}
+                    className="col-span-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                  >
+                    <option value="">속성 조건</option>
+                    {variants.map(variant => <option key={variant._id} value={variant._id}>{variant.code}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    value={rule.attributeText || ''}
+                    disabled={!!rule.variantId}
+                    onChange={(e) => setSubstitutions(substitutions.map((row, i) => i === index ? { ...row, attributeText: e.target.value } : row))}
+                    placeholder="color=Red"
+                    className="col-span-3 px-2 py-1 text-sm border border-gray-300 rounded-md disabled:bg-gray-100"
+                  />
+                  <button type="button" onClick={() => setSubstitutions(substitutions.filter((_, i) => i !== index))} className="col-span-1 text-red-600 hover:text-red-900">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">특정 변형을 고르거나, 속성 조건(예: color=Red, size=L)에 모두 일치하는 변형에 적용됩니다.</p>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleSaveBOM}
+                disabled={bomLines.length === 0 || bomLines.some(line => !line.itemId || !line.unit)}
+                className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+              >
+                BOM 저장 (새 버전)
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-3xl w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editingTemplate ? '템플릿 수정' : '신규 템플릿 등록'}
+              </h3>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">템플릿코드 <span className="text-red-500">*</span></label>
+                  <input
+                    type="text"
+                    name="code"
+                    required
+                    maxLength={30}
+                    disabled={!!editingTemplate}
+                    defaultValue={editingTemplate?.code}
+                    placeholder="예: TS100"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">템플릿명 <span className="text-red-500">*</span></label>
+                  <input
+                    type="text"
+                    name="name"
+                    required
+                    defaultValue={editingTemplate?.name}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">카테고리 <span className="text-red-500">*</span></label>
+                  <select
+                    name="category"
+                    required
+                    disabled={!!editingTemplate}
+                    defaultValue={editingTemplate?.category}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+                  >
+                    <option value="">선택하세요</option>
+                    {Object.entries(categoryLabels).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">기준 단위 <span className="text-red-500">*</span></label>
+                  <select
+                    name="unit"
+                    required
+                    disabled={!!editingTemplate}
+                    defaultValue={editingTemplate?.unit}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+                  >
+                    <option value="">단위 선택</option>
+                    {units.map(unit => <option key={unit.code} value={unit.code}>{unit.code} ({unit.name})</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">판매가</label>
+                  <input type="number" name="price" min="0" step="0.01" defaultValue={editingTemplate?.price} className="w-full px-3 py-2 border border-gray-300 rounded-md" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">원가</label>
+                  <input type="number" name="cost" min="0" step="0.01" defaultValue={editingTemplate?.cost} className="w-full px-3 py-2 border border-gray-300 rounded-md" />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">설명</label>
+                  <textarea name="description" rows={2} defaultValue={editingTemplate?.description} className="w-full px-3 py-2 border border-gray-300 rounded-md" />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="text-sm font-medium text-gray-700">속성 정의</label>
+                  <button
+                    type="button"
+                    onClick={() => setAttributeRows([...attributeRows, { key: '', name: '', type: 'LIST', optionText: '', required: true }])}
+                    className="text-sm text-primary-600 hover:text-primary-900"
+                  >
+                    + 속성 추가
+                  </button>
+                </div>
+                {attributeRows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 mb-2 items-center">
+                    <input
+                      type="text"
+                      value={row.key}
+                      onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, key: e.target.value } : r))}
+                      placeholder="키 (color)"
+                      required
+                      className="col-span-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    />
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, name: e.target.value } : r))}
+                      placeholder="이름 (색상)"
+                      required
+                      className="col-span-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    />
+                    <select
+                      value={row.type}
+                      onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, type: e.target.value as AttributeType } : r))}
+                      className="col-span-2 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                    >
+                      {Object.entries(attributeTypeLabels).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                    <input
+                      type="text"
+                      value={row.optionText}
+                      disabled={row.type !== 'LIST'}
+                      onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, optionText: e.target.value } : r))}
+                      placeholder="Red:RD, Blue:BL"
+                      className="col-span-4 px-2 py-1 text-sm border border-gray-300 rounded-md disabled:bg-gray-100"
+                    />
+                    <label className="col-span-1 flex items-center text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={row.required}
+                        onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, required: e.target.checked } : r))}
+                        className="h-4 w-4 mr-1"
+                      />
+                      필수
+                    </label>
+                    <button type="button" onClick={() => setAttributeRows(attributeRows.filter((_, i) => i !== index))} className="col-span-1 text-red-600 hover:text-red-900">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">목록 값은 &quot;값:코드&quot; 형식으로 입력하며, 코드가 변형 품목코드에 붙습니다 (예: TS100-RD-L).</p>
+              </div>
+
+              <div className="flex justify-end space-x-4 pt-6">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false);
+                    setEditingTemplate(null);
+                  }}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                >
+                  취소
+                </button>
+                <button type="submit" className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors">
+                  {editingTemplate ? '수정' : '등록'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
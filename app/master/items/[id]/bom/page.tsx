@@ -0,0 +1,569 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, Plus, Trash2, ListTree, ChevronRight, ChevronDown, Edit } from 'lucide-react';
+import { useAuth } from '@/lib/auth-service';
+
+type BOMStatus = 'CURRENT' | 'SCHEDULED' | 'SUPERSEDED' | 'INACTIVE';
+
+interface BOMVersion {
+  _id: string;
+  bomNumber: string;
+  version: number;
+  outputQuantity: number;
+  effectiveDate: string;
+  isActive: boolean;
+  status: BOMStatus;
+  items: Array<{
+    itemId: { _id: string; code: string; name: string } | string;
+    quantity: number;
+    unit: string;
+  }>;
+}
+
+interface ExplosionRow {
+  level: number;
+  path: string;
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  unit?: string;
+  quantityPer: number;
+  totalQuantity: number;
+  substitutedFrom?: string;
+  hasChildren: boolean;
+}
+
+interface Requirement {
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  unit?: string;
+  quantity: number;
+}
+
+interface WhereUsedRow {
+  level: number;
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  bomNumber: string;
+  quantity: number;
+  templateCode?: string;
+}
+
+interface ItemOption {
+  _id: string;
+  code: string;
+  name: string;
+  unit: string;
+}
+
+interface BOMLine {
+  itemId: string;
+  quantity: number;
+  unit: string;
+}
+
+interface Draft {
+  mode: 'edit' | 'new';
+  outputQuantity: number;
+  effectiveDate: string;
+  lines: BOMLine[];
+}
+
+const statusLabels: Record<BOMStatus, { label: string; className: string }> = {
+  CURRENT: { label: '적용 중', className: 'bg-green-100 text-green-800' },
+  SCHEDULED: { label: '적용 예정', className: 'bg-blue-100 text-blue-800' },
+  SUPERSEDED: { label: '이전 버전', className: 'bg-gray-100 text-gray-800' },
+  INACTIVE: { label: '중단', className: 'bg-red-100 text-red-800' }
+};
+
+const toDateInput = (value: string | Date) => new Date(value).toISOString().slice(0, 10);
+
+export default function ItemBOMPage() {
+  const params = useParams();
+  const itemId = params.id as string;
+  const [item, setItem] = useState<ItemOption & { templateId?: string } | null>(null);
+  const [versions, setVersions] = useState<BOMVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState(1);
+  const [rows, setRows] = useState<ExplosionRow[]>([]);
+  const [requirements, setRequirements] = useState<Requirement[]>([]);
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [whereUsed, setWhereUsed] = useState<WhereUsedRow[]>([]);
+  const [templateBOM, setTemplateBOM] = useState<string | null>(null);
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [units, setUnits] = useState<Array<{ code: string; name: string }>>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  const selected = versions.find(version => version._id === selectedId) || null;
+
+  const fetchVersions = async (keepSelection?: string) => {
+    const response = await makeAuthenticatedRequest(`/api/boms?productId=${itemId}&limit=100`);
+    if (!response.ok) {
+      throw new Error('BOM 데이터를 불러오는데 실패했습니다.');
+    }
+    const list: BOMVersion[] = (await response.json()).data.boms;
+    setVersions(list);
+    const current = list.find(version => version.status === 'CURRENT');
+    setSelectedId(keepSelection || current?._id || list[0]?._id || null);
+  };
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const fetchPage = async () => {
+      try {
+        setLoading(true);
+        setDraft(null);
+        setCollapsed([]);
+        const [itemResponse, resolvedResponse, whereUsedResponse, optionResponse, unitResponse] = await Promise.all([
+          makeAuthenticatedRequest(`/api/items/${itemId}`),
+          makeAuthenticatedRequest(`/api/items/${itemId}/bom`),
+          makeAuthenticatedRequest(`/api/boms/where-used/${itemId}`),
+          makeAuthenticatedRequest('/api/items/dropdown/list'),
+          makeAuthenticatedRequest('/api/units')
+        ]);
+        if (!itemResponse.ok) {
+          throw new Error('품목 정보를 불러오는데 실패했습니다.');
+        }
+        setItem((await itemResponse.json()).data.item);
+        if (resolvedResponse.ok) {
+          const { bom } = (await resolvedResponse.json()).data;
+          setTemplateBOM(bom?.fromTemplate ? bom.bomNumber : null);
+        }
+        if (whereUsedResponse.ok) {
+          setWhereUsed((await whereUsedResponse.json()).data.parents);
+        }
+        if (optionResponse.ok) {
+          setItems((await optionResponse.json()).data.items);
+        }
+        if (unitResponse.ok) {
+          setUnits((await unitResponse.json()).data.units);
+        }
+        await fetchVersions();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPage();
+  }, [isAuthenticated, itemId]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setRows([]);
+      setRequirements([]);
+      return;
+    }
+
+    const fetchExplosion = async () => {
+      const response = await makeAuthenticatedRequest(`/api/boms/${selectedId}/explosion?quantity=${quantity}`);
+      const data = await response.json();
+      if (response.ok) {
+        setRows(data.data.rows);
+        setRequirements(data.data.requirements);
+      } else {
+        setRows([]);
+        setRequirements([]);
+        alert(data.message || 'BOM 전개에 실패했습니다.');
+      }
+    };
+
+    fetchExplosion();
+  }, [selectedId, quantity]);
+
+  const isHidden = (row: ExplosionRow) => collapsed.some(path => row.path.startsWith(`${path}.`));
+
+  const toggleRow = (path: string) => {
+    setCollapsed(collapsed.includes(path) ? collapsed.filter(p => p !== path) : [...collapsed, path]);
+  };
+
+  const startDraft = (mode: Draft['mode']) => {
+    setDraft({
+      mode,
+      outputQuantity: selected?.outputQuantity || 1,
+      effectiveDate: toDateInput(mode === 'edit' && selected ? selected.effectiveDate : new Date()),
+      lines: (selected?.items || []).map(line => ({
+        itemId: typeof line.itemId === 'string' ? line.itemId : line.itemId._id,
+        quantity: line.quantity,
+        unit: line.unit
+      }))
+    });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+
+    const payload = {
+      outputQuantity: draft.outputQuantity,
+      effectiveDate: draft.effectiveDate,
+      items: draft.lines
+    };
+
+    try {
+      const response = draft.mode === 'edit' && selected
+        ? await makeAuthenticatedRequest(`/api/boms/${selected._id}`, {
+            method: 'PATCH',
+            body: JSON.stringify(payload)
+          })
+        : await makeAuthenticatedRequest('/api/boms', {
+            method: 'POST',
+            body: JSON.stringify({ ...payload, productId: itemId })
+          });
+      const data = await response.json();
+
+      if (response.ok) {
+        setDraft(null);
+        await fetchVersions(data.data.bom._id);
+      } else {
+        alert(data.message || '저장에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Submit error:', error);
+      alert('저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const toggleActive = async (version: BOMVersion) => {
+    const action = version.isActive ? '중단' : '재사용';
+    if (!confirm(`'${version.bomNumber}' 버전을 ${action}하시겠습니까?`)) {
+      return;
+    }
+
+    const response = await makeAuthenticatedRequest(`/api/boms/${version._id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ isActive: !version.isActive })
+    });
+    if (response.ok) {
+      await fetchVersions(version._id);
+    } else {
+      const errorData = await response.json();
+      alert(errorData.message || `${action}에 실패했습니다.`);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<BOMLine>) => {
+    if (!draft) return;
+    setDraft({ ...draft, lines: draft.lines.map((line, i) => i === index ? { ...line, ...changes } : line) });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        <span className="ml-2 text-gray-600">로딩 중...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center p-8">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/master/items" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            품목 목록
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">BOM 관리 {item && `- ${item.code} ${item.name}`}</h1>
+          <p className="text-gray-600">버전별 적용일을 관리하고 하위 BOM까지 전개된 구성을 확인합니다.</p>
+        </div>
+        <button
+          onClick={() => startDraft('new')}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          새 버전
+        </button>
+      </div>
+
+      {templateBOM && (
+        <div className="bg-blue-50 border border-blue-200 rounded-md p-4 text-sm text-blue-800">
+          이 품목은 템플릿 BOM({templateBOM})을 사용합니다. 템플릿 BOM은{' '}
+          <Link href="/master/item-templates" className="underline">품목 템플릿</Link>에서 관리하며, 여기서 버전을 등록하면 이 변형에만 별도 BOM이 적용됩니다.
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">BOM 번호</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">버전</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">적용일</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">구성품 수</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">상태</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">작업</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {versions.map(version => (
+              <tr
+                key={version._id}
+                onClick={() => { setSelectedId(version._id); setDraft(null); setCollapsed([]); }}
+                className={`cursor-pointer hover:bg-gray-50 ${version._id === selectedId ? 'bg-primary-50' : ''}`}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{version.bomNumber}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">V{version.version}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{new Date(version.effectiveDate).toLocaleDateString('ko-KR')}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{version.items.length}</td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusLabels[version.status].className}`}>
+                    {statusLabels[version.status].label}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleActive(version); }}
+                    className={version.isActive ? 'text-red-600 hover:text-red-900' : 'text-primary-600 hover:text-primary-900'}
+                  >
+                    {version.isActive ? '중단' : '재사용'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {versions.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                  등록된 BOM이 없습니다.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {draft && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">
+            {draft.mode === 'edit' ? `${selected?.bomNumber} 수정` : '새 버전 등록'}
+          </h2>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">적용일</label>
+              <input
+                type="date"
+                value={draft.effectiveDate}
+                onChange={(e) => setDraft({ ...draft, effectiveDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">생산 수량 기준</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={draft.outputQuantity}
+                onChange={(e) => setDraft({ ...draft, outputQuantity: parseFloat(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-medium text-gray-700">구성품</label>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, lines: [...draft.lines, { itemId: '', quantity: 1, unit: '' }] })}
+                className="text-sm text-primary-600 hover:text-primary-900"
+              >
+                + 구성품 추가
+              </button>
+            </div>
+            {draft.lines.map((line, index) => (
+              <div key={index} className="flex items-center space-x-2 mb-2">
+                <select
+                  value={line.itemId}
+                  onChange={(e) => {
+                    const option = items.find(candidate => candidate._id === e.target.value);
+                    updateLine(index, { itemId: e.target.value, unit: line.unit || option?.unit || '' });
+                  }}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                >
+                  <option value="">품목 선택</option>
+                  {items.filter(option => option._id !== itemId).map(option => (
+                    <option key={option._id} value={option._id}>{option.code} {option.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                  className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+                <select
+                  value={line.unit}
+                  onChange={(e) => updateLine(index, { unit: e.target.value })}
+                  className="w-24 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                >
+                  <option value="">단위</option>
+                  {units.map(unit => <option key={unit.code} value={unit.code}>{unit.code}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-4">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              취소
+            </button>
+            <button
+              type="button"
+              onClick={saveDraft}
+              disabled={draft.lines.length === 0 || draft.lines.some(line => !line.itemId || !line.unit || line.quantity <= 0)}
+              className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              {draft.mode === 'edit' ? '수정' : '등록'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+            <div className="flex items-center">
+              <ListTree className="h-5 w-5 text-gray-500 mr-2" />
+              <h2 className="text-lg font-medium text-gray-900">{selected.bomNumber} 전개</h2>
+            </div>
+            <div className="flex items-center space-x-4">
+              <label className="text-sm text-gray-700">
+                생산 수량
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseFloat(e.target.value) || 1)}
+                  className="ml-2 w-24 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+              </label>
+              {(selected.status === 'SCHEDULED' || selected.status === 'INACTIVE') && (
+                <button
+                  onClick={() => startDraft('edit')}
+                  className="flex items-center text-sm text-primary-600 hover:text-primary-900"
+                >
+                  <Edit className="h-4 w-4 mr-1" />
+                  수정
+                </button>
+              )}
+            </div>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">레벨</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">단위 소요량</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">총 소요량</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">단위</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.filter(row => !isHidden(row)).map(row => (
+                <tr key={row.path}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                    <div className="flex items-center" style={{ paddingLeft: `${(row.level - 1) * 24}px` }}>
+                      {row.hasChildren ? (
+                        <button onClick={() => toggleRow(row.path)} className="text-gray-500 hover:text-gray-900 mr-1">
+                          {collapsed.includes(row.path) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </button>
+                      ) : (
+                        <span className="w-5" />
+                      )}
+                      <Link href={`/master/items/${row.itemId}/bom`} className="font-medium text-primary-600 hover:text-primary-900">
+                        {row.itemCode}
+                      </Link>
+                      <span className="ml-2 text-gray-600">{row.itemName}</span>
+                      {row.substitutedFrom && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">대체</span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{row.level}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">{row.quantityPer.toLocaleString()}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900 text-right">{row.totalQuantity.toLocaleString()}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{row.unit}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                    구성품이 없습니다.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {requirements.length > 0 && (
+            <div className="px-6 py-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">최하위 자재 소요 합계</h3>
+              <div className="flex flex-wrap gap-2">
+                {requirements.map(requirement => (
+                  <span key={requirement.itemId} className="border border-gray-200 rounded-md px-3 py-1 text-sm text-gray-700">
+                    {requirement.itemCode} {requirement.quantity.toLocaleString()} {requirement.unit}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">사용처 (Where-used)</h2>
+        </div>
+        <div className="p-6 space-y-1">
+          {whereUsed.map((row, index) => (
+            <div key={`${row.itemId}-${index}`} className="text-sm" style={{ paddingLeft: `${(row.level - 1) * 24}px` }}>
+              <Link href={`/master/items/${row.itemId}/bom`} className="font-medium text-primary-600 hover:text-primary-900">
+                {row.itemCode}
+              </Link>
+              <span className="ml-2 text-gray-600">{row.itemName}</span>
+              <span className="ml-2 text-gray-500">
+                {row.bomNumber} · 단위당 {row.quantity.toLocaleString()}
+                {row.templateCode && ` · 템플릿 ${row.templateCode}`}
+              </span>
+            </div>
+          ))}
+          {whereUsed.length === 0 && (
+            <p className="text-sm text-gray-500">이 품목을 사용하는 상위 품목이 없습니다.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,23 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Plus, Search, Edit, Trash2, Download } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Search, Edit, Trash2, Download, BarChart3, ListTree } from 'lucide-react';
 import { downloadExcel, ExcelColumn } from '@/lib/excel';
 import { useAuth } from '@/lib/auth-service';
 
+interface UnitConversion {
+  unit: string;
+  factor: number;
+}
+
+interface UnitOfMeasure {
+  _id: string;
+  code: string;
+  name: string;
+  category: string;
+}
+
 interface Item {
   _id: string;
   code: string;
@@ -17,12 +30,19 @@ interface Item {
     type: string;
   };
   unit: string;
+  unitConversions?: UnitConversion[];
   price: number;
   cost: number;
   minStock: number;
   maxStock: number;
   safetyStock: number;
+  reorderPoint?: number;
   leadTime: number;
+  expiryDays?: number;
+  pickingPolicy?: 'FIFO' | 'FEFO' | 'MANUAL';
+  isSerialControlled?: boolean;
+  abcClass?: 'A' | 'B' | 'C';
+  xyzClass?: 'X' | 'Y' | 'Z';
   specification?: string;
   description?: string;
   weight?: number;
@@ -61,23 +81,38 @@ export default function ItemsPage() {
       }
     };
 
+    const fetchUnits = async () => {
+      const response = await makeAuthenticatedRequest('/api/units');
+      if (response.ok) {
+        const data = await response.json();
+        setUnits(data.data.units);
+      }
+    };
+
     fetchItems();
+    fetchUnits();
   }, [isAuthenticated]);
   
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const [selectedClass, setSelectedClass] = useState<string>('');
+  const [classifying, setClassifying] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [editingItem, setEditingItem] = useState<Item | null>(null);
+  const [units, setUnits] = useState<UnitOfMeasure[]>([]);
+  const [conversions, setConversions] = useState<UnitConversion[]>([]);
 
   const filteredItems = items.filter(item => {
     const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.code.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCategory = !selectedCategory || item.category === selectedCategory;
-    return matchesSearch && matchesCategory;
+    const matchesClass = !selectedClass || item.abcClass === selectedClass || item.xyzClass === selectedClass;
+    return matchesSearch && matchesCategory && matchesClass;
   });
 
   const handleEdit = (item: Item) => {
     setEditingItem(item);
+    setConversions(item.unitConversions || []);
     setShowModal(true);
   };
 
@@ -109,12 +144,17 @@ export default function ItemsPage() {
       category: formData.get('category') as string,
       supplierId: formData.get('supplierId') as string,
       unit: formData.get('unit') as string,
+      unitConversions: conversions.filter(conversion => conversion.unit && conversion.factor > 0),
       price: parseFloat(formData.get('price') as string) || 0,
       cost: parseFloat(formData.get('cost') as string) || 0,
       minStock: parseInt(formData.get('minStock') as string) || 0,
       maxStock: parseInt(formData.get('maxStock') as string) || 0,
       safetyStock: parseInt(formData.get('safetyStock') as string) || 0,
+      reorderPoint: parseInt(formData.get('reorderPoint') as string) || 0,
       leadTime: parseInt(formData.get('leadTime') as string) || 1,
+      expiryDays: formData.get('expiryDays') ? parseInt(formData.get('expiryDays') as string) : undefined,
+      pickingPolicy: formData.get('pickingPolicy') as string,
+      isSerialControlled: formData.get('isSerialControlled') === 'on',
       specification: formData.get('specification') as string,
       description: formData.get('description') as string,
       isActive: true
@@ -155,6 +195,38 @@ export default function ItemsPage() {
     }
   };
 
+  const handleClassify = async () => {
+    if (!confirm('최근 12개월 출고 이력으로 ABC/XYZ 등급을 다시 분류하시겠습니까?')) {
+      return;
+    }
+
+    try {
+      setClassifying(true);
+      const response = await makeAuthenticatedRequest('/api/items/classification/run', {
+        method: 'POST',
+        body: JSON.stringify({})
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || '등급 분류에 실패했습니다.');
+      }
+
+      const { data } = await response.json();
+      alert(`분류 완료: A ${data.summary.A.itemCount}개, B ${data.summary.B.itemCount}개, C ${data.summary.C.itemCount}개`);
+
+      const itemsResponse = await makeAuthenticatedRequest('/api/items');
+      if (itemsResponse.ok) {
+        const itemsData = await itemsResponse.json();
+        setItems(itemsData.data.items);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '등급 분류 중 오류가 발생했습니다.');
+    } finally {
+      setClassifying(false);
+    }
+  };
+
   const handleExcelDownload = () => {
     const columns: ExcelColumn[] = [
       { key: 'code', label: '품목코드', width: 15 },
@@ -167,7 +239,10 @@ export default function ItemsPage() {
       { key: 'minStock', label: '최소재고', width: 12 },
       { key: 'maxStock', label: '최대재고', width: 12 },
       { key: 'safetyStock', label: '안전재고', width: 12 },
+      { key: 'reorderPoint', label: '재주문점', width: 12 },
       { key: 'leadTime', label: '리드타임', width: 10 },
+      { key: 'abcClass', label: 'ABC', width: 6 },
+      { key: 'xyzClass', label: 'XYZ', width: 6 },
       { key: 'isActive', label: '상태', width: 10 }
     ];
 
@@ -185,6 +260,14 @@ export default function ItemsPage() {
           <p className="text-gray-600">제품, 부품, 원자재 정보를 관리합니다.</p>
         </div>
         <div className="flex space-x-3">
+          <button
+            onClick={handleClassify}
+            disabled={classifying}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <BarChart3 className="h-4 w-4 mr-2" />
+            ABC/XYZ 분류
+          </button>
           <button
             onClick={handleExcelDownload}
             disabled={filteredItems.length === 0}
@@ -194,7 +277,10 @@ export default function ItemsPage() {
             엑셀 다운로드
           </button>
           <button
-            onClick={() => setShowModal(true)}
+            onClick={() => {
+              setConversions([]);
+              setShowModal(true);
+            }}
             className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -229,6 +315,21 @@ export default function ItemsPage() {
                 <option value="CONSUMABLE">소모품</option>
               </select>
             </div>
+            <div className="min-w-[160px]">
+              <select
+                value={selectedClass}
+                onChange={(e) => setSelectedClass(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">전체 등급</option>
+                <option value="A">A 등급</option>
+                <option value="B">B 등급</option>
+                <option value="C">C 등급</option>
+                <option value="X">X 등급</option>
+                <option value="Y">Y 등급</option>
+                <option value="Z">Z 등급</option>
+              </select>
+            </div>
           </div>
         </div>
 
@@ -270,6 +371,9 @@ export default function ItemsPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     최소재고
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    등급
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     상태
                   </th>
@@ -314,6 +418,9 @@ export default function ItemsPage() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {item.minStock}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.abcClass ? `${item.abcClass}${item.xyzClass || ''}` : '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                       item.isActive 
@@ -324,6 +431,13 @@ export default function ItemsPage() {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <Link
+                      href={`/master/items/${item._id}/bom`}
+                      className="inline-block text-gray-600 hover:text-gray-900 mr-3"
+                      title="BOM 관리"
+                    >
+                      <ListTree className="h-4 w-4" />
+                    </Link>
                     <button
                       onClick={() => handleEdit(item)}
                       className="text-primary-600 hover:text-primary-900 mr-3"
@@ -341,7 +455,7 @@ export default function ItemsPage() {
               ))}
               {filteredItems.length === 0 && (
                 <tr>
-                  <td colSpan={10} className="px-6 py-4 text-center text-gray-500">
+                  <td colSpan={11} className="px-6 py-4 text-center text-gray-500">
                     등록된 품목이 없습니다.
                   </td>
                 </tr>
@@ -422,14 +536,17 @@ export default function ItemsPage() {
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     단위 <span className="text-red-500">*</span>
                   </label>
-                  <input
-                    type="text"
+                  <select
                     name="unit"
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
                     defaultValue={editingItem?.unit}
-                    placeholder="예: EA, KG, L"
-                  />
+                  >
+                    <option value="">단위 선택</option>
+                    {units.map(unit => (
+                      <option key={unit._id} value={unit.code}>{unit.code} ({unit.name})</option>
+                    ))}
+                  </select>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -493,6 +610,18 @@ export default function ItemsPage() {
                     defaultValue={editingItem?.safetyStock}
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    재주문점
+                  </label>
+                  <input
+                    type="number"
+                    name="reorderPoint"
+                    min="0"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingItem?.reorderPoint}
+                  />
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     리드타임 (일)
@@ -505,6 +634,89 @@ export default function ItemsPage() {
                     defaultValue={editingItem?.leadTime || 1}
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    유효기간 (일)
+                  </label>
+                  <input
+                    type="number"
+                    name="expiryDays"
+                    min="0"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingItem?.expiryDays}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    출고 정책
+                  </label>
+                  <select
+                    name="pickingPolicy"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingItem?.pickingPolicy || 'FIFO'}
+                  >
+                    <option value="FIFO">선입선출 (FIFO)</option>
+                    <option value="FEFO">유효기간 우선 (FEFO)</option>
+                    <option value="MANUAL">배치 직접 지정</option>
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      name="isSerialControlled"
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                      defaultChecked={editingItem?.isSerialControlled}
+                    />
+                    <span>일련번호 관리 (완제품 개별 추적)</span>
+                  </label>
+                </div>
+                <div className="col-span-2">
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      단위 환산 (예: 1 BOX = 24 기준단위)
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setConversions([...conversions, { unit: '', factor: 1 }])}
+                      className="text-sm text-primary-600 hover:text-primary-900"
+                    >
+                      + 환산 추가
+                    </button>
+                  </div>
+                  {conversions.map((conversion, index) => (
+                    <div key={index} className="flex items-center space-x-2 mb-2">
+                      <span className="text-sm text-gray-500">1</span>
+                      <select
+                        value={conversion.unit}
+                        onChange={(e) => setConversions(conversions.map((row, i) => i === index ? { ...row, unit: e.target.value } : row))}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="">단위 선택</option>
+                        {units.map(unit => (
+                          <option key={unit._id} value={unit.code}>{unit.code}</option>
+                        ))}
+                      </select>
+                      <span className="text-sm text-gray-500">=</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={conversion.factor}
+                        onChange={(e) => setConversions(conversions.map((row, i) => i === index ? { ...row, factor: parseFloat(e.target.value) || 0 } : row))}
+                        className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <span className="text-sm text-gray-500">기준단위</span>
+                      <button
+                        type="button"
+                        onClick={() => setConversions(conversions.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
                 <div className="col-span-2">
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     사양/규격
@@ -0,0 +1,315 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Edit, Database } from 'lucide-react';
+import { useAuth } from '@/lib/auth-service';
+
+type UnitCategory = 'COUNT' | 'WEIGHT' | 'LENGTH' | 'AREA' | 'VOLUME' | 'TIME';
+
+interface UnitOfMeasure {
+  _id: string;
+  code: string;
+  name: string;
+  category: UnitCategory;
+  ratio: number;
+  isActive: boolean;
+}
+
+const unitCategoryLabels: Record<UnitCategory, string> = {
+  COUNT: '수량',
+  WEIGHT: '중량',
+  LENGTH: '길이',
+  AREA: '면적',
+  VOLUME: '부피',
+  TIME: '시간'
+};
+
+export default function UnitsPage() {
+  const [units, setUnits] = useState<UnitOfMeasure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingUnit, setEditingUnit] = useState<UnitOfMeasure | null>(null);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  const fetchUnits = async () => {
+    try {
+      setLoading(true);
+      const [activeResponse, inactiveResponse] = await Promise.all([
+        makeAuthenticatedRequest('/api/units'),
+        makeAuthenticatedRequest('/api/units?isActive=false')
+      ]);
+
+      if (!activeResponse.ok || !inactiveResponse.ok) {
+        throw new Error('단위 데이터를 불러오는데 실패했습니다.');
+      }
+
+      const activeData = await activeResponse.json();
+      const inactiveData = await inactiveResponse.json();
+      setUnits([...activeData.data.units, ...inactiveData.data.units]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchUnits();
+  }, [isAuthenticated]);
+
+  const handleRegisterDefaults = async () => {
+    try {
+      const response = await makeAuthenticatedRequest('/api/units/defaults', {
+        method: 'POST',
+        body: JSON.stringify({})
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '기본 단위 등록에 실패했습니다.');
+      }
+      alert(`기본 단위 ${result.data.units.length}개가 등록되었습니다.`);
+      fetchUnits();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '기본 단위 등록 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    // 코드와 분류는 등록 후 변경할 수 없다
+    const unitData = editingUnit
+      ? {
+          name: formData.get('name') as string,
+          ratio: parseFloat(formData.get('ratio') as string),
+          isActive: formData.get('isActive') === 'on'
+        }
+      : {
+          code: formData.get('code') as string,
+          name: formData.get('name') as string,
+          category: formData.get('category') as string,
+          ratio: parseFloat(formData.get('ratio') as string)
+        };
+
+    try {
+      const response = await makeAuthenticatedRequest(
+        editingUnit ? `/api/units/${editingUnit._id}` : '/api/units',
+        {
+          method: editingUnit ? 'PATCH' : 'POST',
+          body: JSON.stringify(unitData)
+        }
+      );
+
+      if (response.ok) {
+        setShowModal(false);
+        setEditingUnit(null);
+        alert(editingUnit ? '단위가 수정되었습니다.' : '단위가 등록되었습니다.');
+        fetchUnits();
+      } else {
+        const errorData = await response.json();
+        alert(errorData.message || '저장에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Submit error:', error);
+      alert('저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const categories = Object.keys(unitCategoryLabels) as UnitCategory[];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">단위 관리</h1>
+          <p className="text-gray-600">분류별 단위와 기준 단위 대비 환산 비율을 관리합니다. 포장 단위(BOX 등)의 환산은 품목별로 등록합니다.</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={handleRegisterDefaults}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Database className="h-4 w-4 mr-2" />
+            기본 단위 등록
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            신규 등록
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          <span className="ml-2 text-gray-600">로딩 중...</span>
+        </div>
+      ) : error ? (
+        <div className="text-center p-8">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : units.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          등록된 단위가 없습니다. 기본 단위 등록으로 표준 단위를 추가하세요.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {categories.filter(category => units.some(unit => unit.category === category)).map(category => (
+            <div key={category} className="bg-white rounded-lg shadow overflow-hidden">
+              <div className="px-6 py-3 border-b border-gray-200 bg-gray-50">
+                <h2 className="text-sm font-medium text-gray-900">{unitCategoryLabels[category]}</h2>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">코드</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">단위명</th>
+                    <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">기준 대비 비율</th>
+                    <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">관리</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {units.filter(unit => unit.category === category).map(unit => (
+                    <tr key={unit._id} className={unit.isActive ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-400'}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">
+                        {unit.code}
+                        {!unit.isActive && <span className="ml-2 text-xs">(중단)</span>}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm">{unit.name}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right">{unit.ratio.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => {
+                            setEditingUnit(unit);
+                            setShowModal(true);
+                          }}
+                          className="text-primary-600 hover:text-primary-900"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editingUnit ? '단위 수정' : '신규 단위 등록'}
+              </h3>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    단위코드 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    name="code"
+                    required
+                    maxLength={20}
+                    disabled={!!editingUnit}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                    defaultValue={editingUnit?.code}
+                    placeholder="예: BOX"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    단위명 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    name="name"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingUnit?.name}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    분류 <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    name="category"
+                    required
+                    disabled={!!editingUnit}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+                    defaultValue={editingUnit?.category}
+                  >
+                    <option value="">선택하세요</option>
+                    {categories.map(category => (
+                      <option key={category} value={category}>{unitCategoryLabels[category]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    기준 대비 비율 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    name="ratio"
+                    required
+                    min="0"
+                    step="any"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingUnit?.ratio ?? 1}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">예: 기준 KG일 때 G = 0.001</p>
+                </div>
+                {editingUnit && (
+                  <div className="col-span-2">
+                    <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                      <input
+                        type="checkbox"
+                        name="isActive"
+                        className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                        defaultChecked={editingUnit.isActive}
+                      />
+                      <span>사용</span>
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-4 pt-6">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false);
+                    setEditingUnit(null);
+                  }}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                >
+                  취소
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+                >
+                  {editingUnit ? '수정' : '등록'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
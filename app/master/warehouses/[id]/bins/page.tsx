@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, Plus, Trash2, MapPin } from 'lucide-react';
+import { useAuth } from '@/lib/auth-service';
+
+interface BinNode {
+  _id: string;
+  bin: string;
+  code: string;
+  capacity?: number;
+  allowedCategories: string[];
+  occupiedQuantity: number;
+}
+
+interface ZoneNode {
+  zone: string;
+  aisles: Array<{
+    aisle: string;
+    racks: Array<{
+      rack: string;
+      bins: BinNode[];
+    }>;
+  }>;
+}
+
+const categoryLabels: Record<string, string> = {
+  RAW_MATERIAL: '원자재',
+  COMPONENT: '부품',
+  FINISHED_PRODUCT: '완제품',
+  CONSUMABLE: '소모품'
+};
+
+export default function WarehouseBinsPage() {
+  const params = useParams();
+  const warehouseId = params.id as string;
+  const [warehouseName, setWarehouseName] = useState('');
+  const [zones, setZones] = useState<ZoneNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  const fetchTree = async () => {
+    try {
+      setLoading(true);
+      const response = await makeAuthenticatedRequest(`/api/inventory/warehouses/${warehouseId}/bins/tree`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setWarehouseName(data.data.warehouse.name);
+        setZones(data.data.zones);
+      } else {
+        throw new Error('로케이션 데이터를 불러오는데 실패했습니다.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchTree();
+  }, [isAuthenticated, warehouseId]);
+
+  const handleDelete = async (bin: BinNode) => {
+    if (!confirm(`'${bin.code}' 로케이션을 삭제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/inventory/warehouses/${warehouseId}/bins/${bin._id}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        await fetchTree();
+      } else {
+        const errorData = await response.json();
+        alert(errorData.message || '삭제에 실패했습니다.');
+      }
+    } catch (error) {
+      alert('삭제 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    const capacity = formData.get('capacity') as string;
+    const binData = {
+      zone: formData.get('zone') as string,
+      aisle: formData.get('aisle') as string,
+      rack: formData.get('rack') as string,
+      bin: formData.get('bin') as string,
+      capacity: capacity ? parseFloat(capacity) : undefined,
+      allowedCategories: formData.getAll('allowedCategories') as string[],
+      description: formData.get('description') as string
+    };
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/inventory/warehouses/${warehouseId}/bins`, {
+        method: 'POST',
+        body: JSON.stringify(binData)
+      });
+
+      if (response.ok) {
+        setShowModal(false);
+        await fetchTree();
+      } else {
+        const errorData = await response.json();
+        alert(errorData.message || '저장에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Submit error:', error);
+      alert('저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link href="/master/warehouses" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            창고 목록
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">로케이션 관리 {warehouseName && `- ${warehouseName}`}</h1>
+          <p className="text-gray-600">구역 → 통로 → 랙 → 빈 단위로 적치 위치를 관리합니다.</p>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          로케이션 등록
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          <span className="ml-2 text-gray-600">로딩 중...</span>
+        </div>
+      ) : error ? (
+        <div className="text-center p-8">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : zones.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          <MapPin className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2">등록된 로케이션이 없습니다.</p>
+        </div>
+      ) : (
+        zones.map(zone => (
+          <div key={zone.zone} className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">구역 {zone.zone}</h3>
+            </div>
+            <div className="p-6 space-y-4">
+              {zone.aisles.map(aisle => (
+                <div key={aisle.aisle}>
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">통로 {aisle.aisle}</h4>
+                  <div className="space-y-2 pl-4">
+                    {aisle.racks.map(rack => (
+                      <div key={rack.rack} className="flex items-start">
+                        <span className="w-16 text-sm text-gray-500 pt-2">랙 {rack.rack}</span>
+                        <div className="flex flex-wrap gap-2">
+                          {rack.bins.map(bin => {
+                            const usage = bin.capacity ? bin.occupiedQuantity / bin.capacity : 0;
+                            return (
+                              <div
+                                key={bin._id}
+                                className={`border rounded-md px-3 py-2 text-sm min-w-[140px] ${
+                                  bin.occupiedQuantity === 0 ? 'border-gray-200 bg-gray-50' :
+                                  usage >= 0.9 ? 'border-red-300 bg-red-50' : 'border-green-300 bg-green-50'
+                                }`}
+                              >
+                                <div className="flex justify-between items-center">
+                                  <span className="font-medium text-gray-900">{bin.code}</span>
+                                  <button
+                                    onClick={() => handleDelete(bin)}
+                                    className="text-red-600 hover:text-red-900 ml-2"
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </button>
+                                </div>
+                                <div className="text-gray-600">
+                                  {bin.occupiedQuantity.toLocaleString()}
+                                  {bin.capacity !== undefined && ` / ${bin.capacity.toLocaleString()}`}
+                                </div>
+                                {bin.allowedCategories.length > 0 && (
+                                  <div className="text-xs text-gray-500">
+                                    {bin.allowedCategories.map(c => categoryLabels[c] || c).join(', ')}
+                                  </div>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">신규 로케이션 등록</h3>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-4 gap-4">
+                {[
+                  { name: 'zone', label: '구역' },
+                  { name: 'aisle', label: '통로' },
+                  { name: 'rack', label: '랙' },
+                  { name: 'bin', label: '빈' }
+                ].map(field => (
+                  <div key={field.name}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {field.label} <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      name={field.name}
+                      required
+                      maxLength={10}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  적재 용량 (비워두면 제한 없음)
+                </label>
+                <input
+                  type="number"
+                  name="capacity"
+                  min="0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  허용 품목 카테고리 (선택하지 않으면 전체 허용)
+                </label>
+                <div className="flex flex-wrap gap-4">
+                  {Object.entries(categoryLabels).map(([value, label]) => (
+                    <label key={value} className="inline-flex items-center text-sm text-gray-700">
+                      <input type="checkbox" name="allowedCategories" value={value} className="mr-2" />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  설명
+                </label>
+                <textarea
+                  name="description"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-4 pt-6">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                >
+                  취소
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+                >
+                  등록
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
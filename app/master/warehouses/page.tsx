@@ -0,0 +1,472 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Plus, Search, Edit, Trash2, Download, MapPin } from 'lucide-react';
+import { downloadExcel, ExcelColumn } from '@/lib/excel';
+import { useAuth } from '@/lib/auth-service';
+
+type WarehouseType = 'RAW_MATERIAL' | 'WIP' | 'FINISHED_GOODS' | 'QUARANTINE';
+
+interface Warehouse {
+  _id: string;
+  code: string;
+  name: string;
+  type: WarehouseType;
+  address?: string;
+  managerName?: string;
+  phone?: string;
+  description?: string;
+  allowNegativeStock?: boolean;
+  isActive: boolean;
+}
+
+const warehouseTypeLabels: Record<WarehouseType, string> = {
+  RAW_MATERIAL: '원자재',
+  WIP: '재공품',
+  FINISHED_GOODS: '완제품',
+  QUARANTINE: '격리'
+};
+
+const warehouseTypeColors: Record<WarehouseType, string> = {
+  RAW_MATERIAL: 'bg-blue-100 text-blue-800',
+  WIP: 'bg-yellow-100 text-yellow-800',
+  FINISHED_GOODS: 'bg-purple-100 text-purple-800',
+  QUARANTINE: 'bg-red-100 text-red-800'
+};
+
+export default function WarehousesPage() {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const fetchWarehouses = async () => {
+      try {
+        setLoading(true);
+        const response = await makeAuthenticatedRequest('/api/inventory/warehouses?limit=100');
+
+        if (response.ok) {
+          const data = await response.json();
+          setWarehouses(data.data.warehouses);
+        } else {
+          throw new Error('창고 데이터를 불러오는데 실패했습니다.');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWarehouses();
+  }, [isAuthenticated]);
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedType, setSelectedType] = useState<string>('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingWarehouse, setEditingWarehouse] = useState<Warehouse | null>(null);
+
+  const filteredWarehouses = warehouses.filter(warehouse => {
+    const matchesSearch = warehouse.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         warehouse.code.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesType = !selectedType || warehouse.type === selectedType;
+    return matchesSearch && matchesType;
+  });
+
+  const handleEdit = (warehouse: Warehouse) => {
+    setEditingWarehouse(warehouse);
+    setShowModal(true);
+  };
+
+  const handleDelete = async (warehouse: Warehouse) => {
+    if (!confirm(`'${warehouse.name}' 창고를 삭제하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/inventory/warehouses/${warehouse._id}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        setWarehouses(warehouses.filter(w => w._id !== warehouse._id));
+      } else {
+        // 재고가 남아있는 창고는 서버에서 삭제를 거부한다
+        const errorData = await response.json();
+        alert(errorData.message || '삭제에 실패했습니다.');
+      }
+    } catch (error) {
+      alert('삭제 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.target as HTMLFormElement);
+    const warehouseData = {
+      code: formData.get('code') as string,
+      name: formData.get('name') as string,
+      type: formData.get('type') as string,
+      address: formData.get('address') as string,
+      managerName: formData.get('managerName') as string,
+      phone: formData.get('phone') as string,
+      description: formData.get('description') as string,
+      allowNegativeStock: formData.get('allowNegativeStock') === 'on'
+    };
+
+    try {
+      const url = editingWarehouse
+        ? `/api/inventory/warehouses/${editingWarehouse._id}`
+        : '/api/inventory/warehouses';
+      const method = editingWarehouse ? 'PATCH' : 'POST';
+
+      const response = await makeAuthenticatedRequest(url, {
+        method,
+        body: JSON.stringify(warehouseData)
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+
+        if (editingWarehouse) {
+          setWarehouses(warehouses.map(w =>
+            w._id === editingWarehouse._id ? result.data.warehouse : w
+          ));
+        } else {
+          setWarehouses([...warehouses, result.data.warehouse]);
+        }
+
+        setShowModal(false);
+        setEditingWarehouse(null);
+        alert(editingWarehouse ? '창고가 수정되었습니다.' : '창고가 등록되었습니다.');
+      } else {
+        const errorData = await response.json();
+        alert(errorData.message || '저장에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('Submit error:', error);
+      alert('저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleExcelDownload = () => {
+    const columns: ExcelColumn[] = [
+      { key: 'code', label: '창고코드', width: 15 },
+      { key: 'name', label: '창고명', width: 25 },
+      { key: 'type', label: '유형', width: 15 },
+      { key: 'managerName', label: '담당자', width: 15 },
+      { key: 'phone', label: '연락처', width: 15 },
+      { key: 'address', label: '주소', width: 40 },
+      { key: 'isActive', label: '상태', width: 10 }
+    ];
+
+    const success = downloadExcel(filteredWarehouses, columns, '창고목록');
+    if (!success) {
+      alert('엑셀 다운로드에 실패했습니다.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">창고 관리</h1>
+          <p className="text-gray-600">원자재, 재공품, 완제품, 격리 창고 정보를 관리합니다.</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={handleExcelDownload}
+            disabled={filteredWarehouses.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            엑셀 다운로드
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            신규 등록
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <input
+                type="text"
+                placeholder="창고명 또는 창고코드로 검색"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <div className="min-w-[200px]">
+              <select
+                value={selectedType}
+                onChange={(e) => setSelectedType(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">전체 유형</option>
+                {Object.entries(warehouseTypeLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          {loading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              <span className="ml-2 text-gray-600">로딩 중...</span>
+            </div>
+          ) : error ? (
+            <div className="text-center p-8">
+              <p className="text-red-600">{error}</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    창고코드
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    창고명
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    유형
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    담당자
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    주소
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    상태
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    관리
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredWarehouses.map((warehouse) => (
+                  <tr key={warehouse._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {warehouse.code}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {warehouse.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${warehouseTypeColors[warehouse.type]}`}>
+                        {warehouseTypeLabels[warehouse.type]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <div>{warehouse.managerName || '-'}</div>
+                      {warehouse.phone && (
+                        <div className="text-gray-500">{warehouse.phone}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {warehouse.address || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        warehouse.isActive
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}>
+                        {warehouse.isActive ? '사용' : '중단'}
+                      </span>
+                      {warehouse.allowNegativeStock && (
+                        <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                          마이너스 허용
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <Link
+                        href={`/master/warehouses/${warehouse._id}/bins`}
+                        className="inline-block text-gray-600 hover:text-gray-900 mr-3"
+                        title="로케이션 관리"
+                      >
+                        <MapPin className="h-4 w-4" />
+                      </Link>
+                      <button
+                        onClick={() => handleEdit(warehouse)}
+                        className="text-primary-600 hover:text-primary-900 mr-3"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(warehouse)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {filteredWarehouses.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-4 text-center text-gray-500">
+                      등록된 창고가 없습니다.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-screen overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editingWarehouse ? '창고 수정' : '신규 창고 등록'}
+              </h3>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    창고코드 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    name="code"
+                    required
+                    maxLength={20}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingWarehouse?.code}
+                    placeholder="예: WH-RM01"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    창고명 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    name="name"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingWarehouse?.name}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    유형 <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    name="type"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingWarehouse?.type}
+                  >
+                    <option value="">선택하세요</option>
+                    {Object.entries(warehouseTypeLabels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    담당자
+                  </label>
+                  <input
+                    type="text"
+                    name="managerName"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingWarehouse?.managerName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    연락처
+                  </label>
+                  <input
+                    type="text"
+                    name="phone"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingWarehouse?.phone}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    주소
+                  </label>
+                  <input
+                    type="text"
+                    name="address"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingWarehouse?.address}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    설명
+                  </label>
+                  <textarea
+                    name="description"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    defaultValue={editingWarehouse?.description}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      name="allowNegativeStock"
+                      defaultChecked={editingWarehouse?.allowNegativeStock}
+                      className="mr-2"
+                    />
+                    마이너스 재고 허용 (입고 처리 전 출고를 먼저 등록할 수 있음)
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-4 pt-6">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowModal(false);
+                    setEditingWarehouse(null);
+                  }}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                >
+                  취소
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+                >
+                  {editingWarehouse ? '수정' : '등록'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
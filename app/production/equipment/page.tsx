@@ -1,26 +1,508 @@
 'use client';
 
-import React from 'react';
-import { Settings } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Settings, Plus, Edit, Trash2, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { useAuth } from '@/lib/auth-service';
+
+interface Shift {
+  name: string;
+  startTime: string;
+  endTime: string;
+  breakMinutes: number;
+  days: number[];
+}
+
+interface WorkCenter {
+  _id: string;
+  code: string;
+  name: string;
+  dailyCapacity: number;
+  shifts: Shift[];
+  holidays: string[];
+  efficiency: number;
+  parallelCapacity: number;
+  description?: string;
+  isActive: boolean;
+}
+
+const weekdayLabels = ['일', '월', '화', '수', '목', '금', '토'];
+
+const emptyShift = (): Shift => ({ name: 'DAY', startTime: '08:00', endTime: '17:00', breakMinutes: 60, days: [1, 2, 3, 4, 5] });
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// 서버의 가용시간 계산과 같은 방식: 교대 시간에서 휴게를 빼고 병렬 설비 수와 효율을 곱함
+const weeklyHours = (center: Pick<WorkCenter, 'shifts' | 'efficiency' | 'parallelCapacity'>) => {
+  const minutes = center.shifts.reduce((total, shift) => {
+    const length = (minutesOf(shift.endTime) - minutesOf(shift.startTime) + 1440) % 1440 || 1440;
+    return total + Math.max(0, length - shift.breakMinutes) * shift.days.length;
+  }, 0);
+  return Math.round(minutes * center.parallelCapacity * center.efficiency / 100 / 60 * 10) / 10;
+};
 
 export default function EquipmentPage() {
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [editing, setEditing] = useState<WorkCenter | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchWorkCenters();
+  }, [isAuthenticated]);
+
+  const fetchWorkCenters = async () => {
+    try {
+      setLoading(true);
+      const response = await makeAuthenticatedRequest('/api/production/work-centers');
+      if (!response.ok) {
+        throw new Error('작업장 데이터를 불러오는데 실패했습니다.');
+      }
+      const data = await response.json();
+      setWorkCenters(data.data.workCenters || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeactivate = async (center: WorkCenter) => {
+    if (!confirm(`'${center.code}' 작업장을 비활성화하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/production/work-centers/${center._id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ isActive: false })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '비활성화에 실패했습니다.');
+      }
+      await fetchWorkCenters();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-semibold text-gray-900">설비 관리</h1>
-          <p className="mt-1 text-sm text-gray-500">생산설비를 관리합니다</p>
+          <p className="mt-1 text-sm text-gray-500">작업장별 교대 근무, 휴무일, 효율, 병렬 설비 수를 관리합니다. 일정계획과 능력 부하는 이 가용시간을 기준으로 계산됩니다</p>
         </div>
+        <button
+          onClick={() => {
+            setEditing(null);
+            setShowModal(true);
+          }}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          작업장 등록
+        </button>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
       <div className="bg-white shadow rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
+        {loading ? (
+          <div className="p-12 text-center text-sm text-gray-500">불러오는 중...</div>
+        ) : workCenters.length === 0 ? (
           <div className="text-center py-12">
             <Settings className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">준비 중입니다</h3>
-            <p className="mt-1 text-sm text-gray-500">이 기능은 현재 개발 중입니다.</p>
+            <h3 className="mt-2 text-sm font-medium text-gray-900">등록된 작업장이 없습니다</h3>
+            <p className="mt-1 text-sm text-gray-500">작업장을 등록하면 라우팅과 생산계획에서 선택할 수 있습니다.</p>
           </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">작업장</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">교대 근무</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">효율(%)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">병렬 설비</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">주간 가용시간</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">일 생산능력</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">휴무일</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">작업</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {workCenters.map((center) => (
+                <tr key={center._id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    <div className="font-medium">{center.code}</div>
+                    <div className="text-gray-500">{center.name}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {center.shifts.map((shift) => (
+                      <div key={shift.name} className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1 text-gray-400" />
+                        {shift.name} {shift.startTime}~{shift.endTime}
+                        <span className="ml-1 text-gray-500">({shift.days.map(day => weekdayLabels[day]).join('')})</span>
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">{center.efficiency}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">{center.parallelCapacity}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">{weeklyHours(center)}시간</td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">{center.dailyCapacity.toLocaleString()}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">{center.holidays.length}일</td>
+                  <td className="px-6 py-4 text-right space-x-2">
+                    <button
+                      onClick={() => {
+                        setEditing(center);
+                        setShowModal(true);
+                      }}
+                      className="text-primary-600 hover:text-primary-900"
+                      title="수정"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeactivate(center)}
+                      className="text-red-600 hover:text-red-900"
+                      title="비활성화"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showModal && (
+        <WorkCenterModal
+          workCenter={editing}
+          onClose={() => setShowModal(false)}
+          onSuccess={() => {
+            setShowModal(false);
+            fetchWorkCenters();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// 작업장 등록/수정 모달
+function WorkCenterModal({ workCenter, onClose, onSuccess }: {
+  workCenter: WorkCenter | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}) {
+  const { makeAuthenticatedRequest } = useAuth();
+  const [form, setForm] = useState({
+    code: workCenter?.code || '',
+    name: workCenter?.name || '',
+    dailyCapacity: String(workCenter?.dailyCapacity ?? ''),
+    efficiency: String(workCenter?.efficiency ?? 100),
+    parallelCapacity: String(workCenter?.parallelCapacity ?? 1),
+    description: workCenter?.description || ''
+  });
+  const [shifts, setShifts] = useState<Shift[]>(workCenter?.shifts.length ? workCenter.shifts : [emptyShift()]);
+  const [holidays, setHolidays] = useState<string[]>(
+    (workCenter?.holidays || []).map(holiday => format(new Date(holiday), 'yyyy-MM-dd'))
+  );
+  const [newHoliday, setNewHoliday] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const updateShift = (index: number, field: keyof Shift, value: string | number | number[]) => {
+    setShifts(prev => prev.map((shift, i) => (i === index ? { ...shift, [field]: value } : shift)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = shifts[index].days;
+    updateShift(index, 'days', days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort());
+  };
+
+  const addHoliday = () => {
+    if (newHoliday && !holidays.includes(newHoliday)) {
+      setHolidays(prev => [...prev, newHoliday].sort());
+    }
+    setNewHoliday('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await makeAuthenticatedRequest(
+        workCenter ? `/api/production/work-centers/${workCenter._id}` : '/api/production/work-centers',
+        {
+          method: workCenter ? 'PATCH' : 'POST',
+          body: JSON.stringify({
+            code: form.code,
+            name: form.name,
+            dailyCapacity: Number(form.dailyCapacity),
+            efficiency: Number(form.efficiency),
+            parallelCapacity: Number(form.parallelCapacity),
+            description: form.description || undefined,
+            shifts: shifts.map(shift => ({ ...shift, breakMinutes: Number(shift.breakMinutes) })),
+            holidays
+          })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '작업장 저장에 실패했습니다.');
+      }
+      onSuccess();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '저장 중 오류가 발생했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-screen overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">{workCenter ? '작업장 수정' : '작업장 등록'}</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            주간 가용시간: {weeklyHours({ shifts, efficiency: Number(form.efficiency) || 0, parallelCapacity: Number(form.parallelCapacity) || 0 })}시간
+          </p>
         </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                코드 <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                이름 <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                일 생산능력 <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                min="0.01"
+                step="any"
+                value={form.dailyCapacity}
+                onChange={(e) => setForm({ ...form, dailyCapacity: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">효율(%)</label>
+              <input
+                type="number"
+                min="1"
+                max="200"
+                value={form.efficiency}
+                onChange={(e) => setForm({ ...form, efficiency: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">병렬 설비 수</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={form.parallelCapacity}
+                onChange={(e) => setForm({ ...form, parallelCapacity: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">설명</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-gray-900">교대 근무</h4>
+              <button
+                type="button"
+                onClick={() => setShifts(prev => [...prev, { ...emptyShift(), name: `SHIFT${prev.length + 1}` }])}
+                className="flex items-center text-sm text-primary-600 hover:text-primary-800"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                교대 추가
+              </button>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">이름</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">시작</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">종료</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">휴게(분)</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">요일</th>
+                  <th className="px-2 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {shifts.map((shift, index) => (
+                  <tr key={index}>
+                    <td className="px-2 py-2">
+                      <input
+                        type="text"
+                        value={shift.name}
+                        onChange={(e) => updateShift(index, 'name', e.target.value)}
+                        required
+                        className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="time"
+                        value={shift.startTime}
+                        onChange={(e) => updateShift(index, 'startTime', e.target.value)}
+                        required
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="time"
+                        value={shift.endTime}
+                        onChange={(e) => updateShift(index, 'endTime', e.target.value)}
+                        required
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        value={shift.breakMinutes}
+                        onChange={(e) => updateShift(index, 'breakMinutes', Number(e.target.value))}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <div className="flex space-x-1">
+                        {weekdayLabels.map((label, day) => (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleDay(index, day)}
+                            className={`w-7 h-7 text-xs rounded-full ${
+                              shift.days.includes(day) ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-600'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-2 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setShifts(prev => prev.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-900"
+                        title="삭제"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">휴무일</h4>
+            <div className="flex items-center space-x-2 mb-2">
+              <input
+                type="date"
+                value={newHoliday}
+                onChange={(e) => setNewHoliday(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <button
+                type="button"
+                onClick={addHoliday}
+                className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                추가
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {holidays.map((holiday) => (
+                <span key={holiday} className="inline-flex items-center px-2 py-1 text-xs bg-gray-100 rounded-full">
+                  {format(new Date(holiday), 'yyyy-MM-dd (EEE)', { locale: ko })}
+                  <button
+                    type="button"
+                    onClick={() => setHolidays(prev => prev.filter(h => h !== holiday))}
+                    className="ml-1 text-gray-500 hover:text-red-600"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? '저장 중...' : '저장'}
+            </button>
+          </div>
+        </form>
       </div>
     </div>
   );
@@ -0,0 +1,526 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/lib/auth-service';
+import { Calculator, CheckCircle, AlertTriangle, Search, Link2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+
+type DemandType = 'SALES_ORDER' | 'PRODUCTION_PLAN' | 'WORK_ORDER' | 'SAFETY_STOCK';
+
+interface Peg {
+  demandType: DemandType;
+  sourceNumber: string;
+  demandItemCode: string;
+  demandDate: string;
+  quantity: number;
+  parentItemCode?: string;
+}
+
+interface PlannedOrder {
+  _id: string;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  level: number;
+  orderType: 'PURCHASE' | 'PRODUCTION';
+  quantity: number;
+  releaseDate: string;
+  dueDate: string;
+  isLate: boolean;
+  supplierId?: { _id: string; name: string };
+  pegging: Peg[];
+  status: 'PLANNED' | 'FIRMED';
+  firmedNumber?: string;
+}
+
+interface ItemSummary {
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  level: number;
+  grossRequirement: number;
+  availableQuantity: number;
+  scheduledReceipts: number;
+  safetyStock: number;
+  plannedQuantity: number;
+}
+
+interface MrpRun {
+  _id: string;
+  runNumber: string;
+  runDate: string;
+  horizonDate: string;
+  includeSafetyStock: boolean;
+  plannedOrders: PlannedOrder[];
+  items: ItemSummary[];
+  warnings: string[];
+}
+
+interface RunSummary {
+  _id: string;
+  runNumber: string;
+  runDate: string;
+  plannedOrderCount: number;
+  firmedOrderCount: number;
+}
+
+interface PeggingRow extends Peg {
+  plannedOrderId: string;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  orderType: 'PURCHASE' | 'PRODUCTION';
+  plannedQuantity: number;
+  dueDate: string;
+  status: 'PLANNED' | 'FIRMED';
+  firmedNumber?: string;
+}
+
+const demandLabels: Record<DemandType, string> = {
+  SALES_ORDER: '수주',
+  PRODUCTION_PLAN: '생산계획',
+  WORK_ORDER: '작업지시',
+  SAFETY_STOCK: '안전재고'
+};
+
+const orderTypeLabels = {
+  PURCHASE: '구매',
+  PRODUCTION: '생산'
+};
+
+const formatDate = (dateString?: string) => {
+  return dateString ? format(new Date(dateString), 'yyyy-MM-dd', { locale: ko }) : '-';
+};
+
+export default function MrpPage() {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [run, setRun] = useState<MrpRun | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [activeOrder, setActiveOrder] = useState<PlannedOrder | null>(null);
+  const [horizonDays, setHorizonDays] = useState('90');
+  const [includeSafetyStock, setIncludeSafetyStock] = useState(true);
+  const [demandNumber, setDemandNumber] = useState('');
+  const [peggingRows, setPeggingRows] = useState<PeggingRow[] | null>(null);
+  const [tab, setTab] = useState<'ORDERS' | 'ITEMS'>('ORDERS');
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchRuns();
+  }, [isAuthenticated]);
+
+  const fetchRuns = async (runId?: string) => {
+    try {
+      setLoading(true);
+      const response = await makeAuthenticatedRequest('/api/production/mrp/runs?limit=20');
+      if (!response.ok) {
+        throw new Error('MRP 실행 이력을 불러오는데 실패했습니다.');
+      }
+
+      const data = await response.json();
+      const list: RunSummary[] = data.data.runs || [];
+      setRuns(list);
+      const target = runId || list[0]?._id;
+      if (target) {
+        await fetchRun(target);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRun = async (runId: string) => {
+    const response = await makeAuthenticatedRequest(`/api/production/mrp/runs/${runId}`);
+    if (!response.ok) {
+      throw new Error('MRP 실행 결과를 불러오는데 실패했습니다.');
+    }
+
+    const data = await response.json();
+    setRun(data.data.run);
+    setSelected({});
+    setActiveOrder(null);
+    setPeggingRows(null);
+  };
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      const response = await makeAuthenticatedRequest('/api/production/mrp/runs', {
+        method: 'POST',
+        body: JSON.stringify({ horizonDays: Number(horizonDays), includeSafetyStock })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'MRP 실행에 실패했습니다.');
+      }
+
+      await fetchRuns(data.data.run._id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'MRP 실행 중 오류가 발생했습니다.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // One click turns the chosen planned orders into draft purchase requests and work orders
+  const handleFirm = async (all: boolean) => {
+    if (!run) return;
+    const plannedOrderIds = Object.keys(selected).filter(id => selected[id]);
+    if (!all && plannedOrderIds.length === 0) {
+      alert('확정할 계획오더를 선택하세요.');
+      return;
+    }
+    if (!confirm(all ? '미확정 계획오더를 모두 확정하시겠습니까?' : `선택한 계획오더 ${plannedOrderIds.length}건을 확정하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/production/mrp/runs/${run._id}/firm`, {
+        method: 'POST',
+        body: JSON.stringify(all ? {} : { plannedOrderIds })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '계획오더 확정에 실패했습니다.');
+      }
+
+      alert(`구매요청 ${data.data.requests.length}건, 작업지시 ${data.data.workOrders.length}건이 생성되었습니다.`);
+      await fetchRuns(run._id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '계획오더 확정 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handlePeggingSearch = async () => {
+    if (!run) return;
+    try {
+      const query = demandNumber.trim() ? `?sourceNumber=${encodeURIComponent(demandNumber.trim())}` : '';
+      const response = await makeAuthenticatedRequest(`/api/production/mrp/runs/${run._id}/pegging${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '페깅 조회에 실패했습니다.');
+      }
+      setPeggingRows(data.data.pegging || []);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '페깅 조회 중 오류가 발생했습니다.');
+    }
+  };
+
+  const openOrders = run?.plannedOrders.filter(order => order.status === 'PLANNED') || [];
+  const isLatestRun = !!run && runs[0]?._id === run._id;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">MRP 자재소요계획</h1>
+          <p className="mt-1 text-sm text-gray-500">확정 수주, 승인된 생산계획과 안전재고를 BOM으로 전개하여 가용재고와 입고예정을 차감한 계획오더를 산출합니다</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center text-sm text-gray-700">
+            계획기간
+            <input
+              type="number"
+              min={1}
+              max={730}
+              value={horizonDays}
+              onChange={(e) => setHorizonDays(e.target.value)}
+              className="ml-2 w-20 px-2 py-2 border border-gray-300 rounded-md text-right focus:ring-primary-500 focus:border-primary-500"
+            />
+            <span className="ml-1">일</span>
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeSafetyStock}
+              onChange={(e) => setIncludeSafetyStock(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            안전재고 포함
+          </label>
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+          >
+            <Calculator className={`h-4 w-4 mr-2 ${running ? 'animate-pulse' : ''}`} />
+            MRP 실행
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          <span className="ml-2 text-gray-600">로딩 중...</span>
+        </div>
+      ) : !run ? (
+        <div className="bg-white shadow rounded-lg text-center py-12">
+          <Calculator className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">MRP 실행 이력이 없습니다</h3>
+          <p className="mt-1 text-sm text-gray-500">MRP 실행 버튼을 눌러 계획오더를 산출하세요.</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white shadow rounded-lg px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <select
+                value={run._id}
+                onChange={(e) => fetchRun(e.target.value).catch(err => setError(err.message))}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                {runs.map((summary) => (
+                  <option key={summary._id} value={summary._id}>
+                    {summary.runNumber} ({formatDate(summary.runDate)}) · 계획 {summary.plannedOrderCount} / 확정 {summary.firmedOrderCount}
+                  </option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500">
+                계획기간 ~{formatDate(run.horizonDate)} · 안전재고 {run.includeSafetyStock ? '포함' : '제외'}
+              </span>
+            </div>
+            {isLatestRun && openOrders.length > 0 && (
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleFirm(false)}
+                  className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  선택 확정
+                </button>
+                <button
+                  onClick={() => handleFirm(true)}
+                  className="flex items-center px-3 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  전체 확정
+                </button>
+              </div>
+            )}
+          </div>
+
+          {run.warnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+              <div className="flex items-center text-yellow-800 font-medium">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                확인이 필요한 항목 {run.warnings.length}건
+              </div>
+              <ul className="mt-2 text-sm text-yellow-700 list-disc list-inside">
+                {run.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="border-b border-gray-200">
+            <nav className="-mb-px flex space-x-8">
+              {([['ORDERS', `계획오더 (${run.plannedOrders.length})`], ['ITEMS', `품목별 순소요 (${run.items.length})`]] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                    tab === value
+                      ? 'border-primary-500 text-primary-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </nav>
+          </div>
+
+          {tab === 'ITEMS' ? (
+            <div className="bg-white shadow rounded-lg overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">레벨</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">총소요량</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">가용재고</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">입고예정</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">안전재고</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">계획수량</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {run.items.map((summary) => (
+                    <tr key={summary.itemCode} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{summary.level}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {summary.itemName} <span className="text-gray-500">({summary.itemCode})</span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{summary.grossRequirement.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{summary.availableQuantity.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{summary.scheduledReceipts.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{summary.safetyStock.toLocaleString()}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {summary.plannedQuantity.toLocaleString()} {summary.unit}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white shadow rounded-lg overflow-x-auto">
+                {run.plannedOrders.length === 0 ? (
+                  <div className="text-center py-12">
+                    <CheckCircle className="mx-auto h-12 w-12 text-green-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">부족한 품목이 없습니다</h3>
+                  </div>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3"></th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">품목</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">구분</th>
+                        <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">수량</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">착수일</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">납기</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">상태</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {run.plannedOrders.map((order) => (
+                        <tr
+                          key={order._id}
+                          onClick={() => setActiveOrder(order)}
+                          className={`cursor-pointer ${activeOrder?._id === order._id ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                        >
+                          <td className="px-4 py-3 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                            {order.status === 'PLANNED' && isLatestRun && (
+                              <input
+                                type="checkbox"
+                                checked={!!selected[order._id]}
+                                onChange={(e) => setSelected(prev => ({ ...prev, [order._id]: e.target.checked }))}
+                                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                              />
+                            )}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                            <span className="text-gray-400 mr-1">L{order.level}</span>
+                            {order.itemName} <span className="text-gray-500">({order.itemCode})</span>
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                            {orderTypeLabels[order.orderType]}
+                            {order.supplierId && <span className="ml-1 text-xs">· {order.supplierId.name}</span>}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                            {order.quantity.toLocaleString()} {order.unit}
+                          </td>
+                          <td className={`px-4 py-3 whitespace-nowrap text-sm ${order.isLate ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                            {formatDate(order.releaseDate)}
+                            {order.isLate && <span className="ml-1 text-xs">(지연)</span>}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{formatDate(order.dueDate)}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                            {order.status === 'FIRMED' ? (
+                              <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                                확정 {order.firmedNumber}
+                              </span>
+                            ) : (
+                              <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">계획</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <div className="bg-white shadow rounded-lg">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-medium text-gray-900 flex items-center">
+                    <Link2 className="h-4 w-4 mr-2" />
+                    페깅
+                  </h2>
+                  <p className="text-sm text-gray-500">계획오더를 발생시킨 수요를 추적합니다</p>
+                </div>
+                <div className="px-6 py-4 space-y-4">
+                  {activeOrder ? (
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {activeOrder.itemName} {activeOrder.quantity.toLocaleString()} {activeOrder.unit}
+                      </div>
+                      <ul className="mt-2 divide-y divide-gray-100">
+                        {activeOrder.pegging.map((peg, index) => (
+                          <li key={index} className="py-2 text-sm">
+                            <div className="flex justify-between">
+                              <span className="text-gray-900">{demandLabels[peg.demandType]} {peg.sourceNumber}</span>
+                              <span className="font-medium text-gray-900">{peg.quantity.toLocaleString()}</span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {peg.demandItemCode} · {formatDate(peg.demandDate)}
+                              {peg.parentItemCode && ` · 상위품목 ${peg.parentItemCode}`}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">계획오더를 선택하면 해당 수요가 표시됩니다.</p>
+                  )}
+
+                  <div className="border-t border-gray-200 pt-4">
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={demandNumber}
+                        onChange={(e) => setDemandNumber(e.target.value)}
+                        placeholder="수주/생산계획 번호"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <button
+                        onClick={handlePeggingSearch}
+                        className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                      >
+                        <Search className="h-4 w-4" />
+                      </button>
+                    </div>
+                    {peggingRows && (
+                      <ul className="mt-3 divide-y divide-gray-100">
+                        {peggingRows.length === 0 && (
+                          <li className="py-2 text-sm text-gray-500">해당 수요로 발생한 계획오더가 없습니다.</li>
+                        )}
+                        {peggingRows.map((row, index) => (
+                          <li key={`${row.plannedOrderId}-${index}`} className="py-2 text-sm">
+                            <div className="flex justify-between">
+                              <span className="text-gray-900">{row.itemName} ({orderTypeLabels[row.orderType]})</span>
+                              <span className="font-medium text-gray-900">{row.quantity.toLocaleString()} {row.unit}</span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {demandLabels[row.demandType]} {row.sourceNumber} · 납기 {formatDate(row.dueDate)}
+                              {row.firmedNumber && ` · ${row.firmedNumber}`}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { Calendar, Plus, Search, Filter, Eye, Edit, Trash2, CheckCircle, Play, Download, AlertTriangle, Clock } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 import { useAuth } from '@/lib/auth-service';
 
 interface ProductionPlan {
@@ -34,12 +35,61 @@ interface ProductionPlan {
     name: string;
     email: string;
   };
+  workCenterIds?: string[];
   completionPercentage?: number;
   remainingDays?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+interface WorkCenter {
+  _id: string;
+  code: string;
+  name: string;
+  dailyCapacity: number;
+}
+
+interface PlanWorkOrder {
+  _id: string;
+  orderNumber: string;
+  workCenter: string;
+  workCenterId?: WorkCenter;
+  quantity: number;
+  completedQuantity: number;
+  unit: string;
+  status: 'DRAFT' | 'RELEASED' | 'IN_PROGRESS' | 'PAUSED' | 'COMPLETED' | 'CLOSED' | 'CANCELLED';
+}
+
+interface WeeklyLoad {
+  workCenterId: string;
+  workCenterCode: string;
+  weekStart: string;
+  availableMinutes: number;
+  loadMinutes: number;
+  overloaded: boolean;
+}
+
+interface ScheduleProposal {
+  workOrderId: string;
+  orderNumber: string;
+  status: PlanWorkOrder['status'];
+  currentStartDate: string;
+  currentEndDate: string;
+  dueDate: string;
+  startDate: string;
+  endDate: string;
+  changed: boolean;
+  late: boolean;
+  operations: Array<{ sequence: number; name: string; workCenterCode: string; minutes: number; startDate: string; endDate: string }>;
+}
+
+interface Schedule {
+  direction: 'FORWARD' | 'BACKWARD';
+  proposals: ScheduleProposal[];
+  overloads: WeeklyLoad[];
+  unscheduled: Array<{ workOrderId: string; orderNumber: string; reason: string }>;
+}
+
 const statusColors = {
   DRAFT: 'bg-gray-100 text-gray-800',
   APPROVED: 'bg-blue-100 text-blue-800',
@@ -56,6 +106,16 @@ const statusLabels = {
   CANCELLED: '취소'
 };
 
+const workOrderStatusLabels = {
+  DRAFT: '계획',
+  RELEASED: '지시',
+  IN_PROGRESS: '진행중',
+  PAUSED: '중단',
+  COMPLETED: '완료',
+  CLOSED: '마감',
+  CANCELLED: '취소'
+};
+
 const priorityColors = {
   LOW: 'bg-gray-100 text-gray-800',
   MEDIUM: 'bg-blue-100 text-blue-800',
@@ -70,6 +130,18 @@ const priorityLabels = {
   URGENT: '긴급'
 };
 
+// 승인/시작 시 분할된 작업지시와 경고를 안내 문구로 만든다
+const splitMessage = (message: string, result: { workOrders?: PlanWorkOrder[]; warnings?: string[] }) => {
+  const lines = [message];
+  if (result.workOrders?.length) {
+    lines.push(`작업지시 ${result.workOrders.length}건이 생성되었습니다: ${result.workOrders.map(order => `${order.orderNumber}(${order.workCenter} ${order.quantity})`).join(', ')}`);
+  }
+  if (result.warnings?.length) {
+    lines.push('', ...result.warnings.map(warning => `⚠ ${warning}`));
+  }
+  return lines.join('\n');
+};
+
 export default function ProductionPlansPage() {
   const { makeAuthenticatedRequest } = useAuth();
   const [plans, setPlans] = useState<ProductionPlan[]>([]);
@@ -132,7 +204,8 @@ export default function ProductionPlansPage() {
         throw new Error(errorData.message || '승인에 실패했습니다.');
       }
 
-      alert('생산계획이 승인되었습니다.');
+      const result = await response.json();
+      alert(splitMessage('생산계획이 승인되었습니다.', result));
       fetchPlans();
     } catch (error) {
       alert(error instanceof Error ? error.message : '승인 중 오류가 발생했습니다.');
@@ -150,7 +223,8 @@ export default function ProductionPlansPage() {
         throw new Error(errorData.message || '생산 시작에 실패했습니다.');
       }
 
-      alert('생산이 시작되었습니다.');
+      const result = await response.json();
+      alert(splitMessage('생산이 시작되었습니다.', result));
       fetchPlans();
     } catch (error) {
       alert(error instanceof Error ? error.message : '생산 시작 중 오류가 발생했습니다.');
@@ -473,6 +547,8 @@ export default function ProductionPlansPage() {
         </div>
       </div>
 
+      <CapacityPanel />
+
       {/* 생산계획 등록 모달 */}
       {showCreateModal && (
         <CreatePlanModal 
@@ -489,7 +565,6 @@ export default function ProductionPlansPage() {
         <DetailModal
           plan={selectedPlan}
           onClose={() => setShowDetailModal(false)}
-          onRefresh={fetchPlans}
         />
       )}
     </div>
@@ -510,11 +585,32 @@ function CreatePlanModal({ onClose, onSuccess }: { onClose: () => void; onSucces
   });
   const [loading, setLoading] = useState(false);
   const [items, setItems] = useState<any[]>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [workCenterIds, setWorkCenterIds] = useState<string[]>([]);
 
   useEffect(() => {
     fetchItems();
+    fetchWorkCenters();
   }, []);
 
+  const fetchWorkCenters = async () => {
+    try {
+      const response = await makeAuthenticatedRequest('/api/production/work-centers');
+      if (response.ok) {
+        const data = await response.json();
+        setWorkCenters(data.data?.workCenters || []);
+      }
+    } catch (error) {
+      console.error('Error fetching work centers:', error);
+    }
+  };
+
+  const toggleWorkCenter = (workCenterId: string) => {
+    setWorkCenterIds(prev => prev.includes(workCenterId)
+      ? prev.filter(id => id !== workCenterId)
+      : [...prev, workCenterId]);
+  };
+
   const fetchItems = async () => {
     try {
       const response = await makeAuthenticatedRequest('/api/items');
@@ -544,7 +640,8 @@ function CreatePlanModal({ onClose, onSuccess }: { onClose: () => void; onSucces
         },
         body: JSON.stringify({
           ...formData,
-          plannedQuantity: parseInt(formData.plannedQuantity)
+          plannedQuantity: parseInt(formData.plannedQuantity),
+          workCenterIds
         }),
       });
 
@@ -654,6 +751,30 @@ function CreatePlanModal({ onClose, onSuccess }: { onClose: () => void; onSucces
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                작업장
+              </label>
+              {workCenters.length === 0 ? (
+                <p className="text-sm text-gray-500">등록된 작업장이 없습니다. 승인 시 작업장 미지정 작업지시 1건으로 생성됩니다.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {workCenters.map((workCenter) => (
+                    <label key={workCenter._id} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={workCenterIds.includes(workCenter._id)}
+                        onChange={() => toggleWorkCenter(workCenter._id)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span>{workCenter.name} ({workCenter.code}) · 일 {workCenter.dailyCapacity}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="mt-1 text-xs text-gray-500">승인 시 선택한 작업장의 여유 능력에 따라 작업지시가 분할됩니다.</p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 설명
@@ -707,40 +828,26 @@ function CreatePlanModal({ onClose, onSuccess }: { onClose: () => void; onSucces
 }
 
 // 상세보기 모달
-function DetailModal({ plan, onClose, onRefresh }: { 
+function DetailModal({ plan, onClose }: { 
   plan: ProductionPlan; 
   onClose: () => void; 
-  onRefresh: () => void; 
 }) {
   const { makeAuthenticatedRequest } = useAuth();
-  const [updating, setUpdating] = useState(false);
-  const [productionQuantity, setProductionQuantity] = useState(plan.producedQuantity.toString());
+  const [workOrders, setWorkOrders] = useState<PlanWorkOrder[]>([]);
 
-  const handleUpdateProduction = async () => {
-    try {
-      setUpdating(true);
-      const response = await makeAuthenticatedRequest(`/api/production-plans/${plan._id}/production`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          producedQuantity: parseInt(productionQuantity)
-        }),
-      });
+  useEffect(() => {
+    fetchWorkOrders();
+  }, [plan._id]);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '생산수량 업데이트에 실패했습니다.');
+  const fetchWorkOrders = async () => {
+    try {
+      const response = await makeAuthenticatedRequest(`/api/production-plans/${plan._id}/work-orders`);
+      if (response.ok) {
+        const data = await response.json();
+        setWorkOrders(data.data || []);
       }
-
-      alert('생산수량이 업데이트되었습니다.');
-      onRefresh();
-      onClose();
     } catch (error) {
-      alert(error instanceof Error ? error.message : '업데이트 중 오류가 발생했습니다.');
-    } finally {
-      setUpdating(false);
+      console.error('Error fetching work orders:', error);
     }
   };
 
@@ -845,29 +952,44 @@ function DetailModal({ plan, onClose, onRefresh }: {
             </div>
           </div>
 
-          {plan.status === 'IN_PROGRESS' && (
-            <div>
-              <h4 className="text-sm font-medium text-gray-900 mb-3">생산수량 업데이트</h4>
-              <div className="flex items-center space-x-4">
-                <input
-                  type="number"
-                  value={productionQuantity}
-                  onChange={(e) => setProductionQuantity(e.target.value)}
-                  min="0"
-                  max={plan.plannedQuantity}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
-                  placeholder="생산된 수량을 입력하세요"
-                />
-                <button
-                  onClick={handleUpdateProduction}
-                  disabled={updating}
-                  className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
-                >
-                  {updating ? '업데이트 중...' : '업데이트'}
-                </button>
-              </div>
-            </div>
-          )}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-3">작업지시</h4>
+            {workOrders.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {plan.status === 'DRAFT' ? '승인하면 작업장별 작업지시가 생성됩니다.' : '연결된 작업지시가 없습니다.'}
+              </p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">지시번호</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">작업장</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">지시수량</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">완료수량</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">상태</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {workOrders.map((workOrder) => (
+                    <tr key={workOrder._id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{workOrder.orderNumber}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {workOrder.workCenterId ? `${workOrder.workCenterId.name} (${workOrder.workCenterId.code})` : '미지정'}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                        {new Intl.NumberFormat('ko-KR').format(workOrder.quantity)} {workOrder.unit}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                        {new Intl.NumberFormat('ko-KR').format(workOrder.completedQuantity || 0)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{workOrderStatusLabels[workOrder.status]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="mt-2 text-xs text-gray-500">생산수량과 상태는 작업지시 실적에서 자동으로 집계됩니다.</p>
+          </div>
 
           {plan.description && (
             <div>
@@ -932,4 +1054,217 @@ function DetailModal({ plan, onClose, onRefresh }: {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+const toHours = (minutes: number) => Math.round(minutes / 6) / 10;
+const shortDate = (date: string) => new Date(date).toLocaleDateString('ko-KR', { month: 'numeric', day: 'numeric' });
+
+// 작업장별 주간 능력 부하와 일정계획
+function CapacityPanel() {
+  const { makeAuthenticatedRequest } = useAuth();
+  const [load, setLoad] = useState<WeeklyLoad[]>([]);
+  const [workCenterId, setWorkCenterId] = useState('');
+  const [direction, setDirection] = useState<'FORWARD' | 'BACKWARD'>('BACKWARD');
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchLoad();
+  }, []);
+
+  const fetchLoad = async () => {
+    try {
+      const response = await makeAuthenticatedRequest('/api/production/schedule/load?weeks=8');
+      if (response.ok) {
+        const data = await response.json();
+        setLoad(data.data.load || []);
+      }
+    } catch (err) {
+      console.error('Error fetching capacity load:', err);
+    }
+  };
+
+  const centers = Array.from(new Map(load.map(row => [row.workCenterId, row.workCenterCode])).entries());
+  const selectedId = workCenterId || centers[0]?.[0] || '';
+  const chartData = load
+    .filter(row => row.workCenterId === selectedId)
+    .map(row => ({
+      week: shortDate(row.weekStart),
+      load: toHours(row.loadMinutes),
+      available: toHours(row.availableMinutes),
+      overloaded: row.overloaded
+    }));
+
+  const runSchedule = async (apply: boolean) => {
+    if (apply && !confirm('제안된 일정으로 작업지시의 시작일/종료일을 변경하시겠습니까?')) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const response = await makeAuthenticatedRequest(apply ? '/api/production/schedule/apply' : '/api/production/schedule', {
+        method: 'POST',
+        body: JSON.stringify({ direction })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '일정계획에 실패했습니다.');
+      }
+      setSchedule(data.data.schedule);
+      if (apply) {
+        alert(`작업지시 ${data.data.updated}건의 일정이 변경되었습니다.`);
+        setSchedule(null);
+        await fetchLoad();
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changed = schedule?.proposals.filter(proposal => proposal.changed) || [];
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">작업장 능력 부하</h3>
+          <p className="text-sm text-gray-500">미완료 작업지시의 공정 시간을 주별로 쌓아 작업장 가용시간과 비교합니다 (단위: 시간)</p>
+        </div>
+        <select
+          value={selectedId}
+          onChange={(e) => setWorkCenterId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          {centers.map(([id, code]) => (
+            <option key={id} value={id}>{code}</option>
+          ))}
+        </select>
+      </div>
+      <div className="p-6">
+        {chartData.length === 0 ? (
+          <div className="py-12 text-center text-sm text-gray-500">작업장이 없거나 공정이 있는 작업지시가 없습니다.</div>
+        ) : (
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="week" />
+              <YAxis />
+              <Tooltip formatter={(value: number) => [`${value}시간`, '']} labelFormatter={(label) => `${label} 주`} />
+              <Legend />
+              <Bar dataKey="available" fill="#D1D5DB" name="가용" />
+              <Bar dataKey="load" fill="#3B82F6" name="부하">
+                {chartData.map((row) => (
+                  <Cell key={row.week} fill={row.overloaded ? '#EF4444' : '#3B82F6'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="p-6 border-t border-gray-200 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-gray-900">일정계획</h4>
+            <p className="text-sm text-gray-500">지시된 작업지시를 라우팅 시간으로 작업장 가용시간에 배정해 시작일/종료일을 제안합니다</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as 'FORWARD' | 'BACKWARD')}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="BACKWARD">납기 기준 역방향</option>
+              <option value="FORWARD">오늘부터 순방향</option>
+            </select>
+            <button
+              onClick={() => runSchedule(false)}
+              disabled={busy}
+              className="flex items-center px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              <Clock className="h-4 w-4 mr-2" />
+              일정 계산
+            </button>
+            {changed.length > 0 && (
+              <button
+                onClick={() => runSchedule(true)}
+                disabled={busy}
+                className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                일정 적용 ({changed.length}건)
+              </button>
+            )}
+          </div>
+        </div>
+
+        {schedule && (
+          <>
+            {schedule.overloads.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+                <div className="flex items-center font-medium mb-1">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  현재 일정 기준 과부하
+                </div>
+                {schedule.overloads.map((row) => (
+                  <div key={`${row.workCenterId}-${row.weekStart}`}>
+                    {row.workCenterCode} {shortDate(row.weekStart)} 주: 부하 {toHours(row.loadMinutes)}시간 / 가용 {toHours(row.availableMinutes)}시간
+                  </div>
+                ))}
+              </div>
+            )}
+            {schedule.unscheduled.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                {schedule.unscheduled.map((row) => (
+                  <div key={row.workOrderId}>{row.orderNumber}: {row.reason}</div>
+                ))}
+              </div>
+            )}
+            {schedule.proposals.length === 0 ? (
+              <div className="py-6 text-center text-sm text-gray-500">일정을 잡을 작업지시가 없습니다.</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">작업지시</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">상태</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">납기</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">현재 일정</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">제안 일정</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">공정</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {schedule.proposals.map((proposal) => (
+                    <tr key={proposal.workOrderId} className={proposal.changed ? '' : 'text-gray-400'}>
+                      <td className="px-4 py-2 text-sm font-medium">{proposal.orderNumber}</td>
+                      <td className="px-4 py-2 text-sm">{workOrderStatusLabels[proposal.status]}</td>
+                      <td className="px-4 py-2 text-sm">{shortDate(proposal.dueDate)}</td>
+                      <td className="px-4 py-2 text-sm">
+                        {shortDate(proposal.currentStartDate)} ~ {shortDate(proposal.currentEndDate)}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {shortDate(proposal.startDate)} ~ {shortDate(proposal.endDate)}
+                        {proposal.late && (
+                          <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">납기 지연</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-xs text-gray-500">
+                        {proposal.operations.map((operation) => (
+                          <div key={operation.sequence}>
+                            {operation.sequence} {operation.name} ({operation.workCenterCode}, {toHours(operation.minutes)}h) {shortDate(operation.startDate)}~{shortDate(operation.endDate)}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
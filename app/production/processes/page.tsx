@@ -1,26 +1,628 @@
 'use client';
 
-import React from 'react';
-import { Settings } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Settings, Plus, Search, Trash2, ClipboardCheck, Layers } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { useAuth } from '@/lib/auth-service';
+
+type RoutingStatus = 'CURRENT' | 'SCHEDULED' | 'SUPERSEDED' | 'INACTIVE';
+
+interface RoutingOperation {
+  sequence: number;
+  name: string;
+  workCenterId: string;
+  workCenterCode: string;
+  setupTime: number;
+  runTime: number;
+  inspectionRequired: boolean;
+  inspectionCriteria?: string;
+}
+
+interface Routing {
+  _id: string;
+  routingNumber: string;
+  itemId: { _id: string; code: string; name: string; unit: string };
+  version: number;
+  operations: RoutingOperation[];
+  effectiveDate: string;
+  isActive: boolean;
+  status: RoutingStatus;
+}
+
+interface WorkCenter {
+  _id: string;
+  code: string;
+  name: string;
+}
+
+interface OperationWip {
+  workOrderId: string;
+  orderNumber: string;
+  sequence: number;
+  name: string;
+  workCenterCode: string;
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
+  queued: number;
+  inProcess: number;
+  goodQuantity: number;
+  scrapQuantity: number;
+}
+
+interface WorkCenterWip {
+  workCenterCode: string;
+  queued: number;
+  inProcess: number;
+  operations: number;
+}
+
+const statusColors: Record<RoutingStatus, string> = {
+  CURRENT: 'bg-green-100 text-green-800',
+  SCHEDULED: 'bg-blue-100 text-blue-800',
+  SUPERSEDED: 'bg-gray-100 text-gray-800',
+  INACTIVE: 'bg-red-100 text-red-800'
+};
+
+const statusLabels: Record<RoutingStatus, string> = {
+  CURRENT: '적용중',
+  SCHEDULED: '적용예정',
+  SUPERSEDED: '이전버전',
+  INACTIVE: '비활성'
+};
+
+const emptyOperation = (sequence: number) => ({
+  sequence: String(sequence),
+  name: '',
+  workCenterId: '',
+  setupTime: '0',
+  runTime: '',
+  inspectionRequired: false,
+  inspectionCriteria: ''
+});
 
 export default function ProcessesPage() {
+  const [routings, setRoutings] = useState<Routing[]>([]);
+  const [wipCenters, setWipCenters] = useState<WorkCenterWip[]>([]);
+  const [wipOperations, setWipOperations] = useState<OperationWip[]>([]);
+  const [tab, setTab] = useState<'ROUTINGS' | 'WIP'>('ROUTINGS');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { makeAuthenticatedRequest, isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchRoutings();
+    fetchWip();
+  }, [isAuthenticated]);
+
+  const fetchRoutings = async () => {
+    try {
+      setLoading(true);
+      const query = searchTerm.trim() ? `&search=${encodeURIComponent(searchTerm.trim())}` : '';
+      const response = await makeAuthenticatedRequest(`/api/routings?limit=100${query}`);
+      if (!response.ok) {
+        throw new Error('라우팅 데이터를 불러오는데 실패했습니다.');
+      }
+      const data = await response.json();
+      setRoutings(data.data.routings || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchWip = async () => {
+    try {
+      const response = await makeAuthenticatedRequest('/api/production/wip');
+      if (response.ok) {
+        const data = await response.json();
+        setWipCenters(data.data.workCenters || []);
+        setWipOperations(data.data.operations || []);
+      }
+    } catch (err) {
+      console.error('Error fetching WIP:', err);
+    }
+  };
+
+  const handleDeactivate = async (routing: Routing) => {
+    if (!confirm(`'${routing.routingNumber}' 라우팅을 비활성화하시겠습니까?`)) {
+      return;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/routings/${routing._id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ isActive: false })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '비활성화에 실패했습니다.');
+      }
+      await fetchRoutings();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '처리 중 오류가 발생했습니다.');
+    }
+  };
+
+  const totalMinutes = (routing: Routing, field: 'setupTime' | 'runTime') =>
+    routing.operations.reduce((sum, operation) => sum + operation[field], 0);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-semibold text-gray-900">공정 관리</h1>
-          <p className="mt-1 text-sm text-gray-500">생산공정을 관리합니다</p>
+          <p className="mt-1 text-sm text-gray-500">품목별 라우팅(공정 순서, 작업장, 준비·작업시간, 검사 기준)을 관리하고 공정별 재공을 확인합니다</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          라우팅 등록
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
         </div>
+      )}
+
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {([['ROUTINGS', '라우팅'], ['WIP', '공정별 재공']] as const).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                tab === key ? 'border-primary-500 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
       </div>
 
-      <div className="bg-white shadow rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <div className="text-center py-12">
-            <Settings className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">준비 중입니다</h3>
-            <p className="mt-1 text-sm text-gray-500">이 기능은 현재 개발 중입니다.</p>
+      {tab === 'ROUTINGS' && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="p-4 border-b border-gray-200 flex items-center space-x-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && fetchRoutings()}
+                placeholder="라우팅번호, 품목코드, 품목명 검색"
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            <button
+              onClick={fetchRoutings}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              검색
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="p-12 text-center text-sm text-gray-500">불러오는 중...</div>
+          ) : routings.length === 0 ? (
+            <div className="text-center py-12">
+              <Settings className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">등록된 라우팅이 없습니다</h3>
+              <p className="mt-1 text-sm text-gray-500">라우팅이 없는 품목의 작업지시는 공정 없이 작업지시 단위로 관리됩니다.</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">라우팅번호</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">품목</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">공정 수</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">준비시간(분)</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">단위당 작업시간(분)</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">적용일</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">상태</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">작업</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {routings.map((routing) => (
+                  <React.Fragment key={routing._id}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === routing._id ? null : routing._id)}
+                    >
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{routing.routingNumber}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {routing.itemId?.name} <span className="text-gray-500">({routing.itemId?.code})</span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{routing.operations.length}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{totalMinutes(routing, 'setupTime')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900 text-right">{totalMinutes(routing, 'runTime')}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {format(new Date(routing.effectiveDate), 'yyyy-MM-dd', { locale: ko })}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusColors[routing.status]}`}>
+                          {statusLabels[routing.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        {routing.isActive && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeactivate(routing);
+                            }}
+                            className="text-red-600 hover:text-red-900"
+                            title="비활성화"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === routing._id && (
+                      <tr>
+                        <td colSpan={8} className="px-6 py-4 bg-gray-50">
+                          <table className="min-w-full">
+                            <thead>
+                              <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">순서</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">공정명</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">작업장</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">준비(분)</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500">작업(분/단위)</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">검사</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {routing.operations.map((operation) => (
+                                <tr key={operation.sequence}>
+                                  <td className="px-3 py-1 text-sm text-gray-900">{operation.sequence}</td>
+                                  <td className="px-3 py-1 text-sm text-gray-900">{operation.name}</td>
+                                  <td className="px-3 py-1 text-sm text-gray-900">{operation.workCenterCode}</td>
+                                  <td className="px-3 py-1 text-sm text-gray-900 text-right">{operation.setupTime}</td>
+                                  <td className="px-3 py-1 text-sm text-gray-900 text-right">{operation.runTime}</td>
+                                  <td className="px-3 py-1 text-sm text-gray-900">
+                                    {operation.inspectionRequired ? (
+                                      <span className="flex items-center text-orange-700">
+                                        <ClipboardCheck className="h-4 w-4 mr-1" />
+                                        {operation.inspectionCriteria || '검사 필요'}
+                                      </span>
+                                    ) : '-'}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {tab === 'WIP' && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {wipCenters.map((center) => (
+              <div key={center.workCenterCode} className="bg-white shadow rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">{center.workCenterCode}</span>
+                  <Layers className="h-5 w-5 text-gray-400" />
+                </div>
+                <div className="mt-3 grid grid-cols-2 gap-2 text-center">
+                  <div>
+                    <div className="text-xl font-bold text-yellow-600">{center.queued.toLocaleString()}</div>
+                    <div className="text-xs text-gray-500">대기</div>
+                  </div>
+                  <div>
+                    <div className="text-xl font-bold text-blue-600">{center.inProcess.toLocaleString()}</div>
+                    <div className="text-xs text-gray-500">작업중</div>
+                  </div>
+                </div>
+              </div>
+            ))}
           </div>
+
+          <div className="bg-white shadow rounded-lg">
+            {wipOperations.length === 0 ? (
+              <div className="p-12 text-center text-sm text-gray-500">공정에 머물러 있는 재공이 없습니다.</div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">작업장</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">작업지시</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">공정</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">대기</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">작업중</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {wipOperations.map((row) => (
+                    <tr key={`${row.workOrderId}-${row.sequence}`}>
+                      <td className="px-6 py-3 text-sm text-gray-900">{row.workCenterCode}</td>
+                      <td className="px-6 py-3 text-sm text-gray-900">{row.orderNumber}</td>
+                      <td className="px-6 py-3 text-sm text-gray-900">{row.sequence} {row.name}</td>
+                      <td className="px-6 py-3 text-sm text-gray-900 text-right">{row.queued.toLocaleString()}</td>
+                      <td className="px-6 py-3 text-sm text-gray-900 text-right">{row.inProcess.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showCreateModal && (
+        <CreateRoutingModal
+          onClose={() => setShowCreateModal(false)}
+          onSuccess={() => {
+            setShowCreateModal(false);
+            fetchRoutings();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// 라우팅 등록 모달
+function CreateRoutingModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
+  const { makeAuthenticatedRequest } = useAuth();
+  const [items, setItems] = useState<Array<{ _id: string; code: string; name: string }>>([]);
+  const [workCenters, setWorkCenters] = useState<WorkCenter[]>([]);
+  const [itemId, setItemId] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [operations, setOperations] = useState([emptyOperation(10)]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      const [itemResponse, workCenterResponse] = await Promise.all([
+        makeAuthenticatedRequest('/api/items/dropdown/list'),
+        makeAuthenticatedRequest('/api/production/work-centers')
+      ]);
+      if (itemResponse.ok) {
+        setItems((await itemResponse.json()).data.items);
+      }
+      if (workCenterResponse.ok) {
+        setWorkCenters((await workCenterResponse.json()).data.workCenters);
+      }
+    };
+    fetchOptions().catch(err => console.error('Error fetching options:', err));
+  }, []);
+
+  const updateOperation = (index: number, field: string, value: string | boolean) => {
+    setOperations(prev => prev.map((operation, i) => (i === index ? { ...operation, [field]: value } : operation)));
+  };
+
+  const addOperation = () => {
+    setOperations(prev => [...prev, emptyOperation((prev.length + 1) * 10)]);
+  };
+
+  const removeOperation = (index: number) => {
+    setOperations(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await makeAuthenticatedRequest('/api/routings', {
+        method: 'POST',
+        body: JSON.stringify({
+          itemId,
+          effectiveDate: effectiveDate || undefined,
+          operations: operations.map(operation => ({
+            sequence: Number(operation.sequence),
+            name: operation.name,
+            workCenterId: operation.workCenterId,
+            setupTime: Number(operation.setupTime || 0),
+            runTime: Number(operation.runTime),
+            inspectionRequired: operation.inspectionRequired,
+            inspectionCriteria: operation.inspectionCriteria || undefined
+          }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '라우팅 등록에 실패했습니다.');
+      }
+
+      alert(`라우팅 ${data.data.routing.routingNumber}이(가) 등록되었습니다.`);
+      onSuccess();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : '등록 중 오류가 발생했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-screen overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">라우팅 등록</h3>
+          <p className="mt-1 text-sm text-gray-500">같은 품목에 다시 등록하면 새 버전이 만들어지며, 작업지시는 시작일에 적용 중인 버전의 공정을 복사합니다.</p>
         </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                품목 <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={itemId}
+                onChange={(e) => setItemId(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">품목을 선택하세요</option>
+                {items.map((item) => (
+                  <option key={item._id} value={item._id}>
+                    {item.name} ({item.code})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">적용일</label>
+              <input
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-gray-900">공정</h4>
+              <button type="button" onClick={addOperation} className="flex items-center text-sm text-primary-600 hover:text-primary-800">
+                <Plus className="h-4 w-4 mr-1" />
+                공정 추가
+              </button>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">순서</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">공정명</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">작업장</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">준비(분)</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">작업(분/단위)</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500">검사</th>
+                  <th className="px-2 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {operations.map((operation, index) => (
+                  <tr key={index}>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        min="1"
+                        required
+                        value={operation.sequence}
+                        onChange={(e) => updateOperation(index, 'sequence', e.target.value)}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="text"
+                        required
+                        value={operation.name}
+                        onChange={(e) => updateOperation(index, 'name', e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                        placeholder="예: 절단"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <select
+                        required
+                        value={operation.workCenterId}
+                        onChange={(e) => updateOperation(index, 'workCenterId', e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        <option value="">선택</option>
+                        {workCenters.map((center) => (
+                          <option key={center._id} value={center._id}>
+                            {center.code} {center.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={operation.setupTime}
+                        onChange={(e) => updateOperation(index, 'setupTime', e.target.value)}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        required
+                        value={operation.runTime}
+                        onChange={(e) => updateOperation(index, 'runTime', e.target.value)}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="checkbox"
+                          checked={operation.inspectionRequired}
+                          onChange={(e) => updateOperation(index, 'inspectionRequired', e.target.checked)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        {operation.inspectionRequired && (
+                          <input
+                            type="text"
+                            value={operation.inspectionCriteria}
+                            onChange={(e) => updateOperation(index, 'inspectionCriteria', e.target.value)}
+                            className="w-32 px-2 py-1 border border-gray-300 rounded text-sm"
+                            placeholder="검사 기준"
+                          />
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-2 py-2 text-right">
+                      {operations.length > 1 && (
+                        <button type="button" onClick={() => removeOperation(index)} className="text-red-600 hover:text-red-900">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+              disabled={saving}
+            >
+              취소
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? '등록 중...' : '등록'}
+            </button>
+          </div>
+        </form>
       </div>
     </div>
   );
@@ -2,13 +2,38 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/auth-service';
-import { Plus, Search, Play, Pause, CheckCircle, Eye, Calendar, Download } from 'lucide-react';
+import { Plus, Search, Play, Pause, CheckCircle, Eye, Calendar, Download, Send, Lock, XCircle } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
 import { downloadExcel, ExcelColumn } from '@/lib/excel';
 
+type WorkOrderStatus = 'DRAFT' | 'RELEASED' | 'IN_PROGRESS' | 'PAUSED' | 'COMPLETED' | 'CLOSED' | 'CANCELLED';
+
+interface WorkOrderOperation {
+  sequence: number;
+  name: string;
+  workCenterCode: string;
+  setupTime: number;
+  runTime: number;
+  inspectionRequired: boolean;
+  inspectionCriteria?: string;
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
+  actualStartDate?: string;
+  actualEndDate?: string;
+  goodQuantity: number;
+  scrapQuantity: number;
+  inspectionResult?: 'PASS' | 'FAIL';
+  operatorName?: string;
+}
+
+const operationStatusLabels = {
+  PENDING: '대기',
+  IN_PROGRESS: '작업중',
+  COMPLETED: '완료'
+};
+
 interface WorkOrder {
-  id: number;
+  id: string;
   orderNumber: string;
   itemName: string;
   itemCode: string;
@@ -19,10 +44,11 @@ interface WorkOrder {
   endDate: string;
   actualStartDate?: string;
   actualEndDate?: string;
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'PAUSED';
+  status: WorkOrderStatus;
   completedQuantity: number;
   assignedTo: string;
   priority: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
+  operations: WorkOrderOperation[];
 }
 
 export default function WorkOrdersPage() {
@@ -39,15 +65,15 @@ export default function WorkOrdersPage() {
   const fetchWorkOrders = async () => {
     try {
       setLoading(true);
-      const response = await makeAuthenticatedRequest('/api/work-orders');
+      const response = await makeAuthenticatedRequest('/api/production/work-orders?limit=100');
       
       if (response.ok) {
         const data = await response.json();
-        const formattedOrders = data.data.workOrders.map((item: any, index: number) => ({
-          id: index + 1,
+        const formattedOrders = data.data.workOrders.map((item: any) => ({
+          id: item._id,
           orderNumber: item.orderNumber,
-          itemName: item.itemName,
-          itemCode: item.itemCode,
+          itemName: item.itemId?.name || '',
+          itemCode: item.itemId?.code || '',
           quantity: item.quantity,
           unit: item.unit,
           workCenter: item.workCenter,
@@ -57,8 +83,9 @@ export default function WorkOrdersPage() {
           actualEndDate: item.actualEndDate,
           status: item.status,
           completedQuantity: item.completedQuantity,
-          assignedTo: item.assignedTo,
-          priority: item.priority
+          assignedTo: item.assignedTo || '',
+          priority: item.priority,
+          operations: item.operations || []
         }));
         setWorkOrders(formattedOrders);
       } else {
@@ -75,6 +102,7 @@ export default function WorkOrdersPage() {
   const [statusFilter, setStatusFilter] = useState<string>('ALL');
   const [showModal, setShowModal] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<WorkOrder | null>(null);
+  const [operationReport, setOperationReport] = useState({ goodQuantity: '', scrapQuantity: '0', inspectionResult: '' });
 
   const filteredOrders = workOrders.filter(order => {
     const matchesSearch = order.orderNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -86,14 +114,18 @@ export default function WorkOrdersPage() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'PENDING':
+      case 'DRAFT':
         return 'bg-gray-100 text-gray-800';
+      case 'RELEASED':
+        return 'bg-purple-100 text-purple-800';
       case 'IN_PROGRESS':
         return 'bg-blue-100 text-blue-800';
       case 'COMPLETED':
         return 'bg-green-100 text-green-800';
       case 'PAUSED':
         return 'bg-yellow-100 text-yellow-800';
+      case 'CANCELLED':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -101,14 +133,20 @@ export default function WorkOrdersPage() {
 
   const getStatusText = (status: string) => {
     switch (status) {
-      case 'PENDING':
-        return '대기중';
+      case 'DRAFT':
+        return '계획';
+      case 'RELEASED':
+        return '지시';
       case 'IN_PROGRESS':
         return '진행중';
       case 'COMPLETED':
         return '완료';
       case 'PAUSED':
         return '중단';
+      case 'CLOSED':
+        return '마감';
+      case 'CANCELLED':
+        return '취소';
       default:
         return status;
     }
@@ -149,35 +187,66 @@ export default function WorkOrdersPage() {
     setShowModal(true);
   };
 
-  const handleStart = (id: number) => {
-    setWorkOrders(prev => prev.map(order => 
-      order.id === id 
-        ? { 
-            ...order, 
-            status: 'IN_PROGRESS' as const, 
-            actualStartDate: new Date().toISOString() 
-          }
-        : order
-    ));
-  };
+  // Every status change goes through the server so the floor, planning and dashboard agree
+  const handleAction = async (order: WorkOrder, action: 'release' | 'start' | 'pause' | 'resume' | 'complete' | 'close' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`'${order.orderNumber}' 작업지시를 취소하시겠습니까?`)) {
+      return;
+    }
 
-  const handlePause = (id: number) => {
-    setWorkOrders(prev => prev.map(order => 
-      order.id === id ? { ...order, status: 'PAUSED' as const } : order
-    ));
+    try {
+      const response = await makeAuthenticatedRequest(`/api/production/work-orders/${order.id}/${action}`, {
+        method: 'POST',
+        body: JSON.stringify(action === 'complete' ? { completedQuantity: completableQuantity(order) } : {})
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        if (action === 'release' && data.data.shortages?.length) {
+          alert(`재고가 부족해 예약하지 못한 자재가 ${data.data.shortages.length}건 있습니다.`);
+        }
+        await fetchWorkOrders();
+      } else {
+        alert(data.message || '처리에 실패했습니다.');
+      }
+    } catch (error) {
+      alert('처리 중 오류가 발생했습니다.');
+    }
   };
 
-  const handleComplete = (id: number) => {
-    setWorkOrders(prev => prev.map(order => 
-      order.id === id 
-        ? { 
-            ...order, 
-            status: 'COMPLETED' as const, 
-            actualEndDate: new Date().toISOString(),
-            completedQuantity: order.quantity
-          }
-        : order
-    ));
+  // With operations, only the good units out of the last step can be booked as finished
+  const completableQuantity = (order: WorkOrder) =>
+    order.operations.length ? order.operations[order.operations.length - 1].goodQuantity : order.quantity;
+
+  const handleOperation = async (order: WorkOrder, operation: WorkOrderOperation, action: 'start' | 'finish') => {
+    if (action === 'finish' && operationReport.goodQuantity === '') {
+      alert('양품 수량을 입력해주세요.');
+      return;
+    }
+
+    try {
+      const response = await makeAuthenticatedRequest(
+        `/api/production/work-orders/${order.id}/operations/${operation.sequence}/${action}`,
+        {
+          method: 'POST',
+          body: JSON.stringify(action === 'finish' ? {
+            goodQuantity: Number(operationReport.goodQuantity),
+            scrapQuantity: Number(operationReport.scrapQuantity || 0),
+            inspectionResult: operationReport.inspectionResult || undefined
+          } : {})
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        setSelectedOrder(prev => prev && { ...prev, operations: data.data.workOrder.operations });
+        setOperationReport({ goodQuantity: '', scrapQuantity: '0', inspectionResult: '' });
+        await fetchWorkOrders();
+      } else {
+        alert(data.message || '공정 실적 등록에 실패했습니다.');
+      }
+    } catch (error) {
+      alert('공정 실적 등록 중 오류가 발생했습니다.');
+    }
   };
 
   const getProgressPercentage = (order: WorkOrder) => {
@@ -255,10 +324,13 @@ export default function WorkOrdersPage() {
               className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="ALL">전체 상태</option>
-              <option value="PENDING">대기중</option>
+              <option value="DRAFT">계획</option>
+              <option value="RELEASED">지시</option>
               <option value="IN_PROGRESS">진행중</option>
-              <option value="COMPLETED">완료</option>
               <option value="PAUSED">중단</option>
+              <option value="COMPLETED">완료</option>
+              <option value="CLOSED">마감</option>
+              <option value="CANCELLED">취소</option>
             </select>
           </div>
         </div>
@@ -361,26 +433,44 @@ export default function WorkOrdersPage() {
                       >
                         <Eye className="h-4 w-4" />
                       </button>
-                      {order.status === 'PENDING' && (
+                      {order.status === 'DRAFT' && (
+                        <button
+                          onClick={() => handleAction(order, 'release')}
+                          className="text-purple-600 hover:text-purple-900"
+                          title="작업 지시"
+                        >
+                          <Send className="h-4 w-4" />
+                        </button>
+                      )}
+                      {order.status === 'RELEASED' && (
                         <button
-                          onClick={() => handleStart(order.id)}
+                          onClick={() => handleAction(order, 'start')}
                           className="text-green-600 hover:text-green-900"
                           title="작업 시작"
                         >
                           <Play className="h-4 w-4" />
                         </button>
                       )}
+                      {order.status === 'PAUSED' && (
+                        <button
+                          onClick={() => handleAction(order, 'resume')}
+                          className="text-green-600 hover:text-green-900"
+                          title="작업 재개"
+                        >
+                          <Play className="h-4 w-4" />
+                        </button>
+                      )}
                       {order.status === 'IN_PROGRESS' && (
                         <>
                           <button
-                            onClick={() => handlePause(order.id)}
+                            onClick={() => handleAction(order, 'pause')}
                             className="text-yellow-600 hover:text-yellow-900"
                             title="작업 일시정지"
                           >
                             <Pause className="h-4 w-4" />
                           </button>
                           <button
-                            onClick={() => handleComplete(order.id)}
+                            onClick={() => handleAction(order, 'complete')}
                             className="text-blue-600 hover:text-blue-900"
                             title="작업 완료"
                           >
@@ -388,6 +478,24 @@ export default function WorkOrdersPage() {
                           </button>
                         </>
                       )}
+                      {order.status === 'COMPLETED' && (
+                        <button
+                          onClick={() => handleAction(order, 'close')}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="작업 마감"
+                        >
+                          <Lock className="h-4 w-4" />
+                        </button>
+                      )}
+                      {['DRAFT', 'RELEASED', 'IN_PROGRESS', 'PAUSED'].includes(order.status) && (
+                        <button
+                          onClick={() => handleAction(order, 'cancel')}
+                          className="text-red-600 hover:text-red-900"
+                          title="작업 취소"
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -519,6 +627,102 @@ export default function WorkOrdersPage() {
                 </div>
               </div>
 
+              {selectedOrder.operations.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">공정 실적</h4>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">순서</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">공정</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">작업장</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">상태</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">양품</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">불량</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">실적</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {selectedOrder.operations.map((operation, index) => {
+                        const previous = index > 0 ? selectedOrder.operations[index - 1] : null;
+                        const canReport = selectedOrder.status === 'IN_PROGRESS';
+                        return (
+                          <tr key={operation.sequence}>
+                            <td className="px-3 py-2 text-sm text-gray-900">{operation.sequence}</td>
+                            <td className="px-3 py-2 text-sm text-gray-900">
+                              {operation.name}
+                              {operation.inspectionRequired && (
+                                <span className="ml-1 text-xs text-orange-600" title={operation.inspectionCriteria}>검사</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-2 text-sm text-gray-900">{operation.workCenterCode}</td>
+                            <td className="px-3 py-2 text-sm text-gray-900">
+                              {operationStatusLabels[operation.status]}
+                              {operation.operatorName && <span className="ml-1 text-xs text-gray-500">({operation.operatorName})</span>}
+                            </td>
+                            <td className="px-3 py-2 text-sm text-gray-900 text-right">{operation.goodQuantity.toLocaleString()}</td>
+                            <td className="px-3 py-2 text-sm text-gray-900 text-right">{operation.scrapQuantity.toLocaleString()}</td>
+                            <td className="px-3 py-2 text-sm">
+                              {canReport && operation.status === 'PENDING' && previous?.status !== 'PENDING' && (
+                                <button
+                                  onClick={() => handleOperation(selectedOrder, operation, 'start')}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  시작
+                                </button>
+                              )}
+                              {canReport && operation.status === 'IN_PROGRESS' && (!previous || previous.status === 'COMPLETED') && (
+                                <div className="flex items-center space-x-1">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={operationReport.goodQuantity}
+                                    onChange={(e) => setOperationReport(prev => ({ ...prev, goodQuantity: e.target.value }))}
+                                    className="w-16 px-1 py-1 border border-gray-300 rounded text-sm"
+                                    placeholder="양품"
+                                  />
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={operationReport.scrapQuantity}
+                                    onChange={(e) => setOperationReport(prev => ({ ...prev, scrapQuantity: e.target.value }))}
+                                    className="w-16 px-1 py-1 border border-gray-300 rounded text-sm"
+                                    placeholder="불량"
+                                  />
+                                  {operation.inspectionRequired && (
+                                    <select
+                                      value={operationReport.inspectionResult}
+                                      onChange={(e) => setOperationReport(prev => ({ ...prev, inspectionResult: e.target.value }))}
+                                      className="px-1 py-1 border border-gray-300 rounded text-sm"
+                                    >
+                                      <option value="">검사결과</option>
+                                      <option value="PASS">합격</option>
+                                      <option value="FAIL">불합격</option>
+                                    </select>
+                                  )}
+                                  <button
+                                    onClick={() => handleOperation(selectedOrder, operation, 'finish')}
+                                    className="text-green-600 hover:text-green-900"
+                                  >
+                                    완료
+                                  </button>
+                                </div>
+                              )}
+                              {operation.status === 'COMPLETED' && operation.actualEndDate && (
+                                <span className="text-xs text-gray-500">
+                                  {format(new Date(operation.actualEndDate), 'MM-dd HH:mm', { locale: ko })}
+                                  {operation.inspectionResult && ` · ${operation.inspectionResult === 'PASS' ? '합격' : '불합격'}`}
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               <div className="flex justify-end space-x-4 pt-6">
                 <button
                   onClick={() => setShowModal(false)}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { Plus, Search, Eye, CheckCircle, Package, Download, Edit, Trash2 } from 'lucide-react';
+import { ScanInput, ScanResult } from '@/components/ui/scan-input';
 
 interface ReceiptItem {
   itemId: string;
@@ -9,8 +10,11 @@ interface ReceiptItem {
   itemCode?: string;
   orderedQuantity: number;
   receivedQuantity: number;
+  unit?: string;
+  baseQuantity?: number;
   unitPrice: number;
   totalPrice: number;
+  batchNumber?: string;
   notes?: string;
   qualityStatus?: 'PENDING' | 'PASSED' | 'FAILED';
   defectQuantity?: number;
@@ -185,8 +189,15 @@ export default function ReceiptsPage() {
         throw new Error('승인 처리에 실패했습니다.');
       }
 
+      const result = await response.json();
+      const putaway: Array<{ itemName: string; binCode: string; quantity: number }> = result.data?.putaway || [];
+
       await fetchReceipts();
-      alert('입고가 승인되었습니다.');
+      alert(
+        putaway.length > 0
+          ? `입고가 승인되었습니다.\n\n적치 위치:\n${putaway.map(p => `${p.itemName} ${p.quantity} → ${p.binCode}`).join('\n')}`
+          : '입고가 승인되었습니다.'
+      );
     } catch (err) {
       alert(err instanceof Error ? err.message : '승인 처리 중 오류가 발생했습니다.');
     }
@@ -506,7 +517,9 @@ export default function ReceiptsPage() {
                           <tr key={index}>
                             <td className="px-4 py-2 text-sm text-gray-900">{item.itemName}</td>
                             <td className="px-4 py-2 text-sm text-gray-900 text-right">{formatCurrency(item.orderedQuantity)}</td>
-                            <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">{formatCurrency(item.receivedQuantity)}</td>
+                            <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">
+                              {formatCurrency(item.receivedQuantity)} {item.unit}
+                            </td>
                             <td className="px-4 py-2 text-sm text-gray-900 text-right">₩{formatCurrency(item.unitPrice)}</td>
                             <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">₩{formatCurrency(item.totalPrice)}</td>
                             <td className="px-4 py-2 text-center">
@@ -626,7 +639,7 @@ function CreateReceiptModal({ onClose, onSuccess }: { onClose: () => void; onSuc
       });
       if (response.ok) {
         const data = await response.json();
-        setWarehouses(data.data || []);
+        setWarehouses(data.data?.warehouses || []);
       }
     } catch (error) {
       console.error('Error fetching warehouses:', error);
@@ -711,6 +724,51 @@ function CreateReceiptModal({ onClose, onSuccess }: { onClose: () => void; onSuc
     }
   };
 
+  // A bin label sets the receiving warehouse; item and lot labels add a line or count up the matching one
+  const handleScan = (result: ScanResult) => {
+    if (result.type === 'BIN' && result.warehouse) {
+      setFormData(prev => ({
+        ...prev,
+        warehouseId: result.warehouse!._id,
+        warehouseName: result.warehouse!.name
+      }));
+      return;
+    }
+
+    if ((result.type === 'ITEM' || result.type === 'LOT') && result.item) {
+      const scanned = result.item;
+      const batchNumber = result.lotNumber || '';
+      setItems(prev => {
+        const existing = prev.findIndex(item => item.itemId === scanned._id && (item.batchNumber || '') === batchNumber);
+        if (existing >= 0) {
+          return prev.map((item, i) => {
+            if (i !== existing) return item;
+            const receivedQuantity = item.receivedQuantity + 1;
+            return {
+              ...item,
+              orderedQuantity: Math.max(item.orderedQuantity, receivedQuantity),
+              receivedQuantity,
+              totalPrice: receivedQuantity * item.unitPrice
+            };
+          });
+        }
+        const line = {
+          itemId: scanned._id,
+          itemName: scanned.name,
+          itemCode: scanned.code,
+          orderedQuantity: 1,
+          receivedQuantity: 1,
+          unitPrice: 0,
+          totalPrice: 0,
+          batchNumber: batchNumber || undefined,
+          notes: ''
+        };
+        const blank = prev.findIndex(item => !item.itemId);
+        return blank >= 0 ? prev.map((item, i) => (i === blank ? line : item)) : [...prev, line];
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -756,6 +814,8 @@ function CreateReceiptModal({ onClose, onSuccess }: { onClose: () => void; onSuc
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <ScanInput onScan={handleScan} placeholder="품목, 로트 또는 로케이션 라벨을 스캔하세요" />
+
           <div className="grid grid-cols-2 gap-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -910,6 +970,9 @@ function CreateReceiptModal({ onClose, onSuccess }: { onClose: () => void; onSuc
                             </option>
                           ))}
                         </select>
+                        {item.batchNumber && (
+                          <p className="mt-1 text-xs text-gray-500">로트 {item.batchNumber}</p>
+                        )}
                       </td>
                       <td className="px-4 py-3">
                         <input
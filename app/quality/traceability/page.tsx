@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Search, ChevronDown, ChevronRight, Package, Factory, Truck, ClipboardCheck } from 'lucide-react';
+
+interface TraceEvent {
+  referenceNumber?: string;
+  partyName?: string;
+  warehouseName?: string;
+  quantity: number;
+  eventDate: string;
+}
+
+interface TraceNode {
+  lotNumber: string;
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  receipts: TraceEvent[];
+  shipments: TraceEvent[];
+  workOrders: Array<{
+    workOrderId: string;
+    workOrderNumber?: string;
+    quantity: number;
+    eventDate: string;
+    lots: TraceNode[];
+  }>;
+  truncated?: boolean;
+}
+
+interface Inspection {
+  _id: string;
+  qcNumber: string;
+  type: string;
+  inspectionDate: string;
+  status: string;
+  overallResult: 'PASS' | 'FAIL' | 'WARNING';
+}
+
+type Direction = 'backward' | 'forward';
+
+const resultColors = {
+  PASS: 'bg-green-100 text-green-800',
+  FAIL: 'bg-red-100 text-red-800',
+  WARNING: 'bg-yellow-100 text-yellow-800'
+};
+
+const formatDate = (dateString?: string) => {
+  return dateString ? new Date(dateString).toLocaleDateString('ko-KR') : '-';
+};
+
+export default function TraceabilityPage() {
+  const [lotNumber, setLotNumber] = useState('');
+  const [direction, setDirection] = useState<Direction>('backward');
+  const [roots, setRoots] = useState<TraceNode[]>([]);
+  const [inspections, setInspections] = useState<Record<string, Inspection[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [searched, setSearched] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lotNumber.trim()) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError('');
+      const response = await fetch(`/api/traceability/${encodeURIComponent(lotNumber.trim())}/${direction}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        }
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || '로트 이력을 불러오는데 실패했습니다.');
+      }
+
+      setRoots(result.data.roots || []);
+      setInspections(result.data.inspections || {});
+    } catch (err) {
+      setRoots([]);
+      setInspections({});
+      setError(err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setLoading(false);
+      setSearched(true);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">로트 추적</h1>
+        <p className="text-gray-600">원자재 입고 로트부터 작업지시, 완제품 로트, 고객 출하까지의 이력을 추적합니다.</p>
+      </div>
+
+      <form onSubmit={handleSearch} className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center space-x-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <input
+              type="text"
+              placeholder="로트(배치) 번호를 입력하세요"
+              value={lotNumber}
+              onChange={(e) => setLotNumber(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          <select
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as Direction)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="backward">역추적 (사용 원자재)</option>
+            <option value="forward">정추적 (사용처/출하처)</option>
+          </select>
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50"
+          >
+            {loading ? '조회 중...' : '조회'}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="text-red-800">{error}</div>
+        </div>
+      )}
+
+      {searched && !error && roots.length === 0 && (
+        <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">로트 이력이 없습니다.</div>
+      )}
+
+      {roots.map((root) => (
+        <div key={`${root.itemId}-${root.lotNumber}`} className="bg-white rounded-lg shadow p-6">
+          <LotNode node={root} direction={direction} inspections={inspections} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function LotNode({
+  node,
+  direction,
+  inspections
+}: {
+  node: TraceNode;
+  direction: Direction;
+  inspections: Record<string, Inspection[]>;
+}) {
+  const [expanded, setExpanded] = useState(true);
+  const hasChildren = node.workOrders.length > 0 || node.receipts.length > 0 || node.shipments.length > 0;
+  const lotInspections = inspections[node.lotNumber] || [];
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+          disabled={!hasChildren}
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <Package className="h-4 w-4 text-primary-600" />
+        <span className="font-medium text-gray-900">{node.lotNumber}</span>
+        <span className="text-sm text-gray-600">
+          {node.itemName} {node.itemCode && `(${node.itemCode})`}
+        </span>
+        {lotInspections.map((inspection) => (
+          <span
+            key={inspection._id}
+            className={`inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full ${resultColors[inspection.overallResult]}`}
+            title={`${inspection.type} ${formatDate(inspection.inspectionDate)}`}
+          >
+            <ClipboardCheck className="h-3 w-3 mr-1" />
+            {inspection.qcNumber}
+          </span>
+        ))}
+        {node.truncated && <span className="text-xs text-gray-400">(상위에 표시됨)</span>}
+      </div>
+
+      {expanded && hasChildren && (
+        <div className="ml-6 mt-2 pl-4 border-l border-gray-200 space-y-2">
+          {node.receipts.map((receipt, index) => (
+            <div key={`receipt-${index}`} className="flex items-center space-x-2 text-sm text-gray-700">
+              <Truck className="h-4 w-4 text-blue-500" />
+              <span>입고 {receipt.referenceNumber}</span>
+              <span className="text-gray-500">{receipt.partyName}</span>
+              <span>{receipt.quantity.toLocaleString()}</span>
+              <span className="text-gray-400">{formatDate(receipt.eventDate)}</span>
+            </div>
+          ))}
+
+          {node.workOrders.map((workOrder) => (
+            <div key={workOrder.workOrderId}>
+              <div className="flex items-center space-x-2 text-sm text-gray-700">
+                <Factory className="h-4 w-4 text-purple-500" />
+                <span>작업지시 {workOrder.workOrderNumber}</span>
+                <span className="text-gray-500">
+                  {direction === 'backward' ? '생산' : '투입'} {workOrder.quantity.toLocaleString()}
+                </span>
+                <span className="text-gray-400">{formatDate(workOrder.eventDate)}</span>
+              </div>
+              <div className="ml-6 mt-2 pl-4 border-l border-gray-200 space-y-2">
+                {workOrder.lots.map((lot) => (
+                  <LotNode
+                    key={`${lot.itemId}-${lot.lotNumber}`}
+                    node={lot}
+                    direction={direction}
+                    inspections={inspections}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {node.shipments.map((shipment, index) => (
+            <div key={`shipment-${index}`} className="flex items-center space-x-2 text-sm text-gray-700">
+              <Truck className="h-4 w-4 text-green-500" />
+              <span>출하 {shipment.referenceNumber}</span>
+              <span className="text-gray-500">{shipment.partyName}</span>
+              <span>{shipment.quantity.toLocaleString()}</span>
+              <span className="text-gray-400">{formatDate(shipment.eventDate)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState, useRef } from 'react';
+import { ScanLine } from 'lucide-react';
+
+export interface ScanResult {
+  type: 'ITEM' | 'LOT' | 'BIN' | 'WORK_ORDER';
+  item?: {
+    _id: string;
+    code: string;
+    name: string;
+    unit: string;
+  };
+  lotNumber?: string;
+  expirationDate?: string;
+  warehouses?: Array<{ _id: string; name: string }>;
+  bin?: {
+    _id: string;
+    code: string;
+  };
+  warehouse?: {
+    _id: string;
+    code: string;
+    name: string;
+  };
+  workOrder?: {
+    _id: string;
+    orderNumber: string;
+    status: string;
+  };
+}
+
+interface ScanInputProps {
+  onScan: (result: ScanResult) => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// Keyboard-wedge scanners type the label content followed by Enter, so a focused text field
+// is all that is needed; the code is resolved on the server and handed to the screen.
+export function ScanInput({ onScan, placeholder = '바코드/QR 라벨을 스캔하세요', autoFocus = true }: ScanInputProps) {
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const scanned = code.trim();
+    setCode('');
+    if (!scanned) return;
+
+    try {
+      const response = await fetch(`/api/inventory/labels/scan?code=${encodeURIComponent(scanned)}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Content-Type': 'application/json',
+        }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || '스캔한 코드를 확인할 수 없습니다.');
+      }
+
+      const result: ScanResult = data.data;
+      onScan(result);
+      setError(false);
+      setMessage(
+        result.type === 'LOT' ? `로트 ${result.lotNumber} (${result.item?.name})`
+          : result.type === 'BIN' ? `로케이션 ${result.bin?.code} (${result.warehouse?.name})`
+            : result.type === 'WORK_ORDER' ? `작업지시 ${result.workOrder?.orderNumber}`
+              : `품목 ${result.item?.name} (${result.item?.code})`
+      );
+    } catch (err) {
+      setError(true);
+      setMessage(err instanceof Error ? err.message : '스캔한 코드를 확인할 수 없습니다.');
+    } finally {
+      inputRef.current?.focus();
+    }
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <ScanLine className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoFocus={autoFocus}
+          placeholder={placeholder}
+          className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+        />
+      </div>
+      {message && (
+        <p className={`mt-1 text-xs ${error ? 'text-red-600' : 'text-green-700'}`}>{message}</p>
+      )}
+    </div>
+  );
+}
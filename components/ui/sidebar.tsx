@@ -33,7 +33,10 @@ const menuItems = [
     children: [
       { title: '회사정보 관리', href: '/master/companies' },
       { title: '품목/BOM 관리', href: '/master/items' },
+      { title: '품목 템플릿/변형', href: '/master/item-templates' },
       { title: '협력회사 관리', href: '/master/suppliers' },
+      { title: '창고 관리', href: '/master/warehouses' },
+      { title: '단위 관리', href: '/master/units' },
       { title: '사용자/부서 관리', href: '/master/users' }
     ]
   },
@@ -52,6 +55,7 @@ const menuItems = [
     icon: Factory,
     children: [
       { title: '생산계획 관리', href: '/production/plans' },
+      { title: 'MRP 자재소요계획', href: '/production/mrp' },
       { title: '작업지시 관리', href: '/production/work-orders' },
       { title: '생산실적 관리', href: '/production/results' },
       { title: '공정 관리', href: '/production/processes' },
@@ -65,7 +69,16 @@ const menuItems = [
     children: [
       { title: '재고현황 조회', href: '/inventory/status' },
       { title: '출고 관리', href: '/inventory/shipments' },
+      { title: '창고 이동 관리', href: '/inventory/transfers' },
       { title: '재고조정 관리', href: '/inventory/adjustments' },
+      { title: '유효기간 관리', href: '/inventory/expiring' },
+      { title: '재고 예약 현황', href: '/inventory/reservations' },
+      { title: '일련번호 관리', href: '/inventory/serials' },
+      { title: '바코드 라벨 출력', href: '/inventory/labels' },
+      { title: '위탁/사급 재고', href: '/inventory/consignment' },
+      { title: '재고 수불부', href: '/inventory/item-card' },
+      { title: '재고 평가', href: '/inventory/valuation' },
+      { title: '재고 마감 관리', href: '/inventory/periods' },
       { title: '안전재고 관리', href: '/inventory/safety-stock' }
     ]
   },
@@ -75,6 +88,7 @@ const menuItems = [
     children: [
       { title: '품질검사 관리', href: '/quality/inspections' },
       { title: '불량품 관리', href: '/quality/defects' },
+      { title: '로트 추적', href: '/quality/traceability' },
       { title: '품질분석 리포트', href: '/quality/reports' }
     ]
   },
@@ -0,0 +1,343 @@
+// Barcode symbol encoders for printed labels. Both return plain module data so the caller can
+// draw them at any size (vector rectangles in PDFs, pixels on a canvas).
+
+// Code 128 bar/space widths for symbol values 0-105, followed by the stop pattern
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+// Encodes printable ASCII with code set B. Returns one entry per module, true for a bar;
+// the caller adds the quiet zone.
+export const encodeCode128 = (text: string): boolean[] => {
+  const values = text.split('').map(char => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Code 128 라벨에 사용할 수 없는 문자입니다: ${char}`);
+    }
+    return code - 32;
+  });
+
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+  const symbols = [CODE128_START_B, ...values, checksum, CODE128_STOP];
+
+  const modules: boolean[] = [];
+  for (const symbol of symbols) {
+    CODE128_PATTERNS[symbol].split('').forEach((width, index) => {
+      for (let i = 0; i < Number(width); i++) {
+        modules.push(index % 2 === 0);
+      }
+    });
+  }
+  return modules;
+};
+
+// QR Code, byte mode at error correction level M, versions 1-10 (up to 213 bytes of UTF-8).
+// Follows ISO/IEC 18004: codewords are split into blocks, Reed-Solomon protected, interleaved,
+// placed in the zigzag order and masked with the pattern that scores the lowest penalty.
+const QR_MAX_VERSION = 10;
+const QR_ECC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const QR_NUM_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const QR_FORMAT_LEVEL_M = 0;
+
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) - QR_ECC_CODEWORDS_PER_BLOCK[version - 1] * QR_NUM_BLOCKS[version - 1];
+
+const alignmentPositions = (version: number, size: number) => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+// GF(256) arithmetic modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = new Array(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+const penaltyScore = (modules: boolean[][]) => {
+  const size = modules.length;
+  let penalty = 0;
+
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+
+  for (const line of lines) {
+    // Runs of five or more same-coloured modules
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) penalty += runLength - 2;
+        runLength = 1;
+      }
+    }
+    // Patterns that look like a finder pattern
+    const text = line.map(dark => dark ? '1' : '0').join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let index = text.indexOf(pattern); index !== -1; index = text.indexOf(pattern, index + 1)) {
+        penalty += 40;
+      }
+    }
+  }
+
+  // 2x2 blocks of one colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+  return penalty;
+};
+
+// Encodes text as a QR symbol. Returns rows of modules, true for dark; the caller adds the
+// four-module quiet zone.
+export const encodeQr = (text: string): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  let version = 1;
+  while (version <= QR_MAX_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) {
+    version++;
+  }
+  if (version > QR_MAX_VERSION) {
+    throw new Error('QR 라벨에 담기에는 내용이 너무 깁니다.');
+  }
+
+  // Mode indicator, character count, payload, terminator and pad bytes
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  appendBits(0x4, 4);
+  appendBits(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => appendBits(byte, 8));
+
+  const capacityBits = dataCodewords(version) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  // Split into blocks, add error correction and interleave
+  const numBlocks = QR_NUM_BLOCKS[version - 1];
+  const eccLength = QR_ECC_CODEWORDS_PER_BLOCK[version - 1];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - eccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    // Short blocks get a placeholder so every block has the same length for interleaving
+    if (i < numShortBlocks) blockData.push(-1);
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach(block => {
+      if (block[i] !== -1) codewords.push(block[i]);
+    });
+  }
+
+  // Function patterns
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  const positions = alignmentPositions(version, size);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => positions.forEach((cy, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }));
+
+  const drawFormatBits = (mask: number) => {
+    const formatData = (QR_FORMAT_LEVEL_M << 3) | mask;
+    let remainder = formatData;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const formatBits = ((formatData << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((formatBits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormatBits(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((versionBits >>> i) & 1) !== 0;
+      const a = size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  // Codewords in the two-column zigzag, skipping the vertical timing pattern
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0;
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const penalty = penaltyScore(modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(mask); // XOR again to undo
+  }
+
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+  return modules;
+};
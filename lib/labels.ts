@@ -0,0 +1,126 @@
+import { encodeCode128, encodeQr } from '@/lib/barcode';
+
+export type LabelFormat = 'CODE128' | 'QR';
+
+export interface LabelData {
+  key: string;
+  title: string;
+  code: string;
+  details: string[];
+  payload: string;
+}
+
+// A4 sheet of 3 x 8 labels, 70 x 37 mm each (the common 24-up label stock)
+const PAGE = { width: 210, height: 297 };
+const LABEL = { width: 70, height: 37, columns: 3, rows: 8 };
+const MARGIN = { x: (PAGE.width - LABEL.width * LABEL.columns) / 2, y: (PAGE.height - LABEL.height * LABEL.rows) / 2 };
+const PADDING = 3;
+const PX_PER_MM = 12;
+
+// The built-in PDF fonts have no Hangul, so label text is rendered on a canvas and placed as an image
+const renderText = (
+  lines: Array<{ text: string; size: number; bold?: boolean }>,
+  width: number,
+  height: number,
+  align: 'left' | 'center' = 'left'
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * PX_PER_MM);
+  canvas.height = Math.round(height * PX_PER_MM);
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#000';
+  context.textBaseline = 'top';
+  context.textAlign = align;
+
+  let y = 0;
+  for (const line of lines) {
+    const fontSize = line.size * PX_PER_MM;
+    context.font = `${line.bold ? 'bold ' : ''}${fontSize}px sans-serif`;
+    let text = line.text;
+    while (text.length > 1 && context.measureText(text).width > canvas.width) {
+      text = text.slice(0, -2) + '…';
+    }
+    context.fillText(text, align === 'center' ? canvas.width / 2 : 0, y);
+    y += fontSize * 1.25;
+  }
+  return canvas.toDataURL('image/png');
+};
+
+// Builds a printable PDF of labels with vector Code 128 or QR symbols and downloads it
+export const downloadLabels = async (labels: LabelData[], format: LabelFormat, filename: string) => {
+  try {
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const perPage = LABEL.columns * LABEL.rows;
+
+    labels.forEach((label, index) => {
+      if (index > 0 && index % perPage === 0) {
+        doc.addPage();
+      }
+      const slot = index % perPage;
+      const x = MARGIN.x + (slot % LABEL.columns) * LABEL.width;
+      const y = MARGIN.y + Math.floor(slot / LABEL.columns) * LABEL.height;
+      doc.setFillColor(0, 0, 0);
+
+      if (format === 'QR') {
+        const modules = encodeQr(label.payload);
+        // Four-module quiet zone on every side
+        const symbolSize = LABEL.height - PADDING * 2;
+        const moduleSize = symbolSize / (modules.length + 8);
+        modules.forEach((row, rowIndex) => {
+          // Merge horizontal runs so the PDF stays small
+          for (let col = 0; col < row.length; col++) {
+            if (!row[col]) continue;
+            let end = col;
+            while (end + 1 < row.length && row[end + 1]) end++;
+            doc.rect(
+              x + PADDING + (col + 4) * moduleSize,
+              y + PADDING + (rowIndex + 4) * moduleSize,
+              (end - col + 1) * moduleSize,
+              moduleSize,
+              'F'
+            );
+            col = end;
+          }
+        });
+
+        const textX = x + PADDING + symbolSize + 1;
+        const textWidth = LABEL.width - (textX - x) - PADDING;
+        const textHeight = LABEL.height - PADDING * 2;
+        doc.addImage(renderText([
+          { text: label.title, size: 3.2, bold: true },
+          { text: label.code, size: 2.8 },
+          ...label.details.map(detail => ({ text: detail, size: 2.4 }))
+        ], textWidth, textHeight), 'PNG', textX, y + PADDING + 1, textWidth, textHeight);
+      } else {
+        const modules = encodeCode128(label.payload);
+        const barWidth = LABEL.width - PADDING * 2;
+        // Ten-module quiet zone on both sides
+        const moduleWidth = barWidth / (modules.length + 20);
+        const barTop = y + PADDING + 9;
+        const barHeight = 15;
+        for (let i = 0; i < modules.length; i++) {
+          if (!modules[i]) continue;
+          let end = i;
+          while (end + 1 < modules.length && modules[end + 1]) end++;
+          doc.rect(x + PADDING + (i + 10) * moduleWidth, barTop, (end - i + 1) * moduleWidth, barHeight, 'F');
+          i = end;
+        }
+
+        doc.addImage(renderText([
+          { text: label.title, size: 3.2, bold: true },
+          { text: [label.code, ...label.details].join(' · '), size: 2.4 }
+        ], barWidth, 8), 'PNG', x + PADDING, y + PADDING, barWidth, 8);
+        doc.addImage(renderText([
+          { text: label.payload, size: 2.6 }
+        ], barWidth, 4, 'center'), 'PNG', x + PADDING, barTop + barHeight + 0.8, barWidth, 4);
+      }
+    });
+
+    doc.save(`${filename}.pdf`);
+    return true;
+  } catch (error) {
+    console.error('Label generation failed:', error);
+    return false;
+  }
+};
@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+import { connectDB } from '../src/config/database';
+
+dotenv.config();
+import { migrateStockOwnerIndex } from '../src/jobs/consignment';
+
+const migrate = async () => {
+  try {
+    console.log('🔄 Migrating inventory stock indexes...');
+
+    await connectDB();
+    const dropped = await migrateStockOwnerIndex();
+
+    console.log('✅ Inventory stock migration completed successfully!');
+    console.log(dropped
+      ? '  🗂️  Dropped the item/warehouse unique index; rows are now unique per owner'
+      : '  🗂️  Already unique per owner; nothing to change');
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating inventory stock:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migrate();
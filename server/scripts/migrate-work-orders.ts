@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+import { connectDB } from '../src/config/database';
+
+dotenv.config();
+import { migrateWorkOrders } from '../src/jobs/work-orders';
+
+const migrate = async () => {
+  try {
+    console.log('🔄 Migrating work orders...');
+
+    await connectDB();
+    const { converted, drafts, released } = await migrateWorkOrders();
+
+    console.log('✅ Work order migration completed successfully!');
+    console.log(`  🏭 Converted from the former production model: ${converted}`);
+    console.log(`  📝 Pending orders moved to DRAFT: ${drafts}`);
+    console.log(`  🚚 Pending orders moved to RELEASED: ${released}`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error migrating work orders:', error);
+    process.exit(1);
+  }
+};
+
+// Run migration
+migrate();
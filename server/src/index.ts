@@ -5,6 +5,8 @@ import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { connectDB } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
+import { scheduleReorderJob } from './jobs/reorder';
+import { scheduleClassificationJob } from './jobs/classification';
 
 // Set UTF-8 encoding for Node.js process
 process.env.LC_ALL = 'C.UTF-8';
@@ -16,9 +18,16 @@ import companyRoutes from './routes/companies';
 import supplierRoutes from './routes/suppliers';
 import adminRoutes from './routes/admin';
 import itemRoutes from './routes/items';
+import unitRoutes from './routes/units';
+import itemTemplateRoutes from './routes/item-templates';
+import bomRoutes from './routes/boms';
+import routingRoutes from './routes/routings';
 import purchaseRoutes from './routes/purchase';
 import inventoryRoutes from './routes/inventory';
 import productionRoutes from './routes/production';
+import mrpRoutes from './routes/mrp';
+import workCenterRoutes from './routes/work-centers';
+import schedulingRoutes from './routes/scheduling';
 import qualityRoutes from './routes/quality';
 import salesRoutes from './routes/sales';
 import reportsRoutes from './routes/reports';
@@ -27,8 +36,20 @@ import purchaseRequestRoutes from './routes/purchase-request';
 import receiptRoutes from './routes/receipt';
 import dashboardRoutes from './routes/dashboard';
 import qualityInspectionRoutes from './routes/quality-inspection';
-import workOrderRoutes from './routes/work-orders';
 import productionPlanRoutes from './routes/production-plans';
+import warehouseRoutes from './routes/warehouses';
+import storageBinRoutes from './routes/storage-bins';
+import transferRoutes from './routes/transfers';
+import stockCountRoutes from './routes/stock-counts';
+import serialRoutes from './routes/serials';
+import reservationRoutes from './routes/reservations';
+import valuationRoutes from './routes/valuation';
+import reorderRoutes from './routes/reorder';
+import safetyStockRoutes from './routes/safety-stock';
+import consignmentRoutes from './routes/consignment';
+import labelRoutes from './routes/labels';
+import inventoryPeriodRoutes from './routes/inventory-periods';
+import traceabilityRoutes from './routes/traceability';
 
 dotenv.config();
 
@@ -83,8 +104,27 @@ app.use('/api/companies', companyRoutes);
 app.use('/api/suppliers', supplierRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/items', itemRoutes);
+app.use('/api/units', unitRoutes);
+app.use('/api/item-templates', itemTemplateRoutes);
+app.use('/api/boms', bomRoutes);
+app.use('/api/routings', routingRoutes);
 app.use('/api/purchase', purchaseRoutes);
+app.use('/api/inventory/warehouses/:warehouseId/bins', storageBinRoutes);
+app.use('/api/inventory/warehouses', warehouseRoutes);
+app.use('/api/inventory/transfers', transferRoutes);
+app.use('/api/inventory/counts', stockCountRoutes);
+app.use('/api/inventory/serials', serialRoutes);
+app.use('/api/inventory/reservations', reservationRoutes);
+app.use('/api/inventory/valuation', valuationRoutes);
+app.use('/api/inventory/reorder', reorderRoutes);
+app.use('/api/inventory/safety-stock', safetyStockRoutes);
+app.use('/api/inventory/consignment', consignmentRoutes);
+app.use('/api/inventory/labels', labelRoutes);
+app.use('/api/inventory/periods', inventoryPeriodRoutes);
 app.use('/api/inventory', inventoryRoutes);
+app.use('/api/production/mrp', mrpRoutes);
+app.use('/api/production/work-centers', workCenterRoutes);
+app.use('/api/production/schedule', schedulingRoutes);
 app.use('/api/production', productionRoutes);
 app.use('/api/quality', qualityRoutes);
 app.use('/api/sales', salesRoutes);
@@ -94,8 +134,8 @@ app.use('/api/purchase-requests', purchaseRequestRoutes);
 app.use('/api/receipts', receiptRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/quality-inspections', qualityInspectionRoutes);
-app.use('/api/work-orders', workOrderRoutes);
 app.use('/api/production-plans', productionPlanRoutes);
+app.use('/api/traceability', traceabilityRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -118,6 +158,9 @@ const startServer = async () => {
       console.log(`📊 Environment: ${process.env.NODE_ENV}`);
       console.log(`🔗 Health check: http://localhost:${PORT}/health`);
     });
+
+    scheduleReorderJob();
+    scheduleClassificationJob();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,159 @@
+import { ClientSession, Types } from 'mongoose';
+import { InventoryTransaction, IInventoryTransaction } from '../models/InventoryTransaction';
+import { InventoryPeriod } from '../models/InventoryPeriod';
+import { InventoryRecalculation, IInventoryRecalculation, IRecalculationChange } from '../models/InventoryRecalculation';
+
+interface IPostingDate {
+  date: Date;
+  error?: string;
+}
+
+interface IResequenceResult {
+  recalculation: IInventoryRecalculation | null;
+  // First transaction whose balance would fall below zero in a warehouse that does not allow it
+  negativeAt?: IInventoryTransaction;
+  // Closed period the posting would reach into; nothing is rewritten then
+  closedPeriod?: string;
+}
+
+const EPSILON = 1e-6;
+
+const signedQuantity = (transaction: IInventoryTransaction) =>
+  transaction.transactionType === 'OUT' ? -Math.abs(transaction.quantity) : transaction.quantity;
+
+const differs = (before?: number, after?: number) =>
+  (before === undefined) !== (after === undefined) || Math.abs((before || 0) - (after || 0)) > EPSILON;
+
+// Works out when a movement is booked. Without a date it is now; a date on an earlier day
+// backdates it, which is refused for future days and for months that have been closed.
+export const resolvePostingDate = async (value: string | undefined, session: ClientSession): Promise<IPostingDate> => {
+  const now = new Date();
+  if (!value) {
+    return { date: now };
+  }
+
+  const date = new Date(value);
+  if (date.toDateString() === now.toDateString()) {
+    return { date: now };
+  }
+  if (date > now) {
+    return { date, error: '미래 일자로는 처리할 수 없습니다.' };
+  }
+  if (await InventoryPeriod.isClosed(date, session)) {
+    return { date, error: `${InventoryPeriod.periodOf(date)} 재고 기간이 마감되어 해당 일자로 처리할 수 없습니다.` };
+  }
+  return { date };
+};
+
+// Slots a newly saved transaction into the item's history by date. Every later transaction for
+// the same item, warehouse and owner gets its running previous/current quantity rebuilt, and
+// later company-stock issues are repriced at the moving average as it now stands at their date.
+// Rows before the new one keep their stored balances. Rewritten rows are recorded in an audit
+// entry; nothing is written when the new balances would go negative and the warehouse forbids it,
+// or when the posting itself lies in a closed period, since every row after it would then too.
+// Periods close in order, so rows after an open posting date are never in a closed period.
+export const resequenceTransactions = async (
+  posted: IInventoryTransaction,
+  allowNegative: boolean,
+  user: { id: string; name: string },
+  session: ClientSession | null
+): Promise<IResequenceResult> => {
+  const rows = await InventoryTransaction.find({
+    itemId: posted.itemId,
+    warehouseId: posted.warehouseId,
+    ownerId: posted.ownerId || null,
+    isActive: true
+  })
+    .sort({ transactionDate: 1, createdAt: 1 })
+    .session(session);
+
+  const start = rows.findIndex(row => row._id.toString() === posted._id.toString());
+  if (start < 0 || start === rows.length - 1) {
+    return { recalculation: null };
+  }
+  if (await InventoryPeriod.isClosed(posted.transactionDate, session)) {
+    return { recalculation: null, closedPeriod: InventoryPeriod.periodOf(posted.transactionDate) };
+  }
+
+  // Consigned and customer-owned stock carries the owner's agreed price, not our average
+  const reprice = !posted.ownerId;
+  const changes: IRecalculationChange[] = [];
+  const rewritten: IInventoryTransaction[] = [];
+  let negativeAt: IInventoryTransaction | undefined;
+  let quantity = 0;
+  let averageCost = 0;
+
+  rows.forEach((row, index) => {
+    const delta = signedQuantity(row);
+    const opening = index < start ? row.previousQuantity : quantity;
+
+    if (index >= start) {
+      const before = {
+        previousQuantity: row.previousQuantity,
+        currentQuantity: row.currentQuantity,
+        unitPrice: row.unitPrice
+      };
+      row.previousQuantity = opening;
+      row.currentQuantity = opening + delta;
+      if (reprice && row.transactionType === 'OUT' && averageCost > 0) {
+        row.unitPrice = averageCost;
+      }
+
+      if (!allowNegative && row.currentQuantity < 0 && !negativeAt) {
+        negativeAt = row;
+      }
+      if (
+        differs(before.previousQuantity, row.previousQuantity) ||
+        differs(before.currentQuantity, row.currentQuantity) ||
+        differs(before.unitPrice, row.unitPrice)
+      ) {
+        changes.push({
+          transactionId: new Types.ObjectId(row._id),
+          transactionNumber: row.transactionNumber,
+          transactionDate: row.transactionDate,
+          transactionType: row.transactionType,
+          previousQuantity: { before: before.previousQuantity, after: row.previousQuantity },
+          currentQuantity: { before: before.currentQuantity, after: row.currentQuantity },
+          unitPrice: { before: before.unitPrice, after: row.unitPrice }
+        });
+        rewritten.push(row);
+      }
+    }
+
+    if (delta > 0) {
+      const unitCost = row.unitPrice ?? averageCost;
+      const base = Math.max(0, opening);
+      averageCost = (base * averageCost + delta * unitCost) / (base + delta);
+    }
+    quantity = index < start ? row.currentQuantity : opening + delta;
+  });
+
+  if (negativeAt) {
+    return { recalculation: null, negativeAt };
+  }
+  if (changes.length === 0) {
+    return { recalculation: null };
+  }
+
+  for (const row of rewritten) {
+    await row.save({ session });
+  }
+
+  const recalculation = new InventoryRecalculation({
+    triggerTransactionId: posted._id,
+    triggerTransactionNumber: posted.transactionNumber,
+    postedDate: posted.transactionDate,
+    itemId: posted.itemId,
+    itemName: posted.itemName,
+    itemCode: posted.itemCode,
+    warehouseId: posted.warehouseId,
+    warehouseName: posted.warehouseName,
+    ownerId: posted.ownerId,
+    changes,
+    userId: user.id,
+    userName: user.name
+  });
+  await recalculation.save({ session });
+
+  return { recalculation };
+};
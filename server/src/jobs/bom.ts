@@ -0,0 +1,269 @@
+import { ClientSession } from 'mongoose';
+import Item, { IItem } from '../models/Item';
+import { BOM, IBOM } from '../models/Production';
+import { activeBOM, resolveBOM, IResolvedBOMLine } from './variants';
+
+type BOMStatus = 'CURRENT' | 'SCHEDULED' | 'SUPERSEDED' | 'INACTIVE';
+
+interface IExplosionRow {
+  level: number;
+  path: string; // position in the tree, e.g. 1.2.1
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  unit?: string; // base unit of the component
+  quantityPer: number; // per one unit of the parent
+  totalQuantity: number;
+  bomId?: string; // BOM the row is a line of
+  substitutedFrom?: string;
+  hasChildren: boolean;
+}
+
+interface IRequirement {
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  unit?: string;
+  quantity: number;
+}
+
+interface IExplosion {
+  rows: IExplosionRow[];
+  requirements: IRequirement[]; // leaf components summed over the whole tree
+  error?: string;
+}
+
+interface IWhereUsedRow {
+  level: number;
+  itemId: string; // the parent using the component
+  itemCode: string;
+  itemName: string;
+  bomId: string;
+  bomNumber: string;
+  version: number;
+  quantity: number; // of the component per one unit of the parent, in its base unit
+  templateCode?: string; // set when the parent uses the component through its template BOM
+}
+
+const MAX_LEVELS = 20;
+
+export const bomStatus = (bom: IBOM, currentId?: string, now = new Date()): BOMStatus => {
+  if (!bom.isActive) return 'INACTIVE';
+  if (bom.effectiveDate > now) return 'SCHEDULED';
+  return bom._id.toString() === currentId ? 'CURRENT' : 'SUPERSEDED';
+};
+
+const bomLines = (bom: IBOM): IResolvedBOMLine[] => bom.items.map(line => ({
+  itemId: line.itemId.toString(),
+  quantity: line.quantity,
+  unit: line.unit,
+  baseQuantity: line.baseQuantity ?? line.quantity,
+  baseUnit: line.baseUnit,
+  notes: line.notes
+}));
+
+// Expands BOM lines level by level. Lower levels use whatever version of each component's BOM is
+// in effect at the date, so the tree shows what would actually be built.
+const explode = async (
+  bom: IBOM,
+  lines: IResolvedBOMLine[],
+  rootId: string | undefined,
+  quantity: number,
+  date: Date,
+  session: ClientSession | null
+): Promise<IExplosion> => {
+  const rows: IExplosionRow[] = [];
+  const requirements = new Map<string, IRequirement>();
+
+  const visit = async (
+    parent: IBOM,
+    parentLines: IResolvedBOMLine[],
+    parentQuantity: number,
+    level: number,
+    path: string,
+    ancestors: string[]
+  ): Promise<string | undefined> => {
+    if (level > MAX_LEVELS) {
+      return `BOM is deeper than ${MAX_LEVELS} levels`;
+    }
+
+    const components = await Item.find({ _id: { $in: parentLines.map(line => line.itemId) } }).session(session);
+    for (const [index, line] of parentLines.entries()) {
+      const component = components.find(candidate => candidate._id.toString() === line.itemId);
+      if (!component) continue;
+      if (ancestors.includes(line.itemId)) {
+        return `${component.code} is used within its own BOM`;
+      }
+
+      const quantityPer = line.baseQuantity / parent.outputQuantity;
+      const row: IExplosionRow = {
+        level,
+        path: `${path}${index + 1}`,
+        itemId: line.itemId,
+        itemCode: component.code,
+        itemName: component.name,
+        unit: component.unit,
+        quantityPer,
+        totalQuantity: quantityPer * parentQuantity,
+        bomId: parent._id.toString(),
+        substitutedFrom: line.substitutedFrom,
+        hasChildren: false
+      };
+      rows.push(row);
+
+      const child = await resolveBOM(component, session, date);
+      if (child.error) {
+        return child.error;
+      }
+      if (child.bom && child.lines.length) {
+        row.hasChildren = true;
+        const error = await visit(child.bom, child.lines, row.totalQuantity, level + 1, `${row.path}.`, [...ancestors, line.itemId]);
+        if (error) return error;
+      } else {
+        const requirement = requirements.get(line.itemId);
+        requirements.set(line.itemId, {
+          itemId: line.itemId,
+          itemCode: component.code,
+          itemName: component.name,
+          unit: component.unit,
+          quantity: (requirement?.quantity || 0) + row.totalQuantity
+        });
+      }
+    }
+    return undefined;
+  };
+
+  const error = await visit(bom, lines, quantity, 1, '', rootId ? [rootId] : []);
+  return { rows, requirements: [...requirements.values()], error };
+};
+
+// Explodes one BOM version as stored
+export const explodeBOM = (
+  bom: IBOM,
+  quantity: number,
+  date = new Date(),
+  session: ClientSession | null = null
+) => explode(bom, bomLines(bom), bom.productId?.toString(), quantity, date, session);
+
+// Explodes the BOM an item is built from at the date, resolving template BOMs for variants
+export const explodeItem = async (
+  item: IItem,
+  quantity: number,
+  date = new Date(),
+  session: ClientSession | null = null
+): Promise<IExplosion & { bom: IBOM | null }> => {
+  const { bom, lines, error } = await resolveBOM(item, session, date);
+  if (!bom || error) {
+    return { bom, rows: [], requirements: [], error };
+  }
+  return { bom, ...await explode(bom, lines, item._id.toString(), quantity, date, session) };
+};
+
+// Items that would contain themselves if the components were added under any of the parents.
+// Every active version counts, including scheduled ones, so no future date can close a loop.
+export const findCycle = async (
+  parentIds: string[],
+  componentIds: string[],
+  session: ClientSession | null = null
+): Promise<string[] | null> => {
+  const visited = new Set<string>();
+
+  const walk = async (itemId: string, path: string[]): Promise<string[] | null> => {
+    if (parentIds.includes(itemId)) {
+      return [...path, itemId];
+    }
+    if (visited.has(itemId) || path.length > MAX_LEVELS) {
+      return null;
+    }
+    visited.add(itemId);
+
+    const item = await Item.findById(itemId).select('templateId').session(session);
+    const boms = await BOM.find({
+      isActive: true,
+      $or: [{ productId: itemId }, ...(item?.templateId ? [{ templateId: item.templateId }] : [])]
+    }).select('items.itemId substitutions.substituteItemId').session(session);
+
+    const children = new Set<string>();
+    for (const bom of boms) {
+      bom.items.forEach(line => children.add(line.itemId.toString()));
+      bom.substitutions.forEach(rule => children.add(rule.substituteItemId.toString()));
+    }
+    for (const child of children) {
+      const cycle = await walk(child, [...path, itemId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const componentId of componentIds) {
+    const cycle = await walk(componentId, []);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+// Parents that use an item in the BOM version currently in effect, walking up to the top-level
+// products. Template BOMs are resolved per variant, so substitutions are taken into account.
+export const whereUsed = async (itemId: string, session: ClientSession | null = null): Promise<IWhereUsedRow[]> => {
+  const rows: IWhereUsedRow[] = [];
+  const visited = new Set<string>();
+
+  const visit = async (componentId: string, level: number) => {
+    if (level > MAX_LEVELS || visited.has(componentId)) return;
+    visited.add(componentId);
+
+    const candidates = await BOM.find({
+      isActive: true,
+      effectiveDate: { $lte: new Date() },
+      $or: [{ 'items.itemId': componentId }, { 'substitutions.substituteItemId': componentId }]
+    }).populate('templateId', 'code').session(session);
+
+    const parents: Array<{ parent: IItem; bom: IBOM; quantity: number; templateCode?: string }> = [];
+    for (const bom of candidates) {
+      if (bom.productId) {
+        const current = await activeBOM({ productId: bom.productId }, session);
+        const parent = await Item.findById(bom.productId).session(session);
+        const line = bom.items.find(candidate => candidate.itemId.toString() === componentId);
+        if (parent && line && current?._id.toString() === bom._id.toString()) {
+          parents.push({ parent, bom, quantity: (line.baseQuantity ?? line.quantity) / bom.outputQuantity });
+        }
+        continue;
+      }
+
+      // Variants with a BOM of their own do not use the template BOM
+      const template = bom.templateId as unknown as { _id: string; code: string };
+      const current = await activeBOM({ templateId: template._id }, session);
+      if (current?._id.toString() !== bom._id.toString()) continue;
+      const variants = await Item.find({ templateId: template._id }).session(session);
+      for (const variant of variants) {
+        const resolved = await resolveBOM(variant, session);
+        const line = resolved.bom?._id.toString() === bom._id.toString()
+          ? resolved.lines.find(candidate => candidate.itemId === componentId)
+          : undefined;
+        if (line) {
+          parents.push({ parent: variant, bom, quantity: line.baseQuantity / bom.outputQuantity, templateCode: template.code });
+        }
+      }
+    }
+
+    for (const { parent, bom, quantity, templateCode } of parents) {
+      rows.push({
+        level,
+        itemId: parent._id.toString(),
+        itemCode: parent.code,
+        itemName: parent.name,
+        bomId: bom._id.toString(),
+        bomNumber: bom.bomNumber,
+        version: bom.version,
+        quantity,
+        templateCode
+      });
+      await visit(parent._id.toString(), level + 1);
+    }
+  };
+
+  await visit(itemId, 1);
+  return rows;
+};
+
+export type { BOMStatus, IExplosionRow, IRequirement, IExplosion, IWhereUsedRow };
@@ -0,0 +1,165 @@
+import { Item } from '../models/Item';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+
+type AbcClass = 'A' | 'B' | 'C';
+type XyzClass = 'X' | 'Y' | 'Z';
+
+interface IItemClassification {
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  consumptionQuantity: number;
+  consumptionValue: number;
+  valueShare: number;
+  variationCoefficient: number | null;
+  abcClass: AbcClass;
+  xyzClass: XyzClass;
+}
+
+interface IClassificationResult {
+  periodStart: Date;
+  periodEnd: Date;
+  classifiedAt: Date;
+  summary: Record<AbcClass, { itemCount: number; consumptionValue: number }>;
+  xyzSummary: Record<XyzClass, number>;
+  items: IItemClassification[];
+}
+
+// Cumulative share of consumption value closing classes A and B
+const ABC_THRESHOLDS = { A: 0.8, B: 0.95 };
+// Coefficient of variation of monthly demand closing classes X and Y
+const XYZ_THRESHOLDS = { X: 0.5, Y: 1.0 };
+const DEFAULT_PERIOD_MONTHS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ranks active items by OUT consumption over the last `months` complete months and stores
+// abcClass/xyzClass on each item. Items with no consumption end up C/Z.
+export const classifyItems = async (
+  asOf: Date = new Date(),
+  months: number = DEFAULT_PERIOD_MONTHS
+): Promise<IClassificationResult> => {
+  const periodEnd = new Date(asOf.getFullYear(), asOf.getMonth(), 1);
+  const periodStart = new Date(asOf.getFullYear(), asOf.getMonth() - months, 1);
+
+  const [items, monthly] = await Promise.all([
+    Item.find({ isActive: true }).select('code name cost'),
+    InventoryTransaction.aggregate([
+      {
+        $match: {
+          transactionType: 'OUT',
+          isActive: true,
+          transactionDate: { $gte: periodStart, $lt: periodEnd }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            itemId: '$itemId',
+            year: { $year: '$transactionDate' },
+            month: { $month: '$transactionDate' }
+          },
+          quantity: { $sum: { $abs: '$quantity' } },
+          value: { $sum: { $ifNull: ['$totalValue', 0] } }
+        }
+      }
+    ])
+  ]);
+
+  const usage = new Map<string, { quantities: number[]; value: number }>();
+  for (const row of monthly) {
+    const key = row._id.itemId.toString();
+    const entry = usage.get(key) || { quantities: new Array(months).fill(0), value: 0 };
+    const index = (row._id.year - periodStart.getFullYear()) * 12 + (row._id.month - 1 - periodStart.getMonth());
+    if (index >= 0 && index < months) {
+      entry.quantities[index] += row.quantity;
+    }
+    entry.value += row.value;
+    usage.set(key, entry);
+  }
+
+  const ranked = items.map(item => {
+    const entry = usage.get(item._id.toString());
+    const quantities = entry?.quantities || new Array(months).fill(0);
+    const consumptionQuantity = quantities.reduce((sum, quantity) => sum + quantity, 0);
+    // Issues posted without a price are valued at the item's cost
+    const consumptionValue = entry?.value || consumptionQuantity * (item.cost || 0);
+
+    const mean = consumptionQuantity / months;
+    const variance = quantities.reduce((sum, quantity) => sum + (quantity - mean) ** 2, 0) / months;
+    const variationCoefficient = mean > 0 ? Math.sqrt(variance) / mean : null;
+
+    return { item, consumptionQuantity, consumptionValue, variationCoefficient };
+  }).sort((a, b) => b.consumptionValue - a.consumptionValue);
+
+  const totalValue = ranked.reduce((sum, entry) => sum + entry.consumptionValue, 0);
+  const classifiedAt = new Date();
+  const summary: IClassificationResult['summary'] = {
+    A: { itemCount: 0, consumptionValue: 0 },
+    B: { itemCount: 0, consumptionValue: 0 },
+    C: { itemCount: 0, consumptionValue: 0 }
+  };
+  const xyzSummary: IClassificationResult['xyzSummary'] = { X: 0, Y: 0, Z: 0 };
+
+  let cumulative = 0;
+  const classified: IItemClassification[] = ranked.map(entry => {
+    // An item belongs to the class its cumulative share starts in, so the top item is always A
+    const share = totalValue > 0 ? cumulative / totalValue : 1;
+    cumulative += entry.consumptionValue;
+
+    const abcClass: AbcClass = entry.consumptionValue <= 0
+      ? 'C'
+      : share < ABC_THRESHOLDS.A ? 'A' : share < ABC_THRESHOLDS.B ? 'B' : 'C';
+    const xyzClass: XyzClass = entry.variationCoefficient === null
+      ? 'Z'
+      : entry.variationCoefficient <= XYZ_THRESHOLDS.X ? 'X' : entry.variationCoefficient <= XYZ_THRESHOLDS.Y ? 'Y' : 'Z';
+
+    summary[abcClass].itemCount += 1;
+    summary[abcClass].consumptionValue += entry.consumptionValue;
+    xyzSummary[xyzClass] += 1;
+
+    return {
+      itemId: entry.item._id.toString(),
+      itemCode: entry.item.code,
+      itemName: entry.item.name,
+      consumptionQuantity: entry.consumptionQuantity,
+      consumptionValue: entry.consumptionValue,
+      valueShare: totalValue > 0 ? entry.consumptionValue / totalValue : 0,
+      variationCoefficient: entry.variationCoefficient,
+      abcClass,
+      xyzClass
+    };
+  });
+
+  if (classified.length > 0) {
+    await Item.bulkWrite(classified.map(entry => ({
+      updateOne: {
+        filter: { _id: entry.itemId },
+        update: { $set: { abcClass: entry.abcClass, xyzClass: entry.xyzClass, classifiedAt } }
+      }
+    })));
+  }
+
+  return { periodStart, periodEnd, classifiedAt, summary, xyzSummary, items: classified };
+};
+
+// Checks daily and reclassifies once per calendar month
+export const scheduleClassificationJob = () => {
+  const runIfDue = async () => {
+    try {
+      const now = new Date();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const alreadyRun = await Item.exists({ classifiedAt: { $gte: monthStart } });
+      if (alreadyRun) return;
+
+      const { summary } = await classifyItems(now);
+      console.log(`📊 ABC/XYZ classification refreshed (A ${summary.A.itemCount}, B ${summary.B.itemCount}, C ${summary.C.itemCount})`);
+    } catch (error) {
+      console.error('❌ Classification job failed:', error);
+    }
+  };
+
+  runIfDue();
+  return setInterval(runIfDue, DAY_MS);
+};
+
+export type { IItemClassification, IClassificationResult, AbcClass, XyzClass };
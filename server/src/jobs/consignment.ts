@@ -0,0 +1,125 @@
+import { ClientSession } from 'mongoose';
+import { PurchaseOrder, IPurchaseOrder } from '../models/Purchase';
+import { Receipt, IReceipt } from '../models/Receipt';
+import { Company } from '../models/Company';
+import { InventoryStock } from '../models/InventoryStock';
+
+interface IConsumedLine {
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  quantity: number;
+  unitPrice: number;
+  batchNumber?: string;
+}
+
+interface IConsignmentSettlement {
+  order: IPurchaseOrder;
+  receipt: IReceipt;
+}
+
+const VAT_RATE = 0.1;
+
+// Turns consumed supplier-owned stock into a received purchase order and a completed receipt,
+// so the supplier can invoice it through the normal purchasing documents. The goods already sit
+// in the warehouse, so the receipt does not move stock again.
+export const settleConsignment = async (
+  supplierId: string,
+  warehouse: { id: string; name: string },
+  lines: IConsumedLine[],
+  userId: string,
+  session: ClientSession,
+  referenceNumber?: string
+): Promise<IConsignmentSettlement> => {
+  const supplier = await Company.findById(supplierId).select('name').session(session);
+  const now = new Date();
+  const currentYear = now.getFullYear();
+
+  // Quantities of the same item at the same price are billed on one line
+  const merged = new Map<string, IConsumedLine>();
+  for (const line of lines) {
+    const key = `${line.itemId}-${line.unitPrice}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line });
+  }
+  const billed = [...merged.values()];
+  const subtotal = billed.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+
+  const orderCount = await PurchaseOrder.countDocuments({
+    orderNumber: new RegExp(`^PO-${currentYear}`)
+  }).session(session);
+
+  const order = new PurchaseOrder({
+    orderNumber: `PO-${currentYear}-${String(orderCount + 1).padStart(3, '0')}`,
+    supplierId,
+    orderDate: now,
+    status: 'RECEIVED',
+    source: 'CONSIGNMENT',
+    items: billed.map(line => ({
+      itemId: line.itemId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: line.quantity * line.unitPrice,
+      receivedQuantity: line.quantity
+    })),
+    subtotal,
+    taxAmount: subtotal * VAT_RATE,
+    totalAmount: subtotal * (1 + VAT_RATE),
+    notes: referenceNumber ? `위탁재고 사용 정산 (${referenceNumber})` : '위탁재고 사용 정산',
+    createdBy: userId,
+    approvedBy: userId,
+    approvedAt: now
+  });
+  await order.save({ session });
+
+  const receiptCount = await Receipt.countDocuments({
+    receiptNumber: new RegExp(`^RCP-${currentYear}`)
+  }).session(session);
+
+  const receipt = new Receipt({
+    receiptNumber: `RCP-${currentYear}-${String(receiptCount + 1).padStart(4, '0')}`,
+    purchaseOrderId: order._id,
+    purchaseOrderNumber: order.orderNumber,
+    supplierId,
+    supplierName: supplier?.name || '위탁 공급업체',
+    receiptDate: now,
+    warehouseId: warehouse.id,
+    warehouseName: warehouse.name,
+    status: 'COMPLETED',
+    items: lines.map(line => ({
+      itemId: line.itemId,
+      itemName: line.itemName,
+      itemCode: line.itemCode,
+      orderedQuantity: line.quantity,
+      receivedQuantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: line.quantity * line.unitPrice,
+      qualityStatus: 'PASSED',
+      batchNumber: line.batchNumber
+    })),
+    totalAmount: subtotal,
+    totalQuantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+    receivedBy: userId,
+    remarks: '위탁재고 사용분 정산 입고 (재고 변동 없음)',
+    createdBy: userId
+  });
+  await receipt.save({ session });
+
+  return { order, receipt };
+};
+
+// Stock rows became unique per item, warehouse and owner. Databases created before keep the old
+// unique index on item and warehouse, which rejects the first owned row next to a company row.
+// Running it again changes nothing.
+export const migrateStockOwnerIndex = async (): Promise<boolean> => {
+  const collection = InventoryStock.collection;
+  const indexes = await collection.indexes();
+  const dropped = indexes.some(index => index.name === 'itemId_1_warehouseId_1');
+  if (dropped) {
+    await collection.dropIndex('itemId_1_warehouseId_1');
+  }
+  await InventoryStock.createIndexes();
+  return dropped;
+};
+
+export type { IConsumedLine, IConsignmentSettlement };
@@ -0,0 +1,455 @@
+import { ClientSession } from 'mongoose';
+import { Item, IItem } from '../models/Item';
+import { InventoryStock } from '../models/InventoryStock';
+import { PurchaseOrder } from '../models/Purchase';
+import { PurchaseRequest, IPurchaseRequest } from '../models/PurchaseRequest';
+import { SalesOrder } from '../models/SalesOrder';
+import ProductionPlan from '../models/ProductionPlan';
+import { StockReservation } from '../models/StockReservation';
+import { WorkOrder, IWorkOrder, OPEN_WORK_ORDER_STATUSES, UNASSIGNED_WORK_CENTER } from '../models/WorkOrder';
+import { MrpRun, IMrpRun, IMrpPeg, IMrpPlannedOrder, IMrpItemSummary } from '../models/MrpRun';
+import { resolveBOM, IResolvedBOM } from './variants';
+import { workOrderMaterials, workOrderOperations } from './work-orders';
+
+interface IMrpOptions {
+  horizonDays?: number;
+  includeSafetyStock?: boolean;
+}
+
+interface IMrpFirmResult {
+  requests: IPurchaseRequest[];
+  workOrders: IWorkOrder[];
+}
+
+interface IPeg extends Omit<IMrpPeg, 'sourceId'> {
+  sourceId?: string;
+}
+
+// A gross requirement of one item on one day, with the demands it is pegged to
+interface IGrossRequirement {
+  date: Date;
+  quantity: number;
+  pegs: IPeg[];
+}
+
+interface IScheduledReceipt {
+  date: Date;
+  quantity: number;
+  sourceNumber: string;
+}
+
+interface IItemSummary extends Omit<IMrpItemSummary, 'itemId'> {
+  itemId: string;
+}
+
+interface IPlannedOrder extends Omit<IMrpPlannedOrder, '_id' | 'itemId' | 'bomId' | 'supplierId' | 'pegging' | 'status'> {
+  itemId: string;
+  bomId?: string;
+  supplierId?: string;
+  pegging: IPeg[];
+}
+
+const DEFAULT_HORIZON_DAYS = 90;
+const MAX_LEVELS = 20;
+const DEMAND_ORDER_STATUSES = ['CONFIRMED', 'IN_PRODUCTION', 'READY_TO_SHIP'];
+const DEMAND_PLAN_STATUSES = ['APPROVED', 'IN_PROGRESS'];
+const OPEN_ORDER_STATUSES = ['SENT', 'CONFIRMED', 'PARTIALLY_RECEIVED'];
+// Requests still on their way to a purchase order count as supply, so firmed orders are not planned again
+const OPEN_REQUEST_STATUSES = ['DRAFT', 'SUBMITTED', 'UNDER_REVIEW', 'APPROVED', 'PARTIALLY_APPROVED'];
+const DEFAULT_DEPARTMENT = '구매팀';
+const DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const round = (quantity: number) => Math.round(quantity * 10000) / 10000;
+
+const addToMap = (map: Map<string, number>, key: string, quantity: number) => {
+  map.set(key, (map.get(key) || 0) + quantity);
+};
+
+const scalePegs = (pegs: IPeg[], factor: number, parentItemCode?: string): IPeg[] =>
+  pegs.map(peg => ({
+    ...peg,
+    quantity: round(peg.quantity * factor),
+    parentItemCode: parentItemCode ?? peg.parentItemCode
+  }));
+
+// Plans replenishment for every item with demand inside the horizon:
+//  1. independent demand is open sales order lines, approved production plans and safety stock,
+//     plus the unissued material of open work orders
+//  2. items are netted level by level (low-level codes), so an item used on several levels is
+//     netted once, after every parent that can add demand to it
+//  3. net requirements become lot-for-lot planned orders per due day, released lead time earlier;
+//     production orders add their components' demand on the release date
+// Quantities reserved for a sales order or work order are left out of both its demand and the
+// available stock. Existing supply is never planned twice: a receipt due after the demand it
+// covers still covers it, with a warning to reschedule it in. BOMs are taken as in effect on the
+// run date.
+export const runMrp = async (userId: string, options: IMrpOptions = {}): Promise<IMrpRun> => {
+  const runDate = new Date();
+  const today = startOfDay(runDate);
+  const horizonDate = new Date(today.getTime() + (options.horizonDays ?? DEFAULT_HORIZON_DAYS) * DAY);
+  const includeSafetyStock = options.includeSafetyStock ?? true;
+  const warnings: string[] = [];
+
+  const [salesOrders, plans, workOrders, stocks, purchaseOrders, requests, reservations] = await Promise.all([
+    SalesOrder.find({ isActive: true, status: { $in: DEMAND_ORDER_STATUSES } }),
+    ProductionPlan.find({ isActive: true, status: { $in: DEMAND_PLAN_STATUSES } }),
+    WorkOrder.find({ isActive: true, status: { $in: OPEN_WORK_ORDER_STATUSES } }),
+    InventoryStock.find({ isActive: true, ownerType: { $ne: 'CUSTOMER' } }).select('itemId availableQuantity'),
+    PurchaseOrder.find({ isActive: true, status: { $in: OPEN_ORDER_STATUSES } }).select('orderNumber expectedDeliveryDate items'),
+    PurchaseRequest.find({ isActive: true, status: { $in: OPEN_REQUEST_STATUSES } }).select('requestNumber requiredDate items'),
+    StockReservation.find({ status: 'ACTIVE' })
+  ]);
+
+  const items = new Map<string, IItem | null>();
+  const itemOf = async (itemId: string) => {
+    if (!items.has(itemId)) {
+      items.set(itemId, await Item.findById(itemId));
+    }
+    return items.get(itemId)!;
+  };
+
+  const structures = new Map<string, IResolvedBOM>();
+  const structureOf = async (item: IItem) => {
+    const key = item._id.toString();
+    if (!structures.has(key)) {
+      const structure = await resolveBOM(item, null, runDate);
+      if (structure.error) {
+        warnings.push(`${item.code}: ${structure.error}`);
+      }
+      structures.set(key, structure);
+    }
+    return structures.get(key)!;
+  };
+
+  const reserved = new Map<string, number>();
+  for (const reservation of reservations) {
+    addToMap(reserved, `${reservation.sourceId}:${reservation.itemId}`, reservation.getOpenQuantity());
+  }
+
+  const requirements = new Map<string, IGrossRequirement[]>();
+  const addRequirement = (itemId: string, requirement: IGrossRequirement) => {
+    if (requirement.quantity <= 0) return;
+    requirements.set(itemId, [...(requirements.get(itemId) || []), requirement]);
+  };
+
+  for (const order of salesOrders) {
+    const date = startOfDay(order.requestedDeliveryDate || order.orderDate);
+    if (date > horizonDate) continue;
+    for (const line of order.items) {
+      const item = await itemOf(line.itemId.toString());
+      if (!item) continue;
+      const quantity = round(line.quantity - (line.shippedQuantity || 0) - (reserved.get(`${order._id}:${line.itemId}`) || 0));
+      addRequirement(item._id.toString(), {
+        date,
+        quantity,
+        pegs: [{ demandType: 'SALES_ORDER', sourceId: order._id.toString(), sourceNumber: order.orderNumber, demandItemCode: item.code, demandDate: date, quantity }]
+      });
+    }
+  }
+
+  for (const plan of plans) {
+    const date = startOfDay(plan.endDate);
+    if (date > horizonDate) continue;
+    const item = await itemOf(plan.itemId.toString());
+    if (!item) continue;
+    const quantity = round(plan.plannedQuantity - (plan.producedQuantity || 0));
+    addRequirement(item._id.toString(), {
+      date,
+      quantity,
+      pegs: [{ demandType: 'PRODUCTION_PLAN', sourceId: String(plan._id), sourceNumber: plan.planNumber, demandItemCode: item.code, demandDate: date, quantity }]
+    });
+  }
+
+  for (const order of workOrders) {
+    const date = startOfDay(order.startDate);
+    if (date > horizonDate) continue;
+    const product = await itemOf(order.itemId.toString());
+    for (const material of order.materials) {
+      const item = await itemOf(material.itemId.toString());
+      if (!item) continue;
+      const quantity = round(material.requiredQuantity - (material.issuedQuantity || 0) - (reserved.get(`${order._id}:${material.itemId}`) || 0));
+      addRequirement(item._id.toString(), {
+        date,
+        quantity,
+        pegs: [{
+          demandType: 'WORK_ORDER',
+          sourceId: order._id.toString(),
+          sourceNumber: order.orderNumber,
+          demandItemCode: product?.code || item.code,
+          demandDate: date,
+          quantity,
+          parentItemCode: product?.code
+        }]
+      });
+    }
+  }
+
+  if (includeSafetyStock) {
+    const safetyItems = await Item.find({ isActive: true, safetyStock: { $gt: 0 } });
+    for (const item of safetyItems) {
+      items.set(item._id.toString(), item);
+      addRequirement(item._id.toString(), {
+        date: today,
+        quantity: item.safetyStock,
+        pegs: [{ demandType: 'SAFETY_STOCK', sourceNumber: item.code, demandItemCode: item.code, demandDate: today, quantity: item.safetyStock }]
+      });
+    }
+  }
+
+  // Low-level codes: an item's level is the deepest it appears under any item with demand
+  const levels = new Map<string, number>();
+  const assignLevel = async (itemId: string, level: number, path: string[]) => {
+    const item = await itemOf(itemId);
+    if (!item) return;
+    if (path.includes(itemId) || level > MAX_LEVELS) {
+      warnings.push(`${item.code}: BOM is used within itself or deeper than ${MAX_LEVELS} levels`);
+      return;
+    }
+    if ((levels.get(itemId) ?? -1) >= level) return;
+    levels.set(itemId, level);
+    const { bom, lines } = await structureOf(item);
+    if (!bom) return;
+    for (const line of lines) {
+      await assignLevel(line.itemId, level + 1, [...path, itemId]);
+    }
+  };
+  for (const itemId of [...requirements.keys()]) {
+    await assignLevel(itemId, 0, []);
+  }
+
+  const available = new Map<string, number>();
+  for (const stock of stocks) {
+    addToMap(available, stock.itemId.toString(), stock.availableQuantity || 0);
+  }
+
+  const receipts = new Map<string, IScheduledReceipt[]>();
+  const addReceipt = (itemId: string, receipt: IScheduledReceipt) => {
+    if (receipt.quantity <= 0) return;
+    receipts.set(itemId, [...(receipts.get(itemId) || []), receipt]);
+  };
+  for (const order of purchaseOrders) {
+    for (const line of order.items) {
+      addReceipt(line.itemId.toString(), {
+        date: startOfDay(order.expectedDeliveryDate || today),
+        quantity: (line.baseQuantity ?? line.quantity) - (line.receivedQuantity || 0),
+        sourceNumber: order.orderNumber
+      });
+    }
+  }
+  for (const request of requests) {
+    for (const line of request.items) {
+      if (!line.itemId) continue;
+      addReceipt(line.itemId.toString(), {
+        date: startOfDay(line.requiredDate || request.requiredDate || today),
+        quantity: line.approvedQuantity ?? line.quantity,
+        sourceNumber: request.requestNumber
+      });
+    }
+  }
+  for (const order of workOrders) {
+    addReceipt(order.itemId.toString(), {
+      date: startOfDay(order.endDate),
+      quantity: order.quantity - (order.completedQuantity || 0),
+      sourceNumber: order.orderNumber
+    });
+  }
+
+  const plannedOrders: IPlannedOrder[] = [];
+  const summaries: IItemSummary[] = [];
+  const maxLevel = Math.max(0, ...levels.values());
+
+  for (let level = 0; level <= maxLevel; level++) {
+    const levelItems = [...levels.entries()].filter(([, itemLevel]) => itemLevel === level).map(([itemId]) => itemId);
+    for (const itemId of levelItems) {
+      const gross = (requirements.get(itemId) || []).sort((a, b) => a.date.getTime() - b.date.getTime());
+      if (!gross.length) continue;
+      const item = (await itemOf(itemId))!;
+
+      // Net in date order; late receipts are pulled in rather than planned around
+      const supply = (receipts.get(itemId) || []).sort((a, b) => a.date.getTime() - b.date.getTime());
+      const onHand = Math.max(0, available.get(itemId) || 0);
+      let balance = onHand;
+      let next = 0;
+      const shortages = new Map<number, { date: Date; quantity: number; pegs: IPeg[] }>();
+      for (const requirement of gross) {
+        while (next < supply.length && supply[next].date <= requirement.date) {
+          balance += supply[next++].quantity;
+        }
+        while (balance < requirement.quantity && next < supply.length) {
+          const receipt = supply[next++];
+          warnings.push(`${item.code}: ${receipt.sourceNumber} is due ${receipt.date.toISOString().slice(0, 10)} but needed by ${requirement.date.toISOString().slice(0, 10)}`);
+          balance += receipt.quantity;
+        }
+
+        const shortage = round(requirement.quantity - balance);
+        balance = Math.max(0, balance - requirement.quantity);
+        if (shortage <= 0) continue;
+
+        const day = shortages.get(requirement.date.getTime()) || { date: requirement.date, quantity: 0, pegs: [] };
+        day.quantity = round(day.quantity + shortage);
+        day.pegs.push(...scalePegs(requirement.pegs, shortage / requirement.quantity));
+        shortages.set(requirement.date.getTime(), day);
+      }
+
+      const { bom, lines } = await structureOf(item);
+      const produced = !!bom && lines.length > 0;
+      for (const { date, quantity, pegs } of shortages.values()) {
+        const releaseDate = new Date(date.getTime() - (item.leadTime || 0) * DAY);
+        plannedOrders.push({
+          itemId,
+          itemCode: item.code,
+          itemName: item.name,
+          unit: item.unit,
+          level,
+          orderType: produced ? 'PRODUCTION' : 'PURCHASE',
+          quantity,
+          releaseDate,
+          dueDate: date,
+          isLate: releaseDate < today,
+          bomId: produced ? bom!._id.toString() : undefined,
+          supplierId: produced ? undefined : item.supplierId?.toString(),
+          pegging: pegs
+        });
+
+        if (!produced) continue;
+        for (const line of lines) {
+          const factor = line.baseQuantity / bom!.outputQuantity;
+          addRequirement(line.itemId, {
+            date: releaseDate,
+            quantity: round(quantity * factor),
+            pegs: scalePegs(pegs, factor, item.code)
+          });
+        }
+      }
+
+      summaries.push({
+        itemId,
+        itemCode: item.code,
+        itemName: item.name,
+        unit: item.unit,
+        level,
+        grossRequirement: round(gross.reduce((sum, requirement) => sum + requirement.quantity, 0)),
+        availableQuantity: onHand,
+        scheduledReceipts: round(supply.reduce((sum, receipt) => sum + receipt.quantity, 0)),
+        safetyStock: includeSafetyStock ? item.safetyStock || 0 : 0,
+        plannedQuantity: round([...shortages.values()].reduce((sum, shortage) => sum + shortage.quantity, 0))
+      });
+    }
+  }
+
+  const run = new MrpRun({
+    runDate,
+    horizonDate,
+    includeSafetyStock,
+    plannedOrders: plannedOrders.sort((a, b) =>
+      a.level - b.level || a.itemCode.localeCompare(b.itemCode) || a.dueDate.getTime() - b.dueDate.getTime()),
+    items: summaries,
+    warnings,
+    createdBy: userId
+  });
+  await run.save();
+  return run;
+};
+
+// Turns planned orders of a run into a draft purchase request per supplier and a draft work order
+// per production order, with the materials of the BOM the order was planned from. Orders already
+// firmed are skipped; the caller saves the run.
+export const firmPlannedOrders = async (
+  run: IMrpRun,
+  plannedOrderIds: string[] | undefined,
+  userId: string,
+  session: ClientSession | null = null
+): Promise<IMrpFirmResult> => {
+  const selected = run.plannedOrders.filter(order =>
+    order.status === 'PLANNED' && (!plannedOrderIds || plannedOrderIds.includes(order._id.toString())));
+  const today = startOfDay(new Date());
+  const firmedAt = new Date();
+
+  const items = await Item.find({ _id: { $in: selected.map(order => order.itemId) } }).session(session);
+  const itemOf = (order: IMrpPlannedOrder) => items.find(item => item._id.toString() === order.itemId.toString());
+  const demandNumbers = (order: IMrpPlannedOrder) =>
+    [...new Set(order.pegging.map(peg => peg.sourceNumber))].join(', ');
+
+  const groups = new Map<string, typeof selected>();
+  for (const order of selected.filter(candidate => candidate.orderType === 'PURCHASE')) {
+    const key = order.supplierId?.toString() || '';
+    groups.set(key, [...(groups.get(key) || []), order]);
+  }
+
+  const requests: IPurchaseRequest[] = [];
+  for (const [supplierId, orders] of groups) {
+    const request = new PurchaseRequest({
+      requesterId: userId,
+      department: DEFAULT_DEPARTMENT,
+      requiredDate: new Date(Math.min(...orders.map(order => order.dueDate.getTime()))),
+      purpose: `MRP 계획오더 확정 (${run.runNumber})`,
+      priority: orders.some(order => order.isLate) ? 'URGENT' : 'MEDIUM',
+      status: 'DRAFT',
+      source: 'MRP',
+      supplierId: supplierId || undefined,
+      justification: 'MRP 순소요량 계산에서 부족분으로 산출된 계획구매오더입니다.',
+      items: orders.map(order => {
+        const estimatedPrice = itemOf(order)?.cost || itemOf(order)?.price || 0;
+        return {
+          itemId: order.itemId,
+          itemName: order.itemName,
+          itemCode: order.itemCode,
+          category: itemOf(order)?.category,
+          quantity: order.quantity,
+          unit: order.unit,
+          estimatedPrice,
+          totalPrice: order.quantity * estimatedPrice,
+          requiredDate: order.dueDate,
+          purpose: 'MRP 계획오더',
+          notes: `수요: ${demandNumbers(order)}`
+        };
+      }),
+      createdBy: userId
+    });
+    await request.save({ session });
+    requests.push(request);
+
+    for (const order of orders) {
+      order.set({ status: 'FIRMED', firmedType: 'PURCHASE_REQUEST', firmedId: request._id, firmedNumber: request.requestNumber, firmedAt });
+    }
+  }
+
+  const workOrders: IWorkOrder[] = [];
+  for (const order of selected.filter(candidate => candidate.orderType === 'PRODUCTION')) {
+    const item = itemOf(order);
+    if (!item) continue;
+    const { bom, materials } = await workOrderMaterials(item, order.quantity, run.runDate, session);
+    const { routing, operations } = await workOrderOperations(item._id, run.runDate, session);
+
+    const startDate = order.releaseDate < today ? today : order.releaseDate;
+    const workOrder = new WorkOrder({
+      itemId: order.itemId,
+      quantity: order.quantity,
+      unit: order.unit,
+      workCenter: UNASSIGNED_WORK_CENTER,
+      startDate,
+      endDate: order.dueDate < startDate ? startDate : order.dueDate,
+      bomId: bom?._id,
+      priority: order.isLate ? 'URGENT' : 'NORMAL',
+      materials,
+      routingId: routing?._id,
+      operations,
+      notes: `MRP ${run.runNumber} 계획오더 확정 (수요: ${demandNumbers(order)})`,
+      createdBy: userId
+    });
+    await workOrder.save({ session });
+    workOrders.push(workOrder);
+
+    order.set({ status: 'FIRMED', firmedType: 'WORK_ORDER', firmedId: workOrder._id, firmedNumber: workOrder.orderNumber, firmedAt });
+  }
+
+  return { requests, workOrders };
+};
+
+export type { IMrpOptions, IMrpFirmResult };
@@ -0,0 +1,161 @@
+import { ClientSession } from 'mongoose';
+import Item from '../models/Item';
+import ProductionPlan, { IProductionPlan } from '../models/ProductionPlan';
+import { WorkCenter, IWorkCenter } from '../models/WorkCenter';
+import { WorkOrder, IWorkOrder, OPEN_WORK_ORDER_STATUSES, UNASSIGNED_WORK_CENTER } from '../models/WorkOrder';
+import { workOrderMaterials, workOrderOperations } from './work-orders';
+
+interface IPlanSplit {
+  workOrders: IWorkOrder[];
+  warnings: string[];
+  error?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const PRIORITY_MAP: Record<IProductionPlan['priority'], IWorkOrder['priority']> = {
+  LOW: 'LOW',
+  MEDIUM: 'NORMAL',
+  HIGH: 'HIGH',
+  URGENT: 'URGENT'
+};
+// Statuses in which a work order has begun on the floor, and in which it is done
+const STARTED_STATUSES = ['IN_PROGRESS', 'PAUSED', 'COMPLETED', 'CLOSED'];
+const FINISHED_STATUSES = ['COMPLETED', 'CLOSED'];
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Calendar days from start to end, counting both
+const spanDays = (start: Date, end: Date) =>
+  Math.max(1, Math.round((startOfDay(end).getTime() - startOfDay(start).getTime()) / DAY) + 1);
+
+// Quantity already loaded on a work center between two dates: the unfinished quantity of its open
+// orders, prorated by the share of their days that falls in the window
+const loadOn = async (center: IWorkCenter, start: Date, end: Date, session: ClientSession | null) => {
+  const orders = await WorkOrder.find({
+    isActive: true,
+    status: { $in: OPEN_WORK_ORDER_STATUSES },
+    $or: [{ workCenterId: center._id }, { workCenter: center.code }],
+    startDate: { $lte: end },
+    endDate: { $gte: start }
+  }).session(session);
+
+  return orders.reduce((load, order) => {
+    const overlap = spanDays(order.startDate > start ? order.startDate : start, order.endDate < end ? order.endDate : end);
+    const remaining = Math.max(0, order.quantity - (order.completedQuantity || 0));
+    return load + remaining * overlap / spanDays(order.startDate, order.endDate);
+  }, 0);
+};
+
+// Splits what is left of a plan into draft work orders, one per selected work center, filling the
+// centers with the most daily capacity first up to their free capacity over the plan window.
+// Whatever no center can take goes on one unassigned order with a warning, so nothing is dropped.
+// Plans that already have work orders are left alone, so approving and then starting splits once.
+export const splitPlan = async (
+  plan: IProductionPlan,
+  userId: string,
+  session: ClientSession | null = null
+): Promise<IPlanSplit> => {
+  const warnings: string[] = [];
+  if (await WorkOrder.exists({ productionPlanId: plan._id, isActive: true }).session(session)) {
+    return { workOrders: [], warnings };
+  }
+
+  const item = await Item.findById(plan.itemId).session(session);
+  if (!item) {
+    return { workOrders: [], warnings, error: 'Item not found' };
+  }
+
+  const centers = (await WorkCenter.find({ _id: { $in: plan.workCenterIds || [] }, isActive: true }).session(session))
+    .sort((a, b) => b.dailyCapacity - a.dailyCapacity);
+  const days = spanDays(plan.startDate, plan.endDate);
+
+  let remaining = plan.plannedQuantity - (plan.producedQuantity || 0);
+  const allocations: Array<{ center: IWorkCenter | null; quantity: number }> = [];
+  for (const center of centers) {
+    if (remaining <= 0) break;
+    const free = Math.floor(center.dailyCapacity * days - await loadOn(center, plan.startDate, plan.endDate, session));
+    if (free <= 0) {
+      warnings.push(`${center.code} has no free capacity between the plan dates`);
+      continue;
+    }
+    const quantity = Math.min(remaining, free);
+    allocations.push({ center, quantity });
+    remaining -= quantity;
+  }
+  if (remaining > 0) {
+    if (centers.length) {
+      warnings.push(`${remaining} ${item.unit} exceed the free capacity of the selected work centers and are left unassigned`);
+    }
+    allocations.push({ center: null, quantity: remaining });
+  }
+
+  const { routing, operations } = await workOrderOperations(item._id, plan.startDate, session);
+  const workOrders: IWorkOrder[] = [];
+  for (const { center, quantity } of allocations) {
+    const { bom, materials, error } = await workOrderMaterials(item, quantity, plan.startDate, session);
+    if (error) {
+      return { workOrders: [], warnings, error };
+    }
+    if (!bom && !warnings.includes('No active BOM; work orders have no materials')) {
+      warnings.push('No active BOM; work orders have no materials');
+    }
+
+    const workOrder = new WorkOrder({
+      itemId: item._id,
+      quantity,
+      unit: item.unit,
+      workCenter: center?.code || UNASSIGNED_WORK_CENTER,
+      workCenterId: center?._id,
+      productionPlanId: plan._id,
+      startDate: plan.startDate,
+      endDate: plan.endDate,
+      bomId: bom?._id,
+      priority: PRIORITY_MAP[plan.priority],
+      materials,
+      routingId: routing?._id,
+      operations,
+      notes: `생산계획 ${plan.planNumber}`,
+      createdBy: userId
+    });
+    await workOrder.save({ session });
+    workOrders.push(workOrder);
+  }
+
+  return { workOrders, warnings };
+};
+
+// Recomputes a plan from its work orders: produced quantity is the good units they completed, as
+// received into stock, the plan is in progress once any of them started and completed when the
+// target is reached or all are done. Draft and cancelled plans are left as they are.
+export const rollUpPlan = async (
+  planId: unknown,
+  session: ClientSession | null = null
+): Promise<IProductionPlan | null> => {
+  const plan = await ProductionPlan.findById(planId).session(session);
+  if (!plan || !['APPROVED', 'IN_PROGRESS', 'COMPLETED'].includes(plan.status)) {
+    return plan;
+  }
+
+  const orders = await WorkOrder.find({ productionPlanId: plan._id, isActive: true, status: { $ne: 'CANCELLED' } })
+    .session(session);
+  plan.producedQuantity = orders.reduce(
+    (sum, order) => sum + (order.completedQuantity || 0) - (order.defectQuantity || 0),
+    0
+  );
+
+  if (plan.producedQuantity >= plan.plannedQuantity ||
+      (orders.length > 0 && orders.every(order => FINISHED_STATUSES.includes(order.status)))) {
+    plan.status = 'COMPLETED';
+  } else if (orders.some(order => STARTED_STATUSES.includes(order.status))) {
+    plan.status = 'IN_PROGRESS';
+  }
+
+  await plan.save({ session });
+  return plan;
+};
+
+export type { IPlanSplit };
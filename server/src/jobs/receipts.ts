@@ -0,0 +1,253 @@
+import { ClientSession } from 'mongoose';
+import { IReceipt, IReceiptItem } from '../models/Receipt';
+import { PurchaseOrder, IPurchaseOrderItem } from '../models/Purchase';
+import { InventoryStock } from '../models/InventoryStock';
+import { InventoryTransaction, IInventoryTransaction } from '../models/InventoryTransaction';
+import { StorageBin } from '../models/StorageBin';
+import { Item } from '../models/Item';
+import { UnitOfMeasure } from '../models/UnitOfMeasure';
+import { LotGenealogy } from '../models/LotGenealogy';
+import { IInventoryRecalculation } from '../models/InventoryRecalculation';
+import { resequenceTransactions } from './backdating';
+
+interface IReceiptUser {
+  id: string;
+  name: string;
+}
+
+interface IPutawayLine {
+  itemId: IReceiptItem['itemId'];
+  itemName: string;
+  quantity: number;
+  binId: string;
+  binCode: string;
+  reason?: string;
+}
+
+interface IReceiptPosting {
+  transactions: IInventoryTransaction[];
+  putaway: IPutawayLine[];
+  recalculations: IInventoryRecalculation[];
+  error?: string;
+}
+
+// Spreads a received base quantity over the order lines for the item, filling each in order.
+// Anything beyond what was ordered is counted on the last line.
+const countAgainstOrderLines = (orderLines: IPurchaseOrderItem[], quantity: number) => {
+  let remaining = quantity;
+  orderLines.forEach((orderLine, index) => {
+    const open = (orderLine.baseQuantity ?? orderLine.quantity) - (orderLine.receivedQuantity || 0);
+    const counted = index === orderLines.length - 1 ? remaining : Math.min(remaining, Math.max(0, open));
+    orderLine.receivedQuantity = (orderLine.receivedQuantity || 0) + counted;
+    remaining -= counted;
+  });
+};
+
+// Approves an inspected receipt and posts its accepted quantities to stock on the posting date.
+// Each line is converted from its received unit to the item's base unit, put away in the bin the
+// user chose or the system suggests, and counted against the open purchase order lines for its
+// item. The order turns RECEIVED once every line is in and PARTIALLY_RECEIVED once anything is.
+export const approveReceipt = async (
+  receipt: IReceipt,
+  postingDate: Date,
+  putawayOverrides: Array<{ itemId: string; binId: string }>,
+  user: IReceiptUser,
+  session: ClientSession | null = null
+): Promise<IReceiptPosting> => {
+  const purchaseOrder = receipt.purchaseOrderId
+    ? await PurchaseOrder.findById(receipt.purchaseOrderId).session(session)
+    : null;
+
+  const transactions: IInventoryTransaction[] = [];
+  const putaway: IPutawayLine[] = [];
+  const recalculations: IInventoryRecalculation[] = [];
+  const failed = (error: string) => ({ transactions, putaway, recalculations, error });
+
+  for (const item of receipt.items) {
+    // Defective goods are rejected at the dock and never enter stock
+    const acceptedQuantity = item.receivedQuantity - (item.defectQuantity || 0);
+    if (acceptedQuantity <= 0) {
+      continue;
+    }
+
+    const master = await Item.findById(item.itemId).select('category expiryDays unit unitConversions').session(session);
+    if (!master) {
+      return failed(`${item.itemName}: 품목 정보를 찾을 수 없습니다.`);
+    }
+
+    // Quantities and the price are per received unit; stock moves and is costed in the base unit
+    const orderLines = (purchaseOrder?.items || []).filter(
+      orderLine => orderLine.itemId.toString() === item.itemId.toString()
+    );
+    const orderItem = orderLines.find(
+      orderLine => (orderLine.receivedQuantity || 0) < (orderLine.baseQuantity ?? orderLine.quantity)
+    ) || orderLines[0];
+    const unit = item.unit || orderItem?.unit || master.unit;
+    const baseQuantity = await UnitOfMeasure.toBase(master, acceptedQuantity, unit, session);
+    if (baseQuantity === null || baseQuantity <= 0) {
+      return failed(`${item.itemName}: ${unit} 단위를 기준 단위(${master.unit})로 환산할 수 없습니다.`);
+    }
+    const unitCost = item.unitPrice * acceptedQuantity / baseQuantity;
+    const enteredUnit = unit.toUpperCase() !== master.unit.toUpperCase() ? unit.toUpperCase() : undefined;
+    item.unit = unit.toUpperCase();
+    item.baseQuantity = baseQuantity;
+
+    // Shelf life on the item master dates lots that arrive without an expiry date
+    const expirationDate = item.expirationDate || (item.batchNumber && master?.expiryDays
+      ? new Date(postingDate.getTime() + master.expiryDays * 24 * 60 * 60 * 1000)
+      : undefined);
+
+    // Bins chosen by the user override the system suggestion
+    const override = putawayOverrides.find(p => p.itemId === item.itemId.toString());
+    let bin = null;
+    let putawayReason: string | undefined;
+
+    if (override) {
+      bin = await StorageBin.findOne({
+        _id: override.binId,
+        warehouseId: receipt.warehouseId,
+        isActive: true
+      }).session(session);
+      if (!bin) {
+        return failed(`${item.itemName}: 지정한 로케이션을 입고 창고에서 찾을 수 없습니다.`);
+      }
+      putawayReason = 'MANUAL';
+    } else {
+      const suggestion = await StorageBin.suggestPutaway(
+        receipt.warehouseId.toString(),
+        item.itemId.toString(),
+        master.category,
+        baseQuantity,
+        session
+      );
+      if (suggestion) {
+        bin = suggestion.bin;
+        putawayReason = suggestion.reason;
+      }
+    }
+
+    // Find or create inventory stock record
+    let inventoryStock = await InventoryStock.findOne({
+      itemId: item.itemId,
+      warehouseId: receipt.warehouseId,
+      ownerId: null
+    }).session(session);
+
+    if (!inventoryStock) {
+      inventoryStock = new InventoryStock({
+        itemId: item.itemId,
+        itemName: item.itemName,
+        itemCode: item.itemCode,
+        warehouseId: receipt.warehouseId,
+        warehouseName: receipt.warehouseName,
+        currentQuantity: 0,
+        averageUnitCost: 0,
+        lastUpdatedBy: user.id
+      });
+    }
+
+    const previousQuantity = inventoryStock.currentQuantity;
+
+    // addStock recalculates the weighted average unit cost
+    inventoryStock.addStock(
+      baseQuantity,
+      unitCost,
+      item.batchNumber,
+      expirationDate,
+      postingDate
+    );
+    if (bin) {
+      inventoryStock.addToBin(bin._id, bin.code, baseQuantity);
+      putaway.push({
+        itemId: item.itemId,
+        itemName: item.itemName,
+        quantity: baseQuantity,
+        binId: bin._id,
+        binCode: bin.code,
+        reason: putawayReason
+      });
+    }
+    inventoryStock.set('lastUpdatedBy', user.id);
+    await inventoryStock.save({ session });
+
+    const transaction = new InventoryTransaction({
+      itemId: item.itemId,
+      itemName: item.itemName,
+      itemCode: item.itemCode,
+      warehouseId: receipt.warehouseId,
+      warehouseName: receipt.warehouseName,
+      transactionType: 'IN',
+      quantity: baseQuantity,
+      enteredQuantity: enteredUnit ? acceptedQuantity : undefined,
+      enteredUnit,
+      unitPrice: unitCost,
+      previousQuantity,
+      currentQuantity: inventoryStock.currentQuantity,
+      referenceId: receipt._id,
+      referenceType: 'RECEIPT',
+      referenceNumber: receipt.receiptNumber,
+      transactionDate: postingDate,
+      reason: `입고 승인 - ${receipt.receiptNumber}`,
+      notes: item.notes,
+      batchNumber: item.batchNumber,
+      expirationDate,
+      location: bin?.code,
+      userId: user.id,
+      userName: user.name
+    });
+
+    await transaction.save({ session });
+    transactions.push(transaction);
+
+    // A receipt only raises later balances, so the negative-stock policy cannot block it
+    const { recalculation, closedPeriod } = await resequenceTransactions(transaction, true, user, session);
+    if (closedPeriod) {
+      return failed(`${closedPeriod} 재고 기간이 마감되어 해당 일자로 처리할 수 없습니다.`);
+    }
+    if (recalculation) {
+      recalculations.push(recalculation);
+    }
+
+    if (item.batchNumber) {
+      await new LotGenealogy({
+        lotNumber: item.batchNumber,
+        itemId: item.itemId,
+        itemName: item.itemName,
+        itemCode: item.itemCode,
+        eventType: 'RECEIPT',
+        quantity: baseQuantity,
+        warehouseId: receipt.warehouseId,
+        warehouseName: receipt.warehouseName,
+        referenceType: 'RECEIPT',
+        referenceId: receipt._id,
+        referenceNumber: receipt.receiptNumber,
+        partyId: receipt.supplierId,
+        partyName: receipt.supplierName,
+        createdBy: user.id
+      }).save({ session });
+    }
+
+    if (orderLines.length) {
+      countAgainstOrderLines(orderLines, baseQuantity);
+    }
+  }
+
+  if (purchaseOrder) {
+    if (purchaseOrder.items.every(
+      orderLine => (orderLine.receivedQuantity || 0) >= (orderLine.baseQuantity ?? orderLine.quantity)
+    )) {
+      purchaseOrder.status = 'RECEIVED';
+    } else if (purchaseOrder.items.some(orderLine => (orderLine.receivedQuantity || 0) > 0)) {
+      purchaseOrder.status = 'PARTIALLY_RECEIVED';
+    }
+    await purchaseOrder.save({ session });
+  }
+
+  receipt.approve();
+  receipt.set('updatedBy', user.id);
+  await receipt.save({ session });
+
+  return { transactions, putaway, recalculations };
+};
+
+export type { IReceiptUser, IPutawayLine, IReceiptPosting };
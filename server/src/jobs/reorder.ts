@@ -0,0 +1,221 @@
+import { Item } from '../models/Item';
+import { InventoryStock } from '../models/InventoryStock';
+import { PurchaseOrder } from '../models/Purchase';
+import { PurchaseRequest, IPurchaseRequest } from '../models/PurchaseRequest';
+import { Company } from '../models/Company';
+import { User } from '../models/User';
+
+interface IReorderSuggestion {
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  category: string;
+  unit: string;
+  abcClass?: 'A' | 'B' | 'C';
+  xyzClass?: 'X' | 'Y' | 'Z';
+  supplierId?: string;
+  supplierName?: string;
+  onHandQuantity: number;
+  reservedQuantity: number;
+  onOrderQuantity: number;
+  requestedQuantity: number;
+  netQuantity: number;
+  reorderPoint: number;
+  safetyStock: number;
+  maxStock: number;
+  suggestedQuantity: number;
+  estimatedPrice: number;
+  leadTime: number;
+  requiredDate: Date;
+  priority: 'MEDIUM' | 'HIGH' | 'URGENT';
+}
+
+interface IReorderRunResult {
+  suggestions: IReorderSuggestion[];
+  requests: IPurchaseRequest[];
+}
+
+// Finished products are replenished by production, not purchasing
+const PURCHASED_CATEGORIES = ['RAW_MATERIAL', 'COMPONENT', 'CONSUMABLE'];
+const OPEN_ORDER_STATUSES = ['SENT', 'CONFIRMED', 'PARTIALLY_RECEIVED'];
+// Requests still on their way to a purchase order count as supply, so repeated runs do not draft twice
+const OPEN_REQUEST_STATUSES = ['DRAFT', 'SUBMITTED', 'UNDER_REVIEW', 'APPROVED', 'PARTIALLY_APPROVED'];
+const PRIORITY_RANK = { MEDIUM: 1, HIGH: 2, URGENT: 3 };
+const DEFAULT_DEPARTMENT = '구매팀';
+
+const addToMap = (map: Map<string, number>, key: string, quantity: number) => {
+  map.set(key, (map.get(key) || 0) + quantity);
+};
+
+// Net position = on hand - reserved + open purchase orders + open purchase requests.
+// An item is reordered when that falls to its reorder point (the larger of the warehouse
+// reorder points and the item's reorder point/minimum/safety stock), topped up to maxStock.
+export const calculateReorderSuggestions = async (abcClass?: string): Promise<IReorderSuggestion[]> => {
+  const itemQuery: any = { isActive: true, category: { $in: PURCHASED_CATEGORIES } };
+  if (abcClass) itemQuery.abcClass = abcClass;
+
+  const [items, stocks, orders, requests] = await Promise.all([
+    Item.find(itemQuery),
+    InventoryStock.find({ isActive: true }).select('itemId currentQuantity reservedQuantity reorderPoint'),
+    PurchaseOrder.find({ isActive: true, status: { $in: OPEN_ORDER_STATUSES } }).select('items'),
+    PurchaseRequest.find({ isActive: true, status: { $in: OPEN_REQUEST_STATUSES } }).select('items')
+  ]);
+
+  const onHand = new Map<string, number>();
+  const reserved = new Map<string, number>();
+  const stockReorderPoints = new Map<string, number>();
+  for (const stock of stocks) {
+    const key = stock.itemId.toString();
+    addToMap(onHand, key, stock.currentQuantity);
+    addToMap(reserved, key, stock.reservedQuantity || 0);
+    addToMap(stockReorderPoints, key, stock.reorderPoint || 0);
+  }
+
+  const onOrder = new Map<string, number>();
+  for (const order of orders) {
+    for (const line of order.items) {
+      addToMap(onOrder, line.itemId.toString(), Math.max(0, (line.baseQuantity ?? line.quantity) - (line.receivedQuantity || 0)));
+    }
+  }
+
+  const requested = new Map<string, number>();
+  for (const request of requests) {
+    for (const line of request.items) {
+      if (line.itemId) {
+        addToMap(requested, line.itemId.toString(), line.approvedQuantity ?? line.quantity);
+      }
+    }
+  }
+
+  const supplierIds = [...new Set(items.filter(item => item.supplierId).map(item => item.supplierId!.toString()))];
+  const suppliers = await Company.find({ _id: { $in: supplierIds } }).select('name');
+
+  const suggestions: IReorderSuggestion[] = [];
+  for (const item of items) {
+    const key = item._id.toString();
+    const reorderPoint = Math.max(
+      stockReorderPoints.get(key) || 0,
+      item.reorderPoint || 0,
+      item.minStock || 0,
+      item.safetyStock || 0
+    );
+    if (reorderPoint <= 0) continue;
+
+    const onHandQuantity = onHand.get(key) || 0;
+    const reservedQuantity = reserved.get(key) || 0;
+    const onOrderQuantity = onOrder.get(key) || 0;
+    const requestedQuantity = requested.get(key) || 0;
+    const netQuantity = onHandQuantity - reservedQuantity + onOrderQuantity + requestedQuantity;
+    if (netQuantity > reorderPoint) continue;
+
+    const target = item.maxStock > reorderPoint ? item.maxStock : reorderPoint;
+    const suggestedQuantity = target - netQuantity;
+    if (suggestedQuantity <= 0) continue;
+
+    const requiredDate = new Date();
+    requiredDate.setDate(requiredDate.getDate() + (item.leadTime || 0));
+
+    const supplierId = item.supplierId?.toString();
+    suggestions.push({
+      itemId: key,
+      itemCode: item.code,
+      itemName: item.name,
+      category: item.category,
+      unit: item.unit,
+      abcClass: item.abcClass,
+      xyzClass: item.xyzClass,
+      supplierId,
+      supplierName: suppliers.find(supplier => supplier._id.toString() === supplierId)?.name,
+      onHandQuantity,
+      reservedQuantity,
+      onOrderQuantity,
+      requestedQuantity,
+      netQuantity,
+      reorderPoint,
+      safetyStock: item.safetyStock || 0,
+      maxStock: item.maxStock || 0,
+      suggestedQuantity,
+      estimatedPrice: item.cost || item.price || 0,
+      leadTime: item.leadTime || 0,
+      requiredDate,
+      priority: netQuantity <= 0 ? 'URGENT' : netQuantity < (item.safetyStock || 0) ? 'HIGH' : 'MEDIUM'
+    });
+  }
+
+  return suggestions.sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.itemCode.localeCompare(b.itemCode));
+};
+
+// Drafts one purchase request per supplier; items without a supplier share one request for the department
+export const runReorder = async (userId: string, department: string = DEFAULT_DEPARTMENT): Promise<IReorderRunResult> => {
+  const suggestions = await calculateReorderSuggestions();
+
+  const groups = new Map<string, IReorderSuggestion[]>();
+  for (const suggestion of suggestions) {
+    const key = suggestion.supplierId || '';
+    groups.set(key, [...(groups.get(key) || []), suggestion]);
+  }
+
+  const requests: IPurchaseRequest[] = [];
+  for (const [supplierId, lines] of groups) {
+    const priority = lines.reduce<IReorderSuggestion['priority']>(
+      (highest, line) => PRIORITY_RANK[line.priority] > PRIORITY_RANK[highest] ? line.priority : highest,
+      'MEDIUM'
+    );
+    const requiredDate = new Date(Math.min(...lines.map(line => line.requiredDate.getTime())));
+
+    const request = new PurchaseRequest({
+      requesterId: userId,
+      department,
+      requiredDate,
+      purpose: supplierId ? `재주문점 이하 재고 자동 보충 (${lines[0].supplierName || '공급업체'})` : '재주문점 이하 재고 자동 보충',
+      priority,
+      status: 'DRAFT',
+      source: 'REORDER',
+      supplierId: supplierId || undefined,
+      justification: '재고가 재주문점 이하로 떨어진 품목을 최대재고까지 보충합니다.',
+      items: lines.map(line => ({
+        itemId: line.itemId,
+        itemName: line.itemName,
+        itemCode: line.itemCode,
+        category: line.category,
+        quantity: line.suggestedQuantity,
+        unit: line.unit,
+        estimatedPrice: line.estimatedPrice,
+        totalPrice: line.suggestedQuantity * line.estimatedPrice,
+        requiredDate: line.requiredDate,
+        purpose: '안전재고 보충',
+        notes: `현재고 ${line.onHandQuantity}, 예약 ${line.reservedQuantity}, 발주잔량 ${line.onOrderQuantity + line.requestedQuantity}, 재주문점 ${line.reorderPoint}`
+      })),
+      createdBy: userId
+    });
+    await request.save();
+    requests.push(request);
+  }
+
+  return { suggestions, requests };
+};
+
+// Runs the reorder engine every REORDER_JOB_INTERVAL_HOURS (default 24, 0 disables) on behalf of
+// the first active administrator, so drafts are waiting for planners on the safety stock page
+export const scheduleReorderJob = () => {
+  const hours = Number(process.env.REORDER_JOB_INTERVAL_HOURS ?? 24);
+  if (!hours || hours <= 0) {
+    return null;
+  }
+
+  return setInterval(async () => {
+    try {
+      const admin = await User.findOne({ role: 'ADMIN', isActive: true }).sort('createdAt');
+      if (!admin) return;
+
+      const { requests } = await runReorder(admin._id.toString());
+      if (requests.length > 0) {
+        console.log(`📦 Reorder job drafted ${requests.length} purchase request(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Reorder job failed:', error);
+    }
+  }, hours * 60 * 60 * 1000);
+};
+
+export type { IReorderSuggestion, IReorderRunResult };
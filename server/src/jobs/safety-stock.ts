@@ -0,0 +1,187 @@
+import { Item } from '../models/Item';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+import { PurchaseOrder } from '../models/Purchase';
+import { Receipt } from '../models/Receipt';
+
+interface ISafetyStockOptions {
+  serviceLevel?: number;
+  lookbackDays?: number;
+  abcClass?: string;
+  itemIds?: string[];
+  asOf?: Date;
+}
+
+interface ISafetyStockProposal {
+  itemId: string;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  abcClass?: 'A' | 'B' | 'C';
+  serviceLevel: number;
+  zScore: number;
+  averageDailyDemand: number;
+  demandStdDev: number;
+  leadTimeDays: number;
+  leadTimeStdDev: number;
+  leadTimeSamples: number;
+  leadTimeSource: 'RECEIPTS' | 'ITEM';
+  currentSafetyStock: number;
+  proposedSafetyStock: number;
+  currentReorderPoint: number;
+  proposedReorderPoint: number;
+}
+
+// Used when no service level is chosen: high-value items get the most cover
+const CLASS_SERVICE_LEVELS: Record<'A' | 'B' | 'C', number> = { A: 0.98, B: 0.95, C: 0.9 };
+const DEFAULT_SERVICE_LEVEL = 0.95;
+const DEFAULT_LOOKBACK_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Inverse of the standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+export const normalQuantile = (p: number): number => {
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+const meanAndStdDev = (values: number[]) => {
+  if (values.length === 0) return { mean: 0, stdDev: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  // Sample standard deviation; a single observation has no measurable spread
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, stdDev: Math.sqrt(variance) };
+};
+
+// Days from purchase order to each receipt of the item, per item
+const measureLeadTimes = async (itemIds: string[], since: Date) => {
+  const receipts = await Receipt.find({
+    purchaseOrderId: { $exists: true, $ne: null },
+    status: { $ne: 'REJECTED' },
+    receiptDate: { $gte: since },
+    'items.itemId': { $in: itemIds }
+  }).select('purchaseOrderId receiptDate items.itemId');
+
+  // Consignment settlements are raised at consumption and say nothing about supplier lead time
+  const orders = await PurchaseOrder.find({ _id: { $in: receipts.map(receipt => receipt.purchaseOrderId) }, source: { $ne: 'CONSIGNMENT' } })
+    .select('orderDate');
+  const orderDates = new Map(orders.map(order => [order._id.toString(), order.orderDate]));
+
+  const samples = new Map<string, number[]>();
+  for (const receipt of receipts) {
+    const orderDate = orderDates.get(receipt.purchaseOrderId!.toString());
+    if (!orderDate) continue;
+
+    const days = Math.max(0, (receipt.receiptDate.getTime() - orderDate.getTime()) / DAY_MS);
+    for (const line of receipt.items) {
+      const key = line.itemId.toString();
+      samples.set(key, [...(samples.get(key) || []), days]);
+    }
+  }
+  return samples;
+};
+
+// Safety stock = z * sqrt(LT * σd² + d² * σLT²), reorder point = d * LT + safety stock, where d/σd are
+// the mean and deviation of daily OUT consumption over the lookback window and LT/σLT come from
+// actual PO-to-receipt times (falling back to Item.leadTime with no variability).
+export const proposeSafetyStock = async (options: ISafetyStockOptions = {}): Promise<ISafetyStockProposal[]> => {
+  const asOf = options.asOf || new Date();
+  const lookbackDays = options.lookbackDays || DEFAULT_LOOKBACK_DAYS;
+  const since = new Date(asOf.getTime() - lookbackDays * DAY_MS);
+
+  const itemQuery: any = { isActive: true, category: { $ne: 'FINISHED_PRODUCT' } };
+  if (options.abcClass) itemQuery.abcClass = options.abcClass;
+  if (options.itemIds) itemQuery._id = { $in: options.itemIds };
+  const items = await Item.find(itemQuery).sort({ code: 1 });
+  const itemIds = items.map(item => item._id.toString());
+
+  const [daily, leadTimes] = await Promise.all([
+    InventoryTransaction.aggregate([
+      {
+        $match: {
+          itemId: { $in: items.map(item => item._id) },
+          transactionType: 'OUT',
+          isActive: true,
+          transactionDate: { $gte: since, $lt: asOf }
+        }
+      },
+      {
+        $group: {
+          _id: {
+            itemId: '$itemId',
+            day: { $dateToString: { format: '%Y-%m-%d', date: '$transactionDate' } }
+          },
+          quantity: { $sum: { $abs: '$quantity' } }
+        }
+      }
+    ]),
+    measureLeadTimes(itemIds, since)
+  ]);
+
+  const consumption = new Map<string, number[]>();
+  for (const row of daily) {
+    const key = row._id.itemId.toString();
+    consumption.set(key, [...(consumption.get(key) || []), row.quantity]);
+  }
+
+  return items.map(item => {
+    const key = item._id.toString();
+    // Days without issues count as zero demand
+    const demandDays = consumption.get(key) || [];
+    const demand = meanAndStdDev([...demandDays, ...new Array(Math.max(0, lookbackDays - demandDays.length)).fill(0)]);
+
+    const leadTimeSamples = leadTimes.get(key) || [];
+    const measured = meanAndStdDev(leadTimeSamples);
+    const leadTimeDays = leadTimeSamples.length > 0 ? measured.mean : item.leadTime || 0;
+    const leadTimeStdDev = leadTimeSamples.length > 0 ? measured.stdDev : 0;
+
+    const serviceLevel = options.serviceLevel
+      || (item.abcClass ? CLASS_SERVICE_LEVELS[item.abcClass] : DEFAULT_SERVICE_LEVEL);
+    const zScore = normalQuantile(serviceLevel);
+
+    const safetyStock = zScore * Math.sqrt(
+      leadTimeDays * demand.stdDev ** 2 + demand.mean ** 2 * leadTimeStdDev ** 2
+    );
+    const proposedSafetyStock = Math.ceil(Math.max(0, safetyStock));
+
+    return {
+      itemId: key,
+      itemCode: item.code,
+      itemName: item.name,
+      unit: item.unit,
+      abcClass: item.abcClass,
+      serviceLevel,
+      zScore,
+      averageDailyDemand: demand.mean,
+      demandStdDev: demand.stdDev,
+      leadTimeDays,
+      leadTimeStdDev,
+      leadTimeSamples: leadTimeSamples.length,
+      leadTimeSource: leadTimeSamples.length > 0 ? 'RECEIPTS' as const : 'ITEM' as const,
+      currentSafetyStock: item.safetyStock || 0,
+      proposedSafetyStock,
+      currentReorderPoint: item.reorderPoint || 0,
+      proposedReorderPoint: Math.ceil(demand.mean * leadTimeDays) + proposedSafetyStock
+    };
+  });
+};
+
+export type { ISafetyStockOptions, ISafetyStockProposal };
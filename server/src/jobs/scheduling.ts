@@ -0,0 +1,332 @@
+import { ClientSession } from 'mongoose';
+import { WorkCenter, IWorkCenter } from '../models/WorkCenter';
+import { WorkOrder, IWorkOrder, IWorkOrderOperation, OPEN_WORK_ORDER_STATUSES } from '../models/WorkOrder';
+
+type ScheduleDirection = 'FORWARD' | 'BACKWARD';
+
+interface IScheduleOptions {
+  direction?: ScheduleDirection;
+  from?: Date;
+  horizonDays?: number;
+}
+
+interface IOperationSlot {
+  sequence: number;
+  name: string;
+  workCenterCode: string;
+  minutes: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+interface IScheduleProposal {
+  workOrderId: string;
+  orderNumber: string;
+  priority: IWorkOrder['priority'];
+  status: IWorkOrder['status'];
+  currentStartDate: Date;
+  currentEndDate: Date;
+  dueDate: Date;
+  startDate: Date;
+  endDate: Date;
+  changed: boolean;
+  late: boolean; // the proposed end falls after the order's due date
+  operations: IOperationSlot[];
+}
+
+interface IWeeklyLoad {
+  workCenterId: string;
+  workCenterCode: string;
+  weekStart: Date;
+  availableMinutes: number;
+  loadMinutes: number;
+  overloaded: boolean;
+}
+
+interface ISchedule {
+  direction: ScheduleDirection;
+  from: Date;
+  proposals: IScheduleProposal[];
+  overloads: IWeeklyLoad[];
+  unscheduled: Array<{ workOrderId: string; orderNumber: string; reason: string }>;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+// Orders that hold the floor's capacity and can still be moved
+const SCHEDULED_STATUSES = ['RELEASED', 'IN_PROGRESS', 'PAUSED'];
+const PRIORITY_RANK: Record<IWorkOrder['priority'], number> = { URGENT: 0, HIGH: 1, NORMAL: 2, LOW: 3 };
+
+// Applied schedules move endDate; the due date stays what was promised
+const dueDateOf = (workOrder: IWorkOrder) => workOrder.dueDate || workOrder.endDate;
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const endOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(23, 59, 59, 999);
+  return day;
+};
+
+const addDays = (date: Date, days: number) => {
+  const day = new Date(date);
+  day.setDate(day.getDate() + days);
+  return day;
+};
+
+// Monday of the date's week
+const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+};
+
+// Standard minutes an operation still needs: setup if it has not started, and run time for the order quantity
+const operationMinutes = (operation: IWorkOrderOperation, quantity: number) =>
+  (operation.status === 'PENDING' ? operation.setupTime : 0) + operation.runTime * quantity;
+
+// Spreads an operation's minutes evenly over the days its center works between two dates
+const spread = (center: IWorkCenter, minutes: number, start: Date, end: Date) => {
+  const days: Date[] = [];
+  for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  if (days.length === 0) days.push(startOfDay(start));
+  const working = days.filter(day => center.availableMinutes(day) > 0);
+  const spreadOver = working.length ? working : days;
+  return spreadOver.map(day => ({ day, minutes: minutes / spreadOver.length }));
+};
+
+// Week-by-week load the orders put on each center as they are dated now, against what the center's
+// calendar makes available. Operations use their scheduled dates once a schedule was applied and
+// the order's dates otherwise.
+export const weeklyLoad = (
+  workOrders: IWorkOrder[],
+  centers: IWorkCenter[],
+  from: Date,
+  weeks: number
+): IWeeklyLoad[] => {
+  const firstWeek = startOfWeek(from);
+  const rows = new Map<string, IWeeklyLoad>();
+  for (const center of centers) {
+    for (let week = 0; week < weeks; week++) {
+      const weekStart = addDays(firstWeek, week * 7);
+      let availableMinutes = 0;
+      for (let day = 0; day < 7; day++) {
+        availableMinutes += center.availableMinutes(addDays(weekStart, day));
+      }
+      rows.set(`${center._id}:${weekStart.getTime()}`, {
+        workCenterId: center._id.toString(),
+        workCenterCode: center.code,
+        weekStart,
+        availableMinutes,
+        loadMinutes: 0,
+        overloaded: false
+      });
+    }
+  }
+
+  for (const workOrder of workOrders) {
+    for (const operation of workOrder.operations.filter(candidate => candidate.status !== 'COMPLETED')) {
+      const center = centers.find(candidate => candidate._id.toString() === operation.workCenterId.toString());
+      if (!center) continue;
+      const start = operation.scheduledStartDate || workOrder.startDate;
+      const end = operation.scheduledEndDate || workOrder.endDate;
+      for (const { day, minutes } of spread(center, operationMinutes(operation, workOrder.quantity), start, end)) {
+        const row = rows.get(`${center._id}:${startOfWeek(day).getTime()}`);
+        if (row) row.loadMinutes += minutes;
+      }
+    }
+  }
+
+  return [...rows.values()].map(row => ({
+    ...row,
+    loadMinutes: Math.round(row.loadMinutes),
+    availableMinutes: Math.round(row.availableMinutes),
+    overloaded: row.loadMinutes > row.availableMinutes
+  }));
+};
+
+// Finite scheduler. Orders are taken by priority and due date; each remaining operation is loaded
+// onto its center's free minutes day by day, in sequence. Forward scheduling starts from the given
+// day. Backward scheduling ends the last operation on the due date and works back; an order that
+// would have to start in the past is scheduled forward instead and comes out late.
+export const scheduleWorkOrders = async (
+  options: IScheduleOptions = {},
+  session: ClientSession | null = null
+): Promise<ISchedule> => {
+  const direction = options.direction || 'FORWARD';
+  const from = startOfDay(options.from || new Date());
+  const horizonDays = options.horizonDays || 365;
+
+  const workOrders = (await WorkOrder.find({ isActive: true, status: { $in: SCHEDULED_STATUSES } }).session(session))
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      dueDateOf(a).getTime() - dueDateOf(b).getTime() ||
+      a.orderNumber.localeCompare(b.orderNumber));
+  const centerIds = [...new Set(workOrders.flatMap(order => order.operations.map(operation => operation.workCenterId.toString())))];
+  const centers = await WorkCenter.find({ _id: { $in: centerIds }, isActive: true }).session(session);
+  const centerOf = (operation: IWorkOrderOperation) =>
+    centers.find(center => center._id.toString() === operation.workCenterId.toString());
+
+  // Minutes already taken per center and day by the orders scheduled before
+  const used = new Map<string, number>();
+  const key = (center: IWorkCenter, day: Date) => `${center._id}:${day.getTime()}`;
+  const free = (center: IWorkCenter, day: Date) => center.availableMinutes(day) - (used.get(key(center, day)) || 0);
+
+  // Takes the minutes from the center's free time starting at a day and moving by step; returns the
+  // first and last day used, or null when the horizon or the earliest day is passed first
+  const allocate = (center: IWorkCenter, minutes: number, startDay: Date, step: 1 | -1, booked: Array<[string, number]>) => {
+    let remaining = minutes;
+    let day = startDay;
+    let first: Date | null = null;
+    let last = startDay;
+    for (let steps = 0; remaining > 0; steps++) {
+      if (steps > horizonDays || (step < 0 && day < from)) {
+        return null;
+      }
+      const take = Math.min(Math.max(0, free(center, day)), remaining);
+      if (take > 0) {
+        used.set(key(center, day), (used.get(key(center, day)) || 0) + take);
+        booked.push([key(center, day), take]);
+        remaining -= take;
+        first = first || day;
+        last = day;
+      }
+      if (remaining > 0) day = addDays(day, step);
+    }
+    return step > 0 ? { start: first || startDay, end: last } : { start: last, end: first || startDay };
+  };
+
+  const release = (booked: Array<[string, number]>) => {
+    booked.forEach(([bookedKey, minutes]) => used.set(bookedKey, (used.get(bookedKey) || 0) - minutes));
+    booked.length = 0;
+  };
+
+  const runForward = (workOrder: IWorkOrder, operations: IWorkOrderOperation[], booked: Array<[string, number]>) => {
+    const slots: IOperationSlot[] = [];
+    let cursor = from;
+    for (const operation of operations) {
+      const minutes = operationMinutes(operation, workOrder.quantity);
+      const window = allocate(centerOf(operation)!, minutes, cursor, 1, booked);
+      if (!window) return null;
+      slots.push({ sequence: operation.sequence, name: operation.name, workCenterCode: operation.workCenterCode, minutes, startDate: window.start, endDate: window.end });
+      cursor = window.end;
+    }
+    return slots;
+  };
+
+  const runBackward = (workOrder: IWorkOrder, operations: IWorkOrderOperation[], booked: Array<[string, number]>) => {
+    const slots: IOperationSlot[] = [];
+    let cursor = startOfDay(dueDateOf(workOrder));
+    for (const operation of [...operations].reverse()) {
+      const minutes = operationMinutes(operation, workOrder.quantity);
+      const window = allocate(centerOf(operation)!, minutes, cursor, -1, booked);
+      if (!window) return null;
+      slots.unshift({ sequence: operation.sequence, name: operation.name, workCenterCode: operation.workCenterCode, minutes, startDate: window.start, endDate: window.end });
+      cursor = window.start;
+    }
+    return slots;
+  };
+
+  const proposals: IScheduleProposal[] = [];
+  const unscheduled: ISchedule['unscheduled'] = [];
+  for (const workOrder of workOrders) {
+    const operations = workOrder.operations.filter(operation => operation.status !== 'COMPLETED');
+    const missing = operations.find(operation => !centerOf(operation));
+    if (!operations.length || missing) {
+      unscheduled.push({
+        workOrderId: workOrder._id.toString(),
+        orderNumber: workOrder.orderNumber,
+        reason: missing ? `Work center ${missing.workCenterCode} not found or inactive` : 'No routing operations to schedule'
+      });
+      continue;
+    }
+
+    const booked: Array<[string, number]> = [];
+    let slots = direction === 'BACKWARD' ? runBackward(workOrder, operations, booked) : null;
+    if (!slots) {
+      release(booked);
+      slots = runForward(workOrder, operations, booked);
+    }
+    if (!slots) {
+      release(booked);
+      unscheduled.push({
+        workOrderId: workOrder._id.toString(),
+        orderNumber: workOrder.orderNumber,
+        reason: `Not enough capacity within ${horizonDays} days`
+      });
+      continue;
+    }
+
+    // An order already on the floor keeps its start
+    const started = workOrder.status !== 'RELEASED';
+    const startDate = started ? workOrder.startDate : slots[0].startDate;
+    const endDate = endOfDay(slots[slots.length - 1].endDate);
+    proposals.push({
+      workOrderId: workOrder._id.toString(),
+      orderNumber: workOrder.orderNumber,
+      priority: workOrder.priority,
+      status: workOrder.status,
+      currentStartDate: workOrder.startDate,
+      currentEndDate: workOrder.endDate,
+      dueDate: dueDateOf(workOrder),
+      startDate,
+      endDate,
+      changed: startOfDay(startDate).getTime() !== startOfDay(workOrder.startDate).getTime() ||
+        startOfDay(endDate).getTime() !== startOfDay(workOrder.endDate).getTime(),
+      late: startOfDay(endDate) > startOfDay(dueDateOf(workOrder)),
+      operations: slots.map(slot => ({ ...slot, endDate: endOfDay(slot.endDate) }))
+    });
+  }
+
+  const lastDay = proposals.reduce((latest, proposal) => (proposal.endDate > latest ? proposal.endDate : latest), addDays(from, 7));
+  const weeks = Math.ceil((lastDay.getTime() - startOfWeek(from).getTime()) / (7 * DAY));
+  return {
+    direction,
+    from,
+    proposals,
+    overloads: weeklyLoad(workOrders, centers, from, weeks).filter(row => row.overloaded),
+    unscheduled
+  };
+};
+
+// Writes the proposed dates onto the orders and their operations
+export const applySchedule = async (proposals: IScheduleProposal[], userId: string, session: ClientSession | null = null) => {
+  let updated = 0;
+  for (const proposal of proposals) {
+    const workOrder = await WorkOrder.findById(proposal.workOrderId).session(session);
+    if (!workOrder || !SCHEDULED_STATUSES.includes(workOrder.status)) continue;
+
+    // Orders from before due dates were kept apart still carry theirs in endDate
+    if (!workOrder.dueDate) workOrder.dueDate = workOrder.endDate;
+    workOrder.startDate = proposal.startDate;
+    workOrder.endDate = proposal.endDate;
+    for (const slot of proposal.operations) {
+      const operation = workOrder.operations.find(candidate => candidate.sequence === slot.sequence);
+      if (operation) {
+        operation.scheduledStartDate = slot.startDate;
+        operation.scheduledEndDate = slot.endDate;
+      }
+    }
+    workOrder.set('updatedBy', userId);
+    await workOrder.save({ session });
+    updated += 1;
+  }
+  return updated;
+};
+
+// Load of all open orders, drafts included, for the capacity chart
+export const capacityLoad = async (from: Date, weeks: number, workCenterId?: string) => {
+  const centers = await WorkCenter.find(workCenterId ? { _id: workCenterId } : { isActive: true }).sort('code');
+  const workOrders = await WorkOrder.find({
+    isActive: true,
+    status: { $in: OPEN_WORK_ORDER_STATUSES },
+    'operations.0': { $exists: true },
+    endDate: { $gte: startOfWeek(from) }
+  });
+  return weeklyLoad(workOrders, centers, from, weeks);
+};
+
+export type { ScheduleDirection, IScheduleOptions, IScheduleProposal, IWeeklyLoad, ISchedule };
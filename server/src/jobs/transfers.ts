@@ -0,0 +1,270 @@
+import { ClientSession } from 'mongoose';
+import { IStockTransfer } from '../models/StockTransfer';
+import { InventoryStock } from '../models/InventoryStock';
+import { InventoryTransaction, IInventoryTransaction } from '../models/InventoryTransaction';
+import { InventoryPeriod } from '../models/InventoryPeriod';
+import { IInventoryRecalculation } from '../models/InventoryRecalculation';
+import { StockReservation, IStockReservation } from '../models/StockReservation';
+import { StorageBin } from '../models/StorageBin';
+import { Item } from '../models/Item';
+import { resequenceTransactions } from './backdating';
+
+interface ITransferUser {
+  id: string;
+  name: string;
+}
+
+interface ITransferShipment {
+  reservations: IStockReservation[];
+  error?: string;
+}
+
+interface ITransferReceipt {
+  transactions: IInventoryTransaction[];
+  recalculations: IInventoryRecalculation[];
+  error?: string;
+}
+
+// Ships an approved transfer. The goods stay on the source stock while in transit, held by a
+// TRANSFER reservation per line, and are valued at the source average cost from here on.
+export const shipTransfer = async (
+  transfer: IStockTransfer,
+  user: ITransferUser,
+  session: ClientSession | null = null
+): Promise<ITransferShipment> => {
+  const reservations: IStockReservation[] = [];
+
+  for (const item of transfer.items) {
+    const sourceStock = await InventoryStock.findOne({
+      itemId: item.itemId,
+      warehouseId: transfer.fromWarehouseId,
+      ownerId: null
+    }).session(session);
+
+    if (!sourceStock || !sourceStock.canReserve(item.quantity)) {
+      return {
+        reservations,
+        error: `품목 ${item.itemName}의 사용 가능한 재고가 부족합니다. (사용 가능: ${sourceStock?.availableQuantity || 0})`
+      };
+    }
+
+    if (item.batchNumber) {
+      const batch = sourceStock.batchNumbers?.find(b => b.batchNumber === item.batchNumber);
+      if (!batch || batch.quantity < item.quantity) {
+        return { reservations, error: `품목 ${item.itemName}의 배치 ${item.batchNumber} 재고가 부족합니다.` };
+      }
+      item.expirationDate = batch.expirationDate;
+    }
+
+    // Cost is fixed at shipment so the destination receives it at source value
+    item.unitCost = sourceStock.averageUnitCost;
+
+    const reserved = await StockReservation.reserveForSource(
+      {
+        sourceType: 'TRANSFER',
+        sourceId: transfer._id,
+        sourceNumber: transfer.transferNumber,
+        holderName: transfer.toWarehouseName,
+        requiredDate: transfer.expectedArrivalDate
+      },
+      [{ itemId: item.itemId.toString(), quantity: item.quantity }],
+      user.id,
+      session,
+      transfer.fromWarehouseId.toString()
+    );
+    reservations.push(...reserved.reservations);
+    if (reserved.shortages.length) {
+      return { reservations, error: `품목 ${item.itemName}의 사용 가능한 재고가 부족합니다.` };
+    }
+  }
+
+  transfer.status = 'IN_TRANSIT';
+  transfer.shippedAt = new Date();
+  transfer.set('shippedBy', user.id);
+  transfer.set('updatedBy', user.id);
+  transfer.markModified('items');
+  await transfer.save({ session });
+
+  return { reservations };
+};
+
+// Receives an in-transit transfer. The OUT leg is dated when the goods shipped and the IN leg
+// when they arrive, so the source history no longer shows them after shipment. A shipment in a
+// month that has since been closed was counted at the source by that close, so it leaves on
+// receipt instead.
+export const receiveTransfer = async (
+  transfer: IStockTransfer,
+  putaway: Array<{ itemId: string; binId: string }>,
+  user: ITransferUser,
+  session: ClientSession | null = null
+): Promise<ITransferReceipt> => {
+  const transactions: IInventoryTransaction[] = [];
+  const recalculations: IInventoryRecalculation[] = [];
+  const now = new Date();
+  const shippedOn = transfer.shippedAt && !(await InventoryPeriod.isClosed(transfer.shippedAt, session))
+    ? transfer.shippedAt
+    : now;
+
+  for (const item of transfer.items) {
+    const sourceStock = await InventoryStock.findOne({
+      itemId: item.itemId,
+      warehouseId: transfer.fromWarehouseId,
+      ownerId: null
+    }).session(session);
+
+    if (!sourceStock) {
+      return { transactions, recalculations, error: `품목 ${item.itemName}의 출발 창고 재고 정보를 찾을 수 없습니다.` };
+    }
+
+    // Use up this transfer's in-transit reservation, then take the goods out of the source
+    await StockReservation.consumeForSource('TRANSFER', transfer._id, sourceStock, item.quantity, session);
+    const sourcePreviousQuantity = sourceStock.currentQuantity;
+    if (
+      !sourceStock.removeFromBins(item.quantity, item.fromBinId?.toString()) ||
+      !sourceStock.removeStock(item.quantity, item.batchNumber)
+    ) {
+      return { transactions, recalculations, error: `품목 ${item.itemName}의 출발 창고 재고가 부족합니다.` };
+    }
+    sourceStock.set('lastUpdatedBy', user.id);
+    await sourceStock.save({ session });
+
+    let destinationStock = await InventoryStock.findOne({
+      itemId: item.itemId,
+      warehouseId: transfer.toWarehouseId,
+      ownerId: null
+    }).session(session);
+
+    if (!destinationStock) {
+      destinationStock = new InventoryStock({
+        itemId: item.itemId,
+        itemName: item.itemName,
+        itemCode: item.itemCode,
+        itemCategory: sourceStock.itemCategory,
+        warehouseId: transfer.toWarehouseId,
+        warehouseName: transfer.toWarehouseName,
+        currentQuantity: 0,
+        averageUnitCost: 0,
+        lastUpdatedBy: user.id
+      });
+    }
+
+    const destinationPreviousQuantity = destinationStock.currentQuantity;
+    destinationStock.addStock(item.quantity, item.unitCost, item.batchNumber, item.expirationDate);
+
+    const override = putaway.find(p => p.itemId === item.itemId.toString());
+    let bin = null;
+    if (override) {
+      bin = await StorageBin.findOne({
+        _id: override.binId,
+        warehouseId: transfer.toWarehouseId,
+        isActive: true
+      }).session(session);
+      if (!bin) {
+        return { transactions, recalculations, error: `${item.itemName}: 지정한 로케이션을 도착 창고에서 찾을 수 없습니다.` };
+      }
+    } else {
+      const master = await Item.findById(item.itemId).select('category').session(session);
+      const suggestion = await StorageBin.suggestPutaway(
+        transfer.toWarehouseId.toString(),
+        item.itemId.toString(),
+        master?.category,
+        item.quantity,
+        session
+      );
+      bin = suggestion?.bin || null;
+    }
+
+    if (bin) {
+      destinationStock.addToBin(bin._id, bin.code, item.quantity);
+      item.toBinId = bin._id;
+      item.toBinCode = bin.code;
+    }
+    destinationStock.set('lastUpdatedBy', user.id);
+    await destinationStock.save({ session });
+
+    const common = {
+      itemId: item.itemId,
+      itemName: item.itemName,
+      itemCode: item.itemCode,
+      transactionType: 'TRANSFER',
+      unitPrice: item.unitCost,
+      referenceId: transfer._id,
+      referenceType: 'TRANSFER',
+      referenceNumber: transfer.transferNumber,
+      notes: item.notes,
+      batchNumber: item.batchNumber,
+      expirationDate: item.expirationDate,
+      userId: user.id,
+      userName: user.name
+    };
+
+    const outLeg = new InventoryTransaction({
+      ...common,
+      warehouseId: transfer.fromWarehouseId,
+      warehouseName: transfer.fromWarehouseName,
+      quantity: -item.quantity, // Negative for the outgoing leg
+      previousQuantity: sourcePreviousQuantity,
+      currentQuantity: sourceStock.currentQuantity,
+      transactionDate: shippedOn,
+      reason: `창고 이동 출고 - ${transfer.toWarehouseName}`,
+      location: item.fromBinCode
+    });
+    await outLeg.save({ session });
+
+    // The goods were held since shipment, so no later movement can have drawn on them
+    const { recalculation, closedPeriod } = await resequenceTransactions(outLeg, true, user, session);
+    if (closedPeriod) {
+      return { transactions, recalculations, error: `${closedPeriod} 재고 기간이 마감되어 해당 일자로 처리할 수 없습니다.` };
+    }
+    if (recalculation) {
+      recalculations.push(recalculation);
+    }
+
+    const inLeg = new InventoryTransaction({
+      ...common,
+      warehouseId: transfer.toWarehouseId,
+      warehouseName: transfer.toWarehouseName,
+      quantity: item.quantity,
+      previousQuantity: destinationPreviousQuantity,
+      currentQuantity: destinationStock.currentQuantity,
+      transactionDate: now,
+      reason: `창고 이동 입고 - ${transfer.fromWarehouseName}`,
+      location: bin?.code
+    });
+    await inLeg.save({ session });
+
+    transactions.push(outLeg, inLeg);
+  }
+
+  transfer.status = 'RECEIVED';
+  transfer.receivedAt = now;
+  transfer.set('receivedBy', user.id);
+  transfer.set('updatedBy', user.id);
+  await transfer.save({ session });
+
+  return { transactions, recalculations };
+};
+
+// Cancels a transfer. One already in transit hands its reservations back to the source stock.
+export const cancelTransfer = async (
+  transfer: IStockTransfer,
+  reason: string | undefined,
+  user: ITransferUser,
+  session: ClientSession | null = null
+) => {
+  if (transfer.status === 'IN_TRANSIT') {
+    await StockReservation.releaseForSource('TRANSFER', transfer._id, reason || 'Transfer cancelled', session);
+  }
+
+  transfer.status = 'CANCELLED';
+  transfer.cancelledAt = new Date();
+  if (reason) {
+    transfer.notes = [transfer.notes, `취소 사유: ${reason}`].filter(Boolean).join('\n');
+  }
+  transfer.set('updatedBy', user.id);
+  await transfer.save({ session });
+
+  return transfer;
+};
+
+export type { ITransferUser, ITransferShipment, ITransferReceipt };
@@ -0,0 +1,247 @@
+import { ClientSession } from 'mongoose';
+import Item, { IItem } from '../models/Item';
+import { IItemTemplate, AttributeValue } from '../models/ItemTemplate';
+import { BOM, IBOM } from '../models/Production';
+import { UnitOfMeasure } from '../models/UnitOfMeasure';
+
+interface IVariantSkip {
+  code?: string;
+  attributes: Record<string, any>;
+  reason: string;
+}
+
+interface IResolvedBOMLine {
+  itemId: string;
+  quantity: number;
+  unit: string;
+  baseQuantity: number;
+  baseUnit?: string;
+  notes?: string;
+  substitutedFrom?: string; // the template component this line replaces
+}
+
+interface IResolvedBOM {
+  bom: IBOM | null;
+  lines: IResolvedBOMLine[];
+  error?: string;
+}
+
+const MAX_GENERATED_VARIANTS = 200;
+
+const codeSegment = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10);
+
+// Checks submitted values against the template's attribute definitions and returns them typed,
+// with LIST values in the spelling of the option. A partial set (e.g. a BOM substitution rule)
+// may leave required attributes out.
+export const normalizeAttributes = (
+  template: IItemTemplate,
+  values: Record<string, any> = {},
+  partial = false
+): { attributes: Record<string, AttributeValue>; error?: string } => {
+  const attributes: Record<string, AttributeValue> = {};
+
+  const unknown = Object.keys(values).find(key => !template.attributes.find(attribute => attribute.key === key));
+  if (unknown) {
+    return { attributes, error: `Attribute ${unknown} is not defined on template ${template.code}` };
+  }
+
+  for (const definition of template.attributes) {
+    const raw = values[definition.key];
+    if (raw === undefined || raw === null || raw === '') {
+      if (definition.required && !partial) {
+        return { attributes, error: `Attribute ${definition.name} is required` };
+      }
+      continue;
+    }
+
+    switch (definition.type) {
+      case 'NUMBER': {
+        const number = Number(raw);
+        if (!Number.isFinite(number)) {
+          return { attributes, error: `Attribute ${definition.name} must be a number` };
+        }
+        attributes[definition.key] = number;
+        break;
+      }
+      case 'BOOLEAN':
+        if (![true, false, 'true', 'false'].includes(raw)) {
+          return { attributes, error: `Attribute ${definition.name} must be true or false` };
+        }
+        attributes[definition.key] = raw === true || raw === 'true';
+        break;
+      case 'LIST': {
+        const option = definition.options?.find(candidate => candidate.value.toLowerCase() === String(raw).trim().toLowerCase());
+        if (!option) {
+          return { attributes, error: `${raw} is not an allowed value of attribute ${definition.name}` };
+        }
+        attributes[definition.key] = option.value;
+        break;
+      }
+      default: {
+        const text = String(raw).trim();
+        if (text.length > 50) {
+          return { attributes, error: `Attribute ${definition.name} cannot exceed 50 characters` };
+        }
+        attributes[definition.key] = text;
+      }
+    }
+  }
+
+  return { attributes };
+};
+
+// Variant code: template code followed by one segment per attribute in definition order,
+// e.g. TS100-RD-L. Booleans contribute the attribute key when true.
+export const variantCode = (template: IItemTemplate, attributes: Record<string, AttributeValue>) => {
+  const segments = template.attributes
+    .filter(definition => attributes[definition.key] !== undefined && attributes[definition.key] !== false)
+    .map(definition => {
+      const value = attributes[definition.key];
+      if (definition.type === 'LIST') {
+        return definition.options!.find(option => option.value === value)!.code;
+      }
+      return codeSegment(definition.type === 'BOOLEAN' ? definition.key : String(value));
+    });
+  return [template.code, ...segments].join('-');
+};
+
+export const variantName = (template: IItemTemplate, attributes: Record<string, AttributeValue>) => {
+  const labels = template.attributes
+    .filter(definition => attributes[definition.key] !== undefined && attributes[definition.key] !== false)
+    .map(definition => definition.type === 'BOOLEAN' ? definition.name : String(attributes[definition.key]));
+  return labels.length ? `${template.name} (${labels.join(' / ')})` : template.name;
+};
+
+// Every combination of the LIST options; other attribute types have no finite value set
+export const listCombinations = (template: IItemTemplate): Record<string, AttributeValue>[] | null => {
+  if (template.attributes.some(definition => definition.type !== 'LIST' && definition.required)) {
+    return null;
+  }
+  return template.attributes
+    .filter(definition => definition.type === 'LIST')
+    .reduce<Record<string, AttributeValue>[]>(
+      (combinations, definition) => combinations.flatMap(combination =>
+        definition.options!.map(option => ({ ...combination, [definition.key]: option.value }))
+      ),
+      [{}]
+    );
+};
+
+// Creates one item per attribute combination. Combinations that are invalid or whose derived
+// code already exists are reported instead of failing the whole run.
+export const generateVariants = async (
+  template: IItemTemplate,
+  combinations: Record<string, any>[],
+  userId: string,
+  session: ClientSession | null = null
+): Promise<{ created: IItem[]; skipped: IVariantSkip[] }> => {
+  const created: IItem[] = [];
+  const skipped: IVariantSkip[] = [];
+
+  for (const values of combinations.slice(0, MAX_GENERATED_VARIANTS)) {
+    const { attributes, error } = normalizeAttributes(template, values);
+    if (error) {
+      skipped.push({ attributes: values, reason: error });
+      continue;
+    }
+
+    const code = variantCode(template, attributes);
+    if (code.length > 50) {
+      skipped.push({ code, attributes, reason: 'Derived item code exceeds 50 characters' });
+      continue;
+    }
+    if (await Item.exists({ code }).session(session)) {
+      skipped.push({ code, attributes, reason: 'An item with this code already exists' });
+      continue;
+    }
+
+    const [variant] = await Item.create([{
+      code,
+      name: variantName(template, attributes),
+      category: template.category,
+      supplierId: template.supplierId,
+      unit: template.unit,
+      unitConversions: template.unitConversions,
+      price: template.price,
+      cost: template.cost,
+      leadTime: template.leadTime,
+      pickingPolicy: template.pickingPolicy,
+      isSerialControlled: template.isSerialControlled,
+      specification: template.specification,
+      description: template.description,
+      templateId: template._id,
+      attributes,
+      createdBy: userId
+    }], { session });
+    created.push(variant);
+  }
+
+  for (const values of combinations.slice(MAX_GENERATED_VARIANTS)) {
+    skipped.push({ attributes: values, reason: `At most ${MAX_GENERATED_VARIANTS} variants are generated per run` });
+  }
+
+  return { created, skipped };
+};
+
+// The version in effect at a date: the active one that took effect last
+export const activeBOM = (filter: Record<string, any>, session: ClientSession | null = null, date = new Date()) =>
+  BOM.findOne({ ...filter, isActive: true, effectiveDate: { $lte: date } })
+    .sort({ effectiveDate: -1, version: -1 })
+    .session(session);
+
+// The components of one item: its own BOM when it has one, otherwise its template's BOM with the
+// substitutions that apply to this variant. A rule naming the variant beats an attribute rule.
+export const resolveBOM = async (
+  item: IItem,
+  session: ClientSession | null = null,
+  date = new Date()
+): Promise<IResolvedBOM> => {
+  const own = await activeBOM({ productId: item._id }, session, date);
+  const bom = own || (item.templateId ? await activeBOM({ templateId: item.templateId }, session, date) : null);
+  if (!bom) {
+    return { bom: null, lines: [] };
+  }
+
+  const lines: IResolvedBOMLine[] = [];
+  for (const line of bom.items) {
+    const rules = own ? [] : bom.substitutions.filter(rule => rule.itemId.toString() === line.itemId.toString());
+    const rule = rules.find(candidate => candidate.variantId?.toString() === item._id.toString()) ||
+      rules.find(candidate => !candidate.variantId && candidate.attributes &&
+        Object.entries(candidate.attributes).every(([key, value]) => item.attributes?.[key] === value));
+
+    if (!rule) {
+      lines.push({
+        itemId: line.itemId.toString(),
+        quantity: line.quantity,
+        unit: line.unit,
+        baseQuantity: line.baseQuantity ?? line.quantity,
+        baseUnit: line.baseUnit,
+        notes: line.notes
+      });
+      continue;
+    }
+
+    const substitute = await Item.findById(rule.substituteItemId).select('name unit unitConversions').session(session);
+    if (!substitute) {
+      return { bom, lines, error: 'Substitute component no longer exists' };
+    }
+    const quantity = rule.quantity ?? line.quantity;
+    const baseQuantity = await UnitOfMeasure.toBase(substitute, quantity, line.unit, session);
+    if (baseQuantity === null) {
+      return { bom, lines, error: `${substitute.name}: ${line.unit} cannot be converted to ${substitute.unit}` };
+    }
+    lines.push({
+      itemId: substitute._id.toString(),
+      quantity,
+      unit: line.unit,
+      baseQuantity,
+      baseUnit: substitute.unit,
+      notes: line.notes,
+      substitutedFrom: line.itemId.toString()
+    });
+  }
+
+  return { bom, lines };
+};
+
+export type { IVariantSkip, IResolvedBOMLine, IResolvedBOM };
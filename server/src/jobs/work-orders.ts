@@ -0,0 +1,209 @@
+import { ClientSession } from 'mongoose';
+import Item, { IItem } from '../models/Item';
+import User from '../models/User';
+import { IBOM } from '../models/Production';
+import { Routing, IRouting } from '../models/Routing';
+import { WorkOrder, IWorkOrder, IWorkOrderOperation, UNASSIGNED_WORK_CENTER } from '../models/WorkOrder';
+import { resolveBOM } from './variants';
+
+interface IWorkOrderMigration {
+  converted: number; // documents written by the former production work-order model
+  drafts: number; // pending orders that were never released
+  released: number; // pending orders that had already reserved their material
+}
+
+interface IBOMMaterials {
+  bom: IBOM | null;
+  materials: Array<{ itemId: string; requiredQuantity: number; unit: string }>;
+  error?: string;
+}
+
+interface IRoutingOperations {
+  routing: IRouting | null;
+  operations: Array<Partial<IWorkOrderOperation>>;
+}
+
+// Units sitting at one operation of an open order: waiting to be worked, or being worked
+interface IOperationWip {
+  workOrderId: string;
+  orderNumber: string;
+  itemId: string;
+  sequence: number;
+  name: string;
+  workCenterCode: string;
+  status: IWorkOrderOperation['status'];
+  queued: number;
+  inProcess: number;
+  goodQuantity: number;
+  scrapQuantity: number;
+}
+
+// Fields only the former production work-order model wrote
+const LEGACY_FIELDS = [
+  'workOrderNumber',
+  'productId',
+  'plannedQuantity',
+  'scrapQuantity',
+  'plannedStartDate',
+  'plannedEndDate',
+  'items',
+  'totalMaterialCost',
+  'totalCost',
+  'qualityChecked',
+  'completedBy'
+];
+
+// Brings the work-order collection onto the single work-order model. Both former models wrote to
+// it: documents with a workOrderNumber are rewritten field by field, and PENDING orders of the
+// current shape become drafts, or released orders when their material was already reserved.
+// Converted documents lose their legacy fields, so running it again changes nothing.
+export const migrateWorkOrders = async (): Promise<IWorkOrderMigration> => {
+  const collection = WorkOrder.collection;
+
+  // The former model kept a unique index on its own number, which rejects every order without one
+  const indexes = await collection.indexes();
+  if (indexes.some(index => index.name === 'workOrderNumber_1')) {
+    await collection.dropIndex('workOrderNumber_1');
+  }
+
+  const legacy = await collection.find({ workOrderNumber: { $exists: true } }).toArray();
+  for (const order of legacy) {
+    const lines: any[] = order.items || [];
+    const items = await Item.find({ _id: { $in: [order.productId, ...lines.map(line => line.itemId)] } }).select('unit');
+    const unitOf = (itemId: unknown) =>
+      items.find(item => item._id.toString() === String(itemId))?.unit || 'EA';
+    const assignee = order.assignedTo ? await User.findById(order.assignedTo).select('name') : null;
+
+    let orderNumber = String(order.workOrderNumber).toUpperCase();
+    if (await collection.findOne({ orderNumber, _id: { $ne: order._id } })) {
+      orderNumber = `${orderNumber}-M`;
+    }
+
+    const fields: Record<string, unknown> = {
+      orderNumber,
+      itemId: order.productId,
+      quantity: order.plannedQuantity,
+      unit: unitOf(order.productId),
+      workCenter: order.workCenter || UNASSIGNED_WORK_CENTER,
+      startDate: order.plannedStartDate,
+      endDate: order.plannedEndDate,
+      actualStartDate: order.startDate,
+      actualEndDate: order.endDate,
+      releasedAt: ['DRAFT', 'CANCELLED'].includes(order.status) ? undefined : order.startDate || order.updatedAt,
+      defectQuantity: order.scrapQuantity || 0,
+      priority: order.priority === 'MEDIUM' ? 'NORMAL' : order.priority,
+      assignedTo: assignee?.name,
+      materials: lines.map(line => ({
+        itemId: line.itemId,
+        requiredQuantity: line.requiredQuantity,
+        issuedQuantity: line.consumedQuantity || 0,
+        unit: unitOf(line.itemId)
+      })),
+      updatedBy: order.completedBy || order.updatedBy
+    };
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (value === undefined || value === null) {
+        $unset[field] = '';
+      } else {
+        $set[field] = value;
+      }
+    }
+    LEGACY_FIELDS.forEach(field => { $unset[field] = ''; });
+
+    await collection.updateOne({ _id: order._id }, { $set, $unset });
+  }
+
+  const released = await collection.updateMany(
+    { status: 'PENDING', releasedAt: { $exists: true } },
+    { $set: { status: 'RELEASED' } }
+  );
+  const drafts = await collection.updateMany({ status: 'PENDING' }, { $set: { status: 'DRAFT' } });
+
+  return { converted: legacy.length, drafts: drafts.modifiedCount, released: released.modifiedCount };
+};
+
+// Material lines for building a quantity of an item from the BOM in effect at the date, in the
+// components' base units
+export const workOrderMaterials = async (
+  item: IItem,
+  quantity: number,
+  date = new Date(),
+  session: ClientSession | null = null
+): Promise<IBOMMaterials> => {
+  const { bom, lines, error } = await resolveBOM(item, session, date);
+  if (!bom || error) {
+    return { bom, materials: [], error };
+  }
+
+  const components = await Item.find({ _id: { $in: lines.map(line => line.itemId) } }).select('unit').session(session);
+  return {
+    bom,
+    materials: lines.map(line => ({
+      itemId: line.itemId,
+      requiredQuantity: Math.round(quantity * line.baseQuantity / bom.outputQuantity * 10000) / 10000,
+      unit: line.baseUnit || components.find(component => component._id.toString() === line.itemId)?.unit || line.unit
+    }))
+  };
+};
+
+export const activeRouting = (itemId: unknown, session: ClientSession | null = null, date = new Date()) =>
+  Routing.findOne({ itemId, isActive: true, effectiveDate: { $lte: date } })
+    .sort({ effectiveDate: -1, version: -1 })
+    .session(session);
+
+// Operation list for a work order from the routing in effect at the date; items without a
+// routing get none and are tracked on the order as a whole
+export const workOrderOperations = async (
+  itemId: unknown,
+  date = new Date(),
+  session: ClientSession | null = null
+): Promise<IRoutingOperations> => {
+  const routing = await activeRouting(itemId, session, date);
+  if (!routing) {
+    return { routing: null, operations: [] };
+  }
+
+  return {
+    routing,
+    operations: routing.operations.map(operation => ({
+      sequence: operation.sequence,
+      name: operation.name,
+      workCenterId: operation.workCenterId,
+      workCenterCode: operation.workCenterCode,
+      setupTime: operation.setupTime,
+      runTime: operation.runTime,
+      inspectionRequired: operation.inspectionRequired,
+      inspectionCriteria: operation.inspectionCriteria,
+      instructions: operation.instructions,
+      status: 'PENDING' as const
+    }))
+  };
+};
+
+// Where the units of released and running orders are, step by step. Units queue at an operation
+// once the step before it has passed them on, and are in process while the operation runs.
+export const operationWip = (workOrders: IWorkOrder[]): IOperationWip[] =>
+  workOrders.flatMap(workOrder => workOrder.operations.map((operation, index) => {
+    const previous = index > 0 ? workOrder.operations[index - 1] : null;
+    const available = previous ? previous.goodQuantity : workOrder.quantity;
+    const reached = !previous || previous.status === 'COMPLETED';
+
+    return {
+      workOrderId: workOrder._id.toString(),
+      orderNumber: workOrder.orderNumber,
+      itemId: workOrder.itemId.toString(),
+      sequence: operation.sequence,
+      name: operation.name,
+      workCenterCode: operation.workCenterCode,
+      status: operation.status,
+      queued: operation.status === 'PENDING' && reached ? available : 0,
+      inProcess: operation.status === 'IN_PROGRESS' ? available : 0,
+      goodQuantity: operation.goodQuantity,
+      scrapQuantity: operation.scrapQuantity
+    };
+  }));
+
+export type { IWorkOrderMigration, IBOMMaterials, IRoutingOperations, IOperationWip };
@@ -0,0 +1,77 @@
+import mongoose, { ClientSession, Document, Model, Schema } from 'mongoose';
+
+// Monthly inventory posting period. Months are closed in order, so closing a month also closes
+// every month before it; nothing can be backdated into a closed month. Only the latest closed
+// month can be reopened.
+interface IInventoryPeriod extends Document {
+  _id: string;
+  period: string; // YYYY-MM
+  status: 'OPEN' | 'CLOSED';
+  closedAt?: Date;
+  closedBy?: Schema.Types.ObjectId;
+  reopenedAt?: Date;
+  reopenedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IInventoryPeriodModel extends Model<IInventoryPeriod> {
+  periodOf(date: Date): string;
+  nextOf(period: string): string;
+  latestClosed(session?: ClientSession | null): Promise<string | null>;
+  isClosed(date: Date, session?: ClientSession | null): Promise<boolean>;
+}
+
+const InventoryPeriodSchema = new Schema({
+  period: {
+    type: String,
+    required: [true, 'Period is required'],
+    unique: true,
+    match: [/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be in YYYY-MM format']
+  },
+  status: {
+    type: String,
+    enum: ['OPEN', 'CLOSED'],
+    default: 'OPEN'
+  },
+  closedAt: {
+    type: Date
+  },
+  closedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reopenedAt: {
+    type: Date
+  },
+  reopenedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Static methods
+InventoryPeriodSchema.statics.periodOf = function(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+InventoryPeriodSchema.statics.nextOf = function(period: string) {
+  const [year, month] = period.split('-').map(Number);
+  return InventoryPeriod.periodOf(new Date(year, month, 1));
+};
+
+InventoryPeriodSchema.statics.latestClosed = async function(session: ClientSession | null = null) {
+  const period = await InventoryPeriod.findOne({ status: 'CLOSED' }).sort({ period: -1 }).session(session);
+  return period?.period || null;
+};
+
+InventoryPeriodSchema.statics.isClosed = async function(date: Date, session: ClientSession | null = null) {
+  const latest = await InventoryPeriod.latestClosed(session);
+  return !!latest && InventoryPeriod.periodOf(date) <= latest;
+};
+
+const InventoryPeriod = mongoose.model<IInventoryPeriod, IInventoryPeriodModel>('InventoryPeriod', InventoryPeriodSchema);
+
+export { InventoryPeriod, type IInventoryPeriod };
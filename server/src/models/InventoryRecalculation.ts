@@ -0,0 +1,133 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IRecalculatedField {
+  before?: number;
+  after?: number;
+}
+
+interface IRecalculationChange {
+  transactionId: mongoose.Types.ObjectId;
+  transactionNumber: string;
+  transactionDate: Date;
+  transactionType: string;
+  previousQuantity: IRecalculatedField;
+  currentQuantity: IRecalculatedField;
+  unitPrice: IRecalculatedField;
+}
+
+// Audit record written whenever a backdated posting rewrites the running balances or prices
+// of transactions that were already on the books
+interface IInventoryRecalculation extends Document {
+  _id: string;
+  triggerTransactionId: Schema.Types.ObjectId;
+  triggerTransactionNumber: string;
+  postedDate: Date;
+  itemId: Schema.Types.ObjectId;
+  itemName: string;
+  itemCode?: string;
+  warehouseId: Schema.Types.ObjectId;
+  warehouseName: string;
+  ownerId?: Schema.Types.ObjectId;
+  changes: IRecalculationChange[];
+  userId: Schema.Types.ObjectId;
+  userName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RecalculatedFieldSchema = new Schema({
+  before: {
+    type: Number
+  },
+  after: {
+    type: Number
+  }
+}, { _id: false });
+
+const RecalculationChangeSchema = new Schema({
+  transactionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'InventoryTransaction',
+    required: true
+  },
+  transactionNumber: {
+    type: String,
+    required: true
+  },
+  transactionDate: {
+    type: Date,
+    required: true
+  },
+  transactionType: {
+    type: String,
+    required: true
+  },
+  previousQuantity: RecalculatedFieldSchema,
+  currentQuantity: RecalculatedFieldSchema,
+  unitPrice: RecalculatedFieldSchema
+}, { _id: false });
+
+const InventoryRecalculationSchema = new Schema({
+  triggerTransactionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'InventoryTransaction',
+    required: true
+  },
+  triggerTransactionNumber: {
+    type: String,
+    required: true
+  },
+  postedDate: {
+    type: Date,
+    required: true
+  },
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  itemCode: {
+    type: String,
+    trim: true
+  },
+  warehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: true
+  },
+  warehouseName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  changes: [RecalculationChangeSchema],
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  userName: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+InventoryRecalculationSchema.index({ createdAt: -1 });
+InventoryRecalculationSchema.index({ itemId: 1, warehouseId: 1, createdAt: -1 });
+
+const InventoryRecalculation = mongoose.model<IInventoryRecalculation>('InventoryRecalculation', InventoryRecalculationSchema);
+
+export { InventoryRecalculation, type IInventoryRecalculation, type IRecalculationChange };
@@ -1,5 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+interface IBatchAllocation {
+  batchNumber?: string;
+  quantity: number;
+  expirationDate?: Date;
+}
+
 interface IInventoryStock extends Document {
   _id: string;
   itemId: Schema.Types.ObjectId;
@@ -8,6 +14,9 @@ interface IInventoryStock extends Document {
   itemCategory?: string;
   warehouseId: Schema.Types.ObjectId;
   warehouseName: string;
+  ownerType: 'COMPANY' | 'SUPPLIER' | 'CUSTOMER';
+  ownerId?: Schema.Types.ObjectId;
+  ownerName?: string;
   currentQuantity: number;
   reservedQuantity: number;
   availableQuantity: number;
@@ -25,12 +34,30 @@ interface IInventoryStock extends Document {
     expirationDate?: Date;
     receivedDate: Date;
   }>;
+  binStocks?: Array<{
+    binId: Schema.Types.ObjectId;
+    binCode: string;
+    quantity: number;
+  }>;
   location?: string;
   status: 'ACTIVE' | 'INACTIVE' | 'DISCONTINUED';
   isActive: boolean;
   lastUpdatedBy: Schema.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
+  isLowStock(): boolean;
+  isCriticalStock(): boolean;
+  isOverStock(): boolean;
+  canReserve(quantity: number): boolean;
+  reserve(quantity: number): boolean;
+  unreserve(quantity: number): void;
+  addStock(quantity: number, unitCost?: number, batchNumber?: string, expirationDate?: Date, receivedDate?: Date): void;
+  removeStock(quantity: number, batchNumber?: string, allowNegative?: boolean): boolean;
+  addToBin(binId: mongoose.Types.ObjectId | string, binCode: string, quantity: number): void;
+  removeFromBins(quantity: number, binId?: mongoose.Types.ObjectId | string): boolean;
+  isBatchExpired(batchNumber: string, asOf?: Date): boolean;
+  allocateBatches(quantity: number, policy: 'FIFO' | 'FEFO', asOf?: Date): { allocations: IBatchAllocation[]; shortfall: number };
+  adjustQuantity(delta: number, binId?: mongoose.Types.ObjectId | string, binCode?: string): void;
 }
 
 const BatchSchema = new Schema({
@@ -55,6 +82,25 @@ const BatchSchema = new Schema({
   }
 }, { _id: false });
 
+const BinStockSchema = new Schema({
+  binId: {
+    type: Schema.Types.ObjectId,
+    ref: 'StorageBin',
+    required: true
+  },
+  binCode: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [50, 'Bin code cannot exceed 50 characters']
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0, 'Bin quantity cannot be negative']
+  }
+}, { _id: false });
+
 const InventoryStockSchema = new Schema({
   itemId: {
     type: Schema.Types.ObjectId,
@@ -88,10 +134,26 @@ const InventoryStockSchema = new Schema({
     trim: true,
     maxlength: [100, 'Warehouse name cannot exceed 100 characters']
   },
+  // Supplier consignment and customer-supplied material sit in our warehouses but stay the
+  // owner's property; company stock has no ownerId
+  ownerType: {
+    type: String,
+    enum: ['COMPANY', 'SUPPLIER', 'CUSTOMER'],
+    default: 'COMPANY'
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  ownerName: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Owner name cannot exceed 200 characters']
+  },
+  // Goes below zero only in warehouses that allow negative stock (see removeStock)
   currentQuantity: {
     type: Number,
     required: true,
-    min: [0, 'Current quantity cannot be negative'],
     default: 0
   },
   reservedQuantity: {
@@ -138,6 +200,7 @@ const InventoryStockSchema = new Schema({
     type: Date
   },
   batchNumbers: [BatchSchema],
+  binStocks: [BinStockSchema],
   location: {
     type: String,
     trim: true,
@@ -161,8 +224,8 @@ const InventoryStockSchema = new Schema({
   timestamps: true
 });
 
-// Compound unique index
-InventoryStockSchema.index({ itemId: 1, warehouseId: 1 }, { unique: true });
+// Compound unique index: one company row plus one row per owner for each item and warehouse
+InventoryStockSchema.index({ itemId: 1, warehouseId: 1, ownerId: 1 }, { unique: true });
 
 // Other indexes
 InventoryStockSchema.index({ itemId: 1 });
@@ -172,14 +235,17 @@ InventoryStockSchema.index({ availableQuantity: 1 });
 InventoryStockSchema.index({ status: 1 });
 InventoryStockSchema.index({ isActive: 1 });
 InventoryStockSchema.index({ lastTransactionDate: -1 });
+InventoryStockSchema.index({ 'binStocks.binId': 1 });
+InventoryStockSchema.index({ ownerType: 1, ownerId: 1 });
 
 // Pre-save middleware to calculate available quantity and total value
 InventoryStockSchema.pre('save', function(this: IInventoryStock, next) {
   // Calculate available quantity
   this.availableQuantity = Math.max(0, this.currentQuantity - this.reservedQuantity);
   
-  // Calculate total value
-  this.totalValue = this.currentQuantity * this.averageUnitCost;
+  // Calculate total value; stock we do not own stays off our books, averageUnitCost keeps
+  // the agreed consignment price for settlement
+  this.totalValue = this.ownerType && this.ownerType !== 'COMPANY' ? 0 : Math.max(0, this.currentQuantity) * this.averageUnitCost;
   
   next();
 });
@@ -206,11 +272,13 @@ InventoryStockSchema.methods.reserve = function(this: IInventoryStock, quantity:
     return false;
   }
   this.reservedQuantity += quantity;
+  this.availableQuantity = Math.max(0, this.currentQuantity - this.reservedQuantity);
   return true;
 };
 
 InventoryStockSchema.methods.unreserve = function(this: IInventoryStock, quantity: number): void {
   this.reservedQuantity = Math.max(0, this.reservedQuantity - quantity);
+  this.availableQuantity = Math.max(0, this.currentQuantity - this.reservedQuantity);
 };
 
 InventoryStockSchema.methods.addStock = function(
@@ -218,15 +286,18 @@ InventoryStockSchema.methods.addStock = function(
   quantity: number, 
   unitCost?: number,
   batchNumber?: string,
-  expirationDate?: Date
+  expirationDate?: Date,
+  receivedDate: Date = new Date()
 ): void {
-  const previousTotal = this.currentQuantity * this.averageUnitCost;
+  // A receipt into negative stock first covers the shortfall, which takes the new cost
+  const previousQuantity = Math.max(0, this.currentQuantity);
+  const previousTotal = previousQuantity * this.averageUnitCost;
   this.currentQuantity += quantity;
   
   // Update average unit cost using weighted average
   if (unitCost && unitCost > 0) {
     const newTotal = previousTotal + (quantity * unitCost);
-    this.averageUnitCost = this.currentQuantity > 0 ? newTotal / this.currentQuantity : 0;
+    this.averageUnitCost = previousQuantity + quantity > 0 ? newTotal / (previousQuantity + quantity) : 0;
   }
   
   // Add batch information if provided
@@ -240,11 +311,12 @@ InventoryStockSchema.methods.addStock = function(
         batchNumber,
         quantity,
         expirationDate,
-        receivedDate: new Date()
+        receivedDate
       });
     }
   }
   
+  this.availableQuantity = Math.max(0, this.currentQuantity - this.reservedQuantity);
   this.lastInDate = new Date();
   this.lastTransactionDate = new Date();
 };
@@ -252,9 +324,10 @@ InventoryStockSchema.methods.addStock = function(
 InventoryStockSchema.methods.removeStock = function(
   this: IInventoryStock, 
   quantity: number,
-  batchNumber?: string
+  batchNumber?: string,
+  allowNegative = false
 ): boolean {
-  if (this.availableQuantity < quantity) {
+  if (!allowNegative && this.availableQuantity < quantity) {
     return false;
   }
   
@@ -271,11 +344,64 @@ InventoryStockSchema.methods.removeStock = function(
   }
   
   this.currentQuantity -= quantity;
+  this.availableQuantity = Math.max(0, this.currentQuantity - this.reservedQuantity);
   this.lastOutDate = new Date();
   this.lastTransactionDate = new Date();
   return true;
 };
 
+InventoryStockSchema.methods.addToBin = function(
+  this: IInventoryStock,
+  binId: mongoose.Types.ObjectId | string,
+  binCode: string,
+  quantity: number
+): void {
+  this.binStocks = this.binStocks || [];
+  const existingBin = this.binStocks.find(b => b.binId.toString() === binId.toString());
+  if (existingBin) {
+    existingBin.quantity += quantity;
+  } else {
+    this.binStocks.push({
+      binId: binId as unknown as Schema.Types.ObjectId,
+      binCode,
+      quantity
+    });
+  }
+  this.location = binCode;
+};
+
+InventoryStockSchema.methods.removeFromBins = function(
+  this: IInventoryStock,
+  quantity: number,
+  binId?: mongoose.Types.ObjectId | string
+): boolean {
+  if (!this.binStocks || this.binStocks.length === 0) {
+    return !binId;
+  }
+
+  if (binId) {
+    const bin = this.binStocks.find(b => b.binId.toString() === binId.toString());
+    if (!bin || bin.quantity < quantity) {
+      return false;
+    }
+    bin.quantity -= quantity;
+  } else {
+    // Stock not tied to a bin is consumed first, then the smallest bins are emptied
+    const binnedQuantity = this.binStocks.reduce((sum, b) => sum + b.quantity, 0);
+    let remaining = quantity - Math.max(0, this.currentQuantity - binnedQuantity);
+    const bins = [...this.binStocks].sort((a, b) => a.quantity - b.quantity);
+    for (const bin of bins) {
+      if (remaining <= 0) break;
+      const taken = Math.min(bin.quantity, remaining);
+      bin.quantity -= taken;
+      remaining -= taken;
+    }
+  }
+
+  this.binStocks = this.binStocks.filter(b => b.quantity > 0);
+  return true;
+};
+
 // Static methods
 InventoryStockSchema.statics.findByItem = function(itemId: mongoose.Types.ObjectId) {
   return this.find({ itemId, isActive: true }).populate('warehouseId');
@@ -359,6 +485,89 @@ InventoryStockSchema.statics.getStockSummary = async function(warehouseId?: mong
   };
 };
 
+InventoryStockSchema.methods.isBatchExpired = function(
+  this: IInventoryStock,
+  batchNumber: string,
+  asOf: Date = new Date()
+): boolean {
+  const batch = this.batchNumbers?.find(b => b.batchNumber === batchNumber);
+  return !!batch?.expirationDate && batch.expirationDate < asOf;
+};
+
+// Plan which lots an issue draws from; expired lots are never allocated.
+// Stock received without a batch is treated as the oldest under FIFO and as non-perishable (last) under FEFO.
+InventoryStockSchema.methods.allocateBatches = function(
+  this: IInventoryStock,
+  quantity: number,
+  policy: 'FIFO' | 'FEFO',
+  asOf: Date = new Date()
+): { allocations: IBatchAllocation[]; shortfall: number } {
+  const batches = (this.batchNumbers || [])
+    .filter(b => b.quantity > 0 && !(b.expirationDate && b.expirationDate < asOf))
+    .sort((a, b) => {
+      if (policy === 'FEFO') {
+        const aExpiry = a.expirationDate ? a.expirationDate.getTime() : Infinity;
+        const bExpiry = b.expirationDate ? b.expirationDate.getTime() : Infinity;
+        if (aExpiry !== bExpiry) return aExpiry - bExpiry;
+      }
+      return new Date(a.receivedDate).getTime() - new Date(b.receivedDate).getTime();
+    });
+
+  const batchedQuantity = (this.batchNumbers || []).reduce((sum, b) => sum + b.quantity, 0);
+  const unbatchedQuantity = Math.max(0, this.currentQuantity - batchedQuantity);
+
+  const sources: IBatchAllocation[] = batches.map(b => ({
+    batchNumber: b.batchNumber,
+    quantity: b.quantity,
+    expirationDate: b.expirationDate
+  }));
+  if (unbatchedQuantity > 0) {
+    if (policy === 'FIFO') {
+      sources.unshift({ quantity: unbatchedQuantity });
+    } else {
+      sources.push({ quantity: unbatchedQuantity });
+    }
+  }
+
+  const allocations: IBatchAllocation[] = [];
+  let remaining = quantity;
+  for (const source of sources) {
+    if (remaining <= 0) break;
+    const taken = Math.min(source.quantity, remaining);
+    allocations.push({ ...source, quantity: taken });
+    remaining -= taken;
+  }
+
+  return { allocations, shortfall: Math.max(0, remaining) };
+};
+
+// Book a counted difference; unlike removeStock this ignores reservations since the goods are physically gone.
+// The whole variance is booked, also on stock that is already negative.
+InventoryStockSchema.methods.adjustQuantity = function(
+  this: IInventoryStock,
+  delta: number,
+  binId?: mongoose.Types.ObjectId | string,
+  binCode?: string
+): void {
+  if (delta > 0) {
+    if (binId && binCode) {
+      this.addToBin(binId, binCode, delta);
+    }
+    this.currentQuantity += delta;
+    this.lastInDate = new Date();
+  } else if (delta < 0) {
+    const quantity = -delta;
+    if (!this.removeFromBins(quantity, binId)) {
+      this.removeFromBins(quantity);
+    }
+    this.currentQuantity -= quantity;
+    this.lastOutDate = new Date();
+  }
+
+  this.availableQuantity = Math.max(0, this.currentQuantity - this.reservedQuantity);
+  this.lastTransactionDate = new Date();
+};
+
 const InventoryStock = mongoose.model<IInventoryStock>('InventoryStock', InventoryStockSchema);
 
-export { InventoryStock, type IInventoryStock };
\ No newline at end of file
+export { InventoryStock, type IInventoryStock, type IBatchAllocation };
\ No newline at end of file
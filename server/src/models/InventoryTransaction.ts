@@ -1,4 +1,4 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Model, Schema } from 'mongoose';
 
 interface IInventoryTransaction extends Document {
   _id: string;
@@ -8,14 +8,19 @@ interface IInventoryTransaction extends Document {
   itemCode?: string;
   warehouseId: Schema.Types.ObjectId;
   warehouseName: string;
+  ownerType?: 'COMPANY' | 'SUPPLIER' | 'CUSTOMER';
+  ownerId?: Schema.Types.ObjectId;
+  ownerName?: string;
   transactionType: 'IN' | 'OUT' | 'TRANSFER' | 'ADJUSTMENT' | 'RETURN';
-  quantity: number;
+  quantity: number; // in the item's base unit
+  enteredQuantity?: number;
+  enteredUnit?: string; // unit the user entered the movement in, when it was not the base unit
   unitPrice?: number;
   totalValue?: number;
   previousQuantity: number;
   currentQuantity: number;
   referenceId?: Schema.Types.ObjectId; // Receipt, Issue, Transfer 등의 ID
-  referenceType?: 'RECEIPT' | 'ISSUE' | 'TRANSFER' | 'ADJUSTMENT' | 'RETURN';
+  referenceType?: 'RECEIPT' | 'ISSUE' | 'TRANSFER' | 'ADJUSTMENT' | 'RETURN' | 'PRODUCTION';
   referenceNumber?: string;
   transactionDate: Date;
   reason?: string;
@@ -30,6 +35,54 @@ interface IInventoryTransaction extends Document {
   updatedAt: Date;
 }
 
+// Quantity and cost of one item in one warehouse, rebuilt from the transaction history
+interface IValuationPosition {
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  warehouseId: string;
+  warehouseName: string;
+  quantity: number;
+  movingAverageCost: number;
+  movingAverageValue: number;
+  fifoValue: number;
+  lastTransactionDate: Date;
+}
+
+interface ILedgerBalance {
+  quantity: number;
+  value: number;
+}
+
+interface ILedgerEntry {
+  transactionId: string;
+  transactionNumber: string;
+  transactionDate: Date;
+  transactionType: IInventoryTransaction['transactionType'];
+  referenceType?: string;
+  referenceNumber?: string;
+  warehouseName: string;
+  batchNumber?: string;
+  reason?: string;
+  inQuantity: number;
+  outQuantity: number;
+  unitCost: number;
+  amount: number;
+  balanceQuantity: number;
+  balanceValue: number;
+}
+
+interface IItemLedger {
+  opening: ILedgerBalance;
+  entries: ILedgerEntry[];
+  closing: ILedgerBalance;
+}
+
+interface IInventoryTransactionModel extends Model<IInventoryTransaction> {
+  replayValuation(asOf: Date, warehouseId?: string): Promise<IValuationPosition[]>;
+  getItemLedger(itemId: string, from: Date, to: Date, warehouseId?: string): Promise<IItemLedger>;
+}
+
 const InventoryTransactionSchema = new Schema({
   transactionNumber: {
     type: String,
@@ -65,6 +118,20 @@ const InventoryTransactionSchema = new Schema({
     trim: true,
     maxlength: [100, 'Warehouse name cannot exceed 100 characters']
   },
+  ownerType: {
+    type: String,
+    enum: ['COMPANY', 'SUPPLIER', 'CUSTOMER'],
+    default: 'COMPANY'
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  ownerName: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Owner name cannot exceed 200 characters']
+  },
   transactionType: {
     type: String,
     enum: ['IN', 'OUT', 'TRANSFER', 'ADJUSTMENT', 'RETURN'],
@@ -80,6 +147,15 @@ const InventoryTransactionSchema = new Schema({
       message: 'Quantity cannot be zero'
     }
   },
+  enteredQuantity: {
+    type: Number
+  },
+  enteredUnit: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
+  },
   unitPrice: {
     type: Number,
     min: [0, 'Unit price cannot be negative']
@@ -88,22 +164,21 @@ const InventoryTransactionSchema = new Schema({
     type: Number,
     min: [0, 'Total value cannot be negative']
   },
+  // Running balance after posting in date order; negative where the warehouse allows it
   previousQuantity: {
     type: Number,
-    required: true,
-    min: [0, 'Previous quantity cannot be negative']
+    required: true
   },
   currentQuantity: {
     type: Number,
-    required: true,
-    min: [0, 'Current quantity cannot be negative']
+    required: true
   },
   referenceId: {
     type: Schema.Types.ObjectId
   },
   referenceType: {
     type: String,
-    enum: ['RECEIPT', 'ISSUE', 'TRANSFER', 'ADJUSTMENT', 'RETURN']
+    enum: ['RECEIPT', 'ISSUE', 'TRANSFER', 'ADJUSTMENT', 'RETURN', 'PRODUCTION']
   },
   referenceNumber: {
     type: String,
@@ -166,6 +241,7 @@ InventoryTransactionSchema.index({ transactionDate: -1 });
 InventoryTransactionSchema.index({ referenceId: 1, referenceType: 1 });
 InventoryTransactionSchema.index({ isActive: 1 });
 InventoryTransactionSchema.index({ itemId: 1, warehouseId: 1, transactionDate: -1 });
+InventoryTransactionSchema.index({ ownerId: 1, transactionDate: -1 });
 
 // Pre-save middleware to calculate total value
 InventoryTransactionSchema.pre('save', function(this: IInventoryTransaction, next) {
@@ -175,15 +251,17 @@ InventoryTransactionSchema.pre('save', function(this: IInventoryTransaction, nex
   next();
 });
 
-// Pre-save middleware to generate transaction number
-InventoryTransactionSchema.pre('save', async function(this: IInventoryTransaction, next) {
+// Pre-validate middleware to generate transaction number. It must run before
+// validation because transactionNumber is required, and it counts inside the
+// caller's session so several transactions written in one session stay unique.
+InventoryTransactionSchema.pre('validate', async function(this: IInventoryTransaction, next) {
   if (this.isNew && !this.transactionNumber) {
     try {
       const currentYear = new Date().getFullYear();
       const currentMonth = String(new Date().getMonth() + 1).padStart(2, '0');
       const count = await mongoose.model('InventoryTransaction').countDocuments({
         transactionNumber: new RegExp(`^TXN-${currentYear}${currentMonth}`)
-      });
+      }).session(this.$session());
       this.transactionNumber = `TXN-${currentYear}${currentMonth}-${String(count + 1).padStart(4, '0')}`;
     } catch (error) {
       return next(error as Error);
@@ -281,6 +359,135 @@ InventoryTransactionSchema.statics.getInventoryMovement = async function(
   return movement;
 };
 
-const InventoryTransaction = mongoose.model<IInventoryTransaction>('InventoryTransaction', InventoryTransactionSchema);
+// Replays every movement up to asOf in date order. Receipts add a cost layer and move the
+// average; issues draw layers oldest first. Transactions without a unit price enter at the
+// running average so they do not distort it. Consigned and customer-owned movements are left
+// out: that stock is not ours to value.
+InventoryTransactionSchema.statics.replayValuation = async function(asOf: Date, warehouseId?: string) {
+  const match: any = { isActive: true, ownerId: null, transactionDate: { $lte: asOf } };
+  if (warehouseId) match.warehouseId = warehouseId;
+
+  const transactions = await InventoryTransaction.find(match)
+    .select('itemId itemName itemCode warehouseId warehouseName transactionType quantity unitPrice transactionDate')
+    .sort({ transactionDate: 1, createdAt: 1 })
+    .lean();
+
+  const positions = new Map<string, IValuationPosition & { layers: Array<{ quantity: number; unitCost: number }> }>();
+
+  for (const transaction of transactions) {
+    const key = `${transaction.itemId}-${transaction.warehouseId}`;
+    let position = positions.get(key);
+    if (!position) {
+      position = {
+        itemId: transaction.itemId.toString(),
+        itemName: transaction.itemName,
+        itemCode: transaction.itemCode,
+        warehouseId: transaction.warehouseId.toString(),
+        warehouseName: transaction.warehouseName,
+        quantity: 0,
+        movingAverageCost: 0,
+        movingAverageValue: 0,
+        fifoValue: 0,
+        lastTransactionDate: transaction.transactionDate,
+        layers: []
+      };
+      positions.set(key, position);
+    }
+
+    const delta = transaction.transactionType === 'OUT' ? -Math.abs(transaction.quantity) : transaction.quantity;
+    position.lastTransactionDate = transaction.transactionDate;
+
+    if (delta > 0) {
+      const unitCost = transaction.unitPrice ?? position.movingAverageCost;
+      const previousQuantity = Math.max(0, position.quantity);
+      position.movingAverageCost = (previousQuantity * position.movingAverageCost + delta * unitCost) / (previousQuantity + delta);
+      position.layers.push({ quantity: delta, unitCost });
+    } else {
+      let remaining = -delta;
+      while (remaining > 0 && position.layers.length > 0) {
+        const layer = position.layers[0];
+        const taken = Math.min(remaining, layer.quantity);
+        layer.quantity -= taken;
+        remaining -= taken;
+        if (layer.quantity <= 0) {
+          position.layers.shift();
+        }
+      }
+    }
+    position.quantity += delta;
+  }
+
+  return [...positions.values()].map(({ layers, ...position }) => ({
+    ...position,
+    movingAverageValue: Math.max(0, position.quantity) * position.movingAverageCost,
+    fifoValue: layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0)
+  }));
+};
+
+// Item movement card. The balance is carried at moving average from the first transaction so the
+// opening figures for any period match what a replay up to that date would give. Without a
+// warehouse the card pools all warehouses, so transfers move quantity but not value. Like the
+// valuation replay it covers company-owned stock only.
+InventoryTransactionSchema.statics.getItemLedger = async function(
+  itemId: string,
+  from: Date,
+  to: Date,
+  warehouseId?: string
+) {
+  const match: any = { itemId, isActive: true, ownerId: null, transactionDate: { $lte: to } };
+  if (warehouseId) match.warehouseId = warehouseId;
+
+  const transactions = await InventoryTransaction.find(match)
+    .sort({ transactionDate: 1, createdAt: 1 })
+    .lean();
+
+  const balance: ILedgerBalance = { quantity: 0, value: 0 };
+  let opening: ILedgerBalance | null = null;
+  const entries: ILedgerEntry[] = [];
+
+  for (const transaction of transactions) {
+    if (!opening && transaction.transactionDate >= from) {
+      opening = { ...balance };
+    }
+
+    const delta = transaction.transactionType === 'OUT' ? -Math.abs(transaction.quantity) : transaction.quantity;
+    const averageCost = balance.quantity > 0 ? balance.value / balance.quantity : 0;
+    const unitCost = delta > 0 && transaction.unitPrice !== undefined && (warehouseId || transaction.transactionType !== 'TRANSFER')
+      ? transaction.unitPrice
+      : averageCost;
+    const amount = delta * unitCost;
+
+    balance.quantity += delta;
+    balance.value = balance.quantity > 0 ? balance.value + amount : 0;
+
+    if (opening) {
+      entries.push({
+        transactionId: transaction._id.toString(),
+        transactionNumber: transaction.transactionNumber,
+        transactionDate: transaction.transactionDate,
+        transactionType: transaction.transactionType,
+        referenceType: transaction.referenceType,
+        referenceNumber: transaction.referenceNumber,
+        warehouseName: transaction.warehouseName,
+        batchNumber: transaction.batchNumber,
+        reason: transaction.reason,
+        inQuantity: delta > 0 ? delta : 0,
+        outQuantity: delta < 0 ? -delta : 0,
+        unitCost,
+        amount,
+        balanceQuantity: balance.quantity,
+        balanceValue: balance.value
+      });
+    }
+  }
+
+  return {
+    opening: opening || { ...balance },
+    entries,
+    closing: { ...balance }
+  };
+};
+
+const InventoryTransaction = mongoose.model<IInventoryTransaction, IInventoryTransactionModel>('InventoryTransaction', InventoryTransactionSchema);
 
-export { InventoryTransaction, type IInventoryTransaction };
\ No newline at end of file
+export { InventoryTransaction, type IInventoryTransaction, type IValuationPosition, type IItemLedger };
\ No newline at end of file
@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IItemUnitConversion, UnitConversionSchema } from './UnitOfMeasure';
+import { AttributeValue } from './ItemTemplate';
 
 interface IItem extends Document {
   _id: string;
@@ -11,11 +13,13 @@ interface IItem extends Document {
     name: string;
   };
   unit: string;
+  unitConversions?: IItemUnitConversion[];
   price: number;
   cost: number;
   minStock: number;
   maxStock: number;
   safetyStock: number;
+  reorderPoint: number;
   leadTime: number;
   specification?: string;
   description?: string;
@@ -28,10 +32,17 @@ interface IItem extends Document {
   };
   storageConditions?: string;
   expiryDays?: number;
+  abcClass?: 'A' | 'B' | 'C';
+  xyzClass?: 'X' | 'Y' | 'Z';
+  classifiedAt?: Date;
+  pickingPolicy: 'FIFO' | 'FEFO' | 'MANUAL';
+  isSerialControlled: boolean;
   isActive: boolean;
   images?: string[];
   tags?: string[];
   customFields?: Record<string, any>;
+  templateId?: Schema.Types.ObjectId; // set on variants generated from an item template
+  attributes?: Record<string, AttributeValue>;
   createdBy: Schema.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -67,6 +78,8 @@ const ItemSchema: Schema = new Schema({
     trim: true,
     maxlength: [20, 'Unit cannot exceed 20 characters']
   },
+  // Packaging and alternate units this item is bought or used in; stock is always kept in unit
+  unitConversions: [UnitConversionSchema],
   price: {
     type: Number,
     required: [true, 'Price is required'],
@@ -104,6 +117,11 @@ const ItemSchema: Schema = new Schema({
     default: 0,
     min: [0, 'Safety stock cannot be negative']
   },
+  reorderPoint: {
+    type: Number,
+    default: 0,
+    min: [0, 'Reorder point cannot be negative']
+  },
   leadTime: {
     type: Number,
     default: 0,
@@ -152,6 +170,27 @@ const ItemSchema: Schema = new Schema({
     type: Number,
     min: [0, 'Expiry days cannot be negative']
   },
+  abcClass: {
+    type: String,
+    enum: ['A', 'B', 'C']
+  },
+  // Demand variability of monthly consumption, set together with abcClass by the classification job
+  xyzClass: {
+    type: String,
+    enum: ['X', 'Y', 'Z']
+  },
+  classifiedAt: {
+    type: Date
+  },
+  pickingPolicy: {
+    type: String,
+    enum: ['FIFO', 'FEFO', 'MANUAL'],
+    default: 'FIFO'
+  },
+  isSerialControlled: {
+    type: Boolean,
+    default: false
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -168,6 +207,14 @@ const ItemSchema: Schema = new Schema({
   customFields: {
     type: Schema.Types.Mixed
   },
+  templateId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ItemTemplate'
+  },
+  // Attribute values of a variant, keyed by the template's attribute keys
+  attributes: {
+    type: Schema.Types.Mixed
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -181,9 +228,12 @@ const ItemSchema: Schema = new Schema({
 ItemSchema.index({ code: 1 });
 ItemSchema.index({ name: 'text', specification: 'text', description: 'text' });
 ItemSchema.index({ category: 1, isActive: 1 });
+ItemSchema.index({ abcClass: 1 }, { sparse: true });
+ItemSchema.index({ xyzClass: 1 }, { sparse: true });
 ItemSchema.index({ supplierId: 1 });
 ItemSchema.index({ barcode: 1 }, { sparse: true });
 ItemSchema.index({ createdBy: 1 });
+ItemSchema.index({ templateId: 1 }, { sparse: true });
 
 // Virtual populate for supplier information
 ItemSchema.virtual('supplier', {
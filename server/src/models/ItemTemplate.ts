@@ -0,0 +1,202 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IItemUnitConversion, UnitConversionSchema } from './UnitOfMeasure';
+
+type AttributeType = 'TEXT' | 'NUMBER' | 'BOOLEAN' | 'LIST';
+
+type AttributeValue = string | number | boolean;
+
+interface IAttributeOption {
+  value: string;
+  code: string; // segment used in the variant item code, e.g. RED -> RD
+}
+
+interface IAttributeDefinition {
+  key: string;
+  name: string;
+  type: AttributeType;
+  options?: IAttributeOption[]; // allowed values of a LIST attribute
+  required: boolean;
+}
+
+// A product family whose variants share everything but a few attributes. Variants are ordinary
+// items generated from the template, so stock, purchasing and production need no special cases.
+interface IItemTemplate extends Document {
+  _id: string;
+  code: string; // prefix of every variant code
+  name: string;
+  category: 'RAW_MATERIAL' | 'COMPONENT' | 'FINISHED_PRODUCT' | 'CONSUMABLE';
+  supplierId?: Schema.Types.ObjectId;
+  unit: string;
+  unitConversions?: IItemUnitConversion[];
+  price: number;
+  cost: number;
+  leadTime: number;
+  pickingPolicy: 'FIFO' | 'FEFO' | 'MANUAL';
+  isSerialControlled: boolean;
+  specification?: string;
+  description?: string;
+  attributes: IAttributeDefinition[];
+  isActive: boolean;
+  createdBy: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ATTRIBUTE_TYPES: AttributeType[] = ['TEXT', 'NUMBER', 'BOOLEAN', 'LIST'];
+
+const AttributeOptionSchema = new Schema({
+  value: {
+    type: String,
+    required: [true, 'Option value is required'],
+    trim: true,
+    maxlength: [50, 'Option value cannot exceed 50 characters']
+  },
+  code: {
+    type: String,
+    required: [true, 'Option code is required'],
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z0-9]{1,10}$/, 'Option code must be 1-10 letters or digits']
+  }
+}, { _id: false });
+
+const AttributeDefinitionSchema = new Schema({
+  key: {
+    type: String,
+    required: [true, 'Attribute key is required'],
+    trim: true,
+    match: [/^[a-zA-Z][a-zA-Z0-9_]{0,29}$/, 'Attribute key must start with a letter and contain only letters, digits and underscores']
+  },
+  name: {
+    type: String,
+    required: [true, 'Attribute name is required'],
+    trim: true,
+    maxlength: [50, 'Attribute name cannot exceed 50 characters']
+  },
+  type: {
+    type: String,
+    enum: ATTRIBUTE_TYPES,
+    required: [true, 'Attribute type is required']
+  },
+  options: [AttributeOptionSchema],
+  required: {
+    type: Boolean,
+    default: true
+  }
+}, { _id: false });
+
+const ItemTemplateSchema = new Schema({
+  code: {
+    type: String,
+    required: [true, 'Template code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: [30, 'Template code cannot exceed 30 characters']
+  },
+  name: {
+    type: String,
+    required: [true, 'Template name is required'],
+    trim: true,
+    maxlength: [200, 'Template name cannot exceed 200 characters']
+  },
+  category: {
+    type: String,
+    enum: ['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE'],
+    required: [true, 'Category is required']
+  },
+  supplierId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  unit: {
+    type: String,
+    required: [true, 'Unit is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
+  },
+  unitConversions: [UnitConversionSchema],
+  price: {
+    type: Number,
+    default: 0,
+    min: [0, 'Price cannot be negative']
+  },
+  cost: {
+    type: Number,
+    default: 0,
+    min: [0, 'Cost cannot be negative']
+  },
+  leadTime: {
+    type: Number,
+    default: 0,
+    min: [0, 'Lead time cannot be negative']
+  },
+  pickingPolicy: {
+    type: String,
+    enum: ['FIFO', 'FEFO', 'MANUAL'],
+    default: 'FIFO'
+  },
+  isSerialControlled: {
+    type: Boolean,
+    default: false
+  },
+  specification: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Specification cannot exceed 1000 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  attributes: {
+    type: [AttributeDefinitionSchema],
+    validate: {
+      validator: function(attributes: IAttributeDefinition[]) {
+        return attributes.length > 0 && new Set(attributes.map(attribute => attribute.key)).size === attributes.length;
+      },
+      message: 'A template needs at least one attribute and attribute keys must be unique'
+    }
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+ItemTemplateSchema.index({ category: 1, isActive: 1 });
+
+// A LIST attribute is only meaningful with options to pick from
+ItemTemplateSchema.pre('validate', function(this: IItemTemplate, next) {
+  for (const attribute of this.attributes) {
+    if (attribute.type === 'LIST' && !attribute.options?.length) {
+      this.invalidate('attributes', `Attribute ${attribute.key} needs at least one option`);
+    }
+    if (attribute.type !== 'LIST' && attribute.options?.length) {
+      this.invalidate('attributes', `Only LIST attributes can have options (${attribute.key})`);
+    }
+  }
+  next();
+});
+
+const ItemTemplate = mongoose.model<IItemTemplate>('ItemTemplate', ItemTemplateSchema);
+
+export {
+  ItemTemplate,
+  ATTRIBUTE_TYPES,
+  type IItemTemplate,
+  type IAttributeDefinition,
+  type IAttributeOption,
+  type AttributeType,
+  type AttributeValue
+};
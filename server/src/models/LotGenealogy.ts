@@ -0,0 +1,250 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Each record is one lot movement; work orders are the hub linking consumed lots to produced lots
+interface ILotGenealogy extends Document {
+  _id: string;
+  lotNumber: string;
+  itemId: Schema.Types.ObjectId;
+  itemName: string;
+  itemCode?: string;
+  eventType: 'RECEIPT' | 'CONSUMPTION' | 'PRODUCTION' | 'SHIPMENT';
+  quantity: number;
+  warehouseId?: Schema.Types.ObjectId;
+  warehouseName?: string;
+  workOrderId?: Schema.Types.ObjectId;
+  workOrderNumber?: string;
+  referenceType: 'RECEIPT' | 'WORK_ORDER' | 'SALES_ORDER';
+  referenceId: Schema.Types.ObjectId;
+  referenceNumber?: string;
+  partyId?: Schema.Types.ObjectId;
+  partyName?: string;
+  eventDate: Date;
+  createdBy: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ILotTraceEvent {
+  referenceNumber?: string;
+  partyName?: string;
+  warehouseName?: string;
+  quantity: number;
+  eventDate: Date;
+}
+
+interface ILotTraceNode {
+  lotNumber: string;
+  itemId: string;
+  itemName: string;
+  itemCode?: string;
+  receipts: ILotTraceEvent[];
+  shipments: ILotTraceEvent[];
+  workOrders: Array<{
+    workOrderId: string;
+    workOrderNumber?: string;
+    quantity: number;
+    eventDate: Date;
+    lots: ILotTraceNode[];
+  }>;
+  truncated?: boolean;
+}
+
+interface ILotGenealogyModel extends Model<ILotGenealogy> {
+  traceBackward(lotNumber: string, itemId?: string): Promise<ILotTraceNode[]>;
+  traceForward(lotNumber: string, itemId?: string): Promise<ILotTraceNode[]>;
+}
+
+const MAX_TRACE_DEPTH = 10;
+
+const LotGenealogySchema = new Schema({
+  lotNumber: {
+    type: String,
+    required: [true, 'Lot number is required'],
+    trim: true,
+    maxlength: [50, 'Lot number cannot exceed 50 characters']
+  },
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Item name cannot exceed 200 characters']
+  },
+  itemCode: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Item code cannot exceed 50 characters']
+  },
+  eventType: {
+    type: String,
+    enum: ['RECEIPT', 'CONSUMPTION', 'PRODUCTION', 'SHIPMENT'],
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0, 'Quantity cannot be negative']
+  },
+  warehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse'
+  },
+  warehouseName: {
+    type: String,
+    trim: true
+  },
+  workOrderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WorkOrder'
+  },
+  workOrderNumber: {
+    type: String,
+    trim: true
+  },
+  referenceType: {
+    type: String,
+    enum: ['RECEIPT', 'WORK_ORDER', 'SALES_ORDER'],
+    required: true
+  },
+  referenceId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  referenceNumber: {
+    type: String,
+    trim: true
+  },
+  partyId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  partyName: {
+    type: String,
+    trim: true
+  },
+  eventDate: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+LotGenealogySchema.index({ lotNumber: 1, itemId: 1 });
+LotGenealogySchema.index({ workOrderId: 1, eventType: 1 });
+LotGenealogySchema.index({ referenceId: 1, referenceType: 1 });
+
+const toTraceEvent = (event: ILotGenealogy): ILotTraceEvent => ({
+  referenceNumber: event.referenceNumber,
+  partyName: event.partyName,
+  warehouseName: event.warehouseName,
+  quantity: event.quantity,
+  eventDate: event.eventDate
+});
+
+// Walk the genealogy graph from a lot; backward follows producing work orders to their inputs,
+// forward follows consuming work orders to their outputs. Cycles and runaway depth are cut off.
+const traceLot = async (
+  lotNumber: string,
+  itemId: string,
+  direction: 'BACKWARD' | 'FORWARD',
+  visited: Set<string>,
+  depth: number
+): Promise<ILotTraceNode> => {
+  const events = await LotGenealogy.find({ lotNumber, itemId }).sort({ eventDate: 1 });
+  const first = events[0];
+  const node: ILotTraceNode = {
+    lotNumber,
+    itemId,
+    itemName: first?.itemName || '',
+    itemCode: first?.itemCode,
+    receipts: [],
+    shipments: [],
+    workOrders: []
+  };
+
+  const key = `${itemId}:${lotNumber}`;
+  if (visited.has(key) || depth >= MAX_TRACE_DEPTH) {
+    node.truncated = true;
+    return node;
+  }
+  visited.add(key);
+
+  const hubEvent = direction === 'BACKWARD' ? 'PRODUCTION' : 'CONSUMPTION';
+  const linkedEvent = direction === 'BACKWARD' ? 'CONSUMPTION' : 'PRODUCTION';
+
+  if (direction === 'BACKWARD') {
+    node.receipts = events.filter(e => e.eventType === 'RECEIPT').map(toTraceEvent);
+  } else {
+    node.shipments = events.filter(e => e.eventType === 'SHIPMENT').map(toTraceEvent);
+  }
+
+  for (const event of events.filter(e => e.eventType === hubEvent && e.workOrderId)) {
+    const linked = await LotGenealogy.find({
+      workOrderId: event.workOrderId,
+      eventType: linkedEvent
+    }).sort({ eventDate: 1 });
+
+    const linkedLots = new Map<string, { lotNumber: string; itemId: string }>();
+    for (const link of linked) {
+      linkedLots.set(`${link.itemId}:${link.lotNumber}`, {
+        lotNumber: link.lotNumber,
+        itemId: link.itemId.toString()
+      });
+    }
+
+    const lots = [];
+    for (const lot of linkedLots.values()) {
+      lots.push(await traceLot(lot.lotNumber, lot.itemId, direction, visited, depth + 1));
+    }
+
+    node.workOrders.push({
+      workOrderId: event.workOrderId!.toString(),
+      workOrderNumber: event.workOrderNumber,
+      quantity: event.quantity,
+      eventDate: event.eventDate,
+      lots
+    });
+  }
+
+  return node;
+};
+
+const traceRoots = async (lotNumber: string, direction: 'BACKWARD' | 'FORWARD', itemId?: string) => {
+  const filter: any = { lotNumber };
+  if (itemId) {
+    filter.itemId = itemId;
+  }
+  // The same lot number can exist for several items, so each one becomes its own tree
+  const itemIds = await LotGenealogy.distinct('itemId', filter);
+
+  const roots = [];
+  for (const id of itemIds) {
+    roots.push(await traceLot(lotNumber, id.toString(), direction, new Set(), 0));
+  }
+  return roots;
+};
+
+// Static methods
+LotGenealogySchema.statics.traceBackward = function(lotNumber: string, itemId?: string) {
+  return traceRoots(lotNumber, 'BACKWARD', itemId);
+};
+
+LotGenealogySchema.statics.traceForward = function(lotNumber: string, itemId?: string) {
+  return traceRoots(lotNumber, 'FORWARD', itemId);
+};
+
+const LotGenealogy = mongoose.model<ILotGenealogy, ILotGenealogyModel>('LotGenealogy', LotGenealogySchema);
+
+export { LotGenealogy, type ILotGenealogy, type ILotTraceNode };
+export default LotGenealogy;
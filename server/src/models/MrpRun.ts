@@ -0,0 +1,279 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+type MrpDemandType = 'SALES_ORDER' | 'PRODUCTION_PLAN' | 'WORK_ORDER' | 'SAFETY_STOCK';
+
+// One demand a planned order covers, always traced to the independent demand at the top so a
+// component order shows which sales order or plan drives it
+interface IMrpPeg {
+  demandType: MrpDemandType;
+  sourceId?: Schema.Types.ObjectId;
+  sourceNumber: string;
+  demandItemCode: string; // item the top-level demand is for
+  demandDate: Date;
+  quantity: number; // of this planned order's item
+  parentItemCode?: string; // the item built from this one when the requirement is dependent
+}
+
+interface IMrpPlannedOrder {
+  _id: Schema.Types.ObjectId;
+  itemId: Schema.Types.ObjectId;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  level: number; // low-level code: 0 for items no other planned item is built from
+  orderType: 'PURCHASE' | 'PRODUCTION';
+  quantity: number;
+  releaseDate: Date; // due date offset by the item's lead time
+  dueDate: Date;
+  isLate: boolean; // the release date has already passed
+  bomId?: Schema.Types.ObjectId;
+  supplierId?: Schema.Types.ObjectId;
+  pegging: IMrpPeg[];
+  status: 'PLANNED' | 'FIRMED';
+  firmedType?: 'PURCHASE_REQUEST' | 'WORK_ORDER';
+  firmedId?: Schema.Types.ObjectId;
+  firmedNumber?: string;
+  firmedAt?: Date;
+}
+
+// The netting of one item over the horizon, kept so planners can see why an order was planned
+interface IMrpItemSummary {
+  itemId: Schema.Types.ObjectId;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  level: number;
+  grossRequirement: number;
+  availableQuantity: number;
+  scheduledReceipts: number;
+  safetyStock: number;
+  plannedQuantity: number;
+}
+
+interface IMrpRun extends Document {
+  _id: string;
+  runNumber: string;
+  runDate: Date;
+  horizonDate: Date;
+  includeSafetyStock: boolean;
+  plannedOrders: mongoose.Types.DocumentArray<IMrpPlannedOrder & Document>;
+  items: IMrpItemSummary[];
+  warnings: string[];
+  createdBy: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MrpPegSchema = new Schema({
+  demandType: {
+    type: String,
+    enum: ['SALES_ORDER', 'PRODUCTION_PLAN', 'WORK_ORDER', 'SAFETY_STOCK'],
+    required: true
+  },
+  sourceId: {
+    type: Schema.Types.ObjectId
+  },
+  sourceNumber: {
+    type: String,
+    required: true
+  },
+  demandItemCode: {
+    type: String,
+    required: true
+  },
+  demandDate: {
+    type: Date,
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0, 'Pegged quantity cannot be negative']
+  },
+  parentItemCode: {
+    type: String
+  }
+}, { _id: false });
+
+const MrpPlannedOrderSchema = new Schema({
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemCode: {
+    type: String,
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  level: {
+    type: Number,
+    default: 0
+  },
+  orderType: {
+    type: String,
+    enum: ['PURCHASE', 'PRODUCTION'],
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0, 'Planned quantity cannot be negative']
+  },
+  releaseDate: {
+    type: Date,
+    required: true
+  },
+  dueDate: {
+    type: Date,
+    required: true
+  },
+  isLate: {
+    type: Boolean,
+    default: false
+  },
+  bomId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BOM'
+  },
+  supplierId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  pegging: [MrpPegSchema],
+  status: {
+    type: String,
+    enum: ['PLANNED', 'FIRMED'],
+    default: 'PLANNED'
+  },
+  firmedType: {
+    type: String,
+    enum: ['PURCHASE_REQUEST', 'WORK_ORDER']
+  },
+  firmedId: {
+    type: Schema.Types.ObjectId
+  },
+  firmedNumber: {
+    type: String
+  },
+  firmedAt: {
+    type: Date
+  }
+});
+
+const MrpItemSummarySchema = new Schema({
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemCode: {
+    type: String,
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true
+  },
+  unit: {
+    type: String,
+    required: true
+  },
+  level: {
+    type: Number,
+    default: 0
+  },
+  grossRequirement: {
+    type: Number,
+    default: 0
+  },
+  availableQuantity: {
+    type: Number,
+    default: 0
+  },
+  scheduledReceipts: {
+    type: Number,
+    default: 0
+  },
+  safetyStock: {
+    type: Number,
+    default: 0
+  },
+  plannedQuantity: {
+    type: Number,
+    default: 0
+  }
+}, { _id: false });
+
+const MrpRunSchema = new Schema({
+  runNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true
+  },
+  runDate: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  horizonDate: {
+    type: Date,
+    required: true
+  },
+  includeSafetyStock: {
+    type: Boolean,
+    default: true
+  },
+  plannedOrders: [MrpPlannedOrderSchema],
+  items: [MrpItemSummarySchema],
+  warnings: [{
+    type: String
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+MrpRunSchema.index({ runDate: -1 });
+MrpRunSchema.index({ 'plannedOrders.itemId': 1 });
+
+// Generate the run number before validation, which requires it
+MrpRunSchema.pre('validate', async function(this: IMrpRun, next) {
+  if (this.isNew && !this.runNumber) {
+    try {
+      const currentYear = new Date().getFullYear();
+      const count = await mongoose.model('MrpRun').countDocuments({
+        runNumber: new RegExp(`^MRP-${currentYear}`)
+      });
+      this.runNumber = `MRP-${currentYear}-${String(count + 1).padStart(4, '0')}`;
+    } catch (error) {
+      return next(error as Error);
+    }
+  }
+  next();
+});
+
+const MrpRun = mongoose.model<IMrpRun>('MrpRun', MrpRunSchema);
+
+export {
+  MrpRun,
+  type IMrpRun,
+  type IMrpPlannedOrder,
+  type IMrpPeg,
+  type IMrpItemSummary,
+  type MrpDemandType
+};
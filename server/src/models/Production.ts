@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { UnitOfMeasure } from './UnitOfMeasure';
 
 interface IBOMItem {
   itemId: Schema.Types.ObjectId;
@@ -11,14 +12,27 @@ interface IBOMItem {
   };
   quantity: number;
   unit: string;
+  baseQuantity?: number;
+  baseUnit?: string;
   cost?: number;
   notes?: string;
 }
 
+// Replaces one component of a template BOM for a single variant, or for every variant whose
+// attributes match all the listed values
+interface IBOMSubstitution {
+  itemId: Schema.Types.ObjectId;
+  substituteItemId: Schema.Types.ObjectId;
+  variantId?: Schema.Types.ObjectId;
+  attributes?: Record<string, string | number | boolean>;
+  quantity?: number; // in the component line's unit; the line quantity when omitted
+}
+
 interface IBOM extends Document {
   _id: string;
   bomNumber: string;
-  productId: Schema.Types.ObjectId;
+  productId?: Schema.Types.ObjectId;
+  templateId?: Schema.Types.ObjectId; // a BOM shared by all variants of an item template
   product?: {
     _id: string;
     code: string;
@@ -28,6 +42,7 @@ interface IBOM extends Document {
   version: number;
   outputQuantity: number;
   items: IBOMItem[];
+  substitutions: IBOMSubstitution[];
   totalCost: number;
   laborCost?: number;
   overheadCost?: number;
@@ -39,58 +54,6 @@ interface IBOM extends Document {
   updatedAt: Date;
 }
 
-interface IWorkOrderItem {
-  itemId: Schema.Types.ObjectId;
-  item?: {
-    _id: string;
-    code: string;
-    name: string;
-    unit: string;
-  };
-  requiredQuantity: number;
-  allocatedQuantity: number;
-  consumedQuantity: number;
-  unitCost?: number;
-  totalCost?: number;
-  status: 'PENDING' | 'ALLOCATED' | 'CONSUMED';
-  notes?: string;
-}
-
-interface IWorkOrder extends Document {
-  _id: string;
-  workOrderNumber: string;
-  productId: Schema.Types.ObjectId;
-  product?: {
-    _id: string;
-    code: string;
-    name: string;
-    unit: string;
-  };
-  bomId: Schema.Types.ObjectId;
-  plannedQuantity: number;
-  completedQuantity: number;
-  scrapQuantity: number;
-  status: 'DRAFT' | 'RELEASED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
-  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
-  startDate?: Date;
-  endDate?: Date;
-  plannedStartDate: Date;
-  plannedEndDate: Date;
-  items: IWorkOrderItem[];
-  totalMaterialCost: number;
-  laborCost?: number;
-  overheadCost?: number;
-  totalCost: number;
-  notes?: string;
-  qualityChecked: boolean;
-  isActive: boolean;
-  createdBy: Schema.Types.ObjectId;
-  assignedTo?: Schema.Types.ObjectId;
-  completedBy?: Schema.Types.ObjectId;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
 interface IProductionLogEntry {
   timestamp: Date;
   operatorId: Schema.Types.ObjectId;
@@ -142,123 +105,57 @@ const BOMItemSchema = new Schema({
     type: String,
     required: true,
     trim: true,
+    uppercase: true,
     maxlength: [20, 'Unit cannot exceed 20 characters']
   },
-  cost: {
+  // quantity restated in the component's base unit, filled in on validation
+  baseQuantity: {
     type: Number,
-    min: [0, 'Cost cannot be negative']
+    min: [0, 'Base quantity cannot be negative']
   },
-  notes: {
-    type: String,
-    trim: true,
-    maxlength: [500, 'Notes cannot exceed 500 characters']
-  }
-});
-
-const BOMSchema = new Schema({
-  bomNumber: {
+  baseUnit: {
     type: String,
-    required: true,
-    unique: true,
     trim: true,
-    uppercase: true
-  },
-  productId: {
-    type: Schema.Types.ObjectId,
-    ref: 'Item',
-    required: true
-  },
-  version: {
-    type: Number,
-    default: 1,
-    min: [1, 'Version must be at least 1']
-  },
-  outputQuantity: {
-    type: Number,
-    required: true,
-    min: [0.01, 'Output quantity must be positive']
-  },
-  items: [BOMItemSchema],
-  totalCost: {
-    type: Number,
-    default: 0,
-    min: [0, 'Total cost cannot be negative']
-  },
-  laborCost: {
-    type: Number,
-    default: 0,
-    min: [0, 'Labor cost cannot be negative']
+    uppercase: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
   },
-  overheadCost: {
+  cost: {
     type: Number,
-    default: 0,
-    min: [0, 'Overhead cost cannot be negative']
+    min: [0, 'Cost cannot be negative']
   },
   notes: {
     type: String,
     trim: true,
-    maxlength: [1000, 'Notes cannot exceed 1000 characters']
-  },
-  isActive: {
-    type: Boolean,
-    default: true
-  },
-  effectiveDate: {
-    type: Date,
-    default: Date.now
-  },
-  createdBy: {
-    type: Schema.Types.ObjectId,
-    ref: 'User',
-    required: true
+    maxlength: [500, 'Notes cannot exceed 500 characters']
   }
-}, {
-  timestamps: true
 });
 
-const WorkOrderItemSchema = new Schema({
+const BOMSubstitutionSchema = new Schema({
   itemId: {
     type: Schema.Types.ObjectId,
     ref: 'Item',
     required: true
   },
-  requiredQuantity: {
-    type: Number,
-    required: true,
-    min: [0.01, 'Required quantity must be positive']
-  },
-  allocatedQuantity: {
-    type: Number,
-    default: 0,
-    min: [0, 'Allocated quantity cannot be negative']
+  substituteItemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
   },
-  consumedQuantity: {
-    type: Number,
-    default: 0,
-    min: [0, 'Consumed quantity cannot be negative']
+  variantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item'
   },
-  unitCost: {
-    type: Number,
-    min: [0, 'Unit cost cannot be negative']
+  attributes: {
+    type: Schema.Types.Mixed
   },
-  totalCost: {
+  quantity: {
     type: Number,
-    min: [0, 'Total cost cannot be negative']
-  },
-  status: {
-    type: String,
-    enum: ['PENDING', 'ALLOCATED', 'CONSUMED'],
-    default: 'PENDING'
-  },
-  notes: {
-    type: String,
-    trim: true,
-    maxlength: [500, 'Notes cannot exceed 500 characters']
+    min: [0.01, 'Quantity must be positive']
   }
-});
+}, { _id: false });
 
-const WorkOrderSchema = new Schema({
-  workOrderNumber: {
+const BOMSchema = new Schema({
+  bomNumber: {
     type: String,
     required: true,
     unique: true,
@@ -268,57 +165,29 @@ const WorkOrderSchema = new Schema({
   productId: {
     type: Schema.Types.ObjectId,
     ref: 'Item',
-    required: true
+    required: [function(this: IBOM) { return !this.templateId; }, 'Product or item template is required']
   },
-  bomId: {
+  templateId: {
     type: Schema.Types.ObjectId,
-    ref: 'BOM',
-    required: true
-  },
-  plannedQuantity: {
-    type: Number,
-    required: true,
-    min: [0.01, 'Planned quantity must be positive']
+    ref: 'ItemTemplate'
   },
-  completedQuantity: {
+  version: {
     type: Number,
-    default: 0,
-    min: [0, 'Completed quantity cannot be negative']
+    default: 1,
+    min: [1, 'Version must be at least 1']
   },
-  scrapQuantity: {
+  outputQuantity: {
     type: Number,
-    default: 0,
-    min: [0, 'Scrap quantity cannot be negative']
-  },
-  status: {
-    type: String,
-    enum: ['DRAFT', 'RELEASED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
-    default: 'DRAFT'
-  },
-  priority: {
-    type: String,
-    enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'],
-    default: 'MEDIUM'
-  },
-  startDate: {
-    type: Date
-  },
-  endDate: {
-    type: Date
-  },
-  plannedStartDate: {
-    type: Date,
-    required: true
-  },
-  plannedEndDate: {
-    type: Date,
-    required: true
+    required: true,
+    min: [0.01, 'Output quantity must be positive']
   },
-  items: [WorkOrderItemSchema],
-  totalMaterialCost: {
+  items: [BOMItemSchema],
+  // Only used by template BOMs
+  substitutions: [BOMSubstitutionSchema],
+  totalCost: {
     type: Number,
     default: 0,
-    min: [0, 'Total material cost cannot be negative']
+    min: [0, 'Total cost cannot be negative']
   },
   laborCost: {
     type: Number,
@@ -330,36 +199,23 @@ const WorkOrderSchema = new Schema({
     default: 0,
     min: [0, 'Overhead cost cannot be negative']
   },
-  totalCost: {
-    type: Number,
-    default: 0,
-    min: [0, 'Total cost cannot be negative']
-  },
   notes: {
     type: String,
     trim: true,
     maxlength: [1000, 'Notes cannot exceed 1000 characters']
   },
-  qualityChecked: {
-    type: Boolean,
-    default: false
-  },
   isActive: {
     type: Boolean,
     default: true
   },
+  effectiveDate: {
+    type: Date,
+    default: Date.now
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true
-  },
-  assignedTo: {
-    type: Schema.Types.ObjectId,
-    ref: 'User'
-  },
-  completedBy: {
-    type: Schema.Types.ObjectId,
-    ref: 'User'
   }
 }, {
   timestamps: true
@@ -449,14 +305,9 @@ const ProductionLogSchema = new Schema({
 // Indexes
 BOMSchema.index({ bomNumber: 1 });
 BOMSchema.index({ productId: 1 });
+BOMSchema.index({ templateId: 1 }, { sparse: true });
 BOMSchema.index({ isActive: 1, effectiveDate: -1 });
 
-WorkOrderSchema.index({ workOrderNumber: 1 });
-WorkOrderSchema.index({ productId: 1 });
-WorkOrderSchema.index({ status: 1, priority: 1 });
-WorkOrderSchema.index({ plannedStartDate: 1, plannedEndDate: 1 });
-WorkOrderSchema.index({ createdBy: 1, assignedTo: 1 });
-
 ProductionLogSchema.index({ workOrderId: 1 });
 ProductionLogSchema.index({ productionDate: -1 });
 ProductionLogSchema.index({ 'shiftInfo.shift': 1 });
@@ -469,18 +320,35 @@ BOMSchema.virtual('product', {
   justOne: true
 });
 
-WorkOrderSchema.virtual('product', {
-  ref: 'Item',
-  localField: 'productId',
-  foreignField: '_id',
-  justOne: true
-});
-
-WorkOrderSchema.virtual('bom', {
-  ref: 'BOM',
-  localField: 'bomId',
-  foreignField: '_id',
-  justOne: true
+// Components may be listed in any unit they convert from; requirements and issues work in the
+// base unit, so each line is restated in it
+BOMSchema.pre('validate', async function(this: IBOM, next) {
+  if (this.productId && this.templateId) {
+    this.invalidate('templateId', 'A BOM belongs either to a product or to an item template');
+  }
+  if (!this.templateId && this.substitutions.length) {
+    this.invalidate('substitutions', 'Component substitutions are only allowed on item template BOMs');
+  }
+  try {
+    const components = await mongoose.model('Item')
+      .find({ _id: { $in: this.items.map(line => line.itemId) } })
+      .select('name unit unitConversions')
+      .session(this.$session());
+    for (const line of this.items) {
+      const component = components.find(candidate => candidate._id.toString() === line.itemId.toString());
+      if (!component) continue;
+      const baseQuantity = await UnitOfMeasure.toBase(component, line.quantity, line.unit, this.$session());
+      if (baseQuantity === null) {
+        this.invalidate('items', `${component.name}: ${line.unit} cannot be converted to ${component.unit}`);
+        continue;
+      }
+      line.baseQuantity = baseQuantity;
+      line.baseUnit = component.unit;
+    }
+  } catch (error) {
+    return next(error as Error);
+  }
+  next();
 });
 
 // Pre-save middleware
@@ -489,32 +357,21 @@ BOMSchema.pre('save', function(this: IBOM, next) {
   next();
 });
 
-WorkOrderSchema.pre('save', function(this: IWorkOrder, next) {
-  this.totalMaterialCost = this.items.reduce((sum, item) => sum + (item.totalCost || 0), 0);
-  this.totalCost = this.totalMaterialCost + (this.laborCost || 0) + (this.overheadCost || 0);
-  next();
-});
-
 // Ensure virtual fields are serialized
 BOMSchema.set('toJSON', { virtuals: true });
 BOMSchema.set('toObject', { virtuals: true });
-WorkOrderSchema.set('toJSON', { virtuals: true });
-WorkOrderSchema.set('toObject', { virtuals: true });
 ProductionLogSchema.set('toJSON', { virtuals: true });
 ProductionLogSchema.set('toObject', { virtuals: true });
 
 const BOM = mongoose.model<IBOM>('BOM', BOMSchema);
-const WorkOrder = mongoose.model<IWorkOrder>('WorkOrder', WorkOrderSchema);
 const ProductionLog = mongoose.model<IProductionLog>('ProductionLog', ProductionLogSchema);
 
 export { 
   BOM, 
-  WorkOrder, 
   ProductionLog,
   type IBOM, 
-  type IWorkOrder, 
   type IProductionLog,
   type IBOMItem,
-  type IWorkOrderItem,
+  type IBOMSubstitution,
   type IProductionLogEntry
 };
\ No newline at end of file
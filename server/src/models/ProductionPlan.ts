@@ -11,6 +11,7 @@ export interface IProductionPlan extends Document {
   endDate: Date;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   status: 'DRAFT' | 'APPROVED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+  workCenterIds: mongoose.Types.ObjectId[]; // centers the plan is split across on approval
   description?: string;
   notes?: string;
   createdBy: mongoose.Types.ObjectId;
@@ -78,6 +79,10 @@ const ProductionPlanSchema = new Schema<IProductionPlan>({
     enum: ['DRAFT', 'APPROVED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
     default: 'DRAFT'
   },
+  workCenterIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'WorkCenter'
+  }],
   description: {
     type: String,
     trim: true,
@@ -136,8 +141,8 @@ ProductionPlanSchema.index({ startDate: 1, endDate: 1 });
 ProductionPlanSchema.index({ itemId: 1 });
 ProductionPlanSchema.index({ createdBy: 1 });
 
-// Pre-save middleware to generate plan number
-ProductionPlanSchema.pre('save', async function(this: IProductionPlan, next) {
+// Generate the plan number before validation, which requires it
+ProductionPlanSchema.pre('validate', async function(this: IProductionPlan, next) {
   if (this.isNew && !this.planNumber) {
     const year = new Date().getFullYear();
     const month = String(new Date().getMonth() + 1).padStart(2, '0');
@@ -146,7 +151,7 @@ ProductionPlanSchema.pre('save', async function(this: IProductionPlan, next) {
     const lastPlan = await mongoose.model('ProductionPlan').findOne({
       planNumber: new RegExp(`^PP-${year}${month}`),
       companyId: this.companyId
-    }).sort({ planNumber: -1 });
+    }).sort({ planNumber: -1 }).session(this.$session());
 
     let sequenceNumber = 1;
     if (lastPlan) {
@@ -9,9 +9,12 @@ interface IPurchaseOrderItem {
     unit: string;
   };
   quantity: number;
+  unit?: string;
+  baseQuantity?: number;
+  baseUnit?: string;
   unitPrice: number;
   totalPrice: number;
-  receivedQuantity?: number;
+  receivedQuantity?: number; // in the item's base unit
   notes?: string;
 }
 
@@ -27,6 +30,7 @@ interface IPurchaseOrder extends Document {
   orderDate: Date;
   expectedDeliveryDate?: Date;
   status: 'DRAFT' | 'SENT' | 'CONFIRMED' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
+  source: 'MANUAL' | 'CONSIGNMENT';
   items: IPurchaseOrderItem[];
   subtotal: number;
   taxAmount: number;
@@ -92,11 +96,29 @@ const PurchaseOrderItemSchema = new Schema({
     ref: 'Item',
     required: true
   },
+  // Quantity and unit as ordered; unitPrice is per ordered unit
   quantity: {
     type: Number,
     required: true,
     min: [0.01, 'Quantity must be positive']
   },
+  unit: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
+  },
+  // The ordered quantity in the item's base unit, which is what receipts put into stock
+  baseQuantity: {
+    type: Number,
+    min: [0, 'Base quantity cannot be negative']
+  },
+  baseUnit: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
+  },
   unitPrice: {
     type: Number,
     required: true,
@@ -119,6 +141,14 @@ const PurchaseOrderItemSchema = new Schema({
   }
 });
 
+// Lines ordered without a unit are in the base unit
+PurchaseOrderItemSchema.pre('validate', function(next) {
+  if (this.baseQuantity === undefined || this.baseQuantity === null) {
+    this.baseQuantity = this.quantity;
+  }
+  next();
+});
+
 const PurchaseOrderSchema = new Schema({
   orderNumber: {
     type: String,
@@ -145,6 +175,12 @@ const PurchaseOrderSchema = new Schema({
     enum: ['DRAFT', 'SENT', 'CONFIRMED', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED'],
     default: 'DRAFT'
   },
+  // CONSIGNMENT orders settle supplier-owned stock after it was consumed; nothing is delivered
+  source: {
+    type: String,
+    enum: ['MANUAL', 'CONSIGNMENT'],
+    default: 'MANUAL'
+  },
   items: [PurchaseOrderItemSchema],
   subtotal: {
     type: Number,
@@ -321,6 +357,7 @@ PurchaseOrderSchema.index({ supplierId: 1 });
 PurchaseOrderSchema.index({ status: 1 });
 PurchaseOrderSchema.index({ orderDate: -1 });
 PurchaseOrderSchema.index({ createdBy: 1 });
+PurchaseOrderSchema.index({ source: 1, supplierId: 1 });
 
 PurchaseReceiptSchema.index({ receiptNumber: 1 });
 PurchaseReceiptSchema.index({ supplierId: 1 });
@@ -33,6 +33,8 @@ interface IPurchaseRequest extends Document {
   purpose: string;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   status: 'DRAFT' | 'SUBMITTED' | 'UNDER_REVIEW' | 'APPROVED' | 'PARTIALLY_APPROVED' | 'REJECTED' | 'ORDERED' | 'CANCELLED';
+  source: 'MANUAL' | 'REORDER' | 'MRP';
+  supplierId?: Schema.Types.ObjectId;
   items: IPurchaseRequestItem[];
   totalAmount: number;
   justification?: string;
@@ -212,6 +214,17 @@ const PurchaseRequestSchema = new Schema({
     enum: ['DRAFT', 'SUBMITTED', 'UNDER_REVIEW', 'APPROVED', 'PARTIALLY_APPROVED', 'REJECTED', 'ORDERED', 'CANCELLED'],
     default: 'DRAFT'
   },
+  // REORDER requests are drafted by the reorder job for stock below its reorder point,
+  // MRP requests when a planner firms planned purchase orders of an MRP run
+  source: {
+    type: String,
+    enum: ['MANUAL', 'REORDER', 'MRP'],
+    default: 'MANUAL'
+  },
+  supplierId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
   items: [PurchaseRequestItemSchema],
   totalAmount: {
     type: Number,
@@ -281,6 +294,7 @@ PurchaseRequestSchema.index({ requestNumber: 1 });
 PurchaseRequestSchema.index({ requesterId: 1 });
 PurchaseRequestSchema.index({ department: 1 });
 PurchaseRequestSchema.index({ status: 1 });
+PurchaseRequestSchema.index({ source: 1, status: 1 });
 PurchaseRequestSchema.index({ priority: 1 });
 PurchaseRequestSchema.index({ requestDate: -1 });
 PurchaseRequestSchema.index({ isActive: 1 });
@@ -300,14 +314,14 @@ PurchaseRequestSchema.pre('save', function(this: IPurchaseRequest, next) {
   next();
 });
 
-// Pre-save middleware to generate request number
-PurchaseRequestSchema.pre('save', async function(this: IPurchaseRequest, next) {
+// Generate the request number before validation, which requires it
+PurchaseRequestSchema.pre('validate', async function(this: IPurchaseRequest, next) {
   if (this.isNew && !this.requestNumber) {
     try {
       const currentYear = new Date().getFullYear();
       const count = await mongoose.model('PurchaseRequest').countDocuments({
         requestNumber: new RegExp(`^PR-${currentYear}`)
-      });
+      }).session(this.$session());
       this.requestNumber = `PR-${currentYear}-${String(count + 1).padStart(4, '0')}`;
     } catch (error) {
       return next(error as Error);
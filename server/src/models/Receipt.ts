@@ -6,12 +6,16 @@ interface IReceiptItem {
   itemCode?: string;
   orderedQuantity: number;
   receivedQuantity: number;
+  unit?: string; // unit the quantities and unitPrice are in; defaults to the purchase order line's unit
+  baseQuantity?: number; // accepted quantity in the item's base unit, set when stock is posted
   unitPrice: number;
   totalPrice: number;
   notes?: string;
   qualityStatus?: 'PENDING' | 'PASSED' | 'FAILED';
   defectQuantity?: number;
   defectReason?: string;
+  batchNumber?: string;
+  expirationDate?: Date;
 }
 
 interface IReceipt extends Document {
@@ -40,6 +44,11 @@ interface IReceipt extends Document {
   updatedBy?: Schema.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
+  canBeInspected(): boolean;
+  canBeApproved(): boolean;
+  inspect(inspector: mongoose.Types.ObjectId | string, notes?: string): void;
+  approve(): void;
+  reject(reason?: string): void;
 }
 
 const ReceiptItemSchema = new Schema({
@@ -69,6 +78,16 @@ const ReceiptItemSchema = new Schema({
     required: true,
     min: [0, 'Received quantity cannot be negative']
   },
+  unit: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
+  },
+  baseQuantity: {
+    type: Number,
+    min: [0, 'Base quantity cannot be negative']
+  },
   unitPrice: {
     type: Number,
     required: true,
@@ -98,6 +117,14 @@ const ReceiptItemSchema = new Schema({
     type: String,
     trim: true,
     maxlength: [500, 'Defect reason cannot exceed 500 characters']
+  },
+  batchNumber: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Batch number cannot exceed 50 characters']
+  },
+  expirationDate: {
+    type: Date
   }
 }, { _id: false });
 
@@ -0,0 +1,147 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IRoutingOperation {
+  sequence: number; // order of the step in the routing, e.g. 10, 20, 30
+  name: string;
+  workCenterId: Schema.Types.ObjectId;
+  workCenterCode: string;
+  setupTime: number; // minutes once per order
+  runTime: number; // minutes per unit
+  inspectionRequired: boolean;
+  inspectionCriteria?: string;
+  instructions?: string;
+}
+
+interface IRouting extends Document {
+  _id: string;
+  routingNumber: string;
+  itemId: Schema.Types.ObjectId;
+  version: number;
+  operations: IRoutingOperation[];
+  notes?: string;
+  isActive: boolean;
+  effectiveDate: Date;
+  createdBy: Schema.Types.ObjectId;
+  updatedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoutingOperationSchema = new Schema({
+  sequence: {
+    type: Number,
+    required: [true, 'Operation sequence is required'],
+    min: [1, 'Operation sequence must be positive']
+  },
+  name: {
+    type: String,
+    required: [true, 'Operation name is required'],
+    trim: true,
+    maxlength: [100, 'Operation name cannot exceed 100 characters']
+  },
+  workCenterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WorkCenter',
+    required: [true, 'Work center is required']
+  },
+  workCenterCode: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true
+  },
+  setupTime: {
+    type: Number,
+    default: 0,
+    min: [0, 'Setup time cannot be negative']
+  },
+  runTime: {
+    type: Number,
+    required: [true, 'Run time is required'],
+    min: [0, 'Run time cannot be negative']
+  },
+  inspectionRequired: {
+    type: Boolean,
+    default: false
+  },
+  inspectionCriteria: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Inspection criteria cannot exceed 500 characters']
+  },
+  instructions: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Instructions cannot exceed 1000 characters']
+  }
+}, { _id: false });
+
+const RoutingSchema = new Schema({
+  routingNumber: {
+    type: String,
+    required: [true, 'Routing number is required'],
+    unique: true,
+    trim: true,
+    uppercase: true
+  },
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: [true, 'Item is required']
+  },
+  version: {
+    type: Number,
+    default: 1,
+    min: [1, 'Version must be positive']
+  },
+  operations: {
+    type: [RoutingOperationSchema],
+    validate: {
+      validator: (operations: IRoutingOperation[]) => operations.length > 0,
+      message: 'A routing needs at least one operation'
+    }
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  effectiveDate: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+RoutingSchema.index({ itemId: 1, version: -1 });
+RoutingSchema.index({ isActive: 1, effectiveDate: -1 });
+
+// Keep operations in sequence order; two steps with the same sequence would make the order ambiguous
+RoutingSchema.pre('validate', function(this: IRouting, next) {
+  const sequences = this.operations.map(operation => operation.sequence);
+  if (new Set(sequences).size !== sequences.length) {
+    return next(new Error('Operation sequences must be unique'));
+  }
+  this.set('operations', [...this.operations].sort((a, b) => a.sequence - b.sequence));
+  next();
+});
+
+const Routing = mongoose.model<IRouting>('Routing', RoutingSchema);
+
+export { Routing, type IRouting, type IRoutingOperation };
+export default Routing;
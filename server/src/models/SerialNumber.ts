@@ -0,0 +1,184 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface ISerialEvent {
+  status: 'IN_STOCK' | 'SHIPPED' | 'RETURNED' | 'SCRAPPED';
+  referenceType?: 'WORK_ORDER' | 'SALES_ORDER' | 'RETURN' | 'SCRAP';
+  referenceNumber?: string;
+  warehouseName?: string;
+  notes?: string;
+  userId: Schema.Types.ObjectId | string;
+  userName: string;
+  eventDate: Date;
+}
+
+interface ISerialNumber extends Document {
+  _id: string;
+  serialNumber: string;
+  itemId: Schema.Types.ObjectId;
+  itemName: string;
+  itemCode?: string;
+  status: 'IN_STOCK' | 'SHIPPED' | 'RETURNED' | 'SCRAPPED';
+  warehouseId?: Schema.Types.ObjectId;
+  warehouseName?: string;
+  lotNumber?: string;
+  workOrderId?: Schema.Types.ObjectId;
+  workOrderNumber?: string;
+  salesOrderId?: Schema.Types.ObjectId;
+  salesOrderNumber?: string;
+  customerId?: Schema.Types.ObjectId;
+  customerName?: string;
+  producedAt: Date;
+  shippedAt?: Date;
+  history: ISerialEvent[];
+  createdBy: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  isAvailable(warehouseId?: string): boolean;
+  recordEvent(event: Omit<ISerialEvent, 'eventDate'>): void;
+}
+
+const SerialEventSchema = new Schema({
+  status: {
+    type: String,
+    enum: ['IN_STOCK', 'SHIPPED', 'RETURNED', 'SCRAPPED'],
+    required: true
+  },
+  referenceType: {
+    type: String,
+    enum: ['WORK_ORDER', 'SALES_ORDER', 'RETURN', 'SCRAP']
+  },
+  referenceNumber: {
+    type: String,
+    trim: true
+  },
+  warehouseName: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  userName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  eventDate: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const SerialNumberSchema = new Schema({
+  serialNumber: {
+    type: String,
+    required: [true, 'Serial number is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: [50, 'Serial number cannot exceed 50 characters']
+  },
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Item name cannot exceed 200 characters']
+  },
+  itemCode: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Item code cannot exceed 50 characters']
+  },
+  status: {
+    type: String,
+    enum: ['IN_STOCK', 'SHIPPED', 'RETURNED', 'SCRAPPED'],
+    default: 'IN_STOCK'
+  },
+  warehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse'
+  },
+  warehouseName: {
+    type: String,
+    trim: true
+  },
+  lotNumber: {
+    type: String,
+    trim: true
+  },
+  workOrderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WorkOrder'
+  },
+  workOrderNumber: {
+    type: String,
+    trim: true
+  },
+  salesOrderId: {
+    type: Schema.Types.ObjectId,
+    ref: 'SalesOrder'
+  },
+  salesOrderNumber: {
+    type: String,
+    trim: true
+  },
+  customerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Company'
+  },
+  customerName: {
+    type: String,
+    trim: true
+  },
+  producedAt: {
+    type: Date,
+    default: Date.now
+  },
+  shippedAt: {
+    type: Date
+  },
+  history: [SerialEventSchema],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+SerialNumberSchema.index({ itemId: 1, status: 1 });
+SerialNumberSchema.index({ workOrderId: 1 });
+SerialNumberSchema.index({ salesOrderId: 1 });
+
+// Instance methods
+// Returned units sit in stock again and can be shipped to another customer
+SerialNumberSchema.methods.isAvailable = function(this: ISerialNumber, warehouseId?: string): boolean {
+  if (!['IN_STOCK', 'RETURNED'].includes(this.status) || !this.warehouseId) {
+    return false;
+  }
+  return !warehouseId || this.warehouseId.toString() === warehouseId;
+};
+
+SerialNumberSchema.methods.recordEvent = function(this: ISerialNumber, event: Omit<ISerialEvent, 'eventDate'>): void {
+  this.status = event.status;
+  this.history.push({ ...event, eventDate: new Date() });
+};
+
+const SerialNumber = mongoose.model<ISerialNumber>('SerialNumber', SerialNumberSchema);
+
+export { SerialNumber, type ISerialNumber, type ISerialEvent };
+export default SerialNumber;
@@ -0,0 +1,320 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IStockCountLine {
+  _id: mongoose.Types.ObjectId;
+  itemId: Schema.Types.ObjectId;
+  itemName: string;
+  itemCode?: string;
+  binId?: Schema.Types.ObjectId;
+  binCode?: string;
+  snapshotQuantity: number;
+  unitCost: number;
+  countedQuantity?: number;
+  countedBy?: Schema.Types.ObjectId;
+  countedAt?: Date;
+  recountQuantity?: number;
+  recountedBy?: Schema.Types.ObjectId;
+  recountedAt?: Date;
+  varianceQuantity: number;
+  varianceValue: number;
+  variancePercent: number;
+  status: 'PENDING' | 'COUNTED' | 'RECOUNT_REQUIRED' | 'RECOUNTED';
+  notes?: string;
+}
+
+interface IStockCount extends Document {
+  _id: string;
+  countNumber: string;
+  warehouseId: Schema.Types.ObjectId;
+  warehouseName: string;
+  scope: {
+    type: 'WAREHOUSE' | 'ZONE' | 'ABC_CLASS';
+    zone?: string;
+    abcClass?: 'A' | 'B' | 'C';
+  };
+  status: 'OPEN' | 'APPROVED' | 'CANCELLED';
+  lines: mongoose.Types.DocumentArray<IStockCountLine & Document>;
+  varianceThresholdPercent: number;
+  varianceThresholdValue?: number;
+  snapshotAt: Date;
+  totalVarianceValue: number;
+  notes?: string;
+  approvedBy?: Schema.Types.ObjectId;
+  approvedAt?: Date;
+  cancelledAt?: Date;
+  isActive: boolean;
+  createdBy: Schema.Types.ObjectId;
+  updatedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  recordCount(lineId: string, quantity: number, userId: mongoose.Types.ObjectId | string): boolean;
+  exceedsThreshold(line: IStockCountLine): boolean;
+  canBeCounted(): boolean;
+  canBeApproved(): boolean;
+  canBeCancelled(): boolean;
+}
+
+const StockCountLineSchema = new Schema({
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Item name cannot exceed 200 characters']
+  },
+  itemCode: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Item code cannot exceed 50 characters']
+  },
+  binId: {
+    type: Schema.Types.ObjectId,
+    ref: 'StorageBin'
+  },
+  binCode: {
+    type: String,
+    trim: true
+  },
+  // Negative where the warehouse allows negative stock
+  snapshotQuantity: {
+    type: Number,
+    required: true
+  },
+  unitCost: {
+    type: Number,
+    default: 0,
+    min: [0, 'Unit cost cannot be negative']
+  },
+  countedQuantity: {
+    type: Number,
+    min: [0, 'Counted quantity cannot be negative']
+  },
+  countedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  countedAt: {
+    type: Date
+  },
+  recountQuantity: {
+    type: Number,
+    min: [0, 'Recount quantity cannot be negative']
+  },
+  recountedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  recountedAt: {
+    type: Date
+  },
+  varianceQuantity: {
+    type: Number,
+    default: 0
+  },
+  varianceValue: {
+    type: Number,
+    default: 0
+  },
+  variancePercent: {
+    type: Number,
+    default: 0
+  },
+  status: {
+    type: String,
+    enum: ['PENDING', 'COUNTED', 'RECOUNT_REQUIRED', 'RECOUNTED'],
+    default: 'PENDING'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  }
+});
+
+const StockCountSchema = new Schema({
+  countNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true
+  },
+  warehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: true
+  },
+  warehouseName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [100, 'Warehouse name cannot exceed 100 characters']
+  },
+  scope: {
+    type: {
+      type: String,
+      enum: ['WAREHOUSE', 'ZONE', 'ABC_CLASS'],
+      default: 'WAREHOUSE'
+    },
+    zone: {
+      type: String,
+      trim: true,
+      uppercase: true
+    },
+    abcClass: {
+      type: String,
+      enum: ['A', 'B', 'C']
+    }
+  },
+  status: {
+    type: String,
+    enum: ['OPEN', 'APPROVED', 'CANCELLED'],
+    default: 'OPEN'
+  },
+  lines: [StockCountLineSchema],
+  varianceThresholdPercent: {
+    type: Number,
+    default: 5,
+    min: [0, 'Variance threshold cannot be negative']
+  },
+  varianceThresholdValue: {
+    type: Number,
+    min: [0, 'Variance threshold cannot be negative']
+  },
+  snapshotAt: {
+    type: Date,
+    default: Date.now
+  },
+  totalVarianceValue: {
+    type: Number,
+    default: 0
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  approvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  approvedAt: {
+    type: Date
+  },
+  cancelledAt: {
+    type: Date
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+StockCountSchema.index({ countNumber: 1 });
+StockCountSchema.index({ warehouseId: 1, status: 1 });
+StockCountSchema.index({ 'lines.itemId': 1 });
+StockCountSchema.index({ createdAt: -1 });
+
+// Pre-validate middleware to total the variances and generate the count number
+StockCountSchema.pre('validate', async function(this: IStockCount, next) {
+  this.totalVarianceValue = this.lines.reduce((sum, line) => sum + line.varianceValue, 0);
+
+  if (this.isNew && !this.countNumber) {
+    try {
+      const currentYear = new Date().getFullYear();
+      const count = await mongoose.model('StockCount').countDocuments({
+        countNumber: new RegExp(`^CNT-${currentYear}`)
+      }).session(this.$session());
+      this.countNumber = `CNT-${currentYear}-${String(count + 1).padStart(4, '0')}`;
+    } catch (error) {
+      return next(error as Error);
+    }
+  }
+  next();
+});
+
+// Instance methods
+StockCountSchema.methods.exceedsThreshold = function(this: IStockCount, line: IStockCountLine): boolean {
+  if (line.varianceQuantity === 0) {
+    return false;
+  }
+  if (this.varianceThresholdValue !== undefined && Math.abs(line.varianceValue) > this.varianceThresholdValue) {
+    return true;
+  }
+  return Math.abs(line.variancePercent) > this.varianceThresholdPercent;
+};
+
+// A first count over the threshold asks for a recount; the recount is taken as final
+StockCountSchema.methods.recordCount = function(
+  this: IStockCount,
+  lineId: string,
+  quantity: number,
+  userId: mongoose.Types.ObjectId | string
+): boolean {
+  const line = this.lines.id(lineId);
+  if (!line) {
+    return false;
+  }
+
+  const isRecount = line.status === 'RECOUNT_REQUIRED' || line.status === 'RECOUNTED';
+  if (isRecount) {
+    line.recountQuantity = quantity;
+    line.set('recountedBy', userId);
+    line.recountedAt = new Date();
+  } else {
+    line.countedQuantity = quantity;
+    line.set('countedBy', userId);
+    line.countedAt = new Date();
+  }
+
+  line.varianceQuantity = quantity - line.snapshotQuantity;
+  line.varianceValue = line.varianceQuantity * line.unitCost;
+  // Finding stock where the snapshot had none counts as a full (100%) variance
+  line.variancePercent = line.snapshotQuantity > 0
+    ? (line.varianceQuantity / line.snapshotQuantity) * 100
+    : (line.varianceQuantity === 0 ? 0 : 100);
+
+  if (isRecount) {
+    line.status = 'RECOUNTED';
+  } else {
+    line.status = this.exceedsThreshold(line) ? 'RECOUNT_REQUIRED' : 'COUNTED';
+  }
+  return true;
+};
+
+StockCountSchema.methods.canBeCounted = function(this: IStockCount): boolean {
+  return this.status === 'OPEN';
+};
+
+StockCountSchema.methods.canBeApproved = function(this: IStockCount): boolean {
+  return this.status === 'OPEN' &&
+    this.lines.every(line => line.status === 'COUNTED' || line.status === 'RECOUNTED');
+};
+
+StockCountSchema.methods.canBeCancelled = function(this: IStockCount): boolean {
+  return this.status === 'OPEN';
+};
+
+// Days between cycle counts per ABC class; high-value items are counted most often
+const CYCLE_COUNT_INTERVAL_DAYS: Record<'A' | 'B' | 'C', number> = { A: 30, B: 90, C: 365 };
+
+const StockCount = mongoose.model<IStockCount>('StockCount', StockCountSchema);
+
+export { StockCount, CYCLE_COUNT_INTERVAL_DAYS, type IStockCount, type IStockCountLine };
+export default StockCount;
@@ -0,0 +1,288 @@
+import mongoose, { ClientSession, Document, Model, Schema } from 'mongoose';
+import { InventoryStock, IInventoryStock } from './InventoryStock';
+
+// Units held on an inventory stock record for a confirmed sales order, a released work order or a
+// transfer in transit
+interface IStockReservation extends Document {
+  _id: string;
+  itemId: Schema.Types.ObjectId;
+  itemName: string;
+  itemCode?: string;
+  warehouseId: Schema.Types.ObjectId;
+  warehouseName: string;
+  sourceType: 'SALES_ORDER' | 'WORK_ORDER' | 'TRANSFER';
+  sourceId: Schema.Types.ObjectId;
+  sourceNumber: string;
+  holderName?: string;
+  requiredDate?: Date;
+  quantity: number;
+  consumedQuantity: number;
+  status: 'ACTIVE' | 'CONSUMED' | 'RELEASED';
+  releasedAt?: Date;
+  releaseReason?: string;
+  createdBy: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  getOpenQuantity(): number;
+  consume(quantity: number): number;
+  release(reason?: string): number;
+}
+
+interface IReservationSource {
+  sourceType: 'SALES_ORDER' | 'WORK_ORDER' | 'TRANSFER';
+  sourceId: mongoose.Types.ObjectId | string;
+  sourceNumber: string;
+  holderName?: string;
+  requiredDate?: Date;
+}
+
+interface IReservationShortage {
+  itemId: string;
+  itemName?: string;
+  requestedQuantity: number;
+  reservedQuantity: number;
+}
+
+interface IStockReservationModel extends Model<IStockReservation> {
+  reserveForSource(
+    source: IReservationSource,
+    lines: Array<{ itemId: mongoose.Types.ObjectId | string; quantity: number }>,
+    userId: mongoose.Types.ObjectId | string,
+    session: ClientSession | null,
+    warehouseId?: string
+  ): Promise<{ reservations: IStockReservation[]; shortages: IReservationShortage[] }>;
+  releaseForSource(
+    sourceType: IReservationSource['sourceType'],
+    sourceId: mongoose.Types.ObjectId | string,
+    reason: string,
+    session: ClientSession | null
+  ): Promise<IStockReservation[]>;
+  consumeForSource(
+    sourceType: IReservationSource['sourceType'],
+    sourceId: mongoose.Types.ObjectId | string,
+    stock: IInventoryStock,
+    quantity: number,
+    session: ClientSession | null
+  ): Promise<number>;
+}
+
+const StockReservationSchema = new Schema({
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Item name cannot exceed 200 characters']
+  },
+  itemCode: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Item code cannot exceed 50 characters']
+  },
+  warehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: true
+  },
+  warehouseName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  sourceType: {
+    type: String,
+    enum: ['SALES_ORDER', 'WORK_ORDER', 'TRANSFER'],
+    required: true
+  },
+  sourceId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  sourceNumber: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  holderName: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Holder name cannot exceed 200 characters']
+  },
+  requiredDate: {
+    type: Date
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0.01, 'Reserved quantity must be positive']
+  },
+  consumedQuantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Consumed quantity cannot be negative']
+  },
+  status: {
+    type: String,
+    enum: ['ACTIVE', 'CONSUMED', 'RELEASED'],
+    default: 'ACTIVE'
+  },
+  releasedAt: {
+    type: Date
+  },
+  releaseReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Release reason cannot exceed 500 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+StockReservationSchema.index({ sourceType: 1, sourceId: 1, status: 1 });
+StockReservationSchema.index({ itemId: 1, warehouseId: 1, status: 1 });
+
+// Instance methods
+StockReservationSchema.methods.getOpenQuantity = function(this: IStockReservation): number {
+  return this.status === 'ACTIVE' ? this.quantity - this.consumedQuantity : 0;
+};
+
+// Returns the quantity taken from this reservation
+StockReservationSchema.methods.consume = function(this: IStockReservation, quantity: number): number {
+  const consumed = Math.min(quantity, this.getOpenQuantity());
+  this.consumedQuantity += consumed;
+  if (this.consumedQuantity >= this.quantity) {
+    this.status = 'CONSUMED';
+  }
+  return consumed;
+};
+
+// Returns the open quantity handed back to available stock
+StockReservationSchema.methods.release = function(this: IStockReservation, reason?: string): number {
+  const released = this.getOpenQuantity();
+  this.status = 'RELEASED';
+  this.releasedAt = new Date();
+  this.releaseReason = reason;
+  return released;
+};
+
+// Static methods
+// Reserves each line from the warehouses with the most available stock; anything left over is a shortage
+StockReservationSchema.statics.reserveForSource = async function(
+  source: IReservationSource,
+  lines: Array<{ itemId: mongoose.Types.ObjectId | string; quantity: number }>,
+  userId: mongoose.Types.ObjectId | string,
+  session: ClientSession | null,
+  warehouseId?: string
+) {
+  const reservations: IStockReservation[] = [];
+  const shortages: IReservationShortage[] = [];
+
+  for (const line of lines) {
+    const query: any = { itemId: line.itemId, ownerId: null, isActive: true, availableQuantity: { $gt: 0 } };
+    if (warehouseId) {
+      query.warehouseId = warehouseId;
+    }
+    const stocks = await InventoryStock.find(query).sort({ availableQuantity: -1 }).session(session);
+
+    let remaining = line.quantity;
+    for (const stock of stocks) {
+      if (remaining <= 0) break;
+
+      const quantity = Math.min(remaining, stock.availableQuantity);
+      stock.reserve(quantity);
+      await stock.save({ session });
+
+      const reservation = new StockReservation({
+        ...source,
+        itemId: stock.itemId,
+        itemName: stock.itemName,
+        itemCode: stock.itemCode,
+        warehouseId: stock.warehouseId,
+        warehouseName: stock.warehouseName,
+        quantity,
+        createdBy: userId
+      });
+      await reservation.save({ session });
+      reservations.push(reservation);
+      remaining -= quantity;
+    }
+
+    if (remaining > 0) {
+      shortages.push({
+        itemId: line.itemId.toString(),
+        itemName: stocks[0]?.itemName,
+        requestedQuantity: line.quantity,
+        reservedQuantity: line.quantity - remaining
+      });
+    }
+  }
+
+  return { reservations, shortages };
+};
+
+StockReservationSchema.statics.releaseForSource = async function(
+  sourceType: IReservationSource['sourceType'],
+  sourceId: mongoose.Types.ObjectId | string,
+  reason: string,
+  session: ClientSession | null
+) {
+  const reservations = await StockReservation.find({ sourceType, sourceId, status: 'ACTIVE' }).session(session);
+
+  for (const reservation of reservations) {
+    const released = reservation.release(reason);
+    const stock = await InventoryStock.findOne({
+      itemId: reservation.itemId,
+      warehouseId: reservation.warehouseId,
+      ownerId: null
+    }).session(session);
+    if (stock) {
+      stock.unreserve(released);
+      await stock.save({ session });
+    }
+    await reservation.save({ session });
+  }
+
+  return reservations;
+};
+
+// Draws down the source's reservations on this stock record; the caller saves the stock
+StockReservationSchema.statics.consumeForSource = async function(
+  sourceType: IReservationSource['sourceType'],
+  sourceId: mongoose.Types.ObjectId | string,
+  stock: IInventoryStock,
+  quantity: number,
+  session: ClientSession | null
+) {
+  const reservations = await StockReservation.find({
+    sourceType,
+    sourceId,
+    itemId: stock.itemId,
+    warehouseId: stock.warehouseId,
+    status: 'ACTIVE'
+  }).sort({ createdAt: 1 }).session(session);
+
+  let consumed = 0;
+  for (const reservation of reservations) {
+    if (consumed >= quantity) break;
+    consumed += reservation.consume(quantity - consumed);
+    await reservation.save({ session });
+  }
+
+  stock.unreserve(consumed);
+  return consumed;
+};
+
+const StockReservation = mongoose.model<IStockReservation, IStockReservationModel>('StockReservation', StockReservationSchema);
+
+export { StockReservation, type IStockReservation, type IReservationShortage };
+export default StockReservation;
@@ -0,0 +1,255 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IStockTransferItem {
+  itemId: Schema.Types.ObjectId;
+  itemName: string;
+  itemCode?: string;
+  quantity: number;
+  unitCost?: number;
+  batchNumber?: string;
+  expirationDate?: Date;
+  fromBinId?: Schema.Types.ObjectId;
+  fromBinCode?: string;
+  toBinId?: Schema.Types.ObjectId | string;
+  toBinCode?: string;
+  notes?: string;
+}
+
+interface IStockTransfer extends Document {
+  _id: string;
+  transferNumber: string;
+  fromWarehouseId: Schema.Types.ObjectId;
+  fromWarehouseName: string;
+  toWarehouseId: Schema.Types.ObjectId;
+  toWarehouseName: string;
+  status: 'DRAFT' | 'APPROVED' | 'IN_TRANSIT' | 'RECEIVED' | 'CANCELLED';
+  items: IStockTransferItem[];
+  totalQuantity: number;
+  requestedDate: Date;
+  expectedArrivalDate?: Date;
+  reason?: string;
+  notes?: string;
+  approvedBy?: Schema.Types.ObjectId;
+  approvedAt?: Date;
+  shippedBy?: Schema.Types.ObjectId;
+  shippedAt?: Date;
+  receivedBy?: Schema.Types.ObjectId;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+  isActive: boolean;
+  createdBy: Schema.Types.ObjectId;
+  updatedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  canBeEdited(): boolean;
+  canBeApproved(): boolean;
+  canBeShipped(): boolean;
+  canBeReceived(): boolean;
+  canBeCancelled(): boolean;
+}
+
+const StockTransferItemSchema = new Schema({
+  itemId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Item',
+    required: true
+  },
+  itemName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Item name cannot exceed 200 characters']
+  },
+  itemCode: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Item code cannot exceed 50 characters']
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [0, 'Quantity cannot be negative']
+  },
+  unitCost: {
+    type: Number,
+    min: [0, 'Unit cost cannot be negative']
+  },
+  batchNumber: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Batch number cannot exceed 50 characters']
+  },
+  expirationDate: {
+    type: Date
+  },
+  fromBinId: {
+    type: Schema.Types.ObjectId,
+    ref: 'StorageBin'
+  },
+  fromBinCode: {
+    type: String,
+    trim: true
+  },
+  toBinId: {
+    type: Schema.Types.ObjectId,
+    ref: 'StorageBin'
+  },
+  toBinCode: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+const StockTransferSchema = new Schema({
+  transferNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true
+  },
+  fromWarehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: true
+  },
+  fromWarehouseName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [100, 'Warehouse name cannot exceed 100 characters']
+  },
+  toWarehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: true
+  },
+  toWarehouseName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [100, 'Warehouse name cannot exceed 100 characters']
+  },
+  status: {
+    type: String,
+    enum: ['DRAFT', 'APPROVED', 'IN_TRANSIT', 'RECEIVED', 'CANCELLED'],
+    default: 'DRAFT'
+  },
+  items: [StockTransferItemSchema],
+  totalQuantity: {
+    type: Number,
+    default: 0
+  },
+  requestedDate: {
+    type: Date,
+    default: Date.now
+  },
+  expectedArrivalDate: {
+    type: Date
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  approvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  approvedAt: {
+    type: Date
+  },
+  shippedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  shippedAt: {
+    type: Date
+  },
+  receivedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  receivedAt: {
+    type: Date
+  },
+  cancelledAt: {
+    type: Date
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+StockTransferSchema.index({ transferNumber: 1 });
+StockTransferSchema.index({ fromWarehouseId: 1, status: 1 });
+StockTransferSchema.index({ toWarehouseId: 1, status: 1 });
+StockTransferSchema.index({ 'items.itemId': 1 });
+StockTransferSchema.index({ createdAt: -1 });
+
+// Pre-validate middleware to calculate totals and generate the transfer number
+StockTransferSchema.pre('validate', async function(this: IStockTransfer, next) {
+  this.totalQuantity = this.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  if (this.isNew && !this.transferNumber) {
+    try {
+      const currentYear = new Date().getFullYear();
+      const count = await mongoose.model('StockTransfer').countDocuments({
+        transferNumber: new RegExp(`^TRF-${currentYear}`)
+      }).session(this.$session());
+      this.transferNumber = `TRF-${currentYear}-${String(count + 1).padStart(4, '0')}`;
+    } catch (error) {
+      return next(error as Error);
+    }
+  }
+  next();
+});
+
+// Instance methods
+StockTransferSchema.methods.canBeEdited = function(this: IStockTransfer): boolean {
+  return this.status === 'DRAFT';
+};
+
+StockTransferSchema.methods.canBeApproved = function(this: IStockTransfer): boolean {
+  return this.status === 'DRAFT';
+};
+
+StockTransferSchema.methods.canBeShipped = function(this: IStockTransfer): boolean {
+  return this.status === 'APPROVED';
+};
+
+StockTransferSchema.methods.canBeReceived = function(this: IStockTransfer): boolean {
+  return this.status === 'IN_TRANSIT';
+};
+
+StockTransferSchema.methods.canBeCancelled = function(this: IStockTransfer): boolean {
+  return ['DRAFT', 'APPROVED', 'IN_TRANSIT'].includes(this.status);
+};
+
+const StockTransfer = mongoose.model<IStockTransfer>('StockTransfer', StockTransferSchema);
+
+export { StockTransfer, type IStockTransfer, type IStockTransferItem };
+export default StockTransfer;
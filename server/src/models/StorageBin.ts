@@ -0,0 +1,210 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+type ItemCategory = 'RAW_MATERIAL' | 'COMPONENT' | 'FINISHED_PRODUCT' | 'CONSUMABLE';
+
+interface IStorageBin extends Document {
+  _id: string;
+  warehouseId: Schema.Types.ObjectId;
+  code: string;
+  zone: string;
+  aisle: string;
+  rack: string;
+  bin: string;
+  capacity?: number;
+  allowedCategories: ItemCategory[];
+  description?: string;
+  isActive: boolean;
+  createdBy: Schema.Types.ObjectId;
+  updatedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  allowsCategory(category?: string): boolean;
+  hasRoomFor(quantity: number, occupied: number): boolean;
+}
+
+interface IPutawaySuggestion {
+  bin: IStorageBin;
+  reason: 'EXISTING_ITEM_BIN' | 'EMPTY_BIN';
+  occupiedQuantity: number;
+}
+
+interface IStorageBinModel extends Model<IStorageBin> {
+  getOccupancy(
+    warehouseId: mongoose.Types.ObjectId | string,
+    session?: mongoose.ClientSession | null
+  ): Promise<Map<string, number>>;
+  suggestPutaway(
+    warehouseId: mongoose.Types.ObjectId | string,
+    itemId: mongoose.Types.ObjectId | string,
+    category: string | undefined,
+    quantity: number,
+    session?: mongoose.ClientSession | null,
+    ownerId?: mongoose.Types.ObjectId | string | null
+  ): Promise<IPutawaySuggestion | null>;
+}
+
+const StorageBinSchema = new Schema({
+  warehouseId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: [true, 'Warehouse is required']
+  },
+  code: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    maxlength: [50, 'Bin code cannot exceed 50 characters']
+  },
+  zone: {
+    type: String,
+    required: [true, 'Zone is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [10, 'Zone cannot exceed 10 characters']
+  },
+  aisle: {
+    type: String,
+    required: [true, 'Aisle is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [10, 'Aisle cannot exceed 10 characters']
+  },
+  rack: {
+    type: String,
+    required: [true, 'Rack is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [10, 'Rack cannot exceed 10 characters']
+  },
+  bin: {
+    type: String,
+    required: [true, 'Bin is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [10, 'Bin cannot exceed 10 characters']
+  },
+  capacity: {
+    type: Number,
+    min: [0, 'Capacity cannot be negative']
+  },
+  allowedCategories: [{
+    type: String,
+    enum: ['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE']
+  }],
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+StorageBinSchema.index({ warehouseId: 1, code: 1 }, { unique: true });
+StorageBinSchema.index({ warehouseId: 1, zone: 1, aisle: 1, rack: 1 });
+StorageBinSchema.index({ isActive: 1 });
+
+// Bin code is derived from its position in the zone → aisle → rack → bin hierarchy
+StorageBinSchema.pre('validate', function(this: IStorageBin, next) {
+  this.code = [this.zone, this.aisle, this.rack, this.bin].join('-');
+  next();
+});
+
+// Instance methods
+StorageBinSchema.methods.allowsCategory = function(this: IStorageBin, category?: string): boolean {
+  // A bin without restrictions accepts every category
+  if (!this.allowedCategories || this.allowedCategories.length === 0) {
+    return true;
+  }
+  return !!category && this.allowedCategories.includes(category as ItemCategory);
+};
+
+StorageBinSchema.methods.hasRoomFor = function(this: IStorageBin, quantity: number, occupied: number): boolean {
+  if (this.capacity === undefined || this.capacity === null) {
+    return true;
+  }
+  return occupied + quantity <= this.capacity;
+};
+
+// Static methods
+StorageBinSchema.statics.getOccupancy = async function(
+  warehouseId: mongoose.Types.ObjectId | string,
+  session?: mongoose.ClientSession | null
+): Promise<Map<string, number>> {
+  const rows = await mongoose.model('InventoryStock').aggregate([
+    { $match: { warehouseId: new mongoose.Types.ObjectId(warehouseId.toString()), isActive: true } },
+    { $unwind: '$binStocks' },
+    { $group: { _id: '$binStocks.binId', quantity: { $sum: '$binStocks.quantity' } } }
+  ]).session(session || null);
+
+  return new Map(rows.map((row: { _id: mongoose.Types.ObjectId; quantity: number }) => [
+    row._id.toString(),
+    row.quantity
+  ]));
+};
+
+StorageBinSchema.statics.suggestPutaway = async function(
+  warehouseId: mongoose.Types.ObjectId | string,
+  itemId: mongoose.Types.ObjectId | string,
+  category: string | undefined,
+  quantity: number,
+  session?: mongoose.ClientSession | null,
+  ownerId: mongoose.Types.ObjectId | string | null = null
+): Promise<IPutawaySuggestion | null> {
+  const loadBins = () => StorageBin.find({ warehouseId, isActive: true }).sort('code').session(session || null);
+  const loadOccupancy = () => StorageBin.getOccupancy(warehouseId, session);
+  // Bins of the stock row being put away: company stock unless an owner is given
+  const loadStock = () => mongoose.model('InventoryStock').findOne({ itemId, warehouseId, ownerId }).session(session || null);
+
+  // A transaction session cannot run operations in parallel, so its reads go one at a time
+  const [bins, occupancy, stock] = session
+    ? [await loadBins(), await loadOccupancy(), await loadStock()]
+    : await Promise.all([loadBins(), loadOccupancy(), loadStock()]);
+
+  const usable = bins.filter(bin =>
+    bin.allowsCategory(category) && bin.hasRoomFor(quantity, occupancy.get(bin._id.toString()) || 0)
+  );
+
+  // 1. Consolidate with bins already holding this item, fullest first
+  const itemBins: Array<{ binId: mongoose.Types.ObjectId; quantity: number }> =
+    (stock?.binStocks || []).filter((binStock: { quantity: number }) => binStock.quantity > 0);
+  itemBins.sort((a, b) => b.quantity - a.quantity);
+
+  for (const itemBin of itemBins) {
+    const bin = usable.find(candidate => candidate._id.toString() === itemBin.binId.toString());
+    if (bin) {
+      return {
+        bin,
+        reason: 'EXISTING_ITEM_BIN',
+        occupiedQuantity: occupancy.get(bin._id.toString()) || 0
+      };
+    }
+  }
+
+  // 2. Fall back to empty bins, preferring ones dedicated to the item's category
+  const emptyBins = usable.filter(bin => !occupancy.get(bin._id.toString()));
+  const emptyBin = emptyBins.find(bin => bin.allowedCategories.length > 0) || emptyBins[0];
+
+  return emptyBin
+    ? { bin: emptyBin, reason: 'EMPTY_BIN', occupiedQuantity: 0 }
+    : null;
+};
+
+const StorageBin = mongoose.model<IStorageBin, IStorageBinModel>('StorageBin', StorageBinSchema);
+
+export { StorageBin, type IStorageBin, type IPutawaySuggestion };
+export default StorageBin;
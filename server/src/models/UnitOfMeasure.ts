@@ -0,0 +1,160 @@
+import mongoose, { ClientSession, Document, Model, Schema } from 'mongoose';
+
+type UnitCategory = 'COUNT' | 'WEIGHT' | 'LENGTH' | 'AREA' | 'VOLUME' | 'TIME';
+
+interface IItemUnitConversion {
+  unit: string;
+  factor: number; // base units of the item in one of this unit, e.g. 1 BOX = 24 EA
+}
+
+// A unit of measure. Units of one category convert into each other through their ratio to the
+// category's reference unit (ratio 1); packaging units such as BOX vary by item and are
+// converted per item instead.
+interface IUnitOfMeasure extends Document {
+  _id: string;
+  code: string;
+  name: string;
+  category: UnitCategory;
+  ratio: number;
+  isActive: boolean;
+  createdBy: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IUnitOfMeasureModel extends Model<IUnitOfMeasure> {
+  toBase(
+    item: { unit: string; unitConversions?: IItemUnitConversion[] },
+    quantity: number,
+    unit?: string,
+    session?: ClientSession | null
+  ): Promise<number | null>;
+  checkCodes(unit: string, conversions?: IItemUnitConversion[]): Promise<string | null>;
+}
+
+const UNIT_CATEGORIES: UnitCategory[] = ['COUNT', 'WEIGHT', 'LENGTH', 'AREA', 'VOLUME', 'TIME'];
+
+// Seeded by POST /api/units/defaults
+const DEFAULT_UNITS: Array<Pick<IUnitOfMeasure, 'code' | 'name' | 'category' | 'ratio'>> = [
+  { code: 'EA', name: '개', category: 'COUNT', ratio: 1 },
+  { code: 'SET', name: '세트', category: 'COUNT', ratio: 1 },
+  { code: 'KG', name: '킬로그램', category: 'WEIGHT', ratio: 1 },
+  { code: 'G', name: '그램', category: 'WEIGHT', ratio: 0.001 },
+  { code: 'TON', name: '톤', category: 'WEIGHT', ratio: 1000 },
+  { code: 'M', name: '미터', category: 'LENGTH', ratio: 1 },
+  { code: 'CM', name: '센티미터', category: 'LENGTH', ratio: 0.01 },
+  { code: 'MM', name: '밀리미터', category: 'LENGTH', ratio: 0.001 },
+  { code: 'M2', name: '제곱미터', category: 'AREA', ratio: 1 },
+  { code: 'L', name: '리터', category: 'VOLUME', ratio: 1 },
+  { code: 'ML', name: '밀리리터', category: 'VOLUME', ratio: 0.001 },
+  { code: 'HR', name: '시간', category: 'TIME', ratio: 1 },
+  { code: 'MIN', name: '분', category: 'TIME', ratio: 1 / 60 }
+];
+
+const normalize = (unit: string) => unit.trim().toUpperCase();
+
+// Ratios such as 1/60 leave floating point noise behind
+const round = (quantity: number) => Math.round(quantity * 1e6) / 1e6;
+
+const UnitOfMeasureSchema = new Schema({
+  code: {
+    type: String,
+    required: [true, 'Unit code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Unit code cannot exceed 20 characters']
+  },
+  name: {
+    type: String,
+    required: [true, 'Unit name is required'],
+    trim: true,
+    maxlength: [50, 'Unit name cannot exceed 50 characters']
+  },
+  category: {
+    type: String,
+    enum: UNIT_CATEGORIES,
+    required: [true, 'Unit category is required']
+  },
+  ratio: {
+    type: Number,
+    required: [true, 'Ratio to the reference unit is required'],
+    min: [0.000001, 'Ratio must be positive']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Alternate units of one item (or item template), embedded in its document
+const UnitConversionSchema = new Schema({
+  unit: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Unit cannot exceed 20 characters']
+  },
+  factor: {
+    type: Number,
+    required: true,
+    min: [0.000001, 'Conversion factor must be positive']
+  }
+}, { _id: false });
+
+// Indexes
+UnitOfMeasureSchema.index({ category: 1, isActive: 1 });
+
+// Static methods
+// Converts a quantity entered in any unit into the item's base unit. An item-specific conversion
+// wins over the global one; null means the two units cannot be converted for this item.
+UnitOfMeasureSchema.statics.toBase = async function(
+  item: { unit: string; unitConversions?: IItemUnitConversion[] },
+  quantity: number,
+  unit?: string,
+  session: ClientSession | null = null
+) {
+  if (!unit || normalize(unit) === normalize(item.unit)) {
+    return quantity;
+  }
+
+  const itemConversion = item.unitConversions?.find(conversion => normalize(conversion.unit) === normalize(unit));
+  if (itemConversion) {
+    return round(quantity * itemConversion.factor);
+  }
+
+  const units = await UnitOfMeasure.find({ code: { $in: [normalize(unit), normalize(item.unit)] }, isActive: true }).session(session);
+  const from = units.find(candidate => candidate.code === normalize(unit));
+  const to = units.find(candidate => candidate.code === normalize(item.unit));
+  if (!from || !to || from.category !== to.category) {
+    return null;
+  }
+  return round(quantity * from.ratio / to.ratio);
+};
+
+// The base unit and every alternate unit must come from the unit master; returns the problem
+// with them, if any
+UnitOfMeasureSchema.statics.checkCodes = async function(unit: string, conversions: IItemUnitConversion[] = []) {
+  const codes = [unit, ...conversions.map(conversion => conversion.unit)].map(normalize);
+  const known = await UnitOfMeasure.find({ code: { $in: codes }, isActive: true }).select('code');
+  const unknown = codes.find(code => !known.find(saved => saved.code === code));
+  if (unknown) {
+    return `Unit ${unknown} is not registered in the unit master`;
+  }
+  if (new Set(codes).size !== codes.length) {
+    return 'Each alternate unit must differ from the base unit and appear only once';
+  }
+  return null;
+};
+
+const UnitOfMeasure = mongoose.model<IUnitOfMeasure, IUnitOfMeasureModel>('UnitOfMeasure', UnitOfMeasureSchema);
+
+export { UnitOfMeasure, UnitConversionSchema, UNIT_CATEGORIES, DEFAULT_UNITS, type IUnitOfMeasure, type IItemUnitConversion, type UnitCategory };
@@ -0,0 +1,58 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+type ValuationMethod = 'MOVING_AVERAGE' | 'FIFO' | 'STANDARD';
+type ItemCategory = 'RAW_MATERIAL' | 'COMPONENT' | 'FINISHED_PRODUCT' | 'CONSUMABLE';
+
+// Inventory valuation method chosen by accounting for one item category
+interface IValuationSetting extends Document {
+  _id: string;
+  category: ItemCategory;
+  method: ValuationMethod;
+  updatedBy: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IValuationSettingModel extends Model<IValuationSetting> {
+  getMethodsByCategory(): Promise<Record<ItemCategory, ValuationMethod>>;
+}
+
+const ITEM_CATEGORIES: ItemCategory[] = ['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE'];
+const DEFAULT_VALUATION_METHOD: ValuationMethod = 'MOVING_AVERAGE';
+
+const ValuationSettingSchema = new Schema({
+  category: {
+    type: String,
+    enum: ITEM_CATEGORIES,
+    required: [true, 'Category is required'],
+    unique: true
+  },
+  method: {
+    type: String,
+    enum: ['MOVING_AVERAGE', 'FIFO', 'STANDARD'],
+    required: [true, 'Valuation method is required']
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Static methods
+// Categories without a setting fall back to the moving average already kept on InventoryStock
+ValuationSettingSchema.statics.getMethodsByCategory = async function() {
+  const settings = await ValuationSetting.find();
+  const methods = {} as Record<ItemCategory, ValuationMethod>;
+  for (const category of ITEM_CATEGORIES) {
+    methods[category] = settings.find(setting => setting.category === category)?.method || DEFAULT_VALUATION_METHOD;
+  }
+  return methods;
+};
+
+const ValuationSetting = mongoose.model<IValuationSetting, IValuationSettingModel>('ValuationSetting', ValuationSettingSchema);
+
+export { ValuationSetting, ITEM_CATEGORIES, type IValuationSetting, type ValuationMethod, type ItemCategory };
+export default ValuationSetting;
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IWarehouse extends Document {
+  _id: string;
+  code: string;
+  name: string;
+  type: 'RAW_MATERIAL' | 'WIP' | 'FINISHED_GOODS' | 'QUARANTINE';
+  address?: string;
+  managerId?: Schema.Types.ObjectId;
+  managerName?: string;
+  phone?: string;
+  description?: string;
+  allowNegativeStock: boolean;
+  isActive: boolean;
+  createdBy: Schema.Types.ObjectId;
+  updatedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WarehouseSchema = new Schema({
+  code: {
+    type: String,
+    required: [true, 'Warehouse code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Warehouse code cannot exceed 20 characters']
+  },
+  name: {
+    type: String,
+    required: [true, 'Warehouse name is required'],
+    trim: true,
+    maxlength: [100, 'Warehouse name cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    enum: ['RAW_MATERIAL', 'WIP', 'FINISHED_GOODS', 'QUARANTINE'],
+    required: [true, 'Warehouse type is required']
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Address cannot exceed 500 characters']
+  },
+  managerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  managerName: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Manager name cannot exceed 100 characters']
+  },
+  phone: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'Phone cannot exceed 20 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  // Lets issues post ahead of late receipts; the shortfall shows as negative stock until the
+  // receipt catches up. Consigned and customer-owned stock never goes negative.
+  allowNegativeStock: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+WarehouseSchema.index({ code: 1 });
+WarehouseSchema.index({ type: 1, isActive: 1 });
+WarehouseSchema.index({ managerId: 1 });
+
+const Warehouse = mongoose.model<IWarehouse>('Warehouse', WarehouseSchema);
+
+export { Warehouse, type IWarehouse };
+export default Warehouse;
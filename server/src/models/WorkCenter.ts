@@ -0,0 +1,161 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+interface IShift {
+  name: string;
+  startTime: string; // HH:mm; a shift ending at or before its start runs past midnight
+  endTime: string;
+  breakMinutes: number;
+  days: number[]; // weekdays the shift runs, 0 = Sunday
+}
+
+interface IWorkCenter extends Document {
+  _id: string;
+  code: string;
+  name: string;
+  dailyCapacity: number; // units of output the center can finish per day
+  shifts: IShift[];
+  holidays: Date[]; // days the center does not work whatever its shifts
+  efficiency: number; // percent of the scheduled time that turns into standard run time
+  parallelCapacity: number; // machines or crews working side by side
+  description?: string;
+  isActive: boolean;
+  createdBy: Schema.Types.ObjectId;
+  updatedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  availableMinutes(date: Date): number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Centers without their own calendar work one day shift on weekdays
+const DEFAULT_SHIFTS: IShift[] = [
+  { name: 'DAY', startTime: '08:00', endTime: '17:00', breakMinutes: 60, days: [1, 2, 3, 4, 5] }
+];
+
+const ShiftSchema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Shift name is required'],
+    trim: true,
+    maxlength: [50, 'Shift name cannot exceed 50 characters']
+  },
+  startTime: {
+    type: String,
+    required: [true, 'Shift start time is required'],
+    match: [TIME_PATTERN, 'Shift times must be HH:mm']
+  },
+  endTime: {
+    type: String,
+    required: [true, 'Shift end time is required'],
+    match: [TIME_PATTERN, 'Shift times must be HH:mm']
+  },
+  breakMinutes: {
+    type: Number,
+    default: 0,
+    min: [0, 'Break cannot be negative']
+  },
+  days: {
+    type: [{ type: Number, min: 0, max: 6 }],
+    default: [1, 2, 3, 4, 5]
+  }
+}, { _id: false });
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const WorkCenterSchema = new Schema({
+  code: {
+    type: String,
+    required: [true, 'Work center code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Work center code cannot exceed 20 characters']
+  },
+  name: {
+    type: String,
+    required: [true, 'Work center name is required'],
+    trim: true,
+    maxlength: [100, 'Work center name cannot exceed 100 characters']
+  },
+  dailyCapacity: {
+    type: Number,
+    required: [true, 'Daily capacity is required'],
+    min: [0.01, 'Daily capacity must be positive']
+  },
+  shifts: {
+    type: [ShiftSchema],
+    default: () => DEFAULT_SHIFTS.map(shift => ({ ...shift, days: [...shift.days] }))
+  },
+  holidays: [{
+    type: Date
+  }],
+  efficiency: {
+    type: Number,
+    default: 100,
+    min: [1, 'Efficiency must be at least 1%'],
+    max: [200, 'Efficiency cannot exceed 200%']
+  },
+  parallelCapacity: {
+    type: Number,
+    default: 1,
+    min: [1, 'Parallel capacity must be at least 1'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Parallel capacity must be a whole number'
+    }
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+WorkCenterSchema.index({ isActive: 1 });
+
+// Standard run minutes the center can absorb on a day: its shift time on that weekday, less
+// breaks, across all parallel machines and scaled by efficiency. Holidays have none.
+WorkCenterSchema.methods.availableMinutes = function(this: IWorkCenter, date: Date): number {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  if (this.holidays.some(holiday => {
+    const off = new Date(holiday);
+    off.setHours(0, 0, 0, 0);
+    return off.getTime() === day.getTime();
+  })) {
+    return 0;
+  }
+
+  const shiftMinutes = this.shifts
+    .filter(shift => shift.days.includes(day.getDay()))
+    .reduce((total, shift) => {
+      const length = (minutesOf(shift.endTime) - minutesOf(shift.startTime) + 1440) % 1440 || 1440;
+      return total + Math.max(0, length - shift.breakMinutes);
+    }, 0);
+  return shiftMinutes * this.parallelCapacity * this.efficiency / 100;
+};
+
+const WorkCenter = mongoose.model<IWorkCenter>('WorkCenter', WorkCenterSchema);
+
+export { WorkCenter, DEFAULT_SHIFTS, type IWorkCenter, type IShift };
+export default WorkCenter;
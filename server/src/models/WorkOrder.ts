@@ -1,4 +1,7 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+type WorkOrderStatus = 'DRAFT' | 'RELEASED' | 'IN_PROGRESS' | 'PAUSED' | 'COMPLETED' | 'CLOSED' | 'CANCELLED';
+type OperationStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
 
 interface IWorkOrderMaterial {
   itemId: Schema.Types.ObjectId;
@@ -13,6 +16,38 @@ interface IWorkOrderMaterial {
   unit: string;
 }
 
+// A routing step copied onto the order, with what the floor reported against it
+interface IWorkOrderOperation {
+  sequence: number;
+  name: string;
+  workCenterId: Schema.Types.ObjectId;
+  workCenterCode: string;
+  setupTime: number; // minutes
+  runTime: number; // minutes per unit
+  inspectionRequired: boolean;
+  inspectionCriteria?: string;
+  instructions?: string;
+  status: OperationStatus;
+  scheduledStartDate?: Date; // set when a schedule is applied
+  scheduledEndDate?: Date;
+  actualStartDate?: Date;
+  actualEndDate?: Date;
+  goodQuantity: number;
+  scrapQuantity: number;
+  inspectionResult?: 'PASS' | 'FAIL';
+  operatorId?: Schema.Types.ObjectId;
+  operatorName?: string;
+  notes?: string;
+}
+
+interface IOperationReport {
+  goodQuantity: number;
+  scrapQuantity?: number;
+  inspectionResult?: 'PASS' | 'FAIL';
+  endDate?: Date;
+  notes?: string;
+}
+
 interface IWorkOrder extends Document {
   _id: string;
   orderNumber: string;
@@ -23,14 +58,20 @@ interface IWorkOrder extends Document {
     name: string;
     unit: string;
   };
+  bomId?: Schema.Types.ObjectId;
   quantity: number;
   unit: string;
   workCenter: string;
+  workCenterId?: Schema.Types.ObjectId;
+  productionPlanId?: Schema.Types.ObjectId; // set on orders split from a production plan
   startDate: Date;
   endDate: Date;
+  dueDate?: Date; // promised completion; the scheduler moves endDate but never this
   actualStartDate?: Date;
   actualEndDate?: Date;
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'PAUSED' | 'CANCELLED';
+  releasedAt?: Date;
+  closedAt?: Date;
+  status: WorkOrderStatus;
   completedQuantity: number;
   defectQuantity: number;
   assignedTo?: string;
@@ -42,6 +83,10 @@ interface IWorkOrder extends Document {
   };
   priority: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
   materials: IWorkOrderMaterial[];
+  routingId?: Schema.Types.ObjectId;
+  operations: IWorkOrderOperation[];
+  laborCost?: number;
+  overheadCost?: number;
   instructions?: string;
   notes?: string;
   qualityStandards?: string;
@@ -50,8 +95,50 @@ interface IWorkOrder extends Document {
   updatedBy?: Schema.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
+  canTransition(status: WorkOrderStatus): boolean;
+  canStart(): boolean;
+  canComplete(): boolean;
+  canPause(): boolean;
+  canResume(): boolean;
+  release(): void;
+  start(startDate?: Date): void;
+  complete(completedQuantity: number, endDate?: Date): void;
+  pause(reason?: string): void;
+  resume(): void;
+  close(): void;
+  cancel(reason?: string): void;
+  startOperation(sequence: number, operator: { id: unknown; name?: string }, startDate?: Date): IWorkOrderOperation;
+  finishOperation(sequence: number, report: IOperationReport): IWorkOrderOperation;
+  getProgress(): number;
+}
+
+interface IWorkOrderModel extends Model<IWorkOrder> {
+  findByStatus(status: WorkOrderStatus): Promise<IWorkOrder[]>;
+  findByWorkCenter(workCenter: string): Promise<IWorkOrder[]>;
+  findOverdue(): Promise<IWorkOrder[]>;
+  getStatistics(): Promise<Array<{ _id: WorkOrderStatus; count: number; totalQuantity: number; completedQuantity: number }>>;
 }
 
+const WORK_ORDER_STATUSES: WorkOrderStatus[] = ['DRAFT', 'RELEASED', 'IN_PROGRESS', 'PAUSED', 'COMPLETED', 'CLOSED', 'CANCELLED'];
+
+// Statuses in which the work order still needs material, capacity or attention on the floor
+const OPEN_WORK_ORDER_STATUSES: WorkOrderStatus[] = ['DRAFT', 'RELEASED', 'IN_PROGRESS', 'PAUSED'];
+
+// Work center of orders created before one was chosen, e.g. migrated or firmed from MRP
+const UNASSIGNED_WORK_CENTER = 'UNASSIGNED';
+
+// Drafts are planned only; release commits material, completion books the output and closing
+// settles the order so nothing more can be posted against it
+const WORK_ORDER_TRANSITIONS: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  DRAFT: ['RELEASED', 'CANCELLED'],
+  RELEASED: ['IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['PAUSED', 'COMPLETED', 'CANCELLED'],
+  PAUSED: ['IN_PROGRESS', 'CANCELLED'],
+  COMPLETED: ['CLOSED'],
+  CLOSED: [],
+  CANCELLED: []
+};
+
 const WorkOrderMaterialSchema = new Schema({
   itemId: {
     type: Schema.Types.ObjectId,
@@ -76,6 +163,98 @@ const WorkOrderMaterialSchema = new Schema({
   }
 }, { _id: false });
 
+const WorkOrderOperationSchema = new Schema({
+  sequence: {
+    type: Number,
+    required: true,
+    min: [1, 'Operation sequence must be positive']
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [100, 'Operation name cannot exceed 100 characters']
+  },
+  workCenterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WorkCenter',
+    required: true
+  },
+  workCenterCode: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  setupTime: {
+    type: Number,
+    default: 0,
+    min: [0, 'Setup time cannot be negative']
+  },
+  runTime: {
+    type: Number,
+    default: 0,
+    min: [0, 'Run time cannot be negative']
+  },
+  inspectionRequired: {
+    type: Boolean,
+    default: false
+  },
+  inspectionCriteria: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Inspection criteria cannot exceed 500 characters']
+  },
+  instructions: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Instructions cannot exceed 1000 characters']
+  },
+  status: {
+    type: String,
+    enum: ['PENDING', 'IN_PROGRESS', 'COMPLETED'],
+    default: 'PENDING'
+  },
+  scheduledStartDate: {
+    type: Date
+  },
+  scheduledEndDate: {
+    type: Date
+  },
+  actualStartDate: {
+    type: Date
+  },
+  actualEndDate: {
+    type: Date
+  },
+  goodQuantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Good quantity cannot be negative']
+  },
+  scrapQuantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Scrap quantity cannot be negative']
+  },
+  inspectionResult: {
+    type: String,
+    enum: ['PASS', 'FAIL']
+  },
+  operatorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  operatorName: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  }
+}, { _id: false });
+
 const WorkOrderSchema = new Schema({
   orderNumber: {
     type: String,
@@ -89,6 +268,10 @@ const WorkOrderSchema = new Schema({
     ref: 'Item',
     required: true
   },
+  bomId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BOM'
+  },
   quantity: {
     type: Number,
     required: true,
@@ -106,6 +289,14 @@ const WorkOrderSchema = new Schema({
     trim: true,
     maxlength: [100, 'Work center cannot exceed 100 characters']
   },
+  workCenterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WorkCenter'
+  },
+  productionPlanId: {
+    type: Schema.Types.ObjectId,
+    ref: 'ProductionPlan'
+  },
   startDate: {
     type: Date,
     required: true
@@ -114,16 +305,25 @@ const WorkOrderSchema = new Schema({
     type: Date,
     required: true
   },
+  dueDate: {
+    type: Date
+  },
   actualStartDate: {
     type: Date
   },
   actualEndDate: {
     type: Date
   },
+  releasedAt: {
+    type: Date
+  },
+  closedAt: {
+    type: Date
+  },
   status: {
     type: String,
-    enum: ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'PAUSED', 'CANCELLED'],
-    default: 'PENDING'
+    enum: WORK_ORDER_STATUSES,
+    default: 'DRAFT'
   },
   completedQuantity: {
     type: Number,
@@ -150,6 +350,19 @@ const WorkOrderSchema = new Schema({
     default: 'NORMAL'
   },
   materials: [WorkOrderMaterialSchema],
+  routingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Routing'
+  },
+  operations: [WorkOrderOperationSchema],
+  laborCost: {
+    type: Number,
+    min: [0, 'Labor cost cannot be negative']
+  },
+  overheadCost: {
+    type: Number,
+    min: [0, 'Overhead cost cannot be negative']
+  },
   instructions: {
     type: String,
     trim: true,
@@ -187,6 +400,7 @@ WorkOrderSchema.index({ orderNumber: 1 });
 WorkOrderSchema.index({ itemId: 1 });
 WorkOrderSchema.index({ status: 1 });
 WorkOrderSchema.index({ workCenter: 1 });
+WorkOrderSchema.index({ productionPlanId: 1 }, { sparse: true });
 WorkOrderSchema.index({ startDate: -1 });
 WorkOrderSchema.index({ priority: 1 });
 WorkOrderSchema.index({ isActive: 1 });
@@ -206,37 +420,53 @@ WorkOrderSchema.virtual('supervisor', {
   justOne: true
 });
 
-// Pre-save middleware to generate order number
-WorkOrderSchema.pre('save', async function(this: IWorkOrder, next) {
+// Generate the order number before validation, which requires it
+WorkOrderSchema.pre('validate', async function(this: IWorkOrder, next) {
   if (this.isNew && !this.orderNumber) {
     try {
       const currentYear = new Date().getFullYear();
       const count = await mongoose.model('WorkOrder').countDocuments({
         orderNumber: new RegExp(`^WO-${currentYear}`)
-      });
+      }).session(this.$session());
       this.orderNumber = `WO-${currentYear}-${String(count + 1).padStart(4, '0')}`;
     } catch (error) {
       return next(error as Error);
     }
   }
+  // Without an explicit due date the planned end is the promise
+  if (!this.dueDate && this.endDate) {
+    this.dueDate = this.endDate;
+  }
   next();
 });
 
 // Instance methods
+WorkOrderSchema.methods.canTransition = function(this: IWorkOrder, status: WorkOrderStatus): boolean {
+  return WORK_ORDER_TRANSITIONS[this.status].includes(status);
+};
+
 WorkOrderSchema.methods.canStart = function(this: IWorkOrder): boolean {
-  return this.status === 'PENDING';
+  return this.status === 'RELEASED' && this.canTransition('IN_PROGRESS');
 };
 
 WorkOrderSchema.methods.canComplete = function(this: IWorkOrder): boolean {
-  return this.status === 'IN_PROGRESS';
+  return this.canTransition('COMPLETED');
 };
 
 WorkOrderSchema.methods.canPause = function(this: IWorkOrder): boolean {
-  return this.status === 'IN_PROGRESS';
+  return this.canTransition('PAUSED');
 };
 
 WorkOrderSchema.methods.canResume = function(this: IWorkOrder): boolean {
-  return this.status === 'PAUSED';
+  return this.status === 'PAUSED' && this.canTransition('IN_PROGRESS');
+};
+
+WorkOrderSchema.methods.release = function(this: IWorkOrder): void {
+  if (!this.canTransition('RELEASED')) {
+    throw new Error('Cannot release work order in current status');
+  }
+  this.status = 'RELEASED';
+  this.releasedAt = new Date();
 };
 
 WorkOrderSchema.methods.start = function(this: IWorkOrder, startDate?: Date): void {
@@ -251,6 +481,13 @@ WorkOrderSchema.methods.complete = function(this: IWorkOrder, completedQuantity:
   if (!this.canComplete()) {
     throw new Error('Cannot complete work order in current status');
   }
+  if (this.operations.some(operation => operation.status !== 'COMPLETED')) {
+    throw new Error('All operations must be finished before the work order is completed');
+  }
+  const lastOperation = this.operations[this.operations.length - 1];
+  if (lastOperation && completedQuantity > lastOperation.goodQuantity) {
+    throw new Error(`Only ${lastOperation.goodQuantity} good units came out of the last operation`);
+  }
   this.status = 'COMPLETED';
   this.completedQuantity = completedQuantity;
   this.actualEndDate = endDate || new Date();
@@ -273,9 +510,17 @@ WorkOrderSchema.methods.resume = function(this: IWorkOrder): void {
   this.status = 'IN_PROGRESS';
 };
 
+WorkOrderSchema.methods.close = function(this: IWorkOrder): void {
+  if (!this.canTransition('CLOSED')) {
+    throw new Error('Only completed work orders can be closed');
+  }
+  this.status = 'CLOSED';
+  this.closedAt = new Date();
+};
+
 WorkOrderSchema.methods.cancel = function(this: IWorkOrder, reason?: string): void {
-  if (this.status === 'COMPLETED') {
-    throw new Error('Cannot cancel completed work order');
+  if (!this.canTransition('CANCELLED')) {
+    throw new Error('Cannot cancel work order in current status');
   }
   this.status = 'CANCELLED';
   if (reason) {
@@ -283,6 +528,74 @@ WorkOrderSchema.methods.cancel = function(this: IWorkOrder, reason?: string): vo
   }
 };
 
+// Operations run in sequence: a step can start once the one before it has, and the units it
+// reports can only be the good units the step before it passed on
+WorkOrderSchema.methods.startOperation = function(
+  this: IWorkOrder,
+  sequence: number,
+  operator: { id: unknown; name?: string },
+  startDate?: Date
+): IWorkOrderOperation {
+  if (this.status !== 'IN_PROGRESS') {
+    throw new Error('Operations can only be reported on work orders in progress');
+  }
+  const index = this.operations.findIndex(operation => operation.sequence === sequence);
+  if (index < 0) {
+    throw new Error(`No operation ${sequence} on this work order`);
+  }
+  const operation = this.operations[index];
+  if (operation.status !== 'PENDING') {
+    throw new Error(`Operation ${sequence} has already started`);
+  }
+  if (index > 0 && this.operations[index - 1].status === 'PENDING') {
+    throw new Error(`Operation ${this.operations[index - 1].sequence} has not started yet`);
+  }
+
+  operation.status = 'IN_PROGRESS';
+  operation.actualStartDate = startDate || new Date();
+  operation.operatorId = operator.id as Schema.Types.ObjectId;
+  operation.operatorName = operator.name;
+  return operation;
+};
+
+WorkOrderSchema.methods.finishOperation = function(this: IWorkOrder, sequence: number, report: IOperationReport): IWorkOrderOperation {
+  if (this.status !== 'IN_PROGRESS') {
+    throw new Error('Operations can only be reported on work orders in progress');
+  }
+  const index = this.operations.findIndex(operation => operation.sequence === sequence);
+  if (index < 0) {
+    throw new Error(`No operation ${sequence} on this work order`);
+  }
+  const operation = this.operations[index];
+  if (operation.status !== 'IN_PROGRESS') {
+    throw new Error(`Operation ${sequence} is not in progress`);
+  }
+  const previous = index > 0 ? this.operations[index - 1] : null;
+  if (previous && previous.status !== 'COMPLETED') {
+    throw new Error(`Operation ${previous.sequence} must be finished first`);
+  }
+
+  const available = previous ? previous.goodQuantity : this.quantity;
+  const scrapQuantity = report.scrapQuantity || 0;
+  if (report.goodQuantity + scrapQuantity > available) {
+    throw new Error(`Good and scrap quantities exceed the ${available} units available to operation ${sequence}`);
+  }
+  if (operation.inspectionRequired && !report.inspectionResult) {
+    throw new Error(`Operation ${sequence} requires an inspection result`);
+  }
+  if (report.inspectionResult === 'FAIL' && report.goodQuantity > 0) {
+    throw new Error('Units that failed inspection must be reported as scrap');
+  }
+
+  operation.status = 'COMPLETED';
+  operation.actualEndDate = report.endDate || new Date();
+  operation.goodQuantity = report.goodQuantity;
+  operation.scrapQuantity = scrapQuantity;
+  operation.inspectionResult = report.inspectionResult;
+  operation.notes = report.notes;
+  return operation;
+};
+
 WorkOrderSchema.methods.getProgress = function(this: IWorkOrder): number {
   if (this.quantity === 0) return 0;
   return Math.round((this.completedQuantity / this.quantity) * 100);
@@ -301,7 +614,7 @@ WorkOrderSchema.statics.findOverdue = function() {
   const today = new Date();
   return this.find({
     endDate: { $lt: today },
-    status: { $in: ['PENDING', 'IN_PROGRESS', 'PAUSED'] },
+    status: { $in: OPEN_WORK_ORDER_STATUSES },
     isActive: true
   }).sort({ endDate: 1 });
 };
@@ -326,6 +639,17 @@ WorkOrderSchema.statics.getStatistics = async function() {
 WorkOrderSchema.set('toJSON', { virtuals: true });
 WorkOrderSchema.set('toObject', { virtuals: true });
 
-const WorkOrder = mongoose.model<IWorkOrder>('WorkOrder', WorkOrderSchema);
+const WorkOrder = mongoose.model<IWorkOrder, IWorkOrderModel>('WorkOrder', WorkOrderSchema);
 
-export { WorkOrder, type IWorkOrder, type IWorkOrderMaterial };
\ No newline at end of file
+export {
+  WorkOrder,
+  WORK_ORDER_STATUSES,
+  OPEN_WORK_ORDER_STATUSES,
+  UNASSIGNED_WORK_CENTER,
+  type IWorkOrder,
+  type IWorkOrderMaterial,
+  type IWorkOrderOperation,
+  type IOperationReport,
+  type OperationStatus,
+  type WorkOrderStatus
+};
\ No newline at end of file
@@ -0,0 +1,457 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { BOM, IBOM } from '../models/Production';
+import Item from '../models/Item';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { activeBOM } from '../jobs/variants';
+import { bomStatus, explodeBOM, findCycle, whereUsed } from '../jobs/bom';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+const lineValidators = (required: boolean) => [
+  (required ? body('items') : body('items').optional())
+    .isArray({ min: 1 })
+    .withMessage('At least one component is required'),
+  body('items.*.itemId')
+    .isMongoId()
+    .withMessage('Invalid component ID'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Component quantity must be positive'),
+  body('items.*.unit')
+    .notEmpty()
+    .withMessage('Component unit is required')
+    .trim()
+    .toUpperCase(),
+  body('items.*.cost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Component cost cannot be negative'),
+  body('outputQuantity')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Output quantity must be positive'),
+  body('laborCost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Labor cost cannot be negative'),
+  body('overheadCost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Overhead cost cannot be negative'),
+  body('effectiveDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid effective date'),
+];
+
+// Components must exist and must not lead back to the product through their own BOMs
+const checkComponents = async (productId: string, lines: Array<{ itemId: string }>) => {
+  const componentIds = [...new Set(lines.map(line => line.itemId))];
+  if (componentIds.length !== lines.length) {
+    return 'Each component can appear only once in a BOM';
+  }
+  if (componentIds.includes(productId)) {
+    return 'A product cannot be a component of its own BOM';
+  }
+  if (await Item.countDocuments({ _id: { $in: componentIds } }) !== componentIds.length) {
+    return 'One or more components do not exist';
+  }
+
+  const cycle = await findCycle([productId], componentIds);
+  if (cycle) {
+    const items = await Item.find({ _id: { $in: cycle } }).select('code');
+    const codes = cycle.map(id => items.find(item => item._id.toString() === id)?.code || id);
+    return `Cyclic BOM reference: ${codes.join(' > ')} is already built from this product`;
+  }
+  return null;
+};
+
+// Two active versions taking effect at the same moment would make the one in effect ambiguous
+const checkEffectiveDate = async (bom: IBOM) => {
+  const clash = await BOM.exists({
+    _id: { $ne: bom._id },
+    productId: bom.productId,
+    isActive: true,
+    effectiveDate: bom.effectiveDate
+  });
+  return clash ? 'Another active version of this product takes effect at the same time' : null;
+};
+
+const refId = (ref: any): string | undefined => (ref?._id ?? ref)?.toString();
+
+// Adds the version status; the version in effect is looked up once per product or template
+const withStatus = async (boms: IBOM[]) => {
+  const currentIds = new Map<string, string | undefined>();
+  const result = [];
+  for (const bom of boms) {
+    const owner = bom.productId ? { productId: refId(bom.productId) } : { templateId: refId(bom.templateId) };
+    const key = `${owner.productId ?? ''}:${owner.templateId ?? ''}`;
+    if (!currentIds.has(key)) {
+      currentIds.set(key, (await activeBOM(owner))?._id.toString());
+    }
+    result.push({ ...bom.toJSON(), status: bomStatus(bom, currentIds.get(key)) });
+  }
+  return result;
+};
+
+// @desc    Get BOM versions
+// @route   GET /api/boms
+// @access  Private
+router.get('/', [
+  query('productId').optional().isMongoId().withMessage('Invalid product ID'),
+  query('templateId').optional().isMongoId().withMessage('Invalid template ID'),
+  query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  query('search').optional().trim().isLength({ max: 255 }).withMessage('Search term too long'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const { productId, templateId, isActive, search, page = 1, limit = 20 } = req.query;
+    const filter: any = {};
+    if (productId) filter.productId = productId;
+    if (templateId) filter.templateId = templateId;
+    if (isActive !== undefined) filter.isActive = isActive === 'true';
+    if (search) {
+      const products = await Item.find({
+        $or: [
+          { code: { $regex: search, $options: 'i' } },
+          { name: { $regex: search, $options: 'i' } }
+        ]
+      }).select('_id');
+      filter.$or = [
+        { bomNumber: { $regex: search, $options: 'i' } },
+        { productId: { $in: products.map(product => product._id) } }
+      ];
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const boms = await BOM.find(filter)
+      .populate('productId', 'code name unit')
+      .populate('templateId', 'code name unit')
+      .sort({ bomNumber: 1, version: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+    const totalCount = await BOM.countDocuments(filter);
+    const totalPages = Math.ceil(totalCount / Number(limit));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        boms: await withStatus(boms),
+        pagination: {
+          currentPage: Number(page),
+          totalPages,
+          totalCount,
+          hasNextPage: Number(page) < totalPages,
+          hasPrevPage: Number(page) > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get the parents that use an item, up to the top-level products
+// @route   GET /api/boms/where-used/:itemId
+// @access  Private
+router.get('/where-used/:itemId', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const item = await Item.findById(req.params.itemId).select('code name unit');
+    if (!item) {
+      return next(new AppError('No item found with that ID', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        item,
+        parents: await whereUsed(item._id.toString())
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get single BOM version
+// @route   GET /api/boms/:id
+// @access  Private
+router.get('/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const bom = await BOM.findById(req.params.id)
+      .populate('productId', 'code name unit')
+      .populate('templateId', 'code name unit')
+      .populate('items.itemId', 'code name unit cost')
+      .populate('createdBy', 'name email');
+    if (!bom) {
+      return next(new AppError('No BOM found with that ID', 404));
+    }
+
+    const [withState] = await withStatus([bom]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bom: withState
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Explode a BOM version over all levels
+// @route   GET /api/boms/:id/explosion
+// @access  Private
+router.get('/:id/explosion', [
+  query('quantity').optional().isFloat({ gt: 0 }).withMessage('Quantity must be positive'),
+  query('date').optional().isISO8601().withMessage('Invalid date'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const bom = await BOM.findById(req.params.id);
+    if (!bom) {
+      return next(new AppError('No BOM found with that ID', 404));
+    }
+
+    const quantity = req.query.quantity ? Number(req.query.quantity) : bom.outputQuantity;
+    const date = req.query.date ? new Date(req.query.date as string) : new Date();
+    const { rows, requirements, error } = await explodeBOM(bom, quantity, date);
+    if (error) {
+      return next(new AppError(error, 400));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bomNumber: bom.bomNumber,
+        quantity,
+        date,
+        rows,
+        requirements
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create BOM version
+// @route   POST /api/boms
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), [
+  body('productId')
+    .isMongoId()
+    .withMessage('Invalid product ID'),
+  ...lineValidators(true),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const product = await Item.findById(req.body.productId);
+    if (!product) {
+      return next(new AppError('No item found with that ID', 404));
+    }
+
+    const componentError = await checkComponents(product._id.toString(), req.body.items);
+    if (componentError) {
+      return next(new AppError(componentError, 400));
+    }
+
+    const latest = await BOM.findOne({ productId: product._id }).sort({ version: -1 });
+    const version = (latest?.version || 0) + 1;
+
+    const bom = new BOM({
+      bomNumber: `BOM-${product.code}-V${version}`,
+      productId: product._id,
+      version,
+      outputQuantity: req.body.outputQuantity || 1,
+      items: req.body.items.map((line: any) => ({
+        itemId: line.itemId,
+        quantity: line.quantity,
+        unit: line.unit,
+        cost: line.cost,
+        notes: line.notes
+      })),
+      laborCost: req.body.laborCost,
+      overheadCost: req.body.overheadCost,
+      notes: req.body.notes,
+      effectiveDate: req.body.effectiveDate ? new Date(req.body.effectiveDate) : new Date(),
+      createdBy: req.user!._id
+    });
+
+    const dateError = await checkEffectiveDate(bom);
+    if (dateError) {
+      return next(new AppError(dateError, 400));
+    }
+    await bom.save();
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        bom
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update BOM version
+// @route   PATCH /api/boms/:id
+// @access  Private (Manager/Admin)
+router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
+  ...lineValidators(false),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const bom = await BOM.findById(req.params.id);
+    if (!bom) {
+      return next(new AppError('No BOM found with that ID', 404));
+    }
+    if (!bom.productId) {
+      return next(new AppError('Template BOMs are maintained on their item template', 400));
+    }
+
+    // A version that has taken effect may have been built from; changing its content would
+    // rewrite history, so a new version is needed instead
+    const contentChange = ['items', 'outputQuantity', 'laborCost', 'overheadCost', 'effectiveDate']
+      .some(field => req.body[field] !== undefined);
+    if (contentChange && bom.isActive && bom.effectiveDate <= new Date()) {
+      return next(new AppError('This version is already in effect; create a new version to change it', 400));
+    }
+
+    if (req.body.items) {
+      bom.set('items', req.body.items.map((line: any) => ({
+        itemId: line.itemId,
+        quantity: line.quantity,
+        unit: line.unit,
+        cost: line.cost,
+        notes: line.notes
+      })));
+    }
+
+    for (const field of ['outputQuantity', 'laborCost', 'overheadCost', 'notes', 'isActive']) {
+      if (req.body[field] !== undefined) bom.set(field, req.body[field]);
+    }
+    if (req.body.effectiveDate !== undefined) {
+      bom.effectiveDate = new Date(req.body.effectiveDate);
+    }
+
+    // Cycles are only traced through active versions, so one that was inactive while other BOMs
+    // changed is checked again when it becomes active
+    if (req.body.items || bom.isActive) {
+      const componentError = await checkComponents(
+        bom.productId.toString(),
+        bom.items.map(line => ({ itemId: line.itemId.toString() }))
+      );
+      if (componentError) {
+        return next(new AppError(componentError, 400));
+      }
+    }
+
+    if (bom.isActive) {
+      const dateError = await checkEffectiveDate(bom);
+      if (dateError) {
+        return next(new AppError(dateError, 400));
+      }
+    }
+    await bom.save();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bom
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Copy a BOM version into a new version of the same product
+// @route   POST /api/boms/:id/versions
+// @access  Private (Manager/Admin)
+router.post('/:id/versions', restrictTo('ADMIN', 'MANAGER'), [
+  body('effectiveDate')
+    .isISO8601()
+    .withMessage('Effective date is required'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const source = await BOM.findById(req.params.id).populate('productId', 'code');
+    if (!source || !source.productId) {
+      return next(new AppError('No product BOM found with that ID', 404));
+    }
+
+    const product = source.productId as unknown as { _id: string; code: string };
+    const latest = await BOM.findOne({ productId: product._id }).sort({ version: -1 });
+    const version = (latest?.version || 0) + 1;
+
+    const bom = new BOM({
+      bomNumber: `BOM-${product.code}-V${version}`,
+      productId: product._id,
+      version,
+      outputQuantity: source.outputQuantity,
+      items: source.items.map(line => ({
+        itemId: line.itemId,
+        quantity: line.quantity,
+        unit: line.unit,
+        cost: line.cost,
+        notes: line.notes
+      })),
+      laborCost: source.laborCost,
+      overheadCost: source.overheadCost,
+      notes: source.notes,
+      effectiveDate: new Date(req.body.effectiveDate),
+      createdBy: req.user!._id
+    });
+
+    const dateError = await checkEffectiveDate(bom);
+    if (dateError) {
+      return next(new AppError(dateError, 400));
+    }
+    await bom.save();
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        bom
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,362 @@
+import express from 'express';
+import { protect, AuthRequest } from '../middleware/auth';
+import { InventoryStock } from '../models/InventoryStock';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+import { PurchaseOrder } from '../models/Purchase';
+import { Company } from '../models/Company';
+import { Warehouse } from '../models/Warehouse';
+import { Item } from '../models/Item';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// A supplier can only consign with us and a customer can only supply material if the company is set up as such
+const OWNER_COMPANY_TYPES = {
+  SUPPLIER: ['SUPPLIER', 'BOTH'],
+  CUSTOMER: ['CUSTOMER', 'BOTH']
+};
+
+// @desc    Get consigned and customer-owned stock
+// @route   GET /api/inventory/consignment
+// @access  Private
+router.get('/', [
+  query('ownerType').optional().isIn(['SUPPLIER', 'CUSTOMER']).withMessage('유효한 소유 구분이 필요합니다.'),
+  query('ownerId').optional().isMongoId().withMessage('유효한 소유자 ID가 필요합니다.'),
+  query('warehouseId').optional().isMongoId().withMessage('유효한 창고 ID가 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const stockQuery: any = { isActive: true, ownerId: { $ne: null }, currentQuantity: { $gt: 0 } };
+    if (req.query.ownerType) stockQuery.ownerType = req.query.ownerType;
+    if (req.query.ownerId) stockQuery.ownerId = req.query.ownerId;
+    if (req.query.warehouseId) stockQuery.warehouseId = req.query.warehouseId;
+
+    const stocks = await InventoryStock.find(stockQuery)
+      .populate('itemId', 'code name unit')
+      .sort({ ownerName: 1, itemCode: 1 });
+
+    // Value at the agreed price, i.e. what consuming all of it would cost us
+    const owners = new Map<string, { ownerId: string; ownerType: string; ownerName?: string; itemCount: number; quantity: number; value: number }>();
+    for (const stock of stocks) {
+      const key = stock.ownerId!.toString();
+      const owner = owners.get(key)
+        || { ownerId: key, ownerType: stock.ownerType, ownerName: stock.ownerName, itemCount: 0, quantity: 0, value: 0 };
+      owner.itemCount += 1;
+      owner.quantity += stock.currentQuantity;
+      owner.value += stock.ownerType === 'SUPPLIER' ? stock.currentQuantity * stock.averageUnitCost : 0;
+      owners.set(key, owner);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        stocks,
+        owners: [...owners.values()]
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Receive supplier consignment or customer-supplied material
+// @route   POST /api/inventory/consignment/receive
+// @access  Private
+router.post('/receive', [
+  body('ownerType').isIn(['SUPPLIER', 'CUSTOMER']).withMessage('유효한 소유 구분이 필요합니다.'),
+  body('ownerId').isMongoId().withMessage('유효한 소유자 ID가 필요합니다.'),
+  body('warehouseId').isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  body('items').isArray({ min: 1 }).withMessage('최소 1개 이상의 품목이 필요합니다.'),
+  body('items.*.itemId').isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  body('items.*.quantity').isFloat({ gt: 0 }).withMessage('수량은 0보다 큰 값이어야 합니다.'),
+  body('items.*.unitPrice').optional().isFloat({ min: 0 }).withMessage('단가는 0 이상이어야 합니다.'),
+  body('items.*.batchNumber').optional().isString().trim(),
+  body('items.*.expirationDate').optional().isISO8601().withMessage('유효한 유효기간이 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const { ownerType, ownerId, warehouseId, items, referenceNumber, notes } = req.body;
+    const ownerKind = ownerType as keyof typeof OWNER_COMPANY_TYPES;
+
+    const [owner, warehouse] = await Promise.all([
+      Company.findOne({ _id: ownerId, isActive: true }).session(session),
+      Warehouse.findOne({ _id: warehouseId, isActive: true }).session(session)
+    ]);
+    if (!owner || !OWNER_COMPANY_TYPES[ownerKind].includes(owner.type)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: ownerType === 'SUPPLIER' ? '위탁재고를 둘 수 있는 공급업체가 아닙니다.' : '사급자재를 공급할 수 있는 고객사가 아닙니다.'
+      });
+    }
+    if (!warehouse) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '창고를 찾을 수 없습니다.'
+      });
+    }
+
+    const transactions = [];
+    const updatedStocks = [];
+
+    for (const line of items) {
+      const item = await Item.findOne({ _id: line.itemId, isActive: true }).session(session);
+      if (!item) {
+        await session.abortTransaction();
+        return res.status(404).json({
+          status: 'error',
+          message: '품목을 찾을 수 없습니다.'
+        });
+      }
+
+      let stock = await InventoryStock.findOne({
+        itemId: item._id,
+        warehouseId: warehouse._id,
+        ownerId: owner._id
+      }).session(session);
+      if (!stock) {
+        stock = new InventoryStock({
+          itemId: item._id,
+          itemName: item.name,
+          itemCode: item.code,
+          itemCategory: item.category,
+          warehouseId: warehouse._id,
+          warehouseName: warehouse.name,
+          ownerType,
+          ownerId: owner._id,
+          ownerName: owner.name,
+          currentQuantity: 0,
+          averageUnitCost: 0,
+          lastUpdatedBy: req.user!._id
+        });
+      }
+
+      // Consignment is priced at what the supplier will bill on consumption; customer material has no price
+      const unitPrice = ownerType === 'SUPPLIER' ? Number(line.unitPrice ?? (item.cost || 0)) : undefined;
+      const expirationDate = line.expirationDate ? new Date(line.expirationDate) : undefined;
+      const previousQuantity = stock.currentQuantity;
+      stock.addStock(Number(line.quantity), unitPrice, line.batchNumber, expirationDate);
+      stock.set('lastUpdatedBy', req.user!._id);
+      await stock.save({ session });
+      updatedStocks.push(stock);
+
+      const transaction = new InventoryTransaction({
+        itemId: item._id,
+        itemName: item.name,
+        itemCode: item.code,
+        warehouseId: warehouse._id,
+        warehouseName: warehouse.name,
+        ownerType,
+        ownerId: owner._id,
+        ownerName: owner.name,
+        transactionType: 'IN',
+        quantity: Number(line.quantity),
+        unitPrice,
+        previousQuantity,
+        currentQuantity: stock.currentQuantity,
+        referenceType: 'RECEIPT',
+        referenceNumber,
+        reason: ownerType === 'SUPPLIER' ? `위탁재고 입고 - ${owner.name}` : `사급자재 입고 - ${owner.name}`,
+        notes,
+        batchNumber: line.batchNumber,
+        expirationDate,
+        userId: req.user!._id,
+        userName: req.user!.name
+      });
+      await transaction.save({ session });
+      transactions.push(transaction);
+    }
+
+    await session.commitTransaction();
+
+    res.status(201).json({
+      status: 'success',
+      message: ownerType === 'SUPPLIER' ? '위탁재고 입고가 완료되었습니다.' : '사급자재 입고가 완료되었습니다.',
+      data: {
+        transactions,
+        updatedStocks
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Return unused consigned or customer-owned stock to its owner
+// @route   POST /api/inventory/consignment/return
+// @access  Private
+router.post('/return', [
+  body('ownerId').isMongoId().withMessage('유효한 소유자 ID가 필요합니다.'),
+  body('warehouseId').isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  body('items').isArray({ min: 1 }).withMessage('최소 1개 이상의 품목이 필요합니다.'),
+  body('items.*.itemId').isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  body('items.*.quantity').isFloat({ gt: 0 }).withMessage('수량은 0보다 큰 값이어야 합니다.'),
+  body('items.*.batchNumber').optional().isString().trim(),
+  body('reason').notEmpty().withMessage('반환 사유는 필수입니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const { ownerId, warehouseId, items, reason, notes } = req.body;
+    const transactions = [];
+    const updatedStocks = [];
+
+    for (const line of items) {
+      const stock = await InventoryStock.findOne({
+        itemId: line.itemId,
+        warehouseId,
+        ownerId
+      }).session(session);
+      if (!stock) {
+        await session.abortTransaction();
+        return res.status(404).json({
+          status: 'error',
+          message: '반환할 위탁/사급 재고를 찾을 수 없습니다.'
+        });
+      }
+
+      const quantity = Number(line.quantity);
+      const previousQuantity = stock.currentQuantity;
+      stock.removeFromBins(quantity);
+      if (!stock.removeStock(quantity, line.batchNumber)) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          status: 'error',
+          message: `품목 ${stock.itemName}의 반환 가능한 재고가 부족합니다. (사용 가능: ${stock.availableQuantity})`
+        });
+      }
+      stock.set('lastUpdatedBy', req.user!._id);
+      await stock.save({ session });
+      updatedStocks.push(stock);
+
+      // Goods going back to their owner are not consumption, so no settlement is raised
+      const transaction = new InventoryTransaction({
+        itemId: stock.itemId,
+        itemName: stock.itemName,
+        itemCode: stock.itemCode,
+        warehouseId: stock.warehouseId,
+        warehouseName: stock.warehouseName,
+        ownerType: stock.ownerType,
+        ownerId: stock.ownerId,
+        ownerName: stock.ownerName,
+        transactionType: 'OUT',
+        quantity: -quantity,
+        unitPrice: stock.ownerType === 'SUPPLIER' ? stock.averageUnitCost : undefined,
+        previousQuantity,
+        currentQuantity: stock.currentQuantity,
+        referenceType: 'RETURN',
+        reason,
+        notes,
+        batchNumber: line.batchNumber,
+        userId: req.user!._id,
+        userName: req.user!.name
+      });
+      await transaction.save({ session });
+      transactions.push(transaction);
+    }
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '소유자 반환 처리가 완료되었습니다.',
+      data: {
+        transactions,
+        updatedStocks
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Get purchase orders raised to settle consumed consignment stock
+// @route   GET /api/inventory/consignment/settlements
+// @access  Private
+router.get('/settlements', [
+  query('supplierId').optional().isMongoId().withMessage('유효한 공급업체 ID가 필요합니다.'),
+  query('from').optional().isISO8601().withMessage('유효한 시작일이 필요합니다.'),
+  query('to').optional().isISO8601().withMessage('유효한 종료일이 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const orderQuery: any = { source: 'CONSIGNMENT', isActive: true };
+    if (req.query.supplierId) orderQuery.supplierId = req.query.supplierId;
+    if (req.query.from || req.query.to) {
+      orderQuery.orderDate = {};
+      if (req.query.from) orderQuery.orderDate.$gte = new Date(req.query.from as string);
+      if (req.query.to) {
+        const to = new Date(req.query.to as string);
+        to.setHours(23, 59, 59, 999);
+        orderQuery.orderDate.$lte = to;
+      }
+    }
+
+    const settlements = await PurchaseOrder.find(orderQuery)
+      .populate('supplierId', 'name businessNumber')
+      .populate('items.itemId', 'code name unit')
+      .sort({ orderDate: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        settlements,
+        totalAmount: settlements.reduce((sum, order) => sum + order.totalAmount, 0)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
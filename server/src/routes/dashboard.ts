@@ -1,11 +1,22 @@
 import express from 'express';
 import { PurchaseOrder } from '../models/Purchase';
 import { InventoryStock } from '../models/InventoryStock';
+import { WorkOrder, OPEN_WORK_ORDER_STATUSES, WorkOrderStatus } from '../models/WorkOrder';
 import { protect, AuthRequest } from '../middleware/auth';
 
 const router = express.Router();
 router.use(protect);
 
+const workOrderStatusLabels: Record<WorkOrderStatus, string> = {
+  DRAFT: '계획',
+  RELEASED: '지시',
+  IN_PROGRESS: '진행중',
+  PAUSED: '중단',
+  COMPLETED: '완료',
+  CLOSED: '마감',
+  CANCELLED: '취소'
+};
+
 router.get('/stats', async (_req: AuthRequest, res: express.Response) => {
   try {
     const today = new Date();
@@ -28,9 +39,13 @@ router.get('/stats', async (_req: AuthRequest, res: express.Response) => {
     const orderChangePercent = yesterdayOrdersCount > 0 ? 
       (((todayOrdersCount - yesterdayOrdersCount) / yesterdayOrdersCount) * 100).toFixed(2) : '0.00';
 
-    // 생산 중인 작업 (가짜 데이터)
-    const workInProgress = Math.floor(Math.random() * 5) + 6; // 6-10
-    const workChangePercent = '+1.2';
+    // 생산 중인 작업과 그중 완료 예정일이 지난 작업
+    const workInProgress = await WorkOrder.countDocuments({ status: 'IN_PROGRESS', isActive: true });
+    const overdueWork = await WorkOrder.countDocuments({
+      status: { $in: OPEN_WORK_ORDER_STATUSES },
+      endDate: { $lt: today },
+      isActive: true
+    });
 
     // 재고 알림 (안전재고 이하인 아이템 수)
     let lowStockCount = 0;
@@ -59,8 +74,8 @@ router.get('/stats', async (_req: AuthRequest, res: express.Response) => {
       {
         name: '생산 중인 작업',
         value: workInProgress.toString(),
-        change: workChangePercent,
-        changeType: 'positive'
+        change: `지연 ${overdueWork}건`,
+        changeType: overdueWork > 0 ? 'negative' : 'positive'
       },
       {
         name: '재고 알림',
@@ -144,33 +159,20 @@ router.get('/recent-orders', async (_req: AuthRequest, res: express.Response) =>
 
 router.get('/work-orders', async (_req: AuthRequest, res: express.Response) => {
   try {
-    // 가짜 작업지시 데이터 (작업지시 모델이 없으므로)
-    const workOrders = [
-      {
-        id: 'WO-2025-001',
-        item: '제품A',
-        quantity: '100개',
-        progress: Math.floor(Math.random() * 100),
-        dueDate: '2025-01-20',
-        status: '진행중'
-      },
-      {
-        id: 'WO-2025-002',
-        item: '제품B',
-        quantity: '200개',
-        progress: Math.floor(Math.random() * 100),
-        dueDate: '2025-01-25',
-        status: '시작'
-      },
-      {
-        id: 'WO-2025-003',
-        item: '제품C',
-        quantity: '50개',
-        progress: 100,
-        dueDate: '2025-01-15',
-        status: '완료'
-      }
-    ];
+    // 완료 예정일이 가까운 미완료 작업지시
+    const orders = await WorkOrder.find({ status: { $in: OPEN_WORK_ORDER_STATUSES }, isActive: true })
+      .populate('itemId', 'name')
+      .sort({ endDate: 1 })
+      .limit(5);
+
+    const workOrders = orders.map(order => ({
+      id: order.orderNumber,
+      item: (order.itemId as any)?.name || '',
+      quantity: `${order.quantity.toLocaleString()}${order.unit}`,
+      progress: order.getProgress(),
+      dueDate: order.endDate.toISOString().slice(0, 10),
+      status: workOrderStatusLabels[order.status]
+    }));
 
     res.json({ success: true, data: workOrders });
   } catch (error) {
@@ -0,0 +1,211 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { InventoryPeriod } from '../models/InventoryPeriod';
+import { InventoryRecalculation } from '../models/InventoryRecalculation';
+import { param, query, validationResult } from 'express-validator';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// @desc    Get the status of recent inventory periods
+// @route   GET /api/inventory/periods
+// @access  Private
+router.get('/', [
+  query('months').optional().isInt({ min: 1, max: 36 }).withMessage('조회 개월 수는 1~36 사이여야 합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const months = Number(req.query.months || 12);
+    const now = new Date();
+    const keys = Array.from({ length: months }, (_, index) =>
+      InventoryPeriod.periodOf(new Date(now.getFullYear(), now.getMonth() - index, 1)));
+
+    const saved = await InventoryPeriod.find({ period: { $in: keys } })
+      .populate('closedBy', 'name')
+      .populate('reopenedBy', 'name');
+    const latest = await InventoryPeriod.latestClosed();
+
+    // Months without a record are closed when a later month is, and open otherwise
+    const periods = keys.map(key => saved.find(period => period.period === key) ||
+      { period: key, status: latest && key <= latest ? 'CLOSED' : 'OPEN' });
+
+    res.status(200).json({
+      status: 'success',
+      data: { periods }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get the audit trail of transactions rewritten by backdated postings
+// @route   GET /api/inventory/periods/recalculations
+// @access  Private
+router.get('/recalculations', [
+  query('itemId').optional().isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  query('warehouseId').optional().isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  query('page').optional().isInt({ min: 1 }).withMessage('페이지는 1 이상이어야 합니다.'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('조회 건수는 1~100 사이여야 합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const { itemId, warehouseId } = req.query;
+    const page = Number(req.query.page || 1);
+    const limit = Number(req.query.limit || 20);
+
+    const filter: any = {};
+    if (itemId) filter.itemId = itemId;
+    if (warehouseId) filter.warehouseId = warehouseId;
+
+    const [recalculations, totalCount] = await Promise.all([
+      InventoryRecalculation.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      InventoryRecalculation.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        recalculations,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalCount / limit),
+          totalCount
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Close an inventory period so nothing can be backdated into it
+// @route   PATCH /api/inventory/periods/:period/close
+// @access  Private (Manager/Admin)
+router.patch('/:period/close', restrictTo('ADMIN', 'MANAGER'), [
+  param('period').matches(PERIOD_PATTERN).withMessage('기간은 YYYY-MM 형식이어야 합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const key = req.params.period;
+    if (key > InventoryPeriod.periodOf(new Date())) {
+      return res.status(400).json({
+        status: 'error',
+        message: '아직 시작되지 않은 기간은 마감할 수 없습니다.'
+      });
+    }
+
+    // Months close in order: a later close would leave an open month that can rewrite it
+    const latest = await InventoryPeriod.latestClosed();
+    if (latest && key <= latest) {
+      return res.status(400).json({
+        status: 'error',
+        message: '이미 마감된 기간입니다.'
+      });
+    }
+    if (latest && key !== InventoryPeriod.nextOf(latest)) {
+      return res.status(400).json({
+        status: 'error',
+        message: `${InventoryPeriod.nextOf(latest)} 기간부터 순서대로 마감해야 합니다.`
+      });
+    }
+
+    let period = await InventoryPeriod.findOne({ period: key });
+
+    if (!period) {
+      period = new InventoryPeriod({ period: key });
+    }
+    period.status = 'CLOSED';
+    period.closedAt = new Date();
+    period.set('closedBy', req.user!._id);
+    await period.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: `${key} 재고 기간이 마감되었습니다.`,
+      data: { period }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Reopen a closed inventory period
+// @route   PATCH /api/inventory/periods/:period/reopen
+// @access  Private (Admin)
+router.patch('/:period/reopen', restrictTo('ADMIN'), [
+  param('period').matches(PERIOD_PATTERN).withMessage('기간은 YYYY-MM 형식이어야 합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const period = await InventoryPeriod.findOne({ period: req.params.period, status: 'CLOSED' });
+    if (!period) {
+      return res.status(400).json({
+        status: 'error',
+        message: '마감된 기간이 아닙니다.'
+      });
+    }
+
+    // Reopening goes backwards from the latest close, so closed months always come before open ones
+    const latest = await InventoryPeriod.latestClosed();
+    if (period.period !== latest) {
+      return res.status(400).json({
+        status: 'error',
+        message: `${latest} 기간의 마감을 먼저 해제해야 합니다.`
+      });
+    }
+
+    period.status = 'OPEN';
+    period.reopenedAt = new Date();
+    period.set('reopenedBy', req.user!._id);
+    await period.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: `${period.period} 재고 기간의 마감이 해제되었습니다.`,
+      data: { period }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
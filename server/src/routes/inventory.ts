@@ -2,7 +2,19 @@ import express from 'express';
 import { protect, AuthRequest } from '../middleware/auth';
 import { InventoryStock } from '../models/InventoryStock';
 import { InventoryTransaction } from '../models/InventoryTransaction';
-import { body, validationResult } from 'express-validator';
+import { Item } from '../models/Item';
+import { WorkOrder, OPEN_WORK_ORDER_STATUSES } from '../models/WorkOrder';
+import { SalesOrder } from '../models/SalesOrder';
+import { ICompany } from '../models/Company';
+import { LotGenealogy } from '../models/LotGenealogy';
+import { SerialNumber, ISerialNumber } from '../models/SerialNumber';
+import { StockReservation } from '../models/StockReservation';
+import { Warehouse } from '../models/Warehouse';
+import { UnitOfMeasure } from '../models/UnitOfMeasure';
+import { IInventoryRecalculation } from '../models/InventoryRecalculation';
+import { settleConsignment, IConsumedLine, IConsignmentSettlement } from '../jobs/consignment';
+import { resolvePostingDate, resequenceTransactions } from '../jobs/backdating';
+import { body, query, validationResult } from 'express-validator';
 import mongoose from 'mongoose';
 
 const router = express.Router();
@@ -23,6 +35,8 @@ router.get('/stock', async (req: AuthRequest, res: express.Response, next: expre
       status = 'ACTIVE',
       lowStock,
       criticalStock,
+      abcClass,
+      xyzClass,
       sortBy = 'itemName',
       sortOrder = 'asc'
     } = req.query;
@@ -39,6 +53,15 @@ router.get('/stock', async (req: AuthRequest, res: express.Response, next: expre
       query.itemId = itemId;
     }
 
+    if (abcClass || xyzClass) {
+      const classFilter: any = {};
+      if (abcClass) classFilter.abcClass = abcClass;
+      if (xyzClass) classFilter.xyzClass = xyzClass;
+      const classItems = await Item.find(classFilter).select('_id');
+      const classItemIds = classItems.map(item => item._id);
+      query.itemId = itemId ? { $eq: itemId, $in: classItemIds } : { $in: classItemIds };
+    }
+
     if (status && status !== 'ALL') {
       query.status = status;
     }
@@ -57,7 +80,7 @@ router.get('/stock', async (req: AuthRequest, res: express.Response, next: expre
 
     const [stocks, total] = await Promise.all([
       InventoryStock.find(query)
-        .populate('itemId', 'name code category unit')
+        .populate('itemId', 'name code category unit abcClass xyzClass')
         .populate('warehouseId', 'name code')
         .populate('lastUpdatedBy', 'name email')
         .sort(sort)
@@ -160,6 +183,113 @@ router.get('/transactions', async (req: AuthRequest, res: express.Response, next
   }
 });
 
+// A date without a time means the close of that day
+const endOfDay = (value: string) => {
+  const date = new Date(value);
+  if (value.length <= 10) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+// @desc    Get item movement card (opening balance, movements with running balance, closing balance)
+// @route   GET /api/inventory/items/:itemId/card
+// @access  Private
+router.get('/items/:itemId/card', [
+  query('from').optional().isISO8601().withMessage('유효한 시작일이 필요합니다.'),
+  query('to').optional().isISO8601().withMessage('유효한 종료일이 필요합니다.'),
+  query('warehouseId').optional().isMongoId().withMessage('유효한 창고 ID가 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const item = await Item.findById(req.params.itemId).select('code name unit category');
+    if (!item) {
+      return res.status(404).json({
+        status: 'error',
+        message: '품목을 찾을 수 없습니다.'
+      });
+    }
+
+    // Defaults to the current month to date
+    const now = new Date();
+    const from = req.query.from ? new Date(req.query.from as string) : new Date(now.getFullYear(), now.getMonth(), 1);
+    const to = req.query.to ? endOfDay(req.query.to as string) : now;
+    const warehouseId = req.query.warehouseId as string | undefined;
+
+    const ledger = await InventoryTransaction.getItemLedger(item._id.toString(), from, to, warehouseId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        item,
+        warehouseId,
+        from,
+        to,
+        ...ledger
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get stock as of a past date, replayed from the transaction history
+// @route   GET /api/inventory/stock/as-of
+// @access  Private
+router.get('/stock/as-of', [
+  query('date').isISO8601().withMessage('유효한 기준일이 필요합니다.'),
+  query('warehouseId').optional().isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  query('itemId').optional().isMongoId().withMessage('유효한 품목 ID가 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const asOf = endOfDay(req.query.date as string);
+    const positions = await InventoryTransaction.replayValuation(asOf, req.query.warehouseId as string | undefined);
+
+    const stocks = positions
+      .filter(position => position.quantity !== 0)
+      .filter(position => !req.query.itemId || position.itemId === req.query.itemId)
+      .map(position => ({
+        itemId: position.itemId,
+        itemName: position.itemName,
+        itemCode: position.itemCode,
+        warehouseId: position.warehouseId,
+        warehouseName: position.warehouseName,
+        quantity: position.quantity,
+        averageUnitCost: position.movingAverageCost,
+        totalValue: position.movingAverageValue,
+        lastTransactionDate: position.lastTransactionDate
+      }))
+      .sort((a, b) => (a.itemCode || '').localeCompare(b.itemCode || '') || a.warehouseName.localeCompare(b.warehouseName));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        asOf,
+        stocks
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Create stock issue (출고)
 // @route   POST /api/inventory/issue
 // @access  Private
@@ -167,7 +297,15 @@ router.post('/issue', [
   body('items').isArray({ min: 1 }).withMessage('최소 1개 이상의 품목이 필요합니다.'),
   body('items.*.itemId').isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
   body('items.*.quantity').isFloat({ gt: 0 }).withMessage('수량은 0보다 큰 값이어야 합니다.'),
+  body('items.*.binId').optional().isMongoId().withMessage('유효한 로케이션 ID가 필요합니다.'),
+  body('items.*.batchNumber').optional().isString().trim(),
+  body('items.*.serialNumbers').optional().isArray().withMessage('일련번호는 배열이어야 합니다.'),
+  body('items.*.ownerId').optional().isMongoId().withMessage('유효한 소유자 ID가 필요합니다.'),
+  body('items.*.unit').optional().isString().trim().isLength({ max: 20 }).withMessage('단위는 20자를 초과할 수 없습니다.'),
   body('warehouseId').isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  body('workOrderId').optional().isMongoId().withMessage('유효한 작업지시 ID가 필요합니다.'),
+  body('salesOrderId').optional().isMongoId().withMessage('유효한 수주 ID가 필요합니다.'),
+  body('transactionDate').optional().isISO8601().withMessage('유효한 출고일자가 필요합니다.'),
   body('reason').notEmpty().withMessage('출고 사유는 필수입니다.')
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   const session = await mongoose.startSession();
@@ -184,15 +322,54 @@ router.post('/issue', [
       });
     }
 
-    const { items, warehouseId, reason, notes, referenceNumber } = req.body;
+    const { items, warehouseId, reason, notes, workOrderId, salesOrderId } = req.body;
     const transactions = [];
     const updatedStocks = [];
+    const recalculations: IInventoryRecalculation[] = [];
+    // Supplier-owned stock drawn by this issue, per supplier, to be settled at the end
+    const consumedConsignment = new Map<string, IConsumedLine[]>();
+
+    // Material issued to a work order or shipped against a sales order is recorded in the lot genealogy
+    const workOrder = workOrderId ? await WorkOrder.findById(workOrderId).session(session) : null;
+    if (workOrderId && (!workOrder || !OPEN_WORK_ORDER_STATUSES.includes(workOrder.status))) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '자재를 출고할 수 있는 작업지시가 아닙니다.'
+      });
+    }
+
+    const salesOrder = salesOrderId
+      ? await SalesOrder.findById(salesOrderId).populate<{ customerId: ICompany }>('customerId', 'name').session(session)
+      : null;
+    if (salesOrderId && (!salesOrder || salesOrder.status === 'CANCELLED')) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '출하할 수 있는 수주가 아닙니다.'
+      });
+    }
+
+    const order = workOrder || salesOrder;
+    const referenceNumber = req.body.referenceNumber || order?.orderNumber;
+
+    const posting = await resolvePostingDate(req.body.transactionDate, session);
+    if (posting.error) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: posting.error
+      });
+    }
+
+    const warehouse = await Warehouse.findById(warehouseId).select('allowNegativeStock').session(session);
 
     for (const item of items) {
-      // Find inventory stock record
+      // Find inventory stock record; a line with ownerId draws consigned or customer-owned stock
       const inventoryStock = await InventoryStock.findOne({
         itemId: item.itemId,
-        warehouseId
+        warehouseId,
+        ownerId: item.ownerId || null
       }).session(session);
 
       if (!inventoryStock) {
@@ -203,7 +380,40 @@ router.post('/issue', [
         });
       }
 
-      if (!inventoryStock.canReserve(item.quantity)) {
+      // Quantities may be entered in an alternate unit; stock moves in the base unit
+      const master = await Item.findById(item.itemId).select('unit unitConversions pickingPolicy isSerialControlled').session(session);
+      const enteredQuantity = item.quantity;
+      const enteredUnit = item.unit && master && item.unit.toUpperCase() !== master.unit.toUpperCase()
+        ? item.unit.toUpperCase()
+        : undefined;
+      if (enteredUnit) {
+        const baseQuantity = await UnitOfMeasure.toBase(master!, enteredQuantity, enteredUnit, session);
+        if (baseQuantity === null) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `품목 ${inventoryStock.itemName}: ${enteredUnit} 단위를 기준 단위(${master!.unit})로 환산할 수 없습니다.`
+          });
+        }
+        item.quantity = baseQuantity;
+      }
+
+      // Units reserved for this order are handed to the issue before availability is checked.
+      // Reservations only ever hold company stock.
+      if (order && !item.ownerId) {
+        await StockReservation.consumeForSource(
+          workOrder ? 'WORK_ORDER' : 'SALES_ORDER',
+          order._id,
+          inventoryStock,
+          item.quantity,
+          session
+        );
+      }
+
+      // Only company stock may run negative, and only where the warehouse allows it
+      const allowNegative = !!warehouse?.allowNegativeStock && !item.ownerId;
+
+      if (!inventoryStock.canReserve(item.quantity) && !allowNegative) {
         await session.abortTransaction();
         return res.status(400).json({
           status: 'error',
@@ -211,55 +421,259 @@ router.post('/issue', [
         });
       }
 
-      const previousQuantity = inventoryStock.currentQuantity;
+      // Decide which lots to draw from according to the item's picking policy
+      const policy = master?.pickingPolicy || 'FIFO';
+      let allocations;
+      let serials: ISerialNumber[] = [];
+
+      if (master?.isSerialControlled) {
+        // Serialized units only leave stock on a customer shipment; scrapping goes through the serial screen
+        if (!salesOrder) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `품목 ${inventoryStock.itemName}은(는) 일련번호 관리 품목으로 수주 출하로만 출고할 수 있습니다.`
+          });
+        }
+
+        const serialNumbers: string[] = [...new Set<string>((item.serialNumbers || []).map((serial: string) => serial.trim().toUpperCase()))];
+        if (serialNumbers.length !== item.quantity) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `품목 ${inventoryStock.itemName}의 출고 수량만큼 일련번호를 입력해야 합니다. (수량: ${item.quantity}, 일련번호: ${serialNumbers.length})`
+          });
+        }
+
+        serials = await SerialNumber.find({ serialNumber: { $in: serialNumbers }, itemId: item.itemId }).session(session);
+        const unavailable = serialNumbers.find(serialNumber =>
+          !serials.find(serial => serial.serialNumber === serialNumber && serial.isAvailable(warehouseId)));
+        if (unavailable) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `일련번호 ${unavailable}은(는) 해당 창고에서 출고할 수 있는 재고가 아닙니다.`
+          });
+        }
+
+        // The lots to draw from follow the serials being shipped
+        const quantityByLot = new Map<string | undefined, number>();
+        for (const serial of serials) {
+          quantityByLot.set(serial.lotNumber, (quantityByLot.get(serial.lotNumber) || 0) + 1);
+        }
+        allocations = [...quantityByLot].map(([batchNumber, quantity]) => ({
+          batchNumber,
+          quantity,
+          expirationDate: inventoryStock.batchNumbers?.find(b => b.batchNumber === batchNumber)?.expirationDate
+        }));
+      } else if (item.batchNumber) {
+        if (inventoryStock.isBatchExpired(item.batchNumber, posting.date)) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `품목 ${inventoryStock.itemName}의 배치 ${item.batchNumber}는 유효기간이 지나 출고할 수 없습니다.`
+          });
+        }
+        const batch = inventoryStock.batchNumbers?.find(b => b.batchNumber === item.batchNumber);
+        allocations = [{ batchNumber: item.batchNumber, quantity: item.quantity, expirationDate: batch?.expirationDate }];
+      } else if (policy === 'MANUAL' && (inventoryStock.batchNumbers?.length || 0) > 0) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          status: 'error',
+          message: `품목 ${inventoryStock.itemName}은(는) 출고할 배치를 직접 지정해야 합니다.`
+        });
+      } else {
+        const allocation = inventoryStock.allocateBatches(item.quantity, policy === 'FEFO' ? 'FEFO' : 'FIFO', posting.date);
+        if (allocation.shortfall > 0 && allowNegative) {
+          // The shortfall is issued without a lot and shows as negative stock
+          allocation.allocations.push({ quantity: allocation.shortfall });
+        } else if (allocation.shortfall > 0) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `품목 ${inventoryStock.itemName}의 유효기간 내 재고가 부족합니다. (부족: ${allocation.shortfall})`
+          });
+        }
+        allocations = allocation.allocations;
+      }
+
+      const binCode = item.binId
+        ? inventoryStock.binStocks?.find(b => b.binId.toString() === item.binId)?.binCode
+        : undefined;
 
-      // Remove stock
-      const success = inventoryStock.removeStock(item.quantity, item.batchNumber);
-      if (!success) {
+      // Pick from the requested bin, or drain bins before the quantity drops
+      if (!inventoryStock.removeFromBins(item.quantity, item.binId)) {
         await session.abortTransaction();
         return res.status(400).json({
           status: 'error',
-          message: `품목 ${inventoryStock.itemName} 출고 처리에 실패했습니다.`
+          message: `품목 ${inventoryStock.itemName}의 지정 로케이션 재고가 부족합니다.`
+        });
+      }
+
+      // One OUT transaction per lot keeps batch traceability intact
+      for (const allocation of allocations) {
+        const previousQuantity = inventoryStock.currentQuantity;
+
+        const success = inventoryStock.removeStock(allocation.quantity, allocation.batchNumber, allowNegative);
+        if (!success) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `품목 ${inventoryStock.itemName} 출고 처리에 실패했습니다.`
+          });
+        }
+
+        const transaction = new InventoryTransaction({
+          itemId: item.itemId,
+          itemName: inventoryStock.itemName,
+          itemCode: inventoryStock.itemCode,
+          warehouseId,
+          warehouseName: inventoryStock.warehouseName,
+          ownerType: inventoryStock.ownerType,
+          ownerId: inventoryStock.ownerId,
+          ownerName: inventoryStock.ownerName,
+          transactionType: 'OUT',
+          quantity: -allocation.quantity, // Negative for OUT transactions
+          enteredQuantity: enteredUnit ? -allocation.quantity * enteredQuantity / item.quantity : undefined,
+          enteredUnit,
+          unitPrice: item.unitPrice || inventoryStock.averageUnitCost,
+          previousQuantity,
+          currentQuantity: inventoryStock.currentQuantity,
+          referenceId: order?._id,
+          referenceNumber,
+          referenceType: 'ISSUE',
+          reason,
+          notes,
+          batchNumber: allocation.batchNumber,
+          expirationDate: allocation.expirationDate,
+          location: binCode,
+          transactionDate: posting.date,
+          userId: req.user.id,
+          userName: req.user.name
+        });
+
+        await transaction.save({ session });
+        transactions.push(transaction);
+
+        // A backdated issue rewrites the balances and prices of everything posted after its date
+        const { recalculation, negativeAt, closedPeriod } = await resequenceTransactions(
+          transaction,
+          allowNegative,
+          { id: req.user!._id.toString(), name: req.user!.name },
+          session
+        );
+        if (closedPeriod) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `${closedPeriod} 재고 기간이 마감되어 해당 일자로 처리할 수 없습니다.`
+          });
+        }
+        if (negativeAt) {
+          await session.abortTransaction();
+          return res.status(400).json({
+            status: 'error',
+            message: `품목 ${inventoryStock.itemName}을(를) 해당 일자로 출고하면 ${negativeAt.transactionNumber} 시점 재고가 음수가 됩니다.`
+          });
+        }
+        if (recalculation) {
+          recalculations.push(recalculation);
+        }
+
+        if (inventoryStock.ownerType === 'SUPPLIER' && inventoryStock.ownerId) {
+          const supplierKey = inventoryStock.ownerId.toString();
+          consumedConsignment.set(supplierKey, [...(consumedConsignment.get(supplierKey) || []), {
+            itemId: item.itemId,
+            itemName: inventoryStock.itemName,
+            itemCode: inventoryStock.itemCode,
+            quantity: allocation.quantity,
+            unitPrice: inventoryStock.averageUnitCost,
+            batchNumber: allocation.batchNumber
+          }]);
+        }
+
+        if (order && allocation.batchNumber) {
+          const customer = salesOrder?.customerId;
+          await new LotGenealogy({
+            lotNumber: allocation.batchNumber,
+            itemId: item.itemId,
+            itemName: inventoryStock.itemName,
+            itemCode: inventoryStock.itemCode,
+            eventType: workOrder ? 'CONSUMPTION' : 'SHIPMENT',
+            quantity: allocation.quantity,
+            warehouseId,
+            warehouseName: inventoryStock.warehouseName,
+            workOrderId: workOrder?._id,
+            workOrderNumber: workOrder?.orderNumber,
+            referenceType: workOrder ? 'WORK_ORDER' : 'SALES_ORDER',
+            referenceId: order._id,
+            referenceNumber: order.orderNumber,
+            partyId: customer?._id,
+            partyName: customer?.name,
+            createdBy: req.user!._id
+          }).save({ session });
+        }
+      }
+
+      for (const serial of serials) {
+        const customer = salesOrder!.customerId;
+        serial.set('salesOrderId', salesOrder!._id);
+        serial.salesOrderNumber = salesOrder!.orderNumber;
+        serial.set('customerId', customer?._id);
+        serial.customerName = customer?.name;
+        serial.shippedAt = new Date();
+        serial.set('warehouseId', undefined);
+        serial.warehouseName = undefined;
+        serial.recordEvent({
+          status: 'SHIPPED',
+          referenceType: 'SALES_ORDER',
+          referenceNumber: salesOrder!.orderNumber,
+          warehouseName: inventoryStock.warehouseName,
+          userId: req.user!._id,
+          userName: req.user!.name
         });
+        await serial.save({ session });
+      }
+
+      const material = workOrder?.materials.find(m => m.itemId.toString() === item.itemId);
+      if (material) {
+        material.issuedQuantity = (material.issuedQuantity || 0) + item.quantity;
       }
 
       inventoryStock.lastUpdatedBy = new mongoose.Types.ObjectId(req.user.id);
       await inventoryStock.save({ session });
+      updatedStocks.push(inventoryStock);
+    }
 
-      // Create inventory transaction record
-      const transaction = new InventoryTransaction({
-        itemId: item.itemId,
-        itemName: inventoryStock.itemName,
-        itemCode: inventoryStock.itemCode,
-        warehouseId,
-        warehouseName: inventoryStock.warehouseName,
-        transactionType: 'OUT',
-        quantity: -item.quantity, // Negative for OUT transactions
-        unitPrice: item.unitPrice || inventoryStock.averageUnitCost,
-        previousQuantity,
-        currentQuantity: inventoryStock.currentQuantity,
-        referenceNumber,
-        referenceType: 'ISSUE',
-        reason,
-        notes,
-        batchNumber: item.batchNumber,
-        userId: req.user.id,
-        userName: req.user.name
-      });
+    if (workOrder) {
+      await workOrder.save({ session });
+    }
 
-      await transaction.save({ session });
-      transactions.push(transaction);
-      updatedStocks.push(inventoryStock);
+    // Consuming consigned stock is what makes it ours, so the supplier is settled right away
+    const settlements: IConsignmentSettlement[] = [];
+    for (const [supplierId, lines] of consumedConsignment) {
+      settlements.push(await settleConsignment(
+        supplierId,
+        { id: warehouseId, name: updatedStocks[0].warehouseName },
+        lines,
+        req.user!._id.toString(),
+        session,
+        referenceNumber
+      ));
     }
 
     await session.commitTransaction();
 
     res.status(201).json({
       status: 'success',
-      message: '출고 처리가 완료되었습니다.',
+      message: settlements.length > 0
+        ? `출고 처리가 완료되었습니다. 위탁재고 정산 발주 ${settlements.length}건이 생성되었습니다.`
+        : '출고 처리가 완료되었습니다.',
       data: {
         transactions,
-        updatedStocks
+        updatedStocks,
+        settlements,
+        recalculations
       }
     });
   } catch (error) {
@@ -270,6 +684,78 @@ router.post('/issue', [
   }
 });
 
+// @desc    Get batches that are expired or expiring soon
+// @route   GET /api/inventory/expiring
+// @access  Private
+router.get('/expiring', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const { days = 30, warehouseId, includeExpired = 'true' } = req.query;
+
+    const query: any = { isActive: true, 'batchNumbers.0': { $exists: true } };
+    if (warehouseId) {
+      query.warehouseId = warehouseId;
+    }
+
+    const stocks = await InventoryStock.find(query);
+    const items = await Item.find({ _id: { $in: stocks.map(stock => stock.itemId) } })
+      .select('expiryDays pickingPolicy');
+    const itemMap = new Map(items.map(item => [item._id.toString(), item]));
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + Number(days) * 24 * 60 * 60 * 1000);
+    const batches = [];
+
+    for (const stock of stocks) {
+      const item = itemMap.get(stock.itemId.toString());
+      for (const batch of stock.batchNumbers || []) {
+        if (batch.quantity <= 0) continue;
+
+        // Lots received without an expiry date fall back to the item's shelf life
+        const expirationDate = batch.expirationDate || (item?.expiryDays
+          ? new Date(new Date(batch.receivedDate).getTime() + item.expiryDays * 24 * 60 * 60 * 1000)
+          : undefined);
+        if (!expirationDate || expirationDate > horizon) continue;
+
+        const isExpired = expirationDate < now;
+        if (isExpired && includeExpired !== 'true') continue;
+
+        batches.push({
+          itemId: stock.itemId,
+          itemName: stock.itemName,
+          itemCode: stock.itemCode,
+          warehouseId: stock.warehouseId,
+          warehouseName: stock.warehouseName,
+          batchNumber: batch.batchNumber,
+          quantity: batch.quantity,
+          value: batch.quantity * stock.averageUnitCost,
+          receivedDate: batch.receivedDate,
+          expirationDate,
+          daysRemaining: Math.ceil((expirationDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+          status: isExpired ? 'EXPIRED' : 'EXPIRING',
+          pickingPolicy: item?.pickingPolicy || 'FIFO'
+        });
+      }
+    }
+
+    batches.sort((a, b) => a.expirationDate.getTime() - b.expirationDate.getTime());
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        batches,
+        summary: {
+          expiredCount: batches.filter(batch => batch.status === 'EXPIRED').length,
+          expiringCount: batches.filter(batch => batch.status === 'EXPIRING').length,
+          expiredValue: batches.filter(batch => batch.status === 'EXPIRED').reduce((sum, batch) => sum + batch.value, 0),
+          expiringValue: batches.filter(batch => batch.status === 'EXPIRING').reduce((sum, batch) => sum + batch.value, 0)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get inventory status (for dashboard)
 // @route   GET /api/inventory/status-list
 // @access  Private
@@ -0,0 +1,509 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import { ItemTemplate, ATTRIBUTE_TYPES, IAttributeDefinition } from '../models/ItemTemplate';
+import Item from '../models/Item';
+import Company from '../models/Company';
+import { BOM } from '../models/Production';
+import { UnitOfMeasure } from '../models/UnitOfMeasure';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { generateVariants, listCombinations, normalizeAttributes } from '../jobs/variants';
+import { findCycle } from '../jobs/bom';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+const attributeValidators = (required: boolean) => [
+  (required ? body('attributes') : body('attributes').optional())
+    .isArray({ min: 1 })
+    .withMessage('At least one attribute is required'),
+  body('attributes.*.key')
+    .matches(/^[a-zA-Z][a-zA-Z0-9_]{0,29}$/)
+    .withMessage('Attribute key must start with a letter and contain only letters, digits and underscores'),
+  body('attributes.*.name')
+    .notEmpty()
+    .withMessage('Attribute name is required'),
+  body('attributes.*.type')
+    .isIn(ATTRIBUTE_TYPES)
+    .withMessage('Invalid attribute type'),
+  body('attributes.*.options')
+    .optional()
+    .isArray()
+    .withMessage('Attribute options must be an array'),
+  body('attributes.*.options.*.value')
+    .notEmpty()
+    .withMessage('Option value is required'),
+  body('attributes.*.options.*.code')
+    .matches(/^[a-zA-Z0-9]{1,10}$/)
+    .withMessage('Option code must be 1-10 letters or digits'),
+  body('attributes.*.required')
+    .optional()
+    .isBoolean()
+    .withMessage('Attribute required flag must be a boolean'),
+];
+
+// Once variants exist their codes and attribute values depend on the definitions, so attributes
+// and options can only be added: nothing existing may be removed, retyped or recoded
+const checkAttributeChange = (current: IAttributeDefinition[], next: IAttributeDefinition[]) => {
+  for (const attribute of current) {
+    const updated = next.find(candidate => candidate.key === attribute.key);
+    if (!updated || updated.type !== attribute.type) {
+      return `Attribute ${attribute.key} is used by existing variants and cannot be removed or retyped`;
+    }
+    const lostOption = (attribute.options || []).find(option =>
+      !(updated.options || []).find(candidate => candidate.value === option.value && candidate.code.toUpperCase() === option.code)
+    );
+    if (lostOption) {
+      return `Option ${lostOption.value} of attribute ${attribute.key} is used by existing variants and cannot be changed`;
+    }
+  }
+  const added = next.find(attribute => !current.find(candidate => candidate.key === attribute.key) && attribute.required !== false);
+  if (added) {
+    return `Attribute ${added.key} added after variants were generated must be optional`;
+  }
+  return null;
+};
+
+// @desc    Get item templates
+// @route   GET /api/item-templates
+// @access  Private
+router.get('/', [
+  query('category').optional().isIn(['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE']).withMessage('Invalid category'),
+  query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  query('search').optional().trim().isLength({ max: 255 }).withMessage('Search term too long'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const filter: any = {};
+    if (req.query.category) filter.category = req.query.category;
+    if (req.query.isActive !== undefined) filter.isActive = req.query.isActive === 'true';
+    if (req.query.search) {
+      filter.$or = [
+        { name: { $regex: req.query.search, $options: 'i' } },
+        { code: { $regex: req.query.search, $options: 'i' } }
+      ];
+    }
+
+    const templates = await ItemTemplate.find(filter).sort({ code: 1 });
+    const variantCounts = await Item.aggregate([
+      { $match: { templateId: { $in: templates.map(template => template._id) } } },
+      { $group: { _id: '$templateId', count: { $sum: 1 } } }
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        templates: templates.map(template => ({
+          ...template.toJSON(),
+          variantCount: variantCounts.find(entry => entry._id.toString() === template._id.toString())?.count || 0
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get item template with its variants
+// @route   GET /api/item-templates/:id
+// @access  Private
+router.get('/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const template = await ItemTemplate.findById(req.params.id).populate('supplierId', 'name type');
+    if (!template) {
+      return next(new AppError('No item template found with that ID', 404));
+    }
+
+    const variants = await Item.find({ templateId: template._id }).sort({ code: 1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template,
+        variants
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create item template
+// @route   POST /api/item-templates
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), [
+  body('code')
+    .notEmpty()
+    .withMessage('Template code is required')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 30 })
+    .withMessage('Template code cannot exceed 30 characters'),
+  body('name')
+    .notEmpty()
+    .withMessage('Template name is required')
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Template name cannot exceed 200 characters'),
+  body('category')
+    .isIn(['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE'])
+    .withMessage('Invalid category'),
+  body('supplierId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid supplier ID'),
+  body('unit')
+    .notEmpty()
+    .withMessage('Unit is required')
+    .trim()
+    .toUpperCase(),
+  body('price')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Price cannot be negative'),
+  body('cost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Cost cannot be negative'),
+  body('unitConversions')
+    .optional()
+    .isArray()
+    .withMessage('Unit conversions must be an array'),
+  ...attributeValidators(true),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    if (await ItemTemplate.exists({ code: req.body.code })) {
+      return next(new AppError('Item template with this code already exists', 400));
+    }
+
+    if (req.body.supplierId) {
+      const supplier = await Company.findById(req.body.supplierId);
+      if (!supplier || !['SUPPLIER', 'BOTH'].includes(supplier.type)) {
+        return next(new AppError('Selected company is not a supplier', 400));
+      }
+    }
+
+    const unitError = await UnitOfMeasure.checkCodes(req.body.unit, req.body.unitConversions);
+    if (unitError) {
+      return next(new AppError(unitError, 400));
+    }
+
+    const template = await ItemTemplate.create({
+      code: req.body.code,
+      name: req.body.name,
+      category: req.body.category,
+      supplierId: req.body.supplierId,
+      unit: req.body.unit,
+      unitConversions: req.body.unitConversions,
+      price: req.body.price,
+      cost: req.body.cost,
+      leadTime: req.body.leadTime,
+      pickingPolicy: req.body.pickingPolicy,
+      isSerialControlled: req.body.isSerialControlled,
+      specification: req.body.specification,
+      description: req.body.description,
+      attributes: req.body.attributes,
+      createdBy: req.user!._id
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        template
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update item template
+// @route   PATCH /api/item-templates/:id
+// @access  Private (Manager/Admin)
+router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
+  body('name')
+    .optional()
+    .notEmpty()
+    .withMessage('Template name cannot be empty')
+    .trim(),
+  body('price')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Price cannot be negative'),
+  body('cost')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Cost cannot be negative'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  ...attributeValidators(false),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const template = await ItemTemplate.findById(req.params.id);
+    if (!template) {
+      return next(new AppError('No item template found with that ID', 404));
+    }
+
+    if (req.body.attributes && await Item.exists({ templateId: template._id })) {
+      const attributeError = checkAttributeChange(template.attributes, req.body.attributes);
+      if (attributeError) {
+        return next(new AppError(attributeError, 400));
+      }
+    }
+
+    // The code and base unit are fixed: variants were generated from them. Defaults changed here
+    // apply to variants generated afterwards; existing variants are maintained as items.
+    const fields = ['name', 'supplierId', 'price', 'cost', 'leadTime', 'pickingPolicy', 'specification', 'description', 'attributes', 'isActive'];
+    for (const field of fields) {
+      if (req.body[field] !== undefined) template.set(field, req.body[field]);
+    }
+    await template.save();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Generate variant items
+// @route   POST /api/item-templates/:id/variants
+// @access  Private (Manager/Admin)
+router.post('/:id/variants', restrictTo('ADMIN', 'MANAGER'), [
+  body('combinations')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Combinations must be a non-empty array'),
+  body('combinations.*')
+    .isObject()
+    .withMessage('Each combination must be an object of attribute values'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const template = await ItemTemplate.findById(req.params.id);
+    if (!template) {
+      await session.abortTransaction();
+      return next(new AppError('No item template found with that ID', 404));
+    }
+    if (!template.isActive) {
+      await session.abortTransaction();
+      return next(new AppError('Variants cannot be generated from an inactive template', 400));
+    }
+
+    // Without explicit combinations every combination of the list options is generated
+    const combinations = req.body.combinations || listCombinations(template);
+    if (!combinations) {
+      await session.abortTransaction();
+      return next(new AppError('This template has required attributes without a fixed value list, so combinations must be given', 400));
+    }
+
+    const { created, skipped } = await generateVariants(template, combinations, req.user!._id.toString(), session);
+    await session.commitTransaction();
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        variants: created,
+        skipped
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Get the active BOM of an item template
+// @route   GET /api/item-templates/:id/bom
+// @access  Private
+router.get('/:id/bom', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const bom = await BOM.findOne({ templateId: req.params.id, isActive: true })
+      .sort({ version: -1 })
+      .populate('items.itemId', 'code name unit')
+      .populate('substitutions.itemId', 'code name unit')
+      .populate('substitutions.substituteItemId', 'code name unit')
+      .populate('substitutions.variantId', 'code name attributes');
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bom
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Define the BOM shared by all variants of an item template
+// @route   PUT /api/item-templates/:id/bom
+// @access  Private (Manager/Admin)
+router.put('/:id/bom', restrictTo('ADMIN', 'MANAGER'), [
+  body('outputQuantity')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Output quantity must be positive'),
+  body('items')
+    .isArray({ min: 1 })
+    .withMessage('At least one component is required'),
+  body('items.*.itemId')
+    .isMongoId()
+    .withMessage('Invalid component ID'),
+  body('items.*.quantity')
+    .isFloat({ gt: 0 })
+    .withMessage('Component quantity must be positive'),
+  body('items.*.unit')
+    .notEmpty()
+    .withMessage('Component unit is required'),
+  body('substitutions')
+    .optional()
+    .isArray()
+    .withMessage('Substitutions must be an array'),
+  body('substitutions.*.itemId')
+    .isMongoId()
+    .withMessage('Invalid component ID'),
+  body('substitutions.*.substituteItemId')
+    .isMongoId()
+    .withMessage('Invalid substitute component ID'),
+  body('substitutions.*.variantId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid variant ID'),
+  body('substitutions.*.quantity')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Substitute quantity must be positive'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const template = await ItemTemplate.findById(req.params.id);
+    if (!template) {
+      await session.abortTransaction();
+      return next(new AppError('No item template found with that ID', 404));
+    }
+
+    const componentIds = req.body.items.map((line: any) => line.itemId);
+    const substitutions = req.body.substitutions || [];
+    const referenced = [...componentIds, ...substitutions.map((rule: any) => rule.substituteItemId)];
+    const found = await Item.find({ _id: { $in: referenced } }).select('templateId');
+    if (new Set(referenced).size !== found.length) {
+      await session.abortTransaction();
+      return next(new AppError('One or more components do not exist', 400));
+    }
+    if (found.some(component => component.templateId?.toString() === template._id.toString())) {
+      await session.abortTransaction();
+      return next(new AppError('A variant of the template cannot be its own component', 400));
+    }
+
+    for (const rule of substitutions) {
+      if (!componentIds.includes(rule.itemId)) {
+        await session.abortTransaction();
+        return next(new AppError('A substitution must replace a component of this BOM', 400));
+      }
+      if (rule.variantId) {
+        if (!await Item.exists({ _id: rule.variantId, templateId: template._id })) {
+          await session.abortTransaction();
+          return next(new AppError('Substitution variant is not a variant of this template', 400));
+        }
+      } else {
+        const { attributes, error } = normalizeAttributes(template, rule.attributes, true);
+        if (error || !Object.keys(attributes).length) {
+          await session.abortTransaction();
+          return next(new AppError(error || 'A substitution needs a variant or attribute values to match', 400));
+        }
+        rule.attributes = attributes;
+      }
+    }
+
+    const variantIds = (await Item.find({ templateId: template._id }).select('_id')).map(variant => variant._id.toString());
+    const cycle = variantIds.length ? await findCycle(variantIds, [...new Set<string>(referenced)]) : null;
+    if (cycle) {
+      await session.abortTransaction();
+      const items = await Item.find({ _id: { $in: cycle } }).select('code');
+      const codes = cycle.map(id => items.find(item => item._id.toString() === id)?.code || id);
+      return next(new AppError(`Cyclic BOM reference: ${codes.join(' > ')} is already built from a variant of this template`, 400));
+    }
+
+    // A new definition becomes a new version; the previous one stays for history
+    const previous = await BOM.findOne({ templateId: template._id }).sort({ version: -1 }).session(session);
+    const version = (previous?.version || 0) + 1;
+    await BOM.updateMany({ templateId: template._id, isActive: true }, { isActive: false }, { session });
+
+    const [bom] = await BOM.create([{
+      bomNumber: `BOM-${template.code}-V${version}`,
+      templateId: template._id,
+      version,
+      outputQuantity: req.body.outputQuantity || 1,
+      items: req.body.items.map((line: any) => ({
+        itemId: line.itemId,
+        quantity: line.quantity,
+        unit: line.unit,
+        cost: line.cost,
+        notes: line.notes
+      })),
+      substitutions,
+      laborCost: req.body.laborCost,
+      overheadCost: req.body.overheadCost,
+      notes: req.body.notes,
+      createdBy: req.user!._id
+    }], { session });
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bom
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+export default router;
@@ -2,8 +2,12 @@ import express from 'express';
 import { body, validationResult, query } from 'express-validator';
 import Item from '../models/Item';
 import Company from '../models/Company';
+import { UnitOfMeasure } from '../models/UnitOfMeasure';
+import { InventoryTransaction } from '../models/InventoryTransaction';
 import { AppError } from '../middleware/errorHandler';
 import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { classifyItems } from '../jobs/classification';
+import { resolveBOM } from '../jobs/variants';
 
 const router = express.Router();
 
@@ -17,9 +21,15 @@ router.get('/', [
   query('category').optional().isIn(['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE']).withMessage('Invalid category'),
   query('supplierId').optional().isMongoId().withMessage('Invalid supplier ID'),
   query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  query('abcClass').optional().isIn(['A', 'B', 'C']).withMessage('Invalid ABC class'),
+  query('xyzClass').optional().isIn(['X', 'Y', 'Z']).withMessage('Invalid XYZ class'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('search').optional().trim().isLength({ max: 255 }).withMessage('Search term too long'),
+  query('templateId').optional().isMongoId().withMessage('Invalid template ID'),
+  // attributes[color]=Red&attributes[size]=L
+  query('attributes').optional().isObject().withMessage('Attribute filters must be given as attributes[key]=value'),
+  query('attributes.*').optional().isString().withMessage('Attribute filter values must be single values'),
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   try {
     // Check for validation errors
@@ -32,6 +42,10 @@ router.get('/', [
       category,
       supplierId,
       isActive,
+      abcClass,
+      xyzClass,
+      templateId,
+      attributes,
       page = 1,
       limit = 10,
       search,
@@ -44,6 +58,21 @@ router.get('/', [
     if (category) filter.category = category;
     if (supplierId) filter.supplierId = supplierId;
     if (isActive !== undefined) filter.isActive = isActive === 'true';
+    if (abcClass) filter.abcClass = abcClass;
+    if (xyzClass) filter.xyzClass = xyzClass;
+    if (templateId) filter.templateId = templateId;
+
+    // Query values arrive as strings while variant attributes are typed, so numeric and boolean
+    // spellings of the value are matched too
+    for (const [key, value] of Object.entries((attributes || {}) as Record<string, string>)) {
+      if (!/^[a-zA-Z][a-zA-Z0-9_]*$/.test(key)) {
+        return next(new AppError(`Invalid attribute key ${key}`, 400));
+      }
+      const candidates: Array<string | number | boolean> = [value];
+      if (value.trim() !== '' && Number.isFinite(Number(value))) candidates.push(Number(value));
+      if (value === 'true' || value === 'false') candidates.push(value === 'true');
+      filter[`attributes.${key}`] = { $in: candidates };
+    }
     
     if (search) {
       filter.$or = [
@@ -87,6 +116,65 @@ router.get('/', [
   }
 });
 
+// @desc    Get ABC/XYZ class matrix of active items
+// @route   GET /api/items/classification
+// @access  Private
+router.get('/classification', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const matrix = await Item.aggregate([
+      { $match: { isActive: true } },
+      {
+        $group: {
+          _id: { abcClass: '$abcClass', xyzClass: '$xyzClass' },
+          itemCount: { $sum: 1 }
+        }
+      },
+      { $sort: { '_id.abcClass': 1, '_id.xyzClass': 1 } }
+    ]);
+
+    const lastRun = await Item.findOne({ classifiedAt: { $exists: true } })
+      .sort('-classifiedAt')
+      .select('classifiedAt');
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        classifiedAt: lastRun?.classifiedAt,
+        matrix: matrix.map(cell => ({
+          abcClass: cell._id.abcClass || null,
+          xyzClass: cell._id.xyzClass || null,
+          itemCount: cell.itemCount
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Reclassify items by consumption value (ABC) and demand variability (XYZ)
+// @route   POST /api/items/classification/run
+// @access  Private (Admin/Manager)
+router.post('/classification/run', restrictTo('ADMIN', 'MANAGER'), [
+  body('months').optional().isInt({ min: 1, max: 36 }).withMessage('Months must be between 1 and 36'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const result = await classifyItems(new Date(), req.body.months ? Number(req.body.months) : undefined);
+
+    res.status(200).json({
+      status: 'success',
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get single item
 // @route   GET /api/items/:id
 // @access  Private
@@ -111,6 +199,44 @@ router.get('/:id', async (req: AuthRequest, res: express.Response, next: express
   }
 });
 
+// @desc    Get the components of an item, resolving template BOMs for variants
+// @route   GET /api/items/:id/bom
+// @access  Private
+router.get('/:id/bom', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const item = await Item.findById(req.params.id);
+    if (!item) {
+      return next(new AppError('No item found with that ID', 404));
+    }
+
+    const { bom, lines, error } = await resolveBOM(item);
+    if (error) {
+      return next(new AppError(error, 400));
+    }
+
+    const components = await Item.find({ _id: { $in: lines.map(line => line.itemId) } }).select('code name unit');
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bom: bom && {
+          _id: bom._id,
+          bomNumber: bom.bomNumber,
+          version: bom.version,
+          outputQuantity: bom.outputQuantity,
+          fromTemplate: !!bom.templateId
+        },
+        lines: lines.map(line => ({
+          ...line,
+          item: components.find(component => component._id.toString() === line.itemId)
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Create new item
 // @route   POST /api/items
 // @access  Private (Manager/Admin)
@@ -141,6 +267,7 @@ router.post('/', restrictTo('ADMIN', 'MANAGER'), [
     .notEmpty()
     .withMessage('Unit is required')
     .trim()
+    .toUpperCase()
     .isLength({ max: 20 })
     .withMessage('Unit cannot exceed 20 characters'),
   body('price')
@@ -169,6 +296,28 @@ router.post('/', restrictTo('ADMIN', 'MANAGER'), [
     .optional()
     .isInt({ min: 0 })
     .withMessage('Maximum stock must be a non-negative integer'),
+  body('expiryDays')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Expiry days must be a non-negative integer'),
+  body('pickingPolicy')
+    .optional()
+    .isIn(['FIFO', 'FEFO', 'MANUAL'])
+    .withMessage('Invalid picking policy'),
+  body('unitConversions')
+    .optional()
+    .isArray()
+    .withMessage('Unit conversions must be an array'),
+  body('unitConversions.*.unit')
+    .notEmpty()
+    .withMessage('Conversion unit is required'),
+  body('unitConversions.*.factor')
+    .isFloat({ gt: 0 })
+    .withMessage('Conversion factor must be a positive number'),
+  body('isSerialControlled')
+    .optional()
+    .isBoolean()
+    .withMessage('Serial control flag must be a boolean'),
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   try {
     // Check for validation errors
@@ -177,6 +326,11 @@ router.post('/', restrictTo('ADMIN', 'MANAGER'), [
       return next(new AppError(errors.array()[0].msg, 400));
     }
 
+    // Variants are generated from their item template
+    if (req.body.templateId !== undefined || req.body.attributes !== undefined) {
+      return next(new AppError('Variant items are created through their item template', 400));
+    }
+
     // Check if item with same code already exists
     const existingItem = await Item.findOne({ code: req.body.code });
     if (existingItem) {
@@ -194,6 +348,11 @@ router.post('/', restrictTo('ADMIN', 'MANAGER'), [
       }
     }
 
+    const unitError = await UnitOfMeasure.checkCodes(req.body.unit, req.body.unitConversions);
+    if (unitError) {
+      return next(new AppError(unitError, 400));
+    }
+
     // Validate max stock vs min stock
     if (req.body.maxStock && req.body.minStock && req.body.maxStock < req.body.minStock) {
       return next(new AppError('Maximum stock must be greater than or equal to minimum stock', 400));
@@ -247,6 +406,14 @@ router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
     .optional()
     .isMongoId()
     .withMessage('Invalid supplier ID'),
+  body('unit')
+    .optional()
+    .notEmpty()
+    .withMessage('Unit cannot be empty')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 20 })
+    .withMessage('Unit cannot exceed 20 characters'),
   body('price')
     .optional()
     .isNumeric()
@@ -267,6 +434,28 @@ router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
       }
       return true;
     }),
+  body('expiryDays')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Expiry days must be a non-negative integer'),
+  body('pickingPolicy')
+    .optional()
+    .isIn(['FIFO', 'FEFO', 'MANUAL'])
+    .withMessage('Invalid picking policy'),
+  body('unitConversions')
+    .optional()
+    .isArray()
+    .withMessage('Unit conversions must be an array'),
+  body('unitConversions.*.unit')
+    .notEmpty()
+    .withMessage('Conversion unit is required'),
+  body('unitConversions.*.factor')
+    .isFloat({ gt: 0 })
+    .withMessage('Conversion factor must be a positive number'),
+  body('isSerialControlled')
+    .optional()
+    .isBoolean()
+    .withMessage('Serial control flag must be a boolean'),
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   try {
     // Check for validation errors
@@ -281,6 +470,10 @@ router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
       return next(new AppError('No item found with that ID', 404));
     }
 
+    if (req.body.templateId !== undefined || req.body.attributes !== undefined) {
+      return next(new AppError('Variant attributes are defined by the item template and cannot be edited', 400));
+    }
+
     // Check if trying to update code to existing code
     if (req.body.code && req.body.code !== item.code) {
       const existingItem = await Item.findOne({ code: req.body.code });
@@ -300,6 +493,22 @@ router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
       }
     }
 
+    if (req.body.unit !== undefined || req.body.unitConversions !== undefined) {
+      const unitError = await UnitOfMeasure.checkCodes(req.body.unit ?? item.unit, req.body.unitConversions ?? item.unitConversions);
+      if (unitError) {
+        return next(new AppError(unitError, 400));
+      }
+    }
+
+    // Stock quantities are kept in the base unit, so it is fixed once stock has moved
+    if (
+      req.body.unit !== undefined &&
+      req.body.unit.trim().toUpperCase() !== item.unit.toUpperCase() &&
+      await InventoryTransaction.exists({ itemId: item._id })
+    ) {
+      return next(new AppError('Base unit cannot be changed after the item has inventory transactions', 400));
+    }
+
     // Validate max stock vs min stock
     const minStock = req.body.minStock !== undefined ? req.body.minStock : item.minStock;
     const maxStock = req.body.maxStock !== undefined ? req.body.maxStock : item.maxStock;
@@ -0,0 +1,262 @@
+import express from 'express';
+import { protect, AuthRequest } from '../middleware/auth';
+import { Item } from '../models/Item';
+import { InventoryStock } from '../models/InventoryStock';
+import { StorageBin } from '../models/StorageBin';
+import { Warehouse } from '../models/Warehouse';
+import { WorkOrder, OPEN_WORK_ORDER_STATUSES } from '../models/WorkOrder';
+import { query, validationResult } from 'express-validator';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+type LabelType = 'ITEM' | 'LOT' | 'BIN' | 'WORK_ORDER';
+
+interface ILabel {
+  key: string;
+  type: LabelType;
+  title: string;
+  code: string;
+  details: string[];
+  payload: string;
+}
+
+const LABEL_LIMIT = 200;
+
+// What a label encodes. Items print their own barcode when they have one so supplier labels
+// scan the same way; everything else carries a prefix naming what was scanned.
+const payloadFor = {
+  item: (item: { code: string; barcode?: string }) => item.barcode || `ITEM:${item.code}`,
+  lot: (itemCode: string, lotNumber: string) => `LOT:${itemCode}:${lotNumber}`,
+  bin: (warehouseCode: string, binCode: string) => `BIN:${warehouseCode}:${binCode}`,
+  workOrder: (orderNumber: string) => `WO:${orderNumber}`
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const formatDate = (date?: Date) => date ? date.toISOString().split('T')[0] : undefined;
+
+// @desc    Get label data for items, lots, bins or work orders
+// @route   GET /api/inventory/labels
+// @access  Private
+router.get('/', [
+  query('type').isIn(['ITEM', 'LOT', 'BIN', 'WORK_ORDER']).withMessage('유효한 라벨 유형이 필요합니다.'),
+  query('warehouseId').optional().isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('검색어가 너무 깁니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const type = req.query.type as LabelType;
+    const warehouseId = req.query.warehouseId as string | undefined;
+    const search = req.query.search ? new RegExp(escapeRegex(req.query.search as string), 'i') : null;
+    let labels: ILabel[] = [];
+
+    if (type === 'ITEM') {
+      const itemQuery: any = { isActive: true };
+      if (search) itemQuery.$or = [{ code: search }, { name: search }, { barcode: search }];
+
+      const items = await Item.find(itemQuery).select('code name unit specification barcode').sort({ code: 1 }).limit(LABEL_LIMIT);
+      labels = items.map(item => ({
+        key: item._id.toString(),
+        type,
+        title: item.name,
+        code: item.code,
+        details: [item.specification, item.unit].filter((detail): detail is string => !!detail),
+        payload: payloadFor.item(item)
+      }));
+    }
+
+    if (type === 'LOT') {
+      const stockQuery: any = { isActive: true, 'batchNumbers.0': { $exists: true } };
+      if (warehouseId) stockQuery.warehouseId = warehouseId;
+
+      const stocks = await InventoryStock.find(stockQuery).sort({ itemCode: 1 });
+      const seen = new Set<string>();
+      for (const stock of stocks) {
+        for (const batch of stock.batchNumbers || []) {
+          const itemCode = stock.itemCode || '';
+          const key = `${stock.itemId}-${batch.batchNumber}`;
+          if (batch.quantity <= 0 || seen.has(key)) continue;
+          if (search && !search.test(batch.batchNumber) && !search.test(itemCode) && !search.test(stock.itemName)) continue;
+          seen.add(key);
+
+          labels.push({
+            key,
+            type,
+            title: stock.itemName,
+            code: batch.batchNumber,
+            details: [
+              itemCode,
+              batch.expirationDate ? `유효기간 ${formatDate(batch.expirationDate)}` : '',
+              `입고 ${formatDate(batch.receivedDate)}`
+            ].filter(Boolean),
+            payload: payloadFor.lot(itemCode, batch.batchNumber)
+          });
+        }
+      }
+      labels = labels.slice(0, LABEL_LIMIT);
+    }
+
+    if (type === 'BIN') {
+      const binQuery: any = { isActive: true };
+      if (warehouseId) binQuery.warehouseId = warehouseId;
+      if (search) binQuery.code = search;
+
+      const bins = await StorageBin.find(binQuery).sort({ code: 1 }).limit(LABEL_LIMIT);
+      const warehouses = await Warehouse.find({ _id: { $in: bins.map(bin => bin.warehouseId) } }).select('code name');
+      labels = bins.map(bin => {
+        const warehouse = warehouses.find(w => w._id.toString() === bin.warehouseId.toString());
+        return {
+          key: bin._id.toString(),
+          type,
+          title: bin.code,
+          code: bin.code,
+          details: [warehouse?.name || '', `${bin.zone}-${bin.aisle}-${bin.rack}-${bin.bin}`].filter(Boolean),
+          payload: payloadFor.bin(warehouse?.code || '', bin.code)
+        };
+      });
+    }
+
+    if (type === 'WORK_ORDER') {
+      const orderQuery: any = { isActive: true, status: { $in: OPEN_WORK_ORDER_STATUSES } };
+      if (search) orderQuery.orderNumber = search;
+
+      const orders = await WorkOrder.find(orderQuery)
+        .populate('itemId', 'code name')
+        .sort({ startDate: 1 })
+        .limit(LABEL_LIMIT);
+      labels = orders.map(order => {
+        const item = order.itemId as any;
+        return {
+          key: order._id.toString(),
+          type,
+          title: item?.name || order.orderNumber,
+          code: order.orderNumber,
+          details: [
+            `${order.quantity.toLocaleString()} ${order.unit}`,
+            `납기 ${formatDate(order.endDate)}`
+          ],
+          payload: payloadFor.workOrder(order.orderNumber)
+        };
+      });
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: { labels }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Resolve a scanned label to the item, lot, bin or work order it stands for
+// @route   GET /api/inventory/labels/scan
+// @access  Private
+router.get('/scan', [
+  query('code').trim().notEmpty().withMessage('스캔한 코드가 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const code = (req.query.code as string).trim();
+    const [prefix, ...rest] = code.split(':');
+    const notFound = () => res.status(404).json({
+      status: 'error',
+      message: `스캔한 코드(${code})에 해당하는 정보를 찾을 수 없습니다.`
+    });
+
+    if (prefix === 'LOT' && rest.length >= 2) {
+      const [itemCode, ...lotParts] = rest;
+      const lotNumber = lotParts.join(':');
+      const item = await Item.findOne({ code: itemCode.toUpperCase(), isActive: true }).select('code name unit');
+      if (!item) return notFound();
+
+      const stocks = await InventoryStock.find({ itemId: item._id, isActive: true, 'batchNumbers.batchNumber': lotNumber })
+        .select('warehouseId warehouseName batchNumbers');
+      const batch = stocks.flatMap(stock => stock.batchNumbers || []).find(b => b.batchNumber === lotNumber);
+
+      return res.status(200).json({
+        status: 'success',
+        data: {
+          type: 'LOT',
+          item,
+          lotNumber,
+          expirationDate: batch?.expirationDate,
+          warehouses: stocks.map(stock => ({ _id: stock.warehouseId, name: stock.warehouseName }))
+        }
+      });
+    }
+
+    if (prefix === 'BIN' && rest.length >= 2) {
+      const [warehouseCode, ...binParts] = rest;
+      const warehouse = await Warehouse.findOne({ code: warehouseCode.toUpperCase(), isActive: true }).select('code name');
+      const bin = warehouse
+        ? await StorageBin.findOne({ warehouseId: warehouse._id, code: binParts.join(':').toUpperCase(), isActive: true }).select('code')
+        : null;
+      if (!warehouse || !bin) return notFound();
+
+      return res.status(200).json({
+        status: 'success',
+        data: {
+          type: 'BIN',
+          bin: { _id: bin._id, code: bin.code },
+          warehouse: { _id: warehouse._id, code: warehouse.code, name: warehouse.name }
+        }
+      });
+    }
+
+    if (prefix === 'WO' && rest.length >= 1) {
+      const workOrder = await WorkOrder.findOne({ orderNumber: rest.join(':'), isActive: true })
+        .select('orderNumber status itemId')
+        .populate('itemId', 'code name unit');
+      if (!workOrder) return notFound();
+
+      return res.status(200).json({
+        status: 'success',
+        data: {
+          type: 'WORK_ORDER',
+          workOrder: { _id: workOrder._id, orderNumber: workOrder.orderNumber, status: workOrder.status },
+          item: workOrder.itemId
+        }
+      });
+    }
+
+    // Unprefixed codes are manufacturer barcodes or item codes typed in by hand
+    const itemCode = prefix === 'ITEM' && rest.length >= 1 ? rest.join(':') : code;
+    const item = await Item.findOne({
+      isActive: true,
+      $or: [{ barcode: code }, { code: itemCode.toUpperCase() }]
+    }).select('code name unit');
+    if (!item) return notFound();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        type: 'ITEM',
+        item
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
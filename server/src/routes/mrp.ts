@@ -0,0 +1,218 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, param, query, validationResult } from 'express-validator';
+import { MrpRun } from '../models/MrpRun';
+import { runMrp, firmPlannedOrders } from '../jobs/mrp';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+router.use(protect);
+
+// @desc    Get MRP runs, newest first, with planned and firmed order counts
+// @route   GET /api/production/mrp/runs
+// @access  Private
+router.get('/runs', [
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const runs = await MrpRun.find()
+      .select('-items -plannedOrders.pegging')
+      .populate('createdBy', 'name email')
+      .sort({ runDate: -1 })
+      .limit(Number(req.query.limit || 20));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        runs: runs.map(run => {
+          const { plannedOrders, ...summary } = run.toObject();
+          return {
+            ...summary,
+            plannedOrderCount: plannedOrders.length,
+            firmedOrderCount: plannedOrders.filter(order => order.status === 'FIRMED').length,
+            lateOrderCount: plannedOrders.filter(order => order.isLate && order.status === 'PLANNED').length
+          };
+        })
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Run MRP over the current demand and supply
+// @route   POST /api/production/mrp/runs
+// @access  Private (Manager/Admin)
+router.post('/runs', restrictTo('ADMIN', 'MANAGER'), [
+  body('horizonDays').optional().isInt({ min: 1, max: 730 }).withMessage('Horizon must be between 1 and 730 days'),
+  body('includeSafetyStock').optional().isBoolean().withMessage('includeSafetyStock must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const run = await runMrp(req.user!._id.toString(), {
+      horizonDays: req.body.horizonDays !== undefined ? Number(req.body.horizonDays) : undefined,
+      includeSafetyStock: req.body.includeSafetyStock
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: { run }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get one MRP run with its planned orders and item netting
+// @route   GET /api/production/mrp/runs/:id
+// @access  Private
+router.get('/runs/:id', [
+  param('id').isMongoId().withMessage('Invalid MRP run ID'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const run = await MrpRun.findById(req.params.id)
+      .populate('plannedOrders.supplierId', 'name')
+      .populate('createdBy', 'name email');
+    if (!run) {
+      return next(new AppError('No MRP run found with that ID', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: { run }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Pegging report: the demands behind each planned order of a run
+// @route   GET /api/production/mrp/runs/:id/pegging
+// @access  Private
+router.get('/runs/:id/pegging', [
+  param('id').isMongoId().withMessage('Invalid MRP run ID'),
+  query('itemId').optional().isMongoId().withMessage('Invalid item ID'),
+  query('sourceNumber').optional().trim().isLength({ max: 50 }).withMessage('Source number too long'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const run = await MrpRun.findById(req.params.id).select('runNumber plannedOrders');
+    if (!run) {
+      return next(new AppError('No MRP run found with that ID', 404));
+    }
+
+    const { itemId, sourceNumber } = req.query;
+    const rows = run.plannedOrders
+      .filter(order => !itemId || order.itemId.toString() === itemId)
+      .flatMap(order => order.pegging
+        .filter(peg => !sourceNumber || peg.sourceNumber === String(sourceNumber).toUpperCase())
+        .map(peg => ({
+          plannedOrderId: order._id,
+          itemCode: order.itemCode,
+          itemName: order.itemName,
+          unit: order.unit,
+          level: order.level,
+          orderType: order.orderType,
+          plannedQuantity: order.quantity,
+          releaseDate: order.releaseDate,
+          dueDate: order.dueDate,
+          status: order.status,
+          firmedNumber: order.firmedNumber,
+          demandType: peg.demandType,
+          sourceId: peg.sourceId,
+          sourceNumber: peg.sourceNumber,
+          demandItemCode: peg.demandItemCode,
+          demandDate: peg.demandDate,
+          parentItemCode: peg.parentItemCode,
+          quantity: peg.quantity
+        })));
+
+    res.status(200).json({
+      status: 'success',
+      data: { runNumber: run.runNumber, pegging: rows }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Firm planned orders into draft purchase requests and work orders; all open ones when
+//          no IDs are given
+// @route   POST /api/production/mrp/runs/:id/firm
+// @access  Private (Manager/Admin)
+router.post('/runs/:id/firm', restrictTo('ADMIN', 'MANAGER'), [
+  param('id').isMongoId().withMessage('Invalid MRP run ID'),
+  body('plannedOrderIds').optional().isArray({ min: 1 }).withMessage('Select at least one planned order'),
+  body('plannedOrderIds.*').optional().isMongoId().withMessage('Invalid planned order ID'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const run = await MrpRun.findById(req.params.id).session(session);
+    if (!run) {
+      await session.abortTransaction();
+      return next(new AppError('No MRP run found with that ID', 404));
+    }
+
+    const plannedOrderIds: string[] | undefined = req.body.plannedOrderIds;
+    const unknown = (plannedOrderIds || []).filter(id => !run.plannedOrders.id(id));
+    if (unknown.length) {
+      await session.abortTransaction();
+      return next(new AppError('Some planned orders do not belong to this run', 400));
+    }
+
+    // Firming from a superseded run would plan against demand and supply that have since changed
+    const latest = await MrpRun.findOne().sort({ runDate: -1 }).select('_id').session(session);
+    if (latest?._id.toString() !== run._id.toString()) {
+      await session.abortTransaction();
+      return next(new AppError('Only planned orders of the latest MRP run can be firmed', 400));
+    }
+
+    const { requests, workOrders } = await firmPlannedOrders(run, plannedOrderIds, req.user!._id.toString(), session);
+    if (!requests.length && !workOrders.length) {
+      await session.abortTransaction();
+      return next(new AppError('No planned orders left to firm', 400));
+    }
+
+    await run.save({ session });
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { run, requests, workOrders }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+export default router;
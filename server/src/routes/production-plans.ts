@@ -1,7 +1,11 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import { body, query, validationResult } from 'express-validator';
 import ProductionPlan from '../models/ProductionPlan';
 import Item from '../models/Item';
+import { WorkCenter } from '../models/WorkCenter';
+import { WorkOrder } from '../models/WorkOrder';
+import { splitPlan } from '../jobs/production-plans';
 import { protect, AuthRequest } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import * as ExcelJS from 'exceljs';
@@ -9,6 +13,15 @@ import * as ExcelJS from 'exceljs';
 const router = express.Router();
 router.use(protect);
 
+// Produced quantity rolls up from the plan's work orders and the number is generated
+const ROLLED_UP_FIELDS = ['producedQuantity', 'planNumber'];
+
+const checkWorkCenters = async (workCenterIds?: string[]) => {
+  if (!workCenterIds?.length) return null;
+  const count = await WorkCenter.countDocuments({ _id: { $in: workCenterIds }, isActive: true });
+  return count === new Set(workCenterIds).size ? null : 'Work center not found or inactive';
+};
+
 // @desc    Get all production plans
 // @route   GET /api/production-plans
 // @access  Private
@@ -131,6 +144,8 @@ router.post('/', [
   body('startDate').isISO8601().withMessage('Valid start date is required'),
   body('endDate').isISO8601().withMessage('Valid end date is required'),
   body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).withMessage('Invalid priority'),
+  body('workCenterIds').optional().isArray().withMessage('Work centers must be an array'),
+  body('workCenterIds.*').isMongoId().withMessage('Invalid work center ID'),
   body('description').optional().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
   body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
@@ -140,7 +155,7 @@ router.post('/', [
       return next(new AppError(errors.array()[0].msg, 400));
     }
 
-    const { itemId, plannedQuantity, startDate, endDate, priority, description, notes } = req.body;
+    const { itemId, plannedQuantity, startDate, endDate, priority, workCenterIds, description, notes } = req.body;
 
     // Validate dates
     const start = new Date(startDate);
@@ -160,6 +175,11 @@ router.post('/', [
       return next(new AppError('Item not found', 404));
     }
 
+    const workCenterError = await checkWorkCenters(workCenterIds);
+    if (workCenterError) {
+      return next(new AppError(workCenterError, 400));
+    }
+
     // Create production plan
     const productionPlan = await ProductionPlan.create({
       itemId,
@@ -169,6 +189,7 @@ router.post('/', [
       startDate: start,
       endDate: end,
       priority: priority || 'MEDIUM',
+      workCenterIds: workCenterIds || [],
       description,
       notes,
       createdBy: req.user!._id,
@@ -197,6 +218,8 @@ router.put('/:id', [
   body('endDate').optional().isISO8601().withMessage('Valid end date is required'),
   body('priority').optional().isIn(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).withMessage('Invalid priority'),
   body('status').optional().isIn(['DRAFT', 'APPROVED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']).withMessage('Invalid status'),
+  body('workCenterIds').optional().isArray().withMessage('Work centers must be an array'),
+  body('workCenterIds.*').isMongoId().withMessage('Invalid work center ID'),
   body('description').optional().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
   body('notes').optional().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
@@ -221,7 +244,14 @@ router.put('/:id', [
       return next(new AppError('Cannot update completed or cancelled production plan', 400));
     }
 
-    const updateData = req.body;
+    const updateData = Object.fromEntries(
+      Object.entries(req.body).filter(([field]) => !ROLLED_UP_FIELDS.includes(field))
+    ) as Record<string, any>;
+
+    const workCenterError = await checkWorkCenters(updateData.workCenterIds);
+    if (workCenterError) {
+      return next(new AppError(workCenterError, 400));
+    }
 
     // Validate dates if provided
     if (updateData.startDate || updateData.endDate) {
@@ -250,115 +280,149 @@ router.put('/:id', [
   }
 });
 
-// @desc    Approve production plan
+// @desc    Approve production plan and split it into work orders
 // @route   PATCH /api/production-plans/:id/approve
 // @access  Private
-router.patch('/:id/approve', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+router.patch('/:id/approve', [
+  body('workCenterIds').optional().isArray().withMessage('Work centers must be an array'),
+  body('workCenterIds.*').isMongoId().withMessage('Invalid work center ID')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
     const plan = await ProductionPlan.findOne({
       _id: req.params.id,
       companyId: req.user!.companyId,
       isActive: true
-    });
+    }).session(session);
 
     if (!plan) {
+      await session.abortTransaction();
       return next(new AppError('Production plan not found', 404));
     }
 
     if (plan.status !== 'DRAFT') {
+      await session.abortTransaction();
       return next(new AppError('Only draft plans can be approved', 400));
     }
 
+    if (req.body.workCenterIds) {
+      const workCenterError = await checkWorkCenters(req.body.workCenterIds);
+      if (workCenterError) {
+        await session.abortTransaction();
+        return next(new AppError(workCenterError, 400));
+      }
+      plan.workCenterIds = req.body.workCenterIds;
+    }
+
     plan.status = 'APPROVED';
     plan.approvedBy = req.user!._id;
     plan.approvedAt = new Date();
-    await plan.save();
+    await plan.save({ session });
+
+    const { workOrders, warnings, error } = await splitPlan(plan, req.user!._id.toString(), session);
+    if (error) {
+      await session.abortTransaction();
+      return next(new AppError(error, 400));
+    }
+
+    await session.commitTransaction();
 
     await plan.populate('approvedBy', 'name email');
 
     res.status(200).json({
       success: true,
       data: plan,
+      workOrders,
+      warnings,
       message: 'Production plan approved successfully'
     });
   } catch (error) {
+    await session.abortTransaction();
     next(error);
+  } finally {
+    session.endSession();
   }
 });
 
-// @desc    Start production plan
+// @desc    Start production plan, splitting it first if it has no work orders yet
 // @route   PATCH /api/production-plans/:id/start
 // @access  Private
 router.patch('/:id/start', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
   try {
     const plan = await ProductionPlan.findOne({
       _id: req.params.id,
       companyId: req.user!.companyId,
       isActive: true
-    });
+    }).session(session);
 
     if (!plan) {
+      await session.abortTransaction();
       return next(new AppError('Production plan not found', 404));
     }
 
     if (plan.status !== 'APPROVED') {
+      await session.abortTransaction();
       return next(new AppError('Only approved plans can be started', 400));
     }
 
     plan.status = 'IN_PROGRESS';
-    await plan.save();
+    await plan.save({ session });
+
+    const { workOrders, warnings, error } = await splitPlan(plan, req.user!._id.toString(), session);
+    if (error) {
+      await session.abortTransaction();
+      return next(new AppError(error, 400));
+    }
+
+    await session.commitTransaction();
 
     res.status(200).json({
       success: true,
       data: plan,
+      workOrders,
+      warnings,
       message: 'Production plan started successfully'
     });
   } catch (error) {
+    await session.abortTransaction();
     next(error);
+  } finally {
+    session.endSession();
   }
 });
 
-// @desc    Update production quantity
-// @route   PATCH /api/production-plans/:id/production
+// @desc    Get work orders split from a production plan
+// @route   GET /api/production-plans/:id/work-orders
 // @access  Private
-router.patch('/:id/production', [
-  body('producedQuantity').isInt({ min: 0 }).withMessage('Produced quantity must be non-negative')
-], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+router.get('/:id/work-orders', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return next(new AppError(errors.array()[0].msg, 400));
-    }
-
-    const { producedQuantity } = req.body;
-
     const plan = await ProductionPlan.findOne({
       _id: req.params.id,
       companyId: req.user!.companyId,
       isActive: true
-    });
+    }).select('_id');
 
     if (!plan) {
       return next(new AppError('Production plan not found', 404));
     }
 
-    if (plan.status !== 'IN_PROGRESS') {
-      return next(new AppError('Can only update production for in-progress plans', 400));
-    }
-
-    plan.producedQuantity = producedQuantity;
-
-    // Auto-complete if target reached
-    if (producedQuantity >= plan.plannedQuantity) {
-      plan.status = 'COMPLETED';
-    }
-
-    await plan.save();
+    const workOrders = await WorkOrder.find({ productionPlanId: plan._id, isActive: true })
+      .populate('workCenterId', 'code name dailyCapacity')
+      .sort({ orderNumber: 1 })
+      .lean();
 
     res.status(200).json({
       success: true,
-      data: plan,
-      message: 'Production quantity updated successfully'
+      data: workOrders
     });
   } catch (error) {
     next(error);
@@ -1,17 +1,47 @@
 import express from 'express';
-import { body, validationResult, query } from 'express-validator';
-import { WorkOrder } from '../models/WorkOrder';
+import mongoose from 'mongoose';
+import { body, param, validationResult, query } from 'express-validator';
+import { WorkOrder, WORK_ORDER_STATUSES } from '../models/WorkOrder';
+import { BOM } from '../models/Production';
+import { Warehouse } from '../models/Warehouse';
+import { Item } from '../models/Item';
+import { InventoryStock } from '../models/InventoryStock';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+import { LotGenealogy } from '../models/LotGenealogy';
+import { SerialNumber } from '../models/SerialNumber';
+import { StockReservation } from '../models/StockReservation';
+import { rollUpPlan } from '../jobs/production-plans';
+import { resolvePostingDate, resequenceTransactions } from '../jobs/backdating';
+import { workOrderOperations, operationWip } from '../jobs/work-orders';
 import { AppError } from '../middleware/errorHandler';
 import { protect, restrictTo, AuthRequest } from '../middleware/auth';
 
 const router = express.Router();
 router.use(protect);
 
+// Status and its timestamps only change through the lifecycle endpoints, and operations are
+// copied from the routing and only change through operation reports
+const LIFECYCLE_FIELDS = ['status', 'releasedAt', 'closedAt', 'actualStartDate', 'actualEndDate', 'routingId', 'operations'];
+
+const editableFields = (body: Record<string, any>) =>
+  Object.fromEntries(Object.entries(body).filter(([field]) => !LIFECYCLE_FIELDS.includes(field)));
+
+// The BOM must build the work order's item, directly or through the item's template
+const checkBOM = async (bomId: string, itemId: string) => {
+  const item = await Item.findById(itemId).select('templateId');
+  if (!item) {
+    return 'No item found with that ID';
+  }
+  const owners: any[] = [{ productId: item._id }];
+  if (item.templateId) owners.push({ templateId: item.templateId });
+  return await BOM.exists({ _id: bomId, $or: owners }) ? null : 'The BOM does not build this item';
+};
+
 // @desc    Get all work orders
 // @route   GET /api/production/work-orders
 // @access  Private
 router.get('/work-orders', [
-  query('status').optional().isIn(['PENDING', 'IN_PROGRESS', 'COMPLETED', 'PAUSED', 'CANCELLED']).withMessage('Invalid status'),
+  query('status').optional().isIn(WORK_ORDER_STATUSES).withMessage('Invalid status'),
   query('workCenter').optional().trim().isLength({ max: 100 }).withMessage('Work center name too long'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
@@ -75,6 +105,7 @@ router.get('/work-orders/:id', async (req: AuthRequest, res: express.Response, n
   try {
     const workOrder = await WorkOrder.findById(req.params.id)
       .populate('itemId', 'code name unit specification')
+      .populate('bomId', 'bomNumber version')
       .populate('supervisorId', 'name employeeNumber department')
       .populate({
         path: 'materials.itemId',
@@ -100,11 +131,13 @@ router.get('/work-orders/:id', async (req: AuthRequest, res: express.Response, n
 // @access  Private (Manager/Admin)
 router.post('/work-orders', restrictTo('ADMIN', 'MANAGER'), [
   body('itemId').isMongoId().withMessage('Invalid item ID'),
+  body('bomId').optional().isMongoId().withMessage('Invalid BOM ID'),
   body('quantity').isFloat({ gt: 0 }).withMessage('Quantity must be positive'),
   body('unit').notEmpty().trim().withMessage('Unit is required'),
   body('workCenter').notEmpty().trim().withMessage('Work center is required'),
   body('startDate').isISO8601().withMessage('Invalid start date'),
   body('endDate').isISO8601().withMessage('Invalid end date'),
+  body('dueDate').optional().isISO8601().withMessage('Invalid due date'),
   body('priority').optional().isIn(['LOW', 'NORMAL', 'HIGH', 'URGENT']).withMessage('Invalid priority'),
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   try {
@@ -121,8 +154,18 @@ router.post('/work-orders', restrictTo('ADMIN', 'MANAGER'), [
       return next(new AppError('End date must be after start date', 400));
     }
 
+    if (req.body.bomId) {
+      const bomError = await checkBOM(req.body.bomId, req.body.itemId);
+      if (bomError) {
+        return next(new AppError(bomError, 400));
+      }
+    }
+
+    const { routing, operations } = await workOrderOperations(req.body.itemId, startDate);
     const workOrderData = {
-      ...req.body,
+      ...editableFields(req.body),
+      routingId: routing?._id,
+      operations,
       createdBy: req.user!._id
     };
 
@@ -145,10 +188,12 @@ router.post('/work-orders', restrictTo('ADMIN', 'MANAGER'), [
 // @route   PATCH /api/production/work-orders/:id
 // @access  Private (Manager/Admin)
 router.patch('/work-orders/:id', restrictTo('ADMIN', 'MANAGER'), [
+  body('bomId').optional().isMongoId().withMessage('Invalid BOM ID'),
   body('quantity').optional().isFloat({ gt: 0 }).withMessage('Quantity must be positive'),
   body('workCenter').optional().notEmpty().trim().withMessage('Work center cannot be empty'),
   body('startDate').optional().isISO8601().withMessage('Invalid start date'),
   body('endDate').optional().isISO8601().withMessage('Invalid end date'),
+  body('dueDate').optional().isISO8601().withMessage('Invalid due date'),
   body('priority').optional().isIn(['LOW', 'NORMAL', 'HIGH', 'URGENT']).withMessage('Invalid priority'),
   body('completedQuantity').optional().isFloat({ min: 0 }).withMessage('Completed quantity cannot be negative'),
   body('defectQuantity').optional().isFloat({ min: 0 }).withMessage('Defect quantity cannot be negative'),
@@ -163,6 +208,16 @@ router.patch('/work-orders/:id', restrictTo('ADMIN', 'MANAGER'), [
     if (!workOrder) {
       return next(new AppError('No work order found with that ID', 404));
     }
+    if (['CLOSED', 'CANCELLED'].includes(workOrder.status)) {
+      return next(new AppError('Closed or cancelled work orders cannot be changed', 400));
+    }
+
+    if (req.body.bomId) {
+      const bomError = await checkBOM(req.body.bomId, workOrder.itemId.toString());
+      if (bomError) {
+        return next(new AppError(bomError, 400));
+      }
+    }
 
     // Validate dates if provided
     const startDate = req.body.startDate ? new Date(req.body.startDate) : workOrder.startDate;
@@ -174,7 +229,7 @@ router.patch('/work-orders/:id', restrictTo('ADMIN', 'MANAGER'), [
 
     const updatedWorkOrder = await WorkOrder.findByIdAndUpdate(
       req.params.id,
-      { ...req.body, updatedBy: req.user!._id },
+      { ...editableFields(req.body), updatedBy: req.user!._id },
       { new: true, runValidators: true }
     ).populate([
       { path: 'itemId', select: 'code name unit' },
@@ -190,6 +245,70 @@ router.patch('/work-orders/:id', restrictTo('ADMIN', 'MANAGER'), [
   }
 });
 
+// @desc    Release work order to the floor, reserving its outstanding materials
+// @route   POST /api/production/work-orders/:id/release
+// @access  Private (Manager/Admin)
+router.post('/work-orders/:id/release', restrictTo('ADMIN', 'MANAGER'), [
+  body('warehouseId').optional().isMongoId().withMessage('Invalid warehouse ID'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const workOrder = await WorkOrder.findById(req.params.id).session(session);
+    if (!workOrder) {
+      await session.abortTransaction();
+      return next(new AppError('No work order found with that ID', 404));
+    }
+
+    try {
+      workOrder.release();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(new AppError((error as Error).message, 400));
+    }
+
+    const { reservations, shortages } = await StockReservation.reserveForSource(
+      {
+        sourceType: 'WORK_ORDER',
+        sourceId: workOrder._id,
+        sourceNumber: workOrder.orderNumber,
+        holderName: workOrder.workCenter,
+        requiredDate: workOrder.startDate
+      },
+      workOrder.materials
+        .map(material => ({
+          itemId: material.itemId.toString(),
+          quantity: material.requiredQuantity - (material.issuedQuantity || 0)
+        }))
+        .filter(line => line.quantity > 0),
+      req.user!._id,
+      session,
+      req.body.warehouseId
+    );
+
+    workOrder.set('updatedBy', req.user!._id);
+    await workOrder.save({ session });
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { workOrder, reservations, shortages }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
 // @desc    Start work order
 // @route   POST /api/production/work-orders/:id/start
 // @access  Private
@@ -204,6 +323,9 @@ router.post('/work-orders/:id/start', async (req: AuthRequest, res: express.Resp
       workOrder.start(req.body.actualStartDate);
       workOrder.updatedBy = req.user!._id;
       await workOrder.save();
+      if (workOrder.productionPlanId) {
+        await rollUpPlan(workOrder.productionPlanId);
+      }
 
       res.status(200).json({
         status: 'success',
@@ -217,41 +339,230 @@ router.post('/work-orders/:id/start', async (req: AuthRequest, res: express.Resp
   }
 });
 
-// @desc    Complete work order
+// @desc    Complete work order (optionally receiving the good quantity into stock as a lot)
 // @route   POST /api/production/work-orders/:id/complete
 // @access  Private
 router.post('/work-orders/:id/complete', [
   body('completedQuantity').isFloat({ gt: 0 }).withMessage('Completed quantity must be positive'),
   body('defectQuantity').optional().isFloat({ min: 0 }).withMessage('Defect quantity cannot be negative'),
+  body('warehouseId').optional().isMongoId().withMessage('Invalid warehouse ID'),
+  body('lotNumber').optional().trim().isLength({ max: 50 }).withMessage('Lot number cannot exceed 50 characters'),
+  body('serialNumbers').optional().isArray().withMessage('Serial numbers must be an array'),
+  body('serialNumbers.*').trim().notEmpty().isLength({ max: 50 }).withMessage('Serial number cannot exceed 50 characters'),
+  body('actualEndDate').optional().isISO8601().withMessage('Invalid actual end date'),
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
+      await session.abortTransaction();
       return next(new AppError(errors.array()[0].msg, 400));
     }
 
-    const workOrder = await WorkOrder.findById(req.params.id);
+    const workOrder = await WorkOrder.findById(req.params.id).session(session);
     if (!workOrder) {
+      await session.abortTransaction();
       return next(new AppError('No work order found with that ID', 404));
     }
 
+    // The end date is when finished goods are booked, so it follows the same rules as a backdated receipt
+    const posting = await resolvePostingDate(req.body.actualEndDate, session);
+    if (posting.error) {
+      await session.abortTransaction();
+      return next(new AppError(posting.error, 400));
+    }
+
     try {
-      workOrder.complete(req.body.completedQuantity, req.body.actualEndDate);
-      if (req.body.defectQuantity) {
-        workOrder.defectQuantity = req.body.defectQuantity;
+      workOrder.complete(req.body.completedQuantity, posting.date);
+    } catch (error) {
+      await session.abortTransaction();
+      return next(new AppError((error as Error).message, 400));
+    }
+    if (req.body.defectQuantity) {
+      workOrder.defectQuantity = req.body.defectQuantity;
+    }
+    workOrder.set('updatedBy', req.user!._id);
+
+    let transaction = null;
+    let recalculation = null;
+    let lotNumber: string | undefined;
+    let serialNumbers: string[] = [];
+    const goodQuantity = workOrder.completedQuantity - (workOrder.defectQuantity || 0);
+
+    const item = await Item.findById(workOrder.itemId).session(session);
+    if (!item) {
+      await session.abortTransaction();
+      return next(new AppError('No item found for this work order', 404));
+    }
+
+    if (item.isSerialControlled && goodQuantity > 0) {
+      if (!req.body.warehouseId) {
+        await session.abortTransaction();
+        return next(new AppError('A warehouse is required to complete a serial-controlled item', 400));
+      }
+      if (!Number.isInteger(goodQuantity)) {
+        await session.abortTransaction();
+        return next(new AppError('Serial-controlled items must be completed in whole units', 400));
       }
-      workOrder.updatedBy = req.user!._id;
-      await workOrder.save();
 
-      res.status(200).json({
-        status: 'success',
-        data: { workOrder }
+      // Serials are captured from the line when given, otherwise numbered after the work order
+      serialNumbers = req.body.serialNumbers
+        ? req.body.serialNumbers.map((serial: string) => serial.toUpperCase())
+        : Array.from({ length: goodQuantity }, (_, index) =>
+          `${workOrder.orderNumber}-${String(index + 1).padStart(4, '0')}`);
+
+      if (serialNumbers.length !== goodQuantity) {
+        await session.abortTransaction();
+        return next(new AppError(`Expected ${goodQuantity} serial numbers but received ${serialNumbers.length}`, 400));
+      }
+      if (new Set(serialNumbers).size !== serialNumbers.length) {
+        await session.abortTransaction();
+        return next(new AppError('Serial numbers must be unique', 400));
+      }
+      const existing = await SerialNumber.findOne({ serialNumber: { $in: serialNumbers } }).session(session);
+      if (existing) {
+        await session.abortTransaction();
+        return next(new AppError(`Serial number ${existing.serialNumber} already exists`, 400));
+      }
+    }
+
+    if (req.body.warehouseId && goodQuantity > 0) {
+      const warehouse = await Warehouse.findOne({ _id: req.body.warehouseId, isActive: true }).session(session);
+      if (!warehouse) {
+        await session.abortTransaction();
+        return next(new AppError('No warehouse found with that ID', 404));
+      }
+
+      // Finished goods take the work order number as their lot unless one is given
+      lotNumber = req.body.lotNumber || workOrder.orderNumber;
+      const expirationDate = item.expiryDays
+        ? new Date(posting.date.getTime() + item.expiryDays * 24 * 60 * 60 * 1000)
+        : undefined;
+
+      let stock = await InventoryStock.findOne({
+        itemId: item._id,
+        warehouseId: warehouse._id,
+        ownerId: null
+      }).session(session);
+      if (!stock) {
+        stock = new InventoryStock({
+          itemId: item._id,
+          itemName: item.name,
+          itemCode: item.code,
+          warehouseId: warehouse._id,
+          warehouseName: warehouse.name,
+          currentQuantity: 0,
+          averageUnitCost: 0,
+          lastUpdatedBy: req.user!._id
+        });
+      }
+
+      const previousQuantity = stock.currentQuantity;
+      stock.addStock(goodQuantity, item.cost, lotNumber, expirationDate, posting.date);
+      stock.set('lastUpdatedBy', req.user!._id);
+      await stock.save({ session });
+
+      transaction = new InventoryTransaction({
+        itemId: item._id,
+        itemName: item.name,
+        itemCode: item.code,
+        warehouseId: warehouse._id,
+        warehouseName: warehouse.name,
+        transactionType: 'IN',
+        quantity: goodQuantity,
+        unitPrice: item.cost,
+        previousQuantity,
+        currentQuantity: stock.currentQuantity,
+        referenceId: workOrder._id,
+        referenceType: 'PRODUCTION',
+        referenceNumber: workOrder.orderNumber,
+        transactionDate: posting.date,
+        reason: `생산 입고 - ${workOrder.orderNumber}`,
+        batchNumber: lotNumber,
+        expirationDate,
+        userId: req.user!._id,
+        userName: req.user!.name
       });
-    } catch (error) {
-      return next(new AppError((error as Error).message, 400));
+      await transaction.save({ session });
+
+      // A production receipt only raises later balances, so the negative-stock policy cannot block it
+      const resequenced = await resequenceTransactions(
+        transaction,
+        true,
+        { id: req.user!._id.toString(), name: req.user!.name },
+        session
+      );
+      if (resequenced.closedPeriod) {
+        await session.abortTransaction();
+        return next(new AppError(`Inventory period ${resequenced.closedPeriod} is closed`, 400));
+      }
+      recalculation = resequenced.recalculation;
+
+      await new LotGenealogy({
+        lotNumber,
+        itemId: item._id,
+        itemName: item.name,
+        itemCode: item.code,
+        eventType: 'PRODUCTION',
+        quantity: goodQuantity,
+        warehouseId: warehouse._id,
+        warehouseName: warehouse.name,
+        workOrderId: workOrder._id,
+        workOrderNumber: workOrder.orderNumber,
+        referenceType: 'WORK_ORDER',
+        referenceId: workOrder._id,
+        referenceNumber: workOrder.orderNumber,
+        eventDate: workOrder.actualEndDate,
+        createdBy: req.user!._id
+      }).save({ session });
+
+      if (serialNumbers.length > 0) {
+        await SerialNumber.insertMany(serialNumbers.map((serialNumber) => ({
+          serialNumber,
+          itemId: item._id,
+          itemName: item.name,
+          itemCode: item.code,
+          status: 'IN_STOCK',
+          warehouseId: warehouse._id,
+          warehouseName: warehouse.name,
+          lotNumber,
+          workOrderId: workOrder._id,
+          workOrderNumber: workOrder.orderNumber,
+          producedAt: workOrder.actualEndDate,
+          history: [{
+            status: 'IN_STOCK',
+            referenceType: 'WORK_ORDER',
+            referenceNumber: workOrder.orderNumber,
+            warehouseName: warehouse.name,
+            userId: req.user!._id,
+            userName: req.user!.name,
+            eventDate: workOrder.actualEndDate
+          }],
+          createdBy: req.user!._id
+        })), { session });
+      }
+    }
+
+    // Materials reserved but never issued go back to available stock
+    await StockReservation.releaseForSource('WORK_ORDER', workOrder._id, 'Work order completed', session);
+
+    await workOrder.save({ session });
+    if (workOrder.productionPlanId) {
+      await rollUpPlan(workOrder.productionPlanId, session);
     }
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { workOrder, transaction, recalculation, lotNumber, serialNumbers }
+    });
   } catch (error) {
+    await session.abortTransaction();
     next(error);
+  } finally {
+    session.endSession();
   }
 });
 
@@ -309,6 +620,211 @@ router.post('/work-orders/:id/resume', async (req: AuthRequest, res: express.Res
   }
 });
 
+// @desc    Close a completed work order so nothing more is posted against it
+// @route   POST /api/production/work-orders/:id/close
+// @access  Private (Manager/Admin)
+router.post('/work-orders/:id/close', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const workOrder = await WorkOrder.findById(req.params.id);
+    if (!workOrder) {
+      return next(new AppError('No work order found with that ID', 404));
+    }
+
+    try {
+      workOrder.close();
+      workOrder.set('updatedBy', req.user!._id);
+      await workOrder.save();
+      if (workOrder.productionPlanId) {
+        await rollUpPlan(workOrder.productionPlanId);
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: { workOrder }
+      });
+    } catch (error) {
+      return next(new AppError((error as Error).message, 400));
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Cancel work order and release its material reservations
+// @route   POST /api/production/work-orders/:id/cancel
+// @access  Private (Manager/Admin)
+router.post('/work-orders/:id/cancel', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const workOrder = await WorkOrder.findById(req.params.id).session(session);
+    if (!workOrder) {
+      await session.abortTransaction();
+      return next(new AppError('No work order found with that ID', 404));
+    }
+
+    try {
+      workOrder.cancel(req.body.reason);
+    } catch (error) {
+      await session.abortTransaction();
+      return next(new AppError((error as Error).message, 400));
+    }
+    workOrder.set('updatedBy', req.user!._id);
+
+    const released = await StockReservation.releaseForSource(
+      'WORK_ORDER',
+      workOrder._id,
+      req.body.reason || 'Work order cancelled',
+      session
+    );
+
+    await workOrder.save({ session });
+    if (workOrder.productionPlanId) {
+      await rollUpPlan(workOrder.productionPlanId, session);
+    }
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { workOrder, releasedReservations: released.length }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Report the start of a work order operation
+// @route   POST /api/production/work-orders/:id/operations/:sequence/start
+// @access  Private
+router.post('/work-orders/:id/operations/:sequence/start', [
+  param('sequence').isInt({ min: 1 }).withMessage('Invalid operation sequence'),
+  body('actualStartDate').optional().isISO8601().withMessage('Invalid start date'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const workOrder = await WorkOrder.findById(req.params.id);
+    if (!workOrder) {
+      return next(new AppError('No work order found with that ID', 404));
+    }
+
+    try {
+      const operation = workOrder.startOperation(
+        Number(req.params.sequence),
+        { id: req.user!._id, name: req.user!.name },
+        req.body.actualStartDate ? new Date(req.body.actualStartDate) : undefined
+      );
+      workOrder.set('updatedBy', req.user!._id);
+      await workOrder.save();
+
+      res.status(200).json({
+        status: 'success',
+        data: { workOrder, operation }
+      });
+    } catch (error) {
+      return next(new AppError((error as Error).message, 400));
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Report the finish of a work order operation with its good and scrapped units
+// @route   POST /api/production/work-orders/:id/operations/:sequence/finish
+// @access  Private
+router.post('/work-orders/:id/operations/:sequence/finish', [
+  param('sequence').isInt({ min: 1 }).withMessage('Invalid operation sequence'),
+  body('goodQuantity').isFloat({ min: 0 }).withMessage('Good quantity cannot be negative'),
+  body('scrapQuantity').optional().isFloat({ min: 0 }).withMessage('Scrap quantity cannot be negative'),
+  body('inspectionResult').optional().isIn(['PASS', 'FAIL']).withMessage('Invalid inspection result'),
+  body('actualEndDate').optional().isISO8601().withMessage('Invalid end date'),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const workOrder = await WorkOrder.findById(req.params.id);
+    if (!workOrder) {
+      return next(new AppError('No work order found with that ID', 404));
+    }
+
+    try {
+      const operation = workOrder.finishOperation(Number(req.params.sequence), {
+        goodQuantity: Number(req.body.goodQuantity),
+        scrapQuantity: req.body.scrapQuantity !== undefined ? Number(req.body.scrapQuantity) : 0,
+        inspectionResult: req.body.inspectionResult,
+        endDate: req.body.actualEndDate ? new Date(req.body.actualEndDate) : undefined,
+        notes: req.body.notes
+      });
+      workOrder.set('updatedBy', req.user!._id);
+      await workOrder.save();
+
+      res.status(200).json({
+        status: 'success',
+        data: { workOrder, operation }
+      });
+    } catch (error) {
+      return next(new AppError((error as Error).message, 400));
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get work in process by operation and work center
+// @route   GET /api/production/wip
+// @access  Private
+router.get('/wip', [
+  query('workCenter').optional().trim().isLength({ max: 20 }).withMessage('Work center code too long'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const workOrders = await WorkOrder.find({
+      isActive: true,
+      status: { $in: ['RELEASED', 'IN_PROGRESS', 'PAUSED'] },
+      'operations.0': { $exists: true }
+    }).sort({ startDate: 1 });
+
+    const workCenter = (req.query.workCenter as string | undefined)?.toUpperCase();
+    const operations = operationWip(workOrders)
+      .filter(row => (row.queued > 0 || row.inProcess > 0) && (!workCenter || row.workCenterCode === workCenter));
+
+    const workCenters = new Map<string, { workCenterCode: string; queued: number; inProcess: number; operations: number }>();
+    for (const row of operations) {
+      const totals = workCenters.get(row.workCenterCode) ||
+        { workCenterCode: row.workCenterCode, queued: 0, inProcess: 0, operations: 0 };
+      totals.queued += row.queued;
+      totals.inProcess += row.inProcess;
+      totals.operations += 1;
+      workCenters.set(row.workCenterCode, totals);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        workCenters: [...workCenters.values()].sort((a, b) => a.workCenterCode.localeCompare(b.workCenterCode)),
+        operations
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get work order statistics
 // @route   GET /api/production/statistics
 // @access  Private
@@ -1,12 +1,45 @@
 import express from 'express';
 import { protect, AuthRequest } from '../middleware/auth';
 import { PurchaseOrder } from '../models/Purchase';
+import { Item } from '../models/Item';
+import { UnitOfMeasure } from '../models/UnitOfMeasure';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(protect);
 
+// Lines may be ordered in any unit the item converts from (e.g. boxes of a piece-stocked item);
+// each keeps the ordered unit and its quantity in the item's base unit
+const processOrderItems = async (items: any[]) => {
+  let subtotal = 0;
+  const processedItems = [];
+  for (const item of items) {
+    const master = await Item.findById(item.itemId).select('name unit unitConversions');
+    if (!master) {
+      return { error: '주문 품목을 찾을 수 없습니다.' };
+    }
+    const unit = (item.unit || master.unit).toUpperCase();
+    const baseQuantity = await UnitOfMeasure.toBase(master, item.quantity, unit);
+    if (baseQuantity === null) {
+      return { error: `${master.name}: ${unit} 단위를 기준 단위(${master.unit})로 환산할 수 없습니다.` };
+    }
+
+    const totalPrice = item.quantity * item.unitPrice;
+    subtotal += totalPrice;
+    processedItems.push({
+      itemId: item.itemId,
+      quantity: item.quantity,
+      unit,
+      baseQuantity,
+      baseUnit: master.unit,
+      unitPrice: item.unitPrice,
+      totalPrice
+    });
+  }
+  return { processedItems, subtotal };
+};
+
 // @desc    Get all purchase orders
 // @route   GET /api/purchase/orders
 // @access  Private
@@ -50,17 +83,13 @@ router.post('/orders', async (req: AuthRequest, res: express.Response, next: exp
     const orderNumber = `PO-${currentYear}-${String(orderCount + 1).padStart(3, '0')}`;
 
     // Calculate totals
-    let subtotal = 0;
-    const processedItems = items.map((item: any) => {
-      const totalPrice = item.quantity * item.unitPrice;
-      subtotal += totalPrice;
-      return {
-        itemId: item.itemId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        totalPrice
-      };
-    });
+    const { processedItems, subtotal = 0, error } = await processOrderItems(items);
+    if (error) {
+      return res.status(400).json({
+        status: 'error',
+        message: error
+      });
+    }
 
     const taxAmount = subtotal * 0.1; // 10% VAT
     const totalAmount = subtotal + taxAmount;
@@ -147,22 +176,18 @@ router.put('/orders/:id', async (req: AuthRequest, res: express.Response, next:
     }
 
     if (items && items.length > 0) {
-      let subtotal = 0;
-      const processedItems = items.map((item: any) => {
-        const totalPrice = item.quantity * item.unitPrice;
-        subtotal += totalPrice;
-        return {
-          itemId: item.itemId,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          totalPrice
-        };
-      });
+      const { processedItems, subtotal = 0, error } = await processOrderItems(items);
+      if (error) {
+        return res.status(400).json({
+          status: 'error',
+          message: error
+        });
+      }
 
       const taxAmount = subtotal * 0.1;
       const totalAmount = subtotal + taxAmount;
 
-      order.items = processedItems;
+      order.items = processedItems!;
       order.subtotal = subtotal;
       order.taxAmount = taxAmount;
       order.totalAmount = totalAmount;
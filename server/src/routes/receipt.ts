@@ -1,8 +1,12 @@
 import express from 'express';
 import { protect, AuthRequest } from '../middleware/auth';
 import { Receipt } from '../models/Receipt';
-import { InventoryStock } from '../models/InventoryStock';
-import { InventoryTransaction } from '../models/InventoryTransaction';
+import { PurchaseOrder } from '../models/Purchase';
+import { StorageBin } from '../models/StorageBin';
+import { Item } from '../models/Item';
+import { UnitOfMeasure } from '../models/UnitOfMeasure';
+import { resolvePostingDate } from '../jobs/backdating';
+import { approveReceipt } from '../jobs/receipts';
 import { body, validationResult } from 'express-validator';
 import mongoose from 'mongoose';
 
@@ -23,8 +27,22 @@ const validateReceipt = [
   body('items.*.orderedQuantity').isFloat({ gt: 0 }).withMessage('주문 수량은 0보다 큰 값이어야 합니다.'),
   body('items.*.receivedQuantity').isFloat({ gte: 0 }).withMessage('입고 수량은 0 이상이어야 합니다.'),
   body('items.*.unitPrice').isFloat({ gte: 0 }).withMessage('단가는 0 이상이어야 합니다.'),
+  body('items.*.unit').optional().trim().isLength({ max: 20 }).withMessage('단위는 20자를 초과할 수 없습니다.'),
 ];
 
+// Lines entered without a unit are received in the unit the purchase order line was ordered in
+const processItems = async (items: any[], purchaseOrderId?: string) => {
+  const purchaseOrder = purchaseOrderId ? await PurchaseOrder.findById(purchaseOrderId).select('items') : null;
+  return items.map(item => {
+    const orderLine = purchaseOrder?.items.find(line => line.itemId.toString() === item.itemId);
+    return {
+      ...item,
+      unit: item.unit || orderLine?.unit,
+      totalPrice: item.receivedQuantity * item.unitPrice
+    };
+  });
+};
+
 // @desc    Get all receipts
 // @route   GET /api/receipts
 // @access  Private
@@ -135,13 +153,9 @@ router.get('/:id', async (req: AuthRequest, res: express.Response, next: express
 // @route   POST /api/receipts
 // @access  Private
 router.post('/', validateReceipt, async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
-  const session = await mongoose.startSession();
-  session.startTransaction();
-
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
-      await session.abortTransaction();
       return res.status(400).json({
         status: 'error',
         message: '입력 데이터에 오류가 있습니다.',
@@ -150,86 +164,18 @@ router.post('/', validateReceipt, async (req: AuthRequest, res: express.Response
     }
 
     // Calculate total prices for items
-    const processedItems = req.body.items.map((item: any) => ({
-      ...item,
-      totalPrice: item.receivedQuantity * item.unitPrice
-    }));
+    const processedItems = await processItems(req.body.items, req.body.purchaseOrderId);
 
+    // Stock is posted when the receipt is approved, not on registration
     const receiptData = {
       ...req.body,
       items: processedItems,
-      receivedBy: req.user.id,
-      createdBy: req.user.id
+      receivedBy: req.user!._id,
+      createdBy: req.user!._id
     };
 
     const receipt = new Receipt(receiptData);
-    await receipt.save({ session });
-
-    // Update inventory for each item
-    for (const item of processedItems) {
-      if (item.receivedQuantity > 0) {
-        // Find or create inventory stock record
-        let inventoryStock = await InventoryStock.findOne({
-          itemId: item.itemId,
-          warehouseId: req.body.warehouseId
-        }).session(session);
-
-        if (!inventoryStock) {
-          inventoryStock = new InventoryStock({
-            itemId: item.itemId,
-            itemName: item.itemName,
-            itemCode: item.itemCode,
-            warehouseId: req.body.warehouseId,
-            warehouseName: req.body.warehouseName,
-            currentQuantity: 0,
-            averageUnitCost: 0,
-            lastUpdatedBy: req.user.id
-          });
-        }
-
-        // Get previous quantity for transaction record
-        const previousQuantity = inventoryStock.currentQuantity;
-
-        // Add stock using the model method
-        inventoryStock.addStock(
-          item.receivedQuantity, 
-          item.unitPrice,
-          item.batchNumber,
-          item.expirationDate
-        );
-        inventoryStock.lastUpdatedBy = new mongoose.Types.ObjectId(req.user.id);
-
-        await inventoryStock.save({ session });
-
-        // Create inventory transaction record
-        const transaction = new InventoryTransaction({
-          itemId: item.itemId,
-          itemName: item.itemName,
-          itemCode: item.itemCode,
-          warehouseId: req.body.warehouseId,
-          warehouseName: req.body.warehouseName,
-          transactionType: 'IN',
-          quantity: item.receivedQuantity,
-          unitPrice: item.unitPrice,
-          previousQuantity,
-          currentQuantity: inventoryStock.currentQuantity,
-          referenceId: receipt._id,
-          referenceType: 'RECEIPT',
-          referenceNumber: receipt.receiptNumber,
-          transactionDate: receipt.receiptDate,
-          reason: `입고 - ${receipt.receiptNumber}`,
-          notes: item.notes,
-          batchNumber: item.batchNumber,
-          expirationDate: item.expirationDate,
-          userId: req.user.id,
-          userName: req.user.name
-        });
-
-        await transaction.save({ session });
-      }
-    }
-
-    await session.commitTransaction();
+    await receipt.save();
 
     // Populate references for response
     await receipt.populate('supplierId', 'name code');
@@ -243,10 +189,7 @@ router.post('/', validateReceipt, async (req: AuthRequest, res: express.Response
       }
     });
   } catch (error) {
-    await session.abortTransaction();
     next(error);
-  } finally {
-    session.endSession();
   }
 });
 
@@ -281,10 +224,7 @@ router.put('/:id', validateReceipt, async (req: AuthRequest, res: express.Respon
     }
 
     // Calculate total prices for items
-    const processedItems = req.body.items.map((item: any) => ({
-      ...item,
-      totalPrice: item.receivedQuantity * item.unitPrice
-    }));
+    const processedItems = await processItems(req.body.items, req.body.purchaseOrderId);
 
     // Update fields
     Object.assign(receipt, {
@@ -357,10 +297,10 @@ router.patch('/:id/inspect', [
   }
 });
 
-// @desc    Approve receipt
-// @route   PATCH /api/receipts/:id/approve
+// @desc    Suggest putaway bins for the accepted quantities of a receipt
+// @route   GET /api/receipts/:id/putaway-suggestions
 // @access  Private
-router.patch('/:id/approve', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+router.get('/:id/putaway-suggestions', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   try {
     const receipt = await Receipt.findById(req.params.id);
     if (!receipt) {
@@ -370,24 +310,125 @@ router.patch('/:id/approve', async (req: AuthRequest, res: express.Response, nex
       });
     }
 
+    const suggestions = [];
+    for (const item of receipt.items) {
+      const acceptedQuantity = item.receivedQuantity - (item.defectQuantity || 0);
+      if (acceptedQuantity <= 0) {
+        continue;
+      }
+
+      const master = await Item.findById(item.itemId).select('category unit unitConversions');
+      const baseQuantity = master
+        ? await UnitOfMeasure.toBase(master, acceptedQuantity, item.unit)
+        : acceptedQuantity;
+      const suggestion = await StorageBin.suggestPutaway(
+        receipt.warehouseId.toString(),
+        item.itemId.toString(),
+        master?.category,
+        baseQuantity ?? acceptedQuantity
+      );
+
+      suggestions.push({
+        itemId: item.itemId,
+        itemName: item.itemName,
+        quantity: baseQuantity ?? acceptedQuantity,
+        binId: suggestion?.bin._id,
+        binCode: suggestion?.bin.code,
+        reason: suggestion?.reason
+      });
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        suggestions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Approve receipt and post accepted quantities to inventory
+// @route   PATCH /api/receipts/:id/approve
+// @access  Private
+router.patch('/:id/approve', [
+  body('putaway').optional().isArray().withMessage('적치 지정 정보는 배열이어야 합니다.'),
+  body('putaway.*.itemId').isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  body('putaway.*.binId').isMongoId().withMessage('유효한 로케이션 ID가 필요합니다.'),
+  body('transactionDate').optional().isISO8601().withMessage('유효한 입고일자가 필요합니다.'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      status: 'error',
+      message: '입력 데이터가 올바르지 않습니다.',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const receipt = await Receipt.findById(req.params.id).session(session);
+    if (!receipt) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '입고 내역을 찾을 수 없습니다.'
+      });
+    }
+
     if (!receipt.canBeApproved()) {
+      await session.abortTransaction();
       return res.status(400).json({
         status: 'error',
         message: '이 입고 내역은 승인할 수 없습니다.'
       });
     }
 
-    receipt.approve();
-    receipt.updatedBy = req.user.id;
-    await receipt.save();
+    const posting = await resolvePostingDate(req.body.transactionDate, session);
+    if (posting.error) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: posting.error
+      });
+    }
+
+    const { transactions, putaway, recalculations, error } = await approveReceipt(
+      receipt,
+      posting.date,
+      req.body.putaway || [],
+      { id: req.user!._id.toString(), name: req.user!.name },
+      session
+    );
+    if (error) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: error
+      });
+    }
+
+    await session.commitTransaction();
 
     res.status(200).json({
       status: 'success',
       message: '입고가 승인되었습니다.',
-      data: { receipt }
+      data: {
+        receipt,
+        transactions,
+        putaway,
+        recalculations
+      }
     });
   } catch (error) {
+    await session.abortTransaction();
     next(error);
+  } finally {
+    session.endSession();
   }
 });
 
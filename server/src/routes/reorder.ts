@@ -0,0 +1,185 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { PurchaseRequest } from '../models/PurchaseRequest';
+import { calculateReorderSuggestions, runReorder } from '../jobs/reorder';
+import { body, query, validationResult } from 'express-validator';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// @desc    Preview items at or below their reorder point with suggested quantities
+// @route   GET /api/inventory/reorder/suggestions
+// @access  Private
+router.get('/suggestions', [
+  query('abcClass').optional().isIn(['A', 'B', 'C']).withMessage('유효한 ABC 등급이 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const suggestions = await calculateReorderSuggestions(req.query.abcClass as string | undefined);
+
+    res.status(200).json({
+      status: 'success',
+      data: { suggestions }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Run the reorder engine now and draft purchase requests
+// @route   POST /api/inventory/reorder/run
+// @access  Private (Manager/Admin)
+router.post('/run', restrictTo('ADMIN', 'MANAGER'), [
+  body('department').optional().isLength({ min: 1, max: 100 }).withMessage('부서명은 1~100자여야 합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const { requests } = await runReorder(req.user!._id.toString(), req.body.department);
+
+    res.status(201).json({
+      status: 'success',
+      message: requests.length > 0
+        ? `구매요청 ${requests.length}건이 임시저장되었습니다.`
+        : '재주문이 필요한 품목이 없습니다.',
+      data: { requests }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get purchase requests drafted by the reorder engine
+// @route   GET /api/inventory/reorder/drafts
+// @access  Private
+router.get('/drafts', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const requests = await PurchaseRequest.find({ source: 'REORDER', status: 'DRAFT', isActive: true })
+      .populate('supplierId', 'name')
+      .sort({ requestDate: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: { requests }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Review and submit a drafted purchase request; the planner becomes the requester
+// @route   PATCH /api/inventory/reorder/drafts/:id/submit
+// @access  Private
+router.patch('/drafts/:id/submit', [
+  body('items').optional().isArray().withMessage('품목 목록이 올바르지 않습니다.'),
+  body('items.*.itemId').optional().isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  body('items.*.quantity').optional().isFloat({ min: 0 }).withMessage('수량은 0 이상이어야 합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const request = await PurchaseRequest.findOne({ _id: req.params.id, source: 'REORDER', isActive: true });
+    if (!request) {
+      return res.status(404).json({
+        status: 'error',
+        message: '구매요청을 찾을 수 없습니다.'
+      });
+    }
+
+    if (request.status !== 'DRAFT') {
+      return res.status(400).json({
+        status: 'error',
+        message: '임시저장 상태의 요청만 제출할 수 있습니다.'
+      });
+    }
+
+    // Adjusted quantities from the review; zero drops the line
+    for (const adjustment of req.body.items || []) {
+      const line = request.items.find(item => item.itemId?.toString() === adjustment.itemId);
+      if (line && adjustment.quantity !== undefined) {
+        line.quantity = Number(adjustment.quantity);
+        line.totalPrice = line.quantity * line.estimatedPrice;
+      }
+    }
+    request.items = request.items.filter(item => item.quantity > 0);
+
+    if (request.items.length === 0) {
+      return res.status(400).json({
+        status: 'error',
+        message: '최소 1개 이상의 품목이 필요합니다.'
+      });
+    }
+
+    request.set('requesterId', req.user!._id);
+    request.set('updatedBy', req.user!._id);
+    request.status = 'SUBMITTED';
+    await request.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: '구매요청이 제출되었습니다.',
+      data: { request }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Discard a drafted purchase request
+// @route   DELETE /api/inventory/reorder/drafts/:id
+// @access  Private
+router.delete('/drafts/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const request = await PurchaseRequest.findOne({ _id: req.params.id, source: 'REORDER', isActive: true });
+    if (!request) {
+      return res.status(404).json({
+        status: 'error',
+        message: '구매요청을 찾을 수 없습니다.'
+      });
+    }
+
+    if (request.status !== 'DRAFT') {
+      return res.status(400).json({
+        status: 'error',
+        message: '임시저장 상태의 요청만 삭제할 수 있습니다.'
+      });
+    }
+
+    request.isActive = false;
+    request.set('updatedBy', req.user!._id);
+    await request.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: '구매요청이 삭제되었습니다.'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -130,7 +130,7 @@ router.get('/production', [
     const efficiencyData = await WorkOrder.aggregate([
       {
         $match: {
-          status: 'COMPLETED',
+          status: { $in: ['COMPLETED', 'CLOSED'] },
           createdAt: { $gte: start, $lte: end },
           isActive: true
         }
@@ -310,8 +310,17 @@ router.get('/quality', [
 // @desc    Get inventory report
 // @route   GET /api/reports/inventory
 // @access  Private
-router.get('/inventory', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+router.get('/inventory', [
+  query('abcClass').optional().isIn(['A', 'B', 'C']).withMessage('Invalid ABC class')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const classMatch = req.query.abcClass ? [{ $match: { 'item.abcClass': req.query.abcClass } }] : [];
+
     // Low stock items
     const lowStockItems = await InventoryStock.aggregate([
       {
@@ -329,6 +338,7 @@ router.get('/inventory', async (req: AuthRequest, res: express.Response, next: e
         }
       },
       { $unwind: '$item' },
+      ...classMatch,
       {
         $project: {
           itemCode: '$item.code',
@@ -355,6 +365,7 @@ router.get('/inventory', async (req: AuthRequest, res: express.Response, next: e
         }
       },
       { $unwind: '$item' },
+      ...classMatch,
       {
         $group: {
           _id: '$item.category',
@@ -366,6 +377,41 @@ router.get('/inventory', async (req: AuthRequest, res: express.Response, next: e
       { $sort: { totalValue: -1 } }
     ]);
 
+    // Stock value by ABC/XYZ class
+    const stockValueByClass = await InventoryStock.aggregate([
+      {
+        $match: { isActive: true }
+      },
+      {
+        $lookup: {
+          from: 'items',
+          localField: 'itemId',
+          foreignField: '_id',
+          as: 'item'
+        }
+      },
+      { $unwind: '$item' },
+      ...classMatch,
+      {
+        $group: {
+          _id: { abcClass: '$item.abcClass', xyzClass: '$item.xyzClass' },
+          totalQuantity: { $sum: '$currentQuantity' },
+          totalValue: { $sum: '$totalValue' },
+          itemCount: { $addToSet: '$itemId' }
+        }
+      },
+      {
+        $project: {
+          abcClass: '$_id.abcClass',
+          xyzClass: '$_id.xyzClass',
+          totalQuantity: 1,
+          totalValue: 1,
+          itemCount: { $size: '$itemCount' }
+        }
+      },
+      { $sort: { abcClass: 1, xyzClass: 1 } }
+    ]);
+
     // Stock movement summary (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -374,7 +420,8 @@ router.get('/inventory', async (req: AuthRequest, res: express.Response, next: e
       status: 'success',
       data: {
         lowStockItems,
-        stockValueByCategory
+        stockValueByCategory,
+        stockValueByClass
       }
     });
   } catch (error) {
@@ -503,7 +550,7 @@ router.get('/dashboard', async (req: AuthRequest, res: express.Response, next: e
             _id: null,
             totalOrders: { $sum: 1 },
             completedOrders: {
-              $sum: { $cond: [{ $eq: ['$status', 'COMPLETED'] }, 1, 0] }
+              $sum: { $cond: [{ $in: ['$status', ['COMPLETED', 'CLOSED']] }, 1, 0] }
             }
           }
         }
@@ -0,0 +1,220 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { StockReservation } from '../models/StockReservation';
+import { InventoryStock } from '../models/InventoryStock';
+import mongoose from 'mongoose';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// @desc    Get stock reservations
+// @route   GET /api/inventory/reservations
+// @access  Private
+router.get('/', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status = 'ACTIVE',
+      sourceType,
+      itemId,
+      warehouseId,
+      search
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const query: any = {};
+
+    if (status && status !== 'ALL') {
+      query.status = status;
+    }
+
+    if (sourceType) {
+      query.sourceType = sourceType;
+    }
+
+    if (itemId) {
+      query.itemId = itemId;
+    }
+
+    if (warehouseId) {
+      query.warehouseId = warehouseId;
+    }
+
+    if (search) {
+      query.$or = [
+        { itemName: { $regex: search, $options: 'i' } },
+        { itemCode: { $regex: search, $options: 'i' } },
+        { sourceNumber: { $regex: search, $options: 'i' } },
+        { holderName: { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const [reservations, total] = await Promise.all([
+      StockReservation.find(query)
+        .populate('createdBy', 'name email')
+        .sort({ requiredDate: 1, createdAt: 1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      StockReservation.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(total / Number(limit));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        reservations,
+        pagination: {
+          currentPage: Number(page),
+          totalPages,
+          totalCount: total,
+          hasNext: Number(page) < totalPages,
+          hasPrev: Number(page) > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get reserved stock per item and warehouse with the orders holding it
+// @route   GET /api/inventory/reservations/by-item
+// @access  Private
+router.get('/by-item', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const { warehouseId, itemId } = req.query;
+
+    const match: any = { status: 'ACTIVE' };
+    if (warehouseId) {
+      match.warehouseId = new mongoose.Types.ObjectId(warehouseId as string);
+    }
+    if (itemId) {
+      match.itemId = new mongoose.Types.ObjectId(itemId as string);
+    }
+
+    const groups = await StockReservation.aggregate([
+      { $match: match },
+      { $sort: { requiredDate: 1, createdAt: 1 } },
+      {
+        $group: {
+          _id: { itemId: '$itemId', warehouseId: '$warehouseId' },
+          itemName: { $first: '$itemName' },
+          itemCode: { $first: '$itemCode' },
+          warehouseName: { $first: '$warehouseName' },
+          reservedQuantity: { $sum: { $subtract: ['$quantity', '$consumedQuantity'] } },
+          holders: {
+            $push: {
+              reservationId: '$_id',
+              sourceType: '$sourceType',
+              sourceId: '$sourceId',
+              sourceNumber: '$sourceNumber',
+              holderName: '$holderName',
+              requiredDate: '$requiredDate',
+              openQuantity: { $subtract: ['$quantity', '$consumedQuantity'] },
+              reservedAt: '$createdAt'
+            }
+          }
+        }
+      },
+      { $sort: { itemCode: 1, warehouseName: 1 } }
+    ]);
+
+    // On-hand figures let planners see how much of each stock record is spoken for
+    const stocks = groups.length === 0 ? [] : await InventoryStock.find({
+      ownerId: null,
+      $or: groups.map(group => ({ itemId: group._id.itemId, warehouseId: group._id.warehouseId }))
+    }).select('itemId warehouseId currentQuantity availableQuantity');
+
+    const items = groups.map(group => {
+      const stock = stocks.find(s =>
+        s.itemId.toString() === group._id.itemId.toString() &&
+        s.warehouseId.toString() === group._id.warehouseId.toString());
+      return {
+        itemId: group._id.itemId,
+        warehouseId: group._id.warehouseId,
+        itemName: group.itemName,
+        itemCode: group.itemCode,
+        warehouseName: group.warehouseName,
+        currentQuantity: stock?.currentQuantity || 0,
+        availableQuantity: stock?.availableQuantity || 0,
+        reservedQuantity: group.reservedQuantity,
+        holders: group.holders
+      };
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: { items }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Release a single reservation back to available stock
+// @route   PATCH /api/inventory/reservations/:id/release
+// @access  Private (Manager/Admin)
+router.patch('/:id/release', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const reservation = await StockReservation.findById(req.params.id).session(session);
+    if (!reservation) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '예약 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (reservation.status !== 'ACTIVE') {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '활성 상태의 예약만 해제할 수 있습니다.'
+      });
+    }
+
+    // Goods in transit come back to the source only by cancelling the transfer
+    if (reservation.sourceType === 'TRANSFER') {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '창고 이동 중인 재고의 예약은 창고 이동을 취소해야 해제됩니다.'
+      });
+    }
+
+    const released = reservation.release(req.body.reason || '수동 해제');
+    const stock = await InventoryStock.findOne({
+      itemId: reservation.itemId,
+      warehouseId: reservation.warehouseId,
+      ownerId: null
+    }).session(session);
+    if (stock) {
+      stock.unreserve(released);
+      stock.set('lastUpdatedBy', req.user!._id);
+      await stock.save({ session });
+    }
+    await reservation.save({ session });
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '예약이 해제되었습니다.',
+      data: { reservation }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+export default router;
@@ -0,0 +1,307 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { Routing, IRouting } from '../models/Routing';
+import WorkCenter from '../models/WorkCenter';
+import Item from '../models/Item';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { activeRouting } from '../jobs/work-orders';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+const operationValidators = (required: boolean) => [
+  (required ? body('operations') : body('operations').optional())
+    .isArray({ min: 1 })
+    .withMessage('At least one operation is required'),
+  body('operations.*.sequence')
+    .isInt({ min: 1 })
+    .withMessage('Operation sequence must be a positive integer'),
+  body('operations.*.name')
+    .notEmpty()
+    .withMessage('Operation name is required')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Operation name cannot exceed 100 characters'),
+  body('operations.*.workCenterId')
+    .isMongoId()
+    .withMessage('Invalid work center ID'),
+  body('operations.*.setupTime')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Setup time cannot be negative'),
+  body('operations.*.runTime')
+    .isFloat({ min: 0 })
+    .withMessage('Run time cannot be negative'),
+  body('operations.*.inspectionRequired')
+    .optional()
+    .isBoolean()
+    .withMessage('inspectionRequired must be a boolean'),
+  body('effectiveDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid effective date'),
+];
+
+// Resolves the work centers of the submitted operations; each must exist and be active
+const buildOperations = async (lines: any[]) => {
+  const workCenters = await WorkCenter.find({ _id: { $in: lines.map(line => line.workCenterId) }, isActive: true });
+  const operations = [];
+  for (const line of lines) {
+    const workCenter = workCenters.find(center => center._id.toString() === line.workCenterId);
+    if (!workCenter) {
+      return { operations: [], error: `Work center of operation ${line.sequence} not found or inactive` };
+    }
+    operations.push({
+      sequence: line.sequence,
+      name: line.name,
+      workCenterId: workCenter._id,
+      workCenterCode: workCenter.code,
+      setupTime: line.setupTime || 0,
+      runTime: line.runTime,
+      inspectionRequired: Boolean(line.inspectionRequired),
+      inspectionCriteria: line.inspectionCriteria,
+      instructions: line.instructions
+    });
+  }
+  return { operations, error: null };
+};
+
+// Two active versions taking effect at the same moment would make the one in effect ambiguous
+const checkEffectiveDate = async (routing: IRouting) => {
+  const clash = await Routing.exists({
+    _id: { $ne: routing._id },
+    itemId: routing.itemId,
+    isActive: true,
+    effectiveDate: routing.effectiveDate
+  });
+  return clash ? 'Another active version of this item takes effect at the same time' : null;
+};
+
+const refId = (ref: any): string => (ref?._id ?? ref).toString();
+
+// Adds the version status the same way BOM versions show it
+const withStatus = async (routings: IRouting[]) => {
+  const currentIds = new Map<string, string | undefined>();
+  const now = new Date();
+  const result = [];
+  for (const routing of routings) {
+    const itemId = refId(routing.itemId);
+    if (!currentIds.has(itemId)) {
+      currentIds.set(itemId, (await activeRouting(itemId))?._id.toString());
+    }
+    let status = 'SUPERSEDED';
+    if (!routing.isActive) status = 'INACTIVE';
+    else if (routing.effectiveDate > now) status = 'SCHEDULED';
+    else if (routing._id.toString() === currentIds.get(itemId)) status = 'CURRENT';
+    result.push({ ...routing.toJSON(), status });
+  }
+  return result;
+};
+
+// @desc    Get routing versions
+// @route   GET /api/routings
+// @access  Private
+router.get('/', [
+  query('itemId').optional().isMongoId().withMessage('Invalid item ID'),
+  query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  query('search').optional().trim().isLength({ max: 255 }).withMessage('Search term too long'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const { itemId, isActive, search, page = 1, limit = 20 } = req.query;
+    const filter: any = {};
+    if (itemId) filter.itemId = itemId;
+    if (isActive !== undefined) filter.isActive = isActive === 'true';
+    if (search) {
+      const items = await Item.find({
+        $or: [
+          { code: { $regex: search, $options: 'i' } },
+          { name: { $regex: search, $options: 'i' } }
+        ]
+      }).select('_id');
+      filter.$or = [
+        { routingNumber: { $regex: search, $options: 'i' } },
+        { itemId: { $in: items.map(item => item._id) } }
+      ];
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const routings = await Routing.find(filter)
+      .populate('itemId', 'code name unit')
+      .sort({ routingNumber: 1, version: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+    const totalCount = await Routing.countDocuments(filter);
+    const totalPages = Math.ceil(totalCount / Number(limit));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        routings: await withStatus(routings),
+        pagination: {
+          currentPage: Number(page),
+          totalPages,
+          totalCount,
+          hasNextPage: Number(page) < totalPages,
+          hasPrevPage: Number(page) > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get single routing version
+// @route   GET /api/routings/:id
+// @access  Private
+router.get('/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const routing = await Routing.findById(req.params.id)
+      .populate('itemId', 'code name unit')
+      .populate('operations.workCenterId', 'code name dailyCapacity')
+      .populate('createdBy', 'name email');
+    if (!routing) {
+      return next(new AppError('No routing found with that ID', 404));
+    }
+
+    const [withState] = await withStatus([routing]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        routing: withState
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create routing version
+// @route   POST /api/routings
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), [
+  body('itemId')
+    .isMongoId()
+    .withMessage('Invalid item ID'),
+  ...operationValidators(true),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const item = await Item.findById(req.body.itemId);
+    if (!item) {
+      return next(new AppError('No item found with that ID', 404));
+    }
+
+    const { operations, error } = await buildOperations(req.body.operations);
+    if (error) {
+      return next(new AppError(error, 400));
+    }
+
+    const latest = await Routing.findOne({ itemId: item._id }).sort({ version: -1 });
+    const version = (latest?.version || 0) + 1;
+
+    const routing = new Routing({
+      routingNumber: `RT-${item.code}-V${version}`,
+      itemId: item._id,
+      version,
+      operations,
+      notes: req.body.notes,
+      effectiveDate: req.body.effectiveDate ? new Date(req.body.effectiveDate) : new Date(),
+      createdBy: req.user!._id
+    });
+
+    const dateError = await checkEffectiveDate(routing);
+    if (dateError) {
+      return next(new AppError(dateError, 400));
+    }
+    await routing.save();
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        routing
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update routing version
+// @route   PATCH /api/routings/:id
+// @access  Private (Manager/Admin)
+router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
+  ...operationValidators(false),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const routing = await Routing.findById(req.params.id);
+    if (!routing) {
+      return next(new AppError('No routing found with that ID', 404));
+    }
+
+    // Work orders copied the operations of a version in effect; a new version keeps that history
+    const contentChange = ['operations', 'effectiveDate'].some(field => req.body[field] !== undefined);
+    if (contentChange && routing.isActive && routing.effectiveDate <= new Date()) {
+      return next(new AppError('This version is already in effect; create a new version to change it', 400));
+    }
+
+    if (req.body.operations) {
+      const { operations, error } = await buildOperations(req.body.operations);
+      if (error) {
+        return next(new AppError(error, 400));
+      }
+      routing.set('operations', operations);
+    }
+
+    for (const field of ['notes', 'isActive']) {
+      if (req.body[field] !== undefined) routing.set(field, req.body[field]);
+    }
+    if (req.body.effectiveDate !== undefined) {
+      routing.effectiveDate = new Date(req.body.effectiveDate);
+    }
+    routing.set('updatedBy', req.user!._id);
+
+    if (routing.isActive) {
+      const dateError = await checkEffectiveDate(routing);
+      if (dateError) {
+        return next(new AppError(dateError, 400));
+      }
+    }
+    await routing.save();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        routing
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { Item } from '../models/Item';
+import { proposeSafetyStock } from '../jobs/safety-stock';
+import { body, query, validationResult } from 'express-validator';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// @desc    Propose statistical safety stock and reorder points next to the current values
+// @route   GET /api/inventory/safety-stock/proposals
+// @access  Private
+router.get('/proposals', [
+  query('serviceLevel').optional().isFloat({ min: 0.5, max: 0.999 }).withMessage('서비스 수준은 0.5 ~ 0.999 사이여야 합니다.'),
+  query('lookbackDays').optional().isInt({ min: 7, max: 730 }).withMessage('조회 기간은 7 ~ 730일 사이여야 합니다.'),
+  query('abcClass').optional().isIn(['A', 'B', 'C']).withMessage('유효한 ABC 등급이 필요합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const proposals = await proposeSafetyStock({
+      serviceLevel: req.query.serviceLevel ? Number(req.query.serviceLevel) : undefined,
+      lookbackDays: req.query.lookbackDays ? Number(req.query.lookbackDays) : undefined,
+      abcClass: req.query.abcClass as string | undefined
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: { proposals }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Accept proposed safety stock and reorder points in bulk
+// @route   POST /api/inventory/safety-stock/accept
+// @access  Private (Manager/Admin)
+router.post('/accept', restrictTo('ADMIN', 'MANAGER'), [
+  body('proposals').isArray({ min: 1 }).withMessage('적용할 품목을 선택해주세요.'),
+  body('proposals.*.itemId').isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  body('proposals.*.safetyStock').isFloat({ min: 0 }).withMessage('안전재고는 0 이상이어야 합니다.'),
+  body('proposals.*.reorderPoint').isFloat({ min: 0 }).withMessage('재주문점은 0 이상이어야 합니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const proposals: Array<{ itemId: string; safetyStock: number; reorderPoint: number }> = req.body.proposals;
+    const result = await Item.bulkWrite(proposals.map(proposal => ({
+      updateOne: {
+        filter: { _id: proposal.itemId, isActive: true },
+        update: {
+          $set: {
+            safetyStock: Number(proposal.safetyStock),
+            reorderPoint: Number(proposal.reorderPoint)
+          }
+        }
+      }
+    })));
+
+    res.status(200).json({
+      status: 'success',
+      message: `${result.modifiedCount}개 품목의 안전재고와 재주문점이 변경되었습니다.`,
+      data: { updatedCount: result.modifiedCount }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
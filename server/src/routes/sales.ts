@@ -1,6 +1,9 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import { body, validationResult, query } from 'express-validator';
 import { SalesOrder } from '../models/SalesOrder';
+import { ICompany } from '../models/Company';
+import { StockReservation } from '../models/StockReservation';
 import { AppError } from '../middleware/errorHandler';
 import { protect, restrictTo, AuthRequest } from '../middleware/auth';
 
@@ -201,83 +204,161 @@ router.patch('/orders/:id', restrictTo('ADMIN', 'MANAGER', 'SALES'), [
   }
 });
 
-// @desc    Confirm sales order
+// @desc    Confirm sales order and reserve stock for its lines
 // @route   POST /api/sales/orders/:id/confirm
 // @access  Private (Manager/Admin)
-router.post('/orders/:id/confirm', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+router.post('/orders/:id/confirm', restrictTo('ADMIN', 'MANAGER'), [
+  body('warehouseId').optional().isMongoId().withMessage('Invalid warehouse ID'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
   try {
-    const salesOrder = await SalesOrder.findById(req.params.id);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const salesOrder = await SalesOrder.findById(req.params.id)
+      .populate<{ customerId: ICompany }>('customerId', 'name')
+      .session(session);
     if (!salesOrder) {
+      await session.abortTransaction();
       return next(new AppError('No sales order found with that ID', 404));
     }
 
     try {
       salesOrder.confirm(req.user!._id);
-      await salesOrder.save();
-
-      res.status(200).json({
-        status: 'success',
-        data: { order: salesOrder }
-      });
     } catch (error) {
+      await session.abortTransaction();
       return next(new AppError((error as Error).message, 400));
     }
+
+    // Lines are reserved as far as stock allows; the rest is reported as a shortage
+    const customer = salesOrder.customerId;
+    const { reservations, shortages } = await StockReservation.reserveForSource(
+      {
+        sourceType: 'SALES_ORDER',
+        sourceId: salesOrder._id,
+        sourceNumber: salesOrder.orderNumber,
+        holderName: customer?.name,
+        requiredDate: salesOrder.requestedDeliveryDate
+      },
+      salesOrder.items.map(item => ({
+        itemId: item.itemId.toString(),
+        quantity: item.quantity - (item.shippedQuantity || 0)
+      })),
+      req.user!._id,
+      session,
+      req.body.warehouseId
+    );
+
+    await salesOrder.save({ session });
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { order: salesOrder, reservations, shortages }
+    });
   } catch (error) {
+    await session.abortTransaction();
     next(error);
+  } finally {
+    session.endSession();
   }
 });
 
-// @desc    Cancel sales order
+// @desc    Cancel sales order and release its reservations
 // @route   POST /api/sales/orders/:id/cancel
 // @access  Private (Manager/Admin)
 router.post('/orders/:id/cancel', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
   try {
-    const salesOrder = await SalesOrder.findById(req.params.id);
+    const salesOrder = await SalesOrder.findById(req.params.id).session(session);
     if (!salesOrder) {
+      await session.abortTransaction();
       return next(new AppError('No sales order found with that ID', 404));
     }
 
     try {
       salesOrder.cancel(req.body.reason);
-      await salesOrder.save();
-
-      res.status(200).json({
-        status: 'success',
-        data: { order: salesOrder }
-      });
     } catch (error) {
+      await session.abortTransaction();
       return next(new AppError((error as Error).message, 400));
     }
+
+    const released = await StockReservation.releaseForSource(
+      'SALES_ORDER',
+      salesOrder._id,
+      req.body.reason || 'Sales order cancelled',
+      session
+    );
+
+    await salesOrder.save({ session });
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { order: salesOrder, releasedReservations: released.length }
+    });
   } catch (error) {
+    await session.abortTransaction();
     next(error);
+  } finally {
+    session.endSession();
   }
 });
 
-// @desc    Ship sales order
+// @desc    Ship sales order. Stock is issued against the order beforehand, which consumes its reservations;
+//          an order still holding reserved stock has not been issued and cannot ship
 // @route   POST /api/sales/orders/:id/ship
 // @access  Private (Shipping/Manager/Admin)
 router.post('/orders/:id/ship', restrictTo('ADMIN', 'MANAGER', 'SHIPPING'), [
   body('actualDeliveryDate').optional().isISO8601().withMessage('Invalid delivery date'),
 ], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
   try {
-    const salesOrder = await SalesOrder.findById(req.params.id);
+    const salesOrder = await SalesOrder.findById(req.params.id).session(session);
     if (!salesOrder) {
+      await session.abortTransaction();
       return next(new AppError('No sales order found with that ID', 404));
     }
 
     try {
       salesOrder.ship(req.body.actualDeliveryDate);
-      await salesOrder.save();
-
-      res.status(200).json({
-        status: 'success',
-        data: { order: salesOrder }
-      });
     } catch (error) {
+      await session.abortTransaction();
       return next(new AppError((error as Error).message, 400));
     }
+
+    const unissued = await StockReservation.find({
+      sourceType: 'SALES_ORDER',
+      sourceId: salesOrder._id,
+      status: 'ACTIVE'
+    }).session(session);
+    if (unissued.length) {
+      await session.abortTransaction();
+      const items = [...new Set(unissued.map(reservation => reservation.itemCode || reservation.itemName))].join(', ');
+      return next(new AppError(`Reserved stock has not been issued yet: ${items}. Issue it or release the reservations first`, 400));
+    }
+
+    await salesOrder.save({ session });
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { order: salesOrder }
+    });
   } catch (error) {
+    await session.abortTransaction();
     next(error);
+  } finally {
+    session.endSession();
   }
 });
 
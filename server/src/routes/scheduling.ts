@@ -0,0 +1,112 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
+import { scheduleWorkOrders, applySchedule, capacityLoad } from '../jobs/scheduling';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+router.use(protect);
+
+// @desc    Weekly load of open work orders against each work center's available time
+// @route   GET /api/production/schedule/load
+// @access  Private
+router.get('/load', [
+  query('from').optional().isISO8601().withMessage('Invalid from date'),
+  query('weeks').optional().isInt({ min: 1, max: 26 }).withMessage('Weeks must be between 1 and 26'),
+  query('workCenterId').optional().isMongoId().withMessage('Invalid work center ID'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const from = req.query.from ? new Date(req.query.from as string) : new Date();
+    const weeks = Number(req.query.weeks || 8);
+    const load = await capacityLoad(from, weeks, req.query.workCenterId as string | undefined);
+
+    res.status(200).json({
+      status: 'success',
+      data: { load }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Propose a finite schedule for released work orders
+// @route   POST /api/production/schedule
+// @access  Private
+router.post('/', [
+  body('direction').optional().isIn(['FORWARD', 'BACKWARD']).withMessage('Direction must be FORWARD or BACKWARD'),
+  body('from').optional().isISO8601().withMessage('Invalid from date'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const schedule = await scheduleWorkOrders({
+      direction: req.body.direction,
+      from: req.body.from ? new Date(req.body.from) : undefined
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: { schedule }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Schedule released work orders and write the proposed dates
+// @route   POST /api/production/schedule/apply
+// @access  Private (Manager/Admin)
+router.post('/apply', restrictTo('ADMIN', 'MANAGER'), [
+  body('direction').optional().isIn(['FORWARD', 'BACKWARD']).withMessage('Direction must be FORWARD or BACKWARD'),
+  body('from').optional().isISO8601().withMessage('Invalid from date'),
+  body('workOrderIds').optional().isArray().withMessage('workOrderIds must be an array'),
+  body('workOrderIds.*').optional().isMongoId().withMessage('Invalid work order ID'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    // Scheduled again inside the transaction so the dates written match the orders as they are now
+    const schedule = await scheduleWorkOrders({
+      direction: req.body.direction,
+      from: req.body.from ? new Date(req.body.from) : undefined
+    }, session);
+    const workOrderIds: string[] | undefined = req.body.workOrderIds;
+    const proposals = schedule.proposals.filter(proposal =>
+      proposal.changed && (!workOrderIds || workOrderIds.includes(proposal.workOrderId)));
+    if (!proposals.length) {
+      await session.abortTransaction();
+      return next(new AppError('No work order dates to change', 400));
+    }
+
+    const updated = await applySchedule(proposals, req.user!._id.toString(), session);
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      data: { schedule, updated }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+export default router;
@@ -0,0 +1,366 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { SerialNumber } from '../models/SerialNumber';
+import { Warehouse } from '../models/Warehouse';
+import { InventoryStock } from '../models/InventoryStock';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+import { Item } from '../models/Item';
+import { WorkOrder } from '../models/WorkOrder';
+import { SalesOrder } from '../models/SalesOrder';
+import { LotGenealogy } from '../models/LotGenealogy';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// @desc    Get serial numbers
+// @route   GET /api/inventory/serials
+// @access  Private
+router.get('/', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      itemId,
+      warehouseId,
+      search
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const query: any = {};
+
+    if (status && status !== 'ALL') {
+      query.status = status;
+    }
+
+    if (itemId) {
+      query.itemId = itemId;
+    }
+
+    if (warehouseId) {
+      query.warehouseId = warehouseId;
+    }
+
+    if (search) {
+      query.$or = [
+        { serialNumber: { $regex: search, $options: 'i' } },
+        { itemName: { $regex: search, $options: 'i' } },
+        { workOrderNumber: { $regex: search, $options: 'i' } },
+        { salesOrderNumber: { $regex: search, $options: 'i' } },
+        { customerName: { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const [serials, total] = await Promise.all([
+      SerialNumber.find(query)
+        .select('-history')
+        .sort({ producedAt: -1, serialNumber: 1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      SerialNumber.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(total / Number(limit));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        serials,
+        pagination: {
+          currentPage: Number(page),
+          totalPages,
+          totalCount: total,
+          hasNext: Number(page) < totalPages,
+          hasPrev: Number(page) > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get serial history with its work order, component lots and sales order
+// @route   GET /api/inventory/serials/:serialNumber
+// @access  Private
+router.get('/:serialNumber', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const serial = await SerialNumber.findOne({ serialNumber: req.params.serialNumber.toUpperCase() });
+    if (!serial) {
+      return res.status(404).json({
+        status: 'error',
+        message: '일련번호를 찾을 수 없습니다.'
+      });
+    }
+
+    // Components are the material lots issued to the work order that built the unit
+    const [workOrder, components, salesOrder] = await Promise.all([
+      serial.workOrderId
+        ? WorkOrder.findById(serial.workOrderId)
+          .select('orderNumber itemName quantity completedQuantity workCenter actualStartDate actualEndDate status')
+        : null,
+      serial.workOrderId
+        ? LotGenealogy.find({ workOrderId: serial.workOrderId, eventType: 'CONSUMPTION' })
+          .select('lotNumber itemId itemName itemCode quantity warehouseName eventDate')
+          .sort({ eventDate: 1 })
+        : [],
+      serial.salesOrderId
+        ? SalesOrder.findById(serial.salesOrderId)
+          .select('orderNumber orderDate deliveryDate status customerId')
+          .populate('customerId', 'name')
+        : null
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        serial,
+        workOrder,
+        components,
+        salesOrder
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Take a shipped serial back into stock as a customer return
+// @route   PATCH /api/inventory/serials/:serialNumber/return
+// @access  Private (Manager/Admin)
+router.patch('/:serialNumber/return', restrictTo('ADMIN', 'MANAGER'), [
+  body('warehouseId').isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  body('reason').notEmpty().withMessage('반품 사유는 필수입니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const serial = await SerialNumber.findOne({ serialNumber: req.params.serialNumber.toUpperCase() }).session(session);
+    if (!serial) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '일련번호를 찾을 수 없습니다.'
+      });
+    }
+
+    if (serial.status !== 'SHIPPED') {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '출하된 일련번호만 반품 처리할 수 있습니다.'
+      });
+    }
+
+    const [warehouse, item] = await Promise.all([
+      Warehouse.findOne({ _id: req.body.warehouseId, isActive: true }).session(session),
+      Item.findById(serial.itemId).select('cost').session(session)
+    ]);
+    if (!warehouse) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '창고를 찾을 수 없습니다.'
+      });
+    }
+
+    let stock = await InventoryStock.findOne({
+      itemId: serial.itemId,
+      warehouseId: warehouse._id,
+      ownerId: null
+    }).session(session);
+    if (!stock) {
+      stock = new InventoryStock({
+        itemId: serial.itemId,
+        itemName: serial.itemName,
+        itemCode: serial.itemCode,
+        warehouseId: warehouse._id,
+        warehouseName: warehouse.name,
+        currentQuantity: 0,
+        averageUnitCost: 0,
+        lastUpdatedBy: req.user!._id
+      });
+    }
+
+    const previousQuantity = stock.currentQuantity;
+    stock.addStock(1, item?.cost, serial.lotNumber);
+    stock.set('lastUpdatedBy', req.user!._id);
+    await stock.save({ session });
+
+    const transaction = new InventoryTransaction({
+      itemId: serial.itemId,
+      itemName: serial.itemName,
+      itemCode: serial.itemCode,
+      warehouseId: warehouse._id,
+      warehouseName: warehouse.name,
+      transactionType: 'RETURN',
+      quantity: 1,
+      unitPrice: item?.cost || stock.averageUnitCost,
+      previousQuantity,
+      currentQuantity: stock.currentQuantity,
+      referenceId: serial.salesOrderId,
+      referenceType: 'RETURN',
+      referenceNumber: serial.salesOrderNumber,
+      reason: `반품 입고 - ${serial.serialNumber}`,
+      notes: req.body.reason,
+      batchNumber: serial.lotNumber,
+      userId: req.user!._id,
+      userName: req.user!.name
+    });
+    await transaction.save({ session });
+
+    serial.set('warehouseId', warehouse._id);
+    serial.warehouseName = warehouse.name;
+    serial.recordEvent({
+      status: 'RETURNED',
+      referenceType: 'RETURN',
+      referenceNumber: serial.salesOrderNumber,
+      warehouseName: warehouse.name,
+      notes: req.body.reason,
+      userId: req.user!._id,
+      userName: req.user!.name
+    });
+    await serial.save({ session });
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '반품 처리가 완료되었습니다.',
+      data: {
+        serial,
+        transaction
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Scrap a serialized unit and remove it from stock
+// @route   PATCH /api/inventory/serials/:serialNumber/scrap
+// @access  Private (Manager/Admin)
+router.patch('/:serialNumber/scrap', restrictTo('ADMIN', 'MANAGER'), [
+  body('reason').notEmpty().withMessage('폐기 사유는 필수입니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const serial = await SerialNumber.findOne({ serialNumber: req.params.serialNumber.toUpperCase() }).session(session);
+    if (!serial) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '일련번호를 찾을 수 없습니다.'
+      });
+    }
+
+    if (!serial.isAvailable()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '창고에 있는 일련번호만 폐기할 수 있습니다.'
+      });
+    }
+
+    const stock = await InventoryStock.findOne({
+      itemId: serial.itemId,
+      warehouseId: serial.warehouseId,
+      ownerId: null
+    }).session(session);
+    const previousQuantity = stock?.currentQuantity || 0;
+
+    if (!stock || !stock.removeFromBins(1) || !stock.removeStock(1, serial.lotNumber)) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: `품목 ${serial.itemName}의 재고가 부족하여 폐기할 수 없습니다.`
+      });
+    }
+    stock.set('lastUpdatedBy', req.user!._id);
+    await stock.save({ session });
+
+    const transaction = new InventoryTransaction({
+      itemId: serial.itemId,
+      itemName: serial.itemName,
+      itemCode: serial.itemCode,
+      warehouseId: stock.warehouseId,
+      warehouseName: stock.warehouseName,
+      transactionType: 'ADJUSTMENT',
+      quantity: -1,
+      unitPrice: stock.averageUnitCost,
+      previousQuantity,
+      currentQuantity: stock.currentQuantity,
+      referenceId: serial._id,
+      referenceType: 'ADJUSTMENT',
+      referenceNumber: serial.serialNumber,
+      reason: `폐기 - ${serial.serialNumber}`,
+      notes: req.body.reason,
+      batchNumber: serial.lotNumber,
+      userId: req.user!._id,
+      userName: req.user!.name
+    });
+    await transaction.save({ session });
+
+    const warehouseName = serial.warehouseName;
+    serial.set('warehouseId', undefined);
+    serial.warehouseName = undefined;
+    serial.recordEvent({
+      status: 'SCRAPPED',
+      referenceType: 'SCRAP',
+      referenceNumber: serial.serialNumber,
+      warehouseName,
+      notes: req.body.reason,
+      userId: req.user!._id,
+      userName: req.user!.name
+    });
+    await serial.save({ session });
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '폐기 처리가 완료되었습니다.',
+      data: {
+        serial,
+        transaction
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+export default router;
@@ -0,0 +1,497 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { StockCount, IStockCount, CYCLE_COUNT_INTERVAL_DAYS } from '../models/StockCount';
+import { Warehouse } from '../models/Warehouse';
+import { InventoryStock } from '../models/InventoryStock';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+import { StorageBin } from '../models/StorageBin';
+import { Item } from '../models/Item';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// Validation middleware
+const validateStockCount = [
+  body('warehouseId').isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  body('scopeType').optional().isIn(['WAREHOUSE', 'ZONE', 'ABC_CLASS']).withMessage('유효한 실사 범위가 아닙니다.'),
+  body('zone').if(body('scopeType').equals('ZONE')).trim().notEmpty().withMessage('구역을 입력해주세요.'),
+  body('abcClass').if(body('scopeType').equals('ABC_CLASS')).isIn(['A', 'B', 'C']).withMessage('유효한 ABC 등급이 필요합니다.'),
+  body('varianceThresholdPercent').optional().isFloat({ min: 0 }).withMessage('차이 허용률은 0 이상이어야 합니다.'),
+  body('varianceThresholdValue').optional().isFloat({ min: 0 }).withMessage('차이 허용 금액은 0 이상이어야 합니다.'),
+];
+
+const canSeeSnapshot = (req: AuthRequest) => ['ADMIN', 'MANAGER'].includes(req.user!.role);
+
+// Counters get a blind sheet: the frozen book quantity and variances are left out
+const toBlindSheet = (count: IStockCount) => {
+  const { totalVarianceValue, lines, ...sheet } = count.toObject();
+  return {
+    ...sheet,
+    lines: lines.map((line: any) => {
+      const { snapshotQuantity, unitCost, varianceQuantity, varianceValue, variancePercent, ...blindLine } = line;
+      return blindLine;
+    })
+  };
+};
+
+// Freeze the book quantities for the requested scope. Consigned and customer-owned stock is
+// counted with its owner, not in our count sheets.
+const buildSnapshotLines = async (warehouseId: string, scopeType: string, zone?: string, abcClass?: string) => {
+  if (scopeType === 'ZONE') {
+    const bins = await StorageBin.find({ warehouseId, zone: zone!.toUpperCase(), isActive: true }).select('_id');
+    const binIds = new Set(bins.map(bin => bin._id.toString()));
+    const stocks = await InventoryStock.find({ warehouseId, ownerId: null, isActive: true, 'binStocks.binId': { $in: [...binIds] } });
+
+    return stocks.flatMap(stock => (stock.binStocks || [])
+      .filter(binStock => binIds.has(binStock.binId.toString()))
+      .map(binStock => ({
+        itemId: stock.itemId,
+        itemName: stock.itemName,
+        itemCode: stock.itemCode,
+        binId: binStock.binId,
+        binCode: binStock.binCode,
+        snapshotQuantity: binStock.quantity,
+        unitCost: stock.averageUnitCost
+      })));
+  }
+
+  const query: any = { warehouseId, ownerId: null, isActive: true };
+  if (scopeType === 'ABC_CLASS') {
+    const items = await Item.find({ abcClass, isActive: true }).select('_id');
+    query.itemId = { $in: items.map(item => item._id) };
+  }
+
+  const stocks = await InventoryStock.find(query).sort({ itemCode: 1 });
+  return stocks.map(stock => ({
+    itemId: stock.itemId,
+    itemName: stock.itemName,
+    itemCode: stock.itemCode,
+    snapshotQuantity: stock.currentQuantity,
+    unitCost: stock.averageUnitCost
+  }));
+};
+
+// @desc    Get all stock counts
+// @route   GET /api/inventory/counts
+// @access  Private
+router.get('/', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      warehouseId,
+      search
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const query: any = { isActive: true };
+
+    if (status && status !== 'ALL') {
+      query.status = status;
+    }
+
+    if (warehouseId) {
+      query.warehouseId = warehouseId;
+    }
+
+    if (search) {
+      query.$or = [
+        { countNumber: { $regex: search, $options: 'i' } },
+        { 'lines.itemName': { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const [counts, total] = await Promise.all([
+      StockCount.find(query)
+        .select('-lines')
+        .populate('createdBy', 'name email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      StockCount.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(total / Number(limit));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        counts: canSeeSnapshot(req) ? counts : counts.map(count => {
+          const { totalVarianceValue, ...summary } = count.toObject();
+          return summary;
+        }),
+        pagination: {
+          currentPage: Number(page),
+          totalPages,
+          totalCount: total,
+          hasNext: Number(page) < totalPages,
+          hasPrev: Number(page) > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get cycle count schedule per warehouse and ABC class
+// @route   GET /api/inventory/counts/schedule
+// @access  Private
+router.get('/schedule', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const warehouseQuery: any = { isActive: true };
+    if (req.query.warehouseId) {
+      warehouseQuery._id = req.query.warehouseId;
+    }
+
+    const [warehouses, items, counts] = await Promise.all([
+      Warehouse.find(warehouseQuery).select('name code').sort({ code: 1 }),
+      Item.find({ isActive: true, abcClass: { $exists: true } }).select('abcClass'),
+      StockCount.find({ status: 'APPROVED', isActive: true, 'scope.type': { $in: ['WAREHOUSE', 'ABC_CLASS'] } })
+        .select('warehouseId scope approvedAt')
+    ]);
+
+    const classOf = new Map(items.map(item => [item._id.toString(), item.abcClass!]));
+    const stocks = await InventoryStock.find({
+      isActive: true,
+      warehouseId: { $in: warehouses.map(warehouse => warehouse._id) },
+      itemId: { $in: items.map(item => item._id) }
+    }).select('warehouseId itemId');
+
+    const now = new Date();
+    const schedule = warehouses.flatMap(warehouse => (['A', 'B', 'C'] as const).map(abcClass => {
+      const itemCount = stocks.filter(stock =>
+        stock.warehouseId.toString() === warehouse._id.toString() && classOf.get(stock.itemId.toString()) === abcClass
+      ).length;
+
+      // A full warehouse count also counts every class
+      const lastCountedAt = counts
+        .filter(count => count.warehouseId.toString() === warehouse._id.toString()
+          && (count.scope.type === 'WAREHOUSE' || count.scope.abcClass === abcClass))
+        .reduce<Date | undefined>((latest, count) =>
+          count.approvedAt && (!latest || count.approvedAt > latest) ? count.approvedAt : latest, undefined);
+
+      const intervalDays = CYCLE_COUNT_INTERVAL_DAYS[abcClass];
+      const nextDueDate = lastCountedAt ? new Date(lastCountedAt.getTime() + intervalDays * 24 * 60 * 60 * 1000) : now;
+
+      return {
+        warehouseId: warehouse._id,
+        warehouseName: warehouse.name,
+        abcClass,
+        itemCount,
+        intervalDays,
+        lastCountedAt,
+        nextDueDate,
+        isDue: itemCount > 0 && nextDueDate <= now
+      };
+    }));
+
+    res.status(200).json({
+      status: 'success',
+      data: { schedule }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get single stock count sheet
+// @route   GET /api/inventory/counts/:id
+// @access  Private (blind for counters)
+router.get('/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const count = await StockCount.findById(req.params.id)
+      .populate('createdBy', 'name email')
+      .populate('approvedBy', 'name email');
+
+    if (!count) {
+      return res.status(404).json({
+        status: 'error',
+        message: '재고실사 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    const blind = !canSeeSnapshot(req);
+    const transactions = blind ? [] : await InventoryTransaction.find({
+      referenceId: count._id,
+      referenceType: 'ADJUSTMENT'
+    }).sort({ transactionDate: 1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        count: blind ? toBlindSheet(count) : count,
+        blind,
+        transactions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Generate a count sheet with a snapshot of current stock
+// @route   POST /api/inventory/counts
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), validateStockCount, async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const { warehouseId, scopeType = 'WAREHOUSE', zone, abcClass } = req.body;
+
+    const warehouse = await Warehouse.findOne({ _id: warehouseId, isActive: true });
+    if (!warehouse) {
+      return res.status(404).json({
+        status: 'error',
+        message: '창고 정보를 찾을 수 없습니다.'
+      });
+    }
+
+    const lines = await buildSnapshotLines(warehouseId, scopeType, zone, abcClass);
+    if (lines.length === 0) {
+      return res.status(400).json({
+        status: 'error',
+        message: '실사 대상 재고가 없습니다.'
+      });
+    }
+
+    const count = new StockCount({
+      warehouseId,
+      warehouseName: warehouse.name,
+      scope: {
+        type: scopeType,
+        zone: scopeType === 'ZONE' ? zone : undefined,
+        abcClass: scopeType === 'ABC_CLASS' ? abcClass : undefined
+      },
+      lines,
+      varianceThresholdPercent: req.body.varianceThresholdPercent,
+      varianceThresholdValue: req.body.varianceThresholdValue,
+      snapshotAt: new Date(),
+      notes: req.body.notes,
+      createdBy: req.user!._id
+    });
+    await count.save();
+
+    res.status(201).json({
+      status: 'success',
+      message: '재고실사 표가 생성되었습니다.',
+      data: {
+        count
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Record counted (or recounted) quantities
+// @route   PATCH /api/inventory/counts/:id/count
+// @access  Private
+router.patch('/:id/count', [
+  body('lines').isArray({ min: 1 }).withMessage('최소 1개 이상의 실사 수량이 필요합니다.'),
+  body('lines.*.lineId').isMongoId().withMessage('유효한 실사 항목 ID가 필요합니다.'),
+  body('lines.*.countedQuantity').isFloat({ min: 0 }).withMessage('실사 수량은 0 이상이어야 합니다.'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const count = await StockCount.findById(req.params.id);
+    if (!count) {
+      return res.status(404).json({
+        status: 'error',
+        message: '재고실사 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!count.canBeCounted()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '진행 중인 재고실사만 수량을 입력할 수 있습니다.'
+      });
+    }
+
+    for (const entry of req.body.lines) {
+      if (!count.recordCount(entry.lineId, Number(entry.countedQuantity), req.user!._id)) {
+        return res.status(400).json({
+          status: 'error',
+          message: `실사 항목을 찾을 수 없습니다. (${entry.lineId})`
+        });
+      }
+    }
+
+    count.set('updatedBy', req.user!._id);
+    await count.save();
+
+    const recountRequired = count.lines.filter(line => line.status === 'RECOUNT_REQUIRED').length;
+
+    res.status(200).json({
+      status: 'success',
+      message: recountRequired > 0
+        ? `허용 범위를 초과한 ${recountRequired}개 항목은 재실사가 필요합니다.`
+        : '실사 수량이 저장되었습니다.',
+      data: {
+        count: canSeeSnapshot(req) ? count : toBlindSheet(count),
+        recountRequired
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Approve count and post variance adjustments
+// @route   PATCH /api/inventory/counts/:id/approve
+// @access  Private (Manager/Admin)
+router.patch('/:id/approve', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const count = await StockCount.findById(req.params.id).session(session);
+    if (!count) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '재고실사 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!count.canBeApproved()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '미실사 또는 재실사 대기 항목이 있어 승인할 수 없습니다.'
+      });
+    }
+
+    const now = new Date();
+    const transactions = [];
+
+    for (const line of count.lines) {
+      if (line.varianceQuantity === 0) continue;
+
+      const stock = await InventoryStock.findOne({
+        itemId: line.itemId,
+        warehouseId: count.warehouseId,
+        ownerId: null
+      }).session(session);
+
+      if (!stock) {
+        await session.abortTransaction();
+        return res.status(400).json({
+          status: 'error',
+          message: `품목 ${line.itemName}의 재고 정보를 찾을 수 없습니다.`
+        });
+      }
+
+      const previousQuantity = stock.currentQuantity;
+      stock.adjustQuantity(line.varianceQuantity, line.binId?.toString(), line.binCode);
+      stock.set('lastUpdatedBy', req.user!._id);
+      await stock.save({ session });
+
+      const transaction = new InventoryTransaction({
+        itemId: line.itemId,
+        itemName: line.itemName,
+        itemCode: line.itemCode,
+        warehouseId: count.warehouseId,
+        warehouseName: count.warehouseName,
+        transactionType: 'ADJUSTMENT',
+        quantity: stock.currentQuantity - previousQuantity,
+        unitPrice: line.unitCost,
+        previousQuantity,
+        currentQuantity: stock.currentQuantity,
+        referenceId: count._id,
+        referenceType: 'ADJUSTMENT',
+        referenceNumber: count.countNumber,
+        transactionDate: now,
+        reason: `재고실사 조정 - ${count.countNumber}`,
+        notes: line.notes,
+        location: line.binCode,
+        userId: req.user!._id,
+        userName: req.user!.name
+      });
+      await transaction.save({ session });
+      transactions.push(transaction);
+    }
+
+    count.status = 'APPROVED';
+    count.approvedAt = now;
+    count.set('approvedBy', req.user!._id);
+    count.set('updatedBy', req.user!._id);
+    await count.save({ session });
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '재고실사가 승인되어 재고가 조정되었습니다.',
+      data: {
+        count,
+        transactions
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Cancel stock count
+// @route   PATCH /api/inventory/counts/:id/cancel
+// @access  Private (Manager/Admin)
+router.patch('/:id/cancel', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const count = await StockCount.findById(req.params.id);
+    if (!count) {
+      return res.status(404).json({
+        status: 'error',
+        message: '재고실사 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!count.canBeCancelled()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '이 재고실사는 취소할 수 없습니다.'
+      });
+    }
+
+    count.status = 'CANCELLED';
+    count.cancelledAt = new Date();
+    count.set('updatedBy', req.user!._id);
+    await count.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: '재고실사가 취소되었습니다.',
+      data: {
+        count
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,332 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import Warehouse from '../models/Warehouse';
+import StorageBin from '../models/StorageBin';
+import { InventoryStock } from '../models/InventoryStock';
+import { Item } from '../models/Item';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+
+// Mounted under /api/inventory/warehouses/:warehouseId/bins
+const router = express.Router({ mergeParams: true });
+
+// Apply authentication to all routes
+router.use(protect);
+
+const ITEM_CATEGORIES = ['RAW_MATERIAL', 'COMPONENT', 'FINISHED_PRODUCT', 'CONSUMABLE'];
+
+// Resolve the parent warehouse for every route in this router
+router.use(async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const warehouse = await Warehouse.findById(req.params.warehouseId);
+    if (!warehouse) {
+      return next(new AppError('No warehouse found with that ID', 404));
+    }
+    res.locals.warehouse = warehouse;
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get all bins of a warehouse with current occupancy
+// @route   GET /api/inventory/warehouses/:warehouseId/bins
+// @access  Private
+router.get('/', [
+  query('zone').optional().trim().isLength({ max: 10 }).withMessage('Zone cannot exceed 10 characters'),
+  query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const { zone, isActive = 'true' } = req.query;
+    const filter: any = {
+      warehouseId: req.params.warehouseId,
+      isActive: isActive === 'true'
+    };
+    if (zone) filter.zone = (zone as string).toUpperCase();
+
+    const [bins, occupancy] = await Promise.all([
+      StorageBin.find(filter).sort('code'),
+      StorageBin.getOccupancy(req.params.warehouseId)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bins: bins.map(bin => ({
+          ...bin.toObject(),
+          occupiedQuantity: occupancy.get(bin._id.toString()) || 0
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get bins as a zone → aisle → rack → bin tree
+// @route   GET /api/inventory/warehouses/:warehouseId/bins/tree
+// @access  Private
+router.get('/tree', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const [bins, occupancy] = await Promise.all([
+      StorageBin.find({ warehouseId: req.params.warehouseId, isActive: true }).sort('code'),
+      StorageBin.getOccupancy(req.params.warehouseId)
+    ]);
+
+    const zones: any[] = [];
+    for (const bin of bins) {
+      let zone = zones.find(z => z.zone === bin.zone);
+      if (!zone) {
+        zone = { zone: bin.zone, aisles: [] };
+        zones.push(zone);
+      }
+      let aisle = zone.aisles.find((a: any) => a.aisle === bin.aisle);
+      if (!aisle) {
+        aisle = { aisle: bin.aisle, racks: [] };
+        zone.aisles.push(aisle);
+      }
+      let rack = aisle.racks.find((r: any) => r.rack === bin.rack);
+      if (!rack) {
+        rack = { rack: bin.rack, bins: [] };
+        aisle.racks.push(rack);
+      }
+      rack.bins.push({
+        _id: bin._id,
+        bin: bin.bin,
+        code: bin.code,
+        capacity: bin.capacity,
+        allowedCategories: bin.allowedCategories,
+        occupiedQuantity: occupancy.get(bin._id.toString()) || 0
+      });
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        warehouse: res.locals.warehouse,
+        zones
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Suggest a putaway bin for an item
+// @route   GET /api/inventory/warehouses/:warehouseId/bins/putaway-suggestion
+// @access  Private
+router.get('/putaway-suggestion', [
+  query('itemId').isMongoId().withMessage('Invalid item ID'),
+  query('quantity').isFloat({ gt: 0 }).withMessage('Quantity must be greater than 0'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const item = await Item.findById(req.query.itemId);
+    if (!item) {
+      return next(new AppError('No item found with that ID', 404));
+    }
+
+    const suggestion = await StorageBin.suggestPutaway(
+      req.params.warehouseId,
+      item._id,
+      item.category,
+      Number(req.query.quantity)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        suggestion
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get single bin with the stock stored in it
+// @route   GET /api/inventory/warehouses/:warehouseId/bins/:binId
+// @access  Private
+router.get('/:binId', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const bin = await StorageBin.findOne({
+      _id: req.params.binId,
+      warehouseId: req.params.warehouseId
+    });
+
+    if (!bin) {
+      return next(new AppError('No bin found with that ID', 404));
+    }
+
+    const stocks = await InventoryStock.find({
+      warehouseId: req.params.warehouseId,
+      'binStocks.binId': bin._id,
+      isActive: true
+    }).select('itemId itemCode itemName binStocks');
+
+    const contents = stocks.map(stock => ({
+      itemId: stock.itemId,
+      itemCode: stock.itemCode,
+      itemName: stock.itemName,
+      quantity: stock.binStocks?.find(b => b.binId.toString() === bin._id.toString())?.quantity || 0
+    }));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bin,
+        contents
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create new bin
+// @route   POST /api/inventory/warehouses/:warehouseId/bins
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), [
+  body(['zone', 'aisle', 'rack', 'bin'])
+    .notEmpty()
+    .withMessage('Zone, aisle, rack and bin are required')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 10 })
+    .withMessage('Location segments cannot exceed 10 characters'),
+  body('capacity')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Capacity cannot be negative'),
+  body('allowedCategories')
+    .optional()
+    .isArray()
+    .withMessage('Allowed categories must be an array'),
+  body('allowedCategories.*')
+    .isIn(ITEM_CATEGORIES)
+    .withMessage('Invalid item category'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const { zone, aisle, rack, bin } = req.body;
+    const code = [zone, aisle, rack, bin].join('-');
+
+    const existingBin = await StorageBin.findOne({ warehouseId: req.params.warehouseId, code });
+    if (existingBin) {
+      return next(new AppError('Bin with this location already exists in the warehouse', 400));
+    }
+
+    const newBin = await StorageBin.create({
+      ...req.body,
+      warehouseId: req.params.warehouseId,
+      createdBy: req.user!._id
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        bin: newBin
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update bin capacity, categories or description
+// @route   PATCH /api/inventory/warehouses/:warehouseId/bins/:binId
+// @access  Private (Manager/Admin)
+router.patch('/:binId', restrictTo('ADMIN', 'MANAGER'), [
+  body('capacity')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Capacity cannot be negative'),
+  body('allowedCategories')
+    .optional()
+    .isArray()
+    .withMessage('Allowed categories must be an array'),
+  body('allowedCategories.*')
+    .isIn(ITEM_CATEGORIES)
+    .withMessage('Invalid item category'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const bin = await StorageBin.findOne({
+      _id: req.params.binId,
+      warehouseId: req.params.warehouseId
+    });
+
+    if (!bin) {
+      return next(new AppError('No bin found with that ID', 404));
+    }
+
+    // Moving a bin in the hierarchy would orphan the stock recorded against its code
+    const { capacity, allowedCategories, description, isActive } = req.body;
+    if (capacity !== undefined) bin.capacity = capacity === null ? undefined : capacity;
+    if (allowedCategories !== undefined) bin.allowedCategories = allowedCategories;
+    if (description !== undefined) bin.description = description;
+    if (isActive !== undefined) bin.isActive = isActive;
+    bin.set('updatedBy', req.user!._id);
+    await bin.save();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        bin
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Delete bin (soft delete)
+// @route   DELETE /api/inventory/warehouses/:warehouseId/bins/:binId
+// @access  Private (Manager/Admin)
+router.delete('/:binId', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const bin = await StorageBin.findOne({
+      _id: req.params.binId,
+      warehouseId: req.params.warehouseId
+    });
+
+    if (!bin) {
+      return next(new AppError('No bin found with that ID', 404));
+    }
+
+    const occupancy = await StorageBin.getOccupancy(req.params.warehouseId);
+    if (occupancy.get(bin._id.toString())) {
+      return next(new AppError('Bin still holds stock and cannot be deleted', 400));
+    }
+
+    bin.isActive = false;
+    bin.set('updatedBy', req.user!._id);
+    await bin.save();
+
+    res.status(204).json({
+      status: 'success',
+      data: null
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,91 @@
+import express from 'express';
+import { protect, AuthRequest } from '../middleware/auth';
+import { LotGenealogy, ILotTraceNode } from '../models/LotGenealogy';
+import { QualityControl } from '../models/Quality';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+const collectLotNumbers = (nodes: ILotTraceNode[], lots: Set<string> = new Set()) => {
+  for (const node of nodes) {
+    lots.add(node.lotNumber);
+    for (const workOrder of node.workOrders) {
+      collectLotNumbers(workOrder.lots, lots);
+    }
+  }
+  return lots;
+};
+
+// Quality results recorded against any lot in the tree, keyed by lot number
+const findInspections = async (nodes: ILotTraceNode[]) => {
+  const lots = [...collectLotNumbers(nodes)];
+  const inspections = await QualityControl.find({
+    $or: [{ lotNumber: { $in: lots } }, { batchNumber: { $in: lots } }]
+  }).select('qcNumber type lotNumber batchNumber inspectionDate status overallResult');
+
+  const byLot: Record<string, any[]> = {};
+  for (const inspection of inspections) {
+    const lot = inspection.lotNumber && lots.includes(inspection.lotNumber)
+      ? inspection.lotNumber
+      : inspection.batchNumber!;
+    byLot[lot] = byLot[lot] || [];
+    byLot[lot].push(inspection);
+  }
+  return byLot;
+};
+
+const sendTrace = async (
+  req: AuthRequest,
+  res: express.Response,
+  direction: 'BACKWARD' | 'FORWARD'
+) => {
+  const lotNumber = req.params.lot;
+  const itemId = req.query.itemId as string | undefined;
+
+  const roots = direction === 'BACKWARD'
+    ? await LotGenealogy.traceBackward(lotNumber, itemId)
+    : await LotGenealogy.traceForward(lotNumber, itemId);
+
+  if (roots.length === 0) {
+    return res.status(404).json({
+      status: 'error',
+      message: `로트 ${lotNumber}의 이력을 찾을 수 없습니다.`
+    });
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      lotNumber,
+      direction,
+      roots,
+      inspections: await findInspections(roots)
+    }
+  });
+};
+
+// @desc    Trace a lot back to the material lots and supplier receipts it was made from
+// @route   GET /api/traceability/:lot/backward
+// @access  Private
+router.get('/:lot/backward', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    await sendTrace(req, res, 'BACKWARD');
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Trace a lot forward to the products it went into and the customers it shipped to
+// @route   GET /api/traceability/:lot/forward
+// @access  Private
+router.get('/:lot/forward', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    await sendTrace(req, res, 'FORWARD');
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
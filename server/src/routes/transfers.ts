@@ -0,0 +1,519 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { StockTransfer } from '../models/StockTransfer';
+import { Warehouse } from '../models/Warehouse';
+import { InventoryStock } from '../models/InventoryStock';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+import { shipTransfer, receiveTransfer, cancelTransfer } from '../jobs/transfers';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// Validation middleware
+const validateTransfer = [
+  body('fromWarehouseId').isMongoId().withMessage('유효한 출발 창고 ID가 필요합니다.'),
+  body('toWarehouseId').isMongoId().withMessage('유효한 도착 창고 ID가 필요합니다.'),
+  body('items').isArray({ min: 1 }).withMessage('최소 1개 이상의 품목이 필요합니다.'),
+  body('items.*.itemId').isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  body('items.*.quantity').isFloat({ gt: 0 }).withMessage('수량은 0보다 큰 값이어야 합니다.'),
+  body('items.*.fromBinId').optional().isMongoId().withMessage('유효한 로케이션 ID가 필요합니다.'),
+  body('expectedArrivalDate').optional().isISO8601().withMessage('유효한 도착 예정일이 필요합니다.'),
+];
+
+// Resolve warehouses and item details for a transfer request body
+const buildTransfer = async (reqBody: any) => {
+  const { fromWarehouseId, toWarehouseId } = reqBody;
+  if (fromWarehouseId === toWarehouseId) {
+    return { error: '출발 창고와 도착 창고가 같을 수 없습니다.' };
+  }
+
+  const [fromWarehouse, toWarehouse] = await Promise.all([
+    Warehouse.findOne({ _id: fromWarehouseId, isActive: true }),
+    Warehouse.findOne({ _id: toWarehouseId, isActive: true })
+  ]);
+  if (!fromWarehouse || !toWarehouse) {
+    return { error: '창고 정보를 찾을 수 없습니다.' };
+  }
+
+  const items = [];
+  for (const item of reqBody.items) {
+    const stock = await InventoryStock.findOne({ itemId: item.itemId, warehouseId: fromWarehouseId, ownerId: null });
+    if (!stock) {
+      return { error: `출발 창고에 품목 재고가 없습니다. (${item.itemId})` };
+    }
+
+    let fromBinCode;
+    if (item.fromBinId) {
+      fromBinCode = stock.binStocks?.find(b => b.binId.toString() === item.fromBinId)?.binCode;
+      if (!fromBinCode) {
+        return { error: `품목 ${stock.itemName}이(가) 지정한 로케이션에 없습니다.` };
+      }
+    }
+
+    items.push({
+      itemId: item.itemId,
+      itemName: stock.itemName,
+      itemCode: stock.itemCode,
+      quantity: item.quantity,
+      batchNumber: item.batchNumber,
+      fromBinId: item.fromBinId,
+      fromBinCode,
+      notes: item.notes
+    });
+  }
+
+  return {
+    data: {
+      fromWarehouseId,
+      fromWarehouseName: fromWarehouse.name,
+      toWarehouseId,
+      toWarehouseName: toWarehouse.name,
+      items,
+      expectedArrivalDate: reqBody.expectedArrivalDate,
+      reason: reqBody.reason,
+      notes: reqBody.notes
+    }
+  };
+};
+
+// @desc    Get all stock transfers
+// @route   GET /api/inventory/transfers
+// @access  Private
+router.get('/', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      fromWarehouseId,
+      toWarehouseId,
+      search
+    } = req.query;
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const query: any = { isActive: true };
+
+    if (status && status !== 'ALL') {
+      query.status = status;
+    }
+
+    if (fromWarehouseId) {
+      query.fromWarehouseId = fromWarehouseId;
+    }
+
+    if (toWarehouseId) {
+      query.toWarehouseId = toWarehouseId;
+    }
+
+    if (search) {
+      query.$or = [
+        { transferNumber: { $regex: search, $options: 'i' } },
+        { 'items.itemName': { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const [transfers, total] = await Promise.all([
+      StockTransfer.find(query)
+        .populate('createdBy', 'name email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      StockTransfer.countDocuments(query)
+    ]);
+
+    const totalPages = Math.ceil(total / Number(limit));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        transfers,
+        pagination: {
+          currentPage: Number(page),
+          totalPages,
+          totalCount: total,
+          hasNext: Number(page) < totalPages,
+          hasPrev: Number(page) > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get quantities currently in transit, per destination and item
+// @route   GET /api/inventory/transfers/in-transit
+// @access  Private
+router.get('/in-transit', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const match: any = { isActive: true, status: 'IN_TRANSIT' };
+    if (req.query.toWarehouseId) {
+      match.toWarehouseId = new mongoose.Types.ObjectId(req.query.toWarehouseId as string);
+    }
+
+    const inTransit = await StockTransfer.aggregate([
+      { $match: match },
+      { $unwind: '$items' },
+      {
+        $group: {
+          _id: { toWarehouseId: '$toWarehouseId', itemId: '$items.itemId' },
+          toWarehouseName: { $first: '$toWarehouseName' },
+          itemName: { $first: '$items.itemName' },
+          itemCode: { $first: '$items.itemCode' },
+          quantity: { $sum: '$items.quantity' },
+          value: { $sum: { $multiply: ['$items.quantity', { $ifNull: ['$items.unitCost', 0] }] } },
+          transfers: { $addToSet: '$transferNumber' }
+        }
+      },
+      { $sort: { toWarehouseName: 1, itemName: 1 } }
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        inTransit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get single stock transfer
+// @route   GET /api/inventory/transfers/:id
+// @access  Private
+router.get('/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const transfer = await StockTransfer.findById(req.params.id)
+      .populate('createdBy', 'name email')
+      .populate('approvedBy', 'name email')
+      .populate('shippedBy', 'name email')
+      .populate('receivedBy', 'name email');
+
+    if (!transfer) {
+      return res.status(404).json({
+        status: 'error',
+        message: '창고 이동 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    const transactions = await InventoryTransaction.find({
+      referenceId: transfer._id,
+      referenceType: 'TRANSFER'
+    }).sort({ transactionDate: 1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        transfer,
+        transactions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create stock transfer (DRAFT)
+// @route   POST /api/inventory/transfers
+// @access  Private
+router.post('/', validateTransfer, async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const built = await buildTransfer(req.body);
+    if (built.error) {
+      return res.status(400).json({
+        status: 'error',
+        message: built.error
+      });
+    }
+
+    const transfer = new StockTransfer({
+      ...built.data,
+      createdBy: req.user!._id
+    });
+    await transfer.save();
+
+    res.status(201).json({
+      status: 'success',
+      message: '창고 이동이 등록되었습니다.',
+      data: {
+        transfer
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update stock transfer (DRAFT only)
+// @route   PUT /api/inventory/transfers/:id
+// @access  Private
+router.put('/:id', validateTransfer, async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const transfer = await StockTransfer.findById(req.params.id);
+    if (!transfer) {
+      return res.status(404).json({
+        status: 'error',
+        message: '창고 이동 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!transfer.canBeEdited()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '작성 중인 창고 이동만 수정할 수 있습니다.'
+      });
+    }
+
+    const built = await buildTransfer(req.body);
+    if (built.error) {
+      return res.status(400).json({
+        status: 'error',
+        message: built.error
+      });
+    }
+
+    transfer.set({ ...built.data, updatedBy: req.user!._id });
+    await transfer.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: '창고 이동이 수정되었습니다.',
+      data: {
+        transfer
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Approve stock transfer
+// @route   PATCH /api/inventory/transfers/:id/approve
+// @access  Private (Manager/Admin)
+router.patch('/:id/approve', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const transfer = await StockTransfer.findById(req.params.id);
+    if (!transfer) {
+      return res.status(404).json({
+        status: 'error',
+        message: '창고 이동 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!transfer.canBeApproved()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '이 창고 이동은 승인할 수 없습니다.'
+      });
+    }
+
+    transfer.status = 'APPROVED';
+    transfer.approvedAt = new Date();
+    transfer.set('approvedBy', req.user!._id);
+    transfer.set('updatedBy', req.user!._id);
+    await transfer.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: '창고 이동이 승인되었습니다.',
+      data: {
+        transfer
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Ship stock transfer. Goods stay on the source stock, held by a transfer
+//          reservation while in transit, valued at the source average cost.
+// @route   PATCH /api/inventory/transfers/:id/ship
+// @access  Private
+router.patch('/:id/ship', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const transfer = await StockTransfer.findById(req.params.id).session(session);
+    if (!transfer) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '창고 이동 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!transfer.canBeShipped()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '승인된 창고 이동만 출하할 수 있습니다.'
+      });
+    }
+
+    const { error } = await shipTransfer(transfer, { id: req.user!._id.toString(), name: req.user!.name }, session);
+    if (error) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: error
+      });
+    }
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '창고 이동 품목이 출하되었습니다.',
+      data: {
+        transfer
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Receive stock transfer. The OUT leg at the source, dated at shipment, and
+//          the IN leg at the destination are written in one transaction.
+// @route   PATCH /api/inventory/transfers/:id/receive
+// @access  Private
+router.patch('/:id/receive', [
+  body('putaway').optional().isArray().withMessage('적치 지정 정보는 배열이어야 합니다.'),
+  body('putaway.*.itemId').isMongoId().withMessage('유효한 품목 ID가 필요합니다.'),
+  body('putaway.*.binId').isMongoId().withMessage('유효한 로케이션 ID가 필요합니다.'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      status: 'error',
+      message: '입력 데이터가 올바르지 않습니다.',
+      errors: errors.array()
+    });
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const transfer = await StockTransfer.findById(req.params.id).session(session);
+    if (!transfer) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '창고 이동 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!transfer.canBeReceived()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '이동 중인 창고 이동만 입고 처리할 수 있습니다.'
+      });
+    }
+
+    const { transactions, recalculations, error } = await receiveTransfer(
+      transfer,
+      req.body.putaway || [],
+      { id: req.user!._id.toString(), name: req.user!.name },
+      session
+    );
+    if (error) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: error
+      });
+    }
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '창고 이동 입고가 완료되었습니다.',
+      data: {
+        transfer,
+        transactions,
+        recalculations
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+// @desc    Cancel stock transfer, releasing in-transit reservations
+// @route   PATCH /api/inventory/transfers/:id/cancel
+// @access  Private
+router.patch('/:id/cancel', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const transfer = await StockTransfer.findById(req.params.id).session(session);
+    if (!transfer) {
+      await session.abortTransaction();
+      return res.status(404).json({
+        status: 'error',
+        message: '창고 이동 내역을 찾을 수 없습니다.'
+      });
+    }
+
+    if (!transfer.canBeCancelled()) {
+      await session.abortTransaction();
+      return res.status(400).json({
+        status: 'error',
+        message: '이 창고 이동은 취소할 수 없습니다.'
+      });
+    }
+
+    await cancelTransfer(transfer, req.body.reason, { id: req.user!._id.toString(), name: req.user!.name }, session);
+
+    await session.commitTransaction();
+
+    res.status(200).json({
+      status: 'success',
+      message: '창고 이동이 취소되었습니다.',
+      data: {
+        transfer
+      }
+    });
+  } catch (error) {
+    await session.abortTransaction();
+    next(error);
+  } finally {
+    session.endSession();
+  }
+});
+
+export default router;
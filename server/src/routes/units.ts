@@ -0,0 +1,201 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { UnitOfMeasure, UNIT_CATEGORIES, DEFAULT_UNITS } from '../models/UnitOfMeasure';
+import Item from '../models/Item';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// @desc    Get units of measure
+// @route   GET /api/units
+// @access  Private
+router.get('/', [
+  query('category').optional().isIn(UNIT_CATEGORIES).withMessage('Invalid unit category'),
+  query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const filter: any = { isActive: req.query.isActive !== 'false' };
+    if (req.query.category) filter.category = req.query.category;
+
+    const units = await UnitOfMeasure.find(filter).sort({ category: 1, ratio: 1, code: 1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        units
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Convert a quantity into an item's base unit
+// @route   GET /api/units/convert
+// @access  Private
+router.get('/convert', [
+  query('itemId').isMongoId().withMessage('Invalid item ID'),
+  query('unit').notEmpty().withMessage('Unit is required'),
+  query('quantity').isFloat().withMessage('Quantity must be a number'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const item = await Item.findById(req.query.itemId).select('unit unitConversions');
+    if (!item) {
+      return next(new AppError('No item found with that ID', 404));
+    }
+
+    const baseQuantity = await UnitOfMeasure.toBase(item, Number(req.query.quantity), req.query.unit as string);
+    if (baseQuantity === null) {
+      return next(new AppError(`${req.query.unit} cannot be converted to ${item.unit} for this item`, 400));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        baseQuantity,
+        baseUnit: item.unit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Register the standard units that are not in the master yet
+// @route   POST /api/units/defaults
+// @access  Private (Manager/Admin)
+router.post('/defaults', restrictTo('ADMIN', 'MANAGER'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const existing = await UnitOfMeasure.find({ code: { $in: DEFAULT_UNITS.map(unit => unit.code) } }).select('code');
+    const missing = DEFAULT_UNITS.filter(unit => !existing.find(saved => saved.code === unit.code));
+    const units = await UnitOfMeasure.insertMany(missing.map(unit => ({ ...unit, createdBy: req.user!._id })));
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        units
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create unit of measure
+// @route   POST /api/units
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), [
+  body('code')
+    .notEmpty()
+    .withMessage('Unit code is required')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 20 })
+    .withMessage('Unit code cannot exceed 20 characters'),
+  body('name')
+    .notEmpty()
+    .withMessage('Unit name is required')
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Unit name cannot exceed 50 characters'),
+  body('category')
+    .isIn(UNIT_CATEGORIES)
+    .withMessage('Invalid unit category'),
+  body('ratio')
+    .isFloat({ gt: 0 })
+    .withMessage('Ratio must be a positive number'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const existingUnit = await UnitOfMeasure.findOne({ code: req.body.code });
+    if (existingUnit) {
+      return next(new AppError('Unit with this code already exists', 400));
+    }
+
+    const unit = await UnitOfMeasure.create({
+      code: req.body.code,
+      name: req.body.name,
+      category: req.body.category,
+      ratio: req.body.ratio,
+      createdBy: req.user!._id
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        unit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update unit of measure
+// @route   PATCH /api/units/:id
+// @access  Private (Manager/Admin)
+router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
+  body('name')
+    .optional()
+    .notEmpty()
+    .withMessage('Unit name cannot be empty')
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Unit name cannot exceed 50 characters'),
+  body('ratio')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Ratio must be a positive number'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const unit = await UnitOfMeasure.findById(req.params.id);
+    if (!unit) {
+      return next(new AppError('No unit found with that ID', 404));
+    }
+
+    // Code and category stay fixed: items and documents refer to the code, and moving a unit to
+    // another category would silently change what its quantities mean
+    if (req.body.name !== undefined) unit.name = req.body.name;
+    if (req.body.ratio !== undefined) unit.ratio = req.body.ratio;
+    if (req.body.isActive !== undefined) unit.isActive = req.body.isActive;
+    await unit.save();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        unit
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,165 @@
+import express from 'express';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+import { InventoryTransaction } from '../models/InventoryTransaction';
+import { ValuationSetting, ITEM_CATEGORIES, ItemCategory, ValuationMethod } from '../models/ValuationSetting';
+import { Item } from '../models/Item';
+import { body, query, validationResult } from 'express-validator';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// @desc    Get valuation method per item category
+// @route   GET /api/inventory/valuation/methods
+// @access  Private
+router.get('/methods', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const methods = await ValuationSetting.getMethodsByCategory();
+
+    res.status(200).json({
+      status: 'success',
+      data: { methods }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Set valuation method per item category
+// @route   PUT /api/inventory/valuation/methods
+// @access  Private (Accounting/Manager/Admin)
+router.put('/methods', restrictTo('ADMIN', 'MANAGER', 'ACCOUNTING'), [
+  body('methods').isObject().withMessage('카테고리별 평가 방법이 필요합니다.'),
+  body('methods.*').isIn(['MOVING_AVERAGE', 'FIFO', 'STANDARD']).withMessage('유효하지 않은 평가 방법입니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    const unknown = Object.keys(req.body.methods).find(category => !ITEM_CATEGORIES.includes(category as ItemCategory));
+    if (unknown) {
+      return res.status(400).json({
+        status: 'error',
+        message: `알 수 없는 품목 카테고리입니다: ${unknown}`
+      });
+    }
+
+    for (const [category, method] of Object.entries(req.body.methods)) {
+      await ValuationSetting.findOneAndUpdate(
+        { category },
+        { method, updatedBy: req.user!._id },
+        { upsert: true, runValidators: true }
+      );
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: '평가 방법이 저장되었습니다.',
+      data: { methods: await ValuationSetting.getMethodsByCategory() }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get period-end inventory valuation replayed from transaction history
+// @route   GET /api/inventory/valuation
+// @access  Private
+router.get('/', [
+  query('asOf').optional().isISO8601().withMessage('유효한 기준일이 필요합니다.'),
+  query('warehouseId').optional().isMongoId().withMessage('유효한 창고 ID가 필요합니다.'),
+  query('category').optional().isIn(ITEM_CATEGORIES).withMessage('유효하지 않은 품목 카테고리입니다.')
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        status: 'error',
+        message: '입력 데이터가 올바르지 않습니다.',
+        errors: errors.array()
+      });
+    }
+
+    // A date without a time means the close of that day
+    const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+    if (req.query.asOf && (req.query.asOf as string).length <= 10) {
+      asOf.setHours(23, 59, 59, 999);
+    }
+
+    const [positions, methods] = await Promise.all([
+      InventoryTransaction.replayValuation(asOf, req.query.warehouseId as string | undefined),
+      ValuationSetting.getMethodsByCategory()
+    ]);
+
+    const items = await Item.find({ _id: { $in: positions.map(position => position.itemId) } })
+      .select('category cost unit');
+
+    const lines = [];
+    for (const position of positions) {
+      if (position.quantity === 0) continue;
+
+      const item = items.find(i => i._id.toString() === position.itemId);
+      const category = item?.category;
+      if (req.query.category && category !== req.query.category) continue;
+
+      const method: ValuationMethod = category ? methods[category] : 'MOVING_AVERAGE';
+      const value = method === 'FIFO'
+        ? position.fifoValue
+        : method === 'STANDARD'
+          ? Math.max(0, position.quantity) * (item?.cost || 0)
+          : position.movingAverageValue;
+
+      lines.push({
+        ...position,
+        category,
+        unit: item?.unit,
+        method,
+        standardCost: item?.cost || 0,
+        unitCost: position.quantity > 0 ? value / position.quantity : 0,
+        value
+      });
+    }
+
+    lines.sort((a, b) => a.warehouseName.localeCompare(b.warehouseName) || (a.itemCode || '').localeCompare(b.itemCode || ''));
+
+    const byWarehouse = new Map<string, { warehouseId: string; warehouseName: string; quantity: number; value: number }>();
+    const byCategory = new Map<string, { category: string; method: ValuationMethod; quantity: number; value: number }>();
+    for (const line of lines) {
+      const warehouse = byWarehouse.get(line.warehouseId)
+        || { warehouseId: line.warehouseId, warehouseName: line.warehouseName, quantity: 0, value: 0 };
+      warehouse.quantity += line.quantity;
+      warehouse.value += line.value;
+      byWarehouse.set(line.warehouseId, warehouse);
+
+      const categoryKey = line.category || 'UNKNOWN';
+      const category = byCategory.get(categoryKey)
+        || { category: categoryKey, method: line.method, quantity: 0, value: 0 };
+      category.quantity += line.quantity;
+      category.value += line.value;
+      byCategory.set(categoryKey, category);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        asOf,
+        methods,
+        lines,
+        byWarehouse: [...byWarehouse.values()],
+        byCategory: [...byCategory.values()],
+        totalValue: lines.reduce((sum, line) => sum + line.value, 0)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,296 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import Warehouse from '../models/Warehouse';
+import { InventoryStock } from '../models/InventoryStock';
+import { StockTransfer } from '../models/StockTransfer';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// @desc    Get all warehouses
+// @route   GET /api/inventory/warehouses
+// @access  Private
+router.get('/', [
+  query('type').optional().isIn(['RAW_MATERIAL', 'WIP', 'FINISHED_GOODS', 'QUARANTINE']).withMessage('Invalid warehouse type'),
+  query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term too long'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const {
+      type,
+      isActive = 'true',
+      page = 1,
+      limit = 50,
+      search,
+      sort = 'code'
+    } = req.query;
+
+    const filter: any = {};
+
+    if (type) filter.type = type;
+    filter.isActive = isActive === 'true';
+
+    if (search) {
+      filter.$or = [
+        { code: { $regex: search, $options: 'i' } },
+        { name: { $regex: search, $options: 'i' } },
+        { managerName: { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [warehouses, totalCount] = await Promise.all([
+      Warehouse.find(filter)
+        .populate('managerId', 'name email')
+        .sort(sort as string)
+        .skip(skip)
+        .limit(Number(limit)),
+      Warehouse.countDocuments(filter)
+    ]);
+
+    const totalPages = Math.ceil(totalCount / Number(limit));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        warehouses,
+        pagination: {
+          currentPage: Number(page),
+          totalPages,
+          totalCount,
+          hasNext: Number(page) < totalPages,
+          hasPrev: Number(page) > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get single warehouse
+// @route   GET /api/inventory/warehouses/:id
+// @access  Private
+router.get('/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const warehouse = await Warehouse.findById(req.params.id)
+      .populate('managerId', 'name email department')
+      .populate('createdBy', 'name email');
+
+    if (!warehouse) {
+      return next(new AppError('No warehouse found with that ID', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        warehouse
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create new warehouse
+// @route   POST /api/inventory/warehouses
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), [
+  body('code')
+    .notEmpty()
+    .withMessage('Warehouse code is required')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 20 })
+    .withMessage('Warehouse code cannot exceed 20 characters'),
+  body('name')
+    .notEmpty()
+    .withMessage('Warehouse name is required')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Warehouse name cannot exceed 100 characters'),
+  body('type')
+    .isIn(['RAW_MATERIAL', 'WIP', 'FINISHED_GOODS', 'QUARANTINE'])
+    .withMessage('Invalid warehouse type'),
+  body('managerId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid manager ID'),
+  body('address')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Address cannot exceed 500 characters'),
+  body('allowNegativeStock')
+    .optional()
+    .isBoolean()
+    .withMessage('allowNegativeStock must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const existingWarehouse = await Warehouse.findOne({ code: req.body.code });
+    if (existingWarehouse) {
+      return next(new AppError('Warehouse with this code already exists', 400));
+    }
+
+    const newWarehouse = await Warehouse.create({
+      ...req.body,
+      createdBy: req.user!._id
+    });
+    await newWarehouse.populate('managerId', 'name email');
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        warehouse: newWarehouse
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update warehouse
+// @route   PATCH /api/inventory/warehouses/:id
+// @access  Private (Manager/Admin)
+router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
+  body('code')
+    .optional()
+    .notEmpty()
+    .withMessage('Warehouse code cannot be empty')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 20 })
+    .withMessage('Warehouse code cannot exceed 20 characters'),
+  body('name')
+    .optional()
+    .notEmpty()
+    .withMessage('Warehouse name cannot be empty')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Warehouse name cannot exceed 100 characters'),
+  body('type')
+    .optional()
+    .isIn(['RAW_MATERIAL', 'WIP', 'FINISHED_GOODS', 'QUARANTINE'])
+    .withMessage('Invalid warehouse type'),
+  body('managerId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid manager ID'),
+  body('allowNegativeStock')
+    .optional()
+    .isBoolean()
+    .withMessage('allowNegativeStock must be a boolean'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const warehouse = await Warehouse.findById(req.params.id);
+    if (!warehouse) {
+      return next(new AppError('No warehouse found with that ID', 404));
+    }
+
+    if (req.body.code && req.body.code !== warehouse.code) {
+      const existingWarehouse = await Warehouse.findOne({ code: req.body.code });
+      if (existingWarehouse) {
+        return next(new AppError('Warehouse with this code already exists', 400));
+      }
+    }
+
+    const updatedWarehouse = await Warehouse.findByIdAndUpdate(
+      req.params.id,
+      { ...req.body, updatedBy: req.user!._id },
+      {
+        new: true,
+        runValidators: true
+      }
+    ).populate('managerId', 'name email');
+
+    // Keep the denormalized warehouse name on stock rows in sync
+    if (req.body.name && req.body.name !== warehouse.name) {
+      await InventoryStock.updateMany(
+        { warehouseId: warehouse._id },
+        { warehouseName: req.body.name }
+      );
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        warehouse: updatedWarehouse
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Delete warehouse (soft delete)
+// @route   DELETE /api/inventory/warehouses/:id
+// @access  Private (Admin only)
+router.delete('/:id', restrictTo('ADMIN'), async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const warehouse = await Warehouse.findById(req.params.id);
+
+    if (!warehouse) {
+      return next(new AppError('No warehouse found with that ID', 404));
+    }
+
+    // A warehouse still holding, owing or reserving stock cannot be removed
+    const stockInUse = await InventoryStock.countDocuments({
+      warehouseId: warehouse._id,
+      isActive: true,
+      $or: [
+        { currentQuantity: { $ne: 0 } },
+        { reservedQuantity: { $ne: 0 } }
+      ]
+    });
+
+    if (stockInUse > 0) {
+      return next(new AppError(`Warehouse is in use by ${stockInUse} stock record(s) and cannot be deleted`, 400));
+    }
+
+    const openTransfers = await StockTransfer.countDocuments({
+      $or: [{ fromWarehouseId: warehouse._id }, { toWarehouseId: warehouse._id }],
+      status: { $in: ['DRAFT', 'APPROVED', 'IN_TRANSIT'] },
+      isActive: true
+    });
+
+    if (openTransfers > 0) {
+      return next(new AppError(`Warehouse has ${openTransfers} open transfer(s) and cannot be deleted`, 400));
+    }
+
+    await Warehouse.findByIdAndUpdate(req.params.id, {
+      isActive: false,
+      updatedBy: req.user!._id
+    });
+
+    res.status(204).json({
+      status: 'success',
+      data: null
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,246 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import WorkCenter from '../models/WorkCenter';
+import { WorkOrder, OPEN_WORK_ORDER_STATUSES } from '../models/WorkOrder';
+import { AppError } from '../middleware/errorHandler';
+import { protect, restrictTo, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(protect);
+
+// Calendar and capacity fields shared by create and update
+const calendarValidators = [
+  body('shifts')
+    .optional()
+    .isArray()
+    .withMessage('Shifts must be an array'),
+  body('shifts.*.name')
+    .notEmpty()
+    .withMessage('Shift name is required'),
+  body('shifts.*.startTime')
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Shift times must be HH:mm'),
+  body('shifts.*.endTime')
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Shift times must be HH:mm'),
+  body('shifts.*.breakMinutes')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Break cannot be negative'),
+  body('shifts.*.days')
+    .optional()
+    .isArray()
+    .withMessage('Shift days must be an array'),
+  body('shifts.*.days.*')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Shift days must be weekdays 0-6'),
+  body('holidays')
+    .optional()
+    .isArray()
+    .withMessage('Holidays must be an array'),
+  body('holidays.*')
+    .isISO8601()
+    .withMessage('Invalid holiday date'),
+  body('efficiency')
+    .optional()
+    .isFloat({ min: 1, max: 200 })
+    .withMessage('Efficiency must be between 1 and 200'),
+  body('parallelCapacity')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Parallel capacity must be a positive integer'),
+];
+
+// @desc    Get all work centers
+// @route   GET /api/production/work-centers
+// @access  Private
+router.get('/', [
+  query('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term too long'),
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const { isActive = 'true', search } = req.query;
+
+    const filter: any = { isActive: isActive === 'true' };
+    if (search) {
+      filter.$or = [
+        { code: { $regex: search, $options: 'i' } },
+        { name: { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const workCenters = await WorkCenter.find(filter).sort('code');
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        workCenters
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get single work center
+// @route   GET /api/production/work-centers/:id
+// @access  Private
+router.get('/:id', async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const workCenter = await WorkCenter.findById(req.params.id)
+      .populate('createdBy', 'name email');
+
+    if (!workCenter) {
+      return next(new AppError('No work center found with that ID', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        workCenter
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create new work center
+// @route   POST /api/production/work-centers
+// @access  Private (Manager/Admin)
+router.post('/', restrictTo('ADMIN', 'MANAGER'), [
+  body('code')
+    .notEmpty()
+    .withMessage('Work center code is required')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 20 })
+    .withMessage('Work center code cannot exceed 20 characters'),
+  body('name')
+    .notEmpty()
+    .withMessage('Work center name is required')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Work center name cannot exceed 100 characters'),
+  body('dailyCapacity')
+    .isFloat({ gt: 0 })
+    .withMessage('Daily capacity must be positive'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Description cannot exceed 1000 characters'),
+  ...calendarValidators,
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const existingWorkCenter = await WorkCenter.findOne({ code: req.body.code });
+    if (existingWorkCenter) {
+      return next(new AppError('Work center with this code already exists', 400));
+    }
+
+    const newWorkCenter = await WorkCenter.create({
+      ...req.body,
+      createdBy: req.user!._id
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        workCenter: newWorkCenter
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update work center
+// @route   PATCH /api/production/work-centers/:id
+// @access  Private (Manager/Admin)
+router.patch('/:id', restrictTo('ADMIN', 'MANAGER'), [
+  body('code')
+    .optional()
+    .notEmpty()
+    .withMessage('Work center code cannot be empty')
+    .trim()
+    .toUpperCase()
+    .isLength({ max: 20 })
+    .withMessage('Work center code cannot exceed 20 characters'),
+  body('name')
+    .optional()
+    .notEmpty()
+    .withMessage('Work center name cannot be empty')
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Work center name cannot exceed 100 characters'),
+  body('dailyCapacity')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Daily capacity must be positive'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  ...calendarValidators,
+], async (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(new AppError(errors.array()[0].msg, 400));
+    }
+
+    const workCenter = await WorkCenter.findById(req.params.id);
+    if (!workCenter) {
+      return next(new AppError('No work center found with that ID', 404));
+    }
+
+    // Open work orders refer to the center by code, so it cannot change under them
+    if (req.body.code && req.body.code !== workCenter.code) {
+      const openOrders = await WorkOrder.countDocuments({
+        workCenterId: workCenter._id,
+        status: { $in: OPEN_WORK_ORDER_STATUSES },
+        isActive: true
+      });
+      if (openOrders > 0) {
+        return next(new AppError('Cannot change the code of a work center with open work orders', 400));
+      }
+
+      const existingWorkCenter = await WorkCenter.findOne({ code: req.body.code });
+      if (existingWorkCenter) {
+        return next(new AppError('Work center with this code already exists', 400));
+      }
+    }
+
+    const updatedWorkCenter = await WorkCenter.findByIdAndUpdate(
+      req.params.id,
+      { ...req.body, updatedBy: req.user!._id },
+      {
+        new: true,
+        runValidators: true
+      }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        workCenter: updatedWorkCenter
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,131 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import { InventoryPeriod } from '../../src/models/InventoryPeriod';
+import { InventoryRecalculation } from '../../src/models/InventoryRecalculation';
+import { resolvePostingDate, resequenceTransactions } from '../../src/jobs/backdating';
+import '../setup';
+
+describe('Negative stock and backdated postings', () => {
+  let userId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+  let session: ClientSession;
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+    session = await mongoose.startSession();
+  });
+
+  afterEach(async () => {
+    await session.endSession();
+  });
+
+  const record = (date: string, quantity: number, unitPrice: number, previousQuantity: number) =>
+    InventoryTransaction.create({
+      itemId,
+      itemName: 'Bolt',
+      warehouseId,
+      warehouseName: 'Main',
+      transactionType: quantity > 0 ? 'IN' : 'OUT',
+      quantity,
+      unitPrice,
+      previousQuantity,
+      currentQuantity: previousQuantity + quantity,
+      transactionDate: new Date(date),
+      userId,
+      userName: 'Tester'
+    });
+
+  it('should let an issue run stock negative only when asked to', async () => {
+    const stock = await InventoryStock.create({
+      itemId,
+      itemName: 'Bolt',
+      warehouseId,
+      warehouseName: 'Main',
+      currentQuantity: 5,
+      averageUnitCost: 100,
+      lastUpdatedBy: userId
+    });
+
+    expect(stock.removeStock(8)).toBe(false);
+    expect(stock.removeStock(8, undefined, true)).toBe(true);
+    await stock.save();
+
+    expect(stock.currentQuantity).toBe(-3);
+    expect(stock.availableQuantity).toBe(0);
+    expect(stock.totalValue).toBe(0);
+
+    // The receipt that catches up covers the shortfall at its own cost
+    stock.addStock(10, 120);
+    expect(stock.currentQuantity).toBe(7);
+    expect(stock.averageUnitCost).toBe(120);
+  });
+
+  it('should rebuild later balances and reprice later issues after a backdated receipt', async () => {
+    await record('2024-03-01', 10, 100, 0);
+    const issue = await record('2024-03-20', -6, 100, 10);
+    // Posted today for 5 March, so its stored balance came from the current stock
+    const receipt = await record('2024-03-05', 10, 200, 4);
+
+    const { recalculation } = await resequenceTransactions(receipt, false, { id: userId.toString(), name: 'Tester' }, session);
+
+    const updatedReceipt = await InventoryTransaction.findById(receipt._id);
+    expect(updatedReceipt?.previousQuantity).toBe(10);
+    expect(updatedReceipt?.currentQuantity).toBe(20);
+
+    const updatedIssue = await InventoryTransaction.findById(issue._id);
+    expect(updatedIssue?.previousQuantity).toBe(20);
+    expect(updatedIssue?.currentQuantity).toBe(14);
+    expect(updatedIssue?.unitPrice).toBe(150);
+    expect(updatedIssue?.totalValue).toBe(900);
+
+    expect(recalculation?.changes).toHaveLength(2);
+    expect(recalculation?.changes[1].unitPrice).toEqual({ before: 100, after: 150 });
+    expect(await InventoryRecalculation.countDocuments({ triggerTransactionId: receipt._id })).toBe(1);
+  });
+
+  it('should refuse a backdated issue that drives later balances negative', async () => {
+    await record('2024-03-01', 10, 100, 0);
+    const later = await record('2024-03-20', -8, 100, 10);
+    const backdated = await record('2024-03-05', -5, 100, 2);
+
+    const { recalculation, negativeAt } = await resequenceTransactions(backdated, false, { id: userId.toString(), name: 'Tester' }, session);
+    expect(recalculation).toBeNull();
+    expect(negativeAt?._id.toString()).toBe(later._id.toString());
+
+    // Nothing was written
+    const unchanged = await InventoryTransaction.findById(later._id);
+    expect(unchanged?.currentQuantity).toBe(2);
+    expect(await InventoryRecalculation.countDocuments()).toBe(0);
+  });
+
+  it('should refuse posting dates in the future or in a closed period', async () => {
+    await InventoryPeriod.create({ period: '2024-02', status: 'CLOSED', closedAt: new Date(), closedBy: userId });
+
+    expect((await resolvePostingDate('2024-02-15', session)).error).toBeDefined();
+    expect((await resolvePostingDate('2024-03-15', session)).error).toBeUndefined();
+
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    expect((await resolvePostingDate(tomorrow.toISOString(), session)).error).toBeDefined();
+  });
+
+  it('should treat months before the latest close as closed and leave closed rows alone', async () => {
+    await InventoryPeriod.create({ period: '2024-03', status: 'CLOSED', closedAt: new Date(), closedBy: userId });
+
+    expect(await InventoryPeriod.isClosed(new Date('2024-02-15'), session)).toBe(true);
+    expect(await InventoryPeriod.isClosed(new Date('2024-04-15'), session)).toBe(false);
+    expect(InventoryPeriod.nextOf('2024-12')).toBe('2025-01');
+
+    await record('2024-03-01', 10, 100, 0);
+    const closedIssue = await record('2024-03-20', -6, 100, 10);
+    const backdated = await record('2024-02-10', 5, 200, 4);
+
+    const { recalculation, closedPeriod } = await resequenceTransactions(backdated, false, { id: userId.toString(), name: 'Tester' }, session);
+    expect(recalculation).toBeNull();
+    expect(closedPeriod).toBe('2024-02');
+    expect((await InventoryTransaction.findById(closedIssue._id))?.previousQuantity).toBe(10);
+  });
+});
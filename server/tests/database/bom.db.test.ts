@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import { BOM } from '../../src/models/Production';
+import { explodeItem, findCycle, whereUsed } from '../../src/jobs/bom';
+import '../setup';
+
+describe('Multi-level BOMs', () => {
+  let userId: mongoose.Types.ObjectId;
+
+  const createItem = (code: string, category = 'COMPONENT') =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category,
+      unit: 'EA',
+      price: 0,
+      cost: 10,
+      createdBy: userId
+    });
+
+  const createBOM = (productId: unknown, code: string, lines: Array<[unknown, number]>, extra = {}) =>
+    BOM.create({
+      bomNumber: `BOM-${code}-V1`,
+      productId,
+      outputQuantity: 1,
+      items: lines.map(([itemId, quantity]) => ({ itemId, quantity, unit: 'EA' })),
+      createdBy: userId,
+      ...extra
+    });
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+  });
+
+  it('should multiply quantities down the levels and sum leaf requirements', async () => {
+    const bike = await createItem('BIKE', 'FINISHED_PRODUCT');
+    const wheel = await createItem('WHEEL');
+    const spoke = await createItem('SPOKE', 'RAW_MATERIAL');
+    const bolt = await createItem('BOLT', 'RAW_MATERIAL');
+    await createBOM(bike._id, 'BIKE', [[wheel._id, 2], [bolt._id, 4]]);
+    await createBOM(wheel._id, 'WHEEL', [[spoke._id, 32], [bolt._id, 1]]);
+
+    const { rows, requirements, error } = await explodeItem(bike, 3);
+
+    expect(error).toBeUndefined();
+    expect(rows.map(row => [row.path, row.itemCode, row.totalQuantity])).toEqual([
+      ['1', 'WHEEL', 6],
+      ['1.1', 'SPOKE', 192],
+      ['1.2', 'BOLT', 6],
+      ['2', 'BOLT', 12]
+    ]);
+    expect(requirements.find(requirement => requirement.itemCode === 'BOLT')?.quantity).toBe(18);
+  });
+
+  it('should use the version in effect at the explosion date', async () => {
+    const frame = await createItem('FRAME');
+    const steel = await createItem('STEEL', 'RAW_MATERIAL');
+    const alloy = await createItem('ALLOY', 'RAW_MATERIAL');
+    await createBOM(frame._id, 'FRAME', [[steel._id, 5]], { effectiveDate: new Date('2024-01-01') });
+    await createBOM(frame._id, 'FRAME', [[alloy._id, 3]], { bomNumber: 'BOM-FRAME-V2', version: 2, effectiveDate: new Date('2025-01-01') });
+
+    const before = await explodeItem(frame, 1, new Date('2024-06-01'));
+    const after = await explodeItem(frame, 1, new Date('2025-06-01'));
+
+    expect(before.rows.map(row => row.itemCode)).toEqual(['STEEL']);
+    expect(after.rows.map(row => row.itemCode)).toEqual(['ALLOY']);
+  });
+
+  it('should find a component that is already built from the parent', async () => {
+    const top = await createItem('TOP');
+    const middle = await createItem('MIDDLE');
+    const bottom = await createItem('BOTTOM');
+    await createBOM(top._id, 'TOP', [[middle._id, 1]]);
+    await createBOM(middle._id, 'MIDDLE', [[bottom._id, 1]]);
+
+    const cycle = await findCycle([bottom._id.toString()], [top._id.toString()]);
+
+    expect(cycle).toEqual([top._id.toString(), middle._id.toString(), bottom._id.toString()]);
+    expect(await findCycle([top._id.toString()], [bottom._id.toString()])).toBeNull();
+  });
+
+  it('should find the cycle an inactive version closes when it is activated again', async () => {
+    const first = await createItem('FIRST');
+    const second = await createItem('SECOND');
+    const firstBom = await createBOM(first._id, 'FIRST', [[second._id, 1]], { isActive: false });
+
+    // Accepted because the only path back to SECOND runs through an inactive version
+    expect(await findCycle([second._id.toString()], [first._id.toString()])).toBeNull();
+    await createBOM(second._id, 'SECOND', [[first._id, 1]]);
+
+    // The check the update runs before FIRST's version becomes active again
+    const cycle = await findCycle([first._id.toString()], firstBom.items.map(line => line.itemId.toString()));
+    expect(cycle).toEqual([second._id.toString(), first._id.toString()]);
+  });
+
+  it('should walk where-used up to the top-level products', async () => {
+    const bike = await createItem('BIKE', 'FINISHED_PRODUCT');
+    const wheel = await createItem('WHEEL');
+    const spoke = await createItem('SPOKE', 'RAW_MATERIAL');
+    await createBOM(bike._id, 'BIKE', [[wheel._id, 2]]);
+    await createBOM(wheel._id, 'WHEEL', [[spoke._id, 32]]);
+
+    const rows = await whereUsed(spoke._id.toString());
+
+    expect(rows.map(row => [row.level, row.itemCode, row.quantity])).toEqual([
+      [1, 'WHEEL', 32],
+      [2, 'BIKE', 2]
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import { PurchaseOrder } from '../../src/models/Purchase';
+import { Receipt } from '../../src/models/Receipt';
+import { settleConsignment, migrateStockOwnerIndex } from '../../src/jobs/consignment';
+import '../setup';
+
+describe('Consignment and customer-owned stock', () => {
+  let userId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+  let supplierId: mongoose.Types.ObjectId;
+  let session: ClientSession;
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+    supplierId = new mongoose.Types.ObjectId();
+    session = await mongoose.startSession();
+  });
+
+  afterEach(async () => {
+    await session.endSession();
+  });
+
+  const createStock = (owner: { ownerType?: string; ownerId?: mongoose.Types.ObjectId }, quantity: number, unitCost: number) =>
+    InventoryStock.create({
+      itemId,
+      itemName: 'Bolt',
+      warehouseId,
+      warehouseName: 'Main',
+      ...owner,
+      currentQuantity: quantity,
+      averageUnitCost: unitCost,
+      lastUpdatedBy: userId
+    });
+
+  const record = (quantity: number, unitPrice: number, ownerId?: mongoose.Types.ObjectId) =>
+    InventoryTransaction.create({
+      itemId,
+      itemName: 'Bolt',
+      warehouseId,
+      warehouseName: 'Main',
+      ownerType: ownerId ? 'SUPPLIER' : 'COMPANY',
+      ownerId,
+      transactionType: quantity > 0 ? 'IN' : 'OUT',
+      quantity,
+      unitPrice,
+      previousQuantity: 0,
+      currentQuantity: 0,
+      transactionDate: new Date('2024-01-10'),
+      userId,
+      userName: 'Tester'
+    });
+
+  it('should replace the unique item and warehouse index left by older databases', async () => {
+    await InventoryStock.init();
+    await InventoryStock.collection.createIndex({ itemId: 1, warehouseId: 1 }, { unique: true, name: 'itemId_1_warehouseId_1' });
+    await createStock({}, 10, 100);
+    await expect(createStock({ ownerType: 'SUPPLIER', ownerId: supplierId }, 40, 90)).rejects.toThrow(/duplicate key/);
+
+    expect(await migrateStockOwnerIndex()).toBe(true);
+    await createStock({ ownerType: 'SUPPLIER', ownerId: supplierId }, 40, 90);
+    await expect(createStock({}, 5, 100)).rejects.toThrow(/duplicate key/);
+    expect(await migrateStockOwnerIndex()).toBe(false);
+  });
+
+  it('should keep owned and consigned stock of an item apart in one warehouse', async () => {
+    await createStock({}, 10, 100);
+    const consigned = await createStock({ ownerType: 'SUPPLIER', ownerId: supplierId }, 40, 90);
+
+    // The consigned row keeps its price for settlement but adds nothing to our stock value
+    expect(consigned.totalValue).toBe(0);
+    expect(consigned.averageUnitCost).toBe(90);
+
+    const own = await InventoryStock.findOne({ itemId, warehouseId, ownerId: null });
+    expect(own?.currentQuantity).toBe(10);
+    expect(own?.totalValue).toBe(1000);
+
+    // A second company row for the same item and warehouse is still rejected
+    await expect(createStock({}, 5, 100)).rejects.toThrow();
+  });
+
+  it('should leave consigned movements out of the valuation replay', async () => {
+    await record(10, 100);
+    await record(40, 90, supplierId);
+    await record(-15, 90, supplierId);
+
+    const positions = await InventoryTransaction.replayValuation(new Date('2024-01-31'));
+    expect(positions).toHaveLength(1);
+    expect(positions[0].quantity).toBe(10);
+    expect(positions[0].movingAverageValue).toBe(1000);
+  });
+
+  it('should settle consumed consignment stock as a received order and receipt', async () => {
+    const { order, receipt } = await settleConsignment(
+      supplierId.toString(),
+      { id: warehouseId.toString(), name: 'Main' },
+      [
+        { itemId: itemId.toString(), itemName: 'Bolt', quantity: 10, unitPrice: 90, batchNumber: 'LOT-1' },
+        { itemId: itemId.toString(), itemName: 'Bolt', quantity: 5, unitPrice: 90, batchNumber: 'LOT-2' }
+      ],
+      userId.toString(),
+      session,
+      'WO-2024-001'
+    );
+
+    // Lots of the same item and price are billed on a single order line
+    expect(order.source).toBe('CONSIGNMENT');
+    expect(order.status).toBe('RECEIVED');
+    expect(order.items).toHaveLength(1);
+    expect(order.items[0].quantity).toBe(15);
+    expect(order.items[0].receivedQuantity).toBe(15);
+    expect(order.subtotal).toBe(1350);
+    expect(order.totalAmount).toBeCloseTo(1485);
+
+    expect(receipt.purchaseOrderId?.toString()).toBe(order._id.toString());
+    expect(receipt.status).toBe('COMPLETED');
+    expect(receipt.items).toHaveLength(2);
+    expect(receipt.totalQuantity).toBe(15);
+
+    expect(await PurchaseOrder.countDocuments({ source: 'CONSIGNMENT' })).toBe(1);
+    expect(await Receipt.countDocuments({ purchaseOrderId: order._id })).toBe(1);
+  });
+});
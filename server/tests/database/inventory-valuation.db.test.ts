@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import ValuationSetting from '../../src/models/ValuationSetting';
+import '../setup';
+
+describe('Inventory valuation replay', () => {
+  let userId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+
+  const post = (transactionType: string, quantity: number, transactionDate: string, unitPrice?: number) =>
+    InventoryTransaction.create({
+      itemId,
+      itemName: 'Steel',
+      warehouseId,
+      warehouseName: 'Main',
+      transactionType,
+      quantity,
+      unitPrice,
+      previousQuantity: 0,
+      currentQuantity: 0,
+      transactionDate: new Date(transactionDate),
+      userId,
+      userName: 'Tester'
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+
+    await post('IN', 10, '2024-01-05', 100);
+    await post('IN', 10, '2024-01-10', 200);
+    await post('OUT', -15, '2024-01-20', 150);
+    await post('IN', 10, '2024-02-10', 300);
+  });
+
+  it('should value the remaining quantity by moving average and FIFO layers', async () => {
+    const [position] = await InventoryTransaction.replayValuation(new Date('2024-01-31T23:59:59'));
+
+    expect(position.quantity).toBe(5);
+    expect(position.movingAverageCost).toBe(150);
+    expect(position.movingAverageValue).toBe(750);
+    // The issue drew the whole 100 layer and 5 of the 200 layer
+    expect(position.fifoValue).toBe(1000);
+  });
+
+  it('should ignore movements after the valuation date', async () => {
+    const [january] = await InventoryTransaction.replayValuation(new Date('2024-01-31T23:59:59'));
+    const [february] = await InventoryTransaction.replayValuation(new Date('2024-02-28T23:59:59'));
+
+    expect(january.quantity).toBe(5);
+    expect(february.quantity).toBe(15);
+    expect(february.fifoValue).toBe(4000);
+  });
+
+  it('should default categories without a setting to moving average', async () => {
+    await ValuationSetting.create({ category: 'RAW_MATERIAL', method: 'FIFO', updatedBy: userId });
+
+    const methods = await ValuationSetting.getMethodsByCategory();
+    expect(methods.RAW_MATERIAL).toBe('FIFO');
+    expect(methods.FINISHED_PRODUCT).toBe('MOVING_AVERAGE');
+  });
+});
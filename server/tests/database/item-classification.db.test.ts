@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import { classifyItems } from '../../src/jobs/classification';
+import '../setup';
+
+describe('ABC/XYZ classification', () => {
+  let userId: mongoose.Types.ObjectId;
+  const asOf = new Date(2024, 6, 15);
+
+  const createItem = (code: string) =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category: 'RAW_MATERIAL',
+      unit: 'EA',
+      price: 0,
+      cost: 100,
+      createdBy: userId
+    });
+
+  const issue = (itemId: any, quantity: number, transactionDate: Date) =>
+    InventoryTransaction.create({
+      itemId,
+      itemName: 'Item',
+      warehouseId: new mongoose.Types.ObjectId(),
+      warehouseName: 'Main',
+      transactionType: 'OUT',
+      quantity: -quantity,
+      unitPrice: 100,
+      previousQuantity: 0,
+      currentQuantity: 0,
+      transactionDate,
+      userId,
+      userName: 'Tester'
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+  });
+
+  it('should rank items by consumption value and demand variability', async () => {
+    const steady = await createItem('RM-A');
+    const lumpy = await createItem('RM-B');
+    const small = await createItem('RM-C');
+    const idle = await createItem('RM-D');
+
+    // July 2023 - June 2024 is the twelve complete months before asOf
+    for (let month = 0; month < 12; month++) {
+      await issue(steady._id, 10, new Date(2023, 6 + month, 10));
+    }
+    await issue(lumpy._id, 15, new Date(2024, 2, 10));
+    await issue(small._id, 2, new Date(2024, 3, 10));
+    // Outside the period
+    await issue(small._id, 100, new Date(2024, 6, 1));
+
+    const result = await classifyItems(asOf);
+
+    const byCode = Object.fromEntries(result.items.map(entry => [entry.itemCode, entry]));
+    expect(byCode['RM-A'].consumptionValue).toBe(12000);
+    expect([byCode['RM-A'].abcClass, byCode['RM-A'].xyzClass]).toEqual(['A', 'X']);
+    expect([byCode['RM-B'].abcClass, byCode['RM-B'].xyzClass]).toEqual(['B', 'Z']);
+    expect(byCode['RM-C'].abcClass).toBe('C');
+    expect([byCode['RM-D'].abcClass, byCode['RM-D'].xyzClass]).toEqual(['C', 'Z']);
+    expect(result.summary.C.itemCount).toBe(2);
+
+    const stored = await Item.findById(idle._id);
+    expect(stored!.abcClass).toBe('C');
+    expect(stored!.classifiedAt).toBeDefined();
+  });
+});
@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import '../setup';
+
+describe('Item ledger', () => {
+  let userId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+
+  const post = (transactionType: string, quantity: number, transactionDate: string, unitPrice?: number) =>
+    InventoryTransaction.create({
+      itemId,
+      itemName: 'Steel',
+      warehouseId,
+      warehouseName: 'Main',
+      transactionType,
+      quantity,
+      unitPrice,
+      previousQuantity: 0,
+      currentQuantity: 0,
+      transactionDate: new Date(transactionDate),
+      userId,
+      userName: 'Tester'
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+
+    await post('IN', 10, '2024-01-05', 100);
+    await post('IN', 10, '2024-01-10', 200);
+    await post('OUT', -15, '2024-01-20', 150);
+    await post('IN', 10, '2024-02-10', 300);
+    await post('OUT', -5, '2024-03-01', 250);
+  });
+
+  it('should carry the balance before the period into the opening row', async () => {
+    const ledger = await InventoryTransaction.getItemLedger(
+      itemId.toString(), new Date('2024-02-01'), new Date('2024-02-29T23:59:59')
+    );
+
+    expect(ledger.opening).toEqual({ quantity: 5, value: 750 });
+    expect(ledger.entries).toHaveLength(1);
+    expect(ledger.entries[0].inQuantity).toBe(10);
+    expect(ledger.entries[0].balanceQuantity).toBe(15);
+    expect(ledger.closing).toEqual({ quantity: 15, value: 3750 });
+  });
+
+  it('should run the balance through every movement in the period', async () => {
+    const ledger = await InventoryTransaction.getItemLedger(
+      itemId.toString(), new Date('2024-01-01'), new Date('2024-03-31T23:59:59'), warehouseId.toString()
+    );
+
+    expect(ledger.opening).toEqual({ quantity: 0, value: 0 });
+    expect(ledger.entries.map(entry => entry.balanceQuantity)).toEqual([10, 20, 5, 15, 10]);
+    expect(ledger.entries[2].outQuantity).toBe(15);
+    // Issues leave at the moving average, not at the price recorded on the transaction
+    expect(ledger.entries[2].unitCost).toBe(150);
+    expect(ledger.closing.quantity).toBe(10);
+    expect(ledger.closing.value).toBe(2500);
+  });
+});
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import { ItemTemplate, IItemTemplate } from '../../src/models/ItemTemplate';
+import { BOM } from '../../src/models/Production';
+import { generateVariants, listCombinations, normalizeAttributes, resolveBOM } from '../../src/jobs/variants';
+import '../setup';
+
+describe('Item templates and variants', () => {
+  let userId: mongoose.Types.ObjectId;
+  let template: IItemTemplate;
+
+  const createItem = (code: string) =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category: 'RAW_MATERIAL',
+      unit: 'EA',
+      price: 0,
+      cost: 10,
+      createdBy: userId
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    template = await ItemTemplate.create({
+      code: 'TS100',
+      name: 'T-Shirt',
+      category: 'FINISHED_PRODUCT',
+      unit: 'EA',
+      price: 15000,
+      cost: 6000,
+      attributes: [
+        { key: 'color', name: 'Colour', type: 'LIST', options: [{ value: 'Red', code: 'RD' }, { value: 'Blue', code: 'BL' }] },
+        { key: 'size', name: 'Size', type: 'LIST', options: [{ value: 'M', code: 'M' }, { value: 'L', code: 'L' }] },
+        { key: 'organic', name: 'Organic', type: 'BOOLEAN', required: false }
+      ],
+      createdBy: userId
+    });
+  });
+
+  it('should check values against the attribute definitions', () => {
+    expect(normalizeAttributes(template, { color: 'red', size: 'L' })).toEqual({ attributes: { color: 'Red', size: 'L' } });
+    expect(normalizeAttributes(template, { color: 'Green', size: 'L' }).error).toBeDefined();
+    expect(normalizeAttributes(template, { color: 'Red' }).error).toBeDefined();
+    expect(normalizeAttributes(template, { color: 'Red' }, true).error).toBeUndefined();
+    expect(normalizeAttributes(template, { color: 'Red', size: 'M', weight: 3 }).error).toBeDefined();
+  });
+
+  it('should generate one item per combination with derived codes and skip existing ones', async () => {
+    expect(listCombinations(template)).toHaveLength(4);
+
+    const { created } = await generateVariants(template, listCombinations(template)!, userId.toString());
+    expect(created.map(variant => variant.code).sort()).toEqual(['TS100-BL-L', 'TS100-BL-M', 'TS100-RD-L', 'TS100-RD-M']);
+    expect(created[0].templateId?.toString()).toBe(template._id.toString());
+    expect(created[0].price).toBe(15000);
+
+    const again = await generateVariants(template, [{ color: 'Red', size: 'M' }, { color: 'Red', size: 'M', organic: true }], userId.toString());
+    expect(again.created.map(variant => variant.code)).toEqual(['TS100-RD-M-ORGANIC']);
+    expect(again.skipped).toHaveLength(1);
+
+    expect(await Item.countDocuments({ templateId: template._id, 'attributes.color': 'Red' })).toBe(3);
+  });
+
+  it('should resolve the template BOM with variant and attribute substitutions', async () => {
+    const fabric = await createItem('FAB-WHITE');
+    const redFabric = await createItem('FAB-RED');
+    const thread = await createItem('THREAD');
+    const heavyThread = await createItem('THREAD-HEAVY');
+    const { created } = await generateVariants(template, listCombinations(template)!, userId.toString());
+    const redLarge = created.find(variant => variant.code === 'TS100-RD-L')!;
+    const redMedium = created.find(variant => variant.code === 'TS100-RD-M')!;
+    const blueMedium = created.find(variant => variant.code === 'TS100-BL-M')!;
+
+    await BOM.create({
+      bomNumber: 'BOM-TS100-V1',
+      templateId: template._id,
+      outputQuantity: 1,
+      items: [
+        { itemId: fabric._id, quantity: 2, unit: 'EA' },
+        { itemId: thread._id, quantity: 1, unit: 'EA' }
+      ],
+      substitutions: [
+        { itemId: fabric._id, substituteItemId: redFabric._id, attributes: { color: 'Red' } },
+        { itemId: thread._id, substituteItemId: heavyThread._id, variantId: redLarge._id, quantity: 2 }
+      ],
+      createdBy: userId
+    });
+
+    const large = await resolveBOM(redLarge);
+    expect(large.lines.map(line => [line.itemId, line.quantity])).toEqual([
+      [redFabric._id.toString(), 2],
+      [heavyThread._id.toString(), 2]
+    ]);
+    expect(large.lines[0].substitutedFrom).toBe(fabric._id.toString());
+
+    const medium = await resolveBOM(redMedium);
+    expect(medium.lines.map(line => line.itemId)).toEqual([redFabric._id.toString(), thread._id.toString()]);
+
+    const blue = await resolveBOM(blueMedium);
+    expect(blue.lines.map(line => line.itemId)).toEqual([fabric._id.toString(), thread._id.toString()]);
+  });
+});
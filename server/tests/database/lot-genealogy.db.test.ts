@@ -0,0 +1,62 @@
+import mongoose from 'mongoose';
+import LotGenealogy from '../../src/models/LotGenealogy';
+import '../setup';
+
+describe('LotGenealogy Database Operations', () => {
+  let userId: mongoose.Types.ObjectId;
+  let materialId: mongoose.Types.ObjectId;
+  let productId: mongoose.Types.ObjectId;
+  let workOrderId: mongoose.Types.ObjectId;
+
+  const recordEvent = (fields: Record<string, any>) =>
+    LotGenealogy.create({ createdBy: userId, referenceId: new mongoose.Types.ObjectId(), ...fields });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    materialId = new mongoose.Types.ObjectId();
+    productId = new mongoose.Types.ObjectId();
+    workOrderId = new mongoose.Types.ObjectId();
+
+    await recordEvent({
+      lotNumber: 'RM-001', itemId: materialId, itemName: 'Steel', eventType: 'RECEIPT',
+      quantity: 100, referenceType: 'RECEIPT', referenceNumber: 'RCP-2024-0001', partyName: 'Supplier Co'
+    });
+    await recordEvent({
+      lotNumber: 'RM-001', itemId: materialId, itemName: 'Steel', eventType: 'CONSUMPTION',
+      quantity: 40, referenceType: 'WORK_ORDER', workOrderId, workOrderNumber: 'WO-001'
+    });
+    await recordEvent({
+      lotNumber: 'FG-001', itemId: productId, itemName: 'Bracket', eventType: 'PRODUCTION',
+      quantity: 20, referenceType: 'WORK_ORDER', workOrderId, workOrderNumber: 'WO-001'
+    });
+    await recordEvent({
+      lotNumber: 'FG-001', itemId: productId, itemName: 'Bracket', eventType: 'SHIPMENT',
+      quantity: 5, referenceType: 'SALES_ORDER', referenceNumber: 'SO-001', partyName: 'Customer Co'
+    });
+  });
+
+  it('should trace a finished lot back to the supplier receipt of its materials', async () => {
+    const [root] = await LotGenealogy.traceBackward('FG-001');
+
+    expect(root.itemName).toBe('Bracket');
+    expect(root.workOrders).toHaveLength(1);
+    expect(root.workOrders[0].workOrderNumber).toBe('WO-001');
+
+    const [material] = root.workOrders[0].lots;
+    expect(material.lotNumber).toBe('RM-001');
+    expect(material.receipts[0].partyName).toBe('Supplier Co');
+  });
+
+  it('should trace a material lot forward to the customers that received it', async () => {
+    const [root] = await LotGenealogy.traceForward('RM-001');
+
+    const [product] = root.workOrders[0].lots;
+    expect(product.lotNumber).toBe('FG-001');
+    expect(product.shipments[0].partyName).toBe('Customer Co');
+    expect(product.shipments[0].quantity).toBe(5);
+  });
+
+  it('should return no trees for an unknown lot', async () => {
+    await expect(LotGenealogy.traceBackward('UNKNOWN')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import Company from '../../src/models/Company';
+import ProductionPlan from '../../src/models/ProductionPlan';
+import { BOM } from '../../src/models/Production';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import { SalesOrder } from '../../src/models/SalesOrder';
+import { runMrp, firmPlannedOrders } from '../../src/jobs/mrp';
+import '../setup';
+
+describe('MRP', () => {
+  let userId: mongoose.Types.ObjectId;
+
+  const daysFromToday = (days: number) => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + days);
+    return date;
+  };
+
+  const createItem = (code: string, overrides: Record<string, any> = {}) =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category: 'COMPONENT',
+      unit: 'EA',
+      price: 0,
+      cost: 10,
+      createdBy: userId,
+      ...overrides
+    });
+
+  const createBOM = (productId: unknown, code: string, lines: Array<[unknown, number]>) =>
+    BOM.create({
+      bomNumber: `BOM-${code}-V1`,
+      productId,
+      outputQuantity: 1,
+      items: lines.map(([itemId, quantity]) => ({ itemId, quantity, unit: 'EA' })),
+      createdBy: userId
+    });
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+  });
+
+  it('should net level by level, offset by lead time and peg components to the sales order', async () => {
+    const bike = await createItem('BIKE', { category: 'FINISHED_PRODUCT', leadTime: 2 });
+    const wheel = await createItem('WHEEL', { leadTime: 1 });
+    const spoke = await createItem('SPOKE', { category: 'RAW_MATERIAL', leadTime: 5 });
+    const bolt = await createItem('BOLT', { category: 'RAW_MATERIAL' });
+    await createBOM(bike._id, 'BIKE', [[wheel._id, 2], [bolt._id, 4]]);
+    await createBOM(wheel._id, 'WHEEL', [[spoke._id, 32], [bolt._id, 1]]);
+    await InventoryStock.create({
+      itemId: bolt._id,
+      itemName: 'Bolt',
+      warehouseId: new mongoose.Types.ObjectId(),
+      warehouseName: 'Main',
+      currentQuantity: 10,
+      lastUpdatedBy: userId
+    });
+    await SalesOrder.create({
+      orderNumber: 'SO-MRP-0001',
+      customerId: new mongoose.Types.ObjectId(),
+      orderDate: daysFromToday(0),
+      requestedDeliveryDate: daysFromToday(10),
+      status: 'CONFIRMED',
+      items: [{ itemId: bike._id, quantity: 3, unitPrice: 100, totalPrice: 300 }],
+      subtotal: 300,
+      totalAmount: 300,
+      createdBy: userId
+    });
+
+    const run = await runMrp(userId.toString(), { includeSafetyStock: false });
+
+    expect(run.plannedOrders.map(order => [order.itemCode, order.level, order.orderType, order.quantity])).toEqual([
+      ['BIKE', 0, 'PRODUCTION', 3],
+      ['WHEEL', 1, 'PRODUCTION', 6],
+      ['BOLT', 2, 'PURCHASE', 8],
+      ['SPOKE', 2, 'PURCHASE', 192]
+    ]);
+
+    const spokes = run.plannedOrders.find(order => order.itemCode === 'SPOKE')!;
+    expect(spokes.dueDate).toEqual(daysFromToday(7));
+    expect(spokes.releaseDate).toEqual(daysFromToday(2));
+    expect(spokes.pegging[0]).toMatchObject({
+      demandType: 'SALES_ORDER',
+      sourceNumber: 'SO-MRP-0001',
+      demandItemCode: 'BIKE',
+      parentItemCode: 'WHEEL',
+      quantity: 192
+    });
+    // The 6 bolts for the wheels come out of stock first; the bike's 12 are short by 8
+    expect(run.plannedOrders.find(order => order.itemCode === 'BOLT')!.dueDate).toEqual(daysFromToday(8));
+  });
+
+  it('should firm planned orders into a request and a draft work order that the next run nets against', async () => {
+    const supplier = await Company.create({ name: 'Part Supplier', type: 'SUPPLIER', createdBy: userId });
+    const kit = await createItem('KIT', { category: 'FINISHED_PRODUCT' });
+    const part = await createItem('PART', { category: 'RAW_MATERIAL', leadTime: 5, supplierId: supplier._id });
+    await createBOM(kit._id, 'KIT', [[part._id, 2]]);
+    await ProductionPlan.create({
+      planNumber: 'PP-MRP-0001',
+      itemId: kit._id,
+      itemName: kit.name,
+      itemCode: kit.code,
+      plannedQuantity: 4,
+      startDate: daysFromToday(15),
+      endDate: daysFromToday(20),
+      status: 'APPROVED',
+      companyId: new mongoose.Types.ObjectId(),
+      createdBy: userId
+    });
+
+    const run = await runMrp(userId.toString(), { includeSafetyStock: false });
+    const { requests, workOrders } = await firmPlannedOrders(run, undefined, userId.toString());
+    await run.save();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ source: 'MRP', status: 'DRAFT' });
+    expect(requests[0].items[0]).toMatchObject({ itemCode: 'PART', quantity: 8 });
+    expect(workOrders[0]).toMatchObject({ status: 'DRAFT', quantity: 4, workCenter: 'UNASSIGNED' });
+    expect(workOrders[0].materials[0].requiredQuantity).toBe(8);
+    expect(run.plannedOrders.every(order => order.status === 'FIRMED' && order.firmedNumber)).toBe(true);
+
+    const rerun = await runMrp(userId.toString(), { includeSafetyStock: false });
+    expect(rerun.plannedOrders).toHaveLength(0);
+  });
+
+  it('should number every request and work order firmed together in one session', async () => {
+    const supplier = await Company.create({ name: 'Spoke Supplier', type: 'SUPPLIER', createdBy: userId });
+    const bike = await createItem('BIKE', { category: 'FINISHED_PRODUCT' });
+    const wheel = await createItem('WHEEL');
+    const spoke = await createItem('SPOKE', { category: 'RAW_MATERIAL', supplierId: supplier._id });
+    const bolt = await createItem('BOLT', { category: 'RAW_MATERIAL' });
+    await createBOM(bike._id, 'BIKE', [[wheel._id, 2], [bolt._id, 4]]);
+    await createBOM(wheel._id, 'WHEEL', [[spoke._id, 32]]);
+    await ProductionPlan.create({
+      planNumber: 'PP-MRP-0002',
+      itemId: bike._id,
+      itemName: bike.name,
+      itemCode: bike.code,
+      plannedQuantity: 2,
+      startDate: daysFromToday(15),
+      endDate: daysFromToday(20),
+      status: 'APPROVED',
+      companyId: new mongoose.Types.ObjectId(),
+      createdBy: userId
+    });
+
+    const run = await runMrp(userId.toString(), { includeSafetyStock: false });
+    const session = await mongoose.startSession();
+    try {
+      const { requests, workOrders } = await firmPlannedOrders(run, undefined, userId.toString(), session);
+      await run.save({ session });
+
+      // Spokes go to their supplier and bolts to an open request; the bike and its wheels are made
+      expect(requests).toHaveLength(2);
+      expect(workOrders.map(order => order.quantity)).toEqual([2, 4]);
+      expect(new Set(requests.map(request => request.requestNumber)).size).toBe(2);
+      expect(new Set(workOrders.map(order => order.orderNumber)).size).toBe(2);
+      expect(run.plannedOrders.every(order => order.status === 'FIRMED' && order.firmedNumber)).toBe(true);
+    } finally {
+      await session.endSession();
+    }
+  });
+});
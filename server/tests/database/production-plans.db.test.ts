@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import ProductionPlan from '../../src/models/ProductionPlan';
+import { BOM } from '../../src/models/Production';
+import { WorkCenter } from '../../src/models/WorkCenter';
+import { WorkOrder } from '../../src/models/WorkOrder';
+import { splitPlan, rollUpPlan } from '../../src/jobs/production-plans';
+import '../setup';
+
+describe('Production plans', () => {
+  let userId: mongoose.Types.ObjectId;
+
+  // Plans run from ten days out, after the BOMs created in the tests take effect
+  const day = (offset: number) => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + 10 + offset);
+    return date;
+  };
+
+  const createItem = (code: string, category = 'FINISHED_PRODUCT') =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category,
+      unit: 'EA',
+      price: 0,
+      cost: 10,
+      createdBy: userId
+    });
+
+  const createWorkCenter = (code: string, dailyCapacity: number) =>
+    WorkCenter.create({ code, name: `Center ${code}`, dailyCapacity, createdBy: userId });
+
+  const createPlan = (item: { _id: unknown; name: string; code: string }, workCenterIds: unknown[]) =>
+    ProductionPlan.create({
+      itemId: item._id,
+      itemName: item.name,
+      itemCode: item.code,
+      plannedQuantity: 100,
+      startDate: day(0),
+      endDate: day(4),
+      status: 'APPROVED',
+      workCenterIds,
+      companyId: new mongoose.Types.ObjectId(),
+      createdBy: userId
+    });
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+  });
+
+  it('should split a plan across work centers by free capacity and leave the overflow unassigned', async () => {
+    const product = await createItem('PP-PRD');
+    const part = await createItem('PP-CMP', 'RAW_MATERIAL');
+    await BOM.create({
+      bomNumber: 'BOM-PP-PRD-V1',
+      productId: product._id,
+      outputQuantity: 1,
+      items: [{ itemId: part._id, quantity: 2, unit: 'EA' }],
+      createdBy: userId
+    });
+    const press = await createWorkCenter('PRESS', 10);
+    const lathe = await createWorkCenter('LATHE', 5);
+    // Ten units already booked on the lathe for the same week
+    await WorkOrder.create({
+      itemId: product._id,
+      quantity: 10,
+      unit: 'EA',
+      workCenter: 'LATHE',
+      workCenterId: lathe._id,
+      startDate: day(0),
+      endDate: day(4),
+      createdBy: userId
+    });
+    const plan = await createPlan(product, [lathe._id, press._id]);
+
+    expect(plan.planNumber).toMatch(/^PP-\d{6}-001$/);
+
+    const { workOrders, warnings, error } = await splitPlan(plan, userId.toString());
+
+    expect(error).toBeUndefined();
+    expect(workOrders.map(order => [order.workCenter, order.quantity])).toEqual([
+      ['PRESS', 50],
+      ['LATHE', 15],
+      ['UNASSIGNED', 35]
+    ]);
+    expect(workOrders[0]).toMatchObject({ status: 'DRAFT', priority: 'NORMAL' });
+    expect(workOrders[0].materials[0].requiredQuantity).toBe(100);
+    expect(warnings).toHaveLength(1);
+
+    // A second split of the same plan does nothing
+    expect((await splitPlan(plan, userId.toString())).workOrders).toHaveLength(0);
+  });
+
+  it('should number each work order of a split made in the approving session', async () => {
+    const product = await createItem('PP-SES');
+    const press = await createWorkCenter('PRESS', 10);
+    const lathe = await createWorkCenter('LATHE', 5);
+    const { _id } = await createPlan(product, []);
+
+    // As approval does: the plan is read, given its centers and split on one session
+    const session = await mongoose.startSession();
+    try {
+      const plan = (await ProductionPlan.findById(_id).session(session))!;
+      plan.set('workCenterIds', [press._id, lathe._id]);
+      await plan.save({ session });
+
+      const { workOrders, error } = await splitPlan(plan, userId.toString(), session);
+
+      expect(error).toBeUndefined();
+      expect(workOrders.map(order => [order.workCenter, order.quantity])).toEqual([
+        ['PRESS', 50],
+        ['LATHE', 25],
+        ['UNASSIGNED', 25]
+      ]);
+      expect(new Set(workOrders.map(order => order.orderNumber)).size).toBe(3);
+      expect(await WorkOrder.countDocuments({ productionPlanId: plan._id }).session(session)).toBe(3);
+    } finally {
+      await session.endSession();
+    }
+  });
+
+  it('should roll produced quantity and status up from the work orders', async () => {
+    const product = await createItem('PP-ROLL');
+    const line = await createWorkCenter('LINE', 6);
+    const plan = await createPlan(product, [line._id]);
+    const { workOrders } = await splitPlan(plan, userId.toString());
+    const [onLine, unassigned] = workOrders;
+
+    onLine.release();
+    onLine.start();
+    await onLine.save();
+    let rolledUp = await rollUpPlan(plan._id);
+    expect(rolledUp).toMatchObject({ status: 'IN_PROGRESS', producedQuantity: 0 });
+
+    // Defective units are not counted towards the plan
+    onLine.complete(28);
+    onLine.defectQuantity = 3;
+    await onLine.save();
+    rolledUp = await rollUpPlan(plan._id);
+    expect(rolledUp).toMatchObject({ status: 'IN_PROGRESS', producedQuantity: 25 });
+
+    // Once the overflow is cancelled every remaining order is done, so the plan closes short
+    unassigned.cancel('Capacity not available');
+    await unassigned.save();
+    rolledUp = await rollUpPlan(plan._id);
+    expect(rolledUp).toMatchObject({ status: 'COMPLETED', producedQuantity: 25 });
+  });
+});
@@ -0,0 +1,179 @@
+import mongoose from 'mongoose';
+import { Item } from '../../src/models/Item';
+import { PurchaseOrder } from '../../src/models/Purchase';
+import { Receipt } from '../../src/models/Receipt';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import { approveReceipt } from '../../src/jobs/receipts';
+import '../setup';
+
+describe('Receipt approval', () => {
+  let userId: mongoose.Types.ObjectId;
+  let supplierId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+  let user: { id: string; name: string };
+  let receiptCount: number;
+
+  const createItem = (code: string, overrides: Record<string, unknown> = {}) =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category: 'RAW_MATERIAL',
+      unit: 'EA',
+      price: 0,
+      cost: 0,
+      createdBy: userId,
+      ...overrides
+    });
+
+  const createReceipt = (orderId: unknown, lines: Array<Record<string, unknown>>) =>
+    Receipt.create({
+      receiptNumber: `RCP-2024-${String(++receiptCount).padStart(4, '0')}`,
+      purchaseOrderId: orderId,
+      supplierId,
+      supplierName: 'Supplier Co',
+      warehouseId,
+      warehouseName: 'Main',
+      status: 'INSPECTED',
+      items: lines.map(line => ({
+        itemName: 'Line',
+        orderedQuantity: line.receivedQuantity,
+        totalPrice: 0,
+        ...line
+      })),
+      receivedBy: userId,
+      createdBy: userId
+    });
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+    supplierId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+    user = { id: userId.toString(), name: 'Tester' };
+    receiptCount = 0;
+  });
+
+  it('should post accepted quantities in the base unit and close the order once every line is in', async () => {
+    const bolt = await createItem('BOLT');
+    const nut = await createItem('NUT', { unitConversions: [{ unit: 'BOX', factor: 10 }] });
+    const order = await PurchaseOrder.create({
+      orderNumber: 'PO-2024-0001',
+      supplierId,
+      orderDate: new Date(),
+      status: 'CONFIRMED',
+      items: [
+        { itemId: bolt._id, quantity: 100, unitPrice: 5, totalPrice: 500 },
+        { itemId: nut._id, quantity: 3, unit: 'BOX', baseQuantity: 30, baseUnit: 'EA', unitPrice: 40, totalPrice: 120 }
+      ],
+      subtotal: 620,
+      taxAmount: 0,
+      totalAmount: 620,
+      createdBy: userId
+    });
+
+    // Part of the order, with defective bolts turned away at the dock
+    const first = await createReceipt(order._id, [
+      { itemId: bolt._id, itemName: 'Bolt', receivedQuantity: 60, defectQuantity: 10, unitPrice: 5 },
+      { itemId: nut._id, itemName: 'Nut', receivedQuantity: 2, unitPrice: 40 }
+    ]);
+    const postingDate = new Date();
+    const posted = await approveReceipt(first, postingDate, [], user);
+
+    expect(posted.error).toBeUndefined();
+    expect(first.status).toBe('APPROVED');
+    expect(first.items.map(line => [line.unit, line.baseQuantity])).toEqual([['EA', 50], ['BOX', 20]]);
+    expect(posted.transactions.map(row => [
+      row.transactionType,
+      row.quantity,
+      row.unitPrice,
+      row.enteredQuantity,
+      row.enteredUnit,
+      row.previousQuantity,
+      row.currentQuantity,
+      row.referenceNumber
+    ])).toEqual([
+      ['IN', 50, 5, undefined, undefined, 0, 50, first.receiptNumber],
+      ['IN', 20, 4, 2, 'BOX', 0, 20, first.receiptNumber]
+    ]);
+    expect(posted.transactions[0].transactionDate.getTime()).toBe(postingDate.getTime());
+
+    const boltStock = await InventoryStock.findOne({ itemId: bolt._id, warehouseId, ownerId: null });
+    expect([boltStock?.currentQuantity, boltStock?.averageUnitCost]).toEqual([50, 5]);
+    const nutStock = await InventoryStock.findOne({ itemId: nut._id, warehouseId, ownerId: null });
+    expect([nutStock?.currentQuantity, nutStock?.averageUnitCost]).toEqual([20, 4]);
+
+    let stored = await PurchaseOrder.findById(order._id);
+    expect(stored?.status).toBe('PARTIALLY_RECEIVED');
+    expect(stored?.items.map(line => line.receivedQuantity)).toEqual([50, 20]);
+
+    // The rest arrives
+    const second = await createReceipt(order._id, [
+      { itemId: bolt._id, itemName: 'Bolt', receivedQuantity: 50, unitPrice: 5 },
+      { itemId: nut._id, itemName: 'Nut', receivedQuantity: 1, unitPrice: 40 }
+    ]);
+    const rest = await approveReceipt(second, new Date(), [], user);
+
+    expect(rest.error).toBeUndefined();
+    expect(rest.transactions.map(row => [row.previousQuantity, row.currentQuantity])).toEqual([[50, 100], [20, 30]]);
+    stored = await PurchaseOrder.findById(order._id);
+    expect(stored?.status).toBe('RECEIVED');
+    expect(stored?.items.map(line => line.receivedQuantity)).toEqual([100, 30]);
+    expect(await InventoryTransaction.countDocuments({ referenceType: 'RECEIPT' })).toBe(4);
+  });
+
+  it('should fill repeated order lines for an item in turn and date lots from the posting date', async () => {
+    const resin = await createItem('RESIN', { expiryDays: 30 });
+    const order = await PurchaseOrder.create({
+      orderNumber: 'PO-2024-0002',
+      supplierId,
+      orderDate: new Date(),
+      status: 'CONFIRMED',
+      items: [
+        { itemId: resin._id, quantity: 40, unitPrice: 5, totalPrice: 200 },
+        { itemId: resin._id, quantity: 60, unitPrice: 5, totalPrice: 300 }
+      ],
+      subtotal: 500,
+      taxAmount: 0,
+      totalAmount: 500,
+      createdBy: userId
+    });
+
+    // Booked a week late for goods that arrived on the first of the month
+    const postingDate = new Date('2024-03-01T09:00:00Z');
+    const first = await createReceipt(order._id, [
+      { itemId: resin._id, itemName: 'Resin', receivedQuantity: 70, unitPrice: 5, batchNumber: 'LOT-A' }
+    ]);
+    expect((await approveReceipt(first, postingDate, [], user)).error).toBeUndefined();
+
+    let stored = await PurchaseOrder.findById(order._id);
+    expect(stored?.status).toBe('PARTIALLY_RECEIVED');
+    expect(stored?.items.map(line => line.receivedQuantity)).toEqual([40, 30]);
+
+    const stock = await InventoryStock.findOne({ itemId: resin._id, warehouseId, ownerId: null });
+    const [lot] = stock!.batchNumbers!;
+    expect(lot.receivedDate.getTime()).toBe(postingDate.getTime());
+    expect(lot.expirationDate?.getTime()).toBe(postingDate.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+    const second = await createReceipt(order._id, [
+      { itemId: resin._id, itemName: 'Resin', receivedQuantity: 30, unitPrice: 5 }
+    ]);
+    expect((await approveReceipt(second, new Date(), [], user)).error).toBeUndefined();
+
+    stored = await PurchaseOrder.findById(order._id);
+    expect(stored?.status).toBe('RECEIVED');
+    expect(stored?.items.map(line => line.receivedQuantity)).toEqual([40, 60]);
+  });
+
+  it('should refuse a line whose unit does not convert to the base unit', async () => {
+    const nut = await createItem('NUT');
+    const receipt = await createReceipt(undefined, [
+      { itemId: nut._id, itemName: 'Nut', receivedQuantity: 2, unit: 'KG', unitPrice: 40 }
+    ]);
+
+    const { error, transactions } = await approveReceipt(receipt, new Date(), [], user);
+
+    expect(error).toBe('Nut: KG 단위를 기준 단위(EA)로 환산할 수 없습니다.');
+    expect(transactions).toHaveLength(0);
+    expect(await InventoryStock.countDocuments({ itemId: nut._id })).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import Company from '../../src/models/Company';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import { PurchaseOrder } from '../../src/models/Purchase';
+import { PurchaseRequest } from '../../src/models/PurchaseRequest';
+import { calculateReorderSuggestions, runReorder } from '../../src/jobs/reorder';
+import '../setup';
+
+describe('Reorder engine', () => {
+  let userId: mongoose.Types.ObjectId;
+  let supplierId: mongoose.Types.ObjectId;
+
+  const createItem = (code: string, overrides: Record<string, any> = {}) =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category: 'RAW_MATERIAL',
+      unit: 'EA',
+      price: 0,
+      cost: 50,
+      minStock: 20,
+      maxStock: 100,
+      safetyStock: 10,
+      leadTime: 7,
+      supplierId,
+      createdBy: userId,
+      ...overrides
+    });
+
+  const createStock = (itemId: mongoose.Types.ObjectId | string, currentQuantity: number, reservedQuantity = 0) =>
+    InventoryStock.create({
+      itemId,
+      itemName: 'Stock',
+      warehouseId: new mongoose.Types.ObjectId(),
+      warehouseName: 'Main',
+      currentQuantity,
+      reservedQuantity,
+      lastUpdatedBy: userId
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    const supplier = await Company.create({ name: 'Steel Supplier', type: 'SUPPLIER', createdBy: userId });
+    supplierId = supplier._id as any;
+  });
+
+  it('should suggest topping up to max stock after netting reservations', async () => {
+    const item = await createItem('RM-001');
+    await createStock(item._id, 15, 5);
+
+    const [suggestion] = await calculateReorderSuggestions();
+
+    expect(suggestion.netQuantity).toBe(10);
+    expect(suggestion.suggestedQuantity).toBe(90);
+    expect(suggestion.priority).toBe('MEDIUM');
+  });
+
+  it('should not reorder when open purchase orders cover the reorder point', async () => {
+    const item = await createItem('RM-002');
+    await createStock(item._id, 10);
+    await PurchaseOrder.create({
+      orderNumber: 'PO-2024-0001',
+      supplierId,
+      orderDate: new Date(),
+      status: 'CONFIRMED',
+      items: [{ itemId: item._id, quantity: 30, unitPrice: 50, totalPrice: 1500, receivedQuantity: 5 }],
+      subtotal: 1500,
+      taxAmount: 0,
+      totalAmount: 1500,
+      createdBy: userId
+    });
+
+    expect(await calculateReorderSuggestions()).toHaveLength(0);
+  });
+
+  it('should draft one request per supplier and not draft again on the next run', async () => {
+    const supplied = await createItem('RM-003');
+    const unsupplied = await createItem('RM-004', { supplierId: undefined, minStock: 5, maxStock: 0, safetyStock: 0 });
+    await createStock(supplied._id, 0);
+    await createStock(unsupplied._id, 2);
+
+    const { requests } = await runReorder(userId.toString());
+
+    expect(requests).toHaveLength(2);
+    expect(requests.map(request => request.requestNumber.slice(-4))).toEqual(['0001', '0002']);
+    const supplierRequest = requests.find(request => request.supplierId?.toString() === supplierId.toString())!;
+    expect(supplierRequest.source).toBe('REORDER');
+    expect(supplierRequest.status).toBe('DRAFT');
+    expect(supplierRequest.priority).toBe('URGENT');
+    expect(supplierRequest.items[0].quantity).toBe(100);
+
+    const second = await runReorder(userId.toString());
+    expect(second.requests).toHaveLength(0);
+    expect(await PurchaseRequest.countDocuments({ source: 'REORDER' })).toBe(2);
+  });
+});
@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import { Routing } from '../../src/models/Routing';
+import { WorkCenter } from '../../src/models/WorkCenter';
+import { WorkOrder } from '../../src/models/WorkOrder';
+import { workOrderOperations, operationWip } from '../../src/jobs/work-orders';
+import '../setup';
+
+describe('Routings', () => {
+  let userId: mongoose.Types.ObjectId;
+
+  const createItem = (code: string) =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category: 'FINISHED_PRODUCT',
+      unit: 'EA',
+      price: 0,
+      cost: 10,
+      createdBy: userId
+    });
+
+  const createRouting = async (itemId: unknown, version: number, effectiveDate: Date) => {
+    const cut = await WorkCenter.findOneAndUpdate(
+      { code: 'CUT' },
+      { name: 'Cutting', dailyCapacity: 100, createdBy: userId },
+      { upsert: true, new: true }
+    );
+    const check = await WorkCenter.findOneAndUpdate(
+      { code: 'QC' },
+      { name: 'Inspection', dailyCapacity: 200, createdBy: userId },
+      { upsert: true, new: true }
+    );
+    return Routing.create({
+      routingNumber: `RT-TEST-V${version}`,
+      itemId,
+      version,
+      operations: [
+        { sequence: 20, name: 'Final check', workCenterId: check._id, workCenterCode: 'QC', runTime: 1, inspectionRequired: true },
+        { sequence: 10, name: 'Cut', workCenterId: cut._id, workCenterCode: 'CUT', setupTime: 30, runTime: 2 * version }
+      ],
+      effectiveDate,
+      createdBy: userId
+    });
+  };
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+  });
+
+  it('should order operations by sequence and copy the version in effect onto work orders', async () => {
+    const item = await createItem('RT-PRD');
+    const today = new Date();
+    const current = await createRouting(item._id, 1, new Date(today.getTime() - 24 * 60 * 60 * 1000));
+    await createRouting(item._id, 2, new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000));
+
+    expect(current.operations.map(operation => operation.sequence)).toEqual([10, 20]);
+    await expect(Routing.create({
+      routingNumber: 'RT-TEST-DUP',
+      itemId: item._id,
+      operations: [
+        { sequence: 10, name: 'A', workCenterId: new mongoose.Types.ObjectId(), workCenterCode: 'CUT', runTime: 1 },
+        { sequence: 10, name: 'B', workCenterId: new mongoose.Types.ObjectId(), workCenterCode: 'CUT', runTime: 1 }
+      ],
+      createdBy: userId
+    })).rejects.toThrow('Operation sequences must be unique');
+
+    const { routing, operations } = await workOrderOperations(item._id);
+    expect(routing!._id.toString()).toBe(current._id.toString());
+    expect(operations.map(operation => [operation.name, operation.runTime, operation.status])).toEqual([
+      ['Cut', 2, 'PENDING'],
+      ['Final check', 1, 'PENDING']
+    ]);
+  });
+
+  it('should report operations in sequence, limit them to the good units passed on and show the WIP', async () => {
+    const item = await createItem('RT-RUN');
+    await createRouting(item._id, 1, new Date(Date.now() - 60 * 1000));
+    const { routing, operations } = await workOrderOperations(item._id);
+    const workOrder = await WorkOrder.create({
+      itemId: item._id,
+      quantity: 10,
+      unit: 'EA',
+      workCenter: 'CUT',
+      startDate: new Date(),
+      endDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      routingId: routing!._id,
+      operations,
+      createdBy: userId
+    });
+    const operator = { id: userId, name: 'Operator' };
+
+    workOrder.release();
+    expect(operationWip([workOrder]).map(row => [row.sequence, row.queued])).toEqual([[10, 10], [20, 0]]);
+    workOrder.start();
+    expect(() => workOrder.startOperation(20, operator)).toThrow('Operation 10 has not started yet');
+
+    workOrder.startOperation(10, operator);
+    expect(operationWip([workOrder])[0].inProcess).toBe(10);
+    expect(() => workOrder.finishOperation(10, { goodQuantity: 9, scrapQuantity: 2 })).toThrow('exceed the 10 units');
+    workOrder.finishOperation(10, { goodQuantity: 8, scrapQuantity: 2 });
+
+    workOrder.startOperation(20, operator);
+    expect(() => workOrder.complete(8)).toThrow('All operations must be finished');
+    expect(() => workOrder.finishOperation(20, { goodQuantity: 8 })).toThrow('requires an inspection result');
+    expect(() => workOrder.finishOperation(20, { goodQuantity: 8, inspectionResult: 'FAIL' })).toThrow('reported as scrap');
+    workOrder.finishOperation(20, { goodQuantity: 7, scrapQuantity: 1, inspectionResult: 'PASS' });
+
+    expect(() => workOrder.complete(8)).toThrow('Only 7 good units');
+    workOrder.complete(7);
+    await workOrder.save();
+
+    const saved = await WorkOrder.findById(workOrder._id);
+    expect(saved!.operations.map(operation => [operation.status, operation.goodQuantity, operation.scrapQuantity])).toEqual([
+      ['COMPLETED', 8, 2],
+      ['COMPLETED', 7, 1]
+    ]);
+    expect(saved!.operations[0].operatorName).toBe('Operator');
+  });
+});
@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import { PurchaseOrder } from '../../src/models/Purchase';
+import { Receipt } from '../../src/models/Receipt';
+import { normalQuantile, proposeSafetyStock } from '../../src/jobs/safety-stock';
+import '../setup';
+
+describe('Statistical safety stock', () => {
+  let userId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+  const asOf = new Date('2024-03-11T00:00:00Z');
+  const day = (offset: number) => new Date(asOf.getTime() - offset * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    const item = await Item.create({
+      code: 'RM-001',
+      name: 'Steel',
+      category: 'RAW_MATERIAL',
+      unit: 'EA',
+      price: 0,
+      cost: 100,
+      leadTime: 4,
+      createdBy: userId
+    });
+    itemId = item._id as any;
+
+    // Ten units a day for the ten days before asOf
+    for (let offset = 1; offset <= 10; offset++) {
+      await InventoryTransaction.create({
+        itemId,
+        itemName: 'Steel',
+        warehouseId: new mongoose.Types.ObjectId(),
+        warehouseName: 'Main',
+        transactionType: 'OUT',
+        quantity: -10,
+        previousQuantity: 0,
+        currentQuantity: 0,
+        transactionDate: day(offset),
+        userId,
+        userName: 'Tester'
+      });
+    }
+  });
+
+  const receive = async (orderNumber: string, orderDate: Date, receiptDate: Date) => {
+    const supplierId = new mongoose.Types.ObjectId();
+    const order = await PurchaseOrder.create({
+      orderNumber,
+      supplierId,
+      orderDate,
+      status: 'RECEIVED',
+      items: [{ itemId, quantity: 50, unitPrice: 100, totalPrice: 5000, receivedQuantity: 50 }],
+      subtotal: 5000,
+      taxAmount: 0,
+      totalAmount: 5000,
+      createdBy: userId
+    });
+    await Receipt.create({
+      receiptNumber: `RCP-${orderNumber}`,
+      purchaseOrderId: order._id,
+      supplierId,
+      supplierName: 'Steel Supplier',
+      receiptDate,
+      warehouseId: new mongoose.Types.ObjectId(),
+      warehouseName: 'Main',
+      items: [{ itemId, itemName: 'Steel', orderedQuantity: 50, receivedQuantity: 50, unitPrice: 100, totalPrice: 5000 }],
+      totalAmount: 5000,
+      totalQuantity: 50,
+      receivedBy: userId
+    });
+  };
+
+  it('should invert the normal distribution at common service levels', () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 6);
+    expect(normalQuantile(0.95)).toBeCloseTo(1.6449, 3);
+    expect(normalQuantile(0.99)).toBeCloseTo(2.3263, 3);
+  });
+
+  it('should need no safety stock for steady demand and the item lead time', async () => {
+    const [proposal] = await proposeSafetyStock({ asOf, lookbackDays: 10, serviceLevel: 0.95 });
+
+    expect(proposal.averageDailyDemand).toBe(10);
+    expect(proposal.demandStdDev).toBe(0);
+    expect(proposal.leadTimeSource).toBe('ITEM');
+    expect(proposal.proposedSafetyStock).toBe(0);
+    expect(proposal.proposedReorderPoint).toBe(40);
+  });
+
+  it('should cover lead-time variability measured from receipts', async () => {
+    await receive('PO-2024-0001', day(9), day(5));
+    await receive('PO-2024-0002', day(8), day(2));
+
+    const [proposal] = await proposeSafetyStock({ asOf, lookbackDays: 10, serviceLevel: 0.95 });
+
+    expect(proposal.leadTimeSource).toBe('RECEIPTS');
+    expect(proposal.leadTimeDays).toBe(5);
+    expect(proposal.leadTimeStdDev).toBeCloseTo(Math.SQRT2, 6);
+    // 1.645 * sqrt(10² * 2) = 23.3
+    expect(proposal.proposedSafetyStock).toBe(24);
+    expect(proposal.proposedReorderPoint).toBe(74);
+    expect(proposal.currentSafetyStock).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import { WorkCenter } from '../../src/models/WorkCenter';
+import { WorkOrder } from '../../src/models/WorkOrder';
+import { applySchedule, scheduleWorkOrders } from '../../src/jobs/scheduling';
+import '../setup';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Capacity scheduling', () => {
+  let userId: mongoose.Types.ObjectId;
+  let monday: Date;
+
+  const day = (offset: number, hours = 0) => {
+    const date = new Date(monday);
+    date.setDate(date.getDate() + offset);
+    date.setHours(hours, 0, 0, 0);
+    return date;
+  };
+
+  const createOrder = async (center: unknown, quantity: number, priority: string, dueOffset: number) => {
+    const workOrder = await WorkOrder.create({
+      itemId: new mongoose.Types.ObjectId(),
+      quantity,
+      unit: 'EA',
+      workCenter: 'ASM',
+      startDate: day(0),
+      endDate: day(dueOffset, 23),
+      priority,
+      operations: [
+        { sequence: 10, name: 'Assemble', workCenterId: center, workCenterCode: 'ASM', setupTime: 0, runTime: 60 }
+      ],
+      createdBy: userId
+    });
+    workOrder.release();
+    return workOrder.save();
+  };
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+    // A Monday a few weeks out, so the schedule never runs into today
+    monday = new Date(Date.now() + 21 * DAY);
+    monday.setHours(0, 0, 0, 0);
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  });
+
+  it('should derive available minutes from shifts, holidays, efficiency and parallel machines', async () => {
+    const center = await WorkCenter.create({ code: 'ASM', name: 'Assembly', dailyCapacity: 100, createdBy: userId });
+    expect(center.availableMinutes(day(0))).toBe(480);
+    expect(center.availableMinutes(day(6))).toBe(0);
+
+    center.set('shifts', [
+      { name: 'DAY', startTime: '08:00', endTime: '17:00', breakMinutes: 60, days: [1, 2, 3, 4, 5] },
+      { name: 'NIGHT', startTime: '22:00', endTime: '06:00', breakMinutes: 30, days: [1] }
+    ]);
+    center.set('holidays', [day(1, 12)]);
+    center.efficiency = 50;
+    center.parallelCapacity = 2;
+    await center.save();
+
+    expect(center.availableMinutes(day(0, 15))).toBe(930);
+    expect(center.availableMinutes(day(1))).toBe(0);
+    expect(center.availableMinutes(day(2))).toBe(480);
+    await expect(WorkCenter.create({
+      code: 'BAD',
+      name: 'Bad shift',
+      dailyCapacity: 1,
+      shifts: [{ name: 'X', startTime: '8:00', endTime: '17:00' }],
+      createdBy: userId
+    })).rejects.toThrow('Shift times must be HH:mm');
+  });
+
+  it('should flag the overloaded week and load orders finitely forward and backward', async () => {
+    const center = await WorkCenter.create({ code: 'ASM', name: 'Assembly', dailyCapacity: 100, createdBy: userId });
+    // 40 hours fill the whole week; the second order due Wednesday no longer fits
+    const urgent = await createOrder(center._id, 40, 'URGENT', 4);
+    const normal = await createOrder(center._id, 5, 'NORMAL', 2);
+
+    const forward = await scheduleWorkOrders({ direction: 'FORWARD', from: day(0) });
+    expect(forward.overloads.map(row => [row.workCenterCode, row.weekStart.getTime(), row.loadMinutes, row.availableMinutes]))
+      .toEqual([['ASM', day(0).getTime(), 2700, 2400]]);
+    expect(forward.proposals.map(proposal => [
+      proposal.orderNumber,
+      proposal.startDate.getTime(),
+      proposal.endDate.getDate(),
+      proposal.late
+    ])).toEqual([
+      [urgent.orderNumber, day(0).getTime(), day(4).getDate(), false],
+      [normal.orderNumber, day(7).getTime(), day(7).getDate(), true]
+    ]);
+
+    const backward = await scheduleWorkOrders({ direction: 'BACKWARD', from: day(0) });
+    expect(backward.proposals[0].startDate.getTime()).toBe(day(0).getTime());
+    expect(backward.proposals[0].changed).toBe(false);
+    expect(backward.proposals[1].startDate.getTime()).toBe(day(7).getTime());
+    expect(backward.proposals[1].late).toBe(true);
+  });
+
+  it('should keep the due date when a schedule is applied', async () => {
+    const center = await WorkCenter.create({ code: 'ASM', name: 'Assembly', dailyCapacity: 100, createdBy: userId });
+    await createOrder(center._id, 40, 'URGENT', 4);
+    const normal = await createOrder(center._id, 5, 'NORMAL', 2);
+    expect(normal.dueDate!.getTime()).toBe(day(2, 23).getTime());
+
+    const forward = await scheduleWorkOrders({ direction: 'FORWARD', from: day(0) });
+    await applySchedule(forward.proposals, userId.toString());
+
+    const applied = await WorkOrder.findById(normal._id);
+    expect(applied!.endDate.getDate()).toBe(day(7).getDate());
+    expect(applied!.dueDate!.getTime()).toBe(day(2, 23).getTime());
+
+    // The next run still measures against Wednesday, not the applied end
+    const backward = await scheduleWorkOrders({ direction: 'BACKWARD', from: day(0) });
+    const proposal = backward.proposals.find(row => row.orderNumber === normal.orderNumber)!;
+    expect(proposal.dueDate.getTime()).toBe(day(2, 23).getTime());
+    expect(proposal.late).toBe(true);
+  });
+});
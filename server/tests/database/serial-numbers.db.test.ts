@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+import SerialNumber from '../../src/models/SerialNumber';
+import '../setup';
+
+describe('SerialNumber Database Operations', () => {
+  let userId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+
+  const createSerial = (fields: Record<string, any> = {}) =>
+    SerialNumber.create({
+      serialNumber: 'wo-2024-0001-0001',
+      itemId: new mongoose.Types.ObjectId(),
+      itemName: 'Controller',
+      warehouseId,
+      warehouseName: 'Main',
+      lotNumber: 'WO-2024-0001',
+      createdBy: userId,
+      ...fields
+    });
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+  });
+
+  it('should store serial numbers in upper case and reject duplicates', async () => {
+    const serial = await createSerial();
+    expect(serial.serialNumber).toBe('WO-2024-0001-0001');
+    expect(serial.status).toBe('IN_STOCK');
+
+    await SerialNumber.init();
+    await expect(createSerial({ serialNumber: 'WO-2024-0001-0001' })).rejects.toThrow();
+  });
+
+  it('should only treat units in a warehouse as available', async () => {
+    const serial = await createSerial();
+    expect(serial.isAvailable(warehouseId.toString())).toBe(true);
+    expect(serial.isAvailable(new mongoose.Types.ObjectId().toString())).toBe(false);
+
+    serial.set('warehouseId', undefined);
+    serial.recordEvent({ status: 'SHIPPED', referenceType: 'SALES_ORDER', userId: userId.toString(), userName: 'Tester' });
+    expect(serial.isAvailable()).toBe(false);
+  });
+
+  it('should record every status change in the history', async () => {
+    const serial = await createSerial();
+    serial.recordEvent({ status: 'SHIPPED', referenceType: 'SALES_ORDER', referenceNumber: 'SO-001', userId: userId.toString(), userName: 'Tester' });
+    serial.recordEvent({ status: 'RETURNED', referenceType: 'RETURN', referenceNumber: 'SO-001', userId: userId.toString(), userName: 'Tester' });
+    await serial.save();
+
+    const saved = await SerialNumber.findById(serial._id);
+    expect(saved!.status).toBe('RETURNED');
+    expect(saved!.history.map(event => event.status)).toEqual(['SHIPPED', 'RETURNED']);
+  });
+});
@@ -0,0 +1,137 @@
+import mongoose from 'mongoose';
+import StockCount from '../../src/models/StockCount';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import '../setup';
+
+describe('StockCount Database Operations', () => {
+  let userId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+
+  const createCount = (extra: Record<string, any> = {}) =>
+    StockCount.create({
+      warehouseId,
+      warehouseName: 'Test Warehouse',
+      lines: [
+        { itemId, itemName: 'Counted Item', snapshotQuantity: 100, unitCost: 50 },
+        { itemId: new mongoose.Types.ObjectId(), itemName: 'Empty Item', snapshotQuantity: 0, unitCost: 10 }
+      ],
+      createdBy: userId,
+      ...extra
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+  });
+
+  describe('CREATE Operations', () => {
+    it('should generate a count number and default threshold', async () => {
+      const count = await createCount();
+
+      expect(count.countNumber).toMatch(/^CNT-\d{4}-0001$/);
+      expect(count.status).toBe('OPEN');
+      expect(count.varianceThresholdPercent).toBe(5);
+      expect(count.lines[0].status).toBe('PENDING');
+    });
+  });
+
+  describe('Counting', () => {
+    it('should accept a count within the threshold', async () => {
+      const count = await createCount();
+      const line = count.lines[0];
+
+      count.recordCount(String(line._id), 97, userId);
+
+      expect(line.status).toBe('COUNTED');
+      expect(line.varianceQuantity).toBe(-3);
+      expect(line.varianceValue).toBe(-150);
+      expect(line.variancePercent).toBe(-3);
+    });
+
+    it('should require a recount above the threshold and take the recount as final', async () => {
+      const count = await createCount();
+      const line = count.lines[0];
+
+      count.recordCount(String(line._id), 80, userId);
+      expect(line.status).toBe('RECOUNT_REQUIRED');
+
+      count.recordCount(String(line._id), 82, userId);
+      expect(line.status).toBe('RECOUNTED');
+      expect(line.countedQuantity).toBe(80);
+      expect(line.recountQuantity).toBe(82);
+      expect(line.varianceQuantity).toBe(-18);
+    });
+
+    it('should treat stock found on an empty snapshot as a full variance', async () => {
+      const count = await createCount();
+      const line = count.lines[1];
+
+      count.recordCount(String(line._id), 4, userId);
+
+      expect(line.variancePercent).toBe(100);
+      expect(line.status).toBe('RECOUNT_REQUIRED');
+    });
+
+    it('should apply the value threshold when configured', async () => {
+      const count = await createCount({ varianceThresholdPercent: 50, varianceThresholdValue: 100 });
+      const line = count.lines[0];
+
+      count.recordCount(String(line._id), 97, userId);
+
+      expect(line.status).toBe('RECOUNT_REQUIRED');
+    });
+
+    it('should only be approvable once every line is counted', async () => {
+      const count = await createCount();
+
+      count.recordCount(String(count.lines[0]._id), 100, userId);
+      expect(count.canBeApproved()).toBe(false);
+
+      count.recordCount(String(count.lines[1]._id), 0, userId);
+      expect(count.canBeApproved()).toBe(true);
+    });
+  });
+
+  describe('Stock adjustment', () => {
+    it('should book a count shortage even when the stock is reserved', () => {
+      const stock = new InventoryStock({
+        itemId,
+        itemName: 'Counted Item',
+        warehouseId,
+        warehouseName: 'Test Warehouse',
+        currentQuantity: 10,
+        reservedQuantity: 8,
+        lastUpdatedBy: userId
+      });
+
+      stock.adjustQuantity(-5);
+
+      expect(stock.currentQuantity).toBe(5);
+      expect(stock.availableQuantity).toBe(0);
+    });
+
+    it('should count a warehouse with negative stock and book the whole variance', async () => {
+      const count = await createCount({
+        lines: [{ itemId, itemName: 'Counted Item', snapshotQuantity: -3, unitCost: 50 }]
+      });
+      count.recordCount(String(count.lines[0]._id), 2, userId);
+      expect(count.lines[0].varianceQuantity).toBe(5);
+
+      const stock = new InventoryStock({
+        itemId,
+        itemName: 'Counted Item',
+        warehouseId,
+        warehouseName: 'Test Warehouse',
+        currentQuantity: -3,
+        lastUpdatedBy: userId
+      });
+
+      stock.adjustQuantity(-2);
+      expect(stock.currentQuantity).toBe(-5);
+      stock.adjustQuantity(5);
+      expect(stock.currentQuantity).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import StockReservation from '../../src/models/StockReservation';
+import '../setup';
+
+describe('StockReservation Database Operations', () => {
+  let userId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+  let session: mongoose.ClientSession;
+
+  const source = {
+    sourceType: 'SALES_ORDER' as const,
+    sourceId: new mongoose.Types.ObjectId(),
+    sourceNumber: 'SO-2024-0001',
+    holderName: 'Customer Co'
+  };
+
+  const createStock = (warehouseName: string, currentQuantity: number) =>
+    InventoryStock.create({
+      itemId,
+      itemName: 'Widget',
+      warehouseId: new mongoose.Types.ObjectId(),
+      warehouseName,
+      currentQuantity,
+      lastUpdatedBy: userId
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+    session = await mongoose.startSession();
+  });
+
+  afterEach(async () => {
+    await session.endSession();
+  });
+
+  it('should reserve across warehouses and report the shortfall', async () => {
+    await createStock('Main', 30);
+    await createStock('Overflow', 10);
+
+    const { reservations, shortages } = await StockReservation.reserveForSource(
+      source, [{ itemId, quantity: 50 }], userId, session
+    );
+
+    expect(reservations.map(r => [r.warehouseName, r.quantity])).toEqual([['Main', 30], ['Overflow', 10]]);
+    expect(shortages).toEqual([expect.objectContaining({ requestedQuantity: 50, reservedQuantity: 40 })]);
+
+    const main = await InventoryStock.findOne({ itemId, warehouseName: 'Main' });
+    expect(main!.reservedQuantity).toBe(30);
+    expect(main!.availableQuantity).toBe(0);
+  });
+
+  it('should consume reservations when stock is issued to the order', async () => {
+    const stock = await createStock('Main', 30);
+    await StockReservation.reserveForSource(source, [{ itemId, quantity: 20 }], userId, session);
+
+    const reserved = await InventoryStock.findById(stock._id);
+    const consumed = await StockReservation.consumeForSource('SALES_ORDER', source.sourceId, reserved!, 15, session);
+
+    expect(consumed).toBe(15);
+    expect(reserved!.reservedQuantity).toBe(5);
+
+    const [reservation] = await StockReservation.find({ sourceId: source.sourceId });
+    expect(reservation.status).toBe('ACTIVE');
+    expect(reservation.getOpenQuantity()).toBe(5);
+  });
+
+  it('should hand open quantities back to stock when the order is cancelled', async () => {
+    const stock = await createStock('Main', 30);
+    await StockReservation.reserveForSource(source, [{ itemId, quantity: 20 }], userId, session);
+
+    const released = await StockReservation.releaseForSource('SALES_ORDER', source.sourceId, 'Cancelled', session);
+
+    expect(released).toHaveLength(1);
+    expect(released[0].status).toBe('RELEASED');
+    const restored = await InventoryStock.findById(stock._id);
+    expect(restored!.reservedQuantity).toBe(0);
+    expect(restored!.availableQuantity).toBe(30);
+  });
+});
@@ -0,0 +1,164 @@
+import mongoose from 'mongoose';
+import StorageBin from '../../src/models/StorageBin';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import '../setup';
+
+describe('StorageBin Database Operations', () => {
+  let userId: mongoose.Types.ObjectId;
+  let warehouseId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+
+  const createBin = (zone: string, aisle: string, rack: string, bin: string, extra: Record<string, any> = {}) =>
+    StorageBin.create({ warehouseId, zone, aisle, rack, bin, createdBy: userId, ...extra });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    warehouseId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+  });
+
+  describe('CREATE Operations', () => {
+    it('should derive the bin code from the location hierarchy', async () => {
+      const bin = await createBin('a', '01', 'r2', 'b3');
+
+      expect(bin.code).toBe('A-01-R2-B3');
+      expect(bin.isActive).toBe(true);
+    });
+
+    it('should reject a bin with a missing hierarchy segment', async () => {
+      await expect(StorageBin.create({
+        warehouseId,
+        zone: 'A',
+        aisle: '01',
+        rack: 'R1',
+        createdBy: userId
+      })).rejects.toThrow('Bin is required');
+    });
+  });
+
+  describe('Putaway suggestions', () => {
+    const stockWithBins = (binStocks: Array<{ binId: any; binCode: string; quantity: number }>) =>
+      InventoryStock.create({
+        itemId,
+        itemName: 'Test Item',
+        warehouseId,
+        warehouseName: 'Test Warehouse',
+        currentQuantity: binStocks.reduce((sum, b) => sum + b.quantity, 0),
+        binStocks,
+        lastUpdatedBy: userId
+      });
+
+    it('should prefer a bin that already holds the item', async () => {
+      await createBin('A', '01', 'R1', 'B1');
+      const itemBin = await createBin('A', '01', 'R1', 'B2');
+      await stockWithBins([{ binId: itemBin._id, binCode: itemBin.code, quantity: 10 }]);
+
+      const suggestion = await StorageBin.suggestPutaway(warehouseId, itemId, 'RAW_MATERIAL', 5);
+
+      expect(suggestion?.bin.code).toBe('A-01-R1-B2');
+      expect(suggestion?.reason).toBe('EXISTING_ITEM_BIN');
+      expect(suggestion?.occupiedQuantity).toBe(10);
+    });
+
+    it('should only consolidate with bins of the same owner', async () => {
+      await createBin('A', '01', 'R1', 'B1');
+      const consignedBin = await createBin('A', '01', 'R1', 'B2');
+      await InventoryStock.create({
+        itemId,
+        itemName: 'Test Item',
+        warehouseId,
+        warehouseName: 'Test Warehouse',
+        ownerType: 'SUPPLIER',
+        ownerId: new mongoose.Types.ObjectId(),
+        currentQuantity: 10,
+        binStocks: [{ binId: consignedBin._id, binCode: consignedBin.code, quantity: 10 }],
+        lastUpdatedBy: userId
+      });
+
+      const suggestion = await StorageBin.suggestPutaway(warehouseId, itemId, 'RAW_MATERIAL', 5);
+
+      expect(suggestion?.bin.code).toBe('A-01-R1-B1');
+      expect(suggestion?.reason).toBe('EMPTY_BIN');
+    });
+
+    it('should skip item bins without enough capacity', async () => {
+      const fullBin = await createBin('A', '01', 'R1', 'B1', { capacity: 12 });
+      await createBin('A', '01', 'R1', 'B2');
+      await stockWithBins([{ binId: fullBin._id, binCode: fullBin.code, quantity: 10 }]);
+
+      const suggestion = await StorageBin.suggestPutaway(warehouseId, itemId, 'RAW_MATERIAL', 5);
+
+      expect(suggestion?.bin.code).toBe('A-01-R1-B2');
+      expect(suggestion?.reason).toBe('EMPTY_BIN');
+    });
+
+    it('should only suggest empty bins that allow the item category', async () => {
+      await createBin('A', '01', 'R1', 'B1', { allowedCategories: ['FINISHED_PRODUCT'] });
+      await createBin('A', '01', 'R1', 'B2');
+      await createBin('A', '01', 'R1', 'B3', { allowedCategories: ['RAW_MATERIAL'] });
+
+      const suggestion = await StorageBin.suggestPutaway(warehouseId, itemId, 'RAW_MATERIAL', 5);
+
+      expect(suggestion?.bin.code).toBe('A-01-R1-B3');
+    });
+
+    it('should return null when no bin can take the quantity', async () => {
+      await createBin('A', '01', 'R1', 'B1', { capacity: 3 });
+
+      const suggestion = await StorageBin.suggestPutaway(warehouseId, itemId, 'RAW_MATERIAL', 5);
+
+      expect(suggestion).toBeNull();
+    });
+
+    it('should give the same suggestion when reading through a session', async () => {
+      await createBin('A', '01', 'R1', 'B1');
+      const itemBin = await createBin('A', '01', 'R1', 'B2');
+      await stockWithBins([{ binId: itemBin._id, binCode: itemBin.code, quantity: 10 }]);
+
+      const session = await mongoose.startSession();
+      try {
+        const suggestion = await StorageBin.suggestPutaway(warehouseId, itemId, 'RAW_MATERIAL', 5, session);
+
+        expect(suggestion?.bin.code).toBe('A-01-R1-B2');
+        expect(suggestion?.occupiedQuantity).toBe(10);
+      } finally {
+        await session.endSession();
+      }
+    });
+  });
+
+  describe('Bin stock on InventoryStock', () => {
+    it('should drain unbinned stock before bins when no bin is given', async () => {
+      const bin = await createBin('A', '01', 'R1', 'B1');
+      const stock = new InventoryStock({
+        itemId,
+        itemName: 'Test Item',
+        warehouseId,
+        warehouseName: 'Test Warehouse',
+        currentQuantity: 15,
+        lastUpdatedBy: userId
+      });
+      stock.addToBin(bin._id, bin.code, 10);
+
+      expect(stock.removeFromBins(8)).toBe(true);
+      expect(stock.binStocks?.[0].quantity).toBe(7);
+    });
+
+    it('should refuse to pick more than a bin holds', async () => {
+      const bin = await createBin('A', '01', 'R1', 'B1');
+      const stock = new InventoryStock({
+        itemId,
+        itemName: 'Test Item',
+        warehouseId,
+        warehouseName: 'Test Warehouse',
+        currentQuantity: 10,
+        lastUpdatedBy: userId
+      });
+      stock.addToBin(bin._id, bin.code, 10);
+
+      expect(stock.removeFromBins(11, bin._id)).toBe(false);
+      expect(stock.removeFromBins(10, bin._id)).toBe(true);
+      expect(stock.binStocks).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import { InventoryStock } from '../../src/models/InventoryStock';
+import { InventoryTransaction } from '../../src/models/InventoryTransaction';
+import { StockReservation } from '../../src/models/StockReservation';
+import { StockTransfer } from '../../src/models/StockTransfer';
+import { shipTransfer, receiveTransfer, cancelTransfer } from '../../src/jobs/transfers';
+import '../setup';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Stock transfers', () => {
+  let userId: mongoose.Types.ObjectId;
+  let itemId: mongoose.Types.ObjectId;
+  let fromWarehouseId: mongoose.Types.ObjectId;
+  let toWarehouseId: mongoose.Types.ObjectId;
+  let user: { id: string; name: string };
+
+  const sourceStock = () => InventoryStock.findOne({ itemId, warehouseId: fromWarehouseId, ownerId: null });
+
+  const createTransfer = (quantity: number) =>
+    StockTransfer.create({
+      fromWarehouseId,
+      fromWarehouseName: 'Main',
+      toWarehouseId,
+      toWarehouseName: 'Branch',
+      status: 'APPROVED',
+      items: [{ itemId, itemName: 'Bolt', quantity }],
+      createdBy: userId
+    });
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    itemId = new mongoose.Types.ObjectId();
+    fromWarehouseId = new mongoose.Types.ObjectId();
+    toWarehouseId = new mongoose.Types.ObjectId();
+    user = { id: userId.toString(), name: 'Tester' };
+
+    await InventoryStock.create({
+      itemId,
+      itemName: 'Bolt',
+      warehouseId: fromWarehouseId,
+      warehouseName: 'Main',
+      currentQuantity: 50,
+      averageUnitCost: 100,
+      lastUpdatedBy: userId
+    });
+  });
+
+  it('should hold shipped goods with a transfer reservation and refuse a shipment the stock cannot cover', async () => {
+    const short = await createTransfer(60);
+    const refused = await shipTransfer(short, user);
+    expect(refused.error).toContain('사용 가능한 재고가 부족합니다');
+    expect(await StockReservation.countDocuments({ sourceId: short._id })).toBe(0);
+
+    const transfer = await createTransfer(20);
+    const { reservations, error } = await shipTransfer(transfer, user);
+    expect(error).toBeUndefined();
+    expect(transfer.status).toBe('IN_TRANSIT');
+    expect(transfer.items[0].unitCost).toBe(100);
+    expect(reservations.map(row => [row.sourceType, row.sourceNumber, row.holderName, row.quantity, row.status]))
+      .toEqual([['TRANSFER', transfer.transferNumber, 'Branch', 20, 'ACTIVE']]);
+
+    const stock = await sourceStock();
+    expect(stock?.reservedQuantity).toBe(20);
+    expect(stock?.availableQuantity).toBe(30);
+  });
+
+  it('should date the outgoing leg at shipment and the incoming leg at receipt', async () => {
+    const transfer = await createTransfer(20);
+    await shipTransfer(transfer, user);
+    const shippedAt = new Date(Date.now() - 3 * DAY);
+    transfer.shippedAt = shippedAt;
+    await transfer.save();
+
+    // A receipt at the source after the shipment, booked while the goods were on the road
+    const stock = await sourceStock();
+    stock!.addStock(5, 100);
+    await stock!.save();
+    const later = await InventoryTransaction.create({
+      itemId,
+      itemName: 'Bolt',
+      warehouseId: fromWarehouseId,
+      warehouseName: 'Main',
+      transactionType: 'IN',
+      quantity: 5,
+      unitPrice: 100,
+      previousQuantity: 50,
+      currentQuantity: 55,
+      transactionDate: new Date(Date.now() - DAY),
+      userId,
+      userName: 'Tester'
+    });
+
+    const { transactions, recalculations, error } = await receiveTransfer(transfer, [], user);
+    expect(error).toBeUndefined();
+    expect(transfer.status).toBe('RECEIVED');
+
+    const [outLeg, inLeg] = transactions;
+    expect(outLeg.transactionDate.getTime()).toBe(shippedAt.getTime());
+    expect(inLeg.transactionDate.getTime()).toBe(transfer.receivedAt!.getTime());
+
+    // The outgoing leg slots in before the later receipt, whose balance is rebuilt
+    const storedOut = await InventoryTransaction.findById(outLeg._id);
+    expect([storedOut?.previousQuantity, storedOut?.currentQuantity]).toEqual([50, 30]);
+    const storedLater = await InventoryTransaction.findById(later._id);
+    expect([storedLater?.previousQuantity, storedLater?.currentQuantity]).toEqual([30, 35]);
+    expect(recalculations).toHaveLength(1);
+
+    const source = await sourceStock();
+    expect(source?.currentQuantity).toBe(35);
+    expect(source?.reservedQuantity).toBe(0);
+    const destination = await InventoryStock.findOne({ itemId, warehouseId: toWarehouseId, ownerId: null });
+    expect(destination?.currentQuantity).toBe(20);
+    expect(destination?.averageUnitCost).toBe(100);
+
+    const reservation = await StockReservation.findOne({ sourceType: 'TRANSFER', sourceId: transfer._id });
+    expect(reservation?.status).toBe('CONSUMED');
+    expect(reservation?.consumedQuantity).toBe(20);
+  });
+
+  it('should hand an in-transit transfer back to the source when cancelled', async () => {
+    const transfer = await createTransfer(20);
+    await shipTransfer(transfer, user);
+
+    await cancelTransfer(transfer, 'Wrong branch', user);
+    expect(transfer.status).toBe('CANCELLED');
+    expect(transfer.notes).toContain('Wrong branch');
+
+    const reservation = await StockReservation.findOne({ sourceType: 'TRANSFER', sourceId: transfer._id });
+    expect(reservation?.status).toBe('RELEASED');
+    expect(reservation?.releaseReason).toBe('Wrong branch');
+
+    const stock = await sourceStock();
+    expect(stock?.currentQuantity).toBe(50);
+    expect(stock?.reservedQuantity).toBe(0);
+    expect(stock?.availableQuantity).toBe(50);
+    expect(await InventoryTransaction.countDocuments({ referenceId: transfer._id })).toBe(0);
+  });
+
+  it('should leave reservations of other documents on the source stock alone', async () => {
+    const salesOrderId = new mongoose.Types.ObjectId();
+    await StockReservation.reserveForSource(
+      { sourceType: 'SALES_ORDER', sourceId: salesOrderId, sourceNumber: 'SO-2024-0001' },
+      [{ itemId, quantity: 10 }],
+      userId,
+      null,
+      fromWarehouseId.toString()
+    );
+
+    const received = await createTransfer(15);
+    await shipTransfer(received, user);
+    await receiveTransfer(received, [], user);
+    expect((await sourceStock())?.reservedQuantity).toBe(10);
+
+    const cancelled = await createTransfer(5);
+    await shipTransfer(cancelled, user);
+    // Released by hand, so cancelling has nothing of its own left to hand back
+    await StockReservation.releaseForSource('TRANSFER', cancelled._id, 'Released', null);
+    await cancelTransfer(cancelled, undefined, user);
+
+    const stock = await sourceStock();
+    expect(stock?.currentQuantity).toBe(35);
+    expect(stock?.reservedQuantity).toBe(10);
+    expect((await StockReservation.findOne({ sourceId: salesOrderId }))?.status).toBe('ACTIVE');
+  });
+});
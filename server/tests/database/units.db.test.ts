@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import { UnitOfMeasure, DEFAULT_UNITS } from '../../src/models/UnitOfMeasure';
+import { PurchaseOrder } from '../../src/models/Purchase';
+import '../setup';
+
+describe('Units of measure', () => {
+  let userId: mongoose.Types.ObjectId;
+
+  beforeEach(async () => {
+    userId = new mongoose.Types.ObjectId();
+    await UnitOfMeasure.insertMany(DEFAULT_UNITS.map(unit => ({ ...unit, createdBy: userId })));
+  });
+
+  it('should prefer the item conversion for packaging units', async () => {
+    const item = { unit: 'EA', unitConversions: [{ unit: 'BOX', factor: 24 }] };
+
+    expect(await UnitOfMeasure.toBase(item, 3, 'box')).toBe(72);
+    expect(await UnitOfMeasure.toBase(item, 5, 'EA')).toBe(5);
+    expect(await UnitOfMeasure.toBase(item, 5)).toBe(5);
+  });
+
+  it('should convert within a category and refuse across categories', async () => {
+    const item = { unit: 'KG' };
+
+    expect(await UnitOfMeasure.toBase(item, 2500, 'G')).toBe(2.5);
+    expect(await UnitOfMeasure.toBase(item, 1.2, 'TON')).toBe(1200);
+    expect(await UnitOfMeasure.toBase(item, 3, 'L')).toBeNull();
+    expect(await UnitOfMeasure.toBase(item, 3, 'BOX')).toBeNull();
+    expect(await UnitOfMeasure.toBase({ unit: 'HR' }, 90, 'MIN')).toBe(1.5);
+  });
+
+  it('should not convert through an inactive unit', async () => {
+    await UnitOfMeasure.updateOne({ code: 'G' }, { isActive: false });
+
+    expect(await UnitOfMeasure.toBase({ unit: 'KG' }, 2500, 'G')).toBeNull();
+  });
+
+  it('should keep purchase order lines in the base unit when none was entered', async () => {
+    const order = await PurchaseOrder.create({
+      orderNumber: 'PO-2024-0001',
+      supplierId: new mongoose.Types.ObjectId(),
+      orderDate: new Date(),
+      items: [
+        { itemId: new mongoose.Types.ObjectId(), quantity: 30, unitPrice: 50, totalPrice: 1500 },
+        { itemId: new mongoose.Types.ObjectId(), quantity: 2, unit: 'BOX', baseQuantity: 48, baseUnit: 'EA', unitPrice: 1200, totalPrice: 2400 }
+      ],
+      subtotal: 3900,
+      taxAmount: 0,
+      totalAmount: 3900,
+      createdBy: userId
+    });
+
+    expect(order.items[0].baseQuantity).toBe(30);
+    expect(order.items[1].baseQuantity).toBe(48);
+    expect(order.items[1].unit).toBe('BOX');
+  });
+});
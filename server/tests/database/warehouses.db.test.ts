@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import Warehouse from '../../src/models/Warehouse';
+import '../setup';
+
+describe('Warehouse Database Operations', () => {
+  let testUser: any;
+
+  beforeEach(async () => {
+    testUser = { _id: new mongoose.Types.ObjectId() };
+  });
+
+  describe('CREATE Operations', () => {
+    it('should create a valid raw material warehouse', async () => {
+      const warehouse = await Warehouse.create({
+        code: 'wh-rm01',
+        name: '원자재 창고',
+        type: 'RAW_MATERIAL',
+        address: '경기도 화성시 산업로 1',
+        managerName: '김창고',
+        createdBy: testUser._id
+      });
+
+      expect(warehouse).toBeDefined();
+      expect(warehouse.code).toBe('WH-RM01');
+      expect(warehouse.type).toBe('RAW_MATERIAL');
+      expect(warehouse.isActive).toBe(true);
+      expect(warehouse.createdAt).toBeDefined();
+    });
+
+    it('should create warehouses of every supported type', async () => {
+      const types = ['RAW_MATERIAL', 'WIP', 'FINISHED_GOODS', 'QUARANTINE'];
+
+      for (const [index, type] of types.entries()) {
+        const warehouse = await Warehouse.create({
+          code: `WH-${index}`,
+          name: `${type} Warehouse`,
+          type,
+          createdBy: testUser._id
+        });
+        expect(warehouse.type).toBe(type);
+      }
+
+      expect(await Warehouse.countDocuments()).toBe(types.length);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should fail without required fields', async () => {
+      await expect(Warehouse.create({ createdBy: testUser._id })).rejects.toThrow();
+    });
+
+    it('should fail with an invalid type', async () => {
+      await expect(Warehouse.create({
+        code: 'WH-X',
+        name: 'Invalid Warehouse',
+        type: 'OFFICE',
+        createdBy: testUser._id
+      })).rejects.toThrow();
+    });
+
+    it('should fail with a code longer than 20 characters', async () => {
+      await expect(Warehouse.create({
+        code: 'W'.repeat(21),
+        name: 'Long Code Warehouse',
+        type: 'WIP',
+        createdBy: testUser._id
+      })).rejects.toThrow('Warehouse code cannot exceed 20 characters');
+    });
+
+    it('should reject duplicate codes', async () => {
+      await Warehouse.init();
+      await Warehouse.create({
+        code: 'WH-DUP',
+        name: 'First',
+        type: 'WIP',
+        createdBy: testUser._id
+      });
+
+      await expect(Warehouse.create({
+        code: 'wh-dup',
+        name: 'Second',
+        type: 'WIP',
+        createdBy: testUser._id
+      })).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import mongoose from 'mongoose';
+import Item from '../../src/models/Item';
+import { WorkOrder } from '../../src/models/WorkOrder';
+import { migrateWorkOrders } from '../../src/jobs/work-orders';
+import '../setup';
+
+describe('Work orders', () => {
+  let userId: mongoose.Types.ObjectId;
+
+  const createItem = (code: string, unit = 'EA') =>
+    Item.create({
+      code,
+      name: `Item ${code}`,
+      category: 'FINISHED_PRODUCT',
+      unit,
+      price: 0,
+      cost: 10,
+      createdBy: userId
+    });
+
+  beforeEach(() => {
+    userId = new mongoose.Types.ObjectId();
+  });
+
+  it('should move through the status machine and reject skipped steps', async () => {
+    const item = await createItem('WO-PRD');
+    const workOrder = await WorkOrder.create({
+      itemId: item._id,
+      quantity: 10,
+      unit: 'EA',
+      workCenter: 'LINE-1',
+      startDate: new Date('2025-03-01'),
+      endDate: new Date('2025-03-05'),
+      createdBy: userId
+    });
+
+    expect(workOrder.status).toBe('DRAFT');
+    expect(workOrder.orderNumber).toMatch(/^WO-\d{4}-0001$/);
+    expect(() => workOrder.start()).toThrow();
+
+    workOrder.release();
+    expect(workOrder.releasedAt).toBeDefined();
+    workOrder.start();
+    workOrder.pause('Tooling');
+    workOrder.resume();
+    workOrder.complete(10);
+    expect(() => workOrder.cancel()).toThrow();
+    workOrder.close();
+
+    expect(workOrder.status).toBe('CLOSED');
+    expect(workOrder.canTransition('IN_PROGRESS')).toBe(false);
+  });
+
+  it('should number orders saved together in one session one after another', async () => {
+    const item = await createItem('WO-BATCH');
+    const session = await mongoose.startSession();
+    try {
+      const orders = [];
+      for (const workCenter of ['LINE-1', 'LINE-2']) {
+        const [order] = await WorkOrder.create([{
+          itemId: item._id,
+          quantity: 5,
+          unit: 'EA',
+          workCenter,
+          startDate: new Date('2025-03-01'),
+          endDate: new Date('2025-03-02'),
+          createdBy: userId
+        }], { session });
+        orders.push(order);
+      }
+
+      expect(orders.map(order => order.orderNumber.slice(-4))).toEqual(['0001', '0002']);
+      expect(await WorkOrder.countDocuments().session(session)).toBe(2);
+    } finally {
+      await session.endSession();
+    }
+  });
+
+  it('should migrate orders written by the former production model and retired statuses', async () => {
+    const product = await createItem('LEGACY-PRD', 'SET');
+    const component = await createItem('LEGACY-CMP', 'KG');
+    await WorkOrder.collection.insertMany([
+      {
+        workOrderNumber: 'wo-legacy-1',
+        productId: product._id,
+        bomId: new mongoose.Types.ObjectId(),
+        plannedQuantity: 5,
+        completedQuantity: 2,
+        scrapQuantity: 1,
+        status: 'IN_PROGRESS',
+        priority: 'MEDIUM',
+        plannedStartDate: new Date('2025-02-01'),
+        plannedEndDate: new Date('2025-02-03'),
+        startDate: new Date('2025-02-01'),
+        items: [{ itemId: component._id, requiredQuantity: 4, allocatedQuantity: 4, consumedQuantity: 3, status: 'ALLOCATED' }],
+        totalMaterialCost: 0,
+        totalCost: 0,
+        qualityChecked: false,
+        isActive: true,
+        createdBy: userId
+      },
+      {
+        orderNumber: 'WO-PENDING-1',
+        itemId: product._id,
+        quantity: 1,
+        unit: 'SET',
+        workCenter: 'LINE-1',
+        startDate: new Date('2025-02-01'),
+        endDate: new Date('2025-02-02'),
+        status: 'PENDING',
+        isActive: true,
+        createdBy: userId
+      }
+    ]);
+
+    expect(await migrateWorkOrders()).toEqual({ converted: 1, drafts: 1, released: 0 });
+
+    const converted = await WorkOrder.findOne({ orderNumber: 'WO-LEGACY-1' });
+    expect(converted).toMatchObject({
+      quantity: 5,
+      unit: 'SET',
+      defectQuantity: 1,
+      priority: 'NORMAL',
+      status: 'IN_PROGRESS',
+      workCenter: 'UNASSIGNED'
+    });
+    expect(converted!.materials[0]).toMatchObject({ requiredQuantity: 4, issuedQuantity: 3, unit: 'KG' });
+    expect(converted!.get('workOrderNumber')).toBeUndefined();
+    expect((await WorkOrder.findOne({ orderNumber: 'WO-PENDING-1' }))!.status).toBe('DRAFT');
+
+    expect(await migrateWorkOrders()).toEqual({ converted: 0, drafts: 0, released: 0 });
+  });
+});
@@ -0,0 +1,164 @@
+import { test, expect } from '@playwright/test';
+import { encodeCode128, encodeQr } from '../lib/barcode';
+
+const moduleString = (modules: boolean[]) => modules.map(dark => (dark ? '1' : '0')).join('');
+
+test.describe('Code 128', () => {
+  test('encodes start B, the data, the check symbol and stop', () => {
+    // Check symbol for "AB": (104 + 33 × 1 + 34 × 2) mod 103 = 102
+    expect(moduleString(encodeCode128('AB'))).toBe([
+      '11010010000', // start B
+      '10100011000', // A (33)
+      '10001011000', // B (34)
+      '11110101110', // check symbol 102
+      '1100011101011' // stop
+    ].join(''));
+  });
+
+  test('weights the check symbol by position', () => {
+    // 104 + 48 + 42 × 2 + 42 × 3 + 17 × 4 + 18 × 5 + 19 × 6 + 35 × 7 = 879, and 879 mod 103 = 55
+    const modules = encodeCode128('PJJ123C');
+
+    expect(modules).toHaveLength(11 * 9 + 13);
+    expect(moduleString(modules).slice(11 * 8, 11 * 9)).toBe('11101000110');
+  });
+
+  test('rejects characters outside code set B', () => {
+    expect(() => encodeCode128('LOT\n1')).toThrow('Code 128 라벨에 사용할 수 없는 문자입니다');
+    expect(() => encodeCode128('로트')).toThrow();
+  });
+});
+
+test.describe('QR Code', () => {
+  // Format information for error correction level M, masks 0-7, after the 0x5412 XOR
+  const FORMAT_M = [0x5412, 0x5125, 0x5e7c, 0x5b4b, 0x45f9, 0x40ce, 0x4f97, 0x4aa0];
+  // Data masks by row i and column j
+  const MASKS: Array<(i: number, j: number) => boolean> = [
+    (i, j) => (i + j) % 2 === 0,
+    (i) => i % 2 === 0,
+    (i, j) => j % 3 === 0,
+    (i, j) => (i + j) % 3 === 0,
+    (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+    (i, j) => (i * j) % 2 + (i * j) % 3 === 0,
+    (i, j) => ((i * j) % 2 + (i * j) % 3) % 2 === 0,
+    (i, j) => ((i + j) % 2 + (i * j) % 3) % 2 === 0
+  ];
+
+  const readBits = (modules: boolean[][], cells: Array<[number, number]>) =>
+    cells.reduce((value, [x, y], bit) => value | ((modules[y][x] ? 1 : 0) << bit), 0);
+
+  // Both copies of the format information, least significant bit first
+  const readFormat = (modules: boolean[][]) => {
+    const size = modules.length;
+    const first: Array<[number, number]> = [
+      [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+      [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]
+    ];
+    const second: Array<[number, number]> = [
+      ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 1 - i, 8]),
+      ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 7 + i])
+    ];
+    return [readBits(modules, first), readBits(modules, second)];
+  };
+
+  // Unmasks a version 1 symbol and reads its 26 codewords in placement order
+  const readCodewords = (modules: boolean[][], mask: number) => {
+    const size = modules.length;
+    const reserved = (x: number, y: number) =>
+      x === 6 || y === 6 || (x <= 8 && y <= 8) || (x >= size - 8 && y <= 8) || (x <= 8 && y >= size - 8);
+    const bits: number[] = [];
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vert = 0; vert < size; vert++) {
+        for (const x of [right, right - 1]) {
+          const y = upward ? size - 1 - vert : vert;
+          if (!reserved(x, y)) bits.push(modules[y][x] !== MASKS[mask](y, x) ? 1 : 0);
+        }
+      }
+    }
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+    return codewords;
+  };
+
+  const gfMultiply = (a: number, b: number) => {
+    let product = 0;
+    for (; b > 0; b >>= 1) {
+      if (b & 1) product ^= a;
+      a <<= 1;
+      if (a & 0x100) a ^= 0x11d;
+    }
+    return product;
+  };
+
+  // A valid Reed-Solomon codeword evaluates to zero at α^0 … α^(n-1)
+  const syndromes = (codewords: number[], eccLength: number) => {
+    const result: number[] = [];
+    for (let k = 0, root = 1; k < eccLength; k++, root = gfMultiply(root, 2)) {
+      result.push(codewords.reduce((sum, codeword) => gfMultiply(sum, root) ^ codeword, 0));
+    }
+    return result;
+  };
+
+  test('draws the finder, timing and dark modules of a version 1 symbol', () => {
+    const modules = encodeQr('HELLO');
+    const size = modules.length;
+    const row = (y: number, x: number) => moduleString(modules[y].slice(x, x + 7));
+
+    expect(size).toBe(21);
+    for (const [x, y] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+      expect([0, 1, 2, 3, 4, 5, 6].map(dy => row(y + dy, x))).toEqual([
+        '1111111', '1000001', '1011101', '1011101', '1011101', '1000001', '1111111'
+      ]);
+    }
+    expect(moduleString(modules[6].slice(8, size - 8))).toBe('10101');
+    expect(moduleString(modules.slice(8, size - 8).map(line => line[6]))).toBe('10101');
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  test('writes matching level M format information for the chosen mask', () => {
+    const [first, second] = readFormat(encodeQr('HELLO'));
+
+    expect(FORMAT_M).toContain(first);
+    expect(second).toBe(first);
+  });
+
+  test('places byte-mode data and Reed-Solomon codewords for a fixed input', () => {
+    const modules = encodeQr('HELLO');
+    const mask = FORMAT_M.indexOf(readFormat(modules)[0]);
+    const codewords = readCodewords(modules, mask);
+
+    // Mode 0100, count 5, "HELLO", terminator, then alternating pad bytes up to 16 data codewords
+    expect(codewords.slice(0, 16)).toEqual([
+      0x40, 0x54, 0x84, 0x54, 0xc4, 0xc4, 0xf0, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11, 0xec, 0x11, 0xec
+    ]);
+    expect(codewords).toHaveLength(26);
+    expect(syndromes(codewords, 10)).toEqual(new Array(10).fill(0));
+  });
+
+  test('picks the smallest version and writes version information from version 7', () => {
+    expect(encodeQr('A'.repeat(14))).toHaveLength(21);
+    expect(encodeQr('A'.repeat(15))).toHaveLength(25);
+
+    const modules = encodeQr('A'.repeat(110));
+    const size = modules.length;
+    const topRight = Array.from({ length: 18 }, (_, i): [number, number] => [size - 11 + i % 3, Math.floor(i / 3)]);
+    const bottomLeft = topRight.map(([x, y]): [number, number] => [y, x]);
+
+    expect(size).toBe(45);
+    expect(readBits(modules, topRight)).toBe(0x07c94);
+    expect(readBits(modules, bottomLeft)).toBe(0x07c94);
+  });
+
+  test('counts UTF-8 bytes and refuses text beyond version 10', () => {
+    const modules = encodeQr('가');
+    const mask = FORMAT_M.indexOf(readFormat(modules)[0]);
+    // Mode 0100 and count 3, then the first bytes of EA B0 80
+    expect(readCodewords(modules, mask).slice(0, 3)).toEqual([0x40, 0x3e, 0xab]);
+
+    expect(() => encodeQr('A'.repeat(214))).toThrow('QR 라벨에 담기에는 내용이 너무 깁니다.');
+  });
+});